@@ -1,11 +1,16 @@
-import { Tabs, Redirect } from "expo-router"
+import { Tabs, Redirect, router } from "expo-router"
 import { View, ActivityIndicator } from "react-native"
 import { HouseIcon, ShieldIcon, ArrowsLeftRightIcon } from "phosphor-react-native"
 import type { IconProps } from "phosphor-react-native"
-import type { ComponentType } from "react"
+import { useEffect, type ComponentType } from "react"
 import { useWalletStore } from "@/stores/wallet"
 import { useSettingsStore } from "@/stores/settings"
 import { usePrivacyStore } from "@/stores/privacy"
+import { useProgramDeploymentCheck } from "@/hooks/useProgramDeploymentCheck"
+import { useTransactionTracker } from "@/hooks/useTransactionTracker"
+import { useOutboxSender } from "@/hooks/useOutboxSender"
+import { useSwapOrderExecutor } from "@/hooks/useSwapOrderExecutor"
+import { addScheduledPaymentNotificationListener } from "@/services/backgroundScan"
 import { ICON_COLORS } from "@/constants/icons"
 
 type TabIconProps = {
@@ -30,6 +35,27 @@ export default function TabsLayout() {
   const { _hasHydrated: settingsHydrated, hasCompletedOnboarding } = useSettingsStore()
   const { _hasHydrated: privacyHydrated } = usePrivacyStore()
 
+  // Localnet: make sure sip_privacy is loaded and initialized
+  useProgramDeploymentCheck()
+
+  // Finish confirming sends and swaps left pending by a previous session
+  useTransactionTracker()
+
+  // Submit shielded sends queued while offline
+  useOutboxSender()
+
+  // Fill limit and DCA swap orders while the app is open
+  useSwapOrderExecutor()
+
+  // "Scheduled payment due" notification: open it for confirmation
+  useEffect(
+    () =>
+      addScheduledPaymentNotificationListener((id) =>
+        router.push({ pathname: "/scheduled", params: { id } })
+      ),
+    []
+  )
+
   // Wait for ALL stores to hydrate before checking gates
   if (!walletHydrated || !settingsHydrated || !privacyHydrated) {
     return (
@@ -4,6 +4,7 @@
  * Main dashboard showing:
  * - Avatar + sidebar trigger
  * - Balance card with hide toggle
+ * - Private balance (unclaimed stealth funds, pending, provider-held)
  * - Send/Receive/Scan quick actions
  * - Featured tokens list
  * - Privacy stats row
@@ -26,6 +27,7 @@ import { usePrivacyStore } from "@/stores/privacy"
 import { useSettingsStore } from "@/stores/settings"
 import { useClaim } from "@/hooks/useClaim"
 import { useBalance } from "@/hooks/useBalance"
+import { usePrivateBalance, type PrivateBalanceToken } from "@/hooks/usePrivateBalance"
 import { useToastStore } from "@/stores/toast"
 import { AccountAvatar, useSidebar, Sidebar, ErrorBoundary } from "@/components"
 import { FEATURED_TOKENS, getToken, formatTokenAmount } from "@/data/tokens"
@@ -48,6 +50,19 @@ import type { PaymentRecord } from "@/types"
 // HELPERS
 // ============================================================================
 
+/**
+ * Where a token's private balance sits, e.g. "0.5 unclaimed · 0.2 in providers"
+ */
+function formatPrivateSources(token: PrivateBalanceToken): string {
+  return [
+    token.stealth > 0 && `${formatTokenAmount(token.stealth, 9)} unclaimed`,
+    token.pending > 0 && `${formatTokenAmount(token.pending, 9)} pending`,
+    token.provider > 0 && `${formatTokenAmount(token.provider, 9)} in providers`,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
 function formatTimeAgo(timestamp: number): string {
   const now = Date.now()
   const diffMs = now - timestamp
@@ -80,7 +95,7 @@ function getStatusColor(status: PaymentRecord["status"]): string {
   }
 }
 
-function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet"): string {
+function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet" | "localnet"): string {
   switch (network) {
     case "mainnet-beta":
       return "Mainnet"
@@ -88,12 +103,14 @@ function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet"):
       return "Devnet"
     case "testnet":
       return "Testnet"
+    case "localnet":
+      return "Localnet"
     default:
       return "Unknown"
   }
 }
 
-function getNetworkBadgeColor(network: "mainnet-beta" | "devnet" | "testnet"): string {
+function getNetworkBadgeColor(network: "mainnet-beta" | "devnet" | "testnet" | "localnet"): string {
   switch (network) {
     case "mainnet-beta":
       return "bg-green-900/30 text-green-400"
@@ -101,6 +118,8 @@ function getNetworkBadgeColor(network: "mainnet-beta" | "devnet" | "testnet"): s
       return "bg-yellow-900/30 text-yellow-400"
     case "testnet":
       return "bg-orange-900/30 text-orange-400"
+    case "localnet":
+      return "bg-cyan-900/30 text-cyan-400"
     default:
       return "bg-dark-800 text-dark-400"
   }
@@ -201,6 +220,13 @@ function HomeScreen() {
   const activeAccount = accounts.find((a) => a.id === activeAccountId)
   const { getClaimableAmount, getUnclaimedPayments } = useClaim()
   const { balance, usdValue, isLoading: balanceLoading, refresh: refreshBalance, tokenBalances } = useBalance()
+  const {
+    tokens: privateTokens,
+    totalUsd: privateUsd,
+    unverifiedPayments,
+    isLoading: privateLoading,
+    refresh: refreshPrivateBalance,
+  } = usePrivateBalance()
   const [refreshing, setRefreshing] = useState(false)
 
   // Mark when home screen first renders
@@ -235,9 +261,9 @@ function HomeScreen() {
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true)
-    await refreshBalance()
+    await Promise.all([refreshBalance(), refreshPrivateBalance()])
     setRefreshing(false)
-  }, [refreshBalance])
+  }, [refreshBalance, refreshPrivateBalance])
 
   const handleTransactionPress = useCallback((payment: PaymentRecord) => {
     router.push(`/history/${payment.id}`)
@@ -353,6 +379,58 @@ function HomeScreen() {
           )}
         </View>
 
+        {/* Private Balance */}
+        {isConnected && (
+          <View
+            testID="private-balance"
+            className="bg-dark-900 rounded-2xl p-4 mt-3 border border-brand-800/40"
+          >
+            <View className="flex-row items-center justify-between">
+              <View className="flex-row items-center gap-1.5">
+                <LockIcon size={14} weight="fill" color={ICON_COLORS.brand} />
+                <Text className="text-dark-400 text-sm">Private Balance</Text>
+              </View>
+              <Text className="text-white font-semibold">
+                {hideBalances
+                  ? "******"
+                  : privateLoading && privateTokens.length === 0
+                    ? "..."
+                    : `≈ $${privateUsd.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+              </Text>
+            </View>
+            {privateTokens.length === 0 ? (
+              <Text className="text-dark-500 text-sm mt-2">
+                {privateLoading ? "Checking stealth accounts..." : "Nothing held privately yet"}
+              </Text>
+            ) : (
+              privateTokens.map((token) => (
+                <View
+                  key={token.mint}
+                  className="flex-row items-center justify-between mt-3"
+                  accessibilityLabel={hideBalances ? `${token.symbol} private balance hidden` : `${token.total} ${token.symbol} private, ${formatPrivateSources(token)}`}
+                >
+                  <View className="flex-1 mr-3">
+                    <Text className="text-white">
+                      {hideBalances ? "******" : `${formatTokenAmount(token.total, 9)} ${token.symbol}`}
+                    </Text>
+                    {!hideBalances && (
+                      <Text className="text-dark-500 text-xs mt-0.5">{formatPrivateSources(token)}</Text>
+                    )}
+                  </View>
+                  <Text className="text-dark-400 text-sm">
+                    {hideBalances ? "******" : `$${token.balanceUsd.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                  </Text>
+                </View>
+              ))
+            )}
+            {unverifiedPayments > 0 && !hideBalances && (
+              <Text className="text-dark-600 text-xs mt-3">
+                {unverifiedPayments} unclaimed payment{unverifiedPayments !== 1 ? "s" : ""} shown at the recorded amount (not verified on-chain)
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Quick Actions */}
         <View className="flex-row justify-center gap-8 mt-6">
           {[
@@ -5,6 +5,8 @@
  * - Token selection with balances
  * - Real-time quote display
  * - Privacy toggle (shielded/public)
+ * - Swap and pay: private swap output delivered to a recipient's stealth address
+ * - Limit and DCA orders, filled privately while the app is open
  * - Slippage settings
  * - Route visualization
  */
@@ -37,6 +39,7 @@ import { ICON_COLORS } from "@/constants/icons"
 import { useWalletStore } from "@/stores/wallet"
 import { useSettingsStore } from "@/stores/settings"
 import { useToastStore } from "@/stores/toast"
+import { useContactsStore } from "@/stores/contacts"
 import { getProviderInfo } from "@/privacy-providers"
 import {
   useBiometrics,
@@ -45,9 +48,12 @@ import {
   useSwap,
   useBalance,
   useTokenPrices,
+  useRecipientResolution,
+  useSwapOrders,
   getSwapStatusMessage,
   isSwapInProgress,
   isSwapComplete,
+  type SwapRecipient,
 } from "@/hooks"
 import { Button, Modal } from "@/components/ui"
 import { TokenIcon } from "@/components/TokenIcon"
@@ -56,7 +62,13 @@ import {
   POPULAR_TOKENS,
   formatTokenAmount,
 } from "@/data/tokens"
+import { stealthTargetUri, type RecipientResolution } from "@/lib/recipient-resolution"
+import { getContactStealthAddress } from "@/utils/scheduledPayments"
+import { truncateAddress } from "@/utils/contacts"
+import { DCA_INTERVALS, LIMIT_EXPIRIES } from "@/utils/swapOrders"
 import type { TokenInfo, PrivacyLevel, SwapQuote } from "@/types"
+import type { Contact } from "@/types/contacts"
+import type { SwapOrderType } from "@/types/swapOrders"
 
 // ============================================================================
 // TYPES
@@ -64,6 +76,8 @@ import type { TokenInfo, PrivacyLevel, SwapQuote } from "@/types"
 
 type SwapDirection = "from" | "to"
 
+type OrderMode = "market" | SwapOrderType
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -71,11 +85,19 @@ type SwapDirection = "from" | "to"
 const SLIPPAGE_OPTIONS = [0.1, 0.5, 1.0, 3.0]
 const DEFAULT_SLIPPAGE = 0.5
 
+const ORDER_MODES: { mode: OrderMode; label: string }[] = [
+  { mode: "market", label: "Market" },
+  { mode: "limit", label: "Limit" },
+  { mode: "dca", label: "DCA" },
+]
+
+const DCA_FILL_OPTIONS = [2, 4, 7, 10, 30]
+
 // ============================================================================
 // HELPERS
 // ============================================================================
 
-function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet"): string {
+function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet" | "localnet"): string {
   switch (network) {
     case "mainnet-beta":
       return "Mainnet"
@@ -83,6 +105,36 @@ function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet"):
       return "Devnet"
     case "testnet":
       return "Testnet"
+    case "localnet":
+      return "Localnet"
+  }
+}
+
+/**
+ * Feedback under the recipient input, or null when there's nothing to say
+ */
+function getRecipientHint(
+  resolution: RecipientResolution
+): { text: string; isError: boolean } | null {
+  switch (resolution.kind) {
+    case "sip-uri":
+      return { text: "Stealth address · private payment", isError: false }
+    case "sns-resolving":
+      return { text: `Resolving ${resolution.domain}…`, isError: false }
+    case "sns-resolved":
+      return { text: `${resolution.domain} · private payment available`, isError: false }
+    case "solana-address":
+      return { text: "Swap and pay needs a stealth address (sip:solana:...) or .sol name", isError: true }
+    case "sns-not-found-record":
+      return { text: `${resolution.domain} hasn't enabled SIP-STEALTH`, isError: true }
+    case "sns-not-found-domain":
+      return { text: `${resolution.domain} not found`, isError: true }
+    case "sns-malformed":
+      return { text: `${resolution.domain}'s privacy record is invalid (${resolution.reason})`, isError: true }
+    case "invalid":
+      return { text: "Invalid recipient", isError: true }
+    default:
+      return null
   }
 }
 
@@ -91,7 +143,7 @@ function getNetworkDisplayName(network: "mainnet-beta" | "devnet" | "testnet"):
 // ============================================================================
 
 interface MainnetOnlyOverlayProps {
-  network: "mainnet-beta" | "devnet" | "testnet"
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
   onSwitchNetwork: () => void
   onGoBack: () => void
 }
@@ -344,6 +396,227 @@ function SwapDetails({ quote, slippage }: SwapDetailsProps) {
   )
 }
 
+interface PayRecipientInputProps {
+  value: string
+  onChangeText: (text: string) => void
+  contacts: Contact[]
+  selectedContactId: string | null
+  onContactPress: (contact: Contact) => void
+  resolution: RecipientResolution
+}
+
+function PayRecipientInput({
+  value,
+  onChangeText,
+  contacts,
+  selectedContactId,
+  onContactPress,
+  resolution,
+}: PayRecipientInputProps) {
+  const hint = getRecipientHint(resolution)
+
+  return (
+    <View className="bg-dark-900 rounded-xl border border-dark-800 p-4 mt-4">
+      <Text className="text-dark-400 text-sm mb-2">Pay to (optional)</Text>
+      <TextInput
+        className="bg-dark-800 rounded-xl px-3 py-3 text-white"
+        placeholder="sip:solana:... or name.sol"
+        placeholderTextColor="#71717a"
+        value={value}
+        onChangeText={onChangeText}
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID="swap-recipient-input"
+        accessibilityLabel="Recipient"
+        accessibilityHint="Delivers the swapped tokens to this recipient's stealth address"
+      />
+
+      {contacts.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mt-3"
+          keyboardShouldPersistTaps="handled"
+        >
+          <View className="flex-row gap-2">
+            {contacts.map((contact) => {
+              const selected = contact.id === selectedContactId
+              return (
+                <TouchableOpacity
+                  key={contact.id}
+                  className={`px-3 py-1.5 rounded-full border ${
+                    selected ? "bg-brand-600 border-brand-600" : "bg-dark-800 border-dark-700"
+                  }`}
+                  onPress={() => onContactPress(contact)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Pay ${contact.name}`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text className={selected ? "text-white text-sm font-medium" : "text-dark-300 text-sm"}>
+                    {contact.name}
+                  </Text>
+                </TouchableOpacity>
+              )
+            })}
+          </View>
+        </ScrollView>
+      )}
+
+      {hint && (
+        <Text className={`text-xs mt-2 ${hint.isError ? "text-red-400" : "text-brand-400"}`}>
+          {hint.text}
+        </Text>
+      )}
+    </View>
+  )
+}
+
+interface OrderChipProps {
+  label: string
+  selected: boolean
+  onPress: () => void
+}
+
+function OrderChip({ label, selected, onPress }: OrderChipProps) {
+  return (
+    <TouchableOpacity
+      className={`px-3 py-1.5 rounded-full border ${
+        selected ? "bg-brand-600 border-brand-600" : "bg-dark-800 border-dark-700"
+      }`}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text className={selected ? "text-white text-sm font-medium" : "text-dark-300 text-sm"}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  )
+}
+
+interface OrderSettingsProps {
+  mode: SwapOrderType
+  fromToken: TokenInfo
+  toToken: TokenInfo
+  fromAmount: string
+  marketPrice: number | null
+  limitPrice: string
+  onLimitPriceChange: (price: string) => void
+  expiryIndex: number
+  onExpiryChange: (index: number) => void
+  dcaFills: number
+  onDcaFillsChange: (fills: number) => void
+  intervalIndex: number
+  onIntervalChange: (index: number) => void
+}
+
+function OrderSettings({
+  mode,
+  fromToken,
+  toToken,
+  fromAmount,
+  marketPrice,
+  limitPrice,
+  onLimitPriceChange,
+  expiryIndex,
+  onExpiryChange,
+  dcaFills,
+  onDcaFillsChange,
+  intervalIndex,
+  onIntervalChange,
+}: OrderSettingsProps) {
+  const amount = parseFloat(fromAmount)
+  const perFill = amount > 0 ? amount / dcaFills : 0
+
+  return (
+    <View className="bg-dark-900 rounded-xl border border-dark-800 p-4 mt-4">
+      {mode === "limit" ? (
+        <>
+          <View className="flex-row justify-between items-center mb-2">
+            <Text className="text-dark-400 text-sm">
+              Limit price ({toToken.symbol} per {fromToken.symbol})
+            </Text>
+            {marketPrice !== null && (
+              <TouchableOpacity
+                onPress={() => onLimitPriceChange(marketPrice.toFixed(toToken.decimals > 6 ? 4 : 6))}
+                accessibilityRole="button"
+                accessibilityLabel="Use market price"
+              >
+                <Text className="text-brand-400 text-xs">Market: {marketPrice.toFixed(4)}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <TextInput
+            className="bg-dark-800 rounded-xl px-3 py-3 text-white"
+            placeholder="0.00"
+            placeholderTextColor="#71717a"
+            value={limitPrice}
+            onChangeText={(text) =>
+              onLimitPriceChange(text.replace(/[^0-9.]/g, "").replace(/(\..*)\./g, "$1"))
+            }
+            keyboardType="decimal-pad"
+            testID="limit-price-input"
+            accessibilityLabel="Limit price"
+          />
+
+          <Text className="text-dark-400 text-sm mt-4 mb-2">Expires</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {LIMIT_EXPIRIES.map((expiry, index) => (
+              <OrderChip
+                key={expiry.label}
+                label={expiry.label}
+                selected={index === expiryIndex}
+                onPress={() => onExpiryChange(index)}
+              />
+            ))}
+          </View>
+        </>
+      ) : (
+        <>
+          <Text className="text-dark-400 text-sm mb-2">Number of fills</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {DCA_FILL_OPTIONS.map((fills) => (
+              <OrderChip
+                key={fills}
+                label={`${fills}`}
+                selected={fills === dcaFills}
+                onPress={() => onDcaFillsChange(fills)}
+              />
+            ))}
+          </View>
+
+          <Text className="text-dark-400 text-sm mt-4 mb-2">Every</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {DCA_INTERVALS.map((interval, index) => (
+              <OrderChip
+                key={interval.label}
+                label={interval.label}
+                selected={index === intervalIndex}
+                onPress={() => onIntervalChange(index)}
+              />
+            ))}
+          </View>
+
+          {perFill > 0 && (
+            <Text className="text-white text-sm mt-4">
+              {formatTokenAmount(perFill.toString(), fromToken.decimals)} {fromToken.symbol} →{" "}
+              {toToken.symbol}, {DCA_INTERVALS[intervalIndex].label.toLowerCase()}, {dcaFills} times
+            </Text>
+          )}
+        </>
+      )}
+
+      <View className="flex-row items-center mt-4">
+        <LockSimpleIcon size={14} color={ICON_COLORS.brand} weight="fill" />
+        <Text className="text-dark-500 text-xs ml-2 flex-1">
+          Fills are swapped privately to your stealth addresses while SIP is open. Each fill asks for
+          your approval.
+        </Text>
+      </View>
+    </View>
+  )
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -377,6 +650,24 @@ export default function SwapScreen() {
   const [slippage, setSlippage] = useState(storedSlippage || DEFAULT_SLIPPAGE)
   const [privacyLevel, setPrivacyLevel] = useState<PrivacyLevel>("shielded")
 
+  // Swap and pay state (private swaps only)
+  const [recipientInput, setRecipientInput] = useState("")
+  const [recipientContactId, setRecipientContactId] = useState<string | null>(null)
+  const contacts = useContactsStore((s) => s.contacts)
+  const payableContacts = useMemo(
+    () => contacts.filter((c) => getContactStealthAddress(c) !== null),
+    [contacts]
+  )
+  const recipientResolution = useRecipientResolution(recipientInput)
+
+  // Order state (limit / DCA)
+  const [orderMode, setOrderMode] = useState<OrderMode>("market")
+  const [limitPrice, setLimitPrice] = useState("")
+  const [limitExpiryIndex, setLimitExpiryIndex] = useState(1)
+  const [dcaFills, setDcaFills] = useState(DCA_FILL_OPTIONS[1])
+  const [dcaIntervalIndex, setDcaIntervalIndex] = useState(1)
+  const { createOrder } = useSwapOrders()
+
   // Modal state
   const [showTokenSelector, setShowTokenSelector] = useState(false)
   const [tokenSelectorDirection, setTokenSelectorDirection] =
@@ -392,6 +683,7 @@ export default function SwapScreen() {
     fromSymbol: string
     toAmount: string
     toSymbol: string
+    recipient?: string
   } | null>(null)
 
   // Swap execution hook
@@ -504,6 +796,29 @@ export default function SwapScreen() {
     return toBalance.usdValue * ratio
   }, [quote?.outputAmount, toBalance])
 
+  // Recipient the output is paid to; null until the input resolves to a stealth address
+  const payRecipient = useMemo((): SwapRecipient | null => {
+    const metaAddress = stealthTargetUri(recipientResolution)
+    if (!metaAddress) return null
+    const contact = payableContacts.find((c) => c.id === recipientContactId)
+    const label = contact
+      ? contact.name
+      : recipientResolution.kind === "sns-resolved"
+        ? recipientResolution.domain
+        : truncateAddress(metaAddress)
+    return { metaAddress, label }
+  }, [recipientResolution, payableContacts, recipientContactId])
+
+  const isPaying =
+    orderMode === "market" && privacyLevel === "shielded" && recipientInput.trim() !== ""
+
+  // Output per input at the current quote (prefills the limit price)
+  const marketPrice = useMemo(() => {
+    const input = parseFloat(quote?.inputAmount ?? "0")
+    const output = parseFloat(quote?.outputAmount ?? "0")
+    return input > 0 && output > 0 ? output / input : null
+  }, [quote])
+
   // ============================================================================
   // EARLY RETURNS (after all hooks)
   // ============================================================================
@@ -558,6 +873,84 @@ export default function SwapScreen() {
     setFromAmount(outputAmount && outputAmount !== "0" ? outputAmount : "")
   }
 
+  const handleRecipientChange = (text: string) => {
+    setRecipientInput(text)
+    setRecipientContactId(null)
+  }
+
+  const handleContactPress = (contact: Contact) => {
+    if (contact.id === recipientContactId) {
+      setRecipientInput("")
+      setRecipientContactId(null)
+      return
+    }
+    setRecipientInput(getContactStealthAddress(contact) ?? "")
+    setRecipientContactId(contact.id)
+  }
+
+  const handlePlaceOrder = async () => {
+    if (orderMode === "market") return
+    if (!isConnected) {
+      router.push("/(auth)/wallet-setup")
+      return
+    }
+
+    const authResult = await authenticateForOperation("send")
+    if (!authResult.success) {
+      if (!authResult.cancelled) {
+        addToast({
+          type: "error",
+          title: "Authentication required",
+          message: authResult.error,
+        })
+      }
+      return
+    }
+
+    const expiryMs = LIMIT_EXPIRIES[limitExpiryIndex].ms
+    try {
+      createOrder(
+        orderMode === "limit"
+          ? {
+              type: "limit",
+              fromToken: fromToken.symbol,
+              toToken: toToken.symbol,
+              amount: fromAmount,
+              slippage,
+              limitPrice: parseFloat(limitPrice),
+              expiresAt: expiryMs === null ? null : Date.now() + expiryMs,
+              totalFills: 1,
+              intervalMs: 0,
+            }
+          : {
+              type: "dca",
+              fromToken: fromToken.symbol,
+              toToken: toToken.symbol,
+              amount: fromAmount,
+              slippage,
+              expiresAt: null,
+              totalFills: dcaFills,
+              intervalMs: DCA_INTERVALS[dcaIntervalIndex].ms,
+            }
+      )
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Order Not Placed",
+        message: err instanceof Error ? err.message : "Invalid order",
+      })
+      return
+    }
+
+    addToast({
+      type: "success",
+      title: orderMode === "limit" ? "Limit Order Placed" : "DCA Order Started",
+      message: "Track it in swap history",
+    })
+    setFromAmount("")
+    setLimitPrice("")
+  }
+
   const handleSwap = async () => {
     if (!isConnected) {
       router.push("/(auth)/wallet-setup")
@@ -606,10 +999,12 @@ export default function SwapScreen() {
     Keyboard.dismiss()
 
     // Execute the swap
+    const recipient = isPaying ? payRecipient ?? undefined : undefined
     const success = await executeSwap({
       quote,
       jupiterQuote,
       privacyLevel,
+      recipient,
     })
 
     // Save swap details before resetting form
@@ -618,6 +1013,7 @@ export default function SwapScreen() {
       fromSymbol: fromToken.symbol,
       toAmount: quote?.outputAmount ?? "0",
       toSymbol: toToken.symbol,
+      recipient: recipient?.label,
     })
 
     // Show result modal
@@ -627,6 +1023,13 @@ export default function SwapScreen() {
     // Reset form on success
     if (success) {
       setFromAmount("")
+      if (recipient) {
+        if (recipientContactId) {
+          useContactsStore.getState().recordPayment(recipientContactId)
+        }
+        setRecipientInput("")
+        setRecipientContactId(null)
+      }
     }
   }
 
@@ -650,12 +1053,17 @@ export default function SwapScreen() {
     }
   }
 
+  const canPlaceOrder =
+    parseFloat(fromAmount) > 0 &&
+    (orderMode !== "limit" || parseFloat(limitPrice) > 0)
+
   const canSwap =
     fromAmount &&
     parseFloat(fromAmount) > 0 &&
     quote?.outputAmount &&
     quote.outputAmount !== "0" &&
-    !isQuoteLoading
+    !isQuoteLoading &&
+    (!isPaying || payRecipient !== null)
 
   return (
     <SafeAreaView className="flex-1 bg-dark-950">
@@ -696,6 +1104,26 @@ export default function SwapScreen() {
             </View>
           </View>
 
+          {/* Order Type */}
+          <View className="flex-row bg-dark-900 rounded-xl p-1 mb-4" testID="order-mode">
+            {ORDER_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                className={`flex-1 py-2 rounded-lg items-center ${
+                  orderMode === mode ? "bg-dark-700" : ""
+                }`}
+                onPress={() => setOrderMode(mode)}
+                accessibilityRole="button"
+                accessibilityLabel={`${label} order`}
+                accessibilityState={{ selected: orderMode === mode }}
+              >
+                <Text className={orderMode === mode ? "text-white font-medium" : "text-dark-400"}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
           {/* From Token */}
           <TokenInput
             direction="from"
@@ -734,60 +1162,92 @@ export default function SwapScreen() {
             />
           </View>
 
-          {/* Privacy Toggle */}
-          <TouchableOpacity
-            className={`mt-4 p-4 rounded-xl border ${
-              privacyLevel === "shielded"
-                ? "bg-brand-900/20 border-brand-700"
-                : "bg-dark-900 border-dark-800"
-            }`}
-            onPress={() =>
-              setPrivacyLevel(
-                privacyLevel === "shielded" ? "transparent" : "shielded"
-              )
-            }
-            accessibilityRole="switch"
-            accessibilityLabel={privacyLevel === "shielded" ? "Private swap enabled" : "Public swap"}
-            accessibilityHint="Toggles between private and public swap"
-            accessibilityState={{ checked: privacyLevel === "shielded" }}
-          >
-            <View className="flex-row items-center justify-between">
-              <View className="flex-row items-center">
-                <View className="mr-3">
-                  {privacyLevel === "shielded" ? (
-                    <LockSimpleIcon size={28} color={ICON_COLORS.brand} weight="fill" />
-                  ) : (
-                    <LockSimpleOpenIcon size={28} color={ICON_COLORS.muted} weight="regular" />
-                  )}
-                </View>
-                <View>
-                  <Text
-                    className={`font-medium ${
-                      privacyLevel === "shielded" ? "text-brand-400" : "text-white"
+          {orderMode === "market" ? (
+            <>
+              {/* Privacy Toggle */}
+              <TouchableOpacity
+                className={`mt-4 p-4 rounded-xl border ${
+                  privacyLevel === "shielded"
+                    ? "bg-brand-900/20 border-brand-700"
+                    : "bg-dark-900 border-dark-800"
+                }`}
+                onPress={() =>
+                  setPrivacyLevel(
+                    privacyLevel === "shielded" ? "transparent" : "shielded"
+                  )
+                }
+                accessibilityRole="switch"
+                accessibilityLabel={privacyLevel === "shielded" ? "Private swap enabled" : "Public swap"}
+                accessibilityHint="Toggles between private and public swap"
+                accessibilityState={{ checked: privacyLevel === "shielded" }}
+              >
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-row items-center">
+                    <View className="mr-3">
+                      {privacyLevel === "shielded" ? (
+                        <LockSimpleIcon size={28} color={ICON_COLORS.brand} weight="fill" />
+                      ) : (
+                        <LockSimpleOpenIcon size={28} color={ICON_COLORS.muted} weight="regular" />
+                      )}
+                    </View>
+                    <View>
+                      <Text
+                        className={`font-medium ${
+                          privacyLevel === "shielded" ? "text-brand-400" : "text-white"
+                        }`}
+                      >
+                        {privacyLevel === "shielded" ? "Private Swap" : "Public Swap"}
+                      </Text>
+                      <Text className="text-dark-500 text-xs">
+                        {privacyLevel === "shielded"
+                          ? "Amounts hidden via stealth routing"
+                          : "Visible on-chain"}
+                      </Text>
+                    </View>
+                  </View>
+                  <View
+                    className={`w-12 h-7 rounded-full justify-center px-1 ${
+                      privacyLevel === "shielded" ? "bg-brand-600" : "bg-dark-700"
                     }`}
                   >
-                    {privacyLevel === "shielded" ? "Private Swap" : "Public Swap"}
-                  </Text>
-                  <Text className="text-dark-500 text-xs">
-                    {privacyLevel === "shielded"
-                      ? "Amounts hidden via stealth routing"
-                      : "Visible on-chain"}
-                  </Text>
+                    <View
+                      className={`w-5 h-5 bg-white rounded-full ${
+                        privacyLevel === "shielded" ? "self-end" : "self-start"
+                      }`}
+                    />
+                  </View>
                 </View>
-              </View>
-              <View
-                className={`w-12 h-7 rounded-full justify-center px-1 ${
-                  privacyLevel === "shielded" ? "bg-brand-600" : "bg-dark-700"
-                }`}
-              >
-                <View
-                  className={`w-5 h-5 bg-white rounded-full ${
-                    privacyLevel === "shielded" ? "self-end" : "self-start"
-                  }`}
+              </TouchableOpacity>
+
+              {/* Swap and Pay Recipient */}
+              {privacyLevel === "shielded" && (
+                <PayRecipientInput
+                  value={recipientInput}
+                  onChangeText={handleRecipientChange}
+                  contacts={payableContacts}
+                  selectedContactId={recipientContactId}
+                  onContactPress={handleContactPress}
+                  resolution={recipientResolution}
                 />
-              </View>
-            </View>
-          </TouchableOpacity>
+              )}
+            </>
+          ) : (
+            <OrderSettings
+              mode={orderMode}
+              fromToken={fromToken}
+              toToken={toToken}
+              fromAmount={fromAmount}
+              marketPrice={marketPrice}
+              limitPrice={limitPrice}
+              onLimitPriceChange={setLimitPrice}
+              expiryIndex={limitExpiryIndex}
+              onExpiryChange={setLimitExpiryIndex}
+              dcaFills={dcaFills}
+              onDcaFillsChange={setDcaFills}
+              intervalIndex={dcaIntervalIndex}
+              onIntervalChange={setDcaIntervalIndex}
+            />
+          )}
 
           {/* Swap Details */}
           <SwapDetails quote={quote} slippage={slippage} />
@@ -850,8 +1310,10 @@ export default function SwapScreen() {
             <Button
               fullWidth
               size="lg"
-              onPress={handleSwap}
-              disabled={!canSwap || insufficientBalance}
+              onPress={orderMode === "market" ? handleSwap : handlePlaceOrder}
+              disabled={
+                (orderMode === "market" ? !canSwap : !canPlaceOrder) || insufficientBalance
+              }
             >
               {!isConnected
                 ? "Connect Wallet"
@@ -859,11 +1321,19 @@ export default function SwapScreen() {
                   ? `Insufficient ${fromToken.symbol}`
                   : !fromAmount
                     ? "Enter Amount"
-                    : isQuoteLoading
+                    : orderMode === "limit"
+                      ? "Place Limit Order"
+                      : orderMode === "dca"
+                        ? "Start DCA"
+                        : isQuoteLoading
                       ? "Getting Quote..."
-                      : privacyLevel === "shielded"
-                        ? "Swap Privately"
-                        : "Swap"}
+                      : isPaying
+                        ? payRecipient
+                          ? `Swap & Pay ${payRecipient.label}`
+                          : "Enter Valid Recipient"
+                        : privacyLevel === "shielded"
+                          ? "Swap Privately"
+                          : "Swap"}
             </Button>
           </View>
 
@@ -1070,6 +1540,12 @@ export default function SwapScreen() {
                 </Text>
               </View>
             </View>
+            {isPaying && payRecipient && (
+              <View className="flex-row justify-between mb-2">
+                <Text className="text-dark-400">Pay To</Text>
+                <Text className="text-brand-400">{payRecipient.label}</Text>
+              </View>
+            )}
             <View className="flex-row justify-between items-center">
               <Text className="text-dark-400">Provider</Text>
               <View className="flex-row items-center">
@@ -1198,7 +1674,9 @@ export default function SwapScreen() {
                     <Text className="text-brand-400 text-sm">Private Swap</Text>
                   </View>
                   <Text className="text-dark-400 text-sm text-center mt-3 px-4">
-                    Claim your {completedSwap?.toSymbol ?? toToken.symbol} from the Receive tab when ready
+                    {completedSwap?.recipient
+                      ? `Delivered to ${completedSwap.recipient}'s stealth address. They'll see it when they scan for payments`
+                      : `Claim your ${completedSwap?.toSymbol ?? toToken.symbol} from the Receive tab when ready`}
                   </Text>
                 </>
               )}
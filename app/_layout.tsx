@@ -7,11 +7,13 @@ import * as SplashScreen from "expo-splash-screen"
 import { WalletProvider } from "@/providers"
 import { SidebarProvider } from "@/components"
 import { ToastOverlay } from "@/components/ToastOverlay"
+import { TransactionPreviewSheet } from "@/components/TransactionPreviewSheet"
 import {
   markPerformance,
   logPerformanceSummary,
 } from "@/utils/performance"
 import {
+  hasActiveScheduledPayments,
   isBackgroundScanEnabled,
   registerBackgroundScan,
 } from "@/services/backgroundScan"
@@ -31,9 +33,9 @@ export default function RootLayout() {
         await new Promise((resolve) => setTimeout(resolve, 50))
         markPerformance("prepare_done")
 
-        // Register background scan if previously enabled
+        // Register background scan if previously enabled or payments are scheduled
         const scanEnabled = await isBackgroundScanEnabled()
-        if (scanEnabled) {
+        if (scanEnabled || (await hasActiveScheduledPayments())) {
           await registerBackgroundScan()
           markPerformance("background_scan_registered")
         }
@@ -90,6 +92,7 @@ export default function RootLayout() {
             <Stack.Screen name="token" options={{ headerShown: false }} />
           </Stack>
         </SidebarProvider>
+        <TransactionPreviewSheet />
         <ToastOverlay />
       </WalletProvider>
     </GestureHandlerRootView>
@@ -4,8 +4,10 @@
  * Claim unclaimed stealth payments:
  * - List of unclaimed payments
  * - Total claimable amount
- * - Claim individual or all
- * - Progress tracking
+ * - Claim individual or all (multiple claims are batched per network + token)
+ * - Claim a single payment to a fresh account or own stealth address
+ *   (token payments need a claim relayer for that)
+ * - Progress tracking, per-payment failures
  */
 
 import {
@@ -20,10 +22,12 @@ import { router } from "expo-router"
 import { useState } from "react"
 import { resolveTokenSymbol } from "@/data/tokens"
 import { useClaim } from "@/hooks/useClaim"
+import { useFeeEstimate } from "@/hooks/useFeeEstimate"
 import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
 import { useToastStore } from "@/stores/toast"
 import { Button } from "@/components/ui"
-import type { PaymentRecord } from "@/types"
+import type { ClaimDestinationType, PaymentRecord } from "@/types"
 import {
   ArrowLeftIcon,
   CoinsIcon,
@@ -36,6 +40,36 @@ import {
 } from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CLAIM_DESTINATIONS: {
+  id: ClaimDestinationType
+  label: string
+  description: string
+  nativeOnly: boolean
+}[] = [
+  {
+    id: "wallet",
+    label: "Wallet",
+    description: "Funds go to your connected wallet",
+    nativeOnly: false,
+  },
+  {
+    id: "fresh-account",
+    label: "New Account",
+    description: "Funds go to a new account derived from your seed phrase (under Manage Accounts)",
+    nativeOnly: true,
+  },
+  {
+    id: "stealth",
+    label: "Stealth",
+    description: "Funds move to a new stealth address of your own, claimable later",
+    nativeOnly: false,
+  },
+]
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -62,6 +96,8 @@ interface ClaimablePaymentRowProps {
   isSelected: boolean
   onToggle: () => void
   disabled: boolean
+  /** Error from the last claim attempt */
+  error?: string
 }
 
 function ClaimablePaymentRow({
@@ -69,6 +105,7 @@ function ClaimablePaymentRow({
   isSelected,
   onToggle,
   disabled,
+  error,
 }: ClaimablePaymentRowProps) {
   return (
     <TouchableOpacity
@@ -104,6 +141,11 @@ function ClaimablePaymentRow({
         <Text className="text-dark-500 text-sm">
           {formatTimeAgo(payment.timestamp)}
         </Text>
+        {error && (
+          <Text className="text-red-400 text-xs mt-1" numberOfLines={2}>
+            {error}
+          </Text>
+        )}
       </View>
 
       {/* Amount */}
@@ -111,6 +153,11 @@ function ClaimablePaymentRow({
         <Text className="text-green-400 font-semibold">
           +{parseFloat(payment.amount).toFixed(4)} {payment.token}
         </Text>
+        {payment.amountVerification === "mismatch" ? (
+          <Text className="text-red-400 text-xs">Suspicious amount</Text>
+        ) : payment.amountVerification === "unverified" && (
+          <Text className="text-yellow-400 text-xs">Unverified amount</Text>
+        )}
       </View>
     </TouchableOpacity>
   )
@@ -234,11 +281,15 @@ export default function ClaimScreen() {
     getUnclaimedPayments,
     getClaimableAmount,
   } = useClaim()
-  const { isConnected } = useWalletStore()
+  const { isConnected, walletType } = useWalletStore()
+  const { network, relayerUrls } = useSettingsStore()
   const { addToast } = useToastStore()
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [claimedIds, setClaimedIds] = useState<Set<string>>(new Set())
+  const [failedClaims, setFailedClaims] = useState<Map<string, string>>(new Map())
+  const [destination, setDestination] = useState<ClaimDestinationType>("wallet")
+  const [claimedTo, setClaimedTo] = useState<ClaimDestinationType>("wallet")
 
   const unclaimedPayments = getUnclaimedPayments()
   const { amount: claimableAmount, count: claimableCount } = getClaimableAmount()
@@ -260,6 +311,21 @@ export default function ClaimScreen() {
     progress.status === "signing" ||
     progress.status === "submitting"
 
+  // Fresh destinations hold no SOL for token accounts (unless a relayer pays), and batches go to the wallet
+  const canChooseDestination =
+    selectedPayments.length === 1 && (!selectedPayments[0].tokenMint || !!relayerUrls[network])
+  const destinationOptions = CLAIM_DESTINATIONS.filter(
+    (d) => !d.nativeOnly || walletType === "native"
+  )
+
+  // Network fee preview (a relayer takes its cut from the claimed funds instead)
+  const relayerPaysFees = !!relayerUrls[network]
+  const { totalSol: networkFeeSol } = useFeeEstimate({
+    kind: "claim",
+    transactions: selectedIds.size,
+    enabled: selectedIds.size > 0 && !relayerPaysFees,
+  })
+
   const togglePayment = (id: string) => {
     const newSelected = new Set(selectedIds)
     if (newSelected.has(id)) {
@@ -278,20 +344,31 @@ export default function ClaimScreen() {
     setSelectedIds(new Set())
   }
 
-  const handleClaimSelected = async () => {
-    if (selectedPayments.length === 0) return
+  const handleClaim = async (
+    paymentsToClaim: PaymentRecord[],
+    claimDestination: ClaimDestinationType = "wallet"
+  ) => {
+    if (paymentsToClaim.length === 0) return
 
     reset()
+    setFailedClaims(new Map())
+    setClaimedTo(claimDestination)
 
-    if (selectedPayments.length === 1) {
-      const result = await claim(selectedPayments[0])
+    if (paymentsToClaim.length === 1) {
+      const result = await claim(paymentsToClaim[0], { destination: claimDestination })
       if (result.success) {
-        setClaimedIds((prev) => new Set([...prev, selectedPayments[0].id]))
+        const [claimed] = paymentsToClaim
+        setClaimedIds((prev) => new Set([...prev, claimed.id]))
         setSelectedIds(new Set())
+        // Only repeat the amount when its commitment checked out
+        const hasTrustedAmount =
+          claimed.amountVerification !== "mismatch" && claimed.amountVerification !== "unverified"
         addToast({
           type: "success",
           title: "Claimed!",
-          message: `Successfully claimed ${parseFloat(selectedPayments[0].amount).toFixed(4)} ${selectedPayments[0].token}`,
+          message: hasTrustedAmount
+            ? `Successfully claimed ${parseFloat(claimed.amount).toFixed(4)} ${claimed.token}`
+            : `Successfully claimed your ${claimed.token} payment`,
         })
       } else {
         addToast({
@@ -301,12 +378,21 @@ export default function ClaimScreen() {
         })
       }
     } else {
-      const results = await claimMultiple(selectedPayments)
+      const results = await claimMultiple(paymentsToClaim)
       const successful = results.filter((r) => r.success)
       const failed = results.filter((r) => !r.success)
 
+      setFailedClaims(
+        new Map(
+          paymentsToClaim
+            .map((p, i) => [p.id, results[i]] as const)
+            .filter(([, r]) => !r.success)
+            .map(([id, r]) => [id, r.error || "Claim failed"])
+        )
+      )
+
       if (successful.length > 0) {
-        const claimedPaymentIds = selectedPayments
+        const claimedPaymentIds = paymentsToClaim
           .filter((_, i) => results[i].success)
           .map((p) => p.id)
         setClaimedIds((prev) => new Set([...prev, ...claimedPaymentIds]))
@@ -330,6 +416,11 @@ export default function ClaimScreen() {
     }
   }
 
+  const handleClaimSelected = () =>
+    handleClaim(selectedPayments, canChooseDestination ? destination : "wallet")
+
+  const handleClaimAll = () => handleClaim(unclaimedPayments)
+
   if (!isConnected) {
     return (
       <SafeAreaView className="flex-1 bg-dark-950">
@@ -399,6 +490,20 @@ export default function ClaimScreen() {
                 <CoinsIcon size={32} color={ICON_COLORS.success} weight="fill" />
               </View>
             </View>
+            {claimableCount > 1 && (
+              <TouchableOpacity
+                className={`mt-4 bg-green-700 rounded-xl py-3 items-center ${isClaiming ? "opacity-50" : ""}`}
+                onPress={handleClaimAll}
+                disabled={isClaiming}
+                accessibilityRole="button"
+                accessibilityLabel={`Claim all ${claimableCount} payments`}
+                accessibilityHint="Claims every payment with as few approvals as possible"
+              >
+                <Text className="text-white font-semibold">
+                  Claim All ({claimableCount})
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Claiming Progress */}
@@ -423,7 +528,11 @@ export default function ClaimScreen() {
                     Claim Successful!
                   </Text>
                   <Text className="text-dark-400 text-sm mt-1">
-                    Funds have been transferred to your wallet
+                    {claimedTo === "fresh-account"
+                      ? "Funds have been transferred to a new claim account"
+                      : claimedTo === "stealth"
+                        ? "Funds have moved to a new stealth address"
+                        : "Funds have been transferred to your wallet"}
                   </Text>
                 </View>
               </View>
@@ -485,6 +594,7 @@ export default function ClaimScreen() {
                     isSelected={selectedIds.has(payment.id)}
                     onToggle={() => togglePayment(payment.id)}
                     disabled={isClaiming || claimedIds.has(payment.id)}
+                    error={failedClaims.get(payment.id)}
                   />
                 ))}
               </View>
@@ -510,9 +620,55 @@ export default function ClaimScreen() {
             </View>
           )}
 
+          {/* Claim Destination */}
+          {canChooseDestination && (
+            <View className="mt-6">
+              <Text className="text-white font-semibold text-lg mb-3">Claim To</Text>
+              <View className="flex-row gap-2">
+                {destinationOptions.map((option) => (
+                  <TouchableOpacity
+                    key={option.id}
+                    className={`flex-1 rounded-xl border py-3 items-center ${
+                      destination === option.id
+                        ? "bg-brand-900/30 border-brand-600"
+                        : "bg-dark-900 border-dark-800"
+                    }`}
+                    onPress={() => setDestination(option.id)}
+                    disabled={isClaiming}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: destination === option.id }}
+                    accessibilityLabel={`Claim to ${option.label}`}
+                    accessibilityHint={option.description}
+                  >
+                    <Text
+                      className={destination === option.id ? "text-brand-400 font-medium" : "text-dark-400"}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text className="text-dark-500 text-sm mt-2">
+                {destinationOptions.find((d) => d.id === destination)?.description}
+              </Text>
+            </View>
+          )}
+
           {/* Claim Button */}
           {unclaimedPayments.length > 0 && (
             <View className="mt-6">
+              {selectedIds.size > 0 && (
+                <View className="flex-row justify-between mb-3">
+                  <Text className="text-dark-500">Network Fee</Text>
+                  <Text className="text-dark-300">
+                    {relayerPaysFees
+                      ? "Relayer fee, shown before you approve"
+                      : networkFeeSol !== null
+                        ? `${selectedIds.size > 1 ? "Up to " : "~"}${networkFeeSol.toFixed(6)} SOL`
+                        : "Estimating..."}
+                  </Text>
+                </View>
+              )}
               <Button
                 fullWidth
                 size="lg"
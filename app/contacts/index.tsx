@@ -6,12 +6,19 @@
  * - All contacts sorted by most recent payment, then creation date
  * - Tap contact to navigate to send screen with pre-filled recipient
  * - "Add" button navigates to /contacts/add
+ * - Calendar button navigates to /scheduled (recurring payments)
  */
 
 import { View, Text, ScrollView, TouchableOpacity } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
-import { PlusIcon, StarIcon, PaperPlaneTiltIcon, UserCircleIcon } from "phosphor-react-native"
+import {
+  PlusIcon,
+  StarIcon,
+  PaperPlaneTiltIcon,
+  UserCircleIcon,
+  CalendarBlankIcon,
+} from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
 import { hapticLight } from "@/utils/haptics"
 import { useContactsStore } from "@/stores/contacts"
@@ -93,16 +100,28 @@ export default function ContactListScreen() {
       {/* Header */}
       <View className="flex-row items-center justify-between px-6 pt-6 pb-4">
         <Text className="text-3xl font-bold text-white">Contacts</Text>
-        <TouchableOpacity
-          className="bg-brand-600 w-10 h-10 rounded-full items-center justify-center"
-          onPress={() => router.push("/contacts/add")}
-          activeOpacity={0.7}
-          accessibilityLabel="Add contact"
-          accessibilityHint="Opens the add contact form"
-          accessibilityRole="button"
-        >
-          <PlusIcon size={20} color="#ffffff" weight="bold" />
-        </TouchableOpacity>
+        <View className="flex-row items-center gap-3">
+          <TouchableOpacity
+            className="bg-dark-900 w-10 h-10 rounded-full items-center justify-center"
+            onPress={() => router.push("/scheduled")}
+            activeOpacity={0.7}
+            accessibilityLabel="Scheduled payments"
+            accessibilityHint="Opens recurring payments to contacts"
+            accessibilityRole="button"
+          >
+            <CalendarBlankIcon size={20} color={ICON_COLORS.brand} weight="regular" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="bg-brand-600 w-10 h-10 rounded-full items-center justify-center"
+            onPress={() => router.push("/contacts/add")}
+            activeOpacity={0.7}
+            accessibilityLabel="Add contact"
+            accessibilityHint="Opens the add contact form"
+            accessibilityRole="button"
+          >
+            <PlusIcon size={20} color="#ffffff" weight="bold" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Empty State */}
@@ -4,6 +4,7 @@
  * Shows full details of a transaction:
  * - Amount and status
  * - Privacy level
+ * - Meta-address that received it
  * - Addresses (stealth/regular)
  * - Transaction hash with explorer link
  * - Timestamps
@@ -20,11 +21,13 @@ import {
 } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router, useLocalSearchParams } from "expo-router"
+import { useEffect, useState } from "react"
 import * as Clipboard from "expo-clipboard"
 import { usePrivacyStore } from "@/stores/privacy"
 import { useToastStore } from "@/stores/toast"
 import { useSettingsStore } from "@/stores/settings"
 import { useClaim } from "@/hooks/useClaim"
+import { getKeyById, getMetaAddressLabel } from "@/hooks/useStealth"
 import { getExplorerTxUrl } from "@/utils/explorer"
 import { Button } from "@/components/ui"
 import type { PaymentRecord, PrivacyLevel } from "@/types"
@@ -104,6 +107,15 @@ export default function TransactionDetailScreen() {
 
   const payment = id ? getPayment(id) : undefined
 
+  // Label of the meta-address that received the payment
+  const [metaAddressLabel, setMetaAddressLabel] = useState<string | null>(null)
+  useEffect(() => {
+    if (payment?.type !== "receive" || !payment.keyId) return
+    getKeyById(payment.keyId, payment.walletAddress).then((record) => {
+      setMetaAddressLabel(record ? getMetaAddressLabel(record) : null)
+    })
+  }, [payment?.type, payment?.keyId, payment?.walletAddress])
+
   if (!payment) {
     return (
       <SafeAreaView className="flex-1 bg-dark-950">
@@ -249,6 +261,26 @@ export default function TransactionDetailScreen() {
             <View className={`w-2 h-2 rounded-full ${statusInfo.color} mr-2`} />
             <Text className={statusInfo.textColor}>{statusInfo.label}</Text>
           </View>
+
+          {payment.amountVerification === "mismatch" && (
+            <View className="mt-4 mx-4 bg-red-900/20 border border-red-700 rounded-xl p-3">
+              <Text className="text-red-400 font-medium text-center">Suspicious amount</Text>
+              <Text className="text-dark-400 text-sm text-center mt-1">
+                The amount the sender encrypted does not match the on-chain commitment.
+                Claiming sweeps whatever the stealth address actually holds.
+              </Text>
+            </View>
+          )}
+          {payment.amountVerification === "unverified" && (
+            <View className="mt-4 mx-4 bg-yellow-900/20 border border-yellow-700/50 rounded-xl p-3">
+              <Text className="text-yellow-400 font-medium text-center">Unverified amount</Text>
+              <Text className="text-dark-400 text-sm text-center mt-1">
+                The sender did not make this amount checkable against the on-chain commitment,
+                so it may not be what you received. Claiming sweeps whatever the stealth address
+                actually holds.
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Details Card */}
@@ -261,6 +293,14 @@ export default function TransactionDetailScreen() {
             </Text>
           </View>
 
+          {/* Receiving Meta-address */}
+          {isReceive && metaAddressLabel && (
+            <View className="flex-row justify-between p-4 border-b border-dark-800">
+              <Text className="text-dark-500">Received Via</Text>
+              <Text className="text-white font-medium">{metaAddressLabel}</Text>
+            </View>
+          )}
+
           {/* Privacy Level */}
           <View className="flex-row justify-between items-center p-4 border-b border-dark-800">
             <Text className="text-dark-500">Privacy Level</Text>
@@ -164,7 +164,11 @@ function TransactionItem({ payment, onPress }: TransactionItemProps) {
         >
           {formatAmount(payment.amount, payment.type)} {payment.token}
         </Text>
-        {payment.stealthAddress && (
+        {payment.amountVerification === "mismatch" ? (
+          <Text className="text-red-400 text-xs">Suspicious amount</Text>
+        ) : payment.amountVerification === "unverified" ? (
+          <Text className="text-yellow-400 text-xs">Unverified amount</Text>
+        ) : payment.stealthAddress && (
           <Text className="text-dark-600 text-xs">Stealth</Text>
         )}
       </View>
@@ -3,6 +3,7 @@
  *
  * Routes:
  * - /portfolio → Privacy-first token portfolio
+ * - /portfolio/shield → Shield a token's public balance
  */
 
 import { Stack } from "expo-router"
@@ -5,15 +5,18 @@
  * - Aggregate wallet privacy score (large badge)
  * - Per-token privacy scores with shield actions
  * - Tokens sorted by USD value descending
+ * - Findings from the wallet's on-chain exposure analysis
  */
 
 import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native"
-import { useMemo } from "react"
+import { useEffect, useMemo } from "react"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
-import { ShieldCheckIcon } from "phosphor-react-native"
+import { ShieldCheckIcon, WarningIcon } from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
 import { usePortfolioStore } from "@/stores/portfolio"
+import { usePrivacyAnalysis } from "@/hooks/usePrivacyAnalysis"
+import type { PrivacyFinding } from "@/lib/privacy-analysis"
 import { PrivacyScoreBadge } from "@/components/PrivacyScoreBadge"
 import { EmptyState } from "@/components/ui/EmptyState"
 import { TokenIcon } from "@/components/TokenIcon"
@@ -69,9 +72,9 @@ function TokenRow({
         <TouchableOpacity
           className="bg-brand-600 px-3 py-1.5 rounded-lg"
           activeOpacity={0.7}
-          onPress={() => router.push("/send")}
+          onPress={() => router.push({ pathname: "/portfolio/shield", params: { mint } })}
           accessibilityLabel={`Shield ${symbol}`}
-          accessibilityHint="Navigate to shield this token for better privacy"
+          accessibilityHint="Move this token's public balance to your stealth addresses"
           accessibilityRole="button"
         >
           <Text className="text-white text-xs font-semibold">Shield</Text>
@@ -81,12 +84,37 @@ function TokenRow({
   )
 }
 
+// ============================================================================
+// FINDING ROW
+// ============================================================================
+
+function FindingRow({ finding }: { finding: PrivacyFinding }) {
+  const isHigh = finding.severity === "high"
+
+  return (
+    <View
+      className={`rounded-xl p-4 mb-2 border ${
+        isHigh ? "bg-red-900/20 border-red-700/50" : "bg-yellow-900/20 border-yellow-700/50"
+      }`}
+      accessibilityLabel={`${finding.severity} risk: ${finding.title}`}
+    >
+      <View className="flex-row items-center gap-2">
+        <WarningIcon size={16} color={isHigh ? ICON_COLORS.error : ICON_COLORS.warning} weight="fill" />
+        <Text className="text-white font-medium flex-1">{finding.title}</Text>
+      </View>
+      <Text className="text-dark-400 text-sm mt-1">{finding.detail}</Text>
+      <Text className="text-dark-300 text-sm mt-2">{finding.recommendation}</Text>
+    </View>
+  )
+}
+
 // ============================================================================
 // SCREEN
 // ============================================================================
 
 export default function PortfolioScreen() {
   const tokens = usePortfolioStore((s) => s.tokens)
+  const findings = usePortfolioStore((s) => s.findings)
   const isLoading = usePortfolioStore((s) => s.isLoading)
   const getAggregateScore = usePortfolioStore((s) => s.getAggregateScore)
   const getTokensSortedByValue = usePortfolioStore((s) => s.getTokensSortedByValue)
@@ -94,6 +122,12 @@ export default function PortfolioScreen() {
   const aggregateScore = useMemo(() => getAggregateScore(), [tokens])
   const sortedTokens = useMemo(() => getTokensSortedByValue(), [tokens])
 
+  const { analyze } = usePrivacyAnalysis()
+
+  useEffect(() => {
+    analyze()
+  }, [analyze])
+
   return (
     <SafeAreaView className="flex-1 bg-dark-950">
       {/* Header */}
@@ -146,6 +180,19 @@ export default function PortfolioScreen() {
               privacyScore={token.privacyScore}
             />
           ))}
+
+          {/* Exposure Findings */}
+          {findings.length > 0 && (
+            <>
+              <View className="flex-row items-center gap-1.5 mt-4 mb-3">
+                <WarningIcon size={16} color={ICON_COLORS.warning} weight="fill" />
+                <Text className="text-dark-400 text-sm font-medium">What Exposes You</Text>
+              </View>
+              {findings.map((finding, index) => (
+                <FindingRow key={`${finding.kind}-${index}`} finding={finding} />
+              ))}
+            </>
+          )}
         </ScrollView>
       )}
     </SafeAreaView>
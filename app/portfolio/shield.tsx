@@ -0,0 +1,264 @@
+/**
+ * Shield Token Screen
+ *
+ * Moves a token's public balance into private custody (stealth addresses of
+ * the user's own meta-address).
+ * - Amount (with max)
+ * - Optional split into randomized parts
+ * - Optional randomized delays between parts
+ */
+
+import { View, Text, ScrollView, KeyboardAvoidingView, Platform, Keyboard, TouchableOpacity } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useState, useCallback, useMemo } from "react"
+import { router, useLocalSearchParams } from "expo-router"
+import { ArrowLeftIcon, ShieldCheckIcon } from "phosphor-react-native"
+import { ICON_COLORS } from "@/constants/icons"
+import { hapticLight, hapticSuccess } from "@/utils/haptics"
+import { useShield, MAX_SHIELD_DELAY_MS } from "@/hooks/useShield"
+import { usePrivacyAnalysis } from "@/hooks/usePrivacyAnalysis"
+import { usePortfolioStore } from "@/stores/portfolio"
+import { useToastStore } from "@/stores/toast"
+import { TOKENS } from "@/data/tokens"
+import { Input } from "@/components/ui/Input"
+import { Button } from "@/components/ui/Button"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PART_OPTIONS = [1, 2, 3, 5]
+
+/** SOL kept back for transaction fees */
+const SOL_FEE_RESERVE = 0.01
+
+// ============================================================================
+// CHIP
+// ============================================================================
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      className={`px-4 py-2 rounded-xl border ${
+        selected ? "bg-brand-600 border-brand-600" : "bg-dark-900 border-dark-800"
+      }`}
+      onPress={() => {
+        hapticLight()
+        onPress()
+      }}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text className={selected ? "text-white font-medium" : "text-dark-300"}>{label}</Text>
+    </TouchableOpacity>
+  )
+}
+
+// ============================================================================
+// SCREEN
+// ============================================================================
+
+export default function ShieldTokenScreen() {
+  const { mint = TOKENS.SOL.mint } = useLocalSearchParams<{ mint?: string }>()
+  const token = usePortfolioStore((s) => s.tokens.find((t) => t.mint === mint))
+  const { addToast } = useToastStore()
+  const { status, progress, error, shield, cancel } = useShield()
+  const { analyze } = usePrivacyAnalysis()
+
+  const [amount, setAmount] = useState("")
+  const [parts, setParts] = useState(1)
+  const [randomizeDelays, setRandomizeDelays] = useState(false)
+
+  const symbol = token?.symbol ?? "SOL"
+  const isSol = mint === TOKENS.SOL.mint
+  const isRunning = status !== "idle" && status !== "done" && status !== "error"
+
+  const maxAmount = useMemo(() => {
+    const held = parseFloat(token?.balance ?? "0")
+    return Math.max(0, isSol ? held - SOL_FEE_RESERVE : held)
+  }, [token, isSol])
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // HANDLERS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  const handleShield = useCallback(async () => {
+    Keyboard.dismiss()
+
+    const result = await shield({ mint, amount: amount.trim(), parts, randomizeDelays })
+
+    // Sent parts count even when a later one fails or is cancelled
+    if (result.txHashes.length > 0) {
+      analyze()
+    }
+
+    if (result.success) {
+      addToast({
+        type: "success",
+        title: `${symbol} shielded`,
+        message: "Your funds will appear as payments to claim after the next scan.",
+      })
+      hapticSuccess()
+      router.back()
+    }
+  }, [mint, amount, parts, randomizeDelays, symbol, shield, analyze, addToast])
+
+  const statusText = (() => {
+    switch (status) {
+      case "preparing":
+        return progress.total > 1
+          ? `Preparing part ${progress.completed + 1} of ${progress.total}...`
+          : "Preparing transfer..."
+      case "approving":
+        return progress.total > 1
+          ? `Approve part ${progress.completed + 1} of ${progress.total}`
+          : "Waiting for approval..."
+      case "waiting":
+        return progress.nextPartAt
+          ? `Part ${progress.completed + 1} of ${progress.total} at ${new Date(progress.nextPartAt).toLocaleTimeString()}`
+          : null
+      case "signing":
+      case "submitting":
+        return `Sending part ${progress.completed + 1} of ${progress.total}...`
+      default:
+        return null
+    }
+  })()
+
+  const isFormValid = parseFloat(amount) > 0 && parseFloat(amount) <= maxAmount
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ──────────────────────────────────────────────────────────────────────────
+
+  return (
+    <SafeAreaView className="flex-1 bg-dark-950">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1"
+      >
+        {/* Header */}
+        <View className="flex-row items-center px-6 pt-6 pb-4">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-10 h-10 bg-dark-900 rounded-full items-center justify-center mr-3"
+            activeOpacity={0.7}
+            accessibilityLabel="Go back"
+            accessibilityRole="button"
+          >
+            <ArrowLeftIcon size={20} color="#ffffff" weight="bold" />
+          </TouchableOpacity>
+          <View className="flex-1">
+            <Text className="text-2xl font-bold text-white">Shield {symbol}</Text>
+            <Text className="text-dark-400 text-sm mt-0.5">
+              Move public funds to your own stealth addresses
+            </Text>
+          </View>
+          <View className="w-10 h-10 bg-brand-900/30 rounded-full items-center justify-center">
+            <ShieldCheckIcon size={20} color={ICON_COLORS.brand} weight="fill" />
+          </View>
+        </View>
+
+        <ScrollView
+          className="flex-1 px-6"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Amount */}
+          <Input
+            label="Amount"
+            placeholder="0.00"
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+            editable={!isRunning}
+            hint={`Available: ${maxAmount} ${symbol}`}
+            className="mb-2"
+          />
+          <TouchableOpacity
+            className="self-end mb-4"
+            onPress={() => setAmount(maxAmount.toString())}
+            disabled={isRunning}
+            accessibilityRole="button"
+            accessibilityLabel={`Shield maximum ${symbol}`}
+          >
+            <Text className="text-brand-400 text-sm font-medium">Max</Text>
+          </TouchableOpacity>
+
+          {/* Parts */}
+          <Text className="text-dark-400 text-sm mb-2">Split into</Text>
+          <View className="flex-row flex-wrap gap-2 mb-2">
+            {PART_OPTIONS.map((option) => (
+              <Chip
+                key={option}
+                label={option === 1 ? "1 transfer" : `${option} parts`}
+                selected={option === parts}
+                onPress={() => setParts(option)}
+              />
+            ))}
+          </View>
+          <Text className="text-dark-500 text-xs mb-4">
+            Parts get random amounts, so no single deposit matches your balance.
+          </Text>
+
+          {/* Delays */}
+          {parts > 1 && (
+            <>
+              <Text className="text-dark-400 text-sm mb-2">Timing</Text>
+              <View className="flex-row flex-wrap gap-2 mb-2">
+                <Chip label="Back to back" selected={!randomizeDelays} onPress={() => setRandomizeDelays(false)} />
+                <Chip label="Random delays" selected={randomizeDelays} onPress={() => setRandomizeDelays(true)} />
+              </View>
+              <Text className="text-dark-500 text-xs mb-4">
+                {randomizeDelays
+                  ? `Waits up to ${MAX_SHIELD_DELAY_MS / 60_000} minutes between parts. Keep the app open until it finishes.`
+                  : "Sends every part right away."}
+              </Text>
+            </>
+          )}
+
+          {statusText && (
+            <Text className="text-dark-300 text-sm mb-4" accessibilityLiveRegion="polite">
+              {statusText}
+            </Text>
+          )}
+          {status === "error" && error && (
+            <Text className="text-red-400 text-sm mb-4">
+              {progress.completed > 0
+                ? `${error}. ${progress.completed} of ${progress.total} parts were shielded.`
+                : error}
+            </Text>
+          )}
+        </ScrollView>
+
+        {/* Shield Button */}
+        <View className="px-6 pb-6 pt-2 border-t border-dark-900">
+          {status === "waiting" ? (
+            <Button
+              fullWidth
+              size="lg"
+              variant="secondary"
+              onPress={cancel}
+              accessibilityLabel="Stop shielding"
+              accessibilityHint="Parts already sent stay shielded"
+            >
+              Stop Shielding
+            </Button>
+          ) : (
+            <Button
+              fullWidth
+              size="lg"
+              onPress={handleShield}
+              loading={isRunning}
+              disabled={!isFormValid || isRunning}
+              accessibilityLabel={`Shield ${symbol}`}
+              accessibilityHint="Sends the amount to your own stealth addresses"
+            >
+              Shield {symbol}
+            </Button>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  )
+}
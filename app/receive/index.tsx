@@ -3,9 +3,11 @@
  *
  * Privacy-focused receive flow:
  * - Generate stealth addresses
+ * - Switch between labelled meta-addresses (e.g. "Payroll", "Donations")
  * - Display QR code for scanning
  * - Copy/share stealth address
- * - Optional amount request
+ * - Payment requests: amount, label, message and expiry, marked paid when
+ *   the scanner finds a payment carrying the request's reference
  */
 
 import {
@@ -20,7 +22,7 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
 import * as Clipboard from "expo-clipboard"
-import { useState, useCallback, useEffect } from "react"
+import { useState, useCallback, useEffect, useMemo } from "react"
 import QRCode from "react-native-qrcode-svg"
 import {
   ArrowsClockwiseIcon,
@@ -29,6 +31,7 @@ import {
   ExportIcon,
   LockKeyIcon,
   MagnifyingGlassIcon,
+  PlusIcon,
   ArrowRightIcon,
   WarningIcon,
 } from "phosphor-react-native"
@@ -36,28 +39,90 @@ import { ICON_COLORS } from "@/constants/icons"
 import { useStealth, needsStealthBackup } from "@/hooks/useStealth"
 import { useWalletStore } from "@/stores/wallet"
 import { usePrivacyStore } from "@/stores/privacy"
+import { useSettingsStore } from "@/stores/settings"
+import { usePaymentRequestsStore } from "@/stores/paymentRequests"
 import { useToastStore } from "@/stores/toast"
+import { createPaymentRequest, getPaymentRequestStatus } from "@/utils/paymentRequest"
 import { Button, ConfirmModal, LoadingState, ErrorState, EmptyState } from "@/components/ui"
+import type { PaymentRequestIssue, PaymentRequestRecord } from "@/types/paymentRequests"
 
 type Tab = "address" | "amount"
 
+const HOUR_MS = 60 * 60 * 1000
+
+const REQUEST_EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: "No expiry", ms: null },
+  { label: "1 hour", ms: HOUR_MS },
+  { label: "24 hours", ms: 24 * HOUR_MS },
+  { label: "7 days", ms: 7 * 24 * HOUR_MS },
+]
+
+/**
+ * Human-readable status line for a request
+ */
+function describeRequest(request: PaymentRequestRecord): string {
+  switch (getPaymentRequestStatus(request)) {
+    case "paid":
+      return `Paid ${new Date(request.paidAt ?? request.createdAt).toLocaleDateString()}`
+    case "expired":
+      return "Expired"
+    case "cancelled":
+      return "Cancelled"
+    default:
+      return request.expiresAt
+        ? `Open · expires ${new Date(request.expiresAt).toLocaleString()}`
+        : "Open"
+  }
+}
+
+const REQUEST_ISSUE_LABELS: Record<PaymentRequestIssue, string> = {
+  underpaid: "less than requested",
+  "wrong-token": "in another token",
+  "unverified-amount": "with an amount that couldn't be verified",
+  late: "after the request expired",
+}
+
+/**
+ * Note for payments that carried the request's reference but didn't settle it
+ */
+function describeRejectedPayments(request: PaymentRequestRecord): string | null {
+  const rejected = request.rejectedPayments ?? []
+  if (rejected.length === 0 || request.status === "paid") return null
+  const issues = [...new Set(rejected.map((p) => REQUEST_ISSUE_LABELS[p.issue]))]
+  return `${rejected.length === 1 ? "A payment was" : `${rejected.length} payments were`} sent ${issues.join(", ")}`
+}
+
 export default function ReceiveScreen() {
   const {
     stealthAddress,
+    metaAddresses,
     isGenerating,
     isLoading,
     error,
     regenerateAddress,
+    addMetaAddress,
+    selectMetaAddress,
     formatForDisplay,
   } = useStealth()
   const { isConnected, address: walletAddress } = useWalletStore()
   const { getUnclaimedPaymentsCount } = usePrivacyStore()
+  const { network } = useSettingsStore()
   const { addToast } = useToastStore()
+  const allRequests = usePaymentRequestsStore((state) => state.requests)
+  const { createRequest, cancelRequest, removeRequest } = usePaymentRequestsStore()
 
   const [activeTab, setActiveTab] = useState<Tab>("address")
   const [requestAmount, setRequestAmount] = useState("")
+  const [requestLabel, setRequestLabel] = useState("")
+  const [requestMessage, setRequestMessage] = useState("")
+  const [requestExpiryMs, setRequestExpiryMs] = useState<number | null>(24 * HOUR_MS)
+  const [activeRequestId, setActiveRequestId] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
   const [showConfirmModal, setShowConfirmModal] = useState(false)
+  const [isAddingMetaAddress, setIsAddingMetaAddress] = useState(false)
+  const [newLabel, setNewLabel] = useState("")
+
+  const primaryMetaAddress = metaAddresses.find((m) => m.isPrimary)
 
   const unclaimedCount = getUnclaimedPaymentsCount()
   const hasUnclaimed = unclaimedCount > 0
@@ -78,15 +143,60 @@ export default function ReceiveScreen() {
     }
   }, [walletAddress])
 
-  // Generate payment request URI with optional amount
+  // Requests issued by this wallet on this network, newest first
+  const requests = useMemo(
+    () => allRequests.filter((r) => r.walletAddress === walletAddress && r.network === network),
+    [allRequests, walletAddress, network]
+  )
+  // Request shown in the QR code (only while it can still be paid)
+  const activeRequest =
+    activeTab === "amount"
+      ? requests.find((r) => r.id === activeRequestId && getPaymentRequestStatus(r) === "open")
+      : undefined
+
+  // Payment request URL on the amount tab, plain stealth address otherwise
   const getPaymentUri = useCallback((): string => {
     if (!stealthAddress) return ""
 
-    if (requestAmount && parseFloat(requestAmount) > 0) {
-      return `${stealthAddress.full}?amount=${requestAmount}`
+    if (activeRequest) {
+      return createPaymentRequest({
+        stealthAddress: activeRequest.stealthAddress,
+        amount: activeRequest.amount,
+        token: activeRequest.token,
+        id: activeRequest.id,
+        expiresAt: activeRequest.expiresAt ?? undefined,
+        label: activeRequest.label,
+        message: activeRequest.message,
+        reference: activeRequest.reference,
+      })
     }
     return stealthAddress.full
-  }, [stealthAddress, requestAmount])
+  }, [stealthAddress, activeRequest])
+
+  const handleCreateRequest = () => {
+    if (!stealthAddress || !walletAddress) return
+
+    const request = createRequest({
+      walletAddress,
+      network,
+      stealthAddress: stealthAddress.full,
+      keyId: primaryMetaAddress?.id,
+      amount: requestAmount && parseFloat(requestAmount) > 0 ? requestAmount : undefined,
+      token: "SOL",
+      label: requestLabel.trim() || undefined,
+      message: requestMessage.trim() || undefined,
+      expiresAt: requestExpiryMs === null ? null : Date.now() + requestExpiryMs,
+    })
+    setActiveRequestId(request.id)
+    setRequestAmount("")
+    setRequestLabel("")
+    setRequestMessage("")
+    addToast({
+      type: "success",
+      title: "Request created",
+      message: "It's marked paid when a scan finds the payment",
+    })
+  }
 
   const handleCopy = async () => {
     if (!stealthAddress) return
@@ -107,8 +217,8 @@ export default function ReceiveScreen() {
     if (!stealthAddress) return
 
     const uri = getPaymentUri()
-    const message = requestAmount
-      ? `Send me ${requestAmount} SOL privately:\n${uri}`
+    const message = activeRequest?.amount
+      ? `Send me ${activeRequest.amount} ${activeRequest.token} privately:\n${uri}`
       : `Send me SOL privately:\n${uri}`
 
     try {
@@ -161,6 +271,38 @@ export default function ReceiveScreen() {
     }
   }
 
+  const handleSelectMetaAddress = async (keyId: string) => {
+    try {
+      await selectMetaAddress(keyId)
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Cannot switch address",
+        message: err instanceof Error ? err.message : "Unknown error",
+      })
+    }
+  }
+
+  const handleAddMetaAddress = async () => {
+    try {
+      const metaAddress = await addMetaAddress(newLabel)
+      await selectMetaAddress(metaAddress.id)
+      setIsAddingMetaAddress(false)
+      setNewLabel("")
+      addToast({
+        type: "success",
+        title: "Address added",
+        message: `Payments to "${metaAddress.label}" will be tagged in your history`,
+      })
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Cannot add address",
+        message: err instanceof Error ? err.message : "Unknown error",
+      })
+    }
+  }
+
   if (!isConnected) {
     return (
       <SafeAreaView className="flex-1 bg-dark-950">
@@ -277,7 +419,79 @@ export default function ReceiveScreen() {
             </View>
           )}
 
-          {/* Amount Input (when amount tab active) */}
+          {/* Meta-address Switcher */}
+          <View className="mt-6">
+            <Text className="text-dark-400 text-sm mb-2">Receiving As</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View className="flex-row gap-2">
+                {metaAddresses.map((metaAddress) => (
+                  <TouchableOpacity
+                    key={metaAddress.id}
+                    className={`px-4 py-2 rounded-full border ${
+                      metaAddress.isPrimary
+                        ? "bg-brand-600 border-brand-600"
+                        : "bg-dark-900 border-dark-800"
+                    }`}
+                    onPress={() => handleSelectMetaAddress(metaAddress.id)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: metaAddress.isPrimary }}
+                    accessibilityLabel={metaAddress.label}
+                    accessibilityHint="Shows this stealth address"
+                  >
+                    <Text className={metaAddress.isPrimary ? "text-white font-medium" : "text-dark-300"}>
+                      {metaAddress.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  className="px-4 py-2 rounded-full border border-dashed border-dark-700 flex-row items-center gap-1"
+                  onPress={() => setIsAddingMetaAddress(true)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Add stealth address"
+                  accessibilityHint="Creates another labelled stealth address"
+                >
+                  <PlusIcon size={14} color={ICON_COLORS.brand} weight="bold" />
+                  <Text className="text-brand-400">Add</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+
+            {isAddingMetaAddress && (
+              <View className="flex-row items-center gap-2 mt-3">
+                <TextInput
+                  className="flex-1 bg-dark-900 border border-dark-800 rounded-xl px-4 py-3 text-white"
+                  placeholder="Label, e.g. Payroll"
+                  placeholderTextColor="#71717a"
+                  value={newLabel}
+                  onChangeText={setNewLabel}
+                  maxLength={32}
+                  autoFocus
+                />
+                <TouchableOpacity
+                  className={`bg-brand-600 px-4 py-3 rounded-xl ${!newLabel.trim() || isGenerating ? "opacity-50" : ""}`}
+                  onPress={handleAddMetaAddress}
+                  disabled={!newLabel.trim() || isGenerating}
+                  accessibilityRole="button"
+                  accessibilityLabel="Create stealth address"
+                >
+                  <Text className="text-white font-medium">Create</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  className="px-2 py-3"
+                  onPress={() => {
+                    setIsAddingMetaAddress(false)
+                    setNewLabel("")
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel"
+                >
+                  <Text className="text-dark-400">Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          {/* Payment Request Form (when amount tab active) */}
           {activeTab === "amount" && (
             <View className="mt-6">
               <Text className="text-dark-400 text-sm mb-2">Request Amount (SOL)</Text>
@@ -292,9 +506,58 @@ export default function ReceiveScreen() {
                 />
                 <Text className="text-dark-400 text-lg font-medium">SOL</Text>
               </View>
-              {requestAmount && parseFloat(requestAmount) > 0 && (
+              <TextInput
+                className="mt-3 bg-dark-900 border border-dark-800 rounded-xl px-4 py-3 text-white"
+                placeholder="From (optional), e.g. Coffee Shop"
+                placeholderTextColor="#71717a"
+                value={requestLabel}
+                onChangeText={setRequestLabel}
+                maxLength={48}
+              />
+              <TextInput
+                className="mt-3 bg-dark-900 border border-dark-800 rounded-xl px-4 py-3 text-white"
+                placeholder="For (optional), e.g. Invoice #42"
+                placeholderTextColor="#71717a"
+                value={requestMessage}
+                onChangeText={setRequestMessage}
+                maxLength={120}
+              />
+              <Text className="text-dark-400 text-sm mt-4 mb-2">Expires</Text>
+              <View className="flex-row flex-wrap gap-2">
+                {REQUEST_EXPIRY_OPTIONS.map((option) => {
+                  const selected = option.ms === requestExpiryMs
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      className={`px-4 py-2 rounded-full border ${
+                        selected ? "bg-brand-600 border-brand-600" : "bg-dark-900 border-dark-800"
+                      }`}
+                      onPress={() => setRequestExpiryMs(option.ms)}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                      accessibilityLabel={option.label}
+                    >
+                      <Text className={selected ? "text-white font-medium" : "text-dark-300"}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  )
+                })}
+              </View>
+              <Button
+                fullWidth
+                className="mt-4"
+                onPress={handleCreateRequest}
+                disabled={!stealthAddress}
+                accessibilityLabel="Create payment request"
+                accessibilityHint="Creates a request and shows its QR code"
+              >
+                Create Request
+              </Button>
+              {activeRequest && (
                 <Text className="text-dark-500 text-sm mt-2">
-                  QR code will include {requestAmount} SOL request
+                  QR code shows {activeRequest.label ?? "your"} request
+                  {activeRequest.amount ? ` for ${activeRequest.amount} ${activeRequest.token}` : ""}
                 </Text>
               )}
             </View>
@@ -328,7 +591,9 @@ export default function ReceiveScreen() {
           {/* Stealth Address Display */}
           <View className="mt-6">
             <View className="flex-row items-center justify-between mb-2">
-              <Text className="text-dark-400 text-sm">Stealth Address</Text>
+              <Text className="text-dark-400 text-sm">
+                {primaryMetaAddress ? `${primaryMetaAddress.label} Stealth Address` : "Stealth Address"}
+              </Text>
               <TouchableOpacity
                 onPress={handleRegeneratePress}
                 disabled={isGenerating || hasUnclaimed}
@@ -412,6 +677,62 @@ export default function ReceiveScreen() {
             </TouchableOpacity>
           </View>
 
+          {/* Payment Requests */}
+          {activeTab === "amount" && requests.length > 0 && (
+            <View testID="payment-requests" className="mt-6">
+              <Text className="text-white font-semibold mb-3">Requests</Text>
+              {requests.map((request) => {
+                const status = getPaymentRequestStatus(request)
+                const isShown = request.id === activeRequest?.id
+                return (
+                  <View
+                    key={request.id}
+                    className={`bg-dark-900 rounded-xl border p-4 mb-3 ${
+                      isShown ? "border-brand-600" : "border-dark-800"
+                    }`}
+                  >
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-white font-medium flex-1 mr-3" numberOfLines={1}>
+                        {request.message ?? request.label ?? "Payment request"}
+                      </Text>
+                      <Text className="text-white">
+                        {request.amount ? `${request.amount} ${request.token}` : "Any amount"}
+                      </Text>
+                    </View>
+                    <Text
+                      className={`text-sm mt-1 ${
+                        status === "paid" ? "text-green-400" : status === "open" ? "text-dark-400" : "text-dark-500"
+                      }`}
+                    >
+                      {describeRequest(request)}
+                    </Text>
+                    {describeRejectedPayments(request) && (
+                      <Text className="text-yellow-400 text-xs mt-1">
+                        {describeRejectedPayments(request)}
+                      </Text>
+                    )}
+                    <View className="flex-row justify-end gap-4 mt-2">
+                      {status === "open" && !isShown && (
+                        <TouchableOpacity onPress={() => setActiveRequestId(request.id)} accessibilityRole="button">
+                          <Text className="text-brand-400 text-sm font-medium">Show QR</Text>
+                        </TouchableOpacity>
+                      )}
+                      {status === "open" ? (
+                        <TouchableOpacity onPress={() => cancelRequest(request.id)} accessibilityRole="button">
+                          <Text className="text-red-400 text-sm font-medium">Cancel</Text>
+                        </TouchableOpacity>
+                      ) : (
+                        <TouchableOpacity onPress={() => removeRequest(request.id)} accessibilityRole="button">
+                          <Text className="text-dark-400 text-sm font-medium">Remove</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                )
+              })}
+            </View>
+          )}
+
           {/* Privacy Info Card */}
           <View className="mt-6 bg-brand-900/10 border border-brand-800/30 rounded-xl p-4">
             <View className="flex-row items-start gap-3">
@@ -497,7 +818,7 @@ export default function ReceiveScreen() {
         onClose={() => setShowConfirmModal(false)}
         onConfirm={handleRegenerate}
         title="Generate New Address?"
-        message="Your current address will be archived. Past payments remain claimable with archived keys."
+        message={`Your "${primaryMetaAddress?.label ?? "current"}" address will be archived. Past payments remain claimable with archived keys.`}
         confirmText="Generate"
         cancelText="Cancel"
       />
@@ -139,8 +139,8 @@ export default function ScanScreen() {
 
   const lastScanTime = getLastScanTime()
 
-  const handleScan = async () => {
-    const result = await scan()
+  const handleScan = async (fullRescan = false) => {
+    const result = await scan({ fullRescan })
     setHasScannedOnce(true)
 
     if (result.found > 0) {
@@ -356,9 +356,20 @@ export default function ScanScreen() {
                 Cancel Scan
               </Button>
             ) : (
-              <Button fullWidth size="lg" onPress={handleScan}>
-                Scan for Payments
-              </Button>
+              <>
+                <Button fullWidth size="lg" onPress={() => handleScan()}>
+                  Scan for Payments
+                </Button>
+                <TouchableOpacity
+                  className="mt-3 items-center"
+                  onPress={() => handleScan(true)}
+                  accessibilityRole="button"
+                  accessibilityLabel="Full rescan"
+                  accessibilityHint="Re-checks every transfer record instead of only new ones"
+                >
+                  <Text className="text-dark-500 text-sm">Full rescan</Text>
+                </TouchableOpacity>
+              </>
             )}
           </View>
 
@@ -0,0 +1,21 @@
+/**
+ * Scheduled Payments Stack Layout
+ *
+ * Routes:
+ * - /scheduled      → Scheduled payments (due first)
+ * - /scheduled/new  → New recurring payment form
+ */
+
+import { Stack } from "expo-router"
+
+export default function ScheduledPaymentsLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: "#0a0a0a" },
+        animation: "slide_from_right",
+      }}
+    />
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * Scheduled Payments Screen
+ *
+ * Recurring private payments to contacts.
+ * - Due payments first, with Pay (preview + biometric signing) and Skip
+ * - Pause, resume or delete any schedule
+ * - Opened from a "payment due" notification with the schedule highlighted
+ */
+
+import { View, Text, ScrollView, TouchableOpacity } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useCallback } from "react"
+import { router, useLocalSearchParams } from "expo-router"
+import { ArrowLeftIcon, PlusIcon, CalendarBlankIcon } from "phosphor-react-native"
+import { ICON_COLORS } from "@/constants/icons"
+import { hapticSuccess, hapticError } from "@/utils/haptics"
+import { useScheduledPayments } from "@/hooks/useScheduledPayments"
+import { useContactsStore } from "@/stores/contacts"
+import { useToastStore } from "@/stores/toast"
+import { CADENCE_LABELS, isScheduleDue } from "@/utils/scheduledPayments"
+import { Button } from "@/components/ui/Button"
+import { EmptyState } from "@/components/ui/EmptyState"
+import type { ScheduledPayment } from "@/types/scheduledPayments"
+
+// ============================================================================
+// SCHEDULE ROW
+// ============================================================================
+
+interface ScheduleRowProps {
+  schedule: ScheduledPayment
+  contactName: string
+  highlighted: boolean
+  paying: boolean
+  onPay: () => void
+  onSkip: () => void
+  onTogglePause: () => void
+  onDelete: () => void
+}
+
+function ScheduleRow({
+  schedule,
+  contactName,
+  highlighted,
+  paying,
+  onPay,
+  onSkip,
+  onTogglePause,
+  onDelete,
+}: ScheduleRowProps) {
+  const due = isScheduleDue(schedule)
+  const statusText =
+    schedule.status === "completed"
+      ? `Completed · ${schedule.runCount} paid`
+      : schedule.status === "paused"
+        ? "Paused"
+        : due
+          ? "Due now"
+          : `Next: ${new Date(schedule.nextRunAt).toLocaleDateString()}`
+
+  return (
+    <View
+      className={`bg-dark-900 rounded-xl p-4 mb-3 border ${
+        highlighted || due ? "border-brand-600" : "border-dark-800"
+      }`}
+    >
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 mr-3">
+          <Text className="text-white font-semibold text-base" numberOfLines={1}>
+            {contactName}
+          </Text>
+          <Text className="text-dark-400 text-sm mt-0.5">
+            {schedule.amount} {schedule.token} · {CADENCE_LABELS[schedule.cadence]}
+          </Text>
+        </View>
+        <Text className={due ? "text-brand-400 text-sm font-medium" : "text-dark-400 text-sm"}>
+          {statusText}
+        </Text>
+      </View>
+
+      {schedule.lastError && (
+        <Text className="text-red-400 text-xs mt-2" numberOfLines={2}>
+          {schedule.lastError}
+        </Text>
+      )}
+
+      {due && (
+        <View className="flex-row gap-3 mt-3">
+          <Button size="sm" onPress={onPay} loading={paying} disabled={paying} style={{ flex: 1 }}>
+            Pay now
+          </Button>
+          <Button size="sm" variant="secondary" onPress={onSkip} disabled={paying}>
+            Skip
+          </Button>
+        </View>
+      )}
+
+      <View className="flex-row justify-end gap-4 mt-3">
+        {schedule.status !== "completed" && (
+          <TouchableOpacity onPress={onTogglePause} accessibilityRole="button">
+            <Text className="text-dark-300 text-sm font-medium">
+              {schedule.status === "paused" ? "Resume" : "Pause"}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onDelete} accessibilityRole="button">
+          <Text className="text-red-400 text-sm font-medium">Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  )
+}
+
+// ============================================================================
+// SCREEN
+// ============================================================================
+
+export default function ScheduledPaymentsScreen() {
+  const { id: highlightedId } = useLocalSearchParams<{ id?: string }>()
+  const contacts = useContactsStore((s) => s.contacts)
+  const { addToast } = useToastStore()
+  const { schedules, dueSchedules, payingId, setPaused, removeSchedule, skip, pay } =
+    useScheduledPayments()
+
+  const getContactName = useCallback(
+    (contactId: string) => contacts.find((c) => c.id === contactId)?.name ?? "Deleted contact",
+    [contacts]
+  )
+
+  const handlePay = useCallback(
+    async (schedule: ScheduledPayment) => {
+      const result = await pay(schedule.id)
+      if (result.success) {
+        hapticSuccess()
+        addToast({
+          type: "success",
+          title: "Payment sent",
+          message: `${schedule.amount} ${schedule.token} sent privately to ${getContactName(schedule.contactId)}`,
+        })
+      } else {
+        hapticError()
+        addToast({ type: "error", title: "Payment not sent", message: result.error || "Unknown error" })
+      }
+    },
+    [pay, addToast, getContactName]
+  )
+
+  const upcoming = schedules.filter((s) => !dueSchedules.includes(s))
+
+  const renderRow = (schedule: ScheduledPayment) => (
+    <ScheduleRow
+      key={schedule.id}
+      schedule={schedule}
+      contactName={getContactName(schedule.contactId)}
+      highlighted={schedule.id === highlightedId}
+      paying={payingId === schedule.id}
+      onPay={() => handlePay(schedule)}
+      onSkip={() => skip(schedule.id)}
+      onTogglePause={() => setPaused(schedule.id, schedule.status !== "paused")}
+      onDelete={() => removeSchedule(schedule.id)}
+    />
+  )
+
+  return (
+    <SafeAreaView className="flex-1 bg-dark-950">
+      {/* Header */}
+      <View className="flex-row items-center px-6 pt-6 pb-4">
+        <TouchableOpacity
+          onPress={() => router.back()}
+          className="w-10 h-10 bg-dark-900 rounded-full items-center justify-center mr-3"
+          activeOpacity={0.7}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <ArrowLeftIcon size={20} color="#ffffff" weight="bold" />
+        </TouchableOpacity>
+        <View className="flex-1">
+          <Text className="text-2xl font-bold text-white">Scheduled</Text>
+          <Text className="text-dark-400 text-sm mt-0.5">Recurring private payments</Text>
+        </View>
+        <TouchableOpacity
+          className="bg-brand-600 w-10 h-10 rounded-full items-center justify-center"
+          onPress={() => router.push("/scheduled/new")}
+          activeOpacity={0.7}
+          accessibilityLabel="Schedule payment"
+          accessibilityHint="Opens the new scheduled payment form"
+          accessibilityRole="button"
+        >
+          <PlusIcon size={20} color="#ffffff" weight="bold" />
+        </TouchableOpacity>
+      </View>
+
+      {schedules.length === 0 ? (
+        <EmptyState
+          title="No Scheduled Payments"
+          message="Pay contacts privately every week or month. You'll be asked to confirm each payment."
+          IconComponent={CalendarBlankIcon}
+          iconColor={ICON_COLORS.brand}
+          actionLabel="Schedule Payment"
+          onAction={() => router.push("/scheduled/new")}
+          className="flex-1"
+        />
+      ) : (
+        <ScrollView
+          className="flex-1 px-6"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 24 }}
+        >
+          {dueSchedules.length > 0 && (
+            <View className="mb-4">
+              <Text className="text-dark-400 text-sm font-medium mb-3">Due</Text>
+              {dueSchedules.map(renderRow)}
+            </View>
+          )}
+
+          {upcoming.length > 0 && (
+            <View>
+              {dueSchedules.length > 0 && (
+                <Text className="text-dark-400 text-sm font-medium mb-3">Upcoming</Text>
+              )}
+              {upcoming.map(renderRow)}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  )
+}
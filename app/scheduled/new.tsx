@@ -0,0 +1,274 @@
+/**
+ * New Scheduled Payment Screen
+ *
+ * Form to create a recurring private payment.
+ * - Contact (only contacts with a stealth address)
+ * - Amount and token
+ * - Cadence (weekly, every 2 weeks, monthly)
+ * - First payment date and optional end date (YYYY-MM-DD)
+ */
+
+import { View, Text, ScrollView, KeyboardAvoidingView, Platform, Keyboard } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useState, useCallback, useMemo } from "react"
+import { router } from "expo-router"
+import { ArrowLeftIcon, CalendarBlankIcon } from "phosphor-react-native"
+import { TouchableOpacity } from "react-native"
+import { ICON_COLORS } from "@/constants/icons"
+import { hapticLight, hapticSuccess } from "@/utils/haptics"
+import { useScheduledPayments } from "@/hooks/useScheduledPayments"
+import { useContactsStore } from "@/stores/contacts"
+import { useToastStore } from "@/stores/toast"
+import { TOKENS } from "@/data/tokens"
+import {
+  CADENCE_LABELS,
+  formatDateInput,
+  getContactStealthAddress,
+  parseDateInput,
+  validateSchedule,
+} from "@/utils/scheduledPayments"
+import { Input } from "@/components/ui/Input"
+import { Button } from "@/components/ui/Button"
+import type { PaymentCadence } from "@/types/scheduledPayments"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SCHEDULE_TOKENS = ["SOL", "USDC", "USDT"]
+const CADENCES: PaymentCadence[] = ["weekly", "biweekly", "monthly"]
+
+// ============================================================================
+// CHIP
+// ============================================================================
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      className={`px-4 py-2 rounded-xl border ${
+        selected ? "bg-brand-600 border-brand-600" : "bg-dark-900 border-dark-800"
+      }`}
+      onPress={() => {
+        hapticLight()
+        onPress()
+      }}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text className={selected ? "text-white font-medium" : "text-dark-300"}>{label}</Text>
+    </TouchableOpacity>
+  )
+}
+
+// ============================================================================
+// SCREEN
+// ============================================================================
+
+export default function NewScheduledPaymentScreen() {
+  const contacts = useContactsStore((s) => s.contacts)
+  const { addToast } = useToastStore()
+  const { createSchedule } = useScheduledPayments()
+
+  const payableContacts = useMemo(
+    () => contacts.filter((c) => getContactStealthAddress(c) !== null),
+    [contacts]
+  )
+
+  // Form state
+  const [contactId, setContactId] = useState<string | null>(null)
+  const [amount, setAmount] = useState("")
+  const [token, setToken] = useState("SOL")
+  const [cadence, setCadence] = useState<PaymentCadence>("monthly")
+  const [startDate, setStartDate] = useState(() => formatDateInput(Date.now()))
+  const [endDate, setEndDate] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // HANDLERS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  const handleSave = useCallback(async () => {
+    Keyboard.dismiss()
+    setError(null)
+
+    if (!contactId) {
+      setError("Choose a contact")
+      return
+    }
+
+    const startAt = parseDateInput(startDate)
+    if (startAt === null) {
+      setError("Enter the first payment date as YYYY-MM-DD")
+      return
+    }
+
+    const endAt = endDate.trim() ? parseDateInput(endDate) : null
+    if (endDate.trim() && endAt === null) {
+      setError("Enter the end date as YYYY-MM-DD")
+      return
+    }
+
+    const validation = validateSchedule(amount, startAt, endAt)
+    if (!validation.isValid) {
+      setError(validation.error || "Invalid schedule")
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await createSchedule({
+        contactId,
+        amount: amount.trim(),
+        token,
+        tokenMint: token === "SOL" ? undefined : TOKENS[token].mint,
+        cadence,
+        startAt,
+        endAt,
+      })
+
+      addToast({
+        type: "success",
+        title: "Payment scheduled",
+        message: "You'll get a notification to confirm each payment when it's due.",
+      })
+      hapticSuccess()
+      router.back()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to schedule payment")
+    } finally {
+      setIsSaving(false)
+    }
+  }, [contactId, amount, token, cadence, startDate, endDate, createSchedule, addToast])
+
+  const isFormValid = contactId !== null && amount.trim().length > 0
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ──────────────────────────────────────────────────────────────────────────
+
+  return (
+    <SafeAreaView className="flex-1 bg-dark-950">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1"
+      >
+        {/* Header */}
+        <View className="flex-row items-center px-6 pt-6 pb-4">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-10 h-10 bg-dark-900 rounded-full items-center justify-center mr-3"
+            activeOpacity={0.7}
+            accessibilityLabel="Go back"
+            accessibilityRole="button"
+          >
+            <ArrowLeftIcon size={20} color="#ffffff" weight="bold" />
+          </TouchableOpacity>
+          <View className="flex-1">
+            <Text className="text-2xl font-bold text-white">Schedule Payment</Text>
+            <Text className="text-dark-400 text-sm mt-0.5">
+              Pay a contact privately on a schedule
+            </Text>
+          </View>
+          <View className="w-10 h-10 bg-brand-900/30 rounded-full items-center justify-center">
+            <CalendarBlankIcon size={20} color={ICON_COLORS.brand} weight="regular" />
+          </View>
+        </View>
+
+        <ScrollView
+          className="flex-1 px-6"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Contact */}
+          <Text className="text-dark-400 text-sm mb-2">Pay to</Text>
+          {payableContacts.length === 0 ? (
+            <Text className="text-dark-500 text-sm mb-4">
+              Add a contact with a stealth meta-address (sip:solana:...) to schedule payments.
+            </Text>
+          ) : (
+            <View className="flex-row flex-wrap gap-2 mb-4">
+              {payableContacts.map((contact) => (
+                <Chip
+                  key={contact.id}
+                  label={contact.name}
+                  selected={contact.id === contactId}
+                  onPress={() => setContactId(contact.id)}
+                />
+              ))}
+            </View>
+          )}
+
+          {/* Amount */}
+          <Input
+            label="Amount"
+            placeholder="0.00"
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+            className="mb-4"
+          />
+
+          {/* Token */}
+          <Text className="text-dark-400 text-sm mb-2">Token</Text>
+          <View className="flex-row flex-wrap gap-2 mb-4">
+            {SCHEDULE_TOKENS.map((symbol) => (
+              <Chip key={symbol} label={symbol} selected={symbol === token} onPress={() => setToken(symbol)} />
+            ))}
+          </View>
+
+          {/* Cadence */}
+          <Text className="text-dark-400 text-sm mb-2">Repeats</Text>
+          <View className="flex-row flex-wrap gap-2 mb-4">
+            {CADENCES.map((option) => (
+              <Chip
+                key={option}
+                label={CADENCE_LABELS[option]}
+                selected={option === cadence}
+                onPress={() => setCadence(option)}
+              />
+            ))}
+          </View>
+
+          {/* Dates */}
+          <Input
+            label="First payment"
+            placeholder="YYYY-MM-DD"
+            value={startDate}
+            onChangeText={setStartDate}
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="mb-4"
+          />
+          <Input
+            label="End date (optional)"
+            placeholder="YYYY-MM-DD"
+            value={endDate}
+            onChangeText={setEndDate}
+            autoCapitalize="none"
+            autoCorrect={false}
+            hint="No payments after this date"
+            className="mb-4"
+          />
+
+          {error && <Text className="text-red-400 text-sm mb-4">{error}</Text>}
+        </ScrollView>
+
+        {/* Save Button */}
+        <View className="px-6 pb-6 pt-2 border-t border-dark-900">
+          <Button
+            fullWidth
+            size="lg"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={!isFormValid || isSaving}
+            accessibilityLabel="Schedule payment"
+            accessibilityHint="Saves the schedule and returns to scheduled payments"
+          >
+            Schedule Payment
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  )
+}
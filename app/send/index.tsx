@@ -49,12 +49,20 @@ import { useSettingsStore } from "@/stores/settings"
 import { useContactsStore } from "@/stores/contacts"
 import { useToastStore } from "@/stores/toast"
 import { useBalance } from "@/hooks/useBalance"
+import { useFeeEstimate } from "@/hooks/useFeeEstimate"
+import { useOutbox } from "@/hooks/useOutbox"
 import { NumpadInput } from "@/components"
 import { Button, Modal, EmptyState } from "@/components/ui"
 import type { PrivacyLevel } from "@/types"
 import type { PrivacySendStatus } from "@/privacy-providers"
-import { getRpcClient } from "@/lib/rpc"
-import { getRpcApiKey } from "@/lib/config"
+import { getConnection } from "@/lib/connection"
+import { checkConnectivity } from "@/lib/outbox"
+import { getToken } from "@/data/tokens"
+import {
+  parsePaymentRequest,
+  isPaymentRequestExpired,
+  type PaymentRequestParams,
+} from "@/utils/paymentRequest"
 import {
   resolve as snsResolve,
   MetaAddress,
@@ -71,6 +79,14 @@ import {
 // SNS resolution debounce delay (ms) — avoids firing on every keystroke
 const RESOLVE_DEBOUNCE_MS = 350
 
+// Default token selection
+const SOL_TOKEN: { symbol: string; name: string; mint: string; decimals: number } = {
+  symbol: "SOL",
+  name: "Solana",
+  mint: "So11111111111111111111111111111111111111112",
+  decimals: 9,
+}
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
@@ -127,10 +143,17 @@ function formatUsdValue(amount: string, solPrice: number): string {
 
 export default function SendScreen() {
   // Handle params from QR scanner or contacts
-  const { scannedAddress, recipient: recipientParam, contactName } = useLocalSearchParams<{
+  const {
+    scannedAddress,
+    recipient: recipientParam,
+    contactName,
+    paymentRequest: paymentRequestParam,
+  } = useLocalSearchParams<{
     scannedAddress?: string
     recipient?: string
     contactName?: string
+    /** sipprotocol://pay URL from the QR scanner */
+    paymentRequest?: string
   }>()
 
   // Privacy Provider (supports Arcium, Privacy Cash, ShadowWire, etc.)
@@ -150,48 +173,38 @@ export default function SendScreen() {
     heliusApiKey,
     quicknodeApiKey,
     tritonEndpoint,
+    rpcProfiles,
+    activeRpcProfileIds,
+    getPriorityFeePreference,
   } = useSettingsStore()
   const { addToast } = useToastStore()
   const { balance, solPrice, tokenBalances } = useBalance()
-
-  // ── Cluster-aware Connection (Task 16 pattern).
-  //
-  // Used by the resolution effect below. Same TODO(rpc-singleton) caveat as
-  // sip-stealth.tsx: getRpcClient mutates a global singleton. Deferred to
-  // a dedicated cleanup pass — out of scope for the recipient resolution
-  // feature.
-  const connection: Connection = useMemo(() => {
-    let apiKey: string | undefined
-    let customEndpoint: string | undefined
-    switch (rpcProvider) {
-      case "helius":
-        apiKey = heliusApiKey || getRpcApiKey("helius") || undefined
-        break
-      case "quicknode":
-        apiKey = quicknodeApiKey || undefined
-        break
-      case "triton":
-        customEndpoint = tritonEndpoint || undefined
-        break
-      case "publicnode":
-      default:
-        break
-    }
-    return getRpcClient({
-      provider: rpcProvider,
-      cluster: network,
-      apiKey,
-      customEndpoint,
-    }).getConnection()
-  }, [network, rpcProvider, heliusApiKey, quicknodeApiKey, tritonEndpoint])
+  const { entries: outboxEntries, queueSend, retry: retryQueued, discard: discardQueued } = useOutbox()
+
+  // ── Shared failover Connection for the selected cluster and providers
+  const connection: Connection = useMemo(
+    () =>
+      getConnection({
+        network,
+        rpcProvider,
+        heliusApiKey,
+        quicknodeApiKey,
+        tritonEndpoint,
+        rpcProfiles,
+        activeRpcProfileIds,
+      }),
+    [
+      network,
+      rpcProvider,
+      heliusApiKey,
+      quicknodeApiKey,
+      tritonEndpoint,
+      rpcProfiles,
+      activeRpcProfileIds,
+    ]
+  )
 
   // Token selection state
-  const SOL_TOKEN: { symbol: string; name: string; mint: string; decimals: number } = {
-    symbol: "SOL",
-    name: "Solana",
-    mint: "So11111111111111111111111111111111111111112",
-    decimals: 9,
-  }
   const [selectedToken, setSelectedToken] = useState(SOL_TOKEN)
   const isSOL = selectedToken.mint === SOL_TOKEN.mint
 
@@ -203,6 +216,8 @@ export default function SendScreen() {
   // Form state
   const [amount, setAmount] = useState("")
   const [recipient, setRecipient] = useState("")
+  // Payment request being paid (its reference is attached to the transfer)
+  const [activeRequest, setActiveRequest] = useState<PaymentRequestParams | null>(null)
   const [showConfirmModal, setShowConfirmModal] = useState(false)
   const [showSuccessModal, setShowSuccessModal] = useState(false)
 
@@ -301,6 +316,34 @@ export default function SendScreen() {
     }
   }, [recipientParam])
 
+  // Handle a scanned payment request: pre-fill recipient, amount and token
+  useEffect(() => {
+    if (!paymentRequestParam) return
+    try {
+      const request = parsePaymentRequest(paymentRequestParam)
+      const token = request.token && request.token !== "SOL" ? getToken(request.token) : undefined
+      setSelectedToken(
+        token ? { symbol: token.symbol, name: token.name, mint: token.mint, decimals: token.decimals } : SOL_TOKEN
+      )
+      setRecipient(request.stealthAddress)
+      setAmount(request.amount ?? "")
+      setActiveRequest(request)
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Invalid payment request",
+        message: err instanceof Error ? err.message : "Could not read the request",
+      })
+    }
+  }, [paymentRequestParam, addToast])
+
+  // Editing the recipient abandons the request
+  useEffect(() => {
+    if (activeRequest && recipient !== activeRequest.stealthAddress) {
+      setActiveRequest(null)
+    }
+  }, [recipient, activeRequest])
+
   // ── Recipient resolution effect ─────────────────────────────────────────────
   //
   // Effect deps are `[recipient, connection]` (NOT setRecipient or its
@@ -424,6 +467,15 @@ export default function SendScreen() {
   const handleReview = useCallback(() => {
     Keyboard.dismiss()
 
+    if (activeRequest && isPaymentRequestExpired(activeRequest)) {
+      addToast({
+        type: "error",
+        title: "Request expired",
+        message: "Ask the recipient for a new payment request",
+      })
+      return
+    }
+
     // Final validation — submit-gate uses the same isReadyToSend predicate
     // that the disabled-state below uses, so this branch is only reached
     // when the state machine says we're ready. Defensive guard remains.
@@ -469,6 +521,7 @@ export default function SendScreen() {
     providerReady,
     providerError,
     addToast,
+    activeRequest,
   ])
 
   const handleConfirmSend = useCallback(async () => {
@@ -483,8 +536,25 @@ export default function SendScreen() {
     // (it already understands that shape). For sip-uri / solana-address
     // kinds, targetUri() returns the raw input verbatim.
     const sendTarget = targetUri(resolution) ?? recipient
+    const toStealth = resolution.kind === "sip-uri" || resolution.kind === "sns-resolved"
 
     try {
+      // Offline: compose the shielded SOL send now, submitted once back online.
+      // Request payments are sent directly so the reference is attached.
+      if (toStealth && isSOL && !activeRequest && !(await checkConnectivity(connection))) {
+        await queueSend({ amount, recipient: sendTarget, privacyLevel: defaultPrivacyLevel })
+        setShowConfirmModal(false)
+        setAmount("")
+        setRecipient("")
+        hapticSuccess()
+        addToast({
+          type: "info",
+          title: "Payment queued",
+          message: "You're offline. You'll be asked to confirm it once you're back online.",
+        })
+        return
+      }
+
       // Execute send via Privacy Provider
       const result = await send(
         {
@@ -492,6 +562,8 @@ export default function SendScreen() {
           recipient: sendTarget,
           privacyLevel: defaultPrivacyLevel,
           tokenMint: isSOL ? undefined : selectedToken.mint,
+          priorityFee: getPriorityFeePreference(),
+          reference: activeRequest?.reference,
         },
         (newStatus) => setStatus(newStatus)
       )
@@ -532,13 +604,18 @@ export default function SendScreen() {
     defaultPrivacyLevel,
     isSOL,
     selectedToken.mint,
+    getPriorityFeePreference,
     addToast,
+    connection,
+    queueSend,
+    activeRequest,
   ])
 
   const handleCloseSuccess = useCallback(() => {
     setShowSuccessModal(false)
     setAmount("")
     setRecipient("")
+    setActiveRequest(null)
     setStatus("idle")
     setTxHash(null)
     setTxError(null)
@@ -590,6 +667,12 @@ export default function SendScreen() {
   const isStealth =
     resolution.kind === "sip-uri" || resolution.kind === "sns-resolved"
 
+  // Network fee preview for the confirmation (base + priority fee)
+  const { totalSol: networkFeeSol } = useFeeEstimate({
+    kind: isStealth ? "shieldedTransfer" : isSOL ? "transfer" : "tokenTransfer",
+    enabled: showConfirmModal,
+  })
+
   if (!isConnected) {
     return (
       <SafeAreaView className="flex-1 bg-dark-950">
@@ -641,6 +724,55 @@ export default function SendScreen() {
             </View>
           )}
 
+          {/* Outbox: sends queued while offline */}
+          {outboxEntries.length > 0 && (
+            <View testID="outbox-banner" className="mt-4 bg-dark-900 border border-dark-800 rounded-xl p-3 gap-2">
+              <Text className="text-dark-400 text-sm">Queued while offline</Text>
+              {outboxEntries.map((entry) => (
+                <View key={entry.id} className="flex-row items-center justify-between">
+                  <View className="flex-1 mr-2">
+                    <Text className="text-white text-sm">{entry.amount} SOL</Text>
+                    <Text className="text-dark-500 text-xs" numberOfLines={1}>
+                      {entry.status === "held" ? entry.lastError ?? "Not sent" : "Sends when back online"}
+                    </Text>
+                  </View>
+                  {entry.status === "held" && (
+                    <View className="flex-row gap-3">
+                      <TouchableOpacity onPress={() => retryQueued(entry.id)}>
+                        <Text className="text-brand-400 text-sm font-medium">Retry</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => discardQueued(entry.id)}>
+                        <Text className="text-red-400 text-sm font-medium">Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Payment Request Banner */}
+          {activeRequest && (
+            <View testID="payment-request-banner" className="mt-4 bg-brand-900/20 border border-brand-700/50 rounded-xl p-3">
+              <Text className="text-brand-400 font-semibold text-base">
+                {activeRequest.label ? `Payment request from ${activeRequest.label}` : "Payment request"}
+              </Text>
+              {activeRequest.message && (
+                <Text className="text-dark-300 text-sm mt-1">{activeRequest.message}</Text>
+              )}
+              {activeRequest.expiresAt !== undefined && (
+                <Text
+                  className={`text-xs mt-1 ${
+                    isPaymentRequestExpired(activeRequest) ? "text-red-400" : "text-dark-500"
+                  }`}
+                >
+                  {isPaymentRequestExpired(activeRequest) ? "Expired" : "Expires"}{" "}
+                  {new Date(activeRequest.expiresAt).toLocaleString()}
+                </Text>
+              )}
+            </View>
+          )}
+
           {/* Contact Name Banner */}
           {contactName && (
             <View testID="contact-name-banner" className="mt-4 bg-brand-900/20 border border-brand-700/50 rounded-xl p-3">
@@ -1070,7 +1202,9 @@ export default function SendScreen() {
             </View>
             <View className="flex-row justify-between">
               <Text className="text-dark-500">Network Fee</Text>
-              <Text className="text-dark-300">~0.00001 SOL</Text>
+              <Text className="text-dark-300">
+                {networkFeeSol !== null ? `~${networkFeeSol.toFixed(6)} SOL` : "Estimating..."}
+              </Text>
             </View>
             <View className="flex-row justify-between items-center">
               <Text className="text-dark-500">Provider</Text>
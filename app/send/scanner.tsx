@@ -8,6 +8,7 @@
  * - Regular Solana address: Base58 (32-44 chars)
  * - SIP Stealth address: sip:solana:<spending>:<viewing>
  * - Solana Pay URL: solana:<address>
+ * - SIP payment request: sipprotocol://pay?address=...
  */
 
 import { useState, useEffect, useCallback } from "react"
@@ -24,17 +25,30 @@ import { ICON_COLORS } from "@/constants/icons"
 import { useToastStore } from "@/stores/toast"
 import { hapticMedium } from "@/utils/haptics"
 import { SOLANA_ADDRESS_REGEX, STEALTH_ADDRESS_REGEX, SOLANA_PAY_REGEX } from "@/utils/validation"
+import { isPaymentRequestUrl, parsePaymentRequest } from "@/utils/paymentRequest"
 
 /**
  * Parse and validate scanned QR data
  */
-function parseQRData(data: string): { address: string; type: "stealth" | "regular" | "invalid" } {
+function parseQRData(data: string): {
+  address: string
+  type: "stealth" | "regular" | "request" | "invalid"
+} {
   if (!data) {
     return { address: "", type: "invalid" }
   }
 
   const trimmed = data.trim()
 
+  // Check for SIP payment request (the send screen parses the rest)
+  if (isPaymentRequestUrl(trimmed)) {
+    try {
+      return { address: parsePaymentRequest(trimmed).stealthAddress, type: "request" }
+    } catch {
+      return { address: trimmed, type: "invalid" }
+    }
+  }
+
   // Check for SIP stealth address
   if (STEALTH_ADDRESS_REGEX.test(trimmed)) {
     return { address: trimmed, type: "stealth" }
@@ -99,10 +113,20 @@ export default function ScannerScreen() {
       // Show success toast
       addToast({
         type: "success",
-        title: parsed.type === "stealth" ? "Stealth Address Scanned" : "Address Scanned",
+        title:
+          parsed.type === "request"
+            ? "Payment Request Scanned"
+            : parsed.type === "stealth"
+              ? "Stealth Address Scanned"
+              : "Address Scanned",
         message: `${parsed.address.slice(0, 8)}...${parsed.address.slice(-8)}`,
       })
 
+      if (parsed.type === "request") {
+        router.replace({ pathname: "/send", params: { paymentRequest: data.trim() } })
+        return
+      }
+
       // Navigate back with the address
       // Use replace to avoid scanner staying in history
       router.replace({
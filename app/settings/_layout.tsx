@@ -20,6 +20,8 @@ export default function SettingsLayout() {
         <Stack.Screen name="privacy-score" />
         <Stack.Screen name="stealth-backup" />
         <Stack.Screen name="sip-stealth" />
+        <Stack.Screen name="rpc-profiles" />
+        <Stack.Screen name="nonce" />
       </Stack>
     </View>
   )
@@ -2,7 +2,7 @@
  * Accounts Management Screen
  *
  * Full account management:
- * - View all connected accounts
+ * - View all connected accounts (claim accounts in their own section)
  * - Edit account nicknames
  * - Remove accounts
  * - Navigate to add new account
@@ -19,7 +19,7 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
 import { useState } from "react"
-import { useWalletStore, formatAddress } from "@/stores/wallet"
+import { useWalletStore, formatAddress, getSwitchableAccounts } from "@/stores/wallet"
 import { useNativeWallet } from "@/hooks"
 import { Button, Modal } from "@/components/ui"
 import type { StoredAccount } from "@/types"
@@ -48,6 +48,9 @@ export default function AccountsScreen() {
   const { deleteWallet } = useNativeWallet()
 
   const [editingAccount, setEditingAccount] = useState<StoredAccount | null>(null)
+  const [showClaimAccounts, setShowClaimAccounts] = useState(false)
+  const listedAccounts = getSwitchableAccounts(accounts, activeAccountId)
+  const claimAccounts = accounts.filter((a) => !listedAccounts.includes(a))
   const [editNickname, setEditNickname] = useState("")
 
   const handleStartEdit = (account: StoredAccount) => {
@@ -146,6 +149,94 @@ export default function AccountsScreen() {
     })
   }
 
+  const renderAccount = (account: StoredAccount) => (
+    <View
+      key={account.id}
+      className={`p-4 rounded-xl border ${
+        account.id === activeAccountId
+          ? "bg-brand-900/20 border-brand-700"
+          : "bg-dark-900 border-dark-800"
+      }`}
+    >
+      {/* Account Header */}
+      <TouchableOpacity
+        className="flex-row items-start"
+        onPress={() => handleSetActive(account)}
+      >
+        <View className="w-12 h-12 bg-dark-800 rounded-xl items-center justify-center">
+          {(() => {
+            const IconComp = getProviderIcon(account.providerType)
+            return <IconComp size={24} color={ICON_COLORS.brand} weight="fill" />
+          })()}
+        </View>
+        <View className="flex-1 ml-3">
+          <View className="flex-row items-center">
+            <Text className="text-white font-semibold text-lg">
+              {account.nickname}
+            </Text>
+            {account.id === activeAccountId && (
+              <View className="ml-2 px-2 py-0.5 bg-brand-600 rounded">
+                <Text className="text-xs text-white font-medium">Active</Text>
+              </View>
+            )}
+          </View>
+          <Text className="text-dark-400 text-sm mt-0.5">
+            {formatAddress(account.address)}
+          </Text>
+        </View>
+        {account.id === activeAccountId && (
+          <CheckIcon size={24} color={ICON_COLORS.brand} weight="bold" />
+        )}
+      </TouchableOpacity>
+
+      {/* Account Details */}
+      <View className="mt-4 pt-4 border-t border-dark-800">
+        <View className="flex-row justify-between mb-2">
+          <Text className="text-dark-500 text-sm">Provider</Text>
+          <Text className="text-dark-300 text-sm">
+            {getProviderLabel(account.providerType)}
+          </Text>
+        </View>
+        <View className="flex-row justify-between mb-2">
+          <Text className="text-dark-500 text-sm">Chain</Text>
+          <Text className="text-dark-300 text-sm capitalize">
+            {account.chain}
+          </Text>
+        </View>
+        <View className="flex-row justify-between mb-2">
+          <Text className="text-dark-500 text-sm">Added</Text>
+          <Text className="text-dark-300 text-sm">
+            {formatDate(account.createdAt)}
+          </Text>
+        </View>
+        <View className="flex-row justify-between">
+          <Text className="text-dark-500 text-sm">Last Used</Text>
+          <Text className="text-dark-300 text-sm">
+            {formatDate(account.lastUsedAt)}
+          </Text>
+        </View>
+      </View>
+
+      {/* Account Actions */}
+      <View className="flex-row gap-2 mt-4 pt-4 border-t border-dark-800">
+        <TouchableOpacity
+          className="flex-1 flex-row items-center justify-center py-2 bg-dark-800 rounded-lg"
+          onPress={() => handleStartEdit(account)}
+        >
+          <PencilSimpleIcon size={16} color={ICON_COLORS.inactive} weight="fill" />
+          <Text className="text-dark-400 font-medium ml-2">Rename</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="flex-1 flex-row items-center justify-center py-2 bg-red-900/20 rounded-lg"
+          onPress={() => handleRemoveAccount(account)}
+        >
+          <TrashIcon size={16} color={ICON_COLORS.error} weight="fill" />
+          <Text className="text-red-400 font-medium ml-2">Remove</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  )
+
   return (
     <SafeAreaView className="flex-1 bg-dark-950">
       {/* Header */}
@@ -166,100 +257,35 @@ export default function AccountsScreen() {
             Manage Accounts
           </Text>
           <Text className="text-dark-400">
-            {accounts.length} {accounts.length === 1 ? "account" : "accounts"} connected
+            {listedAccounts.length} {listedAccounts.length === 1 ? "account" : "accounts"} connected
           </Text>
         </View>
 
         {/* Accounts List */}
-        <View className="gap-3">
-          {accounts.map((account) => (
-            <View
-              key={account.id}
-              className={`p-4 rounded-xl border ${
-                account.id === activeAccountId
-                  ? "bg-brand-900/20 border-brand-700"
-                  : "bg-dark-900 border-dark-800"
-              }`}
-            >
-              {/* Account Header */}
-              <TouchableOpacity
-                className="flex-row items-start"
-                onPress={() => handleSetActive(account)}
-              >
-                <View className="w-12 h-12 bg-dark-800 rounded-xl items-center justify-center">
-                  {(() => {
-                    const IconComp = getProviderIcon(account.providerType)
-                    return <IconComp size={24} color={ICON_COLORS.brand} weight="fill" />
-                  })()}
-                </View>
-                <View className="flex-1 ml-3">
-                  <View className="flex-row items-center">
-                    <Text className="text-white font-semibold text-lg">
-                      {account.nickname}
-                    </Text>
-                    {account.id === activeAccountId && (
-                      <View className="ml-2 px-2 py-0.5 bg-brand-600 rounded">
-                        <Text className="text-xs text-white font-medium">Active</Text>
-                      </View>
-                    )}
-                  </View>
-                  <Text className="text-dark-400 text-sm mt-0.5">
-                    {formatAddress(account.address)}
-                  </Text>
-                </View>
-                {account.id === activeAccountId && (
-                  <CheckIcon size={24} color={ICON_COLORS.brand} weight="bold" />
-                )}
-              </TouchableOpacity>
+        <View className="gap-3">{listedAccounts.map(renderAccount)}</View>
 
-              {/* Account Details */}
-              <View className="mt-4 pt-4 border-t border-dark-800">
-                <View className="flex-row justify-between mb-2">
-                  <Text className="text-dark-500 text-sm">Provider</Text>
-                  <Text className="text-dark-300 text-sm">
-                    {getProviderLabel(account.providerType)}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between mb-2">
-                  <Text className="text-dark-500 text-sm">Chain</Text>
-                  <Text className="text-dark-300 text-sm capitalize">
-                    {account.chain}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between mb-2">
-                  <Text className="text-dark-500 text-sm">Added</Text>
-                  <Text className="text-dark-300 text-sm">
-                    {formatDate(account.createdAt)}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between">
-                  <Text className="text-dark-500 text-sm">Last Used</Text>
-                  <Text className="text-dark-300 text-sm">
-                    {formatDate(account.lastUsedAt)}
-                  </Text>
-                </View>
-              </View>
-
-              {/* Account Actions */}
-              <View className="flex-row gap-2 mt-4 pt-4 border-t border-dark-800">
-                <TouchableOpacity
-                  className="flex-1 flex-row items-center justify-center py-2 bg-dark-800 rounded-lg"
-                  onPress={() => handleStartEdit(account)}
-                >
-                  <PencilSimpleIcon size={16} color={ICON_COLORS.inactive} weight="fill" />
-                  <Text className="text-dark-400 font-medium ml-2">Rename</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  className="flex-1 flex-row items-center justify-center py-2 bg-red-900/20 rounded-lg"
-                  onPress={() => handleRemoveAccount(account)}
-                >
-                  <TrashIcon size={16} color={ICON_COLORS.error} weight="fill" />
-                  <Text className="text-red-400 font-medium ml-2">Remove</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          ))}
-        </View>
+        {/* Claim Accounts (derived to receive claims) */}
+        {claimAccounts.length > 0 && (
+          <View className="mt-6">
+            <TouchableOpacity
+              className="flex-row items-center justify-between py-2"
+              onPress={() => setShowClaimAccounts((shown) => !shown)}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: showClaimAccounts }}
+            >
+              <Text className="text-white font-semibold">
+                Claim Accounts ({claimAccounts.length})
+              </Text>
+              <Text className="text-brand-400 text-sm">
+                {showClaimAccounts ? "Hide" : "Show"}
+              </Text>
+            </TouchableOpacity>
+            <Text className="text-dark-500 text-sm mb-3">
+              New accounts that received claimed payments. Switch to one to use its funds.
+            </Text>
+            {showClaimAccounts && <View className="gap-3">{claimAccounts.map(renderAccount)}</View>}
+          </View>
+        )}
 
         {/* Add Account Button */}
         <View className="py-6">
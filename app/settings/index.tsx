@@ -2,13 +2,16 @@
  * Settings Hub Screen
  *
  * Central settings page with:
- * - Network selection (mainnet-beta, devnet, testnet)
- * - RPC provider selection
+ * - Network selection (mainnet-beta, devnet, testnet, localnet in dev builds)
+ * - RPC provider selection (and custom RPC profiles)
+ * - Scan source (where payment records are read from)
+ * - Priority fee for outgoing transactions
  * - Explorer preference
  * - About SIP section
  * - Help & support links
  */
 
+import { useEffect, useState } from "react"
 import {
   View,
   Text,
@@ -33,30 +36,39 @@ import {
   EyeIcon,
   EyeSlashIcon,
   DownloadSimpleIcon,
+  HardDrivesIcon,
+  ClockIcon,
 } from "phosphor-react-native"
 import type { Icon as PhosphorIcon } from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
 import Constants from "expo-constants"
 import { useSettingsStore } from "@/stores/settings"
 import type { ExplorerType } from "@/stores/settings"
+import type { PriorityFeeLevel } from "@/types"
+import { Input } from "@/components/ui/Input"
+import { TRANSFER_RECORD_SOURCES } from "@/lib/record-sources/types"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type NetworkOption = "mainnet-beta" | "devnet" | "testnet"
+type NetworkOption = "mainnet-beta" | "devnet" | "testnet" | "localnet"
 type RpcOption = "helius" | "quicknode" | "triton" | "publicnode"
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const NETWORK_OPTIONS: { value: NetworkOption; label: string; desc: string }[] = [
+const ALL_NETWORK_OPTIONS: { value: NetworkOption; label: string; desc: string; devOnly?: boolean }[] = [
   { value: "mainnet-beta", label: "Mainnet", desc: "Production network" },
   { value: "devnet", label: "Devnet", desc: "Development testing" },
   { value: "testnet", label: "Testnet", desc: "Validator testing" },
+  { value: "localnet", label: "Localnet", desc: "Local solana-test-validator", devOnly: true },
 ]
 
+const NETWORK_OPTIONS = ALL_NETWORK_OPTIONS.filter((opt) => __DEV__ || !opt.devOnly)
+
 const RPC_OPTIONS: { value: RpcOption; label: string; desc: string }[] = [
   { value: "helius", label: "Helius", desc: "Premium RPC (API key required)" },
   { value: "publicnode", label: "PublicNode", desc: "Free public RPC" },
@@ -64,11 +76,20 @@ const RPC_OPTIONS: { value: RpcOption; label: string; desc: string }[] = [
   { value: "triton", label: "Triton", desc: "Solana-native RPC (custom endpoint)" },
 ]
 
+const PRIORITY_FEE_OPTIONS: { value: PriorityFeeLevel; label: string; desc: string }[] = [
+  { value: "low", label: "Low", desc: "Cheapest, may stall when the network is busy" },
+  { value: "medium", label: "Medium", desc: "Median of recent fees" },
+  { value: "high", label: "High", desc: "Lands faster during congestion" },
+  { value: "custom", label: "Custom", desc: "Fixed fee per transaction" },
+]
+
 const EXPLORER_OPTIONS: { value: ExplorerType; label: string }[] = [
   { value: "solscan", label: "Solscan" },
   { value: "solana-explorer", label: "Solana Explorer" },
 ]
 
+const RECORD_SOURCE_OPTIONS = TRANSFER_RECORD_SOURCES.filter((s) => __DEV__ || !s.devOnly)
+
 const APP_VERSION = Constants.expoConfig?.version ?? "0.0.0"
 
 // ============================================================================
@@ -186,8 +207,37 @@ export default function SettingsScreen() {
     setDefaultExplorer,
     hideBalances,
     toggleHideBalances,
+    recordSources,
+    setRecordSource,
+    getRecordSource,
+    relayerUrls,
+    setRelayerUrl,
+    getActiveRpcProfile,
+    priorityFee,
+    setPriorityFee,
+    customPriorityFee,
+    setCustomPriorityFee,
   } = useSettingsStore()
 
+  const activeRpcProfile = getActiveRpcProfile(network)
+
+  const recordSource = getRecordSource(network)
+  const [indexerUrl, setIndexerUrl] = useState(recordSource.indexerUrl ?? "")
+  const [indexerApiKey, setIndexerApiKey] = useState(recordSource.indexerApiKey ?? "")
+
+  const [relayerUrl, setRelayerUrlDraft] = useState(relayerUrls[network] ?? "")
+
+  const [customFeeSol, setCustomFeeSol] = useState(String(customPriorityFee / LAMPORTS_PER_SOL))
+
+  // Reset the draft URLs when switching networks
+  useEffect(() => {
+    setIndexerUrl(recordSources[network]?.indexerUrl ?? "")
+    setIndexerApiKey(recordSources[network]?.indexerApiKey ?? "")
+  }, [network, recordSources])
+  useEffect(() => {
+    setRelayerUrlDraft(relayerUrls[network] ?? "")
+  }, [network, relayerUrls])
+
   return (
     <SafeAreaView className="flex-1 bg-dark-950">
       {/* Header */}
@@ -252,6 +302,13 @@ export default function SettingsScreen() {
               subtitle="Publish SIP-STEALTH on your .sol domains"
               onPress={() => router.push("/settings/sip-stealth" as any)}
             />
+            <NavRow
+              Icon={ClockIcon}
+              iconColor={ICON_COLORS.cyan}
+              title="Durable Nonce"
+              subtitle="Sign claims now, submit them later"
+              onPress={() => router.push("/settings/nonce" as any)}
+            />
           </View>
 
           {/* Display */}
@@ -308,6 +365,107 @@ export default function SettingsScreen() {
               />
             ))}
           </View>
+          <View className="bg-dark-900 rounded-xl border border-dark-800 overflow-hidden mt-3">
+            <NavRow
+              Icon={HardDrivesIcon}
+              iconColor={ICON_COLORS.cyan}
+              title="Custom RPC Profiles"
+              subtitle={activeRpcProfile ? `Using ${activeRpcProfile.name}` : "Your own node or local validator"}
+              onPress={() => router.push("/settings/rpc-profiles" as any)}
+            />
+          </View>
+
+          {/* Scan Source */}
+          <SectionTitle title="Scan Source" />
+          <View className="bg-dark-900 rounded-xl border border-dark-800 overflow-hidden">
+            {RECORD_SOURCE_OPTIONS.map((opt) => (
+              <SelectOption
+                key={opt.id}
+                label={opt.name}
+                desc={opt.description}
+                isSelected={recordSource.type === opt.id}
+                onPress={() =>
+                  setRecordSource(network, {
+                    ...recordSource,
+                    type: opt.id,
+                  })
+                }
+              />
+            ))}
+          </View>
+          {recordSource.type === "indexer" && (
+            <View className="mt-3">
+              <Input
+                label="Indexer URL"
+                placeholder="https://indexer.example.com"
+                value={indexerUrl}
+                onChangeText={setIndexerUrl}
+                onEndEditing={() =>
+                  setRecordSource(network, { ...recordSource, indexerUrl: indexerUrl.trim() })
+                }
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                hint="Falls back to RPC until a URL is set"
+              />
+              <Input
+                className="mt-3"
+                label="Indexer API Key"
+                placeholder="Optional"
+                value={indexerApiKey}
+                onChangeText={setIndexerApiKey}
+                onEndEditing={() => setRecordSource(network, { ...recordSource, indexerApiKey })}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                hint="Sent as the api-key query parameter"
+              />
+            </View>
+          )}
+
+          {/* Claim Relayer */}
+          <SectionTitle title="Claim Relayer" />
+          <Input
+            label="Relayer URL"
+            placeholder="https://relayer.example.com"
+            value={relayerUrl}
+            onChangeText={setRelayerUrlDraft}
+            onEndEditing={() => setRelayerUrl(network, relayerUrl)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            hint="Pays claim fees for a cut of the claimed funds. Leave empty to pay fees yourself."
+          />
+
+          {/* Priority Fee */}
+          <SectionTitle title="Priority Fee" />
+          <View className="bg-dark-900 rounded-xl border border-dark-800 overflow-hidden">
+            {PRIORITY_FEE_OPTIONS.map((opt) => (
+              <SelectOption
+                key={opt.value}
+                label={opt.label}
+                desc={opt.desc}
+                isSelected={priorityFee === opt.value}
+                onPress={() => setPriorityFee(opt.value)}
+              />
+            ))}
+          </View>
+          {priorityFee === "custom" && (
+            <View className="mt-3">
+              <Input
+                label="Priority fee (SOL per transaction)"
+                placeholder="0.00001"
+                value={customFeeSol}
+                onChangeText={setCustomFeeSol}
+                onEndEditing={() => {
+                  setCustomPriorityFee(Math.round(parseFloat(customFeeSol) * LAMPORTS_PER_SOL))
+                  setCustomFeeSol(String(useSettingsStore.getState().customPriorityFee / LAMPORTS_PER_SOL))
+                }}
+                keyboardType="decimal-pad"
+                hint="Added on top of the 0.000005 SOL base fee, up to 0.005 SOL"
+              />
+            </View>
+          )}
 
           {/* Explorer */}
           <SectionTitle title="Block Explorer" />
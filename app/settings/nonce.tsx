@@ -0,0 +1,257 @@
+/**
+ * Durable Nonce Screen
+ *
+ * Create, fund, advance and close the wallet's durable nonce account, and
+ * choose whether claims to the wallet are built against it.
+ */
+
+import { View, Text, TouchableOpacity, Alert, ScrollView } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { router } from "expo-router"
+import { useState } from "react"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { useDurableNonce } from "@/hooks"
+import { useWalletStore } from "@/stores/wallet"
+import { useToastStore } from "@/stores/toast"
+import { useSettingsStore } from "@/stores/settings"
+import { Input } from "@/components/ui/Input"
+import { truncateAddress } from "@/utils/contacts"
+import {
+  ArrowLeftIcon,
+  ArrowsClockwiseIcon,
+  ClockIcon,
+  CoinsIcon,
+  PlusIcon,
+  TrashIcon,
+} from "phosphor-react-native"
+import { ICON_COLORS } from "@/constants/icons"
+
+export default function DurableNonceScreen() {
+  const { address } = useWalletStore()
+  const { addToast } = useToastStore()
+  const { durableNonceClaims, setDurableNonceClaims } = useSettingsStore()
+  const { nonceAccount, isLoading, create, fund, advance, close } = useDurableNonce()
+
+  const [fundAmount, setFundAmount] = useState("")
+
+  /**
+   * Run an action and report its outcome as a toast
+   */
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action()
+      addToast({ type: "success", title: success })
+    } catch (err) {
+      console.error("Nonce account update failed:", err)
+      addToast({
+        type: "error",
+        title: "Nonce account update failed",
+        message: err instanceof Error ? err.message : undefined,
+      })
+    }
+  }
+
+  const handleFund = () => {
+    const amount = parseFloat(fundAmount)
+    if (!(amount > 0)) {
+      addToast({ type: "error", title: "Invalid amount", message: "Enter an amount in SOL" })
+      return
+    }
+    runAction(async () => {
+      await fund(amount)
+      setFundAmount("")
+    }, "Nonce account funded")
+  }
+
+  const handleAdvance = () => {
+    Alert.alert(
+      "Advance Nonce?",
+      "Every transaction signed against the current nonce will no longer be accepted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Advance",
+          style: "destructive",
+          onPress: () => runAction(advance, "Nonce advanced"),
+        },
+      ]
+    )
+  }
+
+  const handleClose = () => {
+    Alert.alert(
+      "Close Nonce Account?",
+      "Its balance returns to your wallet. Transactions signed against it will no longer be accepted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Close",
+          style: "destructive",
+          onPress: () => runAction(close, "Nonce account closed"),
+        },
+      ]
+    )
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-dark-950">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-6 py-4 border-b border-dark-900">
+        <TouchableOpacity
+          className="flex-row items-center"
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ArrowLeftIcon size={24} color={ICON_COLORS.white} weight="bold" />
+          <Text className="text-white ml-4 text-lg">Back</Text>
+        </TouchableOpacity>
+        <Text className="text-xl font-bold text-white">Durable Nonce</Text>
+        <View className="w-16" />
+      </View>
+
+      <ScrollView className="flex-1 px-6 pt-6" showsVerticalScrollIndicator={false}>
+        {/* Info Card */}
+        <View className="bg-brand-900/10 border border-brand-800/30 rounded-xl p-4 mb-6">
+          <View className="flex-row items-start gap-3">
+            <ClockIcon size={24} color={ICON_COLORS.brand} weight="fill" />
+            <View className="flex-1">
+              <Text className="text-brand-400 font-medium">Sign Now, Submit Later</Text>
+              <Text className="text-dark-400 text-sm mt-1">
+                A transaction built against a nonce account stays valid until the nonce
+                is advanced, instead of expiring after about a minute.
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Account */}
+        <View className="bg-dark-900 border border-dark-800 rounded-xl p-4 mb-4">
+          <Text className="text-white font-medium text-lg">Nonce Account</Text>
+          {nonceAccount ? (
+            <>
+              <Text className="text-dark-400 text-sm mt-1">
+                {truncateAddress(nonceAccount.nonceAccount.toBase58())}
+              </Text>
+              <Text className="text-dark-400 text-sm mt-1">
+                Balance: {(nonceAccount.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL
+              </Text>
+              <Text className="text-dark-400 text-sm mt-1">
+                Nonce: {truncateAddress(nonceAccount.nonce)}
+              </Text>
+            </>
+          ) : (
+            <Text className="text-dark-400 text-sm mt-1">
+              {address ? "Not created yet" : "Connect a wallet first"}
+            </Text>
+          )}
+        </View>
+
+        {!nonceAccount ? (
+          <TouchableOpacity
+            className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-4"
+            onPress={() => runAction(() => create(), "Nonce account created")}
+            disabled={isLoading || !address}
+            accessibilityRole="button"
+            accessibilityLabel="Create nonce account"
+          >
+            <View className="w-12 h-12 bg-green-900/30 rounded-full items-center justify-center">
+              <PlusIcon size={24} color={ICON_COLORS.success} weight="regular" />
+            </View>
+            <View className="flex-1 ml-4">
+              <Text className="text-white font-medium text-lg">Create Nonce Account</Text>
+              <Text className="text-dark-400 text-sm mt-1">
+                Costs its rent, returned when it is closed
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {/* Fund */}
+            <Input
+              label="Fund (SOL)"
+              placeholder="0.01"
+              value={fundAmount}
+              onChangeText={setFundAmount}
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity
+              className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mt-3 mb-4"
+              onPress={handleFund}
+              disabled={isLoading}
+              accessibilityRole="button"
+              accessibilityLabel="Fund nonce account"
+            >
+              <View className="w-12 h-12 bg-blue-900/30 rounded-full items-center justify-center">
+                <CoinsIcon size={24} color={ICON_COLORS.info} weight="regular" />
+              </View>
+              <View className="flex-1 ml-4">
+                <Text className="text-white font-medium text-lg">Fund Account</Text>
+                <Text className="text-dark-400 text-sm mt-1">
+                  Top up the account from your wallet
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            {/* Advance */}
+            <TouchableOpacity
+              className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-4"
+              onPress={handleAdvance}
+              disabled={isLoading}
+              accessibilityRole="button"
+              accessibilityLabel="Advance nonce"
+            >
+              <View className="w-12 h-12 bg-orange-900/30 rounded-full items-center justify-center">
+                <ArrowsClockwiseIcon size={24} color={ICON_COLORS.warning} weight="regular" />
+              </View>
+              <View className="flex-1 ml-4">
+                <Text className="text-white font-medium text-lg">Advance Nonce</Text>
+                <Text className="text-dark-400 text-sm mt-1">
+                  Cancel every transaction signed but not yet submitted
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            {/* Close */}
+            <TouchableOpacity
+              className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-6"
+              onPress={handleClose}
+              disabled={isLoading}
+              accessibilityRole="button"
+              accessibilityLabel="Close nonce account"
+            >
+              <View className="w-12 h-12 bg-red-900/30 rounded-full items-center justify-center">
+                <TrashIcon size={24} color={ICON_COLORS.error} weight="regular" />
+              </View>
+              <View className="flex-1 ml-4">
+                <Text className="text-white font-medium text-lg">Close Account</Text>
+                <Text className="text-dark-400 text-sm mt-1">
+                  Return its balance to your wallet
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* Claims against the nonce */}
+        <TouchableOpacity
+          className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-8"
+          onPress={() => setDurableNonceClaims(!durableNonceClaims)}
+          accessibilityRole="switch"
+          accessibilityState={{ checked: durableNonceClaims }}
+          accessibilityLabel="Build claims against the nonce"
+        >
+          <View className="flex-1">
+            <Text className="text-white font-medium text-lg">Use for Claims</Text>
+            <Text className="text-dark-400 text-sm mt-1">
+              Claims to this wallet don't expire while waiting for approval
+            </Text>
+          </View>
+          <View className={`w-12 h-7 rounded-full justify-center ${durableNonceClaims ? "bg-brand-600" : "bg-dark-700"}`}>
+            <View className={`w-5 h-5 rounded-full bg-white ${durableNonceClaims ? "ml-6" : "ml-1"}`} />
+          </View>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
@@ -1,9 +1,9 @@
 /**
  * Privacy Score Screen
  *
- * Analyzes wallet privacy exposure:
- * - Address reuse patterns
- * - Transaction linkability
+ * Analyzes wallet privacy exposure from its real activity:
+ * - Exchange transfers, linked claims and SNS names
+ * - Stealth address reuse
  * - Public vs shielded ratio
  * - Recommendations for improvement
  */
@@ -11,9 +11,10 @@
 import { View, Text, TouchableOpacity, ScrollView } from "react-native"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
-import { useMemo } from "react"
+import { useEffect, useMemo } from "react"
 import { useWalletStore, formatAddress } from "@/stores/wallet"
-import { usePrivacyStore } from "@/stores/privacy"
+import { usePortfolioStore } from "@/stores/portfolio"
+import { usePrivacyAnalysis } from "@/hooks/usePrivacyAnalysis"
 import { Button } from "@/components/ui"
 import {
   ArrowLeftIcon,
@@ -23,9 +24,11 @@ import {
   MapPinIcon,
   FileTextIcon,
   LightbulbIcon,
+  WarningIcon,
 } from "phosphor-react-native"
 import type { Icon as PhosphorIcon } from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
+import type { PrivacyFinding } from "@/lib/privacy-analysis"
 
 // ============================================================================
 // TYPES
@@ -34,8 +37,7 @@ import { ICON_COLORS } from "@/constants/icons"
 interface PrivacyMetrics {
   overallScore: number // 0-100
   shieldedRatio: number // % of shielded transactions
-  addressReuse: number // count of reused addresses
-  averageSetSize: number // anonymity set size
+  addressReuse: number // count of reused stealth addresses
   linkabilityRisk: "low" | "medium" | "high"
   recommendations: string[]
 }
@@ -114,72 +116,68 @@ function RecommendationCard({ text, index }: RecommendationCardProps) {
   )
 }
 
+function FindingCard({ finding }: { finding: PrivacyFinding }) {
+  const isHigh = finding.severity === "high"
+
+  return (
+    <View className="bg-dark-900 rounded-xl border border-dark-800 p-4 mb-2">
+      <View className="flex-row items-center gap-2">
+        <WarningIcon size={16} color={isHigh ? ICON_COLORS.error : ICON_COLORS.warning} weight="fill" />
+        <Text className="text-white font-medium flex-1">{finding.title}</Text>
+        <Text className={`text-xs font-medium ${getRiskColor(finding.severity)}`}>
+          {isHigh ? "High" : "Medium"}
+        </Text>
+      </View>
+      <Text className="text-dark-400 text-sm mt-1">{finding.detail}</Text>
+    </View>
+  )
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
 export default function PrivacyScoreScreen() {
   const { isConnected, address } = useWalletStore()
-  const { payments } = usePrivacyStore()
-
-  // Calculate privacy metrics from payment history
-  const metrics: PrivacyMetrics = useMemo(() => {
-    if (payments.length === 0) {
-      return {
-        overallScore: 100,
-        shieldedRatio: 100,
-        addressReuse: 0,
-        averageSetSize: 0,
-        linkabilityRisk: "low",
-        recommendations: ["Start using SIP for private transactions!"],
-      }
-    }
+  const tokens = usePortfolioStore((st) => st.tokens)
+  const findings = usePortfolioStore((st) => st.findings)
+  const getAggregateScore = usePortfolioStore((st) => st.getAggregateScore)
+  const { analysis, analyzedTransactions, isAnalyzing, analyze } = usePrivacyAnalysis()
 
-    // Calculate shielded ratio
-    const shieldedCount = payments.filter(
-      (p) => p.privacyLevel === "shielded" || p.privacyLevel === "compliant"
-    ).length
-    const shieldedRatio = Math.round((shieldedCount / payments.length) * 100)
+  useEffect(() => {
+    analyze()
+  }, [analyze])
 
-    // Estimate address reuse (simplified)
-    const uniqueAddresses = new Set(payments.map((p) => p.stealthAddress || p.id))
-    const addressReuse = payments.length - uniqueAddresses.size
-
-    // Calculate overall score
-    let score = 50 // Base score
-    score += (shieldedRatio / 100) * 30 // Up to 30 points for shielded ratio
-    score -= Math.min(addressReuse * 5, 20) // Lose up to 20 points for reuse
-    score = Math.max(0, Math.min(100, Math.round(score)))
+  // Derive metrics from the exposure analysis
+  const metrics: PrivacyMetrics = useMemo(() => {
+    const inputs = Object.values(analysis?.tokens ?? {})
+    const total = inputs.reduce((sum, t) => sum + t.totalTransactions, 0)
+    const shielded = inputs.reduce((sum, t) => sum + t.shieldedTransactions, 0)
 
-    // Determine linkability risk
-    let linkabilityRisk: "low" | "medium" | "high" = "low"
-    if (shieldedRatio < 50) linkabilityRisk = "high"
-    else if (shieldedRatio < 80) linkabilityRisk = "medium"
+    const linkabilityRisk: "low" | "medium" | "high" = findings.some((f) => f.severity === "high")
+      ? "high"
+      : findings.length > 0
+        ? "medium"
+        : "low"
 
-    // Generate recommendations
-    const recommendations: string[] = []
-    if (shieldedRatio < 100) {
+    const recommendations = [...new Set(findings.map((f) => f.recommendation))]
+    if (total > shielded) {
       recommendations.push("Use shielded transactions for all payments to maximize privacy")
     }
-    if (addressReuse > 0) {
-      recommendations.push("Avoid reusing addresses - always generate fresh stealth addresses")
-    }
-    if (payments.filter((p) => p.privacyLevel === "transparent").length > 0) {
-      recommendations.push("Switch from transparent to shielded mode in settings")
-    }
     if (recommendations.length === 0) {
-      recommendations.push("Great job! Keep using shielded transactions")
+      recommendations.push(
+        total === 0 ? "Start using SIP for private transactions!" : "Great job! Keep using shielded transactions"
+      )
     }
 
     return {
-      overallScore: score,
-      shieldedRatio,
-      addressReuse,
-      averageSetSize: Math.max(1, shieldedCount),
+      overallScore: tokens.length > 0 ? getAggregateScore() : 0,
+      shieldedRatio: total === 0 ? 100 : Math.round((shielded / total) * 100),
+      addressReuse: findings.filter((f) => f.kind === "stealth-reuse").length,
       linkabilityRisk,
       recommendations,
     }
-  }, [payments])
+  }, [analysis, findings, tokens, getAggregateScore])
 
   if (!isConnected) {
     return (
@@ -272,11 +270,23 @@ export default function PrivacyScoreScreen() {
             <MetricCard
               icon={FileTextIcon}
               title="Total Txns"
-              value={payments.length.toString()}
-              subtitle="recorded"
+              value={analyzedTransactions.toString()}
+              subtitle={isAnalyzing ? "analyzing..." : "analyzed"}
             />
           </View>
 
+          {/* Findings */}
+          {findings.length > 0 && (
+            <View className="mt-6">
+              <Text className="text-dark-400 text-sm mb-3 uppercase">
+                Exposure
+              </Text>
+              {findings.map((finding, index) => (
+                <FindingCard key={`${finding.kind}-${index}`} finding={finding} />
+              ))}
+            </View>
+          )}
+
           {/* Recommendations */}
           <View className="mt-6">
             <Text className="text-dark-400 text-sm mb-3 uppercase">
@@ -0,0 +1,459 @@
+/**
+ * Custom RPC Profiles Screen
+ *
+ * Named RPC nodes (HTTP + WebSocket URL, headers) for teams running their
+ * own node or a local validator:
+ * - Create, edit and delete profiles
+ * - Test a profile (getHealth, getVersion, slot lag)
+ * - Assign a profile per network (replaces the RPC providers there)
+ */
+
+import { useState } from "react"
+import { View, Text, TouchableOpacity, ScrollView, Alert } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { router } from "expo-router"
+import {
+  ArrowLeftIcon,
+  CheckCircleIcon,
+  PlusIcon,
+  PulseIcon,
+  PencilSimpleIcon,
+  TrashIcon,
+} from "phosphor-react-native"
+import { ICON_COLORS } from "@/constants/icons"
+import { useSettingsStore } from "@/stores/settings"
+import { useToastStore } from "@/stores/toast"
+import { Button, Input } from "@/components/ui"
+import {
+  formatRpcHeaders,
+  parseRpcHeaders,
+  redactRpcUrl,
+  testRpcProfile,
+  validateRpcProfile,
+  RPC_SLOT_LAG_WARNING,
+  type NetworkCluster,
+  type RpcProfile,
+  type RpcProfileInput,
+  type RpcProfileTestResult,
+} from "@/lib/rpc"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NETWORK_OPTIONS: { value: NetworkCluster; label: string }[] = [
+  { value: "mainnet-beta", label: "Mainnet" },
+  { value: "devnet", label: "Devnet" },
+  { value: "testnet", label: "Testnet" },
+  { value: "localnet", label: "Localnet" },
+]
+
+interface ProfileDraft {
+  /** Profile being edited (null when creating) */
+  id: string | null
+  name: string
+  network: NetworkCluster
+  httpUrl: string
+  wsUrl: string
+  headers: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function emptyDraft(network: NetworkCluster): ProfileDraft {
+  return { id: null, name: "", network, httpUrl: "", wsUrl: "", headers: "" }
+}
+
+function draftFromProfile(profile: RpcProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    network: profile.network,
+    httpUrl: profile.httpUrl,
+    wsUrl: profile.wsUrl ?? "",
+    headers: formatRpcHeaders(profile.headers),
+  }
+}
+
+/**
+ * Profile input from a draft (or the reason it is invalid)
+ */
+function parseDraft(draft: ProfileDraft): { input: RpcProfileInput } | { error: string } {
+  const headers = parseRpcHeaders(draft.headers)
+  if (!headers) return { error: "Headers must be one \"Name: value\" per line" }
+
+  const input: RpcProfileInput = {
+    name: draft.name,
+    network: draft.network,
+    httpUrl: draft.httpUrl,
+    wsUrl: draft.wsUrl.trim() || undefined,
+    headers,
+  }
+  const error = validateRpcProfile(input)
+  return error ? { error } : { input }
+}
+
+function describeTestResult(result: RpcProfileTestResult): string {
+  if (result.error) return `Unreachable: ${result.error}`
+
+  const parts = [
+    result.version ? `v${result.version}` : "unknown version",
+    `${result.latencyMs}ms`,
+    result.healthy ? "healthy" : (result.healthMessage ?? "unhealthy"),
+  ]
+  if (result.slotLag !== null) {
+    parts.push(`${result.slotLag} slots behind`)
+  }
+  return parts.join(" · ")
+}
+
+function isTestWarning(result: RpcProfileTestResult): boolean {
+  return !result.ok || (result.slotLag ?? 0) > RPC_SLOT_LAG_WARNING
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function SectionTitle({ title }: { title: string }) {
+  return (
+    <Text className="text-zinc-500 text-xs font-medium uppercase tracking-wider mb-2 mt-6">
+      {title}
+    </Text>
+  )
+}
+
+function TestResultLine({ result }: { result: RpcProfileTestResult }) {
+  return (
+    <Text className={`text-xs mt-1 ${isTestWarning(result) ? "text-yellow-400" : "text-green-400"}`}>
+      {describeTestResult(result)}
+    </Text>
+  )
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function RpcProfilesScreen() {
+  const {
+    network,
+    rpcProvider,
+    rpcProfiles,
+    activeRpcProfileIds,
+    addRpcProfile,
+    updateRpcProfile,
+    removeRpcProfile,
+    setActiveRpcProfile,
+  } = useSettingsStore()
+  const { addToast } = useToastStore()
+
+  const [draft, setDraft] = useState<ProfileDraft | null>(null)
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [testResults, setTestResults] = useState<Record<string, RpcProfileTestResult>>({})
+  const [testingId, setTestingId] = useState<string | null>(null)
+
+  const activeId = activeRpcProfileIds[network] ?? null
+  const networkProfiles = rpcProfiles.filter((p) => p.network === network)
+  const otherProfiles = rpcProfiles.filter((p) => p.network !== network)
+
+  const runTest = async (key: string, profile: RpcProfileInput) => {
+    setTestingId(key)
+    try {
+      const result = await testRpcProfile(profile)
+      setTestResults((prev) => ({ ...prev, [key]: result }))
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleTestDraft = () => {
+    if (!draft) return
+    const parsed = parseDraft(draft)
+    if ("error" in parsed) {
+      setDraftError(parsed.error)
+      return
+    }
+    setDraftError(null)
+    runTest("draft", parsed.input)
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+    const parsed = parseDraft(draft)
+    if ("error" in parsed) {
+      setDraftError(parsed.error)
+      return
+    }
+
+    const saved = draft.id
+      ? updateRpcProfile(draft.id, parsed.input)
+      : addRpcProfile(parsed.input) !== null
+    if (!saved) {
+      setDraftError("Could not save profile")
+      return
+    }
+
+    addToast({
+      type: "success",
+      title: draft.id ? "Profile updated" : "Profile added",
+      message: parsed.input.name.trim(),
+    })
+    setDraft(null)
+    setDraftError(null)
+    setTestResults(({ draft: _, ...rest }) => rest)
+  }
+
+  const handleDelete = (profile: RpcProfile) => {
+    Alert.alert(
+      "Delete Profile",
+      `Delete "${profile.name}"? Networks using it go back to the RPC providers.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => removeRpcProfile(profile.id),
+        },
+      ]
+    )
+  }
+
+  const renderProfileRow = (profile: RpcProfile, selectable: boolean) => {
+    const isActive = selectable && activeId === profile.id
+    const result = testResults[profile.id]
+
+    return (
+      <View
+        key={profile.id}
+        className={`py-3 px-4 border-b border-dark-800 ${isActive ? "bg-brand-900/20" : ""}`}
+      >
+        <TouchableOpacity
+          className="flex-row items-center"
+          onPress={() => selectable && setActiveRpcProfile(network, profile.id)}
+          disabled={!selectable}
+          accessibilityRole="radio"
+          accessibilityState={{ selected: isActive, disabled: !selectable }}
+          accessibilityLabel={`${profile.name}, ${redactRpcUrl(profile.httpUrl)}`}
+        >
+          <View className="flex-1">
+            <Text className={`font-medium ${isActive ? "text-brand-400" : "text-white"}`}>
+              {profile.name}
+            </Text>
+            <Text className="text-dark-500 text-sm" numberOfLines={1}>
+              {redactRpcUrl(profile.httpUrl)}
+              {selectable ? "" : ` · ${profile.network}`}
+            </Text>
+          </View>
+          {isActive && <CheckCircleIcon size={20} color={ICON_COLORS.brand} weight="fill" />}
+        </TouchableOpacity>
+
+        {result && <TestResultLine result={result} />}
+
+        <View className="flex-row mt-2 gap-4">
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => runTest(profile.id, profile)}
+            disabled={testingId !== null}
+            accessibilityRole="button"
+            accessibilityLabel={`Test ${profile.name}`}
+          >
+            <PulseIcon size={16} color={ICON_COLORS.info} />
+            <Text className="text-dark-300 text-sm ml-1">
+              {testingId === profile.id ? "Testing..." : "Test"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => {
+              setDraft(draftFromProfile(profile))
+              setDraftError(null)
+            }}
+            accessibilityRole="button"
+            accessibilityLabel={`Edit ${profile.name}`}
+          >
+            <PencilSimpleIcon size={16} color={ICON_COLORS.inactive} />
+            <Text className="text-dark-300 text-sm ml-1">Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => handleDelete(profile)}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${profile.name}`}
+          >
+            <TrashIcon size={16} color={ICON_COLORS.error} />
+            <Text className="text-dark-300 text-sm ml-1">Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-dark-950">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-6 py-4 border-b border-dark-900">
+        <TouchableOpacity
+          className="flex-row items-center"
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ArrowLeftIcon size={24} color={ICON_COLORS.white} weight="bold" />
+          <Text className="text-white ml-4 text-lg">Back</Text>
+        </TouchableOpacity>
+        <Text className="text-xl font-bold text-white">RPC Profiles</Text>
+        <View className="w-16" />
+      </View>
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View className="px-6 pb-8">
+          {/* Active profile for the current network */}
+          <SectionTitle title={`Used on ${network}`} />
+          <View className="bg-dark-900 rounded-xl border border-dark-800 overflow-hidden">
+            <TouchableOpacity
+              className={`flex-row items-center py-3 px-4 border-b border-dark-800 ${
+                activeId === null ? "bg-brand-900/20" : ""
+              }`}
+              onPress={() => setActiveRpcProfile(network, null)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: activeId === null }}
+              accessibilityLabel="RPC providers"
+            >
+              <View className="flex-1">
+                <Text className={`font-medium ${activeId === null ? "text-brand-400" : "text-white"}`}>
+                  RPC Providers
+                </Text>
+                <Text className="text-dark-500 text-sm">
+                  {rpcProvider} first, other providers as failover
+                </Text>
+              </View>
+              {activeId === null && (
+                <CheckCircleIcon size={20} color={ICON_COLORS.brand} weight="fill" />
+              )}
+            </TouchableOpacity>
+            {networkProfiles.map((profile) => renderProfileRow(profile, true))}
+          </View>
+          <Text className="text-dark-500 text-xs mt-2">
+            A profile is used on its own: requests never fail over to public nodes.
+          </Text>
+
+          {otherProfiles.length > 0 && (
+            <>
+              <SectionTitle title="Other Networks" />
+              <View className="bg-dark-900 rounded-xl border border-dark-800 overflow-hidden">
+                {otherProfiles.map((profile) => renderProfileRow(profile, false))}
+              </View>
+            </>
+          )}
+
+          {/* Create / edit */}
+          {draft ? (
+            <>
+              <SectionTitle title={draft.id ? "Edit Profile" : "New Profile"} />
+              <View className="gap-3">
+                <Input
+                  label="Name"
+                  placeholder="Team node"
+                  value={draft.name}
+                  onChangeText={(name) => setDraft({ ...draft, name })}
+                />
+                <View>
+                  <Text className="text-dark-400 text-sm mb-2">Network</Text>
+                  <View className="flex-row gap-2">
+                    {NETWORK_OPTIONS.map((opt) => (
+                      <TouchableOpacity
+                        key={opt.value}
+                        className={`flex-1 py-2 rounded-lg border items-center ${
+                          draft.network === opt.value
+                            ? "border-brand-500 bg-brand-900/20"
+                            : "border-dark-800 bg-dark-900"
+                        }`}
+                        onPress={() => setDraft({ ...draft, network: opt.value })}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: draft.network === opt.value }}
+                        accessibilityLabel={opt.label}
+                      >
+                        <Text className={draft.network === opt.value ? "text-brand-400" : "text-white"}>
+                          {opt.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+                <Input
+                  label="HTTP URL"
+                  placeholder="https://rpc.example.com"
+                  value={draft.httpUrl}
+                  onChangeText={(httpUrl) => setDraft({ ...draft, httpUrl })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Input
+                  label="WebSocket URL"
+                  placeholder="wss://rpc.example.com"
+                  value={draft.wsUrl}
+                  onChangeText={(wsUrl) => setDraft({ ...draft, wsUrl })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  hint="Optional, derived from the HTTP URL when empty"
+                />
+                <Input
+                  label="Headers"
+                  placeholder="Authorization: Bearer ..."
+                  value={draft.headers}
+                  onChangeText={(headers) => setDraft({ ...draft, headers })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                  hint='One "Name: value" per line, sent with every request'
+                />
+
+                {draftError && <Text className="text-red-400 text-sm">{draftError}</Text>}
+                {testResults.draft && <TestResultLine result={testResults.draft} />}
+
+                <View className="flex-row gap-3">
+                  <Button
+                    variant="secondary"
+                    className="flex-1"
+                    onPress={handleTestDraft}
+                    loading={testingId === "draft"}
+                    disabled={testingId !== null}
+                  >
+                    Test
+                  </Button>
+                  <Button className="flex-1" onPress={handleSave}>
+                    Save
+                  </Button>
+                </View>
+                <Button
+                  variant="ghost"
+                  onPress={() => {
+                    setDraft(null)
+                    setDraftError(null)
+                  }}
+                >
+                  Cancel
+                </Button>
+              </View>
+            </>
+          ) : (
+            <TouchableOpacity
+              className="flex-row items-center justify-center mt-6 py-3 rounded-xl border border-dashed border-dark-700"
+              onPress={() => setDraft(emptyDraft(network))}
+              accessibilityRole="button"
+              accessibilityLabel="Add RPC profile"
+            >
+              <PlusIcon size={18} color={ICON_COLORS.brand} weight="bold" />
+              <Text className="text-brand-400 font-medium ml-2">Add Profile</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
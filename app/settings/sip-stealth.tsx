@@ -35,8 +35,7 @@ import {
 import { ICON_COLORS } from "@/constants/icons"
 import { useNativeWallet } from "@/hooks"
 import { useSettingsStore } from "@/stores/settings"
-import { getRpcClient } from "@/lib/rpc"
-import { getRpcApiKey } from "@/lib/config"
+import { getConnection } from "@/lib/connection"
 import { getExplorerTxUrl, getExplorerName } from "@/utils/explorer"
 import { logger } from "@/utils/logger"
 import {
@@ -77,49 +76,33 @@ export default function SipStealthScreen() {
     heliusApiKey,
     quicknodeApiKey,
     tritonEndpoint,
+    rpcProfiles,
+    activeRpcProfileIds,
     defaultExplorer,
   } = useSettingsStore()
 
-  // ── Cluster-aware Connection (per the brief: callers provide it; do NOT
-  //    instantiate inside the screen with hardcoded RPC env).
-  //
-  // TODO(rpc-singleton): `getRpcClient(config)` despite its "Get or create"
-  // docstring (src/lib/rpc.ts:229-239) mutates a global singleton on every
-  // call that passes a config. Six call-sites in this app now share that
-  // singleton, so a config change in one screen silently re-points every
-  // other screen's Connection. The right shape is `createRpcClient(config)`
-  // returning a fresh instance per caller. Deferred to a dedicated cleanup
-  // pass — refactoring rpc.ts is out of scope for this screen.
-  const connection: Connection = useMemo(() => {
-    let apiKey: string | undefined
-    let customEndpoint: string | undefined
-    switch (rpcProvider) {
-      case "helius":
-        apiKey = heliusApiKey || getRpcApiKey("helius") || undefined
-        break
-      case "quicknode":
-        apiKey = quicknodeApiKey || undefined
-        break
-      case "triton":
-        customEndpoint = tritonEndpoint || undefined
-        break
-      case "publicnode":
-      default:
-        break
-    }
-    return getRpcClient({
-      provider: rpcProvider,
-      cluster: network,
-      apiKey,
-      customEndpoint,
-    }).getConnection()
-  }, [
-    network,
-    rpcProvider,
-    heliusApiKey,
-    quicknodeApiKey,
-    tritonEndpoint,
-  ])
+  // ── Shared failover Connection for the selected cluster and providers
+  const connection: Connection = useMemo(
+    () =>
+      getConnection({
+        network,
+        rpcProvider,
+        heliusApiKey,
+        quicknodeApiKey,
+        tritonEndpoint,
+        rpcProfiles,
+        activeRpcProfileIds,
+      }),
+    [
+      network,
+      rpcProvider,
+      heliusApiKey,
+      quicknodeApiKey,
+      tritonEndpoint,
+      rpcProfiles,
+      activeRpcProfileIds,
+    ]
+  )
 
   const [loadState, setLoadState] = useState<LoadState>({ kind: "idle" })
   const [cards, setCards] = useState<Record<string, CardData>>({})
@@ -543,7 +526,7 @@ export default function SipStealthScreen() {
 interface DomainCardProps {
   entry: DomainEntry
   data: CardData
-  network: "mainnet-beta" | "devnet" | "testnet"
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
   explorer: ReturnType<typeof useSettingsStore.getState>["defaultExplorer"]
   onPublish: () => void
 }
@@ -3,6 +3,7 @@
  *
  * Export encrypted stealth keys as .sip-backup file.
  * Import from previously exported backup.
+ * Derive stealth keys from the seed phrase, and restore those from it.
  */
 
 import { View, Text, TouchableOpacity, Alert } from "react-native"
@@ -15,6 +16,9 @@ import * as DocumentPicker from "expo-document-picker"
 import { useNativeWallet } from "@/hooks"
 import { useWalletStore } from "@/stores/wallet"
 import { useToastStore } from "@/stores/toast"
+import { useSettingsStore } from "@/stores/settings"
+import { getConnection } from "@/lib/connection"
+import { createTransferRecordSource } from "@/lib/record-sources"
 import {
   encryptStealthBackup,
   decryptStealthBackup,
@@ -23,9 +27,12 @@ import {
   exportStealthStorage,
   importStealthStorage,
   clearStealthBackupFlag,
+  restoreDeterministicStealthKeys,
 } from "@/hooks/useStealth"
 import {
   ArrowLeftIcon,
+  ArrowsClockwiseIcon,
+  KeyIcon,
   DownloadSimpleIcon,
   UploadSimpleIcon,
   ShieldCheckIcon,
@@ -37,9 +44,11 @@ export default function StealthBackupScreen() {
   const { exportMnemonic } = useNativeWallet()
   const { address } = useWalletStore()
   const { addToast } = useToastStore()
+  const { deterministicStealthKeys, setDeterministicStealthKeys } = useSettingsStore()
 
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
 
   const handleExport = async () => {
     if (!address) {
@@ -200,6 +209,44 @@ export default function StealthBackupScreen() {
     }
   }
 
+  const handleRestoreFromSeed = async () => {
+    if (!address) {
+      addToast({ type: "error", title: "No wallet", message: "Connect a wallet first" })
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      const mnemonic = await exportMnemonic()
+      if (!mnemonic) {
+        addToast({ type: "error", title: "Authentication failed", message: "Biometric auth required" })
+        return
+      }
+
+      // Key sets are restored when they received payments
+      const settings = useSettingsStore.getState()
+      const records = await createTransferRecordSource(
+        settings.getRecordSource(settings.network),
+        getConnection(settings)
+      ).fetchAll()
+      const added = await restoreDeterministicStealthKeys(address, mnemonic, records)
+      addToast({
+        type: "success",
+        title: added > 0 ? "Keys restored" : "Nothing to restore",
+        message:
+          added > 0
+            ? `Restored ${added} stealth key set(s). Run a full scan to find their payments.`
+            : "Every seed-derived stealth key with payments is already on this device.",
+        duration: 5000,
+      })
+    } catch (err) {
+      console.error("Seed restore failed:", err)
+      addToast({ type: "error", title: "Restore failed", message: "Failed to derive stealth keys" })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
   return (
     <SafeAreaView className="flex-1 bg-dark-950">
       {/* Header */}
@@ -270,6 +317,47 @@ export default function StealthBackupScreen() {
           </View>
         </TouchableOpacity>
 
+        {/* Deterministic keys */}
+        <TouchableOpacity
+          className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-4"
+          onPress={() => setDeterministicStealthKeys(!deterministicStealthKeys)}
+          accessibilityRole="switch"
+          accessibilityState={{ checked: deterministicStealthKeys }}
+          accessibilityLabel="Derive stealth keys from seed phrase"
+        >
+          <View className="w-12 h-12 bg-brand-900/30 rounded-full items-center justify-center">
+            <KeyIcon size={24} color={ICON_COLORS.brand} weight="regular" />
+          </View>
+          <View className="flex-1 ml-4">
+            <Text className="text-white font-medium text-lg">Derive from Seed Phrase</Text>
+            <Text className="text-dark-400 text-sm mt-1">
+              New stealth addresses can be restored from your recovery phrase
+            </Text>
+          </View>
+          <View className={`w-12 h-7 rounded-full justify-center ${deterministicStealthKeys ? "bg-brand-600" : "bg-dark-700"}`}>
+            <View className={`w-5 h-5 rounded-full bg-white ${deterministicStealthKeys ? "ml-6" : "ml-1"}`} />
+          </View>
+        </TouchableOpacity>
+
+        {/* Restore from seed */}
+        <TouchableOpacity
+          className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex-row items-center mb-6"
+          onPress={handleRestoreFromSeed}
+          disabled={isRestoring || !address}
+          accessibilityRole="button"
+          accessibilityLabel="Restore stealth keys from seed phrase"
+        >
+          <View className="w-12 h-12 bg-orange-900/30 rounded-full items-center justify-center">
+            <ArrowsClockwiseIcon size={24} color={ICON_COLORS.warning} weight="regular" />
+          </View>
+          <View className="flex-1 ml-4">
+            <Text className="text-white font-medium text-lg">Restore from Seed Phrase</Text>
+            <Text className="text-dark-400 text-sm mt-1">
+              Re-derive stealth keys created with this setting on
+            </Text>
+          </View>
+        </TouchableOpacity>
+
         {/* Warning */}
         <View className="bg-amber-900/10 border border-amber-800/30 rounded-xl p-4">
           <View className="flex-row items-start gap-3">
@@ -277,8 +365,9 @@ export default function StealthBackupScreen() {
             <View className="flex-1">
               <Text className="text-amber-400 font-medium text-sm">Important</Text>
               <Text className="text-dark-400 text-sm mt-1">
-                Stealth keys are independent from your wallet seed. Without a backup,
-                reinstalling the app will make existing stealth payments unclaimable.
+                Randomly generated stealth keys are independent from your wallet seed.
+                Without a backup, reinstalling the app will make payments to them
+                unclaimable. Keys derived from the seed phrase are restored with it.
               </Text>
             </View>
           </View>
@@ -4,6 +4,7 @@
  * Displays user's complete swap history:
  * - Filterable by status (all/pending/completed/failed)
  * - Privacy badges for shielded swaps
+ * - Limit and DCA orders with fill progress (pause/resume/cancel)
  * - Explorer links for completed transactions
  * - Clear history option
  */
@@ -21,8 +22,11 @@ import { router } from "expo-router"
 import { useState, useMemo, useCallback } from "react"
 import { useSwapStore } from "@/stores/swap"
 import { useToastStore } from "@/stores/toast"
+import { useSwapOrders } from "@/hooks/useSwapOrders"
 import { Modal } from "@/components/ui"
 import type { SwapRecord } from "@/types"
+import type { SwapOrder } from "@/types/swapOrders"
+import { isOrderOpen } from "@/utils/swapOrders"
 import {
   ArrowLeftIcon,
   ArrowRightIcon,
@@ -65,10 +69,106 @@ function formatAmount(amount: string, symbol: string): string {
   return `${num.toFixed(4)} ${symbol}`
 }
 
+function formatUntil(timestamp: number): string {
+  const seconds = Math.floor((timestamp - Date.now()) / 1000)
+
+  if (seconds <= 0) return "now"
+  if (seconds < 3600) return `in ${Math.max(1, Math.floor(seconds / 60))}m`
+  if (seconds < 86400) return `in ${Math.floor(seconds / 3600)}h`
+
+  return `in ${Math.floor(seconds / 86400)}d`
+}
+
+const ORDER_STATUS_CONFIG: Record<SwapOrder["status"], { bg: string; text: string; label: string }> = {
+  active: { bg: "bg-brand-500/20", text: "text-brand-400", label: "Active" },
+  paused: { bg: "bg-yellow-500/20", text: "text-yellow-400", label: "Paused" },
+  filled: { bg: "bg-green-500/20", text: "text-green-400", label: "Filled" },
+  cancelled: { bg: "bg-dark-700", text: "text-dark-300", label: "Cancelled" },
+  expired: { bg: "bg-dark-700", text: "text-dark-300", label: "Expired" },
+}
+
 // ============================================================================
 // COMPONENTS
 // ============================================================================
 
+interface OrderItemProps {
+  order: SwapOrder
+  onTogglePause: () => void
+  onCancel: () => void
+}
+
+function OrderItem({ order, onTogglePause, onCancel }: OrderItemProps) {
+  const { bg, text, label } = ORDER_STATUS_CONFIG[order.status]
+  const isOpen = isOrderOpen(order)
+
+  return (
+    <View className="bg-dark-900 rounded-xl p-4 mb-3" testID={`swap-order-${order.id}`}>
+      <View className="flex-row items-center justify-between mb-2">
+        <View className="flex-row items-center gap-2">
+          <View className="bg-brand-900/30 px-2 py-0.5 rounded">
+            <Text className="text-brand-400 text-xs font-medium">
+              {order.type === "limit" ? "Limit" : "DCA"}
+            </Text>
+          </View>
+          <Text className="text-white font-medium">
+            {formatAmount(order.amount, order.fromToken)} → {order.toToken}
+          </Text>
+        </View>
+        <View className={`${bg} px-2 py-0.5 rounded`}>
+          <Text className={`${text} text-xs font-medium`}>{label}</Text>
+        </View>
+      </View>
+
+      <Text className="text-dark-400 text-sm">
+        {order.type === "limit"
+          ? `At ${order.limitPrice} ${order.toToken} per ${order.fromToken}${
+              order.expiresAt ? ` · expires ${formatUntil(order.expiresAt)}` : ""
+            }`
+          : `${order.fillCount}/${order.totalFills} fills · ${formatAmount(order.filledAmount, order.fromToken)} swapped`}
+      </Text>
+
+      {order.fillCount > 0 && (
+        <Text className="text-green-400 text-sm mt-1">
+          Received {formatAmount(order.receivedAmount, order.toToken)}
+        </Text>
+      )}
+
+      {order.status === "active" && order.type === "dca" && (
+        <Text className="text-dark-500 text-xs mt-1">Next fill {formatUntil(order.nextRunAt)}</Text>
+      )}
+
+      {order.lastError && isOpen && (
+        <Text className="text-red-400 text-xs mt-1" numberOfLines={1}>
+          {order.lastError}
+        </Text>
+      )}
+
+      {isOpen && (
+        <View className="flex-row gap-2 mt-3">
+          <TouchableOpacity
+            className="flex-1 bg-dark-800 py-2 rounded-lg items-center"
+            onPress={onTogglePause}
+            accessibilityRole="button"
+            accessibilityLabel={order.status === "paused" ? "Resume order" : "Pause order"}
+          >
+            <Text className="text-white text-sm">
+              {order.status === "paused" ? "Resume" : "Pause"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="flex-1 bg-dark-800 py-2 rounded-lg items-center"
+            onPress={onCancel}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel order"
+          >
+            <Text className="text-red-400 text-sm">Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  )
+}
+
 interface SwapItemProps {
   swap: SwapRecord
   onPress: () => void
@@ -121,6 +221,13 @@ function SwapItem({ swap, onPress }: SwapItemProps) {
         </View>
 
         <View className="flex-row items-center gap-2">
+          {/* Order fill badge */}
+          {swap.orderId && (
+            <View className="bg-dark-800 px-2 py-0.5 rounded">
+              <Text className="text-dark-300 text-xs">Order fill</Text>
+            </View>
+          )}
+
           {/* Privacy badge */}
           {(isShielded || isCompliant) && (
             <View className="bg-brand-900/30 px-2 py-0.5 rounded flex-row items-center">
@@ -220,6 +327,7 @@ function FilterChip({ label, count, active, onPress }: FilterChipProps) {
 export default function SwapHistoryScreen() {
   const { swaps, clearHistory } = useSwapStore()
   const { addToast } = useToastStore()
+  const { orders, setPaused, cancelOrder } = useSwapOrders()
 
   const [filter, setFilter] = useState<StatusFilter>("all")
   const [refreshing, setRefreshing] = useState(false)
@@ -288,6 +396,37 @@ export default function SwapHistoryScreen() {
 
   const keyExtractor = useCallback((item: SwapRecord) => item.id, [])
 
+  const handleCancelOrder = useCallback(
+    (order: SwapOrder) => {
+      cancelOrder(order.id)
+      addToast({
+        type: "info",
+        title: "Order Cancelled",
+        message: order.fillCount > 0 ? "Fills already made are kept" : "No fills were made",
+      })
+    },
+    [cancelOrder, addToast]
+  )
+
+  const ListHeaderComponent = useMemo(
+    () =>
+      orders.length > 0 ? (
+        <View className="mb-2">
+          <Text className="text-dark-400 text-sm mb-2">Orders</Text>
+          {orders.map((order) => (
+            <OrderItem
+              key={order.id}
+              order={order}
+              onTogglePause={() => setPaused(order.id, order.status !== "paused")}
+              onCancel={() => handleCancelOrder(order)}
+            />
+          ))}
+          <Text className="text-dark-400 text-sm mt-2 mb-2">Swaps</Text>
+        </View>
+      ) : null,
+    [orders, setPaused, handleCancelOrder]
+  )
+
   const ListEmptyComponent = useMemo(
     () => (
       <View className="items-center py-16">
@@ -367,6 +506,7 @@ export default function SwapHistoryScreen() {
         renderItem={renderItem}
         keyExtractor={keyExtractor}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={ListHeaderComponent}
         ListEmptyComponent={ListEmptyComponent}
         refreshControl={
           <RefreshControl
@@ -469,6 +609,13 @@ export default function SwapHistoryScreen() {
                 </View>
               </View>
 
+              {selectedSwap.recipient && (
+                <View className="flex-row justify-between mb-3">
+                  <Text className="text-dark-400">Paid To</Text>
+                  <Text className="text-white">{selectedSwap.recipient}</Text>
+                </View>
+              )}
+
               <View className="flex-row justify-between mb-3">
                 <Text className="text-dark-400">Time</Text>
                 <Text className="text-white">
@@ -20,7 +20,7 @@ import { SafeAreaView } from "react-native-safe-area-context"
 import { router } from "expo-router"
 import { ArrowLeftIcon } from "phosphor-react-native"
 import { ICON_COLORS } from "@/constants/icons"
-import { useState, useCallback } from "react"
+import { useState, useCallback, useMemo } from "react"
 import { useSettingsStore } from "@/stores/settings"
 import { useCustomTokensStore } from "@/stores/customTokens"
 import { toast } from "@/stores/toast"
@@ -28,6 +28,7 @@ import { fetchTokenMetadata, isValidSolanaAddress } from "@/lib/tokenMetadata"
 import { getTokenByMint } from "@/data/tokens"
 import type { TokenInfo } from "@/types"
 import type { RpcConfig } from "@/lib/rpc"
+import { getRpcConfigFromSettings } from "@/lib/connection"
 
 // ============================================================================
 // COMPONENTS
@@ -92,7 +93,15 @@ function TokenPreview({ token, onImport, isImporting }: TokenPreviewProps) {
 // ============================================================================
 
 export default function ImportTokenScreen() {
-  const { rpcProvider, network, heliusApiKey, quicknodeApiKey, tritonEndpoint } = useSettingsStore()
+  const {
+    rpcProvider,
+    network,
+    heliusApiKey,
+    quicknodeApiKey,
+    tritonEndpoint,
+    rpcProfiles,
+    activeRpcProfileIds,
+  } = useSettingsStore()
   const { addToken, hasToken } = useCustomTokensStore()
 
   const [address, setAddress] = useState("")
@@ -101,14 +110,28 @@ export default function ImportTokenScreen() {
   const [previewToken, setPreviewToken] = useState<TokenInfo | null>(null)
   const [isImporting, setIsImporting] = useState(false)
 
-  // Build RPC config
-  const rpcConfig: RpcConfig = {
-    provider: rpcProvider as "helius" | "quicknode" | "triton" | "publicnode",
-    cluster: network as "mainnet-beta" | "devnet" | "testnet",
-    apiKey: rpcProvider === "helius" ? heliusApiKey || undefined :
-            rpcProvider === "quicknode" ? quicknodeApiKey || undefined : undefined,
-    customEndpoint: rpcProvider === "triton" ? tritonEndpoint || undefined : undefined,
-  }
+  // Build RPC config (providers or the network's custom profile)
+  const rpcConfig: RpcConfig = useMemo(
+    () =>
+      getRpcConfigFromSettings({
+        rpcProvider,
+        network,
+        heliusApiKey,
+        quicknodeApiKey,
+        tritonEndpoint,
+        rpcProfiles,
+        activeRpcProfileIds,
+      }),
+    [
+      rpcProvider,
+      network,
+      heliusApiKey,
+      quicknodeApiKey,
+      tritonEndpoint,
+      rpcProfiles,
+      activeRpcProfileIds,
+    ]
+  )
 
   const handleSearch = useCallback(async () => {
     const trimmedAddress = address.trim()
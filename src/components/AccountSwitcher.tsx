@@ -18,7 +18,7 @@ import {
   CaretDownIcon,
 } from "phosphor-react-native"
 import type { Icon as PhosphorIcon } from "phosphor-react-native"
-import { useWalletStore, formatAddress } from "@/stores/wallet"
+import { useWalletStore, formatAddress, getSwitchableAccounts } from "@/stores/wallet"
 import { Modal } from "@/components/ui"
 import { ICON_COLORS } from "@/constants/icons"
 import type { StoredAccount } from "@/types"
@@ -30,7 +30,8 @@ interface AccountSwitcherProps {
 
 export function AccountSwitcher({ onAddAccount, onManageAccounts }: AccountSwitcherProps) {
   const [isOpen, setIsOpen] = useState(false)
-  const { accounts, activeAccountId, setActiveAccount } = useWalletStore()
+  const { accounts: allAccounts, activeAccountId, setActiveAccount } = useWalletStore()
+  const accounts = getSwitchableAccounts(allAccounts, activeAccountId)
 
   const activeAccount = accounts.find((a) => a.id === activeAccountId)
 
@@ -180,7 +181,8 @@ export function AccountSwitcher({ onAddAccount, onManageAccounts }: AccountSwitc
  * Compact account indicator for headers
  */
 export function AccountIndicator({ onPress }: { onPress?: () => void }) {
-  const { accounts, activeAccountId } = useWalletStore()
+  const { accounts: allAccounts, activeAccountId } = useWalletStore()
+  const accounts = getSwitchableAccounts(allAccounts, activeAccountId)
   const activeAccount = accounts.find((a) => a.id === activeAccountId)
 
   if (!activeAccount) {
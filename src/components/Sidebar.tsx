@@ -15,7 +15,7 @@
 import React from "react"
 import { View, Text, TouchableOpacity, Modal, ScrollView, Linking } from "react-native"
 import { router } from "expo-router"
-import { useWalletStore, formatAddress } from "@/stores/wallet"
+import { useWalletStore, formatAddress, getSwitchableAccounts } from "@/stores/wallet"
 import { useSettingsStore } from "@/stores/settings"
 import { AccountAvatar } from "./AccountAvatar"
 import { ICONS, ICON_COLORS } from "@/constants/icons"
@@ -90,8 +90,9 @@ function MenuSection({ title, items }: { title: string; items: MenuItem[] }) {
 // ============================================================================
 
 export function Sidebar({ visible, onClose }: SidebarProps) {
-  const { accounts, activeAccountId } = useWalletStore()
-  const { network, rpcProvider } = useSettingsStore()
+  const { accounts: allAccounts, activeAccountId } = useWalletStore()
+  const { network, rpcProvider, getActiveRpcProfile } = useSettingsStore()
+  const accounts = getSwitchableAccounts(allAccounts, activeAccountId)
   const activeAccount = accounts.find((a) => a.id === activeAccountId)
   const [showAccountPicker, setShowAccountPicker] = React.useState(false)
 
@@ -148,7 +149,7 @@ export function Sidebar({ visible, onClose }: SidebarProps) {
     {
       icon: <ICONS.network.rpc size={22} color={ICON_COLORS.inactive} />,
       label: "RPC Provider",
-      detail: rpcProvider,
+      detail: getActiveRpcProfile(network)?.name ?? rpcProvider,
       onPress: () => navigate("/settings"),
     },
   ]
@@ -0,0 +1,110 @@
+/**
+ * Transaction Preview Sheet
+ *
+ * Global approval sheet for simulated transactions: what the user will send,
+ * receive and pay, shown before the wallet asks for biometrics.
+ */
+
+import { View, Text } from "react-native"
+import { useTransactionPreviewStore } from "@/stores/transactionPreview"
+import { getTokenByMint } from "@/data/tokens"
+import { formatBaseUnits, type PreviewAmount } from "@/lib/simulation"
+import { Modal } from "./ui/Modal"
+import { Button } from "./ui/Button"
+
+function formatAmount({ mint, amount, decimals }: PreviewAmount): string {
+  const symbol = mint ? getTokenByMint(mint)?.symbol ?? `${mint.slice(0, 4)}...` : "SOL"
+  return `${formatBaseUnits(amount, decimals)} ${symbol}`
+}
+
+function PreviewRow({ label, value, valueClassName }: {
+  label: string
+  value: string
+  valueClassName?: string
+}) {
+  return (
+    <View className="flex-row justify-between py-1">
+      <Text className="text-dark-500">{label}</Text>
+      <Text className={valueClassName ?? "text-white"}>{value}</Text>
+    </View>
+  )
+}
+
+export function TransactionPreviewSheet() {
+  const { pending, respond } = useTransactionPreviewStore()
+  const preview = pending?.preview ?? null
+
+  return (
+    <Modal
+      visible={!!pending}
+      title={pending?.title ?? "Review Transaction"}
+      onClose={() => respond(false)}
+    >
+      <View className="bg-dark-900 rounded-xl p-4 gap-1">
+        {preview ? (
+          <>
+            {preview.send.map((amount) => (
+              <PreviewRow
+                key={`send-${amount.mint ?? "SOL"}`}
+                label="You will send"
+                value={formatAmount(amount)}
+                valueClassName="text-red-400"
+              />
+            ))}
+            {preview.receive.map((amount) => (
+              <PreviewRow
+                key={`receive-${amount.mint ?? "SOL"}`}
+                label="You will receive"
+                value={formatAmount(amount)}
+                valueClassName="text-green-400"
+              />
+            ))}
+            {preview.ownerPaysFees ? (
+              <>
+                <PreviewRow
+                  label="Network fee"
+                  value={`${formatBaseUnits(BigInt(preview.feeLamports), 9)} SOL`}
+                  valueClassName="text-dark-300"
+                />
+                {preview.rentLamports > 0 && (
+                  <PreviewRow
+                    label="Account rent"
+                    value={`${formatBaseUnits(BigInt(preview.rentLamports), 9)} SOL`}
+                    valueClassName="text-dark-300"
+                  />
+                )}
+              </>
+            ) : (
+              <PreviewRow label="Network fee" value="Not paid by you" valueClassName="text-dark-300" />
+            )}
+          </>
+        ) : (
+          <Text className="text-amber-400 text-sm">
+            This transaction couldn't be simulated. Only approve it if you trust what you're signing.
+          </Text>
+        )}
+        {pending?.details.map((detail) => (
+          <PreviewRow
+            key={detail.label}
+            label={detail.label}
+            value={detail.value}
+            valueClassName="text-dark-300"
+          />
+        ))}
+      </View>
+
+      <View className="flex-row gap-3 mt-4">
+        <View className="flex-1">
+          <Button variant="secondary" fullWidth onPress={() => respond(false)}>
+            Cancel
+          </Button>
+        </View>
+        <View className="flex-1">
+          <Button fullWidth onPress={() => respond(true)}>
+            Approve
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  )
+}
@@ -21,4 +21,5 @@ export type { PositionCardProps } from "./PositionCard"
 export { Sidebar } from "./Sidebar"
 export { SidebarProvider, useSidebar } from "./SidebarProvider"
 export { ToastOverlay } from "./ToastOverlay"
+export { TransactionPreviewSheet } from "./TransactionPreviewSheet"
 export { ErrorBoundary } from "./ErrorBoundary"
@@ -0,0 +1,34 @@
+/**
+ * Exchange Address Data
+ *
+ * Publicly labelled hot wallets of centralized exchanges on Solana. A direct
+ * transfer to or from one of these ties the wallet to a KYC'd account.
+ *
+ * Not exhaustive: exchanges also use per-user deposit addresses that are not
+ * labelled here.
+ */
+
+// ============================================================================
+// KNOWN EXCHANGES
+// ============================================================================
+
+export const EXCHANGE_ADDRESSES: Record<string, string> = {
+  "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": "Binance",
+  "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9": "Binance",
+  "H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS": "Coinbase",
+  "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm": "Coinbase",
+  "FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5": "Kraken",
+  "5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD": "OKX",
+  "AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2": "Bybit",
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Exchange name for a known exchange address
+ */
+export function getExchangeName(address: string): string | undefined {
+  return EXCHANGE_ADDRESSES[address]
+}
@@ -27,11 +27,30 @@ export type { UseBalanceReturn } from "./useBalance"
 export { useStealth } from "./useStealth"
 export type { StealthKeys, StealthAddress, UseStealthReturn } from "./useStealth"
 export { useSend } from "./useSend"
+export { useOutbox } from "./useOutbox"
+export type { QueueSendParams, UseOutboxReturn } from "./useOutbox"
+export { useOutboxSender } from "./useOutboxSender"
 export type { SendParams, SendResult, SendStatus, AddressValidation, UseSendReturn } from "./useSend"
 export { useScanPayments } from "./useScanPayments"
 export type { ScanResult, ScanProgress, ScanOptions, UseScanPaymentsReturn } from "./useScanPayments"
 export { useClaim } from "./useClaim"
 export type { ClaimResult, ClaimStatus, ClaimProgress, UseClaimReturn } from "./useClaim"
+export { useFeeEstimate } from "./useFeeEstimate"
+export type { UseFeeEstimateOptions, UseFeeEstimateReturn } from "./useFeeEstimate"
+export { useTransactionPreview } from "./useTransactionPreview"
+export { useTransactionTracker } from "./useTransactionTracker"
+export { useDurableNonce } from "./useDurableNonce"
+export type { UseDurableNonceReturn } from "./useDurableNonce"
+export { useScheduledPayments } from "./useScheduledPayments"
+export type { NewScheduledPayment, UseScheduledPaymentsReturn } from "./useScheduledPayments"
+export { useShield, MAX_SHIELD_DELAY_MS } from "./useShield"
+export type { ShieldParams, ShieldResult, ShieldStatus, ShieldProgress, UseShieldReturn } from "./useShield"
+export type { ApproveTransactionOptions, UseTransactionPreviewReturn } from "./useTransactionPreview"
+export { usePrivacyAnalysis } from "./usePrivacyAnalysis"
+export type { UsePrivacyAnalysisReturn } from "./usePrivacyAnalysis"
+export { useRecipientResolution } from "./useRecipientResolution"
+export { usePrivateBalance } from "./usePrivateBalance"
+export type { PrivateBalanceToken, UsePrivateBalanceReturn } from "./usePrivateBalance"
 export { useViewingKeys } from "./useViewingKeys"
 export type {
   UseViewingKeysReturn,
@@ -63,7 +82,10 @@ export {
   isSwapComplete,
   isSwapInProgress,
 } from "./useSwap"
-export type { SwapStatus, SwapParams, SwapResult } from "./useSwap"
+export type { SwapStatus, SwapParams, SwapRecipient, SwapResult } from "./useSwap"
+export { useSwapOrders } from "./useSwapOrders"
+export type { NewSwapOrder, UseSwapOrdersReturn } from "./useSwapOrders"
+export { useSwapOrderExecutor, ORDER_POLL_INTERVAL_MS } from "./useSwapOrderExecutor"
 
 // Compliance hooks
 export { useCompliance } from "./useCompliance"
@@ -88,6 +110,13 @@ export type { UsePrivacyProviderReturn } from "./usePrivacyProvider"
 export { useBackgroundScan } from "./useBackgroundScan"
 export type { UseBackgroundScanReturn } from "./useBackgroundScan"
 
+// Localnet program check
+export { useProgramDeploymentCheck } from "./useProgramDeploymentCheck"
+export type {
+  ProgramCheckStatus,
+  UseProgramDeploymentCheckReturn,
+} from "./useProgramDeploymentCheck"
+
 // Demo hooks (for onboarding)
 export { useStealthDemo } from "./useStealthDemo"
 export type { DemoStealthAddress, UseStealthDemoReturn } from "./useStealthDemo"
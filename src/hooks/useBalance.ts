@@ -14,7 +14,7 @@ import {
   type TokenBalance,
   type RpcConfig,
 } from "@/lib/rpc"
-import { getRpcApiKey } from "@/lib/config"
+import { getRpcConfigFromSettings } from "@/lib/connection"
 import {
   BALANCE_REFRESH_INTERVAL_MS,
   PRICE_REFRESH_INTERVAL_MS,
@@ -45,7 +45,15 @@ export interface UseBalanceReturn {
 
 export function useBalance(): UseBalanceReturn {
   const { isConnected, address } = useWalletStore()
-  const { rpcProvider, network, heliusApiKey, quicknodeApiKey, tritonEndpoint } = useSettingsStore()
+  const {
+    rpcProvider,
+    network,
+    heliusApiKey,
+    quicknodeApiKey,
+    tritonEndpoint,
+    rpcProfiles,
+    activeRpcProfileIds,
+  } = useSettingsStore()
 
   const [balance, setBalance] = useState(0)
   const [balanceLamports, setBalanceLamports] = useState(0)
@@ -63,36 +71,27 @@ export function useBalance(): UseBalanceReturn {
   }, [balance, solPrice])
 
   // Get RPC config from settings (user override) or app config (build default)
-  const rpcConfig: RpcConfig = useMemo(() => {
-    const provider = rpcProvider as "helius" | "quicknode" | "triton" | "publicnode"
-
-    // Get API key based on provider
-    let apiKey: string | undefined
-    let customEndpoint: string | undefined
-
-    switch (provider) {
-      case "helius":
-        apiKey = heliusApiKey || getRpcApiKey("helius") || undefined
-        break
-      case "quicknode":
-        apiKey = quicknodeApiKey || undefined
-        break
-      case "triton":
-        customEndpoint = tritonEndpoint || undefined
-        break
-      case "publicnode":
-      default:
-        // No key needed
-        break
-    }
-
-    return {
-      provider,
-      cluster: network as "mainnet-beta" | "devnet" | "testnet",
-      apiKey,
-      customEndpoint,
-    }
-  }, [rpcProvider, network, heliusApiKey, quicknodeApiKey, tritonEndpoint])
+  const rpcConfig: RpcConfig = useMemo(
+    () =>
+      getRpcConfigFromSettings({
+        rpcProvider,
+        network,
+        heliusApiKey,
+        quicknodeApiKey,
+        tritonEndpoint,
+        rpcProfiles,
+        activeRpcProfileIds,
+      }),
+    [
+      rpcProvider,
+      network,
+      heliusApiKey,
+      quicknodeApiKey,
+      tritonEndpoint,
+      rpcProfiles,
+      activeRpcProfileIds,
+    ]
+  )
 
   // Fetch balance
   const fetchBalance = useCallback(async (silent = false) => {
@@ -6,6 +6,18 @@
  * 2. Sign claim transaction with stealth private key
  * 3. Submit to network via Anchor program
  * 4. Update payment status
+ *
+ * Multiple payments are claimed in batches: grouped by network and token,
+ * packed several per transaction and approved with one wallet prompt per group.
+ *
+ * A single payment can instead be claimed to a fresh destination (a newly
+ * derived account or a new stealth address of the user's own meta-address),
+ * so the claim does not link the payment to the main wallet on-chain.
+ *
+ * When a relayer is configured for the network, single claims are gasless:
+ * the relayer co-signs as fee payer and takes its fee out of the claimed funds.
+ * Quotes above the fee cap (see lib/relayers/fees) are rejected, and the fee is
+ * shown in the approval preview.
  */
 
 import { useState, useCallback, useMemo } from "react"
@@ -14,14 +26,56 @@ import { Connection, PublicKey, Transaction } from "@solana/web3.js"
 import { usePrivacyStore } from "@/stores/privacy"
 import { useWalletStore } from "@/stores/wallet"
 import { useSettingsStore } from "@/stores/settings"
-import { useNativeWallet } from "./useNativeWallet"
+import { useNativeWallet, type UseNativeWalletReturn } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
 import { getKeyById, getStoreKey } from "./useStealth"
-import type { PaymentRecord, StealthKeys, StealthKeysStorage } from "@/types"
+import { decryptRecordAmount } from "./useScanPayments"
+import type {
+  AmountVerification,
+  ClaimDestination,
+  ClaimDestinationType,
+  PaymentRecord,
+  StealthKeys,
+  StealthKeysRecord,
+  StealthKeysStorage,
+} from "@/types"
 import {
   deriveStealthPrivateKey,
+  hexToBytes,
   type StealthAddress,
 } from "@/lib/stealth"
-import { buildClaimTransfer, buildSplClaimTransfer, signClaimWithStealth } from "@/lib/anchor/client"
+import {
+  buildClaimTransfer,
+  buildClaimTransferInstruction,
+  buildSplClaimInstructions,
+  buildSplClaimTransfer,
+  buildStealthSweepInstruction,
+  buildStealthSweepTransfer,
+  MAX_TRANSACTION_COMPUTE_UNITS,
+  packClaimTransactions,
+  parseTransferRecord,
+  signClaimWithStealth,
+  SOL_CLAIM_COMPUTE_UNITS,
+  SPL_CLAIM_COMPUTE_UNITS,
+  type ClaimBatchItem,
+  type ClaimRelayerFee,
+} from "@/lib/anchor/client"
+import {
+  assertRelayerFeeWithinCap,
+  createHttpClaimRelayer,
+  type ClaimRelayer,
+} from "@/lib/relayers"
+import { getAssociatedTokenAddress, getTokenAccountBalance } from "@/lib/spl"
+import { formatBaseUnits } from "@/lib/simulation"
+import { deriveClaimDestination } from "@/services/claimRecovery"
+import { getConnection } from "@/lib/connection"
+import { applyPriorityFee, getPriorityFeeRate } from "@/lib/fees"
+import { fetchNonceAccount, getNonceAccountAddress, type DurableNonce } from "@/lib/nonce"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+} from "@/services/transactionTracker"
+import type { NetworkCluster } from "@/lib/rpc"
 import { debug, logger } from "@/utils/logger"
 import bs58 from "bs58"
 
@@ -35,6 +89,21 @@ export interface ClaimResult {
   error?: string
 }
 
+/**
+ * Payments claimable together: same network and same token
+ */
+export interface ClaimGroup {
+  network: string
+  /** Token mint, or null for SOL */
+  tokenMint: string | null
+  payments: PaymentRecord[]
+}
+
+export interface ClaimOptions {
+  /** Where to send the funds (default: the connected wallet) */
+  destination?: ClaimDestinationType
+}
+
 export type ClaimStatus =
   | "idle"
   | "deriving"
@@ -56,7 +125,8 @@ export interface UseClaimReturn {
   error: string | null
 
   // Actions
-  claim: (payment: PaymentRecord) => Promise<ClaimResult>
+  claim: (payment: PaymentRecord, options?: ClaimOptions) => Promise<ClaimResult>
+  /** Batch-claim payments to the wallet; results are in the same order as the input */
   claimMultiple: (payments: PaymentRecord[]) => Promise<ClaimResult[]>
   reset: () => void
 
@@ -91,26 +161,34 @@ async function loadKeysForPayment(payment: PaymentRecord): Promise<StealthKeys |
 
   // Fall back to active keys from wallet-scoped storage
   if (walletAddress) {
-    try {
-      const storeKey = getStoreKey(walletAddress)
-      const storageData = await SecureStore.getItemAsync(storeKey)
-      if (storageData) {
-        const storage = JSON.parse(storageData) as StealthKeysStorage
-        if (storage.activeKeyId) {
-          const activeRecord = storage.records.find((r) => r.id === storage.activeKeyId)
-          if (activeRecord) {
-            return activeRecord.keys
-          }
-        }
-      }
-    } catch (err) {
-      console.error("Failed to load wallet-scoped stealth keys:", err)
+    const activeRecord = await loadActiveKeyRecord(walletAddress)
+    if (activeRecord) {
+      return activeRecord.keys
     }
   }
 
   return null
 }
 
+/**
+ * Load the wallet's active stealth key set from wallet-scoped storage
+ */
+async function loadActiveKeyRecord(walletAddress: string): Promise<StealthKeysRecord | null> {
+  try {
+    const storeKey = getStoreKey(walletAddress)
+    const storageData = await SecureStore.getItemAsync(storeKey)
+    if (storageData) {
+      const storage = JSON.parse(storageData) as StealthKeysStorage
+      if (storage.activeKeyId) {
+        return storage.records.find((r) => r.id === storage.activeKeyId) ?? null
+      }
+    }
+  } catch (err) {
+    console.error("Failed to load wallet-scoped stealth keys:", err)
+  }
+  return null
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -181,12 +259,10 @@ async function deriveSpendingKeyFromPayment(
  * 2. Signs with the derived stealth private key
  */
 /**
- * Get RPC URL for network
+ * Shared failover connection for a network (the user's RPC providers)
  */
-function getRpcUrl(network: string): string {
-  return network === "mainnet-beta"
-    ? "https://api.mainnet-beta.solana.com"
-    : "https://api.devnet.solana.com"
+function getNetworkConnection(network: string): Connection {
+  return getConnection({ ...useSettingsStore.getState(), network: network as NetworkCluster })
 }
 
 /**
@@ -219,11 +295,14 @@ async function findTransferRecordPubkey(
 
   // The stealthAddr.address is base58 of the stealth recipient
   try {
-    const { SIP_PRIVACY_PROGRAM_ID } = await import("@/lib/anchor/types")
+    const { getSipPrivacyProgramId } = await import("@/lib/anchor/types")
+    const programId = getSipPrivacyProgramId(
+      payment.network ?? useSettingsStore.getState().network
+    )
     const stealthPubkey = new PublicKey(stealthAddr.address)
 
     // Search for transfer records with this stealth recipient
-    const accounts = await connection.getProgramAccounts(SIP_PRIVACY_PROGRAM_ID, {
+    const accounts = await connection.getProgramAccounts(programId, {
       filters: [
         // TransferRecord discriminator
         {
@@ -252,15 +331,274 @@ async function findTransferRecordPubkey(
   return null
 }
 
+/**
+ * Errors meaning the stealth address was already emptied (claimed or swept)
+ */
+function isStaleClaimError(errorMessage: string): boolean {
+  return errorMessage.includes("No token balance") ||
+    errorMessage.includes("insufficient funds") ||
+    errorMessage.includes("AccountNotFound") ||
+    errorMessage.includes("already been claimed")
+}
+
+/**
+ * Group payments that can share claim transactions (same network and token)
+ */
+export function groupPaymentsForClaim(payments: PaymentRecord[]): ClaimGroup[] {
+  const groups = new Map<string, ClaimGroup>()
+  for (const payment of payments) {
+    // Legacy payments without network are treated as devnet
+    const network = payment.network || "devnet"
+    const tokenMint = payment.tokenMint ?? null
+    const key = `${network}:${tokenMint ?? "SOL"}`
+    const group = groups.get(key) ?? { network, tokenMint, payments: [] }
+    group.payments.push(payment)
+    groups.set(key, group)
+  }
+  return Array.from(groups.values())
+}
+
+/**
+ * Where a claim sends its funds, and how that address signs as recipient
+ */
+interface ResolvedClaimDestination {
+  destination: ClaimDestination
+  recipient: PublicKey
+  /** Add the recipient's signature (only called when the recipient must sign) */
+  signAsRecipient: (tx: Transaction) => Promise<Transaction>
+  /** Stealth destinations: record keeping the funds claimable (no TransferRecord announces them) */
+  destinationPayment?: PaymentRecord
+  /** Fresh accounts: remove the account when the claim is never submitted */
+  discard?: () => Promise<void>
+}
+
+/**
+ * Resolve a claim destination for a payment
+ *
+ * - wallet: the connected wallet signs
+ * - fresh-account: a new HD account of the native wallet, which signs with its own key
+ *   (a claim account: listed under Manage Accounts, not in the account switchers)
+ * - stealth: a new stealth address of the payment's meta-address, which signs with its
+ *   derived stealth key. No TransferRecord announces it, so the address is derived from
+ *   the claimed one (see deriveClaimDestination) and a scan can find it again
+ */
+async function resolveClaimDestination(
+  type: ClaimDestinationType,
+  payment: PaymentRecord,
+  walletAddress: string,
+  wallet: Pick<
+    UseNativeWalletReturn,
+    "createDerivedAccount" | "discardDerivedAccount" | "signTransaction"
+  >
+): Promise<ResolvedClaimDestination> {
+  if (type === "fresh-account") {
+    const { accountId, publicKey } = await wallet.createDerivedAccount({ isClaimAccount: true })
+    return {
+      destination: { type, address: publicKey.toBase58(), accountId },
+      recipient: publicKey,
+      signAsRecipient: async (tx) => (await wallet.signTransaction(tx, accountId)) as Transaction,
+      discard: () => wallet.discardDerivedAccount(accountId),
+    }
+  }
+
+  if (type === "stealth") {
+    // Stay on the meta-address that received the payment, so a scan with its keys
+    // can re-derive the destination
+    const keyRecord =
+      (payment.keyId ? await getKeyById(payment.keyId, walletAddress) : null) ??
+      (await loadActiveKeyRecord(walletAddress))
+    if (!keyRecord) {
+      throw new Error("No active stealth keys to claim into")
+    }
+    const { keys } = keyRecord
+
+    const source = parsePaymentStealthAddress(payment.stealthAddress)?.address
+    if (!source) {
+      throw new Error("Invalid stealth address format")
+    }
+    const { stealthAddress, address } = await deriveClaimDestination(keys, source)
+    const stealthPrivateKey = deriveStealthPrivateKey(
+      stealthAddress,
+      keys.spendingPrivateKey,
+      keys.viewingPrivateKey
+    )
+    const recipient = new PublicKey(address)
+
+    const destinationPayment: PaymentRecord = {
+      id: `payment_${Date.now()}_claim`,
+      type: "receive",
+      amount: payment.amount,
+      token: payment.token,
+      status: "completed",
+      // Same format as scanned payments: sip:solana:<ephemeralHex>:<stealthBase58>
+      stealthAddress: `sip:solana:${stealthAddress.ephemeralPublicKey}:${address}`,
+      timestamp: Date.now(),
+      privacyLevel: payment.privacyLevel,
+      claimed: false,
+      keyId: keyRecord.id,
+      network: payment.network,
+      walletAddress,
+      claimedFromPaymentId: payment.id,
+    }
+
+    return {
+      destination: { type, address, paymentId: destinationPayment.id },
+      recipient,
+      signAsRecipient: (tx) =>
+        signClaimWithStealth(tx, hexToBytes(stealthPrivateKey), recipient.toBytes()),
+      destinationPayment,
+    }
+  }
+
+  const recipient = new PublicKey(walletAddress)
+  return {
+    destination: { type: "wallet", address: walletAddress },
+    recipient,
+    signAsRecipient: async (tx) => (await wallet.signTransaction(tx)) as Transaction,
+  }
+}
+
+/**
+ * Re-check a payment's decrypted amount against its on-chain commitment
+ *
+ * Best effort: returns null when the record cannot be fetched or decrypted
+ * (self-stealth payments have no record at all).
+ */
+async function verifyPaymentAmount(
+  payment: PaymentRecord,
+  connection: Connection,
+  spendingPrivateKey: string
+): Promise<AmountVerification | null> {
+  if (payment.claimedFromPaymentId) return null
+
+  try {
+    const transferRecordPubkey = await findTransferRecordPubkey(payment, connection)
+    if (!transferRecordPubkey) return null
+
+    const accountInfo = await connection.getAccountInfo(transferRecordPubkey)
+    const record = accountInfo && parseTransferRecord(transferRecordPubkey, accountInfo.data)
+    if (!record) return null
+
+    return decryptRecordAmount(record, spendingPrivateKey)?.verification ?? null
+  } catch (err) {
+    debug("Amount verification skipped:", err)
+    return null
+  }
+}
+
+/**
+ * Durable nonce to build a claim to the wallet against
+ *
+ * Only when durable nonce claims are on and the wallet has a nonce account:
+ * the wallet signs as the nonce authority. Otherwise the claim uses a recent
+ * blockhash.
+ */
+async function getClaimNonce(
+  connection: Connection,
+  walletAddress: string
+): Promise<DurableNonce | undefined> {
+  if (!useSettingsStore.getState().durableNonceClaims) return undefined
+
+  const nonceAccount = await getNonceAccountAddress(new PublicKey(walletAddress))
+  const info = await fetchNonceAccount(connection, nonceAccount)
+  if (!info) {
+    debug("No nonce account, claiming with a recent blockhash")
+    return undefined
+  }
+  return info
+}
+
+/**
+ * Derive the stealth key for a payment and build its claim instructions
+ */
+async function prepareClaimBatchItem(
+  payment: PaymentRecord,
+  connection: Connection,
+  recipientPubkey: PublicKey
+): Promise<ClaimBatchItem> {
+  const keys = await loadKeysForPayment(payment)
+  if (!keys?.viewingPrivateKey || !keys.spendingPrivateKey) {
+    throw new Error("Stealth keys not found. Keys may have been deleted.")
+  }
+
+  const derivedKey = await deriveSpendingKeyFromPayment(
+    payment,
+    keys.spendingPrivateKey,
+    keys.viewingPrivateKey
+  )
+  if (!derivedKey) {
+    throw new Error("Failed to derive spending key - invalid stealth address")
+  }
+
+  const stealthAddr = parsePaymentStealthAddress(payment.stealthAddress)
+  if (!stealthAddr || !stealthAddr.address) {
+    throw new Error("Invalid stealth address format")
+  }
+  const stealthPubkey = new PublicKey(stealthAddr.address)
+
+  if (!payment.tokenMint && payment.claimedFromPaymentId) {
+    // Self-stealth funds have no TransferRecord: plain sweep, fee paid by the batch
+    const result = await buildStealthSweepInstruction(connection, {
+      stealthAddress: stealthPubkey,
+      stealthPrivateKey: derivedKey,
+      recipientAddress: recipientPubkey,
+    })
+    return {
+      id: payment.id,
+      instructions: [result.instruction],
+      stealthScalar: result.stealthScalar,
+      stealthPublicKey: result.stealthPublicKey,
+      computeUnits: SOL_CLAIM_COMPUTE_UNITS,
+    }
+  }
+
+  if (payment.tokenMint) {
+    const result = await buildSplClaimInstructions(connection, {
+      stealthAddress: stealthPubkey,
+      stealthPrivateKey: derivedKey,
+      recipientAddress: recipientPubkey,
+      tokenMint: new PublicKey(payment.tokenMint),
+      decimals: payment.tokenDecimals ?? 6,
+    })
+    return {
+      id: payment.id,
+      instructions: result.instructions,
+      stealthScalar: result.stealthScalar,
+      stealthPublicKey: result.stealthPublicKey,
+      computeUnits: SPL_CLAIM_COMPUTE_UNITS,
+    }
+  }
+
+  const transferRecordPubkey = await findTransferRecordPubkey(payment, connection)
+  if (!transferRecordPubkey) {
+    throw new Error("Transfer record not found on-chain")
+  }
+  const result = await buildClaimTransferInstruction({
+    transferRecordPubkey,
+    stealthAddress: stealthPubkey,
+    stealthPrivateKey: derivedKey,
+    recipientAddress: recipientPubkey,
+  })
+  return {
+    id: payment.id,
+    instructions: [result.instruction],
+    stealthScalar: result.stealthScalar,
+    stealthPublicKey: result.stealthPublicKey,
+    computeUnits: SOL_CLAIM_COMPUTE_UNITS,
+  }
+}
+
 // ============================================================================
 // HOOK
 // ============================================================================
 
 export function useClaim(): UseClaimReturn {
   const { isConnected, address: walletAddress } = useWalletStore()
-  const { network } = useSettingsStore()
-  const { payments, updatePayment } = usePrivacyStore()
-  const { signTransaction } = useNativeWallet()
+  const { network, getRelayerUrl } = useSettingsStore()
+  const { payments, addPayment, updatePayment } = usePrivacyStore()
+  const { signTransaction, signAllTransactions, createDerivedAccount, discardDerivedAccount } =
+    useNativeWallet()
+  const { approve, approveAll } = useTransactionPreview()
 
   const [progress, setProgress] = useState<ClaimProgress>({
     status: "idle",
@@ -271,7 +609,7 @@ export function useClaim(): UseClaimReturn {
   const [error, setError] = useState<string | null>(null)
 
   const claim = useCallback(
-    async (payment: PaymentRecord): Promise<ClaimResult> => {
+    async (payment: PaymentRecord, options: ClaimOptions = {}): Promise<ClaimResult> => {
       if (!isConnected || !walletAddress) {
         return { success: false, error: "Wallet not connected" }
       }
@@ -286,7 +624,22 @@ export function useClaim(): UseClaimReturn {
 
       setError(null)
 
+      const destinationType = options.destination ?? "wallet"
+
+      const relayerUrl = getRelayerUrl(network)
+      const relayer: ClaimRelayer | null = relayerUrl
+        ? createHttpClaimRelayer({ url: relayerUrl })
+        : null
+
+      // Removes a fresh claim account again until the claim is submitted
+      let discardDestination: (() => Promise<void>) | undefined
+
       try {
+        // A fresh destination holds no SOL to create its token account (a relayer pays it instead)
+        if (payment.tokenMint && destinationType !== "wallet" && !relayer) {
+          throw new Error("Token payments can only be claimed to your wallet without a relayer")
+        }
+
         // Step 1: Load keys (supports archived keys via keyId) (#72)
         setProgress({
           status: "deriving",
@@ -342,8 +695,50 @@ export function useClaim(): UseClaimReturn {
         })
 
         // Setup connection
-        const connection = new Connection(getRpcUrl(network), { commitment: "confirmed" })
-        const recipientPubkey = new PublicKey(walletAddress)
+        const connection = getNetworkConnection(network)
+
+        // Flag payments whose amount does not match the commitment (the claim still sweeps
+        // whatever the stealth account actually holds)
+        const amountVerification = await verifyPaymentAmount(payment, connection, spendingPrivateKey)
+        if (amountVerification && amountVerification !== payment.amountVerification) {
+          updatePayment(payment.id, { amountVerification })
+        }
+        if (amountVerification === "mismatch") {
+          logger.warn(`Payment ${payment.id} amount does not match its on-chain commitment`)
+        }
+
+        const {
+          destination,
+          recipient: recipientPubkey,
+          signAsRecipient,
+          destinationPayment,
+          discard,
+        } = await resolveClaimDestination(destinationType, payment, walletAddress, {
+          createDerivedAccount,
+          discardDerivedAccount,
+          signTransaction,
+        })
+        discardDestination = discard
+
+        // Self-stealth sweeps are paid by the stealth account and need no relayer
+        let relayerFee: ClaimRelayerFee | undefined
+        if (relayer && !(payment.claimedFromPaymentId && !payment.tokenMint)) {
+          const tokenMint = payment.tokenMint ? new PublicKey(payment.tokenMint) : null
+          relayerFee = await relayer.getQuote({ network, tokenMint })
+          debug(`Relayer fee: ${relayerFee.fee} (fee payer ${relayerFee.feePayer.toBase58()})`)
+
+          // The fee comes out of whatever the stealth account holds
+          const claimAmount = tokenMint
+            ? await getTokenAccountBalance(connection, getAssociatedTokenAddress(stealthPubkey, tokenMint))
+            : BigInt(await connection.getBalance(stealthPubkey))
+          assertRelayerFeeWithinCap(relayerFee, claimAmount, tokenMint)
+        }
+
+        // Claims to the wallet can be built against its nonce (the wallet signs them)
+        const durableNonce =
+          destination.type === "wallet"
+            ? await getClaimNonce(connection, walletAddress)
+            : undefined
 
         let transaction: Transaction
         let stealthScalar: Uint8Array
@@ -357,11 +752,23 @@ export function useClaim(): UseClaimReturn {
             recipientAddress: recipientPubkey,
             tokenMint: new PublicKey(payment.tokenMint),
             decimals: payment.tokenDecimals ?? 6,
+            relayer: relayerFee,
+            durableNonce,
           })
           transaction = result.transaction
           stealthScalar = result.stealthScalar
           stealthPublicKey = result.stealthPublicKey
           debug("SPL claim transaction built")
+        } else if (payment.claimedFromPaymentId) {
+          // Self-stealth funds have no TransferRecord: plain sweep paid by the stealth account
+          const result = await buildStealthSweepTransfer(connection, {
+            stealthAddress: stealthPubkey,
+            stealthPrivateKey: derivedKey,
+            recipientAddress: recipientPubkey,
+          })
+          transaction = result.transaction
+          stealthScalar = result.stealthScalar
+          stealthPublicKey = result.stealthPublicKey
         } else {
           // SOL claim via SIP Privacy Program
           const transferRecordPubkey = await findTransferRecordPubkey(payment, connection)
@@ -374,6 +781,10 @@ export function useClaim(): UseClaimReturn {
             stealthAddress: stealthPubkey,
             stealthPrivateKey: derivedKey,
             recipientAddress: recipientPubkey,
+            // Fresh destinations hold no SOL: the stealth account pays instead
+            feePayer: destination.type === "wallet" ? undefined : stealthPubkey,
+            relayer: relayerFee,
+            durableNonce,
           })
           transaction = result.transaction
           stealthScalar = result.stealthScalar
@@ -384,6 +795,31 @@ export function useClaim(): UseClaimReturn {
         debug("Stealth pubkey:", bs58.encode(stealthPublicKey))
         debug("Expected stealth pubkey:", stealthPubkey.toBase58())
 
+        // Priority fee only when the wallet pays (stealth-paid claims budget the base fee
+        // exactly, relayers price their own)
+        if (!relayerFee && transaction.feePayer?.toBase58() === walletAddress) {
+          await applyPriorityFee(
+            connection,
+            transaction,
+            useSettingsStore.getState().getPriorityFeePreference()
+          )
+        }
+
+        await approve(transaction, {
+          title: `Claim ${parseFloat(payment.amount).toFixed(4)} ${payment.token}`,
+          owner: recipientPubkey,
+          // Paid from the stealth account, so the recipient's summary doesn't show it
+          details: relayerFee && [
+            {
+              label: "Relayer fee",
+              value: `${formatBaseUnits(
+                relayerFee.fee,
+                payment.tokenMint ? payment.tokenDecimals ?? 6 : 9
+              )} ${payment.token}`,
+            },
+          ],
+        })
+
         // Sign with stealth scalar (custom ed25519 signing with derived scalar)
         const stealthSignedTx = await signClaimWithStealth(
           transaction,
@@ -391,43 +827,47 @@ export function useClaim(): UseClaimReturn {
           stealthPublicKey
         )
 
-        // Step 4: Sign with user wallet and submit
+        // Step 4: Sign as recipient (if it is a signer) and submit
         setProgress({
           status: "submitting",
-          message: "Requesting wallet signature...",
+          message: destination.type === "wallet"
+            ? "Requesting wallet signature..."
+            : "Signing for claim destination...",
           step: 4,
           totalSteps: CLAIM_STEPS,
         })
 
-        // Sign with user's wallet (recipient/feePayer)
-        const signedTransaction = await signTransaction(stealthSignedTx)
+        // Sweeps are signed by the stealth account alone
+        const recipientMustSign = stealthSignedTx.signatures.some((s) =>
+          s.publicKey.equals(recipientPubkey)
+        )
+        const signedTransaction = recipientMustSign
+          ? await signAsRecipient(stealthSignedTx)
+          : stealthSignedTx
 
-        // Submit the fully signed transaction
+        // Submit the fully signed transaction (the relayer adds its fee payer signature)
         setProgress({
           status: "submitting",
-          message: "Submitting to network...",
+          message: relayerFee ? "Submitting via relayer..." : "Submitting to network...",
           step: 4,
           totalSteps: CLAIM_STEPS,
         })
 
-        const signature = await connection.sendRawTransaction(
-          (signedTransaction as Transaction).serialize(),
-          { skipPreflight: false, preflightCommitment: "confirmed" }
+        // Funds may reach the destination from here on
+        discardDestination = undefined
+        const relayed = relayer && relayerFee
+        const pending = await submitTrackedTransaction(
+          connection,
+          signedTransaction.serialize({ requireAllSignatures: !relayed }),
+          {
+            kind: "claim",
+            network,
+            claimPaymentIds: [payment.id],
+            relay: relayed ? () => relayer.relay(signedTransaction, network) : undefined,
+          }
         )
-
-        // Wait for confirmation using the SAME blockhash from the transaction
-        const txBlockhash = (signedTransaction as Transaction).recentBlockhash!
-        const { lastValidBlockHeight } = await connection.getLatestBlockhash()
-        const confirmation = await connection.confirmTransaction({
-          signature,
-          blockhash: txBlockhash,
-          lastValidBlockHeight,
-        })
-
-        // Check for on-chain errors (confirmTransaction resolves even on failure)
-        if (confirmation.value.err) {
-          throw new Error(`Transaction failed on-chain: ${JSON.stringify(confirmation.value.err)}`)
-        }
+        await confirmTrackedTransaction(connection, pending)
+        const signature = pending.signature
 
         debug("Claim transaction confirmed:", signature)
 
@@ -438,7 +878,11 @@ export function useClaim(): UseClaimReturn {
           claimed: true,
           claimedAt: Date.now(),
           claimTxHash: signature,
+          claimDestination: destination,
         })
+        if (destinationPayment) {
+          addPayment(destinationPayment)
+        }
 
         setProgress({
           status: "confirmed",
@@ -452,10 +896,15 @@ export function useClaim(): UseClaimReturn {
         const errorMessage = err instanceof Error ? err.message : "Claim failed"
         console.error("Claim error:", err)
 
+        // Cancelled or failed before submission: don't leave an empty claim account
+        if (discardDestination) {
+          await discardDestination().catch((discardErr) =>
+            logger.warn("Failed to remove unused claim account:", discardErr)
+          )
+        }
+
         // Auto-mark stale payments (no balance = already claimed or swept)
-        const isStale = errorMessage.includes("No token balance") ||
-          errorMessage.includes("insufficient funds") ||
-          errorMessage.includes("AccountNotFound")
+        const isStale = isStaleClaimError(errorMessage)
         if (isStale) {
           updatePayment(payment.id, {
             status: "claimed",
@@ -477,26 +926,188 @@ export function useClaim(): UseClaimReturn {
         return { success: false, error: errorMessage }
       }
     },
-    [isConnected, walletAddress, network, updatePayment, signTransaction]
+    [
+      isConnected,
+      walletAddress,
+      network,
+      getRelayerUrl,
+      addPayment,
+      updatePayment,
+      signTransaction,
+      createDerivedAccount,
+      discardDerivedAccount,
+      approve,
+    ]
   )
 
   const claimMultiple = useCallback(
     async (paymentsToClaimList: PaymentRecord[]): Promise<ClaimResult[]> => {
-      const results: ClaimResult[] = []
+      if (!isConnected || !walletAddress) {
+        return paymentsToClaimList.map(() => ({ success: false, error: "Wallet not connected" }))
+      }
+
+      setError(null)
+
+      const results = new Map<string, ClaimResult>()
+      const fail = (payment: PaymentRecord, err: unknown) => {
+        const errorMessage = err instanceof Error ? err.message : "Claim failed"
+        // Auto-mark stale payments (no balance = already claimed or swept)
+        if (isStaleClaimError(errorMessage)) {
+          updatePayment(payment.id, {
+            status: "claimed",
+            claimed: true,
+            claimedAt: Date.now(),
+            claimTxHash: "stale:auto-dismissed",
+          })
+        }
+        results.set(payment.id, { success: false, error: errorMessage })
+      }
 
-      for (const payment of paymentsToClaimList) {
-        const result = await claim(payment)
-        results.push(result)
+      const claimable = paymentsToClaimList.filter((payment) => {
+        if (payment.claimed) {
+          results.set(payment.id, { success: false, error: "Payment already claimed" })
+          return false
+        }
+        if (payment.type !== "receive") {
+          results.set(payment.id, { success: false, error: "Can only claim received payments" })
+          return false
+        }
+        return true
+      })
+
+      const recipientPubkey = new PublicKey(walletAddress)
+      const groups = groupPaymentsForClaim(claimable)
+      let prepared = 0
+
+      for (const group of groups) {
+        const connection = getNetworkConnection(group.network)
+        const paymentsById = new Map(group.payments.map((p) => [p.id, p]))
+
+        // Steps 1-2: derive stealth keys and build each payment's instructions
+        const items: ClaimBatchItem[] = []
+        for (const payment of group.payments) {
+          prepared++
+          setProgress({
+            status: "deriving",
+            message: `Preparing claim ${prepared} of ${claimable.length}...`,
+            step: 2,
+            totalSteps: CLAIM_STEPS,
+          })
+          try {
+            items.push(await prepareClaimBatchItem(payment, connection, recipientPubkey))
+          } catch (err) {
+            console.error("Claim preparation error:", err)
+            fail(payment, err)
+          }
+        }
+        if (items.length === 0) continue
+
+        try {
+          // Step 3: pack and add every stealth signature
+          setProgress({
+            status: "signing",
+            message: `Signing ${items.length} claim${items.length !== 1 ? "s" : ""}...`,
+            step: 3,
+            totalSteps: CLAIM_STEPS,
+          })
+
+          const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
+          const totalComputeUnits = items.reduce((sum, item) => sum + item.computeUnits, 0)
+          const microLamportsPerUnit = await getPriorityFeeRate(
+            connection,
+            useSettingsStore.getState().getPriorityFeePreference(),
+            Math.min(totalComputeUnits, MAX_TRANSACTION_COMPUTE_UNITS),
+            [recipientPubkey]
+          )
+          const packed = packClaimTransactions(items, recipientPubkey, blockhash, microLamportsPerUnit)
+          await approveAll(
+            packed.map((p) => p.transaction),
+            { title: `Claim ${items.length} payment${items.length !== 1 ? "s" : ""}` }
+          )
+          for (const { transaction, items: packedItems } of packed) {
+            for (const item of packedItems) {
+              await signClaimWithStealth(transaction, item.stealthScalar, item.stealthPublicKey)
+            }
+          }
 
-        // Small delay between claims
-        if (result.success) {
-          await new Promise((resolve) => setTimeout(resolve, 200))
+          // Step 4: one wallet approval for the whole group, then submit each transaction
+          setProgress({
+            status: "submitting",
+            message: "Requesting wallet signature...",
+            step: 4,
+            totalSteps: CLAIM_STEPS,
+          })
+          const signedTransactions = await signAllTransactions(packed.map((p) => p.transaction))
+
+          for (let i = 0; i < packed.length; i++) {
+            const packedPayments = packed[i].items.map((item) => paymentsById.get(item.id)!)
+            setProgress({
+              status: "submitting",
+              message: `Submitting transaction ${i + 1} of ${packed.length}...`,
+              step: 4,
+              totalSteps: CLAIM_STEPS,
+            })
+
+            try {
+              const pending = await submitTrackedTransaction(
+                connection,
+                signedTransactions[i].serialize(),
+                {
+                  kind: "claim",
+                  network: group.network as NetworkCluster,
+                  lastValidBlockHeight,
+                  claimPaymentIds: packedPayments.map((p) => p.id),
+                }
+              )
+              await confirmTrackedTransaction(connection, pending)
+              const signature = pending.signature
+
+              debug(`Batch claim confirmed (${packedPayments.length} payments):`, signature)
+
+              // IMPORTANT: Don't overwrite txHash - it's the transfer record PDA used for sync
+              for (const payment of packedPayments) {
+                updatePayment(payment.id, {
+                  status: "claimed",
+                  claimed: true,
+                  claimedAt: Date.now(),
+                  claimTxHash: signature,
+                  claimDestination: { type: "wallet", address: walletAddress },
+                })
+                results.set(payment.id, { success: true, txHash: signature })
+              }
+            } catch (err) {
+              console.error("Batch claim transaction error:", err)
+              packedPayments.forEach((payment) => fail(payment, err))
+            }
+          }
+        } catch (err) {
+          // Packing or wallet approval failed: nothing in this group was submitted
+          console.error("Batch claim error:", err)
+          items.forEach((item) => fail(paymentsById.get(item.id)!, err))
         }
       }
 
-      return results
+      const ordered = paymentsToClaimList.map(
+        (p) => results.get(p.id) ?? { success: false, error: "Claim failed" }
+      )
+      const failed = ordered.filter((r) => !r.success).length
+
+      if (failed === ordered.length && ordered.length > 0) {
+        const message = ordered[0].error ?? "Claim failed"
+        setError(message)
+        setProgress({ status: "error", message, step: 0, totalSteps: CLAIM_STEPS })
+      } else {
+        setProgress({
+          status: "confirmed",
+          message: failed > 0 ? `Claimed with ${failed} failure${failed !== 1 ? "s" : ""}` : "Claim successful!",
+          step: 4,
+          totalSteps: CLAIM_STEPS,
+        })
+      }
+
+      return ordered
     },
-    [claim]
+    [isConnected, walletAddress, updatePayment, signAllTransactions, approveAll]
   )
 
   const reset = useCallback(() => {
@@ -0,0 +1,203 @@
+/**
+ * Durable Nonce Hook
+ *
+ * Manages the native wallet's durable nonce account (create, fund, advance,
+ * close). Transactions built against its nonce can be signed now and
+ * submitted later, or by another device.
+ */
+
+import { useCallback, useEffect, useState } from "react"
+import { LAMPORTS_PER_SOL, PublicKey, type Transaction } from "@solana/web3.js"
+import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
+import { getConnection } from "@/lib/connection"
+import {
+  buildAdvanceNonce,
+  buildCloseNonceAccount,
+  buildCreateNonceAccount,
+  buildFundNonceAccount,
+  fetchNonceAccount,
+  getNonceAccountAddress,
+  type NonceAccountInfo,
+} from "@/lib/nonce"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UseDurableNonceReturn {
+  /** The wallet's nonce account, null if not created */
+  nonceAccount: NonceAccountInfo | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<NonceAccountInfo | null>
+  /** Create the nonce account, optionally funded beyond rent (SOL) */
+  create: (extraSol?: number) => Promise<NonceAccountInfo>
+  fund: (amountSol: number) => Promise<void>
+  /** Invalidate every transaction signed against the current nonce */
+  advance: () => Promise<void>
+  /** Close the account, returning its balance to the wallet */
+  close: () => Promise<void>
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useDurableNonce(): UseDurableNonceReturn {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { signTransaction } = useNativeWallet()
+  const { approve } = useTransactionPreview()
+
+  const [nonceAccount, setNonceAccount] = useState<NonceAccountInfo | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async (): Promise<NonceAccountInfo | null> => {
+    if (!address) {
+      setNonceAccount(null)
+      return null
+    }
+
+    const connection = getConnection(useSettingsStore.getState())
+    const info = await fetchNonceAccount(
+      connection,
+      await getNonceAccountAddress(new PublicKey(address))
+    )
+    setNonceAccount(info)
+    return info
+  }, [address])
+
+  useEffect(() => {
+    refresh().catch((err) => debug("Failed to fetch nonce account:", err))
+  }, [refresh, network])
+
+  /**
+   * Preview, sign, submit and confirm a management transaction
+   */
+  const submit = useCallback(
+    async (transaction: Transaction, title: string): Promise<void> => {
+      const connection = getConnection(useSettingsStore.getState())
+      await approve(transaction, { title })
+
+      const signedTx = await signTransaction(transaction)
+      if (!signedTx) {
+        throw new Error("Transaction signing rejected")
+      }
+
+      const { lastValidBlockHeight } = await connection.getLatestBlockhash()
+      const signature = await connection.sendRawTransaction(signedTx.serialize())
+      const confirmation = await connection.confirmTransaction({
+        signature,
+        blockhash: transaction.recentBlockhash!,
+        lastValidBlockHeight,
+      })
+      if (confirmation.value.err) {
+        throw new Error(`Transaction failed on-chain: ${JSON.stringify(confirmation.value.err)}`)
+      }
+      debug(`${title} confirmed:`, signature)
+    },
+    [approve, signTransaction]
+  )
+
+  /**
+   * Run a management action with loading and error state
+   */
+  const run = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        return await action()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nonce account update failed")
+        throw err
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    []
+  )
+
+  const requireAddress = useCallback((): PublicKey => {
+    if (!address) throw new Error("Wallet not connected")
+    return new PublicKey(address)
+  }, [address])
+
+  const requireNonceAccount = useCallback((): NonceAccountInfo => {
+    if (!nonceAccount) throw new Error("No nonce account")
+    return nonceAccount
+  }, [nonceAccount])
+
+  const create = useCallback(
+    (extraSol = 0) =>
+      run(async () => {
+        if (nonceAccount) throw new Error("Nonce account already exists")
+
+        const connection = getConnection(useSettingsStore.getState())
+        const { transaction } = await buildCreateNonceAccount(connection, requireAddress(), {
+          extraLamports: Math.floor(extraSol * LAMPORTS_PER_SOL),
+        })
+        await submit(transaction, "Create nonce account")
+
+        const info = await refresh()
+        if (!info) throw new Error("Nonce account not found after creation")
+        return info
+      }),
+    [run, nonceAccount, requireAddress, submit, refresh]
+  )
+
+  const fund = useCallback(
+    (amountSol: number) =>
+      run(async () => {
+        const connection = getConnection(useSettingsStore.getState())
+        const transaction = await buildFundNonceAccount(
+          connection,
+          requireAddress(),
+          requireNonceAccount().nonceAccount,
+          Math.floor(amountSol * LAMPORTS_PER_SOL)
+        )
+        await submit(transaction, `Fund nonce account with ${amountSol} SOL`)
+        await refresh()
+      }),
+    [run, requireAddress, requireNonceAccount, submit, refresh]
+  )
+
+  const advance = useCallback(
+    () =>
+      run(async () => {
+        const connection = getConnection(useSettingsStore.getState())
+        await submit(await buildAdvanceNonce(connection, requireNonceAccount()), "Advance nonce")
+        await refresh()
+      }),
+    [run, requireNonceAccount, submit, refresh]
+  )
+
+  const close = useCallback(
+    () =>
+      run(async () => {
+        const connection = getConnection(useSettingsStore.getState())
+        const info = await fetchNonceAccount(connection, requireNonceAccount().nonceAccount)
+        if (!info) throw new Error("No nonce account")
+
+        await submit(await buildCloseNonceAccount(connection, info), "Close nonce account")
+        await refresh()
+      }),
+    [run, requireNonceAccount, submit, refresh]
+  )
+
+  return {
+    nonceAccount,
+    isLoading,
+    error,
+    refresh,
+    create,
+    fund,
+    advance,
+    close,
+  }
+}
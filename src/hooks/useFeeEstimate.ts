@@ -0,0 +1,85 @@
+/**
+ * Fee Estimate Hook
+ *
+ * Previews the network fee (base + priority) of a transaction before it is
+ * built, at the user's priority fee preference. Send and claim confirmations
+ * show it; the fee actually paid is sized when the transaction is built.
+ */
+
+import { useState, useEffect } from "react"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { useSettingsStore } from "@/stores/settings"
+import { getConnection } from "@/lib/connection"
+import {
+  ESTIMATED_COMPUTE_UNITS,
+  estimateTransactionFee,
+  type FeeEstimate,
+  type FeeEstimateKind,
+} from "@/lib/fees"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UseFeeEstimateOptions {
+  /** Kind of transaction (sets the compute limit) */
+  kind: FeeEstimateKind
+  /** Number of transactions (e.g. packed claims) */
+  transactions?: number
+  /** Skip estimation (e.g. while the confirmation is hidden) */
+  enabled?: boolean
+}
+
+export interface UseFeeEstimateReturn {
+  estimate: FeeEstimate | null
+  /** Total fee over all transactions in SOL (null until estimated) */
+  totalSol: number | null
+  isLoading: boolean
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useFeeEstimate({
+  kind,
+  transactions = 1,
+  enabled = true,
+}: UseFeeEstimateOptions): UseFeeEstimateReturn {
+  const { network, priorityFee, customPriorityFee } = useSettingsStore()
+
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    setIsLoading(true)
+    const settings = useSettingsStore.getState()
+    estimateTransactionFee(getConnection(settings), settings.getPriorityFeePreference(), {
+      computeUnits: ESTIMATED_COMPUTE_UNITS[kind],
+    })
+      .then((result) => {
+        if (!cancelled) setEstimate(result)
+      })
+      .catch((err) => {
+        debug("Fee estimate failed:", err)
+        if (!cancelled) setEstimate(null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, kind, network, priorityFee, customPriorityFee])
+
+  return {
+    estimate,
+    totalSol: estimate ? (estimate.totalFeeLamports * transactions) / LAMPORTS_PER_SOL : null,
+    isLoading,
+  }
+}
@@ -35,13 +35,26 @@ import {
   authenticateUser,
   isBiometricAvailable,
   clearSensitiveData,
+  getLastDerivedAccountIndex,
+  setLastDerivedAccountIndex,
   type KeyStorageError,
   type WalletRegistryEntry,
 } from "@/utils/keyStorage"
 import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { getConnection } from "@/lib/connection"
+import { createTransferRecordSource } from "@/lib/record-sources"
+import { restoreDeterministicStealthKeys } from "./useStealth"
 
-// Solana derivation path (BIP44)
-const SOLANA_DERIVATION_PATH = "m/44'/501'/0'/0'"
+/**
+ * Solana derivation path (BIP44) for an account index
+ *
+ * Index 0 is the wallet itself; higher indexes are fresh accounts derived
+ * from the same seed phrase (e.g. to claim payments into).
+ */
+export function getSolanaDerivationPath(accountIndex: number = 0): string {
+  return `m/44'/501'/${accountIndex}'/0'`
+}
 
 /**
  * Connect native wallet to the main wallet store
@@ -69,6 +82,7 @@ export interface NativeWalletError {
     | "AUTH_FAILED"
     | "STORAGE_ERROR"
     | "SIGNING_FAILED"
+    | "DERIVATION_FAILED"
   message: string
 }
 
@@ -86,9 +100,22 @@ export interface UseNativeWalletReturn {
   importFromPrivateKey: (privateKey: string) => Promise<NativeWallet>
   exportMnemonic: () => Promise<string | null>
   deleteWallet: (accountId?: string) => Promise<void>
-
-  // Signing (requires biometric)
-  signTransaction: (tx: Transaction | VersionedTransaction) => Promise<Transaction | VersionedTransaction>
+  /**
+   * Derive a fresh account from the active wallet's seed phrase (stays inactive)
+   *
+   * @param options.isClaimAccount - Receives a claim: kept out of the account switchers
+   */
+  createDerivedAccount: (options?: {
+    isClaimAccount?: boolean
+  }) => Promise<{ accountId: string; publicKey: PublicKey }>
+  /** Remove a derived account that ended up unused (its index stays spent) */
+  discardDerivedAccount: (accountId: string) => Promise<void>
+
+  // Signing (requires biometric; defaults to the active account)
+  signTransaction: (
+    tx: Transaction | VersionedTransaction,
+    accountId?: string
+  ) => Promise<Transaction | VersionedTransaction>
   signMessage: (message: Uint8Array) => Promise<Uint8Array>
   signAllTransactions: <T extends Transaction | VersionedTransaction>(txs: T[]) => Promise<T[]>
 
@@ -99,10 +126,10 @@ export interface UseNativeWalletReturn {
 /**
  * Derive Solana keypair from mnemonic using BIP44 path
  */
-function deriveKeypairFromMnemonic(mnemonic: string): Keypair {
+function deriveKeypairFromMnemonic(mnemonic: string, accountIndex: number = 0): Keypair {
   const seed = mnemonicToSeedSync(mnemonic)
   const hdKey = HDKey.fromMasterSeed(seed)
-  const derived = hdKey.derive(SOLANA_DERIVATION_PATH)
+  const derived = hdKey.derive(getSolanaDerivationPath(accountIndex))
 
   if (!derived.privateKey) {
     throw new Error("Failed to derive private key")
@@ -262,6 +289,18 @@ export function useNativeWallet(): UseNativeWalletReturn {
           hasMnemonic: true,
         })
 
+        // Stealth keys derived from this seed come back with it (those that received payments)
+        try {
+          const settings = useSettingsStore.getState()
+          const records = await createTransferRecordSource(
+            settings.getRecordSource(settings.network),
+            getConnection(settings)
+          ).fetchAll()
+          await restoreDeterministicStealthKeys(publicKeyBase58, normalizedMnemonic, records)
+        } catch (err) {
+          console.error("Failed to restore stealth keys from seed:", err)
+        }
+
         const newWallet: NativeWallet = { publicKey: keypair.publicKey }
         setWallet(newWallet)
         clearSensitiveData(keypair.secretKey)
@@ -395,11 +434,104 @@ export function useNativeWallet(): UseNativeWalletReturn {
     }
   }, [])
 
+  /**
+   * Derive a fresh account from the active wallet's seed phrase (requires biometric)
+   *
+   * Uses the BIP44 account index after the last one handed out from this seed
+   * (never one a removed account had), stores its keys and the seed phrase like
+   * any other account and adds it without switching to it.
+   */
+  const createDerivedAccount = useCallback(
+    async (options: { isClaimAccount?: boolean } = {}): Promise<{ accountId: string; publicKey: PublicKey }> => {
+      try {
+        setError(null)
+
+        const walletStore = useWalletStore.getState()
+        const activeAccountId = walletStore.activeAccountId
+        if (!activeAccountId) {
+          throw { code: "NO_WALLET", message: "No active account" } as NativeWalletError
+        }
+
+        const mnemonic = await getMnemonicForAccount(activeAccountId)
+        if (!mnemonic) {
+          throw {
+            code: "DERIVATION_FAILED",
+            message: "Fresh accounts need a wallet created from a seed phrase",
+          } as NativeWalletError
+        }
+
+        const root = deriveKeypairFromMnemonic(mnemonic, 0)
+        const rootAddress = root.publicKey.toBase58()
+        clearSensitiveData(root.secretKey)
+
+        let accountIndex = (await getLastDerivedAccountIndex(rootAddress)) + 1
+        let keypair = deriveKeypairFromMnemonic(mnemonic, accountIndex)
+        while (walletStore.getAccountByAddress(keypair.publicKey.toBase58())) {
+          clearSensitiveData(keypair.secretKey)
+          accountIndex++
+          keypair = deriveKeypairFromMnemonic(mnemonic, accountIndex)
+        }
+
+        const publicKeyBase58 = keypair.publicKey.toBase58()
+        const account = walletStore.addAccount({
+          address: publicKeyBase58,
+          providerType: "native",
+          chain: "solana",
+          ...(options.isClaimAccount && {
+            nickname: `Claim ${accountIndex}`,
+            isClaimAccount: true,
+          }),
+        })
+
+        await setLastDerivedAccountIndex(rootAddress, accountIndex)
+        await storeWalletKeys(account.id, bs58.encode(keypair.secretKey), publicKeyBase58, mnemonic)
+        await addToRegistry({
+          id: account.id,
+          address: publicKeyBase58,
+          providerType: "native",
+          createdAt: new Date().toISOString(),
+          hasMnemonic: true,
+          derivationIndex: accountIndex,
+        })
+        clearSensitiveData(keypair.secretKey)
+
+        return { accountId: account.id, publicKey: keypair.publicKey }
+      } catch (err) {
+        const walletError = (err as NativeWalletError).code
+          ? (err as NativeWalletError)
+          : {
+              code: "DERIVATION_FAILED" as const,
+              message: err instanceof Error ? err.message : "Failed to derive account",
+            }
+        setError(walletError)
+        throw walletError
+      }
+    },
+    []
+  )
+
+  /**
+   * Remove an account createDerivedAccount added that ended up unused
+   *
+   * No authentication: the seed phrase still derives it. Only derived accounts
+   * can be removed this way, and their index is not handed out again.
+   */
+  const discardDerivedAccount = useCallback(async (accountId: string): Promise<void> => {
+    const entry = (await getWalletRegistry()).find((e) => e.id === accountId)
+    if (entry?.derivationIndex === undefined) {
+      throw new Error("Only derived accounts can be discarded")
+    }
+
+    await deleteWalletKeys(accountId)
+    await removeFromRegistry(accountId)
+    useWalletStore.getState().removeAccount(accountId)
+  }, [])
+
   /**
    * Sign a transaction (requires biometric)
    */
   const signTransaction = useCallback(
-    async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
+    async <T extends Transaction | VersionedTransaction>(tx: T, signerAccountId?: string): Promise<T> => {
       try {
         setError(null)
 
@@ -410,8 +542,8 @@ export function useNativeWallet(): UseNativeWalletReturn {
           } as NativeWalletError
         }
 
-        // Get private key for active account (biometric auth happens here)
-        const accountId = useWalletStore.getState().activeAccountId
+        // Get private key for the signing account (biometric auth happens here)
+        const accountId = signerAccountId ?? useWalletStore.getState().activeAccountId
         if (!accountId) {
           throw { code: "NO_WALLET", message: "No active account" } as NativeWalletError
         }
@@ -570,6 +702,8 @@ export function useNativeWallet(): UseNativeWalletReturn {
     importFromPrivateKey,
     exportMnemonic,
     deleteWallet: deleteWalletFn,
+    createDerivedAccount,
+    discardDerivedAccount,
 
     // Signing
     signTransaction,
@@ -0,0 +1,65 @@
+/**
+ * Outbox Hook
+ *
+ * Shielded sends composed while offline, for the active wallet and network.
+ * useOutboxSender submits them once connectivity returns.
+ */
+
+import { useCallback, useMemo } from "react"
+import { useOutboxStore } from "@/stores/outbox"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { composeOfflineSend, type OutboxEntry } from "@/lib/outbox"
+import type { PrivacyLevel } from "@/types"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QueueSendParams {
+  /** Stealth meta-address */
+  recipient: string
+  /** Amount in SOL */
+  amount: string
+  memo?: string
+  privacyLevel: PrivacyLevel
+}
+
+export interface UseOutboxReturn {
+  entries: OutboxEntry[]
+  /** Compose a shielded send locally and queue it */
+  queueSend: (params: QueueSendParams) => Promise<OutboxEntry>
+  retry: (id: string) => void
+  discard: (id: string) => void
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useOutbox(): UseOutboxReturn {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { entries: allEntries, addEntry, retryEntry, removeEntry } = useOutboxStore()
+
+  const entries = useMemo(
+    () => allEntries.filter((e) => e.walletAddress === address && e.network === network),
+    [allEntries, address, network]
+  )
+
+  const queueSend = useCallback(
+    async (params: QueueSendParams): Promise<OutboxEntry> => {
+      if (!address) throw new Error("Wallet not connected")
+
+      const entry = await composeOfflineSend({ ...params, walletAddress: address, network })
+      addEntry(entry)
+      return entry
+    },
+    [address, network, addEntry]
+  )
+
+  return useMemo(
+    () => ({ entries, queueSend, retry: retryEntry, discard: removeEntry }),
+    [entries, queueSend, retryEntry, removeEntry]
+  )
+}
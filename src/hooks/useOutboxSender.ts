@@ -0,0 +1,162 @@
+/**
+ * Outbox Sender Hook
+ *
+ * Submits queued offline sends once the RPC is reachable again: each is built
+ * with a fresh blockhash, shown for re-confirmation, signed and tracked. A send
+ * the user cancels (or that fails) is held until retried from the outbox.
+ *
+ * Mount once (tabs layout); screens use useOutbox.
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+import { AppState, type AppStateStatus } from "react-native"
+import { PublicKey } from "@solana/web3.js"
+import { useOutboxStore } from "@/stores/outbox"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { useToastStore } from "@/stores/toast"
+import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
+import { getConnection } from "@/lib/connection"
+import { getSipPrivacyClient, getSipPrivacyProgramId } from "@/lib/anchor"
+import { applyPriorityFee } from "@/lib/fees"
+import {
+  checkConnectivity,
+  isNetworkError,
+  toShieldedTransferParams,
+  type OutboxEntry,
+} from "@/lib/outbox"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+} from "@/services/transactionTracker"
+import type { PendingTransaction } from "@/types"
+import { debug, logger } from "@/utils/logger"
+
+/** How often to check connectivity while sends are queued */
+export const OUTBOX_RETRY_INTERVAL_MS = 15_000
+
+export function useOutboxSender(): void {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { signTransaction } = useNativeWallet()
+  const { approve } = useTransactionPreview()
+  const { addToast } = useToastStore()
+  const hydrated = useOutboxStore((state) => state._hasHydrated)
+  const queuedCount = useOutboxStore(
+    (state) =>
+      state.entries.filter(
+        (e) => e.status === "queued" && e.walletAddress === address && e.network === network
+      ).length
+  )
+
+  const flushingRef = useRef(false)
+  const appStateRef = useRef<AppStateStatus>(AppState.currentState)
+
+  const submitEntry = useCallback(
+    async (entry: OutboxEntry): Promise<void> => {
+      const { updateEntry, removeEntry } = useOutboxStore.getState()
+      const settings = useSettingsStore.getState()
+      const connection = getConnection(settings)
+
+      let pending: PendingTransaction
+      try {
+        // Built now: the TransferRecord PDA and blockhash come from the chain
+        const client = getSipPrivacyClient(connection, getSipPrivacyProgramId(entry.network))
+        const { transaction } = await client.buildShieldedTransfer(
+          new PublicKey(entry.walletAddress),
+          toShieldedTransferParams(entry)
+        )
+        await applyPriorityFee(connection, transaction, settings.getPriorityFeePreference())
+        await approve(transaction, { title: `Send queued ${entry.amount} SOL` })
+
+        const signedTx = await signTransaction(transaction)
+        if (!signedTx) {
+          throw new Error("Transaction signing rejected")
+        }
+
+        pending = await submitTrackedTransaction(connection, signedTx.serialize(), {
+          kind: "send",
+          network: entry.network,
+          payment: {
+            id: `payment_${Date.now()}`,
+            type: "send",
+            amount: entry.amount,
+            token: "SOL",
+            stealthAddress: entry.recipient,
+            timestamp: Date.now(),
+            privacyLevel: entry.privacyLevel,
+            network: entry.network,
+            walletAddress: entry.walletAddress,
+          },
+        })
+      } catch (err) {
+        // Still offline: leave it queued for the next attempt
+        if (isNetworkError(err)) throw err
+
+        const message = err instanceof Error ? err.message : "Send failed"
+        updateEntry(entry.id, { status: "held", lastError: message })
+        addToast({ type: "error", title: "Queued payment not sent", message })
+        return
+      }
+
+      // Broadcast: the transaction tracker owns it from here
+      removeEntry(entry.id)
+      try {
+        await confirmTrackedTransaction(connection, pending)
+        addToast({
+          type: "success",
+          title: "Queued payment sent",
+          message: `${entry.amount} SOL sent privately`,
+        })
+      } catch (err) {
+        logger.warn("Queued payment did not confirm:", err)
+      }
+    },
+    [approve, signTransaction, addToast]
+  )
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !address) return
+    flushingRef.current = true
+
+    try {
+      if (!(await checkConnectivity(getConnection(useSettingsStore.getState())))) {
+        debug("Outbox: still offline")
+        return
+      }
+
+      // One at a time: each needs its own confirmation
+      const queued = useOutboxStore
+        .getState()
+        .entries.filter(
+          (e) => e.status === "queued" && e.walletAddress === address && e.network === network
+        )
+      for (const entry of queued) {
+        await submitEntry(entry)
+      }
+    } catch (err) {
+      debug("Outbox flush interrupted:", err)
+    } finally {
+      flushingRef.current = false
+    }
+  }, [address, network, submitEntry])
+
+  useEffect(() => {
+    if (!hydrated || queuedCount === 0) return
+
+    flush()
+    const interval = setInterval(flush, OUTBOX_RETRY_INTERVAL_MS)
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (appStateRef.current.match(/inactive|background/) && nextState === "active") {
+        flush()
+      }
+      appStateRef.current = nextState
+    })
+
+    return () => {
+      clearInterval(interval)
+      subscription.remove()
+    }
+  }, [hydrated, queuedCount, flush])
+}
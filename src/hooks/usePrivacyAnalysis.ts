@@ -0,0 +1,169 @@
+/**
+ * Privacy Analysis Hook
+ *
+ * Scores the wallet from its observable activity: recent on-chain transfers,
+ * SNS names it owns and the local SIP payment history. Results feed the
+ * portfolio store (per-token scores and findings) for the portfolio and
+ * privacy score screens.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from "react"
+import * as SecureStore from "expo-secure-store"
+import { PublicKey, type Connection } from "@solana/web3.js"
+import { getAllDomains, reverseLookup } from "@bonfida/spl-name-service"
+import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { usePrivacyStore } from "@/stores/privacy"
+import { usePortfolioStore, type PortfolioToken } from "@/stores/portfolio"
+import { getConnection } from "@/lib/connection"
+import {
+  analyzeWalletExposure,
+  fetchWalletTransfers,
+  NATIVE_SOL_MINT,
+  type ExposureAnalysis,
+} from "@/lib/privacy-analysis"
+import { calculateTokenPrivacyScore } from "@/utils/privacyScore"
+import { useBalance } from "./useBalance"
+import { useTokenPrices } from "./useTokenPrices"
+import { getStoreKey } from "./useStealth"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsePrivacyAnalysisReturn {
+  /** Latest analysis (null until the first run completes) */
+  analysis: ExposureAnalysis | null
+  /** On-chain transactions inspected by the latest run */
+  analyzedTransactions: number
+  isAnalyzing: boolean
+  error: string | null
+  analyze: () => Promise<void>
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * .sol names owned by the wallet. A failed lookup is logged and treated as none.
+ */
+async function lookupSnsDomains(connection: Connection, walletAddress: string): Promise<string[]> {
+  try {
+    const records = await getAllDomains(connection, new PublicKey(walletAddress))
+    const names = await Promise.all(records.map((record: PublicKey) => reverseLookup(connection, record)))
+    return names.map((name: string) => `${name}.sol`)
+  } catch (err) {
+    debug("[PRIVACY] SNS lookup failed:", err)
+    return []
+  }
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function usePrivacyAnalysis(): UsePrivacyAnalysisReturn {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { balance, tokenBalances } = useBalance()
+  const { getPriceByMint } = useTokenPrices()
+  const { updateTokens, setFindings, setLoading } = usePortfolioStore()
+
+  // Keyed by the held mints, so a balance refresh only re-runs the analysis when they change
+  const heldMints = useMemo(
+    () =>
+      tokenBalances
+        .filter((t) => t.uiAmount > 0)
+        .map((t) => t.mint)
+        .join(","),
+    [tokenBalances]
+  )
+
+  const [analysis, setAnalysis] = useState<ExposureAnalysis | null>(null)
+  const [analyzedTransactions, setAnalyzedTransactions] = useState(0)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const analyze = useCallback(async () => {
+    if (!address) return
+
+    setIsAnalyzing(true)
+    setLoading(usePortfolioStore.getState().tokens.length === 0)
+    setError(null)
+
+    try {
+      const connection = getConnection(useSettingsStore.getState())
+      const [history, snsDomains, stealthKeys] = await Promise.all([
+        fetchWalletTransfers(connection, address),
+        lookupSnsDomains(connection, address),
+        SecureStore.getItemAsync(getStoreKey(address)),
+      ])
+
+      const result = analyzeWalletExposure({
+        transfers: history.transfers,
+        payments: usePrivacyStore
+          .getState()
+          .payments.filter((p) => !p.network || p.network === network),
+        snsDomains,
+        hasStealthAddress: stealthKeys !== null,
+        // Held tokens are scored even without history
+        mints: [NATIVE_SOL_MINT, ...(heldMints ? heldMints.split(",") : [])],
+      })
+
+      setAnalysis(result)
+      setAnalyzedTransactions(history.analyzedTransactions)
+      setFindings(result.findings)
+    } catch (err) {
+      debug("[PRIVACY] Analysis failed:", err)
+      setError(err instanceof Error ? err.message : "Privacy analysis failed")
+    } finally {
+      setIsAnalyzing(false)
+      setLoading(false)
+    }
+  }, [address, network, heldMints, setFindings, setLoading])
+
+  // Score every held token; balances and prices arrive independently of the analysis
+  useEffect(() => {
+    if (!analysis) return
+
+    const scoreFor = (mint: string) =>
+      calculateTokenPrivacyScore(
+        analysis.tokens[mint] ?? {
+          totalTransactions: 0,
+          shieldedTransactions: 0,
+          hasStealthAddress: analysis.tokens[NATIVE_SOL_MINT]?.hasStealthAddress ?? false,
+          balanceExposed: false,
+        }
+      )
+
+    const tokens: PortfolioToken[] = [
+      {
+        symbol: "SOL",
+        balance: balance.toString(),
+        balanceUsd: balance * getPriceByMint(NATIVE_SOL_MINT),
+        privacyScore: scoreFor(NATIVE_SOL_MINT),
+        mint: NATIVE_SOL_MINT,
+      },
+      ...tokenBalances
+        .filter((t) => t.uiAmount > 0)
+        .map((t) => ({
+          symbol: t.symbol || t.mint.slice(0, 4),
+          balance: t.uiAmount.toString(),
+          balanceUsd: t.uiAmount * getPriceByMint(t.mint),
+          privacyScore: scoreFor(t.mint),
+          mint: t.mint,
+        })),
+    ]
+    updateTokens(tokens)
+  }, [analysis, balance, tokenBalances, getPriceByMint, updateTokens])
+
+  return {
+    analysis,
+    analyzedTransactions,
+    isAnalyzing,
+    error,
+    analyze,
+  }
+}
@@ -21,6 +21,7 @@ import { useState, useEffect, useCallback, useMemo } from "react"
 import { useSettingsStore } from "@/stores/settings"
 import { useWalletStore } from "@/stores/wallet"
 import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
 import {
   initializeAdapter,
   type PrivacyProviderAdapter,
@@ -34,71 +35,10 @@ import {
   PRIVACY_PROVIDERS,
   getProviderInfo,
 } from "@/privacy-providers"
-import { getRpcApiKey } from "@/lib/config"
+import { getRpcClient } from "@/lib/rpc"
+import { getRpcConfigFromSettings } from "@/lib/connection"
 import { debug } from "@/utils/logger"
 
-// ============================================================================
-// RPC ENDPOINT HELPER
-// ============================================================================
-
-const HELIUS_ENDPOINTS: Record<string, string> = {
-  "mainnet-beta": "https://mainnet.helius-rpc.com",
-  devnet: "https://devnet.helius-rpc.com",
-  testnet: "https://api.testnet.solana.com",
-}
-
-const QUICKNODE_ENDPOINTS: Record<string, string> = {
-  "mainnet-beta": "https://solana-mainnet.quiknode.pro",
-  devnet: "https://solana-devnet.quiknode.pro",
-  testnet: "https://api.testnet.solana.com",
-}
-
-const PUBLICNODE_ENDPOINTS: Record<string, string> = {
-  "mainnet-beta": "https://solana-rpc.publicnode.com",
-  devnet: "https://api.devnet.solana.com",
-  testnet: "https://api.testnet.solana.com",
-}
-
-/**
- * Build RPC endpoint URL from settings
- */
-function buildRpcEndpoint(
-  provider: string,
-  network: string,
-  heliusApiKey: string | null,
-  quicknodeApiKey: string | null,
-  tritonEndpoint: string | null
-): string {
-  switch (provider) {
-    case "helius": {
-      const apiKey = heliusApiKey || getRpcApiKey("helius")
-      if (!apiKey) {
-        console.warn("Helius requires API key, falling back to PublicNode")
-        return PUBLICNODE_ENDPOINTS[network] || PUBLICNODE_ENDPOINTS.devnet
-      }
-      const baseUrl = HELIUS_ENDPOINTS[network] || HELIUS_ENDPOINTS.devnet
-      return `${baseUrl}/?api-key=${apiKey}`
-    }
-    case "quicknode": {
-      if (!quicknodeApiKey) {
-        console.warn("QuickNode requires API key, falling back to PublicNode")
-        return PUBLICNODE_ENDPOINTS[network] || PUBLICNODE_ENDPOINTS.devnet
-      }
-      const baseUrl = QUICKNODE_ENDPOINTS[network] || QUICKNODE_ENDPOINTS.devnet
-      return `${baseUrl}/${quicknodeApiKey}`
-    }
-    case "triton":
-      if (!tritonEndpoint) {
-        console.warn("Triton requires custom endpoint, falling back to PublicNode")
-        return PUBLICNODE_ENDPOINTS[network] || PUBLICNODE_ENDPOINTS.devnet
-      }
-      return tritonEndpoint
-    case "publicnode":
-    default:
-      return PUBLICNODE_ENDPOINTS[network] || PUBLICNODE_ENDPOINTS.devnet
-  }
-}
-
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -145,9 +85,12 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
     heliusApiKey,
     quicknodeApiKey,
     tritonEndpoint,
+    rpcProfiles,
+    activeRpcProfileIds,
   } = useSettingsStore()
   const { address: walletAddress, isConnected } = useWalletStore()
   const { signTransaction } = useNativeWallet()
+  const { approve } = useTransactionPreview()
 
   const [adapter, setAdapter] = useState<PrivacyProviderAdapter | null>(null)
   const [isReady, setIsReady] = useState(false)
@@ -157,10 +100,29 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
   // Provider info for UI
   const providerInfo = useMemo(() => getProviderInfo(privacyProvider), [privacyProvider])
 
-  // Build RPC endpoint from settings
-  const rpcEndpoint = useMemo(
-    () => buildRpcEndpoint(rpcProvider, network, heliusApiKey, quicknodeApiKey, tritonEndpoint),
-    [rpcProvider, network, heliusApiKey, quicknodeApiKey, tritonEndpoint]
+  // Shared RPC client for the selected providers (failover pool)
+  const rpcClient = useMemo(
+    () =>
+      getRpcClient(
+        getRpcConfigFromSettings({
+          rpcProvider,
+          network,
+          heliusApiKey,
+          quicknodeApiKey,
+          tritonEndpoint,
+          rpcProfiles,
+          activeRpcProfileIds,
+        })
+      ),
+    [
+      rpcProvider,
+      network,
+      heliusApiKey,
+      quicknodeApiKey,
+      tritonEndpoint,
+      rpcProfiles,
+      activeRpcProfileIds,
+    ]
   )
 
   // Initialize adapter when provider/network/wallet changes
@@ -174,7 +136,8 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
     const options: AdapterOptions = {
       network,
       walletAddress,
-      rpcEndpoint,
+      rpcEndpoint: rpcClient.getEndpoints()[0].url,
+      connection: rpcClient.getConnection(),
     }
 
     setIsInitializing(true)
@@ -194,11 +157,11 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
       .finally(() => {
         setIsInitializing(false)
       })
-  }, [privacyProvider, network, walletAddress, rpcEndpoint])
+  }, [privacyProvider, network, walletAddress, rpcClient])
 
-  // Wrapped sign transaction for adapters
+  // Wrapped sign transaction for adapters (previewed under `title`)
   const wrappedSignTransaction = useCallback(
-    async (tx: Uint8Array): Promise<Uint8Array | null> => {
+    async (tx: Uint8Array, title: string): Promise<Uint8Array | null> => {
       if (!signTransaction) {
         console.error("[PrivacyProvider] signTransaction not available")
         throw new Error("Wallet not connected")
@@ -216,6 +179,9 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
           throw new Error("Invalid transaction format")
         }
 
+        // Simulate and show what the transaction does before the wallet prompt
+        await approve(transaction, { title })
+
         debug("[PrivacyProvider] Requesting signature for transaction...")
         const signed = await signTransaction(transaction)
 
@@ -237,7 +203,7 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
         throw new Error("Failed to sign transaction")
       }
     },
-    [signTransaction]
+    [signTransaction, approve]
   )
 
   // Send method
@@ -254,7 +220,11 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
         return { success: false, error: "Wallet not connected" }
       }
 
-      return adapter.send(params, wrappedSignTransaction, onStatusChange)
+      return adapter.send(
+        params,
+        (tx) => wrappedSignTransaction(tx, "Review Send"),
+        onStatusChange
+      )
     },
     [adapter, isReady, isConnected, wrappedSignTransaction]
   )
@@ -273,7 +243,11 @@ export function usePrivacyProvider(): UsePrivacyProviderReturn {
         return { success: false, error: "Wallet not connected" }
       }
 
-      return adapter.swap(params, wrappedSignTransaction, onStatusChange)
+      return adapter.swap(
+        params,
+        (tx) => wrappedSignTransaction(tx, "Review Swap"),
+        onStatusChange
+      )
     },
     [adapter, isReady, isConnected, wrappedSignTransaction]
   )
@@ -0,0 +1,173 @@
+/**
+ * Private Balance Hook
+ *
+ * Answers "how much do I hold privately": unclaimed stealth payments
+ * (verified on-chain), private funds still settling and balances held by
+ * privacy providers, per token with USD values.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from "react"
+import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { usePrivacyStore } from "@/stores/privacy"
+import { getConnection } from "@/lib/connection"
+import {
+  aggregatePrivateBalances,
+  getPendingHoldings,
+  verifyStealthBalances,
+  type PrivateHolding,
+  type PrivateTokenBalance,
+  type StealthBalances,
+} from "@/lib/private-balance"
+import {
+  initializeAdapter,
+  PRIVACY_PROVIDERS,
+  type AdapterOptions,
+} from "@/privacy-providers"
+import { POPULAR_TOKENS, getToken } from "@/data/tokens"
+import { useTokenPrices } from "./useTokenPrices"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PrivateBalanceToken extends PrivateTokenBalance {
+  /** USD value of the total */
+  balanceUsd: number
+}
+
+export interface UsePrivateBalanceReturn {
+  /** Per-token private balances, largest total first */
+  tokens: PrivateBalanceToken[]
+  totalUsd: number
+  /** Unclaimed payments counted at their recorded amount (couldn't be verified) */
+  unverifiedPayments: number
+  isLoading: boolean
+  error: string | null
+  /** Re-verify stealth accounts and re-query providers */
+  refresh: () => Promise<void>
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Balances held by every available provider that reports one
+ *
+ * A provider that is blocked on mobile or fails to answer is skipped.
+ */
+async function fetchProviderHoldings(options: AdapterOptions): Promise<PrivateHolding[]> {
+  const holdings: PrivateHolding[] = []
+
+  for (const provider of PRIVACY_PROVIDERS) {
+    if (provider.id === "sip-native" || provider.status !== "available") continue
+
+    try {
+      const adapter = await initializeAdapter(provider.id, options)
+      if (!adapter.getPrivateBalance) continue
+
+      for (const symbol of POPULAR_TOKENS) {
+        const token = getToken(symbol)
+        const amount = await adapter.getPrivateBalance(symbol)
+        if (token && amount > 0) {
+          holdings.push({ source: "provider", mint: token.mint, symbol, amount, providerId: provider.id })
+        }
+      }
+    } catch (err) {
+      debug(`[PRIVATE BALANCE] ${provider.id} balance unavailable:`, err)
+    }
+  }
+
+  return holdings
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function usePrivateBalance(): UsePrivateBalanceReturn {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { payments } = usePrivacyStore()
+  const { getPriceByMint } = useTokenPrices()
+
+  const [stealth, setStealth] = useState<StealthBalances | null>(null)
+  const [providerHoldings, setProviderHoldings] = useState<PrivateHolding[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Legacy payments without network are treated as devnet
+  const networkPayments = useMemo(
+    () => payments.filter((p) => (p.network || "devnet") === network),
+    [payments, network]
+  )
+
+  const verifyStealth = useCallback(async () => {
+    const connection = getConnection(useSettingsStore.getState())
+    setStealth(await verifyStealthBalances(connection, networkPayments))
+  }, [networkPayments])
+
+  const loadProviders = useCallback(async () => {
+    if (!address) return
+    const options: AdapterOptions = {
+      network,
+      walletAddress: address,
+      connection: getConnection(useSettingsStore.getState()),
+    }
+    setProviderHoldings(await fetchProviderHoldings(options))
+  }, [address, network])
+
+  const run = useCallback(async (load: () => Promise<void>) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      await load()
+    } catch (err) {
+      debug("[PRIVATE BALANCE] Refresh failed:", err)
+      setError(err instanceof Error ? err.message : "Failed to load private balance")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const refresh = useCallback(
+    () => run(async () => {
+      await Promise.all([verifyStealth(), loadProviders()])
+    }),
+    [run, verifyStealth, loadProviders]
+  )
+
+  // Providers are queried on wallet/network change (and on refresh)
+  useEffect(() => {
+    setProviderHoldings([])
+    if (address) run(loadProviders)
+  }, [address, run, loadProviders])
+
+  // Stealth accounts are re-checked whenever payments are scanned or claimed
+  useEffect(() => {
+    if (address) run(verifyStealth)
+  }, [address, run, verifyStealth])
+
+  const tokens = useMemo(
+    () =>
+      aggregatePrivateBalances([
+        ...(stealth?.holdings ?? []),
+        ...getPendingHoldings(networkPayments),
+        ...providerHoldings,
+      ]).map((t) => ({ ...t, balanceUsd: t.total * getPriceByMint(t.mint) })),
+    [stealth, networkPayments, providerHoldings, getPriceByMint]
+  )
+
+  const totalUsd = useMemo(() => tokens.reduce((sum, t) => sum + t.balanceUsd, 0), [tokens])
+
+  return {
+    tokens,
+    totalUsd,
+    unverifiedPayments: stealth?.unverifiedPayments ?? 0,
+    isLoading,
+    error,
+    refresh,
+  }
+}
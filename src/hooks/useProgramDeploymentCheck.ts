@@ -0,0 +1,169 @@
+/**
+ * Program Deployment Check Hook
+ *
+ * On localnet, checks at startup that the sip_privacy program is loaded
+ * and its config PDA exists, and offers to call `initialize` when it
+ * doesn't. Hosted clusters are initialized by their deployer.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import { Alert } from "react-native"
+import { PublicKey, Transaction } from "@solana/web3.js"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { useToastStore } from "@/stores/toast"
+import { useNativeWallet } from "./useNativeWallet"
+import { getConnection } from "@/lib/connection"
+import {
+  getSipPrivacyClient,
+  getSipPrivacyProgramId,
+  type ProgramDeploymentStatus,
+  type SipPrivacyClient,
+} from "@/lib/anchor"
+import { debug, logger } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProgramCheckStatus = ProgramDeploymentStatus | "unreachable"
+
+export interface UseProgramDeploymentCheckReturn {
+  /** Last check result (null when not on localnet or not checked yet) */
+  status: ProgramCheckStatus | null
+  isChecking: boolean
+  isInitializing: boolean
+  /** Run the check again */
+  recheck: () => Promise<ProgramCheckStatus | null>
+  /** Call `initialize` with the active wallet as authority */
+  initialize: () => Promise<string | null>
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useProgramDeploymentCheck(): UseProgramDeploymentCheckReturn {
+  const { network, _hasHydrated } = useSettingsStore()
+  const { address } = useWalletStore()
+  const { signTransaction } = useNativeWallet()
+  const { addToast } = useToastStore()
+
+  const [status, setStatus] = useState<ProgramCheckStatus | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [isInitializing, setIsInitializing] = useState(false)
+
+  // Prompt once per network and wallet per session
+  const promptedRef = useRef(new Set<string>())
+
+  const getClient = useCallback((): SipPrivacyClient => {
+    const settings = useSettingsStore.getState()
+    return getSipPrivacyClient(getConnection(settings), getSipPrivacyProgramId(settings.network))
+  }, [])
+
+  const recheck = useCallback(async (): Promise<ProgramCheckStatus | null> => {
+    if (network !== "localnet") {
+      setStatus(null)
+      return null
+    }
+
+    setIsChecking(true)
+    try {
+      const result = await getClient().getDeploymentStatus()
+      debug("SIP Privacy deployment on localnet:", result)
+      setStatus(result)
+      return result
+    } catch (err) {
+      logger.warn("Localnet RPC unreachable:", err)
+      setStatus("unreachable")
+      return "unreachable"
+    } finally {
+      setIsChecking(false)
+    }
+  }, [network, getClient])
+
+  const initialize = useCallback(async (): Promise<string | null> => {
+    if (!address) return null
+
+    setIsInitializing(true)
+    try {
+      const client = getClient()
+      const transaction = await client.buildInitialize(new PublicKey(address))
+
+      const signedTx = await signTransaction(transaction)
+      if (!(signedTx instanceof Transaction)) {
+        throw new Error("Expected legacy Transaction, got VersionedTransaction")
+      }
+
+      const signature = await client.sendTransaction(signedTx)
+      setStatus("ready")
+      addToast({
+        type: "success",
+        title: "SIP Privacy initialized",
+        message: "Localnet is ready for shielded transfers",
+      })
+      return signature
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Initialize failed"
+      addToast({ type: "error", title: "Initialize failed", message })
+      return null
+    } finally {
+      setIsInitializing(false)
+    }
+  }, [address, getClient, signTransaction, addToast])
+
+  // Startup check
+  useEffect(() => {
+    if (!_hasHydrated || !address || network !== "localnet") {
+      setStatus(null)
+      return
+    }
+
+    const key = `${network}:${address}`
+    if (promptedRef.current.has(key)) return
+
+    let cancelled = false
+    recheck().then((result) => {
+      if (cancelled || !result || result === "ready") return
+      promptedRef.current.add(key)
+
+      if (result === "uninitialized") {
+        Alert.alert(
+          "Initialize SIP Privacy?",
+          "The program is loaded on localnet but its config account doesn't exist yet. " +
+            "Initialize it with this wallet as authority?",
+          [
+            { text: "Later", style: "cancel" },
+            { text: "Initialize", onPress: () => void initialize() },
+          ]
+        )
+      } else if (result === "not-deployed") {
+        addToast({
+          type: "warning",
+          title: "SIP Privacy not deployed",
+          message: `Load the program at ${getSipPrivacyProgramId(network).toBase58()} with solana-test-validator --bpf-program`,
+          duration: 10000,
+        })
+      } else {
+        addToast({
+          type: "error",
+          title: "Localnet unreachable",
+          message: "Start solana-test-validator, or assign an RPC profile for localnet",
+          duration: 10000,
+        })
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [_hasHydrated, address, network, recheck, initialize, addToast])
+
+  return {
+    status,
+    isChecking,
+    isInitializing,
+    recheck,
+    initialize,
+  }
+}
@@ -106,7 +106,7 @@ const DEBOUNCE_MS = 500
 /**
  * Fetch quote from Jupiter API
  */
-async function fetchJupiterQuote(
+export async function fetchJupiterQuote(
   fromToken: TokenInfo,
   toToken: TokenInfo,
   amount: string,
@@ -141,7 +141,7 @@ async function fetchJupiterQuote(
 /**
  * Convert Jupiter quote to our SwapQuote interface
  */
-function jupiterToSwapQuote(
+export function jupiterToSwapQuote(
   jupiterQuote: JupiterQuoteResponse,
   fromToken: TokenInfo,
   toToken: TokenInfo,
@@ -0,0 +1,94 @@
+/**
+ * Recipient Resolution Hook
+ *
+ * Runs the recipient resolution state machine for a free-form input:
+ * sip: URIs and base58 addresses are classified synchronously, .sol names
+ * are resolved to their SIP-STEALTH record after a short debounce.
+ *
+ * Same generation counter + unmount guard as the send screen's inline
+ * resolver, so a late SNS answer for an old input is discarded.
+ */
+
+import { useState, useEffect, useRef } from "react"
+import bs58 from "bs58"
+import { useSettingsStore } from "@/stores/settings"
+import { getConnection } from "@/lib/connection"
+import {
+  resolve as snsResolve,
+  MetaAddress,
+  NotFound,
+  Malformed,
+} from "@/lib/sns-stealth-mobile"
+import { classifyInput, type RecipientResolution } from "@/lib/recipient-resolution"
+import { logger } from "@/utils/logger"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** SNS lookup debounce (ms), matches the send screen */
+const RESOLVE_DEBOUNCE_MS = 350
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Resolve a recipient input as the user types
+ *
+ * @example
+ * ```tsx
+ * const resolution = useRecipientResolution(recipient)
+ * const uri = stealthTargetUri(resolution)
+ * ```
+ */
+export function useRecipientResolution(input: string): RecipientResolution {
+  const { network } = useSettingsStore()
+  const [resolution, setResolution] = useState<RecipientResolution>({ kind: "empty" })
+
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    const generation = ++generationRef.current
+    const initial = classifyInput(input)
+    setResolution(initial)
+
+    if (initial.kind !== "sns-resolving") return
+
+    const { domain } = initial
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await snsResolve(getConnection(useSettingsStore.getState()), domain)
+        if (cancelled || generationRef.current !== generation) return
+
+        if (result instanceof MetaAddress) {
+          const uri = `sip:solana:${bs58.encode(result.spending)}:${bs58.encode(result.viewing)}`
+          setResolution({ kind: "sns-resolved", domain, uri })
+        } else if (result instanceof NotFound) {
+          setResolution(
+            result.subject === "domain"
+              ? { kind: "sns-not-found-domain", domain }
+              : { kind: "sns-not-found-record", domain }
+          )
+        } else if (result instanceof Malformed) {
+          setResolution({ kind: "sns-malformed", domain, reason: result.reason })
+        } else {
+          setResolution({ kind: "sns-malformed", domain, reason: "unknown" })
+        }
+      } catch (err) {
+        if (cancelled || generationRef.current !== generation) return
+        logger.error("[RecipientResolution] SNS resolution error:", err)
+        setResolution({ kind: "sns-not-found-domain", domain })
+      }
+    }, RESOLVE_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [input, network])
+
+  return resolution
+}
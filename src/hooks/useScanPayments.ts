@@ -5,35 +5,48 @@
  * Implements EIP-5564 style scanning with Ed25519/secp256k1 support.
  *
  * Scanning process (canonical EIP-5564, view-only detection):
- * 1. Fetch transfer records from the SIP program
- * 2. For each record, compute the shared secret via ECDH on the viewing key
- *    (viewing private + spending public — the spending private key is not needed)
+ * 1. Fetch transfer records from the SIP program — only those created since the
+ *    wallet's persisted scan cursor, or all of them on the first / a full rescan
+ * 2. For each record and each active meta-address, compute the shared secret via
+ *    ECDH on the viewing key (viewing private + spending public — the spending
+ *    private key is not needed)
  * 3. Derive the expected stealth address: P = K_spend + H(S)*G
  * 4. Check if the derived address matches the record's stealth recipient
- * 5. If match, user owns this payment - decrypt amount and add to store
+ * 5. If match, user owns this payment - decrypt amount and add to store, tagged
+ *    with the meta-address that received it
+ * 6. Settle open payment requests whose reference key a received payment carried
+ *
+ * Claimed records the store doesn't know (e.g. after reinstalling) are checked too:
+ * funds claimed into the owner's own stealth addresses are re-derived from them.
  */
 
 import { useState, useCallback, useRef, useMemo } from "react"
 import * as SecureStore from "expo-secure-store"
-import { Connection, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { LAMPORTS_PER_SOL, type Connection } from "@solana/web3.js"
 import { usePrivacyStore } from "@/stores/privacy"
+import { usePaymentRequestsStore } from "@/stores/paymentRequests"
 import { useWalletStore } from "@/stores/wallet"
 import { useSettingsStore } from "@/stores/settings"
-import type { PaymentRecord, StealthKeysStorage } from "@/types"
+import type { PaymentRecord, StealthKeys, StealthKeysStorage } from "@/types"
 import {
   checkStealthAddress,
   bytesToHex,
   type StealthAddress,
 } from "@/lib/stealth"
+import type { TransferRecordData } from "@/lib/anchor/client"
+import { createTransferRecordSource } from "@/lib/record-sources"
+import { getConnection } from "@/lib/connection"
+import { getActiveKeyRecords } from "./useStealth"
 import {
-  fetchAllTransferRecords,
-  type TransferRecordData,
-} from "@/lib/anchor/client"
-import { decryptAmount, deriveSharedSecret } from "@/lib/anchor/crypto"
+  fetchTransferRecordsIncremental,
+  saveScanProgress,
+  clearScanCursor,
+} from "@/services/scanCursor"
+import { matchPaymentRequests } from "@/services/paymentRequestMatcher"
+import { recoverClaimDestinations } from "@/services/claimRecovery"
+import { decryptVerifiedAmount, deriveSharedSecret, type VerifiedAmount } from "@/lib/anchor/crypto"
 import { debug } from "@/utils/logger"
 import { ed25519 } from "@noble/curves/ed25519"
-import { sha256 } from "@noble/hashes/sha256"
-import { sha512 } from "@noble/hashes/sha512"
 
 // ============================================================================
 // TYPES
@@ -55,8 +68,11 @@ export interface ScanProgress {
 
 export interface ScanOptions {
   fromTimestamp?: number
+  /** Max records to check (defaults to all — full sweeps are checkpointed page by page) */
   limit?: number
   includeCompleted?: boolean
+  /** Ignore the saved scan cursor and re-check every transfer record */
+  fullRescan?: boolean
 }
 
 export interface UseScanPaymentsReturn {
@@ -70,6 +86,7 @@ export interface UseScanPaymentsReturn {
   scan: (options?: ScanOptions) => Promise<ScanResult>
   cancelScan: () => void
   getLastScanTime: () => number | null
+  resetScanCursor: () => Promise<void>
 }
 
 // ============================================================================
@@ -81,37 +98,42 @@ const LEGACY_STORE_KEY = "sip_stealth_keys"
 const BATCH_SIZE = 50
 const SCAN_DELAY_MS = 100 // Delay between batches for UI responsiveness
 
+/**
+ * Key set scanned for payments (one per meta-address)
+ */
+interface ScanKeySet extends StealthKeys {
+  /** Key record ID (null for legacy format) */
+  keyId: string | null
+  /** Archived key sets are only checked on full scans */
+  archived: boolean
+}
+
 /**
  * Load keys from storage (v3 wallet-scoped → v2 shared → v1 legacy)
- * Returns keys and activeKeyId (null for legacy format)
+ * Returns every active meta-address's key set, primary first, then the
+ * archived ones (e.g. restored from the seed phrase)
  */
-async function loadKeysFromStorage(walletAddress: string | null): Promise<{
-  viewingPrivateKey: string
-  spendingPrivateKey: string
-  viewingPublicKey: string
-  spendingPublicKey: string
-  activeKeyId: string | null
-} | null> {
+async function loadKeysFromStorage(walletAddress: string | null): Promise<ScanKeySet[]> {
   // Try v3 wallet-scoped format first
   if (walletAddress) {
     const storageV3 = await SecureStore.getItemAsync(`sip_stealth_keys_v3_${walletAddress}`)
     if (storageV3) {
       const storage = JSON.parse(storageV3) as StealthKeysStorage
-      if (storage.activeKeyId) {
-        const activeRecord = storage.records.find((r) => r.id === storage.activeKeyId)
-        if (activeRecord) {
-          return {
-            ...activeRecord.keys,
-            activeKeyId: activeRecord.id,
-          }
-        }
+      const active = getActiveKeyRecords(storage)
+      if (active.length > 0) {
+        const activeIds = new Set(active.map((r) => r.id))
+        return [
+          ...active
+            .sort((a, b) => Number(b.id === storage.activeKeyId) - Number(a.id === storage.activeKeyId))
+            .map((r) => ({ ...r.keys, keyId: r.id, archived: false })),
+          ...storage.records
+            .filter((r) => !activeIds.has(r.id))
+            .map((r) => ({ ...r.keys, keyId: r.id, archived: true })),
+        ]
       }
-      // No activeKeyId but has records — use the first
+      // No active key set but has records — use the first
       if (storage.records.length > 0) {
-        return {
-          ...storage.records[0].keys,
-          activeKeyId: storage.records[0].id,
-        }
+        return [{ ...storage.records[0].keys, keyId: storage.records[0].id, archived: false }]
       }
     }
   }
@@ -123,10 +145,7 @@ async function loadKeysFromStorage(walletAddress: string | null): Promise<{
     if (storage.activeKeyId) {
       const activeRecord = storage.records.find((r) => r.id === storage.activeKeyId)
       if (activeRecord) {
-        return {
-          ...activeRecord.keys,
-          activeKeyId: activeRecord.id,
-        }
+        return [{ ...activeRecord.keys, keyId: activeRecord.id, archived: false }]
       }
     }
   }
@@ -135,13 +154,10 @@ async function loadKeysFromStorage(walletAddress: string | null): Promise<{
   const legacy = await SecureStore.getItemAsync(LEGACY_STORE_KEY)
   if (legacy) {
     const keys = JSON.parse(legacy)
-    return {
-      ...keys,
-      activeKeyId: null,
-    }
+    return [{ ...keys, keyId: null, archived: false }]
   }
 
-  return null
+  return []
 }
 
 // ============================================================================
@@ -155,7 +171,7 @@ async function loadKeysFromStorage(walletAddress: string | null): Promise<{
  * spending PUBLIC key only — never the spending private key. Uses the stealth
  * library's checkStealthAddress which:
  * 1. Derives the shared secret via ECDH on the viewing key (viewing_scalar * R)
- * 2. Fast-rejects on the view tag (first byte of SHA256(S))
+ * 2. Fast-rejects on the record's view tag (first byte of SHA256(S)), if it has one
  * 3. Recomputes P_spend + H(S)*G and compares to the record's stealth recipient
  */
 function checkRecordOwnership(
@@ -179,31 +195,13 @@ function checkRecordOwnership(
     // Derive the spending PUBLIC key — the spending private key is never used to detect
     const spendingPublicKey = `0x${bytesToHex(ed25519.getPublicKey(hexToBytes(spendingPrivateKey)))}`
 
-    // Compute the canonical view tag from the viewing scalar so checkStealthAddress's
-    // fast-reject sees the right value: S = viewing_scalar * R, viewTag = SHA256(S)[0]
-    const viewingPrivBytes = hexToBytes(viewingPrivateKey)
-    const viewHash = sha512(viewingPrivBytes)
-    const viewScalar = new Uint8Array(32)
-    viewScalar.set(viewHash.slice(0, 32))
-    viewScalar[0] &= 248
-    viewScalar[31] &= 127
-    viewScalar[31] |= 64
-    let viewScalarBigInt = 0n
-    for (let i = viewScalar.length - 1; i >= 0; i--) {
-      viewScalarBigInt = (viewScalarBigInt << 8n) | BigInt(viewScalar[i])
-    }
-    const ED25519_ORDER = BigInt("0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed")
-    viewScalarBigInt = viewScalarBigInt % ED25519_ORDER
-
-    const ephemeralPoint = ed25519.ExtendedPoint.fromHex(ephemeralBytes)
-    const sharedSecretPoint = ephemeralPoint.multiply(viewScalarBigInt)
-    const viewTag = sha256(sharedSecretPoint.toRawBytes())[0]
-    debug("Computed view tag:", viewTag)
+    // View tag persisted in the record's ephemeral key prefix (undefined for legacy records)
+    debug("On-chain view tag:", record.viewTag)
 
     const stealthAddr: StealthAddress = {
       address: stealthHex,
       ephemeralPublicKey: ephemeralHex,
-      viewTag,
+      viewTag: record.viewTag,
     }
 
     const isOwner = checkStealthAddress(stealthAddr, viewingPrivateKey, spendingPublicKey)
@@ -219,16 +217,13 @@ function checkRecordOwnership(
 
 /**
  * Derive shared secret from ephemeral pubkey and spending private key
- * Then decrypt the amount
+ * Then decrypt the amount and check it against the record's commitment
  */
-function decryptRecordAmount(
+export function decryptRecordAmount(
   record: TransferRecordData,
   spendingPrivateKey: string
-): bigint | null {
+): VerifiedAmount | null {
   try {
-    // Import crypto utilities
-    const { deriveSharedSecret } = require("@/lib/anchor/crypto")
-
     // Get spending private key bytes
     const spendingBytes = hexToBytes(spendingPrivateKey)
 
@@ -238,8 +233,18 @@ function decryptRecordAmount(
     // Derive shared secret
     const sharedSecret = deriveSharedSecret(spendingBytes, ephemeralBytes)
 
-    // Decrypt amount
-    return decryptAmount(record.encryptedAmount, sharedSecret)
+    // Decrypt amount and verify it opens the commitment
+    const decrypted = decryptVerifiedAmount(
+      record.amountCommitment,
+      record.encryptedAmount,
+      sharedSecret
+    )
+    if (decrypted.verification === "mismatch") {
+      console.warn(
+        `[SCAN] Amount in ${record.pubkey.toBase58()} does not match its commitment - flagging as suspicious`
+      )
+    }
+    return decrypted
   } catch (err) {
     // Use warn instead of error to avoid red toast in dev mode
     // Fallback to RPC balance fetch will handle this gracefully
@@ -248,6 +253,79 @@ function decryptRecordAmount(
   }
 }
 
+/**
+ * Restore a claimed payment whose funds went to the owner's own stealth addresses
+ *
+ * Claims into own stealth addresses create no TransferRecord, so their funds are
+ * re-derived from the claimed record (see services/claimRecovery). Returns the claimed
+ * payment followed by a claimable payment per funded destination, or nothing when the
+ * funds were claimed somewhere else.
+ */
+async function recoverClaimedPayment(
+  connection: Connection,
+  record: TransferRecordData,
+  owner: ScanKeySet,
+  base: Pick<PaymentRecord, "privacyLevel" | "network" | "walletAddress">
+): Promise<PaymentRecord[]> {
+  const destinations = await recoverClaimDestinations(
+    connection,
+    owner,
+    record.stealthRecipient.toBase58(),
+    record.tokenMint
+  )
+  if (destinations.length === 0) return []
+
+  const { getTokenByMint } = await import("@/data/tokens")
+  const { getMintDecimals } = await import("@/lib/spl")
+  const tokenMint = record.tokenMint?.toBase58()
+  const decimals = record.tokenMint ? await getMintDecimals(connection, record.tokenMint) : 9
+  const token = tokenMint ? getTokenByMint(tokenMint)?.symbol ?? tokenMint.slice(0, 4) : "SOL"
+  const format = (units: bigint) =>
+    (Number(units) / Math.pow(10, decimals)).toFixed(decimals > 4 ? 4 : decimals)
+
+  const decrypted = decryptRecordAmount(record, owner.spendingPrivateKey)
+  const ephemeralHex = `0x${bytesToHex(record.ephemeralPubkey.slice(1))}`
+  const now = Date.now()
+  const common = {
+    ...base,
+    token,
+    keyId: owner.keyId ?? undefined,
+    tokenMint,
+    tokenDecimals: tokenMint ? decimals : undefined,
+  }
+
+  const claimed: PaymentRecord = {
+    ...common,
+    id: `payment_${now}_recovered`,
+    type: "receive",
+    amount: decrypted ? format(decrypted.amount) : "0",
+    status: "claimed",
+    stealthAddress: `sip:solana:${ephemeralHex}:${record.stealthRecipient.toBase58()}`,
+    txHash: record.pubkey.toBase58(),
+    timestamp: Number(record.timestamp) * 1000,
+    claimed: true,
+    amountVerification: decrypted?.verification,
+    claimDestination: { type: "stealth", address: destinations[0].address },
+  }
+
+  return [
+    claimed,
+    ...destinations.map(
+      (destination, i): PaymentRecord => ({
+        ...common,
+        id: `payment_${now}_recovered_${i}`,
+        type: "receive",
+        amount: format(destination.balance),
+        status: "completed",
+        stealthAddress: destination.stealthAddress,
+        timestamp: now,
+        claimed: false,
+        claimedFromPaymentId: claimed.id,
+      })
+    ),
+  ]
+}
+
 // Import hexToBytes from stealth
 function hexToBytes(hex: string): Uint8Array {
   const cleanHex = hex.startsWith("0x") ? hex.slice(2) : hex
@@ -264,7 +342,7 @@ function hexToBytes(hex: string): Uint8Array {
 
 export function useScanPayments(): UseScanPaymentsReturn {
   const { isConnected, address } = useWalletStore()
-  const { network, defaultPrivacyLevel } = useSettingsStore()
+  const { network, defaultPrivacyLevel, getRecordSource } = useSettingsStore()
   const {
     payments,
     addPayment,
@@ -286,6 +364,42 @@ export function useScanPayments(): UseScanPaymentsReturn {
 
   const cancelRef = useRef(false)
 
+  /**
+   * Mark open requests paid by received payments that carried their reference
+   * (payments that fall short are recorded on the request, which stays open).
+   * Best effort: unmatched requests are retried on the next scan.
+   */
+  const settlePaymentRequests = useCallback(
+    async (connection: Connection) => {
+      const requests = usePaymentRequestsStore
+        .getState()
+        .requests.filter((r) => r.walletAddress === address && r.network === network)
+      if (!requests.some((r) => r.status === "open")) return
+
+      try {
+        const received = usePrivacyStore
+          .getState()
+          .payments.filter((p) => !p.network || p.network === network)
+        const matches = await matchPaymentRequests(connection, requests, received)
+        for (const { requestId, paymentId, txSignature, issue } of matches) {
+          if (issue) {
+            usePaymentRequestsStore
+              .getState()
+              .recordRejectedPayment(requestId, { paymentId, txSignature, issue })
+            debug(`[SCAN] Payment ${paymentId} doesn't settle request ${requestId}: ${issue}`)
+          } else {
+            usePaymentRequestsStore.getState().markPaid(requestId, paymentId, txSignature)
+            debug(`[SCAN] Payment ${paymentId} settles request ${requestId}`)
+          }
+          updatePayment(paymentId, { paymentRequestId: requestId })
+        }
+      } catch (err) {
+        debug("[SCAN] Payment request matching failed:", err)
+      }
+    },
+    [address, network, updatePayment]
+  )
+
   const scan = useCallback(
     async (options: ScanOptions = {}): Promise<ScanResult> => {
       if (!isConnected) {
@@ -321,29 +435,23 @@ export function useScanPayments(): UseScanPaymentsReturn {
           message: "Loading stealth keys...",
         })
 
-        const keysData = await loadKeysFromStorage(address)
-        if (!keysData) {
+        const keySets = (await loadKeysFromStorage(address)).filter(
+          (k) => k.viewingPrivateKey && k.spendingPrivateKey
+        )
+        if (keySets.length === 0) {
           throw new Error("No stealth keys found. Generate an address first.")
         }
 
-        const { viewingPrivateKey, spendingPrivateKey, viewingPublicKey, spendingPublicKey, activeKeyId } = keysData
-
-        if (!viewingPrivateKey || !spendingPrivateKey) {
-          throw new Error("Stealth keys not found")
-        }
-
         // Debug: verify stored keys match derived public keys
-        debug("=== Stored keys debug ===")
-        debug("Spending pub (stored):", spendingPublicKey?.slice(0, 24) + "...")
-        debug("Viewing pub (stored):", viewingPublicKey?.slice(0, 24) + "...")
-
-        // Derive public keys from private keys to verify consistency
-        const spendPrivBytes = hexToBytes(spendingPrivateKey)
-        const viewPrivBytes = hexToBytes(viewingPrivateKey)
-        const derivedSpendPub = ed25519.getPublicKey(spendPrivBytes)
-        const derivedViewPub = ed25519.getPublicKey(viewPrivBytes)
-        debug("Spending pub (derived):", "0x" + bytesToHex(derivedSpendPub).slice(0, 20) + "...")
-        debug("Viewing pub (derived):", "0x" + bytesToHex(derivedViewPub).slice(0, 20) + "...")
+        debug(`=== Stored keys debug (${keySets.length} meta-address${keySets.length !== 1 ? "es" : ""}) ===`)
+        for (const keySet of keySets) {
+          const derivedSpendPub = ed25519.getPublicKey(hexToBytes(keySet.spendingPrivateKey))
+          const derivedViewPub = ed25519.getPublicKey(hexToBytes(keySet.viewingPrivateKey))
+          debug(`[${keySet.keyId}] Spending pub (stored):`, keySet.spendingPublicKey?.slice(0, 24) + "...")
+          debug(`[${keySet.keyId}] Spending pub (derived):`, "0x" + bytesToHex(derivedSpendPub).slice(0, 20) + "...")
+          debug(`[${keySet.keyId}] Viewing pub (stored):`, keySet.viewingPublicKey?.slice(0, 24) + "...")
+          debug(`[${keySet.keyId}] Viewing pub (derived):`, "0x" + bytesToHex(derivedViewPub).slice(0, 20) + "...")
+        }
         debug("=== End keys debug ===")
 
         // Check for cancellation
@@ -359,17 +467,21 @@ export function useScanPayments(): UseScanPaymentsReturn {
           message: "Fetching on-chain transfer records...",
         })
 
-        // Setup connection
-        const connection = new Connection(
-          network === "mainnet-beta"
-            ? "https://api.mainnet-beta.solana.com"
-            : "https://api.devnet.solana.com",
-          { commitment: "confirmed" }
+        // Shared connection (fails over when an RPC rate-limits mid-scan)
+        const connection = getConnection(useSettingsStore.getState())
+
+        // Fetch records created since the last scan (or all of them on a full rescan)
+        const source = createTransferRecordSource(getRecordSource(network), connection)
+        const { records, nextCursor, mode } = await fetchTransferRecordsIncremental(
+          source,
+          address,
+          network,
+          { fullRescan: options.fullRescan }
         )
+        debug(`Fetched ${records.length} transfer records from ${source.type} (${mode} scan)`)
 
-        // Fetch all transfer records from the SIP program
-        const records = await fetchAllTransferRecords(connection)
-        debug(`Fetched ${records.length} transfer records from chain`)
+        // Archived key sets only need checking when sweeping the whole history
+        const scanKeySets = mode === "full" ? keySets : keySets.filter((k) => !k.archived)
 
         // Filter by timestamp if provided
         const filteredRecords = options.fromTimestamp
@@ -379,17 +491,37 @@ export function useScanPayments(): UseScanPaymentsReturn {
           : records
 
         // Apply limit
-        const limit = options.limit || 100
-        const limitedRecords = filteredRecords.slice(0, limit)
+        const limitedRecords = options.limit
+          ? filteredRecords.slice(0, options.limit)
+          : filteredRecords
+
+        // Advance the cursor over the records checked so far. A full sweep saves the
+        // last one as a checkpoint, so the next scan carries on with the older records
+        // after it; an unfinished incremental scan is simply fetched again next time.
+        const commitCursor = async (processed: number) => {
+          if (!address) return
+          await saveScanProgress(
+            address,
+            network,
+            { records: filteredRecords, nextCursor, mode },
+            processed,
+            source.type
+          )
+        }
 
         const total = limitedRecords.length
 
         if (total === 0) {
+          await commitCursor(0)
+          await settlePaymentRequests(connection)
           setProgress({
             stage: "complete",
             current: 0,
             total: 0,
-            message: "No transfer records found on-chain",
+            message:
+              mode === "incremental"
+                ? "No new transfer records since last scan"
+                : "No transfer records found on-chain",
           })
           setLastScanResult(result)
           return result
@@ -439,6 +571,34 @@ export function useScanPayments(): UseScanPaymentsReturn {
                   claimedAt: Date.now(),
                 })
               }
+
+              // Unknown claimed payment of ours (storage lost): its funds may sit in
+              // our own stealth addresses, which no record announces
+              const claimedOwner =
+                !localPayment &&
+                scanKeySets.find((k) =>
+                  checkRecordOwnership(record, k.spendingPrivateKey, k.viewingPrivateKey)
+                )
+              if (claimedOwner) {
+                try {
+                  const recovered = await recoverClaimedPayment(connection, record, claimedOwner, {
+                    privacyLevel: defaultPrivacyLevel,
+                    network,
+                    walletAddress: address ?? undefined,
+                  })
+                  for (const payment of recovered) {
+                    if (payment.claimed) {
+                      addPayment(payment)
+                    } else if (!payments.some((p) => p.stealthAddress === payment.stealthAddress)) {
+                      result.found++
+                      result.newPayments.push(payment)
+                      addPayment(payment)
+                    }
+                  }
+                } catch (err) {
+                  debug("[SCAN] Claim destination recovery failed:", err)
+                }
+              }
               continue
             }
 
@@ -449,22 +609,22 @@ export function useScanPayments(): UseScanPaymentsReturn {
             }
 
             debug("[SCAN] Checking ownership...")
-            // Check ownership using stealth keys
-            const isOurs = checkRecordOwnership(
-              record,
-              spendingPrivateKey,
-              viewingPrivateKey
+            // Check ownership against every scanned meta-address
+            const owner = scanKeySets.find((k) =>
+              checkRecordOwnership(record, k.spendingPrivateKey, k.viewingPrivateKey)
             )
-            debug(`[SCAN] Ownership result: ${isOurs}`)
+            debug(`[SCAN] Ownership result: ${owner ? owner.keyId ?? "legacy" : false}`)
 
-            if (isOurs) {
+            if (owner) {
               result.found++
+              const { spendingPrivateKey } = owner
 
               const isSplToken = record.tokenMint !== null
               let amount = "0"
               let tokenSymbol = "SOL"
               let tokenMintStr: string | undefined
               let tokenDecimals: number | undefined
+              let amountVerification: PaymentRecord["amountVerification"]
 
               if (isSplToken) {
                 // SPL token: get balance from stealth ATA
@@ -483,9 +643,10 @@ export function useScanPayments(): UseScanPaymentsReturn {
                   tokenDecimals = decimals
 
                   // Try decryption first
-                  const decryptedAmount = decryptRecordAmount(record, spendingPrivateKey)
-                  if (decryptedAmount !== null) {
-                    amount = (Number(decryptedAmount) / Math.pow(10, decimals)).toFixed(
+                  const decrypted = decryptRecordAmount(record, spendingPrivateKey)
+                  if (decrypted !== null) {
+                    amountVerification = decrypted.verification
+                    amount = (Number(decrypted.amount) / Math.pow(10, decimals)).toFixed(
                       decimals > 4 ? 4 : decimals
                     )
                   } else {
@@ -504,9 +665,10 @@ export function useScanPayments(): UseScanPaymentsReturn {
                 }
               } else {
                 // SOL: existing logic
-                const decryptedAmount = decryptRecordAmount(record, spendingPrivateKey)
-                if (decryptedAmount !== null) {
-                  amount = (Number(decryptedAmount) / LAMPORTS_PER_SOL).toFixed(4)
+                const decrypted = decryptRecordAmount(record, spendingPrivateKey)
+                if (decrypted !== null) {
+                  amountVerification = decrypted.verification
+                  amount = (Number(decrypted.amount) / LAMPORTS_PER_SOL).toFixed(4)
                 } else {
                   debug("[SCAN] Decryption failed, fetching SOL balance from RPC...")
                   try {
@@ -540,10 +702,11 @@ export function useScanPayments(): UseScanPaymentsReturn {
                 timestamp: Number(record.timestamp) * 1000,
                 privacyLevel: defaultPrivacyLevel,
                 claimed: false,
-                keyId: activeKeyId ?? undefined,
+                keyId: owner.keyId ?? undefined,
                 network,
                 tokenMint: tokenMintStr,
                 tokenDecimals,
+                amountVerification,
               }
 
               result.newPayments.push(payment)
@@ -552,6 +715,9 @@ export function useScanPayments(): UseScanPaymentsReturn {
             }
           }
 
+          // Checkpoint each page, so a cancelled or failed sweep resumes after it
+          await commitCursor(i + batch.length)
+
           // Update progress
           setProgress({
             stage: "scanning",
@@ -564,6 +730,8 @@ export function useScanPayments(): UseScanPaymentsReturn {
           await new Promise((resolve) => setTimeout(resolve, SCAN_DELAY_MS))
         }
 
+        await settlePaymentRequests(connection)
+
         // Stage 4: Complete
         setProgress({
           stage: "complete",
@@ -605,13 +773,21 @@ export function useScanPayments(): UseScanPaymentsReturn {
         setScanning(false)
       }
     },
-    [isConnected, network, payments, addPayment, updatePayment, setScanning, setLastScanTimestamp]
+    [isConnected, address, network, getRecordSource, payments, addPayment, updatePayment, setScanning, setLastScanTimestamp, settlePaymentRequests]
   )
 
   const cancelScan = useCallback(() => {
     cancelRef.current = true
   }, [])
 
+  /**
+   * Forget the scan cursor so the next scan re-checks every transfer record
+   */
+  const resetScanCursor = useCallback(async (): Promise<void> => {
+    if (!address) return
+    await clearScanCursor(address, network)
+  }, [address, network])
+
   const getLastScanTime = useCallback((): number | null => {
     return lastScanTimestamp
   }, [lastScanTimestamp])
@@ -625,7 +801,8 @@ export function useScanPayments(): UseScanPaymentsReturn {
       scan,
       cancelScan,
       getLastScanTime,
+      resetScanCursor,
     }),
-    [isScanning, progress, lastScanResult, error, scan, cancelScan, getLastScanTime]
+    [isScanning, progress, lastScanResult, error, scan, cancelScan, getLastScanTime, resetScanCursor]
   )
 }
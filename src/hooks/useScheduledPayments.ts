@@ -0,0 +1,189 @@
+/**
+ * Scheduled Payments Hook
+ *
+ * Recurring shielded payments to contacts for the active wallet and network.
+ * The background task sends a reminder when one comes due; paying it goes
+ * through the privacy provider, so it is previewed and signed with biometrics.
+ */
+
+import { useCallback, useMemo, useState } from "react"
+import { useScheduledPaymentsStore } from "@/stores/scheduledPayments"
+import { useContactsStore } from "@/stores/contacts"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { usePrivacyProvider } from "./usePrivacyProvider"
+import {
+  requestNotificationPermissions,
+  syncBackgroundTask,
+} from "@/services/backgroundScan"
+import {
+  CONFIRMATION_PENDING_MESSAGE,
+  type PrivacySendResult,
+} from "@/privacy-providers"
+import {
+  getContactStealthAddress,
+  isScheduleDue,
+  validateSchedule,
+} from "@/utils/scheduledPayments"
+import type {
+  CreateScheduledPaymentInput,
+  ScheduledPayment,
+} from "@/types/scheduledPayments"
+import { logger } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NewScheduledPayment = Omit<CreateScheduledPaymentInput, "walletAddress" | "network">
+
+export interface UseScheduledPaymentsReturn {
+  /** Schedules of the active wallet and network */
+  schedules: ScheduledPayment[]
+  /** Schedules with a payment due now */
+  dueSchedules: ScheduledPayment[]
+  /** Schedule being paid, if any */
+  payingId: string | null
+  createSchedule: (input: NewScheduledPayment) => Promise<ScheduledPayment>
+  setPaused: (id: string, paused: boolean) => Promise<void>
+  removeSchedule: (id: string) => Promise<void>
+  /** Skip the due payment */
+  skip: (id: string) => void
+  /** Pay the due payment */
+  pay: (id: string) => Promise<PrivacySendResult>
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useScheduledPayments(): UseScheduledPaymentsReturn {
+  const { address } = useWalletStore()
+  const { network, getPriorityFeePreference } = useSettingsStore()
+  const allSchedules = useScheduledPaymentsStore((state) => state.schedules)
+  const { send } = usePrivacyProvider()
+
+  const [payingId, setPayingId] = useState<string | null>(null)
+
+  const schedules = useMemo(
+    () =>
+      allSchedules
+        .filter((s) => s.walletAddress === address && s.network === network)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt),
+    [allSchedules, address, network]
+  )
+  const dueSchedules = useMemo(() => schedules.filter((s) => isScheduleDue(s)), [schedules])
+
+  /**
+   * Keep the background task registered while any schedule is active
+   */
+  const syncReminders = useCallback(async () => {
+    const hasActive = useScheduledPaymentsStore
+      .getState()
+      .schedules.some((s) => s.status === "active")
+    await syncBackgroundTask(hasActive)
+  }, [])
+
+  const createSchedule = useCallback(
+    async (input: NewScheduledPayment): Promise<ScheduledPayment> => {
+      if (!address) throw new Error("Wallet not connected")
+
+      const validation = validateSchedule(input.amount, input.startAt, input.endAt)
+      if (!validation.isValid) throw new Error(validation.error)
+
+      const contact = useContactsStore.getState().contacts.find((c) => c.id === input.contactId)
+      if (!contact || !getContactStealthAddress(contact)) {
+        throw new Error("Contact has no stealth address")
+      }
+
+      const schedule = useScheduledPaymentsStore
+        .getState()
+        .addSchedule({ ...input, walletAddress: address, network })
+
+      // Reminders need notifications; the schedule is kept either way
+      await requestNotificationPermissions()
+      await syncReminders()
+      return schedule
+    },
+    [address, network, syncReminders]
+  )
+
+  const setPaused = useCallback(
+    async (id: string, paused: boolean) => {
+      useScheduledPaymentsStore.getState().setPaused(id, paused)
+      await syncReminders()
+    },
+    [syncReminders]
+  )
+
+  const removeSchedule = useCallback(
+    async (id: string) => {
+      useScheduledPaymentsStore.getState().removeSchedule(id)
+      await syncReminders()
+    },
+    [syncReminders]
+  )
+
+  const skip = useCallback((id: string) => {
+    useScheduledPaymentsStore.getState().skipRun(id)
+  }, [])
+
+  const pay = useCallback(
+    async (id: string): Promise<PrivacySendResult> => {
+      const store = useScheduledPaymentsStore.getState()
+      const schedule = store.getSchedule(id)
+      if (!schedule || !isScheduleDue(schedule)) {
+        return { success: false, error: "No payment due" }
+      }
+
+      const contact = useContactsStore.getState().contacts.find((c) => c.id === schedule.contactId)
+      const recipient = contact ? getContactStealthAddress(contact) : null
+      if (!contact || !recipient) {
+        const error = "Contact has no stealth address"
+        store.recordFailure(id, error)
+        return { success: false, error }
+      }
+
+      setPayingId(id)
+      try {
+        const result = await send({
+          amount: schedule.amount,
+          recipient,
+          privacyLevel: "shielded",
+          tokenMint: schedule.tokenMint,
+          priorityFee: getPriorityFeePreference(),
+        })
+
+        // Broadcast but unconfirmed: the transaction tracker settles it, don't pay twice
+        if (result.success || result.error === CONFIRMATION_PENDING_MESSAGE) {
+          store.recordRun(id, result.txHash ?? "")
+          useContactsStore.getState().recordPayment(contact.id)
+        } else {
+          store.recordFailure(id, result.error ?? "Payment failed")
+        }
+
+        await syncReminders()
+        return result
+      } catch (err) {
+        const error = err instanceof Error ? err.message : "Payment failed"
+        logger.warn("Scheduled payment failed:", err)
+        store.recordFailure(id, error)
+        return { success: false, error }
+      } finally {
+        setPayingId(null)
+      }
+    },
+    [send, getPriorityFeePreference, syncReminders]
+  )
+
+  return {
+    schedules,
+    dueSchedules,
+    payingId,
+    createSchedule,
+    setPaused,
+    removeSchedule,
+    skip,
+    pay,
+  }
+}
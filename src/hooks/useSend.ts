@@ -7,21 +7,30 @@
 
 import { useState, useCallback, useMemo } from "react"
 import { useWalletStore } from "@/stores/wallet"
-import { usePrivacyStore } from "@/stores/privacy"
 import { useSettingsStore } from "@/stores/settings"
 import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
+import { useOutbox } from "./useOutbox"
 import { useBalance } from "./useBalance"
 import { useTokenPrices } from "./useTokenPrices"
 import type { PrivacyLevel } from "@/types"
-import type { Transaction as SolanaTransaction } from "@solana/web3.js"
 import {
   generateStealthAddress,
   parseStealthMetaAddress,
   hexToBytes,
 } from "@/lib/stealth"
+import { getConnection } from "@/lib/connection"
+import { applyPriorityFee } from "@/lib/fees"
+import { checkConnectivity } from "@/lib/outbox"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+  type SubmitTrackedOptions,
+} from "@/services/transactionTracker"
 import { debug, logger } from "@/utils/logger"
 import {
   getSipPrivacyClient,
+  getSipPrivacyProgramId,
   type ShieldedTransferParams,
 } from "@/lib/anchor"
 
@@ -40,6 +49,8 @@ export interface SendResult {
   success: boolean
   txHash?: string
   error?: string
+  /** Composed offline and queued in the outbox (sent once back online) */
+  queued?: boolean
 }
 
 export type SendStatus =
@@ -49,6 +60,7 @@ export type SendStatus =
   | "signing"
   | "submitting"
   | "confirmed"
+  | "queued"
   | "error"
 
 export interface AddressValidation {
@@ -87,6 +99,8 @@ const STEALTH_PREFIX = "sip:"
 // Solana address regex (base58, 32-44 chars)
 const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
 
+const OFFLINE_QUEUED_MESSAGE = "You're offline. The payment is queued and will be sent when you're back online."
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -151,8 +165,9 @@ export function useSend(): UseSendReturn {
   const { isConnected, address: walletAddress } = useWalletStore()
   const { network } = useSettingsStore()
   const { signTransaction } = useNativeWallet()
+  const { approve } = useTransactionPreview()
+  const { queueSend } = useOutbox()
   const { balance } = useBalance()
-  const { addPayment } = usePrivacyStore()
   const { getPrice } = useTokenPrices()
 
   const [status, setStatus] = useState<SendStatus>("idle")
@@ -241,6 +256,20 @@ export function useSend(): UseSendReturn {
 
         setStatus("preparing")
 
+        const connection = getConnection(useSettingsStore.getState())
+
+        // Offline: compose the shielded send locally, submitted once back online
+        if (addressValidation.type === "stealth" && !(await checkConnectivity(connection))) {
+          await queueSend({
+            recipient: params.recipient,
+            amount: params.amount,
+            memo: params.memo,
+            privacyLevel: params.privacyLevel,
+          })
+          setStatus("queued")
+          return { success: false, queued: true, error: OFFLINE_QUEUED_MESSAGE }
+        }
+
         // Prepare transaction based on address type
         let recipientAddress = params.recipient
         let stealthData: { ephemeralPubKey: string; ephemeralPrivateKey: string } | null = null
@@ -269,19 +298,27 @@ export function useSend(): UseSendReturn {
 
         setStatus("signing")
 
-        // Setup connection
-        const { Connection, PublicKey } = await import("@solana/web3.js")
-
-        const connection = new Connection(
-          network === "mainnet-beta"
-            ? "https://api.mainnet-beta.solana.com"
-            : "https://api.devnet.solana.com",
-          { commitment: "confirmed" }
-        )
+        const { PublicKey } = await import("@solana/web3.js")
 
         const fromPubkey = new PublicKey(walletAddress)
         let txHash: string
 
+        // Recorded as pending on broadcast, settled by the transaction tracker
+        const track: SubmitTrackedOptions = {
+          kind: "send",
+          network,
+          payment: {
+            id: `payment_${Date.now()}`,
+            type: "send",
+            amount: params.amount,
+            token: "SOL",
+            stealthAddress: addressValidation.type === "stealth" ? params.recipient : undefined,
+            timestamp: Date.now(),
+            privacyLevel: params.privacyLevel,
+            network,
+          },
+        }
+
         // Use shielded transfer for stealth addresses, regular transfer otherwise
         if (addressValidation.type === "stealth" && stealthData) {
           // Parse stealth meta-address to get keys for encryption
@@ -291,7 +328,7 @@ export function useSend(): UseSendReturn {
           }
 
           // Get SIP Privacy client
-          const client = getSipPrivacyClient(connection)
+          const client = getSipPrivacyClient(connection, getSipPrivacyProgramId(network))
 
           // Build shielded transfer parameters
           // CRITICAL: Must pass the same ephemeral key used to derive stealthPubkey!
@@ -307,6 +344,12 @@ export function useSend(): UseSendReturn {
           // Build the shielded transfer transaction
           const { transaction, transferRecord } =
             await client.buildShieldedTransfer(fromPubkey, transferParams)
+          await applyPriorityFee(
+            connection,
+            transaction,
+            useSettingsStore.getState().getPriorityFeePreference()
+          )
+          await approve(transaction, { title: `Send ${params.amount} SOL` })
 
           // Sign the transaction
           const signedTx = await signTransaction(transaction)
@@ -324,7 +367,9 @@ export function useSend(): UseSendReturn {
 
           // Send the transaction
           try {
-            txHash = await client.sendTransaction(signedTx as SolanaTransaction)
+            const pending = await submitTrackedTransaction(connection, signedTx.serialize(), track)
+            await confirmTrackedTransaction(connection, pending)
+            txHash = pending.signature
             debug("Shielded transfer confirmed:", txHash)
             debug("Transfer record PDA:", transferRecord.toBase58())
           } catch (sendErr) {
@@ -352,9 +397,15 @@ export function useSend(): UseSendReturn {
           )
 
           // Get recent blockhash
-          const { blockhash } = await connection.getLatestBlockhash()
+          const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
           transaction.recentBlockhash = blockhash
           transaction.feePayer = fromPubkey
+          await applyPriorityFee(
+            connection,
+            transaction,
+            useSettingsStore.getState().getPriorityFeePreference()
+          )
+          await approve(transaction, { title: `Send ${params.amount} SOL` })
 
           const signedTx = await signTransaction(transaction)
           if (!signedTx) {
@@ -363,38 +414,19 @@ export function useSend(): UseSendReturn {
 
           setStatus("submitting")
 
-          // Send the transaction
-          const signature = await connection.sendRawTransaction(signedTx.serialize())
-
-          // Wait for confirmation
-          const { blockhash: confirmBlockhash, lastValidBlockHeight } =
-            await connection.getLatestBlockhash()
-          await connection.confirmTransaction({
-            signature,
-            blockhash: confirmBlockhash,
+          // Send the transaction and wait for confirmation
+          const pending = await submitTrackedTransaction(connection, signedTx.serialize(), {
+            ...track,
             lastValidBlockHeight,
           })
+          await confirmTrackedTransaction(connection, pending)
 
-          txHash = signature
+          txHash = pending.signature
         }
 
         setTxHash(txHash)
         setStatus("confirmed")
 
-        // Record payment in store
-        addPayment({
-          id: `payment_${Date.now()}`,
-          type: "send",
-          amount: params.amount,
-          token: "SOL",
-          status: "completed",
-          stealthAddress: addressValidation.type === "stealth" ? params.recipient : undefined,
-          txHash: txHash,
-          timestamp: Date.now(),
-          privacyLevel: params.privacyLevel,
-          network,
-        })
-
         return { success: true, txHash: txHash }
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Transaction failed"
@@ -403,7 +435,17 @@ export function useSend(): UseSendReturn {
         return { success: false, error: errorMessage }
       }
     },
-    [isConnected, walletAddress, balance, network, signTransaction, validateAddress, validateAmount, addPayment]
+    [
+      isConnected,
+      walletAddress,
+      balance,
+      network,
+      signTransaction,
+      approve,
+      queueSend,
+      validateAddress,
+      validateAmount,
+    ]
   )
 
   const reset = useCallback(() => {
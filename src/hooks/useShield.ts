@@ -0,0 +1,280 @@
+/**
+ * Shield Hook
+ *
+ * Moves a public token balance into private custody: the wallet sends it to
+ * fresh stealth addresses of its own primary meta-address through the SIP
+ * Privacy program (SOL or SPL). The amount can be split into randomized parts
+ * sent at randomized delays, so the deposits don't mirror the public balance.
+ * Each part is built, previewed and signed when it goes out rather than up
+ * front, so it targets the TransferRecord slot that is current at that time.
+ *
+ * The scanner later picks the transfers up as received payments, ready to claim.
+ */
+
+import { useState, useCallback, useRef } from "react"
+import { PublicKey, Transaction } from "@solana/web3.js"
+import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
+import { useStealth } from "./useStealth"
+import { useBalance } from "./useBalance"
+import { getConnection } from "@/lib/connection"
+import { applyPriorityFee } from "@/lib/fees"
+import { getMintDecimals } from "@/lib/spl"
+import { generateStealthAddress, parseStealthMetaAddress, hexToBytes } from "@/lib/stealth"
+import { getSipPrivacyClient, getSipPrivacyProgramId } from "@/lib/anchor"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+} from "@/services/transactionTracker"
+import { TOKENS, getTokenByMint } from "@/data/tokens"
+import { planShieldParts, parseBaseUnits, type ShieldPart } from "@/utils/shieldPlan"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShieldParams {
+  /** Token mint (TOKENS.SOL.mint for native SOL) */
+  mint: string
+  amount: string
+  /** Number of randomized parts (1 = a single transfer) */
+  parts: number
+  /** Wait a random delay between parts */
+  randomizeDelays: boolean
+}
+
+export interface ShieldResult {
+  success: boolean
+  /** Signatures of the parts that were sent */
+  txHashes: string[]
+  error?: string
+}
+
+export type ShieldStatus =
+  | "idle"
+  | "preparing"
+  | "approving"
+  | "waiting"
+  | "signing"
+  | "submitting"
+  | "done"
+  | "error"
+
+export interface ShieldProgress {
+  /** Parts confirmed so far */
+  completed: number
+  total: number
+  /** When the next part goes out (while waiting) */
+  nextPartAt: number | null
+}
+
+export interface UseShieldReturn {
+  status: ShieldStatus
+  progress: ShieldProgress
+  error: string | null
+  shield: (params: ShieldParams) => Promise<ShieldResult>
+  /** Stop before the next part (parts already sent stay shielded) */
+  cancel: () => void
+  reset: () => void
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Longest wait between parts when delays are randomized */
+export const MAX_SHIELD_DELAY_MS = 2 * 60 * 1000
+
+/** How often a wait between parts checks for cancellation */
+const CANCEL_POLL_MS = 1000
+
+const CANCELLED_ERROR = "Shielding cancelled"
+
+const INITIAL_PROGRESS: ShieldProgress = { completed: 0, total: 0, nextPartAt: null }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useShield(): UseShieldReturn {
+  const { address: walletAddress } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { signTransaction } = useNativeWallet()
+  const { approve } = useTransactionPreview()
+  const { stealthAddress } = useStealth()
+  const { balance, tokenBalances } = useBalance()
+
+  const [status, setStatus] = useState<ShieldStatus>("idle")
+  const [progress, setProgress] = useState<ShieldProgress>(INITIAL_PROGRESS)
+  const [error, setError] = useState<string | null>(null)
+  const cancelledRef = useRef(false)
+
+  const shield = useCallback(
+    async (params: ShieldParams): Promise<ShieldResult> => {
+      if (!walletAddress) {
+        return { success: false, txHashes: [], error: "Wallet not connected" }
+      }
+
+      cancelledRef.current = false
+      setStatus("preparing")
+      setProgress(INITIAL_PROGRESS)
+      setError(null)
+
+      const txHashes: string[] = []
+      try {
+        const metaAddress = stealthAddress && parseStealthMetaAddress(stealthAddress.full)
+        if (!stealthAddress || !metaAddress) {
+          throw new Error("Set up your stealth address before shielding")
+        }
+
+        const connection = getConnection(useSettingsStore.getState())
+        const isSol = params.mint === TOKENS.SOL.mint
+        const mintPubkey = new PublicKey(params.mint)
+        const decimals = isSol ? TOKENS.SOL.decimals : await getMintDecimals(connection, mintPubkey)
+        const held = isSol
+          ? balance
+          : tokenBalances.find((t) => t.mint === params.mint)?.uiAmount ?? 0
+        const symbol = isSol
+          ? "SOL"
+          : tokenBalances.find((t) => t.mint === params.mint)?.symbol ??
+            getTokenByMint(params.mint)?.symbol ??
+            "SPL"
+
+        if (parseBaseUnits(params.amount, decimals) > parseBaseUnits(held.toFixed(decimals), decimals)) {
+          throw new Error("Insufficient balance")
+        }
+
+        const plan: ShieldPart[] = planShieldParts(params.amount, {
+          parts: params.parts,
+          decimals,
+          maxDelayMs: params.randomizeDelays ? MAX_SHIELD_DELAY_MS : 0,
+        })
+
+        const client = getSipPrivacyClient(connection, getSipPrivacyProgramId(network))
+        const fromPubkey = new PublicKey(walletAddress)
+        const priorityFee = useSettingsStore.getState().getPriorityFeePreference()
+
+        const shieldId = `shield_${Date.now()}`
+        setProgress({ completed: 0, total: plan.length, nextPartAt: null })
+
+        for (let i = 0; i < plan.length; i++) {
+          if (plan[i].delayMs > 0) {
+            setStatus("waiting")
+            const sendAt = Date.now() + plan[i].delayMs
+            setProgress({ completed: i, total: plan.length, nextPartAt: sendAt })
+            while (Date.now() < sendAt && !cancelledRef.current) {
+              await sleep(Math.min(CANCEL_POLL_MS, sendAt - Date.now()))
+            }
+          }
+          if (cancelledRef.current) {
+            throw new Error(CANCELLED_ERROR)
+          }
+
+          // Build each part just before signing: its TransferRecord PDA is seeded
+          // with the global transfer counter, which moves as earlier parts (and
+          // anyone else's transfers) land
+          setStatus("preparing")
+          setProgress({ completed: i, total: plan.length, nextPartAt: null })
+          const { stealthAddress: oneTime, ephemeralPrivateKey } = await generateStealthAddress(metaAddress)
+          const common = {
+            amount: parseFloat(plan[i].amount),
+            stealthPubkey: new PublicKey(hexToBytes(oneTime.address)),
+            recipientSpendingKey: hexToBytes(metaAddress.spendingKey),
+            recipientViewingKey: hexToBytes(metaAddress.viewingKey),
+            ephemeralPrivateKey: hexToBytes(ephemeralPrivateKey),
+          }
+          const { transaction } = isSol
+            ? await client.buildShieldedTransfer(fromPubkey, common)
+            : await client.buildShieldedTokenTransfer(fromPubkey, {
+                ...common,
+                decimals,
+                tokenMint: mintPubkey,
+              })
+          await applyPriorityFee(connection, transaction, priorityFee)
+          const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
+          transaction.recentBlockhash = blockhash
+
+          setStatus("approving")
+          await approve(transaction, {
+            title:
+              plan.length > 1
+                ? `Shield ${plan[i].amount} ${symbol} (part ${i + 1} of ${plan.length})`
+                : `Shield ${params.amount} ${symbol}`,
+          })
+
+          setStatus("signing")
+          const signedTx = await signTransaction(transaction)
+          if (!(signedTx instanceof Transaction)) {
+            throw new Error("Transaction signing rejected")
+          }
+
+          setStatus("submitting")
+          const pending = await submitTrackedTransaction(connection, signedTx.serialize(), {
+            kind: "send",
+            network,
+            lastValidBlockHeight,
+            payment: {
+              id: `payment_${Date.now()}_shield_${i}`,
+              type: "send",
+              amount: plan[i].amount,
+              token: symbol,
+              tokenMint: isSol ? undefined : params.mint,
+              tokenDecimals: isSol ? undefined : decimals,
+              stealthAddress: stealthAddress.full,
+              timestamp: Date.now(),
+              privacyLevel: "shielded",
+              network,
+              walletAddress,
+              shieldId,
+            },
+          })
+          await confirmTrackedTransaction(connection, pending)
+
+          txHashes.push(pending.signature)
+          debug(`Shielded part ${i + 1}/${plan.length}:`, pending.signature)
+          setProgress({ completed: i + 1, total: plan.length, nextPartAt: null })
+        }
+
+        setStatus("done")
+        return { success: true, txHashes }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Shielding failed"
+        setError(message)
+        setStatus("error")
+        return { success: false, txHashes, error: message }
+      }
+    },
+    [walletAddress, network, stealthAddress, balance, tokenBalances, signTransaction, approve]
+  )
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true
+  }, [])
+
+  const reset = useCallback(() => {
+    cancelledRef.current = false
+    setStatus("idle")
+    setProgress(INITIAL_PROGRESS)
+    setError(null)
+  }, [])
+
+  return {
+    status,
+    progress,
+    error,
+    shield,
+    cancel,
+    reset,
+  }
+}
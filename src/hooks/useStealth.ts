@@ -6,6 +6,14 @@
  *
  * Based on EIP-5564 style stealth addresses adapted for Solana.
  *
+ * A wallet can hold several active meta-addresses at once, each with a
+ * label (e.g. "Payroll", "Donations"). All of them are scanned; the primary
+ * one is shown by default.
+ *
+ * With deterministic stealth keys enabled, new meta-addresses are derived
+ * from the wallet mnemonic (see getStealthDerivationPath), so restoring the
+ * seed phrase restores them; random keys need a .sip-backup file.
+ *
  * IMPORTANT: Keys are NEVER deleted - only archived when regenerated.
  * This prevents fund loss from orphaned payments. (#72)
  */
@@ -14,12 +22,18 @@ import { useState, useCallback, useEffect, useMemo } from "react"
 import * as SecureStore from "expo-secure-store"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { getMnemonicForAccount } from "@/utils/keyStorage"
 import {
   generateStealthKeys,
+  deriveStealthKeysFromMnemonic,
   formatStealthMetaAddress,
   ed25519PublicKeyToSolanaAddress,
+  hexToBytes,
   type StealthMetaAddress,
 } from "@/lib/stealth"
+import type { TransferRecordData } from "@/lib/anchor/client"
+import { checkRecordOwnership } from "@/services/recordOwnership"
 import type {
   StealthKeys,
   StealthKeysRecord,
@@ -42,10 +56,27 @@ export interface StealthAddress {
   solanaAddress: string // Base58 Solana address derived from stealth
 }
 
+/**
+ * Labelled meta-address (an active key set)
+ */
+export interface MetaAddress {
+  /** Key record ID (PaymentRecord.keyId of payments it received) */
+  id: string
+  label: string
+  address: StealthAddress
+  createdAt: number
+  /** Shown by default and used for self-payments */
+  isPrimary: boolean
+}
+
 export interface UseStealthReturn {
   // State
+  /** Primary meta-address */
   stealthAddress: StealthAddress | null
+  /** Key record ID of the primary meta-address */
   activeKeyId: string | null
+  /** All active meta-addresses, oldest first */
+  metaAddresses: MetaAddress[]
   isGenerating: boolean
   isLoading: boolean
   error: string | null
@@ -53,6 +84,14 @@ export interface UseStealthReturn {
   // Actions
   generateNewAddress: () => Promise<StealthAddress | null>
   regenerateAddress: () => Promise<StealthAddress | null>
+  /** Create another meta-address (throws on an empty or duplicate label) */
+  addMetaAddress: (label: string) => Promise<MetaAddress>
+  /** Rename a meta-address (throws on an empty or duplicate label) */
+  renameMetaAddress: (keyId: string, label: string) => Promise<void>
+  /** Archive a meta-address; its payments stay claimable (throws for the last one) */
+  archiveMetaAddress: (keyId: string) => Promise<void>
+  /** Make a meta-address the primary one */
+  selectMetaAddress: (keyId: string) => Promise<void>
   getKeys: () => Promise<StealthKeys | null>
   getActiveKeyId: () => string | null
   formatForDisplay: (address: StealthAddress) => string
@@ -67,6 +106,15 @@ const LEGACY_STORE_KEY = "sip_stealth_keys" // For v1 migration
 const SIP_CHAIN = "solana"
 const NEEDS_BACKUP_KEY_PREFIX = "sip_stealth_needs_backup"
 
+/** Label of meta-addresses created before labels existed */
+export const DEFAULT_META_ADDRESS_LABEL = "Main"
+
+/**
+ * Unused derivation indexes in a row after which a seed phrase restore stops
+ * looking for more key sets
+ */
+export const STEALTH_RECOVERY_GAP_LIMIT = 5
+
 /**
  * Generate wallet-scoped storage key
  * Exported for use by useClaim hook (avoid duplicating key format)
@@ -287,6 +335,280 @@ export async function importStealthStorage(
   }
 }
 
+// ============================================================================
+// META-ADDRESS HELPERS
+// ============================================================================
+
+/**
+ * Active key sets (meta-addresses that receive payments), oldest first
+ */
+export function getActiveKeyRecords(storage: StealthKeysStorage): StealthKeysRecord[] {
+  const active = storage.records.filter((r) => r.isActive)
+  if (active.length > 0) return active
+
+  const primary = storage.records.find((r) => r.id === storage.activeKeyId)
+  return primary ? [primary] : []
+}
+
+/**
+ * Display label of a key set
+ */
+export function getMetaAddressLabel(record: StealthKeysRecord): string {
+  return record.label ?? DEFAULT_META_ADDRESS_LABEL
+}
+
+/**
+ * Trim a label and check no other active meta-address uses it
+ */
+function validateLabel(storage: StealthKeysStorage | null, label: string, keyId?: string): string {
+  const trimmed = label.trim()
+  if (!trimmed) {
+    throw new Error("Label is required")
+  }
+
+  const taken = storage
+    ? getActiveKeyRecords(storage).some(
+        (r) => r.id !== keyId && getMetaAddressLabel(r).toLowerCase() === trimmed.toLowerCase()
+      )
+    : false
+  if (taken) {
+    throw new Error(`A meta-address named "${trimmed}" already exists`)
+  }
+
+  return trimmed
+}
+
+/**
+ * Next unused index on the SIP stealth derivation path
+ */
+export function getNextDerivationIndex(storage: StealthKeysStorage | null): number {
+  const used = (storage?.records ?? [])
+    .map((r) => r.derivationIndex)
+    .filter((i): i is number => i !== undefined)
+  return used.length > 0 ? Math.max(...used) + 1 : 0
+}
+
+/**
+ * Generate a new meta-address and store it next to the existing ones
+ *
+ * Becomes primary when there is none yet, or when it replaces the primary.
+ *
+ * @param replaceKeyId - Key set archived in its place (regeneration)
+ * @param mnemonic - Derive the keys from this seed phrase at the next
+ *   derivation index instead of generating them randomly
+ */
+export async function addMetaAddress(
+  walletAddress: string,
+  label: string,
+  replaceKeyId?: string | null,
+  mnemonic?: string | null
+): Promise<StealthKeysRecord> {
+  const storage: StealthKeysStorage = (await loadStorage(walletAddress)) ?? {
+    version: 1,
+    activeKeyId: null,
+    records: [],
+  }
+  const validLabel = validateLabel(storage, label, replaceKeyId ?? undefined)
+
+  const now = Date.now()
+  let keyId = `keys_${now}`
+  for (let i = 1; storage.records.some((r) => r.id === keyId); i++) {
+    keyId = `keys_${now}_${i}`
+  }
+
+  const derivationIndex = mnemonic ? getNextDerivationIndex(storage) : undefined
+  const newRecord: StealthKeysRecord = {
+    id: keyId,
+    label: validLabel,
+    keys:
+      mnemonic && derivationIndex !== undefined
+        ? deriveStealthKeysFromMnemonic(mnemonic, derivationIndex)
+        : await generateStealthKeys(),
+    createdAt: now,
+    archivedAt: null,
+    isActive: true,
+    ...(derivationIndex !== undefined && { derivationIndex }),
+  }
+
+  storage.records = storage.records.map((r) =>
+    r.id === replaceKeyId && r.isActive ? { ...r, isActive: false, archivedAt: now } : r
+  )
+  storage.records.push(newRecord)
+
+  const primaryIsActive = storage.records.some((r) => r.id === storage.activeKeyId && r.isActive)
+  if (!primaryIsActive) {
+    storage.activeKeyId = keyId
+  }
+
+  await saveStorage(walletAddress, storage)
+  debug(`Added meta-address "${validLabel}" (${keyId})`)
+  return newRecord
+}
+
+/**
+ * Rename an active meta-address
+ */
+export async function renameMetaAddress(
+  walletAddress: string,
+  keyId: string,
+  label: string
+): Promise<void> {
+  const storage = await loadStorage(walletAddress)
+  const record = storage ? getActiveKeyRecords(storage).find((r) => r.id === keyId) : undefined
+  if (!storage || !record) {
+    throw new Error("Meta-address not found")
+  }
+
+  record.label = validateLabel(storage, label, keyId)
+  await saveStorage(walletAddress, storage)
+}
+
+/**
+ * Archive an active meta-address
+ *
+ * Its keys are kept so past payments remain claimable. The last active
+ * meta-address cannot be archived; use regeneration to replace it.
+ */
+export async function archiveMetaAddress(walletAddress: string, keyId: string): Promise<void> {
+  const storage = await loadStorage(walletAddress)
+  const active = storage ? getActiveKeyRecords(storage) : []
+  if (!storage || !active.some((r) => r.id === keyId)) {
+    throw new Error("Meta-address not found")
+  }
+  if (active.length === 1) {
+    throw new Error("Cannot archive the only meta-address")
+  }
+
+  const now = Date.now()
+  storage.records = storage.records.map((r) =>
+    r.id === keyId ? { ...r, isActive: false, archivedAt: now } : r
+  )
+  if (storage.activeKeyId === keyId) {
+    storage.activeKeyId = active.find((r) => r.id !== keyId)!.id
+  }
+
+  await saveStorage(walletAddress, storage)
+}
+
+/**
+ * Make an active meta-address the primary one
+ */
+export async function setPrimaryMetaAddress(walletAddress: string, keyId: string): Promise<void> {
+  const storage = await loadStorage(walletAddress)
+  if (!storage || !getActiveKeyRecords(storage).some((r) => r.id === keyId)) {
+    throw new Error("Meta-address not found")
+  }
+
+  storage.activeKeyId = keyId
+  await saveStorage(walletAddress, storage)
+}
+
+/**
+ * Derivation indexes of a seed phrase that received payments
+ *
+ * Walks the derivation path from index 0 and stops once `gapLimit` indexes
+ * in a row own none of the records.
+ */
+export function findUsedDerivationIndexes(
+  mnemonic: string,
+  records: TransferRecordData[],
+  gapLimit: number = STEALTH_RECOVERY_GAP_LIMIT
+): number[] {
+  const used: number[] = []
+  for (let index = 0, gap = 0; gap < gapLimit; index++) {
+    const keys = deriveStealthKeysFromMnemonic(mnemonic, index)
+    const viewingPrivateKey = hexToBytes(keys.viewingPrivateKey)
+    const spendingPublicKey = hexToBytes(keys.spendingPublicKey)
+    if (records.some((r) => checkRecordOwnership(r, viewingPrivateKey, spendingPublicKey))) {
+      used.push(index)
+      gap = 0
+    } else {
+      gap++
+    }
+  }
+  return used
+}
+
+/**
+ * Restore the deterministic stealth keys of a seed phrase
+ *
+ * Adds the missing key sets that received payments (see
+ * findUsedDerivationIndexes); unused indexes stay free for new meta-addresses.
+ * Index 0 becomes an active meta-address (primary if there is none), and is
+ * added unused too when the wallet has no meta-address yet. The others are
+ * archived, which keeps them claimable and covered by full scans.
+ * Labels are not part of the seed and come back as defaults.
+ *
+ * @param records - every transfer record on the network, to look for payments in
+ * @param gapLimit - unused indexes in a row that end the search
+ * @returns number of key sets added
+ */
+export async function restoreDeterministicStealthKeys(
+  walletAddress: string,
+  mnemonic: string,
+  records: TransferRecordData[],
+  gapLimit: number = STEALTH_RECOVERY_GAP_LIMIT
+): Promise<number> {
+  const storage: StealthKeysStorage = (await loadStorage(walletAddress)) ?? {
+    version: 1,
+    activeKeyId: null,
+    records: [],
+  }
+
+  const indexes = findUsedDerivationIndexes(mnemonic, records, gapLimit)
+  if (!indexes.includes(0) && getActiveKeyRecords(storage).length === 0) {
+    indexes.unshift(0)
+  }
+
+  const now = Date.now()
+  let added = 0
+  for (const index of indexes) {
+    const keys = deriveStealthKeysFromMnemonic(mnemonic, index)
+    const exists = storage.records.some(
+      (r) => r.derivationIndex === index || r.keys.spendingPublicKey === keys.spendingPublicKey
+    )
+    if (exists) continue
+
+    const isActive = index === 0
+    const labelTaken = getActiveKeyRecords(storage).some(
+      (r) => getMetaAddressLabel(r).toLowerCase() === DEFAULT_META_ADDRESS_LABEL.toLowerCase()
+    )
+    storage.records.push({
+      id: `keys_${now}_d${index}`,
+      label: isActive && !labelTaken ? DEFAULT_META_ADDRESS_LABEL : `Address ${index + 1}`,
+      keys,
+      createdAt: now,
+      archivedAt: isActive ? null : now,
+      isActive,
+      derivationIndex: index,
+    })
+    added++
+  }
+
+  if (added === 0) return 0
+
+  const primaryIsActive = storage.records.some((r) => r.id === storage.activeKeyId && r.isActive)
+  if (!primaryIsActive) {
+    storage.activeKeyId = getActiveKeyRecords(storage)[0]?.id ?? null
+  }
+
+  await saveStorage(walletAddress, storage)
+  debug(`Restored ${added} deterministic stealth key set(s)`)
+  return added
+}
+
+/**
+ * Seed phrase to derive new stealth keys from, when deterministic keys are
+ * enabled and the active account has one (null means random keys)
+ */
+async function getDerivationMnemonic(): Promise<string | null> {
+  if (!useSettingsStore.getState().deterministicStealthKeys) return null
+
+  const { activeAccountId } = useWalletStore.getState()
+  if (!activeAccountId) return null
+  return getMnemonicForAccount(activeAccountId)
+}
+
 // ============================================================================
 // ADDRESS HELPERS
 // ============================================================================
@@ -328,11 +650,37 @@ export function useStealth(): UseStealthReturn {
 
   const [stealthAddress, setStealthAddress] = useState<StealthAddress | null>(null)
   const [activeKeyId, setActiveKeyId] = useState<string | null>(null)
+  const [metaAddresses, setMetaAddresses] = useState<MetaAddress[]>([])
   const [keys, setKeys] = useState<StealthKeys | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  /**
+   * Mirror stored meta-addresses into state
+   *
+   * @returns false if there is no active key set
+   */
+  const applyStorage = useCallback((storage: StealthKeysStorage | null): boolean => {
+    const active = storage ? getActiveKeyRecords(storage) : []
+    if (active.length === 0) return false
+
+    const primary = active.find((r) => r.id === storage!.activeKeyId) ?? active[0]
+    const list = active.map((r) => ({
+      id: r.id,
+      label: getMetaAddressLabel(r),
+      address: formatStealthAddress(SIP_CHAIN, r.keys.spendingPublicKey, r.keys.viewingPublicKey),
+      createdAt: r.createdAt,
+      isPrimary: r.id === primary.id,
+    }))
+
+    setMetaAddresses(list)
+    setKeys(primary.keys)
+    setActiveKeyId(primary.id)
+    setStealthAddress(list.find((m) => m.isPrimary)!.address)
+    return true
+  }, [])
+
   const loadOrGenerateKeys = useCallback(async (walletAddress: string) => {
     setIsLoading(true)
     setError(null)
@@ -356,24 +704,8 @@ export function useStealth(): UseStealthReturn {
         }
       }
 
-      if (storage && storage.activeKeyId) {
-        const activeRecord = storage.records.find(
-          (r) => r.id === storage!.activeKeyId
-        )
-
-        if (activeRecord) {
-          setKeys(activeRecord.keys)
-          setActiveKeyId(activeRecord.id)
-
-          // Generate address from stored keys
-          const addr = formatStealthAddress(
-            SIP_CHAIN,
-            activeRecord.keys.spendingPublicKey,
-            activeRecord.keys.viewingPublicKey
-          )
-          setStealthAddress(addr)
-          return
-        }
+      if (applyStorage(storage)) {
+        return
       }
 
       // No keys found, generate new ones
@@ -384,7 +716,7 @@ export function useStealth(): UseStealthReturn {
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [applyStorage])
 
   // Load or generate keys on mount and when wallet changes
   useEffect(() => {
@@ -392,12 +724,16 @@ export function useStealth(): UseStealthReturn {
       loadOrGenerateKeys(address)
     } else {
       setStealthAddress(null)
+      setMetaAddresses([])
       setKeys(null)
       setActiveKeyId(null)
       setIsLoading(false)
     }
   }, [isConnected, address, loadOrGenerateKeys])
 
+  /**
+   * Generate a key set replacing the primary one (or the first one)
+   */
   const generateNewAddressInternal = useCallback(async (walletAddr?: string): Promise<StealthAddress | null> => {
     const targetAddress = walletAddr || address
     if (!targetAddress) {
@@ -409,55 +745,25 @@ export function useStealth(): UseStealthReturn {
     setError(null)
 
     try {
-      // Generate new stealth keys using real cryptography
-      const newKeys = await generateStealthKeys()
-      const keyId = `keys_${Date.now()}`
-
-      // Create new key record
-      const newRecord: StealthKeysRecord = {
-        id: keyId,
-        keys: newKeys,
-        createdAt: Date.now(),
-        archivedAt: null,
-        isActive: true,
-      }
-
-      // Load or create storage
-      let storage = await loadStorage(targetAddress)
-
-      if (storage) {
-        // Archive all currently active keys
-        storage.records = storage.records.map((r) => ({
-          ...r,
-          isActive: false,
-          archivedAt: r.isActive ? Date.now() : r.archivedAt,
-        }))
-        storage.records.push(newRecord)
-        storage.activeKeyId = keyId
-      } else {
-        // Create new storage
-        storage = {
-          version: 1,
-          activeKeyId: keyId,
-          records: [newRecord],
-        }
-      }
-
-      // Save to SecureStore
-      await saveStorage(targetAddress, storage)
-
-      setKeys(newKeys)
-      setActiveKeyId(keyId)
+      // Keep the label of the meta-address being replaced
+      const storage = await loadStorage(targetAddress)
+      const active = storage ? getActiveKeyRecords(storage) : []
+      const primary = active.find((r) => r.id === storage?.activeKeyId) ?? active[0]
+      const label = primary ? getMetaAddressLabel(primary) : DEFAULT_META_ADDRESS_LABEL
+
+      const newRecord = await addMetaAddress(
+        targetAddress,
+        label,
+        primary?.id,
+        await getDerivationMnemonic()
+      )
+      applyStorage(await loadStorage(targetAddress))
 
-      // Create stealth address
-      const addr = formatStealthAddress(
+      return formatStealthAddress(
         SIP_CHAIN,
-        newKeys.spendingPublicKey,
-        newKeys.viewingPublicKey
+        newRecord.keys.spendingPublicKey,
+        newRecord.keys.viewingPublicKey
       )
-
-      setStealthAddress(addr)
-      return addr
     } catch (err) {
       console.error("Failed to generate stealth address:", err)
       setError("Failed to generate stealth address")
@@ -465,7 +771,7 @@ export function useStealth(): UseStealthReturn {
     } finally {
       setIsGenerating(false)
     }
-  }, [address])
+  }, [address, applyStorage])
 
   const generateNewAddress = useCallback(async (): Promise<StealthAddress | null> => {
     if (!isConnected || !address) {
@@ -476,10 +782,11 @@ export function useStealth(): UseStealthReturn {
   }, [isConnected, address, generateNewAddressInternal])
 
   /**
-   * Regenerate stealth address by archiving current and creating new
+   * Regenerate the primary stealth address by archiving it and creating new
    *
    * IMPORTANT: This archives the current key instead of deleting it.
    * Old payments remain claimable via getKeyById(). (#72)
+   * Other meta-addresses are left untouched.
    *
    * The caller should check for unclaimed payments BEFORE calling this.
    */
@@ -489,6 +796,50 @@ export function useStealth(): UseStealthReturn {
     return generateNewAddress()
   }, [generateNewAddress])
 
+  const requireAddress = useCallback((): string => {
+    if (!isConnected || !address) {
+      throw new Error("Wallet not connected")
+    }
+    return address
+  }, [isConnected, address])
+
+  const addMetaAddressCallback = useCallback(async (label: string): Promise<MetaAddress> => {
+    const walletAddress = requireAddress()
+    setIsGenerating(true)
+    try {
+      const record = await addMetaAddress(walletAddress, label, null, await getDerivationMnemonic())
+      const storage = await loadStorage(walletAddress)
+      applyStorage(storage)
+      return {
+        id: record.id,
+        label: getMetaAddressLabel(record),
+        address: formatStealthAddress(SIP_CHAIN, record.keys.spendingPublicKey, record.keys.viewingPublicKey),
+        createdAt: record.createdAt,
+        isPrimary: storage?.activeKeyId === record.id,
+      }
+    } finally {
+      setIsGenerating(false)
+    }
+  }, [requireAddress, applyStorage])
+
+  const renameMetaAddressCallback = useCallback(async (keyId: string, label: string): Promise<void> => {
+    const walletAddress = requireAddress()
+    await renameMetaAddress(walletAddress, keyId, label)
+    applyStorage(await loadStorage(walletAddress))
+  }, [requireAddress, applyStorage])
+
+  const archiveMetaAddressCallback = useCallback(async (keyId: string): Promise<void> => {
+    const walletAddress = requireAddress()
+    await archiveMetaAddress(walletAddress, keyId)
+    applyStorage(await loadStorage(walletAddress))
+  }, [requireAddress, applyStorage])
+
+  const selectMetaAddress = useCallback(async (keyId: string): Promise<void> => {
+    const walletAddress = requireAddress()
+    await setPrimaryMetaAddress(walletAddress, keyId)
+    applyStorage(await loadStorage(walletAddress))
+  }, [requireAddress, applyStorage])
+
   const getKeys = useCallback(async (): Promise<StealthKeys | null> => {
     if (keys) return keys
 
@@ -520,11 +871,16 @@ export function useStealth(): UseStealthReturn {
     () => ({
       stealthAddress,
       activeKeyId,
+      metaAddresses,
       isGenerating,
       isLoading,
       error,
       generateNewAddress,
       regenerateAddress,
+      addMetaAddress: addMetaAddressCallback,
+      renameMetaAddress: renameMetaAddressCallback,
+      archiveMetaAddress: archiveMetaAddressCallback,
+      selectMetaAddress,
       getKeys,
       getActiveKeyId: getActiveKeyIdCallback,
       formatForDisplay,
@@ -532,11 +888,16 @@ export function useStealth(): UseStealthReturn {
     [
       stealthAddress,
       activeKeyId,
+      metaAddresses,
       isGenerating,
       isLoading,
       error,
       generateNewAddress,
       regenerateAddress,
+      addMetaAddressCallback,
+      renameMetaAddressCallback,
+      archiveMetaAddressCallback,
+      selectMetaAddress,
       getKeys,
       getActiveKeyIdCallback,
       formatForDisplay,
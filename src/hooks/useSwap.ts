@@ -4,6 +4,7 @@
  * Executes token swaps with:
  * - Real Jupiter Swap API integration
  * - Privacy toggle (shielded/transparent)
+ * - Swap and pay: private swap output delivered to a third party's stealth address
  * - Swap history tracking
  * - Status updates through the flow
  * - Error handling
@@ -11,19 +12,33 @@
 
 import { useState, useCallback, useRef } from "react"
 import { Buffer } from "buffer"
-import { Connection, PublicKey } from "@solana/web3.js"
+import { PublicKey, type Connection } from "@solana/web3.js"
 import type { SwapQuote, PrivacyLevel } from "@/types"
 import { useSwapStore } from "@/stores/swap"
 import { useToastStore } from "@/stores/toast"
 import { useWalletStore } from "@/stores/wallet"
 import { useWallet } from "./useWallet"
 import { useNativeWallet } from "./useNativeWallet"
+import { useTransactionPreview } from "./useTransactionPreview"
 import { useStealth } from "./useStealth"
 import { useSettingsStore } from "@/stores/settings"
 import { getExplorerTxUrl } from "@/utils/explorer"
-import { generateStealthAddress, hexToBytes, ed25519PublicKeyToSolanaAddress } from "@/lib/stealth"
+import {
+  generateStealthAddress,
+  hexToBytes,
+  ed25519PublicKeyToSolanaAddress,
+  parseStealthMetaAddress,
+  type StealthMetaAddress,
+} from "@/lib/stealth"
 import { getAssociatedTokenAddress } from "@/lib/spl"
 import { SipPrivacyClient } from "@/lib/anchor/client"
+import { getSipPrivacyProgramId } from "@/lib/anchor/types"
+import { getConnection } from "@/lib/connection"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+  type SubmitTrackedOptions,
+} from "@/services/transactionTracker"
 import type { JupiterQuoteResponse } from "./useQuote"
 
 // ============================================================================
@@ -38,10 +53,27 @@ export type SwapStatus =
   | "success"
   | "error"
 
+/**
+ * Third party paid with a private swap's output
+ */
+export interface SwapRecipient {
+  /** Stealth meta-address (sip:solana:<spendingKey>:<viewingKey>) */
+  metaAddress: string
+  /** What the user entered or picked (SNS name, contact name or the URI) */
+  label: string
+}
+
 export interface SwapParams {
   quote: SwapQuote
   jupiterQuote: JupiterQuoteResponse
   privacyLevel: PrivacyLevel
+  /**
+   * Deliver the output to this recipient's stealth address instead of the
+   * user's own (private swaps only)
+   */
+  recipient?: SwapRecipient
+  /** Limit or DCA order this swap fills (recorded in history) */
+  orderId?: string
 }
 
 export interface SwapResult {
@@ -102,6 +134,14 @@ function getSwapErrorMessage(err: unknown): {
     }
   }
 
+  // Broadcast but not yet confirmed: it may still land, so don't invite a retry
+  if (message.includes("confirmation timeout")) {
+    return {
+      message: "Still waiting for the network to confirm. Check swap history before trying again",
+      title: "Swap Pending",
+    }
+  }
+
   // Insufficient balance
   if (message.includes("insufficient") || message.includes("not enough")) {
     return {
@@ -156,14 +196,6 @@ function getSwapErrorMessage(err: unknown): {
 /** Jupiter Swap API endpoint */
 const JUPITER_SWAP_API = "https://lite-api.jup.ag/swap/v1/swap"
 
-/** RPC endpoint for submitting transactions */
-function getRpcEndpoint(network: string): string {
-  const isDev = network === "devnet"
-  return isDev
-    ? "https://api.devnet.solana.com"
-    : "https://api.mainnet-beta.solana.com"
-}
-
 /**
  * Execute swap using Jupiter API
  */
@@ -171,7 +203,8 @@ async function executeJupiterSwap(
   jupiterQuote: JupiterQuoteResponse,
   userPublicKey: string,
   signTransaction: (tx: Uint8Array) => Promise<Uint8Array>,
-  network: string,
+  connection: Connection,
+  track: SubmitTrackedOptions,
   destinationTokenAccount?: string
 ): Promise<string> {
   // 1. Get swap transaction from Jupiter
@@ -214,79 +247,16 @@ async function executeJupiterSwap(
   // 3. Sign the transaction
   const signedTransaction = await signTransaction(transactionBytes)
 
-  // 4. Submit to network
-  const rpcEndpoint = getRpcEndpoint(network)
-  const signedBase64 = Buffer.from(signedTransaction).toString("base64")
-
-  const sendResponse = await fetch(rpcEndpoint, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "sendTransaction",
-      params: [signedBase64, { encoding: "base64", skipPreflight: true, maxRetries: 3 }],
-    }),
+  // 4. Submit to network (tracked, so the swap settles even if the app closes)
+  const pending = await submitTrackedTransaction(connection, signedTransaction, {
+    ...track,
+    skipPreflight: true,
   })
 
-  const sendResult = await sendResponse.json()
-
-  if (sendResult.error) {
-    throw new Error(sendResult.error.message || "Transaction failed")
-  }
-
-  const signature = sendResult.result
-  if (!signature) {
-    throw new Error("No signature returned from transaction")
-  }
-
   // 5. Wait for confirmation
-  await waitForConfirmation(rpcEndpoint, signature)
+  await confirmTrackedTransaction(connection, pending)
 
-  return signature
-}
-
-/**
- * Wait for transaction confirmation
- */
-async function waitForConfirmation(
-  rpcEndpoint: string,
-  signature: string,
-  maxAttempts = 30,
-  intervalMs = 1000
-): Promise<void> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      const response = await fetch(rpcEndpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "getSignatureStatuses",
-          params: [[signature], { searchTransactionHistory: true }],
-        }),
-      })
-
-      const result = await response.json()
-      const status = result?.result?.value?.[0]
-
-      if (status) {
-        if (status.err) {
-          throw new Error("Transaction failed on-chain")
-        }
-        if (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized") {
-          return
-        }
-      }
-    } catch (err) {
-      // Continue polling
-    }
-
-    await new Promise((resolve) => setTimeout(resolve, intervalMs))
-  }
-
-  throw new Error("Transaction confirmation timeout")
+  return pending.signature
 }
 
 // ============================================================================
@@ -316,7 +286,8 @@ export function useSwap(): SwapResult {
   const { network, defaultExplorer } = useSettingsStore()
   const { signTransaction: externalSignTransaction } = useWallet()
   const { signTransaction: nativeSignTransaction } = useNativeWallet()
-  const { addSwap } = useSwapStore()
+  const { approve } = useTransactionPreview()
+  const { addSwap, updateSwap, getSwap } = useSwapStore()
   const { addToast } = useToastStore()
   const { getKeys } = useStealth()
 
@@ -337,7 +308,7 @@ export function useSwap(): SwapResult {
 
   const execute = useCallback(
     async (params: SwapParams): Promise<boolean> => {
-      const { quote, jupiterQuote, privacyLevel } = params
+      const { quote, jupiterQuote, privacyLevel, recipient, orderId } = params
 
       // Validate wallet connection
       if (!isConnected || !address) {
@@ -378,7 +349,25 @@ export function useSwap(): SwapResult {
         return false
       }
 
+      // Swap and pay: the output lands in a stealth address only the recipient can spend
+      if (recipient && privacyLevel !== "shielded") {
+        const msg = "Paying a recipient requires a private swap"
+        setError(msg)
+        setStatus("error")
+        addToast({
+          type: "error",
+          title: "Private Swap Required",
+          message: msg,
+        })
+        return false
+      }
+
+      // Output sent to a third party can't be claimed by this wallet
+      const claimable = privacyLevel === "shielded" && !recipient
+
       let stealthAddr: string | undefined
+      // Set once the recipient's announcement is on-chain (it stays there if the swap fails)
+      let announcedAmount: string | undefined
 
       try {
         setError(null)
@@ -390,22 +379,53 @@ export function useSwap(): SwapResult {
 
         setStatus("confirming")
 
+        const connection = getConnection(useSettingsStore.getState())
         let signature: string
+        const swapTitle = `Swap ${quote.inputAmount} ${quote.inputToken.symbol} → ${quote.outputToken.symbol}`
+
+        // History entry, recorded as pending once the swap is broadcast
+        const trackSwap = (): SubmitTrackedOptions => ({
+          kind: "swap",
+          network,
+          swap: {
+            id: newSwapId,
+            fromToken: quote.inputToken.symbol,
+            toToken: quote.outputToken.symbol,
+            fromAmount: quote.inputAmount,
+            toAmount: quote.outputAmount,
+            privacyLevel,
+            timestamp: Date.now(),
+            isPrivate: privacyLevel === "shielded",
+            stealthAddress: stealthAddr,
+            claimStatus: claimable ? "unclaimed" : undefined,
+            recipient: recipient?.label,
+            orderId,
+          },
+        })
 
         if (privacyLevel === "shielded") {
           // ── Private Swap Flow ──
-          const keys = await getKeys()
-          if (!keys) {
-            throw new Error("Stealth keys not available. Please set up privacy keys first.")
+          let metaAddress: StealthMetaAddress
+          if (recipient) {
+            const parsed = parseStealthMetaAddress(recipient.metaAddress)
+            if (!parsed || parsed.chain !== "solana") {
+              throw new Error("Invalid recipient stealth address")
+            }
+            metaAddress = parsed
+          } else {
+            const keys = await getKeys()
+            if (!keys) {
+              throw new Error("Stealth keys not available. Please set up privacy keys first.")
+            }
+            metaAddress = {
+              spendingKey: keys.spendingPublicKey,
+              viewingKey: keys.viewingPublicKey,
+              chain: "solana",
+            }
           }
 
-          const selfMetaAddress = {
-            spendingKey: keys.spendingPublicKey,
-            viewingKey: keys.viewingPublicKey,
-            chain: "solana" as const,
-          }
           const { stealthAddress: stealthResult, ephemeralPrivateKey } =
-            await generateStealthAddress(selfMetaAddress)
+            await generateStealthAddress(metaAddress)
 
           const stealthSolanaAddress = ed25519PublicKeyToSolanaAddress(stealthResult.address)
           const stealthPubkey = new PublicKey(stealthSolanaAddress)
@@ -414,22 +434,26 @@ export function useSwap(): SwapResult {
           const outputMint = new PublicKey(jupiterQuote.outputMint)
           const stealthAta = getAssociatedTokenAddress(stealthPubkey, outputMint)
 
-          const rpcEndpoint = getRpcEndpoint(network)
-          const connection = new Connection(rpcEndpoint)
-          const client = new SipPrivacyClient(connection)
+          const client = new SipPrivacyClient(connection, getSipPrivacyProgramId(network))
           const senderPubkey = new PublicKey(address)
 
           const outputDecimals = quote.outputToken.decimals
 
+          // A recipient is announced the slippage-protected minimum, the least the swap
+          // can deliver; the quoted output is only an estimate
+          const announceAmount = recipient
+            ? Number(jupiterQuote.otherAmountThreshold) / Math.pow(10, outputDecimals)
+            : parseFloat(quote.outputAmount)
+
           const { transaction: announceTx } = await client.buildSwapAnnouncement(
             senderPubkey,
             {
-              amount: parseFloat(quote.outputAmount),
+              amount: announceAmount,
               decimals: outputDecimals,
               tokenMint: outputMint,
               stealthPubkey,
-              recipientSpendingKey: hexToBytes(keys.spendingPublicKey),
-              recipientViewingKey: hexToBytes(keys.viewingPublicKey),
+              recipientSpendingKey: hexToBytes(metaAddress.spendingKey),
+              recipientViewingKey: hexToBytes(metaAddress.viewingKey),
               ephemeralPrivateKey: hexToBytes(ephemeralPrivateKey),
             }
           )
@@ -437,61 +461,42 @@ export function useSwap(): SwapResult {
           setStatus("signing")
 
           // TX1: Sign and send announcement + ATA creation
+          await approve(announceTx, {
+            title: recipient ? `Announce Payment to ${recipient.label}` : "Announce Private Swap",
+          })
+          let signedAnnounce: Uint8Array
           if (walletType === "native") {
             const signedAnnounceTx = await nativeSignTransaction(announceTx)
-            const announceBase64 = Buffer.from(signedAnnounceTx.serialize()).toString("base64")
-            const announceResponse = await fetch(rpcEndpoint, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                jsonrpc: "2.0",
-                id: 1,
-                method: "sendTransaction",
-                params: [announceBase64, { encoding: "base64", skipPreflight: false }],
-              }),
-            })
-            const announceRes = await announceResponse.json()
-            if (announceRes.error) {
-              throw new Error(announceRes.error.message || "Announcement transaction failed")
-            }
-            await waitForConfirmation(rpcEndpoint, announceRes.result)
+            signedAnnounce = signedAnnounceTx.serialize()
           } else {
             const announceTxBytes = announceTx.serialize({ requireAllSignatures: false })
             const signedBytes = await externalSignTransaction(new Uint8Array(announceTxBytes))
             if (!signedBytes) throw new Error("Transaction signing rejected")
-            const announceBase64 = Buffer.from(signedBytes).toString("base64")
-            const announceResponse = await fetch(rpcEndpoint, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                jsonrpc: "2.0",
-                id: 1,
-                method: "sendTransaction",
-                params: [announceBase64, { encoding: "base64", skipPreflight: false }],
-              }),
-            })
-            const announceRes = await announceResponse.json()
-            if (announceRes.error) {
-              throw new Error(announceRes.error.message || "Announcement transaction failed")
-            }
-            await waitForConfirmation(rpcEndpoint, announceRes.result)
+            signedAnnounce = signedBytes
           }
+          const announce = await submitTrackedTransaction(connection, signedAnnounce, {
+            kind: "swap",
+            network,
+          })
+          await confirmTrackedTransaction(connection, announce)
+          if (recipient) announcedAmount = quote.minimumReceived
 
-          // TX2: Jupiter swap with output to stealth ATA
+          // TX2: Jupiter swap with output to stealth ATA (recipient's when paying)
           setStatus("submitting")
           signature = await executeJupiterSwap(
             jupiterQuote,
             address,
             async (tx: Uint8Array) => {
               let signed: Uint8Array | null = null
+              const { Transaction, VersionedTransaction } = await import("@solana/web3.js")
+              let txObj: InstanceType<typeof Transaction> | InstanceType<typeof VersionedTransaction>
+              try {
+                txObj = VersionedTransaction.deserialize(tx)
+              } catch {
+                txObj = Transaction.from(tx)
+              }
+              await approve(txObj, { title: swapTitle })
               if (walletType === "native") {
-                const { Transaction, VersionedTransaction } = await import("@solana/web3.js")
-                let txObj: InstanceType<typeof Transaction> | InstanceType<typeof VersionedTransaction>
-                try {
-                  txObj = VersionedTransaction.deserialize(tx)
-                } catch {
-                  txObj = Transaction.from(tx)
-                }
                 const signedTx = await nativeSignTransaction(txObj)
                 signed = signedTx.serialize()
               } else {
@@ -500,7 +505,8 @@ export function useSwap(): SwapResult {
               if (!signed) throw new Error("Transaction signing rejected")
               return signed
             },
-            network,
+            connection,
+            trackSwap(),
             stealthAta.toBase58()
           )
         } else {
@@ -511,14 +517,15 @@ export function useSwap(): SwapResult {
             address,
             async (tx: Uint8Array) => {
               let signed: Uint8Array | null = null
+              const { Transaction, VersionedTransaction } = await import("@solana/web3.js")
+              let txObj: InstanceType<typeof Transaction> | InstanceType<typeof VersionedTransaction>
+              try {
+                txObj = VersionedTransaction.deserialize(tx)
+              } catch {
+                txObj = Transaction.from(tx)
+              }
+              await approve(txObj, { title: swapTitle })
               if (walletType === "native") {
-                const { Transaction, VersionedTransaction } = await import("@solana/web3.js")
-                let txObj: InstanceType<typeof Transaction> | InstanceType<typeof VersionedTransaction>
-                try {
-                  txObj = VersionedTransaction.deserialize(tx)
-                } catch {
-                  txObj = Transaction.from(tx)
-                }
                 const signedTx = await nativeSignTransaction(txObj)
                 signed = signedTx.serialize()
               } else {
@@ -528,7 +535,8 @@ export function useSwap(): SwapResult {
               setStatus("submitting")
               return signed
             },
-            network
+            connection,
+            trackSwap()
           )
         }
 
@@ -536,38 +544,35 @@ export function useSwap(): SwapResult {
         setTxSignature(signature)
         setStatus("success")
 
-        addSwap({
-          id: newSwapId,
-          fromToken: quote.inputToken.symbol,
-          toToken: quote.outputToken.symbol,
-          fromAmount: quote.inputAmount,
-          toAmount: quote.outputAmount,
-          privacyLevel,
-          status: "completed",
-          timestamp: Date.now(),
-          txSignature: signature,
+        updateSwap(newSwapId, {
           explorerUrl: getExplorerTxUrl(signature, network, defaultExplorer),
-          isPrivate: privacyLevel === "shielded",
-          stealthAddress: stealthAddr,
-          claimStatus: privacyLevel === "shielded" ? "unclaimed" : undefined,
         })
 
         addToast({
           type: "success",
-          title: privacyLevel === "shielded" ? "Private Swap Complete" : "Swap Complete",
-          message: privacyLevel === "shielded"
-            ? `Swapped ${quote.inputAmount} ${quote.inputToken.symbol} to private balance. Claim from Receive tab.`
-            : `Swapped ${quote.inputAmount} ${quote.inputToken.symbol} → ${quote.outputAmount} ${quote.outputToken.symbol}`,
+          title: recipient
+            ? "Private Payment Sent"
+            : privacyLevel === "shielded" ? "Private Swap Complete" : "Swap Complete",
+          message: recipient
+            ? `Paid at least ${quote.minimumReceived} ${quote.outputToken.symbol} to ${recipient.label} privately`
+            : privacyLevel === "shielded"
+              ? `Swapped ${quote.inputAmount} ${quote.inputToken.symbol} to private balance. Claim from Receive tab.`
+              : `Swapped ${quote.inputAmount} ${quote.inputToken.symbol} → ${quote.outputAmount} ${quote.outputToken.symbol}`,
         })
 
         return true
       } catch (err) {
-        const { message, title } = getSwapErrorMessage(err)
+        const { message: swapMessage, title } = getSwapErrorMessage(err)
+        // The announcement can't be withdrawn: the recipient already sees the payment
+        const message = announcedAmount
+          ? `${swapMessage}. ${recipient?.label} can already see an announced payment of ${announcedAmount} ${quote.outputToken.symbol} that may not arrive.`
+          : swapMessage
         setError(message)
         setStatus("error")
 
-        // Add failed swap to history (include stealth info for recovery)
-        if (currentSwapId.current) {
+        // Add failed swap to history (include stealth info for recovery).
+        // Once broadcast the tracker owns the record: it's settled from the chain.
+        if (currentSwapId.current && !getSwap(currentSwapId.current)) {
           addSwap({
             id: currentSwapId.current,
             fromToken: quote.inputToken.symbol,
@@ -580,7 +585,9 @@ export function useSwap(): SwapResult {
             error: message,
             isPrivate: privacyLevel === "shielded" ? true : undefined,
             stealthAddress: stealthAddr || undefined,
-            claimStatus: privacyLevel === "shielded" && stealthAddr ? "unclaimed" : undefined,
+            claimStatus: claimable && stealthAddr ? "unclaimed" : undefined,
+            recipient: recipient?.label,
+            orderId,
           })
         }
 
@@ -593,7 +600,7 @@ export function useSwap(): SwapResult {
         return false
       }
     },
-    [isConnected, address, network, defaultExplorer, walletType, nativeSignTransaction, externalSignTransaction, addSwap, addToast, getKeys]
+    [isConnected, address, network, defaultExplorer, walletType, nativeSignTransaction, externalSignTransaction, approve, addSwap, updateSwap, getSwap, addToast, getKeys]
   )
 
   // Generate explorer URL
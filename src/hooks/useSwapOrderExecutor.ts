@@ -0,0 +1,146 @@
+/**
+ * Swap Order Executor Hook
+ *
+ * Fills limit and DCA orders while the app is active: a due DCA fill is
+ * swapped at the market price, a limit order is re-quoted every poll and
+ * filled once the quote's minimum received reaches the limit. Each fill is a
+ * private swap through useSwap, so it lands in a fresh stealth address and is
+ * previewed for approval like any other signature.
+ *
+ * Jupiter's hosted limit/DCA programs settle to the owner's wallet, which
+ * would put every fill on the public address, so orders run locally instead.
+ *
+ * Mount once (tabs layout); screens use useSwapOrders.
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+import { AppState, type AppStateStatus } from "react-native"
+import { useSwapStore } from "@/stores/swap"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { useSwap } from "./useSwap"
+import { fetchJupiterQuote, jupiterToSwapQuote } from "./useQuote"
+import { getToken } from "@/data/tokens"
+import {
+  getNextFillAmount,
+  isOrderDue,
+  isOrderExpired,
+  meetsLimitPrice,
+} from "@/utils/swapOrders"
+import type { SwapOrder } from "@/types/swapOrders"
+import { debug } from "@/utils/logger"
+
+/** How often due orders are checked while the app is active */
+export const ORDER_POLL_INTERVAL_MS = 30_000
+
+export function useSwapOrderExecutor(): void {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const { execute } = useSwap()
+  const hydrated = useSwapStore((state) => state._hasHydrated)
+  const activeCount = useSwapStore(
+    (state) =>
+      state.orders.filter(
+        (o) => o.status === "active" && o.walletAddress === address && o.network === network
+      ).length
+  )
+
+  const runningRef = useRef(false)
+  const appStateRef = useRef<AppStateStatus>(AppState.currentState)
+
+  const fillOrder = useCallback(
+    async (order: SwapOrder): Promise<void> => {
+      const store = useSwapStore.getState()
+      const fromToken = getToken(order.fromToken)
+      const toToken = getToken(order.toToken)
+      if (!fromToken || !toToken) {
+        store.recordOrderFailure(order.id, "Unsupported token")
+        return
+      }
+
+      const amount = getNextFillAmount(order, fromToken.decimals)
+      const slippageBps = Math.round(order.slippage * 100)
+
+      const checkAgain = () => store.deferOrder(order.id, Date.now() + ORDER_POLL_INTERVAL_MS)
+
+      let jupiterQuote
+      try {
+        jupiterQuote = await fetchJupiterQuote(fromToken, toToken, amount, slippageBps)
+      } catch (err) {
+        debug(`[ORDERS] Quote for ${order.id} unavailable:`, err)
+        checkAgain()
+        return
+      }
+
+      const quote = jupiterToSwapQuote(jupiterQuote, fromToken, toToken, amount, "shielded")
+      if (!meetsLimitPrice(order, amount, quote.minimumReceived)) {
+        checkAgain()
+        return
+      }
+
+      const startedAt = Date.now()
+      const success = await execute({
+        quote,
+        jupiterQuote,
+        privacyLevel: "shielded",
+        orderId: order.id,
+      })
+
+      // Broadcast but unconfirmed: the transaction tracker settles it, don't fill twice
+      const record = useSwapStore
+        .getState()
+        .swaps.find((s) => s.orderId === order.id && s.timestamp >= startedAt)
+      if (success || record?.status === "pending") {
+        store.recordOrderFill(order.id, { inputAmount: amount, outputAmount: quote.outputAmount })
+      } else {
+        store.recordOrderFailure(order.id, record?.error ?? "Fill failed")
+      }
+    },
+    [execute]
+  )
+
+  const run = useCallback(async () => {
+    if (runningRef.current || !address) return
+    runningRef.current = true
+
+    try {
+      const now = Date.now()
+      const orders = useSwapStore
+        .getState()
+        .orders.filter((o) => o.walletAddress === address && o.network === network)
+
+      // One at a time: each fill needs its own approval
+      for (const order of orders) {
+        if (order.status === "active" && isOrderExpired(order, now)) {
+          useSwapStore.getState().expireOrder(order.id)
+        } else if (isOrderDue(order, now)) {
+          await fillOrder(order)
+        }
+      }
+    } catch (err) {
+      debug("[ORDERS] Run interrupted:", err)
+    } finally {
+      runningRef.current = false
+    }
+  }, [address, network, fillOrder])
+
+  useEffect(() => {
+    if (!hydrated || activeCount === 0) return
+
+    run()
+    const interval = setInterval(() => {
+      if (appStateRef.current === "active") run()
+    }, ORDER_POLL_INTERVAL_MS)
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (appStateRef.current.match(/inactive|background/) && nextState === "active") {
+        run()
+      }
+      appStateRef.current = nextState
+    })
+
+    return () => {
+      clearInterval(interval)
+      subscription.remove()
+    }
+  }, [hydrated, activeCount, run])
+}
@@ -0,0 +1,83 @@
+/**
+ * Swap Orders Hook
+ *
+ * Limit and DCA orders of the active wallet and network. Orders are filled
+ * by useSwapOrderExecutor while the app is active; every fill is a private
+ * swap delivered to a fresh stealth address.
+ */
+
+import { useCallback, useMemo } from "react"
+import { useSwapStore } from "@/stores/swap"
+import { useSettingsStore } from "@/stores/settings"
+import { useWalletStore } from "@/stores/wallet"
+import { getToken } from "@/data/tokens"
+import { isOrderOpen, validateSwapOrder } from "@/utils/swapOrders"
+import type { CreateSwapOrderInput, SwapOrder } from "@/types/swapOrders"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NewSwapOrder = Omit<CreateSwapOrderInput, "walletAddress" | "network">
+
+export interface UseSwapOrdersReturn {
+  /** Orders of the active wallet and network, newest first */
+  orders: SwapOrder[]
+  /** Orders that can still fill (active or paused) */
+  openOrders: SwapOrder[]
+  /** @throws when the order is invalid or no wallet is connected */
+  createOrder: (input: NewSwapOrder) => SwapOrder
+  setPaused: (id: string, paused: boolean) => void
+  cancelOrder: (id: string) => void
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useSwapOrders(): UseSwapOrdersReturn {
+  const { address } = useWalletStore()
+  const { network } = useSettingsStore()
+  const allOrders = useSwapStore((state) => state.orders)
+
+  const orders = useMemo(
+    () =>
+      allOrders
+        .filter((o) => o.walletAddress === address && o.network === network)
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [allOrders, address, network]
+  )
+  const openOrders = useMemo(() => orders.filter(isOrderOpen), [orders])
+
+  const createOrder = useCallback(
+    (input: NewSwapOrder): SwapOrder => {
+      if (!address) throw new Error("Wallet not connected")
+
+      const fromToken = getToken(input.fromToken)
+      if (!fromToken || !getToken(input.toToken)) throw new Error("Unsupported token")
+
+      const order: CreateSwapOrderInput = { ...input, walletAddress: address, network }
+      const validation = validateSwapOrder(order, fromToken.decimals)
+      if (!validation.isValid) throw new Error(validation.error)
+
+      return useSwapStore.getState().addOrder(order)
+    },
+    [address, network]
+  )
+
+  const setPaused = useCallback((id: string, paused: boolean) => {
+    useSwapStore.getState().setOrderPaused(id, paused)
+  }, [])
+
+  const cancelOrder = useCallback((id: string) => {
+    useSwapStore.getState().cancelOrder(id)
+  }, [])
+
+  return {
+    orders,
+    openOrders,
+    createOrder,
+    setPaused,
+    cancelOrder,
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Transaction Preview Hook
+ *
+ * Simulates transactions before they reach the wallet and asks the user to
+ * approve the "you will send / receive / pay" summary. A transaction that
+ * would fail is stopped here, before any fee is spent.
+ */
+
+import { useCallback } from "react"
+import { PublicKey, type Transaction, type VersionedTransaction } from "@solana/web3.js"
+import { useWalletStore } from "@/stores/wallet"
+import { useSettingsStore } from "@/stores/settings"
+import { useTransactionPreviewStore, type ApprovalDetail } from "@/stores/transactionPreview"
+import { getConnection } from "@/lib/connection"
+import {
+  combinePreviews,
+  previewTransaction,
+  type TransactionPreview,
+} from "@/lib/simulation"
+import { logger } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ApproveTransactionOptions {
+  /** Shown as the preview heading (e.g. "Send 1.5 SOL") */
+  title: string
+  /** Whose balances to summarize (defaults to the active wallet) */
+  owner?: PublicKey
+  /** Costs the summary can't show, e.g. a relayer fee paid from a stealth account */
+  details?: ApprovalDetail[]
+}
+
+export interface UseTransactionPreviewReturn {
+  /**
+   * Simulate and wait for approval
+   *
+   * @throws the plain-language reason when simulation fails, or
+   *   "Transaction signing rejected" when the user cancels
+   */
+  approve: (
+    transaction: Transaction | VersionedTransaction,
+    options: ApproveTransactionOptions
+  ) => Promise<TransactionPreview | null>
+  /** Same as approve, with one summary for transactions signed together */
+  approveAll: (
+    transactions: (Transaction | VersionedTransaction)[],
+    options: ApproveTransactionOptions
+  ) => Promise<TransactionPreview | null>
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useTransactionPreview(): UseTransactionPreviewReturn {
+  const { address } = useWalletStore()
+
+  const approveAll = useCallback(
+    async (
+      transactions: (Transaction | VersionedTransaction)[],
+      options: ApproveTransactionOptions
+    ): Promise<TransactionPreview | null> => {
+      const owner = options.owner ?? (address ? new PublicKey(address) : null)
+      if (!owner) throw new Error("Wallet not connected")
+
+      let preview: TransactionPreview | null = null
+      try {
+        const connection = getConnection(useSettingsStore.getState())
+        const previews = await Promise.all(
+          transactions.map((tx) => previewTransaction(connection, tx, owner))
+        )
+        preview = previews.length === 1 ? previews[0] : combinePreviews(previews)
+      } catch (err) {
+        // The RPC couldn't simulate: still let the user decide, without a summary
+        logger.warn("Transaction preview unavailable:", err)
+      }
+
+      if (preview && !preview.success) {
+        throw new Error(preview.error ?? "Transaction would fail")
+      }
+
+      const approved = await useTransactionPreviewStore
+        .getState()
+        .requestApproval(options.title, preview, options.details)
+      if (!approved) throw new Error("Transaction signing rejected")
+      return preview
+    },
+    [address]
+  )
+
+  const approve = useCallback(
+    (transaction: Transaction | VersionedTransaction, options: ApproveTransactionOptions) =>
+      approveAll([transaction], options),
+    [approveAll]
+  )
+
+  return { approve, approveAll }
+}
@@ -0,0 +1,52 @@
+/**
+ * Transaction Tracker Hook
+ *
+ * Resumes confirmation tracking of queued transactions at startup, when the
+ * app returns to the foreground, and after switching networks, so sends and
+ * swaps interrupted by the app being closed don't stay "pending" forever.
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+import { AppState, type AppStateStatus } from "react-native"
+import { useSettingsStore } from "@/stores/settings"
+import { usePendingTransactionsStore } from "@/stores/pendingTransactions"
+import { usePrivacyStore } from "@/stores/privacy"
+import { useSwapStore } from "@/stores/swap"
+import { getConnection } from "@/lib/connection"
+import { resumePendingTransactions } from "@/services/transactionTracker"
+import { debug, logger } from "@/utils/logger"
+
+export function useTransactionTracker(): void {
+  const { network, _hasHydrated: settingsHydrated } = useSettingsStore()
+  const queueHydrated = usePendingTransactionsStore((state) => state._hasHydrated)
+  const privacyHydrated = usePrivacyStore((state) => state._hasHydrated)
+  const swapHydrated = useSwapStore((state) => state._hasHydrated)
+  const appStateRef = useRef<AppStateStatus>(AppState.currentState)
+
+  const resume = useCallback(async () => {
+    try {
+      const connection = getConnection(useSettingsStore.getState())
+      const resumed = await resumePendingTransactions(connection, network)
+      if (resumed > 0) debug(`Resumed tracking of ${resumed} pending transaction(s)`)
+    } catch (err) {
+      logger.warn("Failed to resume pending transactions:", err)
+    }
+  }, [network])
+
+  // Settling updates history records, so those must be loaded first
+  const hydrated = settingsHydrated && queueHydrated && privacyHydrated && swapHydrated
+
+  useEffect(() => {
+    if (hydrated) resume()
+  }, [hydrated, resume])
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (hydrated && appStateRef.current.match(/inactive|background/) && nextState === "active") {
+        resume()
+      }
+      appStateRef.current = nextState
+    })
+    return () => subscription.remove()
+  }, [hydrated, resume])
+}
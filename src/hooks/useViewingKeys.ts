@@ -18,8 +18,8 @@ import type {
   ChainType,
 } from "@/types"
 import { useSettingsStore } from "@/stores/settings"
-import { Connection } from "@solana/web3.js"
-import { fetchAllTransferRecords } from "@/lib/anchor/client"
+import { getConnection } from "@/lib/connection"
+import { createTransferRecordSource } from "@/lib/record-sources"
 import { scanRecordsForOwner } from "@/services/recordOwnership"
 import { hexToBytes } from "@/lib/stealth"
 
@@ -437,7 +437,8 @@ export function useViewingKeys(): UseViewingKeysReturn {
   /**
    * Scan the chain for payments to an imported viewing key — VIEW-ONLY.
    *
-   * Fetches transfer records and filters them with the canonical view-only check using the
+   * Fetches transfer records from the network's configured record source and filters them
+   * with the canonical view-only check using the
    * imported key's viewing private key + the owner's spending public key (never a spending
    * private key). Updates the key's `lastScannedAt` / `paymentsFound`. Keys imported before
    * `spendingPublicKey` was persisted cannot be scanned until re-imported.
@@ -457,15 +458,11 @@ export function useViewingKeys(): UseViewingKeysReturn {
       }
 
       try {
-        const network = useSettingsStore.getState().network
-        const connection = new Connection(
-          network === "mainnet-beta"
-            ? "https://api.mainnet-beta.solana.com"
-            : "https://api.devnet.solana.com",
-          { commitment: "confirmed" }
-        )
+        const settings = useSettingsStore.getState()
+        const connection = getConnection(settings)
 
-        const records = await fetchAllTransferRecords(connection)
+        const source = createTransferRecordSource(settings.getRecordSource(settings.network), connection)
+        const records = await source.fetchAll()
         const owned = scanRecordsForOwner(
           records,
           hexToBytes(key.viewingPrivateKey),
@@ -6,24 +6,41 @@
  */
 
 import { web3 } from "@coral-xyz/anchor"
-import { Connection, PublicKey, Transaction, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
+  type ConfirmedSignatureInfo,
+  type TransactionInstruction,
+} from "@solana/web3.js"
 import { debug } from "@/utils/logger"
+import {
+  computeViewTag,
+  decodeEphemeralPubkey,
+  encodeEphemeralPubkey,
+} from "@/lib/stealth"
 import {
   SIP_PRIVACY_PROGRAM_ID,
   getConfigPda,
   getTransferRecordPda,
   getNullifierPda,
+  NULLIFIER_RECORD_SIZE,
   type Config,
   type ShieldedTransferArgs,
 } from "./types"
 import {
   createCommitment,
+  deriveBlindingFactor,
   encryptAmount,
   computeViewingKeyHash,
   deriveSharedSecret,
-  generateMockProof,
   generateEphemeralKeyPair,
+  sealAmount,
+  type SealedAmount,
 } from "./crypto"
+import { getAmountProofProvider } from "@/lib/proofs"
 import {
   getAssociatedTokenAddress,
   tokenAccountExists,
@@ -34,9 +51,16 @@ import {
   getTokenAccountBalance,
   TOKEN_PROGRAM_ID,
 } from "@/lib/spl"
+import { MAX_COMPUTE_UNIT_LIMIT, createComputeBudgetInstructions } from "@/lib/fees"
+import { setTransactionLifetime, type DurableNonce } from "@/lib/nonce"
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
+/**
+ * Shielded transfers always use a recent blockhash, never a durable nonce: the
+ * TransferRecord PDA is seeded by the config's total_transfers, so a transfer
+ * signed ahead of time fails as soon as any other transfer lands first.
+ */
 export interface ShieldedTransferParams {
   /** Amount in SOL */
   amount: number
@@ -54,8 +78,16 @@ export interface ShieldedTransferParams {
    * CRITICAL: Must be the same key used to derive the stealthPubkey!
    */
   ephemeralPrivateKey?: Uint8Array
+  /**
+   * Commitment and encrypted amount computed in advance (offline sends).
+   * Must come from the same ephemeral key and amount.
+   */
+  sealedAmount?: SealedAmount
+  /** Payment request reference, added as a read-only account so the receiver can find the transfer */
+  reference?: PublicKey
 }
 
+/** Recent blockhash only, like ShieldedTransferParams */
 export interface ShieldedTokenTransferParams {
   /** Amount in token units (e.g., 5.0 for 5 tokens) */
   amount: number
@@ -71,6 +103,8 @@ export interface ShieldedTokenTransferParams {
   recipientViewingKey: Uint8Array
   /** Ephemeral private key from generateStealthAddress */
   ephemeralPrivateKey: Uint8Array
+  /** Payment request reference, added as a read-only account so the receiver can find the transfer */
+  reference?: PublicKey
 }
 
 export interface ShieldedTransferResult {
@@ -82,6 +116,15 @@ export interface ShieldedTransferResult {
   ephemeralPubkey: Uint8Array
 }
 
+/**
+ * Whether the program can take transfers on a cluster
+ *
+ * - ready: deployed and config initialized
+ * - uninitialized: deployed, `initialize` never called
+ * - not-deployed: no executable program at the program ID
+ */
+export type ProgramDeploymentStatus = "ready" | "uninitialized" | "not-deployed"
+
 export interface ProgramState {
   config: Config | null
   isInitialized: boolean
@@ -90,6 +133,14 @@ export interface ProgramState {
   authority: PublicKey | null
 }
 
+/**
+ * Trailing read-only account for a payment request reference. The program
+ * ignores extra accounts; it only makes the transaction findable by address.
+ */
+function referenceKeys(reference?: PublicKey): web3.AccountMeta[] {
+  return reference ? [{ pubkey: reference, isSigner: false, isWritable: false }] : []
+}
+
 // ─── Client Class ──────────────────────────────────────────────────────────
 
 export class SipPrivacyClient {
@@ -163,6 +214,56 @@ export class SipPrivacyClient {
     }
   }
 
+  /**
+   * Check the program is deployed and its config initialized
+   *
+   * Throws when the RPC is unreachable (e.g. the local validator is down).
+   */
+  async getDeploymentStatus(): Promise<ProgramDeploymentStatus> {
+    const [configPda] = getConfigPda(this.programId)
+    const [program, config] = await this.connection.getMultipleAccountsInfo([
+      this.programId,
+      configPda,
+    ])
+
+    if (!program?.executable) return "not-deployed"
+    return config ? "ready" : "uninitialized"
+  }
+
+  /**
+   * Build the `initialize` transaction (creates the config PDA)
+   *
+   * The signer becomes the program authority and fee collector, so this is
+   * only meant for clusters you control (localnet).
+   */
+  async buildInitialize(authority: PublicKey, feeBps = 0): Promise<Transaction> {
+    if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > 10_000) {
+      throw new Error("Fee must be between 0 and 10000 bps")
+    }
+
+    // Discriminator from IDL: [175, 175, 109, 31, 13, 152, 155, 237] + fee_bps: u16
+    const data = Buffer.alloc(8 + 2)
+    Buffer.from([0xaf, 0xaf, 0x6d, 0x1f, 0x0d, 0x98, 0x9b, 0xed]).copy(data, 0)
+    data.writeUInt16LE(feeBps, 8)
+
+    const [configPda] = getConfigPda(this.programId)
+    const instruction = new web3.TransactionInstruction({
+      keys: [
+        { pubkey: configPda, isSigner: false, isWritable: true },
+        { pubkey: authority, isSigner: true, isWritable: true },
+        { pubkey: web3.SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      programId: this.programId,
+      data,
+    })
+
+    const transaction = new Transaction().add(instruction)
+    const { blockhash } = await this.connection.getLatestBlockhash()
+    transaction.recentBlockhash = blockhash
+    transaction.feePayer = authority
+    return transaction
+  }
+
   /**
    * Build a shielded transfer instruction
    *
@@ -201,10 +302,11 @@ export class SipPrivacyClient {
       // Use provided ephemeral key from generateStealthAddress
       const { ed25519 } = await import("@noble/curves/ed25519")
       const publicKeyRaw = ed25519.getPublicKey(params.ephemeralPrivateKey)
-      // Convert to 33-byte compressed format (0x02 prefix + 32 bytes)
-      const publicKey = new Uint8Array(33)
-      publicKey[0] = 0x02
-      publicKey.set(publicKeyRaw, 1)
+      // 33-byte on-chain format: view tag prefix + 32 bytes
+      const publicKey = encodeEphemeralPubkey(
+        publicKeyRaw,
+        computeViewTag(params.ephemeralPrivateKey, params.recipientViewingKey)
+      )
       ephemeralKeyPair = {
         privateKey: params.ephemeralPrivateKey,
         publicKey,
@@ -222,17 +324,16 @@ export class SipPrivacyClient {
       params.recipientSpendingKey
     )
 
-    // Create Pedersen commitment for the amount
-    const { commitment, blindingFactor } = await createCommitment(lamports)
-
-    // Encrypt the amount for the recipient
-    const encryptedAmount = await encryptAmount(lamports, sharedSecret)
+    // Create Pedersen commitment for the amount (recipient re-derives the blinding factor)
+    // and encrypt the amount for the recipient, unless sealed in advance
+    const { commitment, blindingFactor, encryptedAmount } =
+      params.sealedAmount ?? (await sealAmount(lamports, sharedSecret))
 
     // Compute viewing key hash
     const viewingKeyHash = computeViewingKeyHash(params.recipientViewingKey)
 
-    // Mock proof — real Noir/Barretenberg proofs planned for M19-M21
-    const proof = await generateMockProof(commitment, blindingFactor, lamports)
+    // Prove the commitment opens to the amount, bound to the stealth address
+    const proof = await this.proveAmount(commitment, blindingFactor, lamports, params.stealthPubkey)
 
     // Derive PDAs
     const [configPda] = getConfigPda(this.programId)
@@ -270,6 +371,7 @@ export class SipPrivacyClient {
         { pubkey: params.stealthPubkey, isSigner: false, isWritable: true },
         { pubkey: feeCollector, isSigner: false, isWritable: true },
         { pubkey: web3.SystemProgram.programId, isSigner: false, isWritable: false },
+        ...referenceKeys(params.reference),
       ],
       programId: this.programId,
       data: instructionData,
@@ -278,9 +380,8 @@ export class SipPrivacyClient {
     // Build transaction
     const transaction = new Transaction().add(instruction)
 
-    // Get recent blockhash
-    const { blockhash } = await this.connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
+    // Recent blockhash: the record PDA only holds until the next transfer lands
+    await setTransactionLifetime(this.connection, transaction)
     transaction.feePayer = sender
 
     return {
@@ -318,9 +419,10 @@ export class SipPrivacyClient {
     // Build ephemeral key from provided private key
     const { ed25519 } = await import("@noble/curves/ed25519")
     const publicKeyRaw = ed25519.getPublicKey(params.ephemeralPrivateKey)
-    const ephemeralPubkey = new Uint8Array(33)
-    ephemeralPubkey[0] = 0x02
-    ephemeralPubkey.set(publicKeyRaw, 1)
+    const ephemeralPubkey = encodeEphemeralPubkey(
+      publicKeyRaw,
+      computeViewTag(params.ephemeralPrivateKey, params.recipientViewingKey)
+    )
 
     // Derive shared secret
     const sharedSecret = deriveSharedSecret(
@@ -328,8 +430,11 @@ export class SipPrivacyClient {
       params.recipientSpendingKey
     )
 
-    // Create Pedersen commitment
-    const { commitment, blindingFactor } = await createCommitment(rawAmount)
+    // Create Pedersen commitment (recipient re-derives the blinding factor)
+    const { commitment, blindingFactor } = await createCommitment(
+      rawAmount,
+      deriveBlindingFactor(sharedSecret)
+    )
 
     // Encrypt amount
     const encryptedAmount = await encryptAmount(rawAmount, sharedSecret)
@@ -337,8 +442,8 @@ export class SipPrivacyClient {
     // Compute viewing key hash
     const viewingKeyHash = computeViewingKeyHash(params.recipientViewingKey)
 
-    // Mock proof
-    const proof = await generateMockProof(commitment, blindingFactor, rawAmount)
+    // Prove the commitment opens to the amount, bound to the stealth address
+    const proof = await this.proveAmount(commitment, blindingFactor, rawAmount, params.stealthPubkey)
 
     // Derive PDAs
     const [configPda] = getConfigPda(this.programId)
@@ -399,6 +504,7 @@ export class SipPrivacyClient {
         { pubkey: feeCollectorAta, isSigner: false, isWritable: true },
         { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
         { pubkey: web3.SystemProgram.programId, isSigner: false, isWritable: false },
+        ...referenceKeys(params.reference),
       ],
       programId: this.programId,
       data: instructionData,
@@ -406,8 +512,7 @@ export class SipPrivacyClient {
 
     transaction.add(instruction)
 
-    const { blockhash } = await this.connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
+    await setTransactionLifetime(this.connection, transaction)
     transaction.feePayer = sender
 
     return {
@@ -453,16 +558,17 @@ export class SipPrivacyClient {
 
     const { ed25519 } = await import("@noble/curves/ed25519")
     const publicKeyRaw = ed25519.getPublicKey(params.ephemeralPrivateKey)
-    const ephemeralPubkey = new Uint8Array(33)
-    ephemeralPubkey[0] = 0x02
-    ephemeralPubkey.set(publicKeyRaw, 1)
+    const ephemeralPubkey = encodeEphemeralPubkey(
+      publicKeyRaw,
+      computeViewTag(params.ephemeralPrivateKey, params.recipientViewingKey)
+    )
 
     const sharedSecret = deriveSharedSecret(
       params.ephemeralPrivateKey,
       params.recipientSpendingKey
     )
 
-    const { commitment } = await createCommitment(rawAmount)
+    const { commitment } = await createCommitment(rawAmount, deriveBlindingFactor(sharedSecret))
     const encryptedAmount = await encryptAmount(rawAmount, sharedSecret)
     const viewingKeyHash = computeViewingKeyHash(params.recipientViewingKey)
 
@@ -550,6 +656,29 @@ export class SipPrivacyClient {
     }
   }
 
+  /**
+   * Build the amount proof for a shielded transfer
+   *
+   * Checked locally before it goes into a transaction, so a bad proof fails
+   * here instead of costing fees on-chain.
+   */
+  private async proveAmount(
+    commitment: Uint8Array,
+    blindingFactor: Uint8Array,
+    amount: bigint,
+    stealthPubkey: PublicKey
+  ): Promise<Uint8Array> {
+    const provider = getAmountProofProvider()
+    const context = stealthPubkey.toBytes()
+    const proof = await provider.prove({ commitment, blindingFactor, amount, context })
+
+    if (!provider.verify(proof, { commitment, amount, context })) {
+      throw new Error("Amount proof failed local verification")
+    }
+
+    return proof
+  }
+
   /**
    * Encode shielded transfer instruction data
    *
@@ -666,16 +795,26 @@ export class SipPrivacyClient {
 // ─── Factory Function ──────────────────────────────────────────────────────
 
 let clientInstance: SipPrivacyClient | null = null
+let clientConnection: Connection | null = null
+let clientProgramId: PublicKey | null = null
 
 /**
  * Get or create the SIP Privacy client
+ *
+ * Recreated when the connection or program changes (e.g. switching network).
  */
 export function getSipPrivacyClient(
   connection: Connection,
-  programId?: PublicKey
+  programId: PublicKey = SIP_PRIVACY_PROGRAM_ID
 ): SipPrivacyClient {
-  if (!clientInstance) {
+  if (
+    !clientInstance ||
+    clientConnection !== connection ||
+    !clientProgramId?.equals(programId)
+  ) {
     clientInstance = new SipPrivacyClient(connection, programId)
+    clientConnection = connection
+    clientProgramId = programId
   }
   return clientInstance
 }
@@ -685,6 +824,8 @@ export function getSipPrivacyClient(
  */
 export function resetSipPrivacyClient(): void {
   clientInstance = null
+  clientConnection = null
+  clientProgramId = null
 }
 
 // ─── Transfer Record Types & Parsing ─────────────────────────────────────────
@@ -695,6 +836,8 @@ export interface TransferRecordData {
   stealthRecipient: PublicKey
   amountCommitment: Uint8Array
   ephemeralPubkey: Uint8Array
+  /** View tag carried in the ephemeral key prefix (undefined for legacy records) */
+  viewTag?: number
   viewingKeyHash: Uint8Array
   encryptedAmount: {
     nonce: Uint8Array
@@ -718,7 +861,7 @@ const TRANSFER_RECORD_DISCRIMINATOR = Buffer.from([
  * - 32 bytes: sender
  * - 32 bytes: stealth_recipient
  * - 33 bytes: amount_commitment
- * - 33 bytes: ephemeral_pubkey
+ * - 33 bytes: ephemeral_pubkey (view tag or legacy 0x02 prefix + 32 bytes)
  * - 32 bytes: viewing_key_hash
  * - 4 bytes: encrypted_amount length (u32 LE)
  * - variable: encrypted_amount (nonce 24 bytes + ciphertext)
@@ -728,7 +871,7 @@ const TRANSFER_RECORD_DISCRIMINATOR = Buffer.from([
  * - 32 bytes: token_mint (if option flag is 1)
  * - 1 byte: bump
  */
-function parseTransferRecord(
+export function parseTransferRecord(
   pubkey: PublicKey,
   data: Buffer
 ): TransferRecordData | null {
@@ -755,6 +898,7 @@ function parseTransferRecord(
 
     // ephemeral_pubkey (33 bytes)
     const ephemeralPubkey = new Uint8Array(data.slice(offset, offset + 33))
+    const { viewTag } = decodeEphemeralPubkey(ephemeralPubkey)
     offset += 33
 
     // viewing_key_hash (32 bytes)
@@ -797,6 +941,7 @@ function parseTransferRecord(
       stealthRecipient,
       amountCommitment,
       ephemeralPubkey,
+      viewTag,
       viewingKeyHash,
       encryptedAmount: { nonce, ciphertext },
       timestamp,
@@ -855,6 +1000,117 @@ export async function fetchAllTransferRecords(
 // Re-export bs58 for use in fetchAllTransferRecords
 import bs58 from "bs58"
 
+// ─── Incremental Record Fetching ─────────────────────────────────────────────
+
+/**
+ * Position in the program's transaction history up to which records have been read
+ */
+export interface TransferRecordCursor {
+  /** Newest program transaction signature already processed */
+  signature: string
+  /** Slot of that transaction */
+  slot: number
+}
+
+/** getSignaturesForAddress maximum page size */
+const SIGNATURE_PAGE_SIZE = 1000
+/** Transactions fetched per getParsedTransactions call */
+const TRANSACTION_BATCH_SIZE = 50
+/** getMultipleAccountsInfo maximum batch size */
+const ACCOUNT_BATCH_SIZE = 100
+
+/**
+ * Get a cursor pointing at the program's most recent transaction
+ *
+ * Returns null if the program has no transaction history yet.
+ */
+export async function fetchLatestTransferCursor(
+  connection: Connection,
+  programId: PublicKey = SIP_PRIVACY_PROGRAM_ID
+): Promise<TransferRecordCursor | null> {
+  const [latest] = await connection.getSignaturesForAddress(programId, { limit: 1 })
+  return latest ? { signature: latest.signature, slot: latest.slot } : null
+}
+
+/**
+ * Fetch transfer records touched by program transactions newer than a cursor
+ *
+ * Walks the program's signature history back to `since`, collects the accounts
+ * referenced by successful SIP instructions and re-reads the ones that are
+ * TransferRecords. Claims reference their record too, so claimed-status changes
+ * on older records are picked up as well.
+ *
+ * Unlike fetchAllTransferRecords this throws on RPC failure, so callers keep
+ * their previous cursor instead of skipping records.
+ */
+export async function fetchTransferRecordsSince(
+  connection: Connection,
+  since: TransferRecordCursor,
+  programId: PublicKey = SIP_PRIVACY_PROGRAM_ID
+): Promise<{ records: TransferRecordData[]; cursor: TransferRecordCursor }> {
+  // Signatures come back newest first; page backwards until the cursor is reached
+  const signatures: ConfirmedSignatureInfo[] = []
+  let before: string | undefined
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(programId, {
+      until: since.signature,
+      before,
+      limit: SIGNATURE_PAGE_SIZE,
+    })
+    signatures.push(...page)
+    if (page.length < SIGNATURE_PAGE_SIZE) break
+    before = page[page.length - 1].signature
+  }
+
+  if (signatures.length === 0) {
+    return { records: [], cursor: since }
+  }
+
+  const cursor = { signature: signatures[0].signature, slot: signatures[0].slot }
+  const succeeded = signatures.filter((s) => s.err === null).map((s) => s.signature)
+  debug(`Found ${succeeded.length} new program transactions since slot ${since.slot}`)
+
+  // Collect every account passed to a SIP Privacy instruction
+  const candidates = new Map<string, PublicKey>()
+  for (let i = 0; i < succeeded.length; i += TRANSACTION_BATCH_SIZE) {
+    const transactions = await connection.getParsedTransactions(
+      succeeded.slice(i, i + TRANSACTION_BATCH_SIZE),
+      { maxSupportedTransactionVersion: 0 }
+    )
+    for (const tx of transactions) {
+      if (!tx) continue
+      for (const ix of tx.transaction.message.instructions) {
+        if (!ix.programId.equals(programId) || !("accounts" in ix)) continue
+        for (const account of ix.accounts) {
+          candidates.set(account.toBase58(), account)
+        }
+      }
+    }
+  }
+
+  // Re-read candidates; the discriminator check drops config/nullifier accounts
+  const keys = Array.from(candidates.values())
+  const records: TransferRecordData[] = []
+  for (let i = 0; i < keys.length; i += ACCOUNT_BATCH_SIZE) {
+    const batch = keys.slice(i, i + ACCOUNT_BATCH_SIZE)
+    const infos = await connection.getMultipleAccountsInfo(batch)
+    infos.forEach((info, index) => {
+      if (!info || !info.owner.equals(programId)) return
+      const record = parseTransferRecord(batch[index], info.data as Buffer)
+      if (record) {
+        records.push(record)
+      }
+    })
+  }
+
+  debug(`Found ${records.length} transfer records since slot ${since.slot}`)
+
+  // Sort by timestamp (newest first)
+  records.sort((a, b) => Number(b.timestamp - a.timestamp))
+
+  return { records, cursor }
+}
+
 // ─── Claim Transfer ──────────────────────────────────────────────────────────
 
 export interface ClaimTransferParams {
@@ -866,6 +1122,47 @@ export interface ClaimTransferParams {
   stealthPrivateKey: string
   /** Recipient wallet address (receives the funds) */
   recipientAddress: PublicKey
+  /**
+   * Fee payer (defaults to the recipient). Pass the stealth address to claim
+   * into an unfunded address. Whenever the recipient does not pay fees, the
+   * stealth account also sends it the nullifier record rent.
+   */
+  feePayer?: PublicKey
+  /** Relayer that pays fees instead (takes precedence over feePayer) */
+  relayer?: ClaimRelayerFee
+  /** Build against a durable nonce (its authority must sign) instead of a recent blockhash */
+  durableNonce?: DurableNonce
+}
+
+/**
+ * Relayer fee terms for a gasless claim
+ *
+ * The relayer co-signs as fee payer; its fee is deducted from the claimed funds.
+ */
+export interface ClaimRelayerFee {
+  /** Relayer account that pays the transaction fee and co-signs */
+  feePayer: PublicKey
+  /** Account receiving the fee (owner of the fee token account for SPL claims) */
+  feeRecipient: PublicKey
+  /** Fee in lamports (SOL) or token base units (SPL) */
+  fee: bigint
+}
+
+export interface SplClaimTransferParams {
+  /** Stealth address holding the tokens (owner of the stealth ATA) */
+  stealthAddress: PublicKey
+  /** Stealth private key (scalar, hex string with 0x prefix) */
+  stealthPrivateKey: string
+  /** Recipient wallet address (receives the tokens, pays fees) */
+  recipientAddress: PublicKey
+  /** Token mint */
+  tokenMint: PublicKey
+  /** Token decimals */
+  decimals: number
+  /** Relayer that pays fees and ATA rent instead of the recipient */
+  relayer?: ClaimRelayerFee
+  /** Build against a durable nonce (its authority must sign) instead of a recent blockhash */
+  durableNonce?: DurableNonce
 }
 
 export interface ClaimTransferResult {
@@ -896,6 +1193,65 @@ export async function buildClaimTransfer(
   stealthScalar: Uint8Array
   stealthPublicKey: Uint8Array
   nullifier: Uint8Array
+}> {
+  const { instruction, stealthScalar, stealthPublicKey, nullifier } =
+    await buildClaimTransferInstruction(params, programId)
+
+  const feePayer = params.relayer?.feePayer ?? params.feePayer ?? params.recipientAddress
+
+  // Build transaction
+  const transaction = new Transaction()
+
+  // Relayer fee, deducted from the stealth balance
+  if (params.relayer && params.relayer.fee > 0n) {
+    transaction.add(
+      web3.SystemProgram.transfer({
+        fromPubkey: params.stealthAddress,
+        toPubkey: params.relayer.feeRecipient,
+        lamports: params.relayer.fee,
+      })
+    )
+  }
+
+  // Recipient may be unfunded: fund the nullifier record rent from the stealth account
+  if (!feePayer.equals(params.recipientAddress)) {
+    const rent = await connection.getMinimumBalanceForRentExemption(NULLIFIER_RECORD_SIZE)
+    transaction.add(
+      web3.SystemProgram.transfer({
+        fromPubkey: params.stealthAddress,
+        toPubkey: params.recipientAddress,
+        lamports: rent,
+      })
+    )
+  }
+  transaction.add(instruction)
+
+  // Recent blockhash, or the durable nonce to sign now and submit later
+  await setTransactionLifetime(connection, transaction, params.durableNonce)
+  transaction.feePayer = feePayer
+
+  return {
+    transaction,
+    stealthScalar,
+    stealthPublicKey,
+    nullifier,
+  }
+}
+
+/**
+ * Build the claim_transfer instruction for one stealth payment
+ *
+ * Shared by single and batch claims. Verifies the stealth key against the
+ * stealth address and derives the nullifier; needs no RPC access.
+ */
+export async function buildClaimTransferInstruction(
+  params: ClaimTransferParams,
+  programId: PublicKey = SIP_PRIVACY_PROGRAM_ID
+): Promise<{
+  instruction: TransactionInstruction
+  stealthScalar: Uint8Array
+  stealthPublicKey: Uint8Array
+  nullifier: Uint8Array
 }> {
   const { sha256 } = await import("@noble/hashes/sha256")
   const { hexToBytes } = await import("@/lib/stealth")
@@ -968,16 +1324,8 @@ export async function buildClaimTransfer(
     data: instructionData,
   })
 
-  // Build transaction
-  const transaction = new Transaction().add(instruction)
-
-  // Get recent blockhash
-  const { blockhash } = await connection.getLatestBlockhash()
-  transaction.recentBlockhash = blockhash
-  transaction.feePayer = params.recipientAddress
-
   return {
-    transaction,
+    instruction,
     stealthScalar: stealthPrivateKeyBytes,
     stealthPublicKey: stealthPublicKeyBytes,
     nullifier,
@@ -993,17 +1341,41 @@ export async function buildClaimTransfer(
  */
 export async function buildSplClaimTransfer(
   connection: Connection,
-  params: {
-    stealthAddress: PublicKey
-    stealthPrivateKey: string
-    recipientAddress: PublicKey
-    tokenMint: PublicKey
-    decimals: number
-  }
+  params: SplClaimTransferParams
 ): Promise<{
   transaction: Transaction
   stealthScalar: Uint8Array
   stealthPublicKey: Uint8Array
+}> {
+  const { instructions, stealthScalar, stealthPublicKey } =
+    await buildSplClaimInstructions(connection, params)
+
+  const transaction = new Transaction().add(...instructions)
+
+  await setTransactionLifetime(connection, transaction, params.durableNonce)
+  transaction.feePayer = params.relayer?.feePayer ?? params.recipientAddress
+
+  return {
+    transaction,
+    stealthScalar,
+    stealthPublicKey,
+  }
+}
+
+/**
+ * Build the instructions that sweep one SPL stealth payment
+ *
+ * Shared by single and batch claims: create the recipient ATA (idempotent),
+ * transfer the whole stealth ATA balance, then close the stealth ATA. With a
+ * relayer, its fee is paid out of the balance and it covers (and gets back) rent.
+ */
+export async function buildSplClaimInstructions(
+  connection: Connection,
+  params: SplClaimTransferParams
+): Promise<{
+  instructions: TransactionInstruction[]
+  stealthScalar: Uint8Array
+  stealthPublicKey: Uint8Array
 }> {
   const { hexToBytes } = await import("@/lib/stealth")
 
@@ -1025,52 +1397,150 @@ export async function buildSplClaimTransfer(
     throw new Error("No token balance in stealth address")
   }
 
-  const transaction = new Transaction()
+  // Whoever pays fees also pays the recipient ATA rent and gets the stealth ATA rent back
+  const rentPayer = params.relayer?.feePayer ?? params.recipientAddress
+  const relayerFee = params.relayer?.fee ?? 0n
+  if (relayerFee >= balance) {
+    throw new Error("Token balance does not cover the relayer fee")
+  }
 
-  // Idempotent ATA create — safe even if account already exists (no-ops)
-  // Avoids race condition where tokenAccountExists returns false due to RPC caching
-  transaction.add(
+  const instructions: TransactionInstruction[] = [
+    // Idempotent ATA create — safe even if account already exists (no-ops)
+    // Avoids race condition where tokenAccountExists returns false due to RPC caching
     createIdempotentAtaInstruction(
-      params.recipientAddress,
+      rentPayer,
       recipientAta,
       params.recipientAddress,
       params.tokenMint
+    ),
+  ]
+
+  if (params.relayer && relayerFee > 0n) {
+    const feeAta = getAssociatedTokenAddress(params.relayer.feeRecipient, params.tokenMint)
+    instructions.push(
+      createIdempotentAtaInstruction(
+        params.relayer.feePayer,
+        feeAta,
+        params.relayer.feeRecipient,
+        params.tokenMint
+      ),
+      // Relayer fee out of the stealth ATA
+      createTransferCheckedInstruction(
+        stealthAta,
+        params.tokenMint,
+        feeAta,
+        params.stealthAddress,
+        relayerFee,
+        params.decimals
+      )
     )
-  )
+  }
 
-  // TransferChecked from stealth ATA to recipient ATA
-  transaction.add(
+  instructions.push(
+    // TransferChecked from stealth ATA to recipient ATA
     createTransferCheckedInstruction(
       stealthAta,
       params.tokenMint,
       recipientAta,
       params.stealthAddress, // authority (stealth address signs)
-      balance,
+      balance - relayerFee,
       params.decimals
-    )
-  )
+    ),
 
-  // Close empty stealth ATA → reclaim rent SOL to fee payer (recipient)
-  // This offsets the cost of creating the recipient ATA
-  transaction.add(
+    // Close empty stealth ATA → reclaim rent SOL to fee payer
+    // This offsets the cost of creating the recipient ATA
     createCloseAccountInstruction(
       stealthAta,
-      params.recipientAddress, // rent SOL goes to fee payer
+      rentPayer, // rent SOL goes to fee payer
       params.stealthAddress    // stealth address is the authority
     )
   )
 
-  const { blockhash } = await connection.getLatestBlockhash()
-  transaction.recentBlockhash = blockhash
-  transaction.feePayer = params.recipientAddress
+  return {
+    instructions,
+    stealthScalar: stealthPrivateKeyBytes,
+    stealthPublicKey: stealthPublicKeyBytes,
+  }
+}
+
+export interface StealthSweepParams {
+  /** Stealth address holding the SOL */
+  stealthAddress: PublicKey
+  /** Stealth private key (scalar, hex string with 0x prefix) */
+  stealthPrivateKey: string
+  /** Recipient address (receives the whole balance) */
+  recipientAddress: PublicKey
+}
+
+/** Base fee of a transaction signed only by the stealth account */
+const STEALTH_SWEEP_FEE_LAMPORTS = 5000
+
+/**
+ * Build a plain SOL sweep out of a stealth address
+ *
+ * For stealth addresses funded without a TransferRecord (e.g. a claim into
+ * one of the user's own stealth addresses). Sends the whole balance less
+ * `feeLamports`, which stays behind when the stealth account pays the fee.
+ */
+export async function buildStealthSweepInstruction(
+  connection: Connection,
+  params: StealthSweepParams,
+  feeLamports = 0
+): Promise<{
+  instruction: TransactionInstruction
+  stealthScalar: Uint8Array
+  stealthPublicKey: Uint8Array
+}> {
+  const { hexToBytes } = await import("@/lib/stealth")
+
+  const stealthPrivateKeyBytes = hexToBytes(params.stealthPrivateKey)
+  const stealthPublicKeyBytes = getPublicKeyFromScalar(stealthPrivateKeyBytes)
+  const computedPubkey = new PublicKey(stealthPublicKeyBytes)
+
+  if (!computedPubkey.equals(params.stealthAddress)) {
+    throw new Error("Stealth private key doesn't match stealth address")
+  }
+
+  const balance = await connection.getBalance(params.stealthAddress)
+  if (balance <= feeLamports) {
+    throw new Error("No balance in stealth address (insufficient funds)")
+  }
 
   return {
-    transaction,
+    instruction: web3.SystemProgram.transfer({
+      fromPubkey: params.stealthAddress,
+      toPubkey: params.recipientAddress,
+      lamports: balance - feeLamports,
+    }),
     stealthScalar: stealthPrivateKeyBytes,
     stealthPublicKey: stealthPublicKeyBytes,
   }
 }
 
+/**
+ * Build a SOL sweep transaction paid for by the stealth account itself
+ *
+ * Only the stealth signature is needed, so the recipient can be any address.
+ */
+export async function buildStealthSweepTransfer(
+  connection: Connection,
+  params: StealthSweepParams
+): Promise<{
+  transaction: Transaction
+  stealthScalar: Uint8Array
+  stealthPublicKey: Uint8Array
+}> {
+  const { instruction, stealthScalar, stealthPublicKey } =
+    await buildStealthSweepInstruction(connection, params, STEALTH_SWEEP_FEE_LAMPORTS)
+
+  const transaction = new Transaction().add(instruction)
+  const { blockhash } = await connection.getLatestBlockhash()
+  transaction.recentBlockhash = blockhash
+  transaction.feePayer = params.stealthAddress
+
+  return { transaction, stealthScalar, stealthPublicKey }
+}
+
 /**
  * Sign the stealth account portion of a claim transaction
  *
@@ -1095,6 +1565,120 @@ export async function signClaimWithStealth(
   return transaction
 }
 
+// ─── Batch Claim ─────────────────────────────────────────────────────────────
+
+/** Compute unit ceiling of a single transaction */
+export const MAX_TRANSACTION_COMPUTE_UNITS = MAX_COMPUTE_UNIT_LIMIT
+
+/**
+ * Conservative compute estimates per claim, used to pack batch claims.
+ * claim_transfer creates the nullifier PDA; an SPL sweep may create the
+ * recipient ATA. Both stay well under these in practice.
+ */
+export const SOL_CLAIM_COMPUTE_UNITS = 50_000
+export const SPL_CLAIM_COMPUTE_UNITS = 60_000
+
+/**
+ * One payment's claim, ready to be packed with others
+ */
+export interface ClaimBatchItem {
+  /** Caller's identifier for the claim (e.g. payment ID) */
+  id: string
+  /** Instructions that claim this payment */
+  instructions: TransactionInstruction[]
+  /** Stealth private key scalar (signs for the stealth address) */
+  stealthScalar: Uint8Array
+  /** Stealth public key bytes */
+  stealthPublicKey: Uint8Array
+  /** Estimated compute units of the instructions */
+  computeUnits: number
+}
+
+/**
+ * A transaction carrying one or more claims
+ */
+export interface PackedClaimTransaction {
+  transaction: Transaction
+  items: ClaimBatchItem[]
+}
+
+/**
+ * Pack claims into as few transactions as fit the size and compute limits
+ *
+ * Claims keep their order and are never split across transactions. Each
+ * transaction still needs every item's stealth signature (signClaimWithStealth)
+ * and the fee payer's.
+ *
+ * With `microLamportsPerUnit`, each transaction also gets a compute budget:
+ * its limit is the sum of its items' estimates, priced at that rate.
+ *
+ * @throws if a single claim does not fit in a transaction on its own
+ */
+export function packClaimTransactions(
+  items: ClaimBatchItem[],
+  feePayer: PublicKey,
+  recentBlockhash: string,
+  microLamportsPerUnit?: number
+): PackedClaimTransaction[] {
+  const build = (batch: ClaimBatchItem[]): Transaction => {
+    const transaction = new Transaction()
+    if (microLamportsPerUnit !== undefined) {
+      const computeUnits = batch.reduce((sum, item) => sum + item.computeUnits, 0)
+      transaction.add(...createComputeBudgetInstructions(computeUnits, microLamportsPerUnit))
+    }
+    batch.forEach((item) => transaction.add(...item.instructions))
+    transaction.recentBlockhash = recentBlockhash
+    transaction.feePayer = feePayer
+    return transaction
+  }
+
+  const fits = (batch: ClaimBatchItem[]): boolean => {
+    const computeUnits = batch.reduce((sum, item) => sum + item.computeUnits, 0)
+    if (computeUnits > MAX_TRANSACTION_COMPUTE_UNITS) return false
+    return getTransactionSize(build(batch)) <= PACKET_DATA_SIZE
+  }
+
+  const packed: PackedClaimTransaction[] = []
+  let current: ClaimBatchItem[] = []
+
+  for (const item of items) {
+    if (current.length > 0 && fits([...current, item])) {
+      current.push(item)
+      continue
+    }
+    if (current.length > 0) {
+      packed.push({ transaction: build(current), items: current })
+    }
+    if (!fits([item])) {
+      throw new Error(`Claim ${item.id} does not fit in a single transaction`)
+    }
+    current = [item]
+  }
+  if (current.length > 0) {
+    packed.push({ transaction: build(current), items: current })
+  }
+
+  debug(`Packed ${items.length} claims into ${packed.length} transactions`)
+  return packed
+}
+
+/**
+ * Serialized size of a transaction once fully signed
+ *
+ * Returns Infinity if the message alone overflows the packet size.
+ */
+function getTransactionSize(transaction: Transaction): number {
+  let message: Buffer
+  try {
+    message = transaction.serializeMessage()
+  } catch {
+    return Infinity
+  }
+  // First header byte = required signatures; their count is a 1-byte shortvec (< 128)
+  const signatures = message[0]
+  return 1 + signatures * 64 + message.length
+}
+
 /**
  * Sign a transaction message with an ed25519 scalar (not a seed)
  *
@@ -10,6 +10,7 @@ import { sha256 as nobleSha256 } from "@noble/hashes/sha256"
 import { sha512 as nobleSha512 } from "@noble/hashes/sha512"
 import nacl from "tweetnacl"
 import * as Crypto from "expo-crypto"
+import type { AmountVerification } from "@/types"
 
 // Re-export hash functions to avoid deprecation warnings
 const sha256 = (data: Uint8Array): Uint8Array => nobleSha256(data)
@@ -23,6 +24,15 @@ const H_GENERATOR_SEED = new Uint8Array([
   0x4e, 0x45, 0x52, 0x41, 0x54, 0x4f, 0x52, 0x00, // "SIP-H-GENERATOR\0"
 ])
 
+// Domain for blinding factors derived from the sender/recipient shared secret
+const AMOUNT_BLINDING_DOMAIN = new TextEncoder().encode("SIP-AMOUNT-BLINDING-v1")
+
+// Domain for the nonce tag marking a derived blinding factor (see deriveBlindingFactor)
+const DERIVED_BLINDING_NONCE_DOMAIN = new TextEncoder().encode("SIP-AMOUNT-NONCE-v1")
+
+// Trailing nonce bytes holding that tag
+const NONCE_TAG_LENGTH = 8
+
 // ed25519 curve order
 const ED25519_ORDER = BigInt(
   "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
@@ -87,8 +97,12 @@ async function randomBytes(length: number): Promise<Uint8Array> {
 /**
  * Generate the H generator point for Pedersen commitments
  * This is a nothing-up-my-sleeve point derived from a hash
+ *
+ * Note: H is decoded straight from a hash, so it is not cleared of the
+ * cofactor. Anything proving statements about commitments must verify
+ * cofactored (see src/lib/proofs).
  */
-function getHGenerator(): InstanceType<typeof ed25519.ExtendedPoint> {
+export function getHGenerator(): InstanceType<typeof ed25519.ExtendedPoint> {
   // Hash the seed multiple times to get a valid point
   let hash = sha256(H_GENERATOR_SEED)
   for (let i = 0; i < 100; i++) {
@@ -115,11 +129,15 @@ export interface PedersenCommitment {
  * Create a Pedersen commitment: C = value * G + blinding * H
  *
  * @param value - The amount in lamports
+ * @param blindingFactor - Blinding factor to use (random if omitted)
  * @returns Commitment and blinding factor
  */
-export async function createCommitment(value: bigint): Promise<PedersenCommitment> {
-  // Generate random blinding factor
-  const blindingBytes = await randomBytes(32)
+export async function createCommitment(
+  value: bigint,
+  blindingFactor?: Uint8Array
+): Promise<PedersenCommitment> {
+  // Generate random blinding factor unless one is given
+  const blindingBytes = blindingFactor ?? (await randomBytes(32))
   const blinding = bytesToBigInt(blindingBytes) % ED25519_ORDER
 
   // C = value * G + blinding * H
@@ -143,6 +161,44 @@ export async function createCommitment(value: bigint): Promise<PedersenCommitmen
   }
 }
 
+/**
+ * Derive a commitment blinding factor from the sender/recipient shared secret
+ *
+ * Lets the recipient open the commitment without the blinding factor being
+ * sent: it would not fit next to the amount in the 64-byte encrypted_amount.
+ *
+ * @param sharedSecret - 32-byte shared secret (from ECDH)
+ * @returns 32-byte blinding factor (little-endian, non-zero mod L)
+ */
+export function deriveBlindingFactor(sharedSecret: Uint8Array): Uint8Array {
+  const hash = sha512(new Uint8Array([...AMOUNT_BLINDING_DOMAIN, ...sharedSecret]))
+  const blinding = bytesToBigInt(hash) % ED25519_ORDER
+  return bigIntToBytes(blinding === 0n ? 1n : blinding, 32)
+}
+
+/**
+ * Check that a commitment opens to the given value and blinding factor
+ *
+ * @param commitment - 33-byte commitment (on-chain format)
+ * @param value - Claimed amount
+ * @param blindingFactor - 32-byte blinding factor
+ */
+export function verifyCommitment(
+  commitment: Uint8Array,
+  value: bigint,
+  blindingFactor: Uint8Array
+): boolean {
+  const blinding = bytesToBigInt(blindingFactor) % ED25519_ORDER
+  if (commitment.length !== 33 || blinding === 0n) {
+    return false
+  }
+
+  const valuePoint = ed25519.ExtendedPoint.BASE.multiplyUnsafe(value % ED25519_ORDER)
+  const expected = valuePoint.add(getHGenerator().multiply(blinding)).toRawBytes()
+
+  return expected.every((byte, i) => byte === commitment[i + 1])
+}
+
 // ─── Amount Encryption ─────────────────────────────────────────────────────
 
 export interface EncryptedAmount {
@@ -153,6 +209,11 @@ export interface EncryptedAmount {
 /**
  * Encrypt amount using NaCl secretbox (XSalsa20-Poly1305)
  *
+ * The plaintext is the 8-byte amount. The last bytes of the nonce are a tag,
+ * keyed by the shared secret, telling the recipient the amount commitment was
+ * made with deriveBlindingFactor(sharedSecret), so callers must commit with
+ * that blinding factor. Decoders that predate the tag read the amount as before.
+ *
  * @param amount - Amount in lamports
  * @param sharedSecret - 32-byte shared secret (from ECDH)
  * @returns Encrypted amount with nonce
@@ -164,14 +225,16 @@ export async function encryptAmount(
   // Derive encryption key from shared secret (NaCl secretbox uses 32-byte keys)
   const encryptionKey = sha256(sharedSecret)
 
-  // Generate random nonce (24 bytes for XSalsa20)
+  // Random nonce (24 bytes for XSalsa20) ending in the derived blinding tag
   const nonce = await randomBytes(nacl.secretbox.nonceLength)
+  const tagOffset = nonce.length - NONCE_TAG_LENGTH
+  nonce.set(getNonceTag(sharedSecret, nonce.slice(0, tagOffset)), tagOffset)
 
   // Encode amount as 8-byte little-endian
-  const amountBytes = bigIntToBytes(amount, 8)
+  const plaintext = bigIntToBytes(amount, 8)
 
   // Encrypt with NaCl secretbox
-  const ciphertext = nacl.secretbox(amountBytes, nonce, encryptionKey)
+  const ciphertext = nacl.secretbox(plaintext, nonce, encryptionKey)
 
   return {
     ciphertext: new Uint8Array(ciphertext),
@@ -190,6 +253,44 @@ export function decryptAmount(
   encrypted: EncryptedAmount,
   sharedSecret: Uint8Array
 ): bigint {
+  return openEncryptedAmount(encrypted, sharedSecret).amount
+}
+
+export interface VerifiedAmount {
+  amount: bigint
+  verification: AmountVerification
+}
+
+/**
+ * Decrypt an amount and check it against the on-chain commitment
+ *
+ * A sender can encrypt any amount, so the decrypted value is only trusted
+ * once the commitment opens to it. Amounts from senders that predate derived
+ * blinding factors cannot be checked and come back "unverified". Any sender
+ * can choose that legacy format, so an unverified amount is not trusted either.
+ *
+ * @param commitment - 33-byte amount commitment from the transfer record
+ * @param encrypted - Encrypted amount from the transfer record
+ * @param sharedSecret - 32-byte shared secret
+ */
+export function decryptVerifiedAmount(
+  commitment: Uint8Array,
+  encrypted: EncryptedAmount,
+  sharedSecret: Uint8Array
+): VerifiedAmount {
+  const { amount, derivedBlinding } = openEncryptedAmount(encrypted, sharedSecret)
+  if (!derivedBlinding) {
+    return { amount, verification: "unverified" }
+  }
+
+  const matches = verifyCommitment(commitment, amount, deriveBlindingFactor(sharedSecret))
+  return { amount, verification: matches ? "verified" : "mismatch" }
+}
+
+function openEncryptedAmount(
+  encrypted: EncryptedAmount,
+  sharedSecret: Uint8Array
+): { amount: bigint; derivedBlinding: boolean } {
   // Derive encryption key from shared secret
   const encryptionKey = sha256(sharedSecret)
 
@@ -204,8 +305,49 @@ export function decryptAmount(
     throw new Error("Decryption failed - invalid ciphertext or key")
   }
 
-  // Decode amount from 8-byte little-endian
-  return bytesToBigInt(plaintext)
+  // Decode amount from 8-byte little-endian (legacy nonces carry no tag)
+  const tagOffset = encrypted.nonce.length - NONCE_TAG_LENGTH
+  const tag = getNonceTag(sharedSecret, encrypted.nonce.slice(0, tagOffset))
+  return {
+    amount: bytesToBigInt(plaintext.slice(0, 8)),
+    derivedBlinding: tag.every((byte, i) => byte === encrypted.nonce[tagOffset + i]),
+  }
+}
+
+/**
+ * Nonce tag for a random nonce prefix, keyed by the shared secret
+ */
+function getNonceTag(sharedSecret: Uint8Array, noncePrefix: Uint8Array): Uint8Array {
+  return sha256(
+    new Uint8Array([...DERIVED_BLINDING_NONCE_DOMAIN, ...sharedSecret, ...noncePrefix])
+  ).slice(0, NONCE_TAG_LENGTH)
+}
+
+/**
+ * Amount commitment and ciphertext for a shielded transfer
+ */
+export interface SealedAmount extends PedersenCommitment {
+  encryptedAmount: EncryptedAmount
+}
+
+/**
+ * Commit to an amount and encrypt it for the holder of the shared secret
+ *
+ * Purely local, so a shielded send can be composed while offline.
+ *
+ * @param amount - Amount in lamports
+ * @param sharedSecret - 32-byte shared secret (from ECDH)
+ */
+export async function sealAmount(
+  amount: bigint,
+  sharedSecret: Uint8Array
+): Promise<SealedAmount> {
+  const { commitment, blindingFactor } = await createCommitment(
+    amount,
+    deriveBlindingFactor(sharedSecret)
+  )
+  const encryptedAmount = await encryptAmount(amount, sharedSecret)
+  return { commitment, blindingFactor, encryptedAmount }
 }
 
 // ─── Viewing Key Hash ──────────────────────────────────────────────────────
@@ -253,46 +395,6 @@ export function deriveSharedSecret(
   return sha256(sharedPoint.toRawBytes())
 }
 
-// ─── Mock ZK Proof ─────────────────────────────────────────────────────────
-
-/**
- * Generate a mock ZK proof for the shielded transfer
- *
- * KNOWN LIMITATION: Mock proof — real Noir/Barretenberg proofs planned for M19-M21.
- * The Solana program currently accepts this format for development.
- *
- * @param commitment - The Pedersen commitment
- * @param blindingFactor - The blinding factor
- * @param amount - The actual amount
- * @returns Mock proof bytes
- */
-export async function generateMockProof(
-  commitment: Uint8Array,
-  blindingFactor: Uint8Array,
-  amount: bigint
-): Promise<Uint8Array> {
-  // Mock proof format: hash of (commitment || blinding || amount)
-  // Real implementation would use Noir circuits
-
-  const amountBytes = bigIntToBytes(amount, 8)
-  const preimage = new Uint8Array(commitment.length + blindingFactor.length + 8)
-  preimage.set(commitment, 0)
-  preimage.set(blindingFactor, commitment.length)
-  preimage.set(amountBytes, commitment.length + blindingFactor.length)
-
-  // Generate a deterministic mock proof
-  const proofHash = sha256(preimage)
-
-  // Pad to minimum proof size expected by program
-  const mockProof = new Uint8Array(128)
-  mockProof.set(proofHash, 0)
-  mockProof.set(sha256(proofHash), 32)
-  mockProof.set(sha256(sha256(proofHash)), 64)
-  mockProof.set(sha256(sha256(sha256(proofHash))), 96)
-
-  return mockProof
-}
-
 // ─── Ephemeral Key Generation ──────────────────────────────────────────────
 
 export interface EphemeralKeyPair {
@@ -0,0 +1,55 @@
+/**
+ * SIP Privacy Program Errors
+ *
+ * Custom error codes from the sip_privacy IDL, with the wording users see.
+ */
+
+import idl from "./sip_privacy.json"
+
+export interface SipPrivacyError {
+  code: number
+  name: string
+  /** Message from the IDL */
+  msg: string
+}
+
+export const SIP_PRIVACY_ERRORS: SipPrivacyError[] = idl.errors
+
+/** User-facing wording, by IDL error name (the IDL message otherwise) */
+const PLAIN_MESSAGES: Record<string, string> = {
+  ProgramPaused: "SIP Privacy transfers are paused right now. Try again later.",
+  InvalidCommitment: "The shielded amount could not be encoded. Try sending again.",
+  ProofTooLarge: "The amount proof is too large for the program.",
+  EncryptedAmountTooLarge: "The encrypted amount is too large for the program.",
+  ProofVerificationFailed: "The amount proof was rejected. Try sending again.",
+  Unauthorized: "This wallet isn't allowed to do that.",
+  FeeTooHigh: "The protocol fee is above the 10% limit.",
+  MathOverflow: "The amount is too large.",
+  AlreadyClaimed: "This payment has already been claimed.",
+  InvalidStealthProof: "The stealth address proof was rejected.",
+  InvalidProofFormat: "The amount proof is malformed. Try sending again.",
+  UnsupportedProofType: "This proof type isn't supported by the program.",
+  InvalidPublicInputs: "The amount proof doesn't match the transfer.",
+}
+
+/** Anchor framework codes the program can hit before its own checks */
+const ANCHOR_MESSAGES: Record<number, string> = {
+  101: "The app and the SIP Privacy program versions don't match.",
+  3012: "SIP Privacy isn't initialized on this network.",
+}
+
+/**
+ * IDL entry for a custom error code (null for unknown codes)
+ */
+export function getSipPrivacyError(code: number): SipPrivacyError | null {
+  return SIP_PRIVACY_ERRORS.find((e) => e.code === code) ?? null
+}
+
+/**
+ * Plain-language message for a custom error the program returned
+ */
+export function describeSipPrivacyError(code: number): string {
+  const error = getSipPrivacyError(code)
+  if (error) return PLAIN_MESSAGES[error.name] ?? `${error.msg}.`
+  return ANCHOR_MESSAGES[code] ?? `SIP Privacy program error ${code}.`
+}
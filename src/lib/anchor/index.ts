@@ -7,6 +7,8 @@
 // Types and constants
 export {
   SIP_PRIVACY_PROGRAM_ID,
+  SIP_PRIVACY_PROGRAM_IDS,
+  getSipPrivacyProgramId,
   CONFIG_SEED,
   TRANSFER_RECORD_SEED,
   NULLIFIER_SEED,
@@ -18,6 +20,7 @@ export {
   VIEWING_KEY_HASH_SIZE,
   MAX_PROOF_SIZE,
   MAX_ENCRYPTED_AMOUNT_SIZE,
+  NULLIFIER_RECORD_SIZE,
   type Config,
   type TransferRecord,
   type NullifierRecord,
@@ -29,15 +32,20 @@ export {
   createCommitment,
   encryptAmount,
   decryptAmount,
+  decryptVerifiedAmount,
+  deriveBlindingFactor,
+  verifyCommitment,
   computeViewingKeyHash,
   deriveSharedSecret,
-  generateMockProof,
   generateEphemeralKeyPair,
+  sealAmount,
   bytesToHex,
   hexToBytes,
   type PedersenCommitment,
   type EncryptedAmount,
+  type VerifiedAmount,
   type EphemeralKeyPair,
+  type SealedAmount,
 } from "./crypto"
 
 // Program client
@@ -46,8 +54,21 @@ export {
   getSipPrivacyClient,
   resetSipPrivacyClient,
   fetchAllTransferRecords,
+  fetchLatestTransferCursor,
+  fetchTransferRecordsSince,
+  parseTransferRecord,
   type ShieldedTransferParams,
   type ShieldedTransferResult,
   type ProgramState,
+  type ProgramDeploymentStatus,
   type TransferRecordData,
+  type TransferRecordCursor,
 } from "./client"
+
+// Program errors
+export {
+  SIP_PRIVACY_ERRORS,
+  getSipPrivacyError,
+  describeSipPrivacyError,
+  type SipPrivacyError,
+} from "./errors"
@@ -4,12 +4,30 @@
  */
 import { PublicKey } from "@solana/web3.js"
 import { Buffer } from "buffer"
+import type { NetworkCluster } from "@/lib/rpc"
 
 // Program ID
 export const SIP_PRIVACY_PROGRAM_ID = new PublicKey(
   "S1PMFspo4W6BYKHWkHNF7kZ3fnqibEXg3LQjxepS9at"
 )
 
+/**
+ * Program ID per cluster
+ *
+ * Localnet expects the program loaded at its canonical address:
+ *   solana-test-validator --bpf-program S1PMFspo4W6BYKHWkHNF7kZ3fnqibEXg3LQjxepS9at sip_privacy.so
+ */
+export const SIP_PRIVACY_PROGRAM_IDS: Record<NetworkCluster, PublicKey> = {
+  "mainnet-beta": SIP_PRIVACY_PROGRAM_ID,
+  devnet: SIP_PRIVACY_PROGRAM_ID,
+  testnet: SIP_PRIVACY_PROGRAM_ID,
+  localnet: SIP_PRIVACY_PROGRAM_ID,
+}
+
+export function getSipPrivacyProgramId(network: NetworkCluster): PublicKey {
+  return SIP_PRIVACY_PROGRAM_IDS[network]
+}
+
 // PDA Seeds
 export const CONFIG_SEED = Buffer.from("config")
 export const TRANSFER_RECORD_SEED = Buffer.from("transfer_record")
@@ -94,3 +112,5 @@ export const EPHEMERAL_PUBKEY_SIZE = 33
 export const VIEWING_KEY_HASH_SIZE = 32
 export const MAX_PROOF_SIZE = 2048
 export const MAX_ENCRYPTED_AMOUNT_SIZE = 64
+/** NullifierRecord account size: discriminator + nullifier + transfer record + claimed_at + bump */
+export const NULLIFIER_RECORD_SIZE = 8 + 32 + 32 + 8 + 1
@@ -0,0 +1,61 @@
+/**
+ * Shared Solana Connections
+ *
+ * Turns the user's RPC settings into a pooled client config. Kept apart
+ * from lib/rpc so the price API and pool stay free of build-time config.
+ */
+
+import type { Connection } from "@solana/web3.js"
+import { getRpcApiKey } from "./config"
+import { getRpcClient, type RpcConfig, type RpcProfile, type RpcSettings } from "./rpc"
+
+/**
+ * RPC configuration from the user's settings
+ *
+ * The selected provider goes first; every other provider with credentials
+ * (user override, or the build-time Helius key) is a failover. A custom
+ * profile assigned to the network replaces them all.
+ */
+export function getRpcConfigFromSettings(settings: RpcSettings): RpcConfig {
+  const heliusApiKey = settings.heliusApiKey || getRpcApiKey("helius") || undefined
+  const quicknodeApiKey = settings.quicknodeApiKey || undefined
+  const tritonEndpoint = settings.tritonEndpoint || undefined
+
+  const config: RpcConfig = {
+    provider: settings.rpcProvider,
+    cluster: settings.network,
+    failover: { heliusApiKey, quicknodeApiKey, tritonEndpoint },
+  }
+  switch (settings.rpcProvider) {
+    case "helius":
+      config.apiKey = heliusApiKey
+      break
+    case "quicknode":
+      config.apiKey = quicknodeApiKey
+      break
+    case "triton":
+      config.customEndpoint = tritonEndpoint
+      break
+  }
+
+  const profile = getActiveRpcProfile(settings)
+  if (profile) {
+    config.profile = { httpUrl: profile.httpUrl, wsUrl: profile.wsUrl, headers: profile.headers }
+  }
+  return config
+}
+
+/**
+ * Custom profile assigned to the settings' network (null for the providers)
+ */
+export function getActiveRpcProfile(settings: RpcSettings): RpcProfile | null {
+  const id = settings.activeRpcProfileIds?.[settings.network]
+  return settings.rpcProfiles?.find((p) => p.id === id && p.network === settings.network) ?? null
+}
+
+/**
+ * Shared Connection for the user's settings (the single source of connections)
+ */
+export function getConnection(settings: RpcSettings): Connection {
+  return getRpcClient(getRpcConfigFromSettings(settings)).getConnection()
+}
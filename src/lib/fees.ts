@@ -0,0 +1,295 @@
+/**
+ * Priority Fees & Compute Budget
+ *
+ * Sizes a transaction's compute unit limit by simulating it, prices it from
+ * recent prioritization fees at the user's preference, and prepends the
+ * ComputeBudget instructions. Works on unsigned legacy transactions: apply
+ * before any signature is added.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type TransactionInstruction,
+} from "@solana/web3.js"
+import type { PriorityFeeLevel } from "@/types"
+import { debug } from "@/utils/logger"
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+export interface PriorityFeePreference {
+  level: PriorityFeeLevel
+  /** Fixed priority fee per transaction in lamports (level "custom") */
+  customLamports?: number
+}
+
+export interface FeeEstimate {
+  /** Compute unit limit the transaction requests */
+  computeUnits: number
+  /** Priority fee rate (micro-lamports per compute unit) */
+  microLamportsPerUnit: number
+  /** Priority fee in lamports (rate × limit) */
+  priorityFeeLamports: number
+  /** Base fee in lamports (per signature) */
+  baseFeeLamports: number
+  /** Base + priority fee in lamports */
+  totalFeeLamports: number
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+/** Compute unit ceiling of a single transaction */
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000
+
+/** Base fee charged per signature */
+export const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000
+
+/** Limit used when simulation fails (the runtime's per-instruction default) */
+export const DEFAULT_COMPUTE_UNITS = 200_000
+
+/** Headroom over simulated consumption (accounts may change before landing) */
+export const COMPUTE_UNIT_MARGIN = 1.1
+
+/** Estimated priority fees never exceed this per transaction (0.005 SOL) */
+export const MAX_PRIORITY_FEE_LAMPORTS = 5_000_000
+
+/**
+ * Typical compute limits, for fee previews before a transaction is built
+ */
+export const ESTIMATED_COMPUTE_UNITS = {
+  transfer: 1_000,
+  tokenTransfer: 40_000,
+  shieldedTransfer: DEFAULT_COMPUTE_UNITS,
+  claim: 60_000,
+} as const
+
+export type FeeEstimateKind = keyof typeof ESTIMATED_COMPUTE_UNITS
+
+export const DEFAULT_PRIORITY_FEE: PriorityFeePreference = { level: "medium" }
+
+/** Percentile of recent fees each level pays */
+const LEVEL_PERCENTILES: Record<Exclude<PriorityFeeLevel, "custom">, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+}
+
+/** Minimum rate per level (micro-lamports per CU), so quiet slots still get priority */
+const LEVEL_MIN_RATES: Record<Exclude<PriorityFeeLevel, "custom">, number> = {
+  low: 0,
+  medium: 1_000,
+  high: 10_000,
+}
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000
+
+// ─── Estimation ────────────────────────────────────────────────────────────
+
+/**
+ * Priority fee in lamports for a compute limit and rate
+ */
+export function getPriorityFeeLamports(computeUnits: number, microLamportsPerUnit: number): number {
+  return Math.ceil((computeUnits * microLamportsPerUnit) / MICRO_LAMPORTS_PER_LAMPORT)
+}
+
+/**
+ * Compute unit price (micro-lamports per CU) for a preference
+ *
+ * Levels pay a percentile of the fees that recently landed while locking
+ * `writableAccounts`; custom spreads a fixed fee over the compute limit.
+ * Capped so the fee stays under MAX_PRIORITY_FEE_LAMPORTS.
+ */
+export async function getPriorityFeeRate(
+  connection: Connection,
+  preference: PriorityFeePreference,
+  computeUnits: number,
+  writableAccounts: PublicKey[] = []
+): Promise<number> {
+  const units = Math.max(1, computeUnits)
+  const maxRate = Math.floor((MAX_PRIORITY_FEE_LAMPORTS * MICRO_LAMPORTS_PER_LAMPORT) / units)
+
+  if (preference.level === "custom") {
+    const lamports = Math.max(0, preference.customLamports ?? 0)
+    return Math.min(Math.floor((lamports * MICRO_LAMPORTS_PER_LAMPORT) / units), maxRate)
+  }
+
+  let recent: number[] = []
+  try {
+    const fees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    })
+    recent = fees.map((f) => f.prioritizationFee)
+  } catch (err) {
+    debug("Recent prioritization fees unavailable:", err)
+  }
+
+  const rate = Math.max(
+    percentile(recent, LEVEL_PERCENTILES[preference.level]),
+    LEVEL_MIN_RATES[preference.level]
+  )
+  return Math.min(rate, maxRate)
+}
+
+/**
+ * Fee preview for a transaction that isn't built yet
+ */
+export async function estimateTransactionFee(
+  connection: Connection,
+  preference: PriorityFeePreference,
+  options: { computeUnits: number; signatures?: number; writableAccounts?: PublicKey[] }
+): Promise<FeeEstimate> {
+  const rate = await getPriorityFeeRate(
+    connection,
+    preference,
+    options.computeUnits,
+    options.writableAccounts
+  )
+  return toFeeEstimate(options.computeUnits, rate, options.signatures ?? 1)
+}
+
+/**
+ * Compute limit for a transaction, sized by simulating it
+ *
+ * Simulates without signatures against the latest blockhash, including the
+ * advance instruction of a durable-nonce transaction. Returns null when
+ * simulation fails or reports no consumption.
+ */
+export async function simulateComputeUnits(
+  connection: Connection,
+  transaction: Transaction
+): Promise<number | null> {
+  if (!transaction.feePayer) {
+    throw new Error("Transaction fee payer is required to simulate")
+  }
+
+  const message = new TransactionMessage({
+    payerKey: transaction.feePayer,
+    recentBlockhash: transaction.recentBlockhash ?? PublicKey.default.toBase58(),
+    instructions: [
+      ...(transaction.nonceInfo ? [transaction.nonceInfo.nonceInstruction] : []),
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+      ...withoutComputeBudget(transaction.instructions),
+    ],
+  }).compileToV0Message()
+
+  try {
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    })
+    if (value.err || !value.unitsConsumed) {
+      debug("Compute simulation failed:", value.err ?? "no units consumed")
+      return null
+    }
+    return Math.min(Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNIT_LIMIT)
+  } catch (err) {
+    debug("Compute simulation unavailable:", err)
+    return null
+  }
+}
+
+// ─── Applying ──────────────────────────────────────────────────────────────
+
+/**
+ * ComputeBudget instructions for a limit and rate (no price instruction at 0)
+ */
+export function createComputeBudgetInstructions(
+  computeUnits: number,
+  microLamportsPerUnit: number
+): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits })]
+  if (microLamportsPerUnit > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: microLamportsPerUnit }))
+  }
+  return instructions
+}
+
+/**
+ * Size, price and prepend the compute budget of an unsigned transaction
+ *
+ * Replaces any ComputeBudget instructions already present. Pass
+ * `computeUnits` to skip simulation.
+ */
+export async function applyPriorityFee(
+  connection: Connection,
+  transaction: Transaction,
+  preference: PriorityFeePreference,
+  options: { computeUnits?: number } = {}
+): Promise<FeeEstimate> {
+  const computeUnits =
+    options.computeUnits ??
+    (await simulateComputeUnits(connection, transaction)) ??
+    DEFAULT_COMPUTE_UNITS
+
+  const instructions = withoutComputeBudget(transaction.instructions)
+  const rate = await getPriorityFeeRate(
+    connection,
+    preference,
+    computeUnits,
+    getWritableAccounts(instructions)
+  )
+
+  transaction.instructions = [
+    ...createComputeBudgetInstructions(computeUnits, rate),
+    ...instructions,
+  ]
+
+  const estimate = toFeeEstimate(computeUnits, rate, countSignatures(transaction))
+  debug(
+    `Compute budget: ${computeUnits} CU at ${rate} µL/CU (priority fee ${estimate.priorityFeeLamports} lamports)`
+  )
+  return estimate
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+function toFeeEstimate(computeUnits: number, rate: number, signatures: number): FeeEstimate {
+  const priorityFeeLamports = getPriorityFeeLamports(computeUnits, rate)
+  const baseFeeLamports = signatures * BASE_FEE_LAMPORTS_PER_SIGNATURE
+  return {
+    computeUnits,
+    microLamportsPerUnit: rate,
+    priorityFeeLamports,
+    baseFeeLamports,
+    totalFeeLamports: baseFeeLamports + priorityFeeLamports,
+  }
+}
+
+/**
+ * Nearest-rank percentile (0 for no samples)
+ */
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length) - 1
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)]
+}
+
+function withoutComputeBudget(instructions: TransactionInstruction[]): TransactionInstruction[] {
+  return instructions.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId))
+}
+
+function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const writable = new Map<string, PublicKey>()
+  instructions.forEach((ix) =>
+    ix.keys.forEach((key) => {
+      if (key.isWritable) writable.set(key.pubkey.toBase58(), key.pubkey)
+    })
+  )
+  return [...writable.values()]
+}
+
+function countSignatures(transaction: Transaction): number {
+  const signers = new Set<string>()
+  if (transaction.feePayer) signers.add(transaction.feePayer.toBase58())
+  transaction.instructions.forEach((ix) =>
+    ix.keys.forEach((key) => {
+      if (key.isSigner) signers.add(key.pubkey.toBase58())
+    })
+  )
+  return Math.max(1, signers.size)
+}
@@ -0,0 +1,216 @@
+/**
+ * Durable Nonce Helpers
+ *
+ * A transaction built against a recent blockhash expires after ~150 blocks
+ * (about a minute). One built against a durable nonce stays valid until the
+ * nonce is advanced, so it can be signed now and submitted later, or by
+ * another device.
+ *
+ * The wallet's nonce account is derived from its address with a seed
+ * (createAccountWithSeed), so it needs no extra keypair and no storage.
+ *
+ * Claims and plain SPL transfers can be built against a nonce. Shielded
+ * transfers can't: their TransferRecord PDA is seeded by the program's
+ * transfer counter, which any other transfer advances before a delayed
+ * submission lands.
+ */
+
+import {
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js"
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+/**
+ * Nonce to build a transaction against
+ *
+ * The authority must sign the transaction: it advances the nonce as the
+ * first instruction.
+ */
+export interface DurableNonce {
+  nonceAccount: PublicKey
+  authority: PublicKey
+  /** Current nonce value, used in place of the recent blockhash */
+  nonce: string
+}
+
+export interface NonceAccountInfo extends DurableNonce {
+  lamports: number
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+/** Seed the wallet's nonce account address is derived with */
+export const NONCE_ACCOUNT_SEED = "sip-durable-nonce"
+
+// ─── Accounts ──────────────────────────────────────────────────────────────
+
+/**
+ * Address of an authority's nonce account
+ */
+export function getNonceAccountAddress(
+  authority: PublicKey,
+  seed: string = NONCE_ACCOUNT_SEED
+): Promise<PublicKey> {
+  return PublicKey.createWithSeed(authority, seed, SystemProgram.programId)
+}
+
+/**
+ * Fetch a nonce account, or null if it doesn't exist
+ */
+export async function fetchNonceAccount(
+  connection: Connection,
+  nonceAccount: PublicKey
+): Promise<NonceAccountInfo | null> {
+  const info = await connection.getAccountInfo(nonceAccount)
+  if (!info) return null
+
+  if (!info.owner.equals(SystemProgram.programId) || info.data.length !== NONCE_ACCOUNT_LENGTH) {
+    throw new Error(`${nonceAccount.toBase58()} is not a nonce account`)
+  }
+
+  const { authorizedPubkey, nonce } = NonceAccount.fromAccountData(info.data)
+  return {
+    nonceAccount,
+    authority: authorizedPubkey,
+    nonce,
+    lamports: info.lamports,
+  }
+}
+
+// ─── Management ────────────────────────────────────────────────────────────
+
+/**
+ * Build a transaction creating and initializing the authority's nonce account
+ *
+ * @param extraLamports - Funding on top of rent exemption
+ */
+export async function buildCreateNonceAccount(
+  connection: Connection,
+  authority: PublicKey,
+  options: { seed?: string; extraLamports?: number } = {}
+): Promise<{ transaction: Transaction; nonceAccount: PublicKey }> {
+  const seed = options.seed ?? NONCE_ACCOUNT_SEED
+  const nonceAccount = await getNonceAccountAddress(authority, seed)
+  const rent = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH)
+
+  const transaction = SystemProgram.createNonceAccount({
+    fromPubkey: authority,
+    noncePubkey: nonceAccount,
+    authorizedPubkey: authority,
+    basePubkey: authority,
+    seed,
+    lamports: rent + (options.extraLamports ?? 0),
+  })
+
+  await withRecentBlockhash(connection, transaction, authority)
+  return { transaction, nonceAccount }
+}
+
+/**
+ * Build a transfer topping up a nonce account
+ */
+export async function buildFundNonceAccount(
+  connection: Connection,
+  payer: PublicKey,
+  nonceAccount: PublicKey,
+  lamports: number
+): Promise<Transaction> {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: payer, toPubkey: nonceAccount, lamports })
+  )
+  return withRecentBlockhash(connection, transaction, payer)
+}
+
+/**
+ * Build a transaction advancing the nonce
+ *
+ * Invalidates every transaction signed against the current value.
+ */
+export async function buildAdvanceNonce(
+  connection: Connection,
+  nonce: Pick<DurableNonce, "nonceAccount" | "authority">
+): Promise<Transaction> {
+  const transaction = new Transaction().add(
+    SystemProgram.nonceAdvance({
+      noncePubkey: nonce.nonceAccount,
+      authorizedPubkey: nonce.authority,
+    })
+  )
+  return withRecentBlockhash(connection, transaction, nonce.authority)
+}
+
+/**
+ * Build a transaction closing a nonce account
+ *
+ * Withdrawing the whole balance closes it and returns the rent to the authority.
+ */
+export async function buildCloseNonceAccount(
+  connection: Connection,
+  info: NonceAccountInfo
+): Promise<Transaction> {
+  const transaction = new Transaction().add(
+    SystemProgram.nonceWithdraw({
+      noncePubkey: info.nonceAccount,
+      authorizedPubkey: info.authority,
+      toPubkey: info.authority,
+      lamports: info.lamports,
+    })
+  )
+  return withRecentBlockhash(connection, transaction, info.authority)
+}
+
+// ─── Transaction Lifetime ──────────────────────────────────────────────────
+
+/**
+ * Build a transaction against a durable nonce
+ *
+ * web3.js prepends the advance instruction when compiling, so later
+ * instructions (compute budget included) can be edited freely.
+ */
+export function applyDurableNonce(transaction: Transaction, nonce: DurableNonce): Transaction {
+  transaction.nonceInfo = {
+    nonce: nonce.nonce,
+    nonceInstruction: SystemProgram.nonceAdvance({
+      noncePubkey: nonce.nonceAccount,
+      authorizedPubkey: nonce.authority,
+    }),
+  }
+  transaction.recentBlockhash = nonce.nonce
+  return transaction
+}
+
+/**
+ * Set a transaction's lifetime: the durable nonce if given, else a recent blockhash
+ */
+export async function setTransactionLifetime(
+  connection: Connection,
+  transaction: Transaction,
+  nonce?: DurableNonce
+): Promise<void> {
+  if (nonce) {
+    applyDurableNonce(transaction, nonce)
+    return
+  }
+
+  const { blockhash } = await connection.getLatestBlockhash()
+  transaction.recentBlockhash = blockhash
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+async function withRecentBlockhash(
+  connection: Connection,
+  transaction: Transaction,
+  feePayer: PublicKey
+): Promise<Transaction> {
+  const { blockhash } = await connection.getLatestBlockhash()
+  transaction.recentBlockhash = blockhash
+  transaction.feePayer = feePayer
+  return transaction
+}
@@ -0,0 +1,239 @@
+/**
+ * Offline Send Outbox
+ *
+ * Shielded sends composed without connectivity. The one-time stealth address,
+ * Pedersen commitment and encrypted amount are all derived locally, so only
+ * building (the TransferRecord PDA and blockhash need the chain), signing and
+ * broadcasting wait until the device is back online.
+ *
+ * Entries carry the ephemeral private key, so the outbox is persisted
+ * encrypted (XChaCha20-Poly1305) under a device key kept in SecureStore.
+ */
+
+import * as SecureStore from "expo-secure-store"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import type { StateStorage } from "zustand/middleware"
+import { xchacha20poly1305 } from "@noble/ciphers/chacha.js"
+import { randomBytes } from "@noble/ciphers/utils.js"
+import { Buffer } from "buffer"
+import { LAMPORTS_PER_SOL, PublicKey, type Connection } from "@solana/web3.js"
+import {
+  bytesToHex,
+  ed25519PublicKeyToSolanaAddress,
+  generateStealthAddress,
+  hexToBytes,
+  parseStealthMetaAddress,
+} from "@/lib/stealth"
+import { deriveSharedSecret, sealAmount } from "@/lib/anchor/crypto"
+import type { ShieldedTransferParams } from "@/lib/anchor/client"
+import type { NetworkCluster } from "@/lib/rpc"
+import type { PrivacyLevel } from "@/types"
+import { logger } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * - queued: submitted automatically once online
+ * - held: cancelled at re-confirmation or failed; waits for a manual retry
+ */
+export type OutboxEntryStatus = "queued" | "held"
+
+export interface OutboxEntry {
+  id: string
+  status: OutboxEntryStatus
+  /** Why the entry is held */
+  lastError?: string
+  createdAt: number
+  network: NetworkCluster
+  /** Sending wallet */
+  walletAddress: string
+  /** Stealth meta-address as entered */
+  recipient: string
+  /** Amount in SOL */
+  amount: string
+  memo?: string
+  privacyLevel: PrivacyLevel
+  /** One-time stealth address (base58) */
+  stealthAddress: string
+  ephemeralPrivateKey: string
+  commitment: string
+  blindingFactor: string
+  encryptedAmount: { ciphertext: string; nonce: string }
+}
+
+export interface ComposeOfflineSendParams {
+  walletAddress: string
+  network: NetworkCluster
+  recipient: string
+  amount: string
+  memo?: string
+  privacyLevel: PrivacyLevel
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const OUTBOX_KEY_NAME = "sip_outbox_key"
+
+const NETWORK_ERROR_PATTERNS = [
+  "network request failed",
+  "failed to fetch",
+  "fetch failed",
+  "timed out",
+  "all rpc endpoints failed",
+  "enotfound",
+  "econnrefused",
+  "econnreset",
+]
+
+// ============================================================================
+// COMPOSITION
+// ============================================================================
+
+/**
+ * Compose a shielded SOL send without touching the network
+ */
+export async function composeOfflineSend(params: ComposeOfflineSendParams): Promise<OutboxEntry> {
+  const metaAddress = parseStealthMetaAddress(params.recipient)
+  if (!metaAddress) {
+    throw new Error("Invalid stealth address format")
+  }
+
+  const { stealthAddress, ephemeralPrivateKey } = await generateStealthAddress(metaAddress)
+
+  // Same derivation buildShieldedTransfer uses, so the sealed amount matches
+  const lamports = BigInt(Math.floor(parseFloat(params.amount) * LAMPORTS_PER_SOL))
+  const sharedSecret = deriveSharedSecret(
+    hexToBytes(ephemeralPrivateKey),
+    hexToBytes(metaAddress.spendingKey)
+  )
+  const sealed = await sealAmount(lamports, sharedSecret)
+
+  return {
+    id: `outbox_${Date.now()}_${bytesToHex(randomBytes(4))}`,
+    status: "queued",
+    createdAt: Date.now(),
+    network: params.network,
+    walletAddress: params.walletAddress,
+    recipient: params.recipient,
+    amount: params.amount,
+    memo: params.memo,
+    privacyLevel: params.privacyLevel,
+    stealthAddress: ed25519PublicKeyToSolanaAddress(stealthAddress.address),
+    ephemeralPrivateKey,
+    commitment: bytesToHex(sealed.commitment),
+    blindingFactor: bytesToHex(sealed.blindingFactor),
+    encryptedAmount: {
+      ciphertext: bytesToHex(sealed.encryptedAmount.ciphertext),
+      nonce: bytesToHex(sealed.encryptedAmount.nonce),
+    },
+  }
+}
+
+/**
+ * Shielded transfer parameters reusing the entry's precomputed values
+ */
+export function toShieldedTransferParams(entry: OutboxEntry): ShieldedTransferParams {
+  const metaAddress = parseStealthMetaAddress(entry.recipient)
+  if (!metaAddress) {
+    throw new Error("Invalid stealth address format")
+  }
+
+  return {
+    amount: parseFloat(entry.amount),
+    stealthPubkey: new PublicKey(entry.stealthAddress),
+    recipientSpendingKey: hexToBytes(metaAddress.spendingKey),
+    recipientViewingKey: hexToBytes(metaAddress.viewingKey),
+    memo: entry.memo,
+    ephemeralPrivateKey: hexToBytes(entry.ephemeralPrivateKey),
+    sealedAmount: {
+      commitment: hexToBytes(entry.commitment),
+      blindingFactor: hexToBytes(entry.blindingFactor),
+      encryptedAmount: {
+        ciphertext: hexToBytes(entry.encryptedAmount.ciphertext),
+        nonce: hexToBytes(entry.encryptedAmount.nonce),
+      },
+    },
+  }
+}
+
+// ============================================================================
+// CONNECTIVITY
+// ============================================================================
+
+/**
+ * Whether an error means the RPC couldn't be reached (as opposed to rejecting)
+ */
+export function isNetworkError(err: unknown): boolean {
+  const message = (err instanceof Error ? err.message : String(err)).toLowerCase()
+  return NETWORK_ERROR_PATTERNS.some((pattern) => message.includes(pattern))
+}
+
+/**
+ * Whether the RPC is reachable
+ */
+export async function checkConnectivity(connection: Connection): Promise<boolean> {
+  try {
+    await connection.getLatestBlockhash()
+    return true
+  } catch (err) {
+    return !isNetworkError(err)
+  }
+}
+
+// ============================================================================
+// ENCRYPTED STORAGE
+// ============================================================================
+
+/**
+ * Device key for the outbox, created on first use
+ */
+async function getOutboxKey(): Promise<Uint8Array> {
+  let key = await SecureStore.getItemAsync(OUTBOX_KEY_NAME)
+  if (!key) {
+    key = bytesToHex(randomBytes(32))
+    await SecureStore.setItemAsync(OUTBOX_KEY_NAME, key, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    })
+  }
+  return hexToBytes(key)
+}
+
+/**
+ * zustand storage that encrypts the persisted state at rest
+ */
+export const encryptedOutboxStorage: StateStorage = {
+  getItem: async (name) => {
+    const stored = await AsyncStorage.getItem(name)
+    if (!stored) return null
+
+    try {
+      const { nonce, ciphertext } = JSON.parse(stored)
+      const cipher = xchacha20poly1305(await getOutboxKey(), hexToBytes(nonce))
+      const plaintext = cipher.decrypt(new Uint8Array(Buffer.from(ciphertext, "base64")))
+      return new TextDecoder().decode(plaintext)
+    } catch (err) {
+      // Key lost (app reinstalled): the queued sends can't be recovered
+      logger.warn("Failed to decrypt outbox:", err)
+      return null
+    }
+  },
+
+  setItem: async (name, value) => {
+    const nonce = randomBytes(24)
+    const cipher = xchacha20poly1305(await getOutboxKey(), nonce)
+    const ciphertext = cipher.encrypt(new TextEncoder().encode(value))
+    await AsyncStorage.setItem(
+      name,
+      JSON.stringify({
+        nonce: bytesToHex(nonce),
+        ciphertext: Buffer.from(ciphertext).toString("base64"),
+      })
+    )
+  },
+
+  removeItem: (name) => AsyncStorage.removeItem(name),
+}
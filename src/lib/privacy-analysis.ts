@@ -0,0 +1,322 @@
+/**
+ * Wallet Privacy Exposure Analysis
+ *
+ * Derives the privacy score inputs from what an observer can actually see,
+ * instead of trusting caller-supplied flags:
+ * - Direct transfers between the wallet and known exchange addresses
+ * - Claims that swept stealth funds into the main wallet
+ * - SNS names pointing at the wallet
+ * - Stealth addresses that received more than one payment
+ *
+ * The on-chain side reads the wallet's recent parsed transactions; the SIP
+ * side comes from the local payment history (the chain alone can't tell a
+ * shielded send from any other program call).
+ */
+
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from "@solana/web3.js"
+import type { PaymentRecord } from "@/types"
+import type { TokenPrivacyInput } from "@/utils/privacyScore"
+import { getExchangeName } from "@/data/exchanges"
+import { TOKENS, getTokenByMint } from "@/data/tokens"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A direct SOL or SPL token transfer involving the wallet
+ */
+export interface WalletTransfer {
+  signature: string
+  /** Block time in ms (0 if unknown) */
+  timestamp: number
+  direction: "in" | "out"
+  /** Owner on the other side of the transfer */
+  counterparty: string
+  /** Token mint (NATIVE_SOL_MINT for SOL) */
+  mint: string
+}
+
+export type PrivacyFindingKind =
+  | "exchange-transfer"
+  | "linked-claim"
+  | "sns-name"
+  | "stealth-reuse"
+
+/**
+ * A concrete way the wallet's activity can be linked or identified
+ */
+export interface PrivacyFinding {
+  kind: PrivacyFindingKind
+  severity: "high" | "medium"
+  title: string
+  detail: string
+  recommendation: string
+  /** Affected token mint (undefined = the whole wallet) */
+  mint?: string
+  /** Example transaction */
+  signature?: string
+}
+
+export interface ExposureAnalysisInput {
+  /** Direct transfers from the wallet's on-chain history */
+  transfers: WalletTransfer[]
+  /** Local payment history for the wallet's network */
+  payments: PaymentRecord[]
+  /** SNS names whose owner is the wallet */
+  snsDomains: string[]
+  hasStealthAddress: boolean
+  /** Held token mints to score even without history */
+  mints: string[]
+}
+
+export interface ExposureAnalysis {
+  /** Score inputs keyed by token mint */
+  tokens: Record<string, TokenPrivacyInput>
+  /** Most severe first */
+  findings: PrivacyFinding[]
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Mint used to key native SOL */
+export const NATIVE_SOL_MINT = TOKENS.SOL.mint
+
+/** Recent signatures inspected */
+const HISTORY_LIMIT = 100
+/** Parsed transactions fetched per RPC call */
+const PARSE_BATCH_SIZE = 25
+
+// ============================================================================
+// ON-CHAIN HISTORY
+// ============================================================================
+
+/**
+ * Direct transfers in a parsed transaction that involve the wallet
+ *
+ * Only top-level System and SPL Token transfers are considered: those are the
+ * ones explorers show as wallet-to-wallet movements.
+ */
+export function extractWalletTransfers(
+  walletAddress: string,
+  signature: string,
+  tx: ParsedTransactionWithMeta
+): WalletTransfer[] {
+  const timestamp = (tx.blockTime ?? 0) * 1000
+  const accountKeys = tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58())
+
+  // Token account -> owner / mint, from the balance snapshots
+  const tokenAccounts = new Map<string, { owner?: string; mint: string }>()
+  for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    tokenAccounts.set(accountKeys[balance.accountIndex], { owner: balance.owner, mint: balance.mint })
+  }
+
+  const transfers: WalletTransfer[] = []
+  for (const ix of tx.transaction.message.instructions) {
+    if (!("parsed" in ix) || typeof ix.parsed !== "object") continue
+    const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> }
+
+    if (ix.program === "system" && type === "transfer") {
+      const source = info.source as string
+      const destination = info.destination as string
+      if (source === walletAddress && destination !== walletAddress) {
+        transfers.push({ signature, timestamp, direction: "out", counterparty: destination, mint: NATIVE_SOL_MINT })
+      } else if (destination === walletAddress && source !== walletAddress) {
+        transfers.push({ signature, timestamp, direction: "in", counterparty: source, mint: NATIVE_SOL_MINT })
+      }
+    } else if (ix.program === "spl-token" && (type === "transfer" || type === "transferChecked")) {
+      const source = tokenAccounts.get(info.source as string)
+      const destination = tokenAccounts.get(info.destination as string)
+      const mint = (info.mint as string | undefined) ?? source?.mint ?? destination?.mint
+      if (!mint) continue
+
+      const sourceOwner = source?.owner ?? (info.authority as string | undefined)
+      const destinationOwner = destination?.owner ?? (info.destination as string)
+      if (sourceOwner === walletAddress && destinationOwner !== walletAddress) {
+        transfers.push({ signature, timestamp, direction: "out", counterparty: destinationOwner, mint })
+      } else if (destinationOwner === walletAddress && sourceOwner && sourceOwner !== walletAddress) {
+        transfers.push({ signature, timestamp, direction: "in", counterparty: sourceOwner, mint })
+      }
+    }
+  }
+
+  return transfers
+}
+
+/**
+ * Direct transfers from the wallet's recent successful transactions
+ */
+export async function fetchWalletTransfers(
+  connection: Connection,
+  walletAddress: string,
+  limit: number = HISTORY_LIMIT
+): Promise<{ transfers: WalletTransfer[]; analyzedTransactions: number }> {
+  const signatures = (
+    await connection.getSignaturesForAddress(new PublicKey(walletAddress), { limit })
+  )
+    .filter((s) => s.err === null)
+    .map((s) => s.signature)
+
+  const transfers: WalletTransfer[] = []
+  for (let i = 0; i < signatures.length; i += PARSE_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + PARSE_BATCH_SIZE)
+    const parsed = await connection.getParsedTransactions(batch, {
+      maxSupportedTransactionVersion: 0,
+    })
+    parsed.forEach((tx, index) => {
+      if (tx) transfers.push(...extractWalletTransfers(walletAddress, batch[index], tx))
+    })
+  }
+
+  debug(`[PRIVACY] ${transfers.length} direct transfers in ${signatures.length} transactions`)
+  return { transfers, analyzedTransactions: signatures.length }
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+function tokenSymbol(mint: string): string {
+  return getTokenByMint(mint)?.symbol ?? `${mint.slice(0, 4)}...`
+}
+
+function paymentMint(payment: PaymentRecord): string {
+  return payment.tokenMint ?? NATIVE_SOL_MINT
+}
+
+/**
+ * Whether a received payment was claimed straight into the main wallet
+ * (claims made before destinations were recorded always went there)
+ */
+function isLinkedClaim(payment: PaymentRecord): boolean {
+  return (
+    payment.type === "receive" &&
+    payment.claimed === true &&
+    (payment.claimDestination === undefined || payment.claimDestination.type === "wallet")
+  )
+}
+
+/**
+ * One-time address a received payment was sent to
+ * (claimable format: sip:solana:<ephemeral>:<stealthRecipient>)
+ */
+export function getStealthRecipient(payment: PaymentRecord): string | null {
+  if (payment.type !== "receive" || !payment.stealthAddress) return null
+  const parts = payment.stealthAddress.split(":")
+  return parts.length === 4 ? parts[3] : null
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`
+}
+
+/**
+ * Turn the wallet's observable activity into per-token score inputs and findings
+ */
+export function analyzeWalletExposure(input: ExposureAnalysisInput): ExposureAnalysis {
+  const { transfers, snsDomains, hasStealthAddress } = input
+  const payments = input.payments.filter((p) => p.status !== "failed")
+  const findings: PrivacyFinding[] = []
+
+  // SIP transactions are counted from the local history, not again as plain transfers
+  const sipSignatures = new Set(
+    payments.flatMap((p) => [p.txHash, p.claimTxHash]).filter((s): s is string => !!s)
+  )
+  const publicTransfers = transfers.filter((t) => !sipSignatures.has(t.signature))
+
+  // ── SNS names identify the wallet outright
+  for (const domain of snsDomains) {
+    findings.push({
+      kind: "sns-name",
+      severity: "high",
+      title: `${domain} points at this wallet`,
+      detail: "Anyone who knows the name can see this wallet's balances and history.",
+      recommendation: "Keep funds you want private in a wallet with no .sol name",
+    })
+  }
+
+  // ── Exchange transfers tie the wallet to a KYC'd account
+  const exchangeGroups = new Map<string, WalletTransfer[]>()
+  for (const transfer of publicTransfers) {
+    const exchange = getExchangeName(transfer.counterparty)
+    if (!exchange) continue
+    const key = `${exchange}:${transfer.mint}`
+    exchangeGroups.set(key, [...(exchangeGroups.get(key) ?? []), transfer])
+  }
+  const exchangeMints = new Set<string>()
+  for (const [key, group] of exchangeGroups) {
+    const [exchange, mint] = key.split(":")
+    exchangeMints.add(mint)
+    findings.push({
+      kind: "exchange-transfer",
+      severity: "high",
+      title: `${plural(group.length, `direct ${tokenSymbol(mint)} transfer`)} with ${exchange}`,
+      detail: `${exchange} knows who you are, so these transfers link your identity to this wallet.`,
+      recommendation: "Move funds between exchanges and this wallet through a stealth address",
+      mint,
+      signature: group[0].signature,
+    })
+  }
+
+  // ── Claims into the main wallet link the stealth payment back to it
+  const linkedByMint = new Map<string, PaymentRecord[]>()
+  for (const payment of payments.filter(isLinkedClaim)) {
+    const mint = paymentMint(payment)
+    linkedByMint.set(mint, [...(linkedByMint.get(mint) ?? []), payment])
+  }
+  for (const [mint, linked] of linkedByMint) {
+    findings.push({
+      kind: "linked-claim",
+      severity: "medium",
+      title: `${plural(linked.length, `${tokenSymbol(mint)} payment`)} claimed into your main wallet`,
+      detail: "The claim transaction connects each stealth payment to this wallet.",
+      recommendation: "Claim to a fresh account or a new stealth address instead",
+      mint,
+      signature: linked[0].claimTxHash,
+    })
+  }
+
+  // ── A stealth address is one-time: a second payment to it links both
+  const byRecipient = new Map<string, PaymentRecord[]>()
+  for (const payment of payments) {
+    const recipient = getStealthRecipient(payment)
+    if (recipient) byRecipient.set(recipient, [...(byRecipient.get(recipient) ?? []), payment])
+  }
+  for (const [recipient, reused] of byRecipient) {
+    if (reused.length < 2) continue
+    findings.push({
+      kind: "stealth-reuse",
+      severity: "medium",
+      title: `Stealth address received ${reused.length} payments`,
+      detail: `${recipient.slice(0, 4)}...${recipient.slice(-4)} was paid more than once, so those payments are linked.`,
+      recommendation: "Share your stealth meta-address so each payment gets a fresh address",
+      mint: paymentMint(reused[0]),
+    })
+  }
+
+  // ── Per-token score inputs
+  const mints = new Set([
+    ...input.mints,
+    ...publicTransfers.map((t) => t.mint),
+    ...payments.map(paymentMint),
+  ])
+  const tokens: Record<string, TokenPrivacyInput> = {}
+  for (const mint of mints) {
+    const sipPayments = payments.filter((p) => paymentMint(p) === mint)
+    const shielded = sipPayments.filter((p) => p.privacyLevel !== "transparent" && !isLinkedClaim(p))
+    tokens[mint] = {
+      totalTransactions: publicTransfers.filter((t) => t.mint === mint).length + sipPayments.length,
+      shieldedTransactions: shielded.length,
+      hasStealthAddress,
+      balanceExposed: snsDomains.length > 0 || exchangeMints.has(mint) || linkedByMint.has(mint),
+    }
+  }
+
+  return {
+    tokens,
+    findings: findings.sort((a, b) => Number(b.severity === "high") - Number(a.severity === "high")),
+  }
+}
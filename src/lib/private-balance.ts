@@ -0,0 +1,215 @@
+/**
+ * Private Balance
+ *
+ * What the user holds outside the public wallet, per token:
+ * - stealth: unclaimed stealth payments, verified against the stealth
+ *   accounts' on-chain balances
+ * - pending: private funds not settled yet (received payments awaiting
+ *   confirmation, shielding sends still in flight)
+ * - provider: balances held by privacy providers (e.g. ShadowWire)
+ */
+
+import { LAMPORTS_PER_SOL, PublicKey, type Connection } from "@solana/web3.js"
+import type { PaymentRecord } from "@/types"
+import type { PrivacyProviderType } from "@/privacy-providers/types"
+import { getAssociatedTokenAddress } from "@/lib/spl"
+import { getStealthRecipient, NATIVE_SOL_MINT } from "@/lib/privacy-analysis"
+import { getTokenByMint, resolveTokenSymbol } from "@/data/tokens"
+import { debug } from "@/utils/logger"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PrivateBalanceSource = "stealth" | "pending" | "provider"
+
+/**
+ * An amount of one token held privately
+ */
+export interface PrivateHolding {
+  source: PrivateBalanceSource
+  /** Token mint (NATIVE_SOL_MINT for SOL) */
+  mint: string
+  symbol: string
+  amount: number
+  /** Provider holding the funds (provider holdings) */
+  providerId?: PrivacyProviderType
+}
+
+export interface StealthBalances {
+  holdings: PrivateHolding[]
+  /** Payments counted at their recorded amount (account couldn't be checked) */
+  unverifiedPayments: number
+  /** Payments whose stealth account is empty (claimed or swept elsewhere) */
+  emptyPaymentIds: string[]
+}
+
+/**
+ * Private balance of one token, by source
+ */
+export interface PrivateTokenBalance {
+  mint: string
+  symbol: string
+  stealth: number
+  pending: number
+  provider: number
+  total: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** getMultipleAccountsInfo limit */
+const ACCOUNTS_BATCH_SIZE = 100
+
+/** Token account layout: amount (u64 LE) at offset 64 */
+const TOKEN_AMOUNT_OFFSET = 64
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function paymentMint(payment: PaymentRecord): string {
+  return payment.tokenMint ?? NATIVE_SOL_MINT
+}
+
+function toPublicKey(address: string): PublicKey | null {
+  try {
+    return new PublicKey(address)
+  } catch {
+    return null
+  }
+}
+
+function holding(source: PrivateBalanceSource, payment: PaymentRecord, amount: number): PrivateHolding {
+  return { source, mint: paymentMint(payment), symbol: resolveTokenSymbol(payment), amount }
+}
+
+// ============================================================================
+// STEALTH ACCOUNTS
+// ============================================================================
+
+/**
+ * Received payments that are still waiting to be claimed
+ */
+export function getUnclaimedStealthPayments(payments: PaymentRecord[]): PaymentRecord[] {
+  return payments.filter((p) => p.type === "receive" && p.status === "completed" && !p.claimed)
+}
+
+/**
+ * Private funds that haven't settled yet
+ */
+export function getPendingHoldings(payments: PaymentRecord[]): PrivateHolding[] {
+  return payments
+    .filter((p) => p.status === "pending" && (p.type === "receive" || p.shieldId !== undefined))
+    .map((p) => holding("pending", p, parseFloat(p.amount) || 0))
+}
+
+/**
+ * Balances of the stealth accounts behind unclaimed payments
+ *
+ * Payments paid to the same stealth address share one account and are counted
+ * once. An account that can't be read falls back to the recorded amounts.
+ */
+export async function verifyStealthBalances(
+  connection: Connection,
+  payments: PaymentRecord[]
+): Promise<StealthBalances> {
+  const result: StealthBalances = { holdings: [], unverifiedPayments: 0, emptyPaymentIds: [] }
+
+  const countRecorded = (group: PaymentRecord[]) => {
+    for (const p of group) result.holdings.push(holding("stealth", p, parseFloat(p.amount) || 0))
+    result.unverifiedPayments += group.length
+  }
+
+  // One entry per stealth account (SOL: the stealth address, SPL: its token account)
+  const accounts = new Map<string, { address: PublicKey; decimals?: number; payments: PaymentRecord[] }>()
+  for (const payment of getUnclaimedStealthPayments(payments)) {
+    const recipient = getStealthRecipient(payment)
+    const owner = recipient ? toPublicKey(recipient) : null
+    if (!owner) {
+      countRecorded([payment])
+      continue
+    }
+
+    const mint = paymentMint(payment)
+    const key = `${mint}:${recipient}`
+    const entry = accounts.get(key)
+    if (entry) {
+      entry.payments.push(payment)
+    } else if (mint === NATIVE_SOL_MINT) {
+      accounts.set(key, { address: owner, payments: [payment] })
+    } else {
+      accounts.set(key, {
+        address: getAssociatedTokenAddress(owner, new PublicKey(mint)),
+        decimals: payment.tokenDecimals ?? getTokenByMint(mint)?.decimals,
+        payments: [payment],
+      })
+    }
+  }
+
+  const entries = Array.from(accounts.values())
+  for (let i = 0; i < entries.length; i += ACCOUNTS_BATCH_SIZE) {
+    const batch = entries.slice(i, i + ACCOUNTS_BATCH_SIZE)
+    let infos
+    try {
+      infos = await connection.getMultipleAccountsInfo(batch.map((e) => e.address))
+    } catch (err) {
+      debug("[PRIVATE BALANCE] Stealth account lookup failed:", err)
+      batch.forEach((e) => countRecorded(e.payments))
+      continue
+    }
+
+    batch.forEach((entry, index) => {
+      const info = infos[index]
+      const [first] = entry.payments
+      const isSol = paymentMint(first) === NATIVE_SOL_MINT
+      const decimals = isSol ? undefined : entry.decimals
+
+      let amount = 0
+      if (isSol) {
+        amount = (info?.lamports ?? 0) / LAMPORTS_PER_SOL
+      } else if (decimals === undefined) {
+        countRecorded(entry.payments)
+        return
+      } else if (info && info.data.length >= TOKEN_AMOUNT_OFFSET + 8) {
+        amount = Number(info.data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET)) / 10 ** decimals
+      }
+
+      if (amount > 0) {
+        result.holdings.push(holding("stealth", first, amount))
+      } else {
+        result.emptyPaymentIds.push(...entry.payments.map((p) => p.id))
+      }
+    })
+  }
+
+  return result
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Combine holdings per token, largest total first
+ */
+export function aggregatePrivateBalances(holdings: PrivateHolding[]): PrivateTokenBalance[] {
+  const byMint = new Map<string, PrivateTokenBalance>()
+  for (const h of holdings) {
+    if (h.amount <= 0) continue
+    const balance = byMint.get(h.mint) ?? {
+      mint: h.mint,
+      symbol: h.symbol,
+      stealth: 0,
+      pending: 0,
+      provider: 0,
+      total: 0,
+    }
+    balance[h.source] += h.amount
+    balance.total += h.amount
+    byMint.set(h.mint, balance)
+  }
+  return Array.from(byMint.values()).sort((a, b) => b.total - a.total)
+}
@@ -0,0 +1,26 @@
+/**
+ * Amount Proofs
+ *
+ * Proofs that shielded transfer commitments are well formed.
+ */
+
+import type { AmountProofProvider } from "./types"
+import { createPedersenOpeningProofProvider } from "./opening"
+
+// Types
+export * from "./types"
+
+// Providers
+export { PedersenOpeningProofProvider, createPedersenOpeningProofProvider } from "./opening"
+
+let defaultProvider: AmountProofProvider | null = null
+
+/**
+ * Provider used for outgoing shielded transfers
+ */
+export function getAmountProofProvider(): AmountProofProvider {
+  if (!defaultProvider) {
+    defaultProvider = createPedersenOpeningProofProvider()
+  }
+  return defaultProvider
+}
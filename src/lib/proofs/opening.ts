@@ -0,0 +1,192 @@
+/**
+ * Pedersen Opening Proof
+ *
+ * Proves that a commitment C = v*G + r*H opens to the public amount v,
+ * without revealing the blinding factor r: a Schnorr proof of knowledge of
+ * r for X = C - v*G = r*H, made non-interactive with Fiat-Shamir.
+ *
+ *   prover:   R = k*H,  e = H(domain || C || v || R || context),  s = k + e*r
+ *   verifier: 8*(s*H) == 8*(R + e*X)
+ *
+ * The amount is the instruction's u64, so a valid proof also shows the
+ * committed value is in [0, 2^64). Verification is cofactored because H
+ * is not cleared of the cofactor (see getHGenerator).
+ *
+ * Encoding: [scheme id][version][R: 32][s: 32 LE], zero-padded to MIN_AMOUNT_PROOF_SIZE
+ */
+
+import { ed25519 } from "@noble/curves/ed25519"
+import { sha512 } from "@noble/hashes/sha512"
+import * as Crypto from "expo-crypto"
+import { COMMITMENT_SIZE } from "@/lib/anchor/types"
+import { getHGenerator } from "@/lib/anchor/crypto"
+import {
+  AMOUNT_PROOF_SCHEME_IDS,
+  MIN_AMOUNT_PROOF_SIZE,
+  type AmountProofInput,
+  type AmountProofProvider,
+  type AmountProofStatement,
+} from "./types"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ED25519_ORDER = ed25519.CURVE.n
+
+const PROOF_VERSION = 1
+
+const CHALLENGE_DOMAIN = new TextEncoder().encode("SIP-AMOUNT-OPENING-v1")
+const NONCE_DOMAIN = new TextEncoder().encode("SIP-AMOUNT-OPENING-NONCE-v1")
+
+/** scheme id + version + R + s */
+const PROOF_BODY_SIZE = 2 + 32 + 32
+
+type Point = InstanceType<typeof ed25519.ExtendedPoint>
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class PedersenOpeningProofProvider implements AmountProofProvider {
+  readonly scheme = "pedersen-opening" as const
+
+  async prove(input: AmountProofInput): Promise<Uint8Array> {
+    const commitmentPoint = decodeCommitment(input.commitment)
+    const r = bytesToBigInt(input.blindingFactor) % ED25519_ORDER
+    if (r === 0n) {
+      throw new Error("Blinding factor must be non-zero")
+    }
+    if (!commitmentPoint.equals(openingPoint(input.amount).add(getHGenerator().multiply(r)))) {
+      throw new Error("Commitment does not open to the amount")
+    }
+
+    // Hedged nonce: secret-derived, mixed with fresh randomness
+    const entropy = new Uint8Array(await Crypto.getRandomBytesAsync(32))
+    const k = reduce(
+      sha512(concat(NONCE_DOMAIN, input.blindingFactor, input.commitment, u64(input.amount), entropy))
+    )
+    const R = getHGenerator().multiply(k)
+    const RBytes = R.toRawBytes()
+
+    const e = challenge(input, RBytes)
+    const s = (k + e * r) % ED25519_ORDER
+
+    const proof = new Uint8Array(MIN_AMOUNT_PROOF_SIZE)
+    proof[0] = AMOUNT_PROOF_SCHEME_IDS["pedersen-opening"]
+    proof[1] = PROOF_VERSION
+    proof.set(RBytes, 2)
+    proof.set(bigIntToBytes(s, 32), 34)
+    return proof
+  }
+
+  verify(proof: Uint8Array, statement: AmountProofStatement): boolean {
+    try {
+      if (proof.length < MIN_AMOUNT_PROOF_SIZE) return false
+      if (proof[0] !== AMOUNT_PROOF_SCHEME_IDS["pedersen-opening"]) return false
+      if (proof[1] !== PROOF_VERSION) return false
+      if (proof.subarray(PROOF_BODY_SIZE).some((b) => b !== 0)) return false
+      if (statement.amount < 0n || statement.amount >= 1n << 64n) return false
+
+      const RBytes = proof.slice(2, 34)
+      const s = bytesToBigInt(proof.slice(34, 66))
+      if (s >= ED25519_ORDER) return false
+
+      const R = ed25519.ExtendedPoint.fromHex(RBytes)
+      const X = decodeCommitment(statement.commitment).subtract(openingPoint(statement.amount))
+      const e = challenge(statement, RBytes)
+
+      const lhs = getHGenerator().multiplyUnsafe(s)
+      const rhs = R.add(X.multiplyUnsafe(e))
+      return lhs.clearCofactor().equals(rhs.clearCofactor())
+    } catch {
+      return false
+    }
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createPedersenOpeningProofProvider(): PedersenOpeningProofProvider {
+  return new PedersenOpeningProofProvider()
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * v*G (identity for a zero amount)
+ */
+function openingPoint(amount: bigint): Point {
+  return ed25519.ExtendedPoint.BASE.multiplyUnsafe(amount % ED25519_ORDER)
+}
+
+/**
+ * Parse the 33-byte on-chain commitment (prefix byte + 32-byte point)
+ */
+function decodeCommitment(commitment: Uint8Array): Point {
+  if (commitment.length !== COMMITMENT_SIZE) {
+    throw new Error(`Commitment must be ${COMMITMENT_SIZE} bytes`)
+  }
+  return ed25519.ExtendedPoint.fromHex(commitment.slice(1))
+}
+
+/**
+ * Fiat-Shamir challenge, bound to the whole statement
+ */
+function challenge(statement: AmountProofStatement, RBytes: Uint8Array): bigint {
+  return reduce(
+    sha512(
+      concat(
+        CHALLENGE_DOMAIN,
+        statement.commitment,
+        u64(statement.amount),
+        RBytes,
+        statement.context ?? new Uint8Array(0)
+      )
+    )
+  )
+}
+
+function reduce(hash: Uint8Array): bigint {
+  return bytesToBigInt(hash) % ED25519_ORDER
+}
+
+function u64(value: bigint): Uint8Array {
+  return bigIntToBytes(value, 8)
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+/**
+ * Convert BigInt to bytes (little-endian)
+ */
+function bigIntToBytes(n: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length)
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(n & 0xffn)
+    n >>= 8n
+  }
+  return bytes
+}
+
+/**
+ * Convert bytes to BigInt (little-endian)
+ */
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let result = 0n
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i])
+  }
+  return result
+}
@@ -0,0 +1,75 @@
+/**
+ * Amount Proof Types
+ *
+ * Proofs attached to shielded transfers that the amount commitment is well
+ * formed. One interface, swappable schemes, all pure JS so they run in Hermes:
+ *
+ * - pedersen-opening: Schnorr proof that the commitment opens to the transfer
+ *   amount (default)
+ */
+
+// ============================================================================
+// SCHEME IDENTIFICATION
+// ============================================================================
+
+/**
+ * Supported amount proof schemes
+ */
+export type AmountProofScheme = "pedersen-opening"
+
+/**
+ * Scheme id, first byte of every encoded proof
+ */
+export const AMOUNT_PROOF_SCHEME_IDS: Record<AmountProofScheme, number> = {
+  "pedersen-opening": 1,
+}
+
+/**
+ * Encoded proofs are zero-padded to at least this size (what the program
+ * has always been sent)
+ */
+export const MIN_AMOUNT_PROOF_SIZE = 128
+
+// ============================================================================
+// PROVER / VERIFIER INTERFACE
+// ============================================================================
+
+/**
+ * Public statement a proof is checked against
+ */
+export interface AmountProofStatement {
+  /** Pedersen commitment, 33-byte on-chain format */
+  commitment: Uint8Array
+  /** Amount in base units (lamports or token units), public in the instruction */
+  amount: bigint
+  /** Extra bytes the proof is bound to (e.g. the stealth address), so it cannot be reused */
+  context?: Uint8Array
+}
+
+/**
+ * Statement plus the prover's secret
+ */
+export interface AmountProofInput extends AmountProofStatement {
+  /** Blinding factor of the commitment (32 bytes, little-endian) */
+  blindingFactor: Uint8Array
+}
+
+/**
+ * Amount proof provider
+ */
+export interface AmountProofProvider {
+  /** Scheme implemented */
+  readonly scheme: AmountProofScheme
+
+  /**
+   * Prove the statement
+   *
+   * @returns encoded proof, ready for the instruction's `proof` argument
+   */
+  prove(input: AmountProofInput): Promise<Uint8Array>
+
+  /**
+   * Check an encoded proof against a statement (never throws)
+   */
+  verify(proof: Uint8Array, statement: AmountProofStatement): boolean
+}
@@ -128,6 +128,18 @@ export function targetUri(r: RecipientResolution): string | null {
   return null
 }
 
+/**
+ * Extract the stealth meta-address URI for flows that can only pay privately
+ * (e.g. swap-and-pay, where the output lands in a fresh stealth address).
+ *
+ * - `sip-uri` and `sns-resolved` → the `sip:solana:<spend>:<view>` URI
+ * - everything else, including raw Solana addresses → null
+ */
+export function stealthTargetUri(r: RecipientResolution): string | null {
+  if (r.kind === "sip-uri" || r.kind === "sns-resolved") return r.uri
+  return null
+}
+
 /**
  * Classify a raw input string into the initial resolution state (no I/O).
  *
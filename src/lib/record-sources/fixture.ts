@@ -0,0 +1,97 @@
+/**
+ * Fixture Transfer Record Source
+ *
+ * In-memory stand-in for the chain: records are added by tests or dev tooling
+ * and served back with synthetic, monotonically increasing cursors. Lets the
+ * scanners run deterministically without devnet.
+ */
+
+import type {
+  TransferRecordCursor,
+  TransferRecordData,
+} from "@/lib/anchor/client"
+import type { TransferRecordPage, TransferRecordSource } from "./types"
+
+interface FixtureEntry {
+  record: TransferRecordData
+  slot: number
+}
+
+export class FixtureTransferRecordSource implements TransferRecordSource {
+  readonly type = "fixture" as const
+
+  private entries: FixtureEntry[] = []
+  private slot = 0
+
+  constructor(records: TransferRecordData[] = []) {
+    records.forEach((record) => this.addRecord(record))
+  }
+
+  /**
+   * Add a record, or replace an existing one with the same pubkey (e.g. to mark
+   * it claimed). Either way it becomes the newest activity.
+   *
+   * @returns the cursor of this activity
+   */
+  addRecord(record: TransferRecordData): TransferRecordCursor {
+    const key = record.pubkey.toBase58()
+    this.entries = this.entries.filter((e) => e.record.pubkey.toBase58() !== key)
+    this.slot++
+    this.entries.push({ record, slot: this.slot })
+    return cursorForSlot(this.slot)
+  }
+
+  /**
+   * Remove every record
+   */
+  clear(): void {
+    this.entries = []
+  }
+
+  async fetchAll(): Promise<TransferRecordData[]> {
+    return newestFirst(this.entries)
+  }
+
+  async fetchLatestCursor(): Promise<TransferRecordCursor | null> {
+    return this.slot > 0 ? cursorForSlot(this.slot) : null
+  }
+
+  async fetchSince(cursor: TransferRecordCursor): Promise<TransferRecordPage> {
+    const newer = this.entries.filter((e) => e.slot > cursor.slot)
+    return {
+      records: newestFirst(newer),
+      cursor: newer.length > 0 ? cursorForSlot(this.slot) : cursor,
+    }
+  }
+}
+
+function cursorForSlot(slot: number): TransferRecordCursor {
+  return { signature: `fixture_${slot}`, slot }
+}
+
+function newestFirst(entries: FixtureEntry[]): TransferRecordData[] {
+  return entries
+    .map((e) => e.record)
+    .sort((a, b) => Number(b.timestamp - a.timestamp))
+}
+
+// ─── Shared Instance ───────────────────────────────────────────────────────
+
+let fixtureInstance: FixtureTransferRecordSource | null = null
+
+/**
+ * Get the shared fixture source (the one selected via settings)
+ */
+export function getFixtureTransferRecordSource(): FixtureTransferRecordSource {
+  if (!fixtureInstance) {
+    fixtureInstance = new FixtureTransferRecordSource()
+  }
+  return fixtureInstance
+}
+
+/**
+ * Reset the shared fixture source
+ */
+export function resetFixtureTransferRecordSource(): void {
+  fixtureInstance = null
+}
@@ -0,0 +1,21 @@
+/**
+ * Transfer Record Sources
+ *
+ * Pluggable backends the payment scanners read TransferRecords from.
+ */
+
+// Types
+export * from "./types"
+
+// Sources
+export { RpcTransferRecordSource, createRpcTransferRecordSource } from "./rpc"
+export { IndexerTransferRecordSource, createIndexerTransferRecordSource } from "./indexer"
+export type { IndexerSourceOptions } from "./indexer"
+export {
+  FixtureTransferRecordSource,
+  getFixtureTransferRecordSource,
+  resetFixtureTransferRecordSource,
+} from "./fixture"
+
+// Registry & Factory
+export { createTransferRecordSource } from "./registry"
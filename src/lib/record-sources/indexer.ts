@@ -0,0 +1,159 @@
+/**
+ * Indexer Transfer Record Source
+ *
+ * Reads TransferRecords from an indexer fed by Helius webhooks on the SIP Privacy
+ * program, instead of scanning the program on an RPC node. The indexer stores each
+ * record's raw account data keyed by the transaction that last touched it.
+ *
+ * API (api key passed as `api-key` query parameter, Helius-style):
+ *
+ *   GET {url}/v1/transfer-records?program=<id>[&after=<signature>][&limit=<n>]
+ *     → { records: [{ pubkey, data }], cursor: { signature, slot } | null, hasMore }
+ *       records oldest first, `data` = base64 account data
+ *
+ *   GET {url}/v1/transfer-records/latest?program=<id>
+ *     → { cursor: { signature, slot } | null }
+ */
+
+import { PublicKey } from "@solana/web3.js"
+import {
+  parseTransferRecord,
+  type TransferRecordCursor,
+  type TransferRecordData,
+} from "@/lib/anchor/client"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import { debug } from "@/utils/logger"
+import type { TransferRecordPage, TransferRecordSource } from "./types"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IndexerSourceOptions {
+  /** Indexer API base URL */
+  url: string
+  /** Optional API key */
+  apiKey?: string
+  /** Program to read records for */
+  programId?: PublicKey
+  /** Records per page */
+  pageSize?: number
+}
+
+interface IndexerRecordsResponse {
+  records: { pubkey: string; data: string }[]
+  cursor: TransferRecordCursor | null
+  hasMore: boolean
+}
+
+interface IndexerLatestResponse {
+  cursor: TransferRecordCursor | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 500
+
+// ============================================================================
+// SOURCE
+// ============================================================================
+
+export class IndexerTransferRecordSource implements TransferRecordSource {
+  readonly type = "indexer" as const
+
+  private url: string
+  private apiKey?: string
+  private programId: PublicKey
+  private pageSize: number
+
+  constructor(options: IndexerSourceOptions) {
+    this.url = options.url.replace(/\/+$/, "")
+    this.apiKey = options.apiKey
+    this.programId = options.programId ?? SIP_PRIVACY_PROGRAM_ID
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  }
+
+  async fetchAll(): Promise<TransferRecordData[]> {
+    const { records } = await this.fetchPages(null)
+    return records
+  }
+
+  async fetchLatestCursor(): Promise<TransferRecordCursor | null> {
+    const response = await this.request<IndexerLatestResponse>("/v1/transfer-records/latest", {})
+    return response.cursor
+  }
+
+  async fetchSince(cursor: TransferRecordCursor): Promise<TransferRecordPage> {
+    const page = await this.fetchPages(cursor.signature)
+    return { records: page.records, cursor: page.cursor ?? cursor }
+  }
+
+  /**
+   * Follow the indexer's pages from `after` to the newest activity
+   */
+  private async fetchPages(
+    after: string | null
+  ): Promise<{ records: TransferRecordData[]; cursor: TransferRecordCursor | null }> {
+    // Keyed by pubkey: a record touched twice (sent, then claimed) keeps its latest state
+    const byPubkey = new Map<string, TransferRecordData>()
+    let cursor: TransferRecordCursor | null = null
+    let next = after
+
+    for (;;) {
+      const params: Record<string, string> = { limit: String(this.pageSize) }
+      if (next) params.after = next
+
+      const page = await this.request<IndexerRecordsResponse>("/v1/transfer-records", params)
+      for (const entry of page.records) {
+        const record = parseTransferRecord(
+          new PublicKey(entry.pubkey),
+          Buffer.from(entry.data, "base64")
+        )
+        if (record) {
+          byPubkey.set(entry.pubkey, record)
+        }
+      }
+
+      if (page.cursor) {
+        cursor = page.cursor
+        next = page.cursor.signature
+      }
+      if (!page.hasMore || !page.cursor) break
+    }
+
+    const records = Array.from(byPubkey.values())
+    debug(`Indexer returned ${records.length} transfer records`)
+
+    // Sort by timestamp (newest first)
+    records.sort((a, b) => Number(b.timestamp - a.timestamp))
+
+    return { records, cursor }
+  }
+
+  private async request<T>(path: string, params: Record<string, string>): Promise<T> {
+    const query = new URLSearchParams({
+      program: this.programId.toBase58(),
+      ...params,
+    })
+    if (this.apiKey) {
+      query.set("api-key", this.apiKey)
+    }
+
+    const response = await fetch(`${this.url}${path}?${query}`)
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status}`)
+    }
+    return (await response.json()) as T
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createIndexerTransferRecordSource(
+  options: IndexerSourceOptions
+): IndexerTransferRecordSource {
+  return new IndexerTransferRecordSource(options)
+}
@@ -0,0 +1,43 @@
+/**
+ * Transfer Record Source Registry
+ *
+ * Builds the source selected in settings for a network.
+ */
+
+import type { Connection } from "@solana/web3.js"
+import { logger } from "@/utils/logger"
+import type {
+  TransferRecordSource,
+  TransferRecordSourceConfig,
+} from "./types"
+import { createRpcTransferRecordSource } from "./rpc"
+import { createIndexerTransferRecordSource } from "./indexer"
+import { getFixtureTransferRecordSource } from "./fixture"
+
+/**
+ * Create the transfer record source for a configuration
+ *
+ * @param config - source selection from settings
+ * @param connection - RPC connection for the network (used by the rpc source)
+ */
+export function createTransferRecordSource(
+  config: TransferRecordSourceConfig,
+  connection: Connection
+): TransferRecordSource {
+  switch (config.type) {
+    case "indexer":
+      if (!config.indexerUrl) {
+        logger.warn("Indexer source requires a URL, falling back to RPC")
+        return createRpcTransferRecordSource(connection)
+      }
+      return createIndexerTransferRecordSource({
+        url: config.indexerUrl,
+        apiKey: config.indexerApiKey,
+      })
+    case "fixture":
+      return getFixtureTransferRecordSource()
+    case "rpc":
+    default:
+      return createRpcTransferRecordSource(connection)
+  }
+}
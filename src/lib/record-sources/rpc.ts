@@ -0,0 +1,52 @@
+/**
+ * RPC Transfer Record Source
+ *
+ * Reads TransferRecords straight from a Solana RPC node: getProgramAccounts for
+ * full sweeps, the program's signature history for incremental fetches.
+ * Works against any RPC provider; the default source.
+ */
+
+import type { Connection, PublicKey } from "@solana/web3.js"
+import {
+  fetchAllTransferRecords,
+  fetchLatestTransferCursor,
+  fetchTransferRecordsSince,
+  type TransferRecordCursor,
+  type TransferRecordData,
+} from "@/lib/anchor/client"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import type { TransferRecordPage, TransferRecordSource } from "./types"
+
+export class RpcTransferRecordSource implements TransferRecordSource {
+  readonly type = "rpc" as const
+
+  private connection: Connection
+  private programId: PublicKey
+
+  constructor(connection: Connection, programId: PublicKey = SIP_PRIVACY_PROGRAM_ID) {
+    this.connection = connection
+    this.programId = programId
+  }
+
+  async fetchAll(): Promise<TransferRecordData[]> {
+    return fetchAllTransferRecords(this.connection, this.programId)
+  }
+
+  async fetchLatestCursor(): Promise<TransferRecordCursor | null> {
+    return fetchLatestTransferCursor(this.connection, this.programId)
+  }
+
+  async fetchSince(cursor: TransferRecordCursor): Promise<TransferRecordPage> {
+    return fetchTransferRecordsSince(this.connection, cursor, this.programId)
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createRpcTransferRecordSource(
+  connection: Connection,
+  programId?: PublicKey
+): RpcTransferRecordSource {
+  return new RpcTransferRecordSource(connection, programId)
+}
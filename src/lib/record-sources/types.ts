@@ -0,0 +1,130 @@
+/**
+ * Transfer Record Source Types
+ *
+ * Defines where the scanners read SIP Privacy TransferRecords from.
+ * One interface, several backends:
+ *
+ * - rpc: getProgramAccounts / signature history on the configured RPC (default)
+ * - indexer: Helius-webhook-fed indexer HTTP API
+ * - fixture: in-memory records for deterministic tests and local development
+ */
+
+import type {
+  TransferRecordCursor,
+  TransferRecordData,
+} from "@/lib/anchor/client"
+
+// ============================================================================
+// SOURCE IDENTIFICATION
+// ============================================================================
+
+/**
+ * Supported transfer record source types
+ */
+export type TransferRecordSourceType = "rpc" | "indexer" | "fixture"
+
+/**
+ * Source metadata for UI display
+ */
+export interface TransferRecordSourceInfo {
+  id: TransferRecordSourceType
+  name: string
+  description: string
+  /** Only offered in development builds */
+  devOnly: boolean
+}
+
+/**
+ * Persisted source selection (per network, in settings)
+ */
+export interface TransferRecordSourceConfig {
+  type: TransferRecordSourceType
+  /** Indexer API base URL (indexer only) */
+  indexerUrl?: string
+  /** Indexer API key, sent as `api-key` like Helius (indexer only) */
+  indexerApiKey?: string
+}
+
+// ============================================================================
+// SOURCE INTERFACE
+// ============================================================================
+
+/**
+ * Records touched after a cursor, plus the cursor to resume from next time
+ */
+export interface TransferRecordPage {
+  /** Records, newest first */
+  records: TransferRecordData[]
+  /** Cursor at the newest activity included (the input cursor if nothing happened) */
+  cursor: TransferRecordCursor
+}
+
+/**
+ * Transfer record source
+ *
+ * Every scanner (foreground, background, imported viewing keys) reads records
+ * through this interface, so the backend can be swapped per network.
+ */
+export interface TransferRecordSource {
+  /** Source type */
+  readonly type: TransferRecordSourceType
+
+  /**
+   * Fetch every TransferRecord of the program (newest first)
+   */
+  fetchAll(): Promise<TransferRecordData[]>
+
+  /**
+   * Cursor pointing at the newest record activity (null if there is none yet)
+   */
+  fetchLatestCursor(): Promise<TransferRecordCursor | null>
+
+  /**
+   * Fetch records created or updated after a cursor
+   *
+   * Throws on failure so callers keep their previous cursor.
+   */
+  fetchSince(cursor: TransferRecordCursor): Promise<TransferRecordPage>
+}
+
+// ============================================================================
+// SOURCE METADATA
+// ============================================================================
+
+/**
+ * Source used when a network has no explicit selection
+ */
+export const DEFAULT_TRANSFER_RECORD_SOURCE: TransferRecordSourceConfig = { type: "rpc" }
+
+/**
+ * Available sources for UI display
+ */
+export const TRANSFER_RECORD_SOURCES: TransferRecordSourceInfo[] = [
+  {
+    id: "rpc",
+    name: "RPC",
+    description: "Scan the program on your RPC provider",
+    devOnly: false,
+  },
+  {
+    id: "indexer",
+    name: "Indexer",
+    description: "Helius-webhook indexer API (custom URL)",
+    devOnly: false,
+  },
+  {
+    id: "fixture",
+    name: "Local Fixtures",
+    description: "In-memory records for testing",
+    devOnly: true,
+  },
+]
+
+/**
+ * Get source info by ID
+ */
+export function getTransferRecordSourceInfo(
+  id: TransferRecordSourceType
+): TransferRecordSourceInfo | undefined {
+  return TRANSFER_RECORD_SOURCES.find((s) => s.id === id)
+}
@@ -0,0 +1,47 @@
+/**
+ * Relayer Fee Limits
+ *
+ * Relayers price their own fees, so a quote is only accepted when it stays
+ * within both a share of the claimed funds and, for SOL claims, an absolute
+ * amount. Token fees are bounded by the share alone: token base units have no
+ * common value to set an absolute cap in.
+ */
+
+import type { PublicKey } from "@solana/web3.js"
+import type { ClaimRelayerFee } from "@/lib/anchor/client"
+
+/** Largest share of the claimed funds a relayer may take (basis points) */
+export const MAX_RELAYER_FEE_BPS = 500n
+
+/** Largest fee a relayer may take from a SOL claim (0.01 SOL) */
+export const MAX_RELAYER_FEE_LAMPORTS = 10_000_000n
+
+/**
+ * Largest fee accepted for a claim
+ *
+ * @param claimAmount - Funds being claimed, in base units (lamports or token units)
+ * @param tokenMint - Token mint, or null for SOL
+ */
+export function getMaxRelayerFee(claimAmount: bigint, tokenMint: PublicKey | null): bigint {
+  const share = (claimAmount * MAX_RELAYER_FEE_BPS) / 10_000n
+  if (tokenMint) return share
+  return share < MAX_RELAYER_FEE_LAMPORTS ? share : MAX_RELAYER_FEE_LAMPORTS
+}
+
+/**
+ * Reject a relayer quote above the fee cap
+ *
+ * @throws when the quoted fee exceeds getMaxRelayerFee
+ */
+export function assertRelayerFeeWithinCap(
+  quote: ClaimRelayerFee,
+  claimAmount: bigint,
+  tokenMint: PublicKey | null
+): void {
+  if (quote.fee > getMaxRelayerFee(claimAmount, tokenMint)) {
+    const limit = tokenMint
+      ? `${Number(MAX_RELAYER_FEE_BPS) / 100}% of the amount`
+      : `${Number(MAX_RELAYER_FEE_BPS) / 100}% of the amount, at most 0.01 SOL`
+    throw new Error(`Relayer fee is above the limit for this claim (${limit})`)
+  }
+}
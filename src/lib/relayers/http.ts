@@ -0,0 +1,96 @@
+/**
+ * HTTP Claim Relayer
+ *
+ * Client for a relayer service that pays claim fees.
+ *
+ * API:
+ *
+ *   GET {url}/v1/quote?network=<network>&mint=<mint|SOL>
+ *     → { feePayer, feeRecipient, fee }   fee as a decimal string (base units)
+ *
+ *   POST {url}/v1/relay   { network, transaction }   transaction = base64, partially signed
+ *     → { signature }
+ */
+
+import { PublicKey, type Transaction } from "@solana/web3.js"
+import type { ClaimRelayerFee } from "@/lib/anchor/client"
+import { debug } from "@/utils/logger"
+import type { ClaimRelayer, RelayerQuoteRequest } from "./types"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HttpRelayerOptions {
+  /** Relayer API base URL */
+  url: string
+}
+
+interface RelayerQuoteResponse {
+  feePayer: string
+  feeRecipient: string
+  fee: string
+}
+
+interface RelayerRelayResponse {
+  signature: string
+}
+
+// ============================================================================
+// RELAYER
+// ============================================================================
+
+export class HttpClaimRelayer implements ClaimRelayer {
+  readonly type = "http" as const
+
+  private url: string
+
+  constructor(options: HttpRelayerOptions) {
+    this.url = options.url.replace(/\/+$/, "")
+  }
+
+  async getQuote(request: RelayerQuoteRequest): Promise<ClaimRelayerFee> {
+    const query = new URLSearchParams({
+      network: request.network,
+      mint: request.tokenMint?.toBase58() ?? "SOL",
+    })
+    const response = await fetch(`${this.url}/v1/quote?${query}`)
+    if (!response.ok) {
+      throw new Error(`Relayer quote failed: ${response.status}`)
+    }
+    const quote = (await response.json()) as RelayerQuoteResponse
+
+    return {
+      feePayer: new PublicKey(quote.feePayer),
+      feeRecipient: new PublicKey(quote.feeRecipient),
+      fee: BigInt(quote.fee),
+    }
+  }
+
+  async relay(transaction: Transaction, network: string): Promise<string> {
+    const response = await fetch(`${this.url}/v1/relay`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        network,
+        // Fee payer signature is still missing: the relayer adds it
+        transaction: transaction
+          .serialize({ requireAllSignatures: false })
+          .toString("base64"),
+      }),
+    })
+    if (!response.ok) {
+      throw new Error(`Relayer rejected the claim: ${response.status}`)
+    }
+    const { signature } = (await response.json()) as RelayerRelayResponse
+    debug("Claim relayed:", signature)
+    return signature
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createHttpClaimRelayer(options: HttpRelayerOptions): HttpClaimRelayer {
+  return new HttpClaimRelayer(options)
+}
@@ -0,0 +1,22 @@
+/**
+ * Claim Relayers
+ *
+ * Fee payers for gasless stealth claims.
+ */
+
+// Types
+export * from "./types"
+
+// Fee limits
+export {
+  MAX_RELAYER_FEE_BPS,
+  MAX_RELAYER_FEE_LAMPORTS,
+  getMaxRelayerFee,
+  assertRelayerFeeWithinCap,
+} from "./fees"
+
+// Relayers
+export { HttpClaimRelayer, createHttpClaimRelayer } from "./http"
+export type { HttpRelayerOptions } from "./http"
+export { MockClaimRelayer, createMockClaimRelayer } from "./mock"
+export type { MockRelayerOptions } from "./mock"
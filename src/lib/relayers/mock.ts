@@ -0,0 +1,79 @@
+/**
+ * Mock Claim Relayer
+ *
+ * In-process relayer holding its own fee payer keypair. Co-signs like a real
+ * relayer and checks that every signature is present and valid, but only
+ * records the transaction unless a `submit` function is given (e.g. one that
+ * sends to a local validator).
+ */
+
+import { Keypair, PublicKey, type Transaction } from "@solana/web3.js"
+import bs58 from "bs58"
+import type { ClaimRelayerFee } from "@/lib/anchor/client"
+import type { ClaimRelayer, RelayerQuoteRequest } from "./types"
+
+export interface MockRelayerOptions {
+  /** Fee payer keypair (random by default) */
+  feePayer?: Keypair
+  /** Fee recipient (the fee payer by default) */
+  feeRecipient?: PublicKey
+  /** Fee charged for SOL claims, in lamports */
+  solFee?: bigint
+  /** Fee charged for SPL claims, in token base units */
+  tokenFee?: bigint
+  /** Send the co-signed transaction; returns its signature */
+  submit?: (transaction: Transaction, network: string) => Promise<string>
+}
+
+export class MockClaimRelayer implements ClaimRelayer {
+  readonly type = "mock" as const
+
+  /** Transactions co-signed so far, oldest first */
+  readonly relayed: Transaction[] = []
+
+  private feePayer: Keypair
+  private feeRecipient: PublicKey
+  private solFee: bigint
+  private tokenFee: bigint
+  private submit?: (transaction: Transaction, network: string) => Promise<string>
+
+  constructor(options: MockRelayerOptions = {}) {
+    this.feePayer = options.feePayer ?? Keypair.generate()
+    this.feeRecipient = options.feeRecipient ?? this.feePayer.publicKey
+    this.solFee = options.solFee ?? 5000n
+    this.tokenFee = options.tokenFee ?? 0n
+    this.submit = options.submit
+  }
+
+  async getQuote(request: RelayerQuoteRequest): Promise<ClaimRelayerFee> {
+    return {
+      feePayer: this.feePayer.publicKey,
+      feeRecipient: this.feeRecipient,
+      fee: request.tokenMint ? this.tokenFee : this.solFee,
+    }
+  }
+
+  async relay(transaction: Transaction, network: string): Promise<string> {
+    if (!transaction.feePayer?.equals(this.feePayer.publicKey)) {
+      throw new Error("Relayer is not the fee payer of this transaction")
+    }
+
+    transaction.partialSign(this.feePayer)
+    if (!transaction.verifySignatures()) {
+      throw new Error("Relayed transaction is missing signatures")
+    }
+
+    this.relayed.push(transaction)
+    if (this.submit) {
+      return this.submit(transaction, network)
+    }
+    return bs58.encode(transaction.signature!)
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createMockClaimRelayer(options?: MockRelayerOptions): MockClaimRelayer {
+  return new MockClaimRelayer(options)
+}
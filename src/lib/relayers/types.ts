@@ -0,0 +1,59 @@
+/**
+ * Claim Relayer Types
+ *
+ * A relayer pays the fees of a stealth claim so neither the stealth account
+ * nor the main wallet needs SOL for it. It quotes a fee (taken out of the
+ * claimed funds), then co-signs the claim as fee payer and submits it.
+ *
+ * - http: relayer service reached over HTTP (URL set per network in settings)
+ * - mock: in-process relayer for tests and local development
+ */
+
+import type { PublicKey, Transaction } from "@solana/web3.js"
+import type { ClaimRelayerFee } from "@/lib/anchor/client"
+
+// ============================================================================
+// RELAYER IDENTIFICATION
+// ============================================================================
+
+/**
+ * Supported relayer types
+ */
+export type ClaimRelayerType = "http" | "mock"
+
+// ============================================================================
+// RELAYER INTERFACE
+// ============================================================================
+
+/**
+ * What is being claimed, for the relayer to price its fee
+ */
+export interface RelayerQuoteRequest {
+  /** Network of the claim */
+  network: string
+  /** Token mint, or null for SOL */
+  tokenMint: PublicKey | null
+}
+
+/**
+ * Claim relayer
+ */
+export interface ClaimRelayer {
+  /** Relayer type */
+  readonly type: ClaimRelayerType
+
+  /**
+   * Get the relayer's fee payer and fee for a claim
+   */
+  getQuote(request: RelayerQuoteRequest): Promise<ClaimRelayerFee>
+
+  /**
+   * Co-sign a claim as fee payer and submit it
+   *
+   * The transaction must already carry every other signature (stealth account,
+   * and the recipient when it signs).
+   *
+   * @returns transaction signature
+   */
+  relay(transaction: Transaction, network: string): Promise<string>
+}
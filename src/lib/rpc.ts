@@ -4,24 +4,135 @@
  * Supports multiple RPC providers:
  * - Helius (recommended for production)
  * - QuickNode
- * - Generic RPC (devnet, mainnet-beta)
+ * - Triton (custom endpoint)
+ * - PublicNode and the Solana public RPC (free, no key required)
+ * - Localnet (solana-test-validator on this machine)
+ *
+ * Every provider the user has configured joins an ordered endpoint pool.
+ * The pool tracks latency and error rates per endpoint and fails over on
+ * rate limits (429), server errors (5xx) and timeouts, so one flaky public
+ * RPC no longer breaks a scan mid-run.
  *
  * Configurable via settings store.
  */
 
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Connection, PublicKey, LAMPORTS_PER_SOL, type FetchFn } from "@solana/web3.js"
 import { logger } from "@/utils/logger"
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
 export type RpcProvider = "helius" | "quicknode" | "triton" | "publicnode"
-export type NetworkCluster = "mainnet-beta" | "devnet" | "testnet"
+export type NetworkCluster = "mainnet-beta" | "devnet" | "testnet" | "localnet"
+
+/** Clusters served by the hosted RPC providers */
+type HostedCluster = Exclude<NetworkCluster, "localnet">
+
+/**
+ * Endpoint origin: a provider, a user-supplied URL or profile, the Solana
+ * public RPC, or the local validator
+ */
+export type RpcEndpointId = RpcProvider | "custom" | "profile" | "solana" | "localnet"
 
 export interface RpcConfig {
+  /** Preferred provider, tried first */
   provider: RpcProvider
   cluster: NetworkCluster
+  /** API key of the preferred provider */
   apiKey?: string
+  /** URL tried before every provider (Triton's endpoint when provider is "triton") */
   customEndpoint?: string
+  /** Credentials of the other providers, added to the pool as failovers */
+  failover?: RpcFailoverCredentials
+  /** User-defined node, used instead of every provider */
+  profile?: RpcProfileEndpoint
+}
+
+export interface RpcFailoverCredentials {
+  heliusApiKey?: string
+  quicknodeApiKey?: string
+  tritonEndpoint?: string
+}
+
+/**
+ * RPC fields of the settings store
+ */
+export interface RpcSettings {
+  network: NetworkCluster
+  rpcProvider: RpcProvider
+  heliusApiKey: string | null
+  quicknodeApiKey: string | null
+  tritonEndpoint: string | null
+  /** Absent in settings persisted before RPC profiles existed */
+  rpcProfiles?: RpcProfile[]
+  activeRpcProfileIds?: Partial<Record<NetworkCluster, string>>
+}
+
+/**
+ * Connection details of a user-defined RPC node
+ */
+export interface RpcProfileEndpoint {
+  httpUrl: string
+  /** Subscriptions endpoint (derived from httpUrl when unset) */
+  wsUrl?: string
+  /** Sent with every HTTP request (e.g. an auth token) */
+  headers?: Record<string, string>
+}
+
+/**
+ * Named RPC node the user can assign to a network
+ */
+export interface RpcProfile extends RpcProfileEndpoint {
+  id: string
+  name: string
+  network: NetworkCluster
+  createdAt: number
+}
+
+export type RpcProfileInput = Omit<RpcProfile, "id" | "createdAt">
+
+export interface RpcProfileTestResult {
+  /** Reachable, healthy and reporting a version */
+  ok: boolean
+  latencyMs: number | null
+  /** getHealth answered "ok" */
+  healthy: boolean
+  /** getHealth error, e.g. "Node is behind by 42 slots" */
+  healthMessage: string | null
+  /** solana-core version */
+  version: string | null
+  slot: number | null
+  /** Slot of the public RPC for the same network (null on localnet) */
+  referenceSlot: number | null
+  /** referenceSlot - slot (null without a reference) */
+  slotLag: number | null
+  error: string | null
+}
+
+export interface RpcEndpoint {
+  id: RpcEndpointId
+  url: string
+}
+
+export interface RpcEndpointHealth extends RpcEndpoint {
+  /** Smoothed latency of successful requests (null until one succeeds) */
+  latencyMs: number | null
+  /** Smoothed share of failed requests, 0-1 */
+  errorRate: number
+  requests: number
+  failures: number
+  consecutiveFailures: number
+  /** Skipped until this time (ms since epoch) after a failure */
+  cooldownUntil: number
+  lastError: string | null
+}
+
+export interface RpcPoolOptions {
+  /** Per-request timeout (default: REQUEST_TIMEOUT_MS) */
+  timeoutMs?: number
+  /** Underlying fetch (default: global fetch) */
+  fetch?: FetchFn
+  /** Clock (default: Date.now) */
+  now?: () => number
 }
 
 export interface BalanceResult {
@@ -41,85 +152,344 @@ export interface TokenBalance {
 
 // ─── Constants ─────────────────────────────────────────────────────────────
 
+/**
+ * solana-test-validator's default RPC port
+ *
+ * 127.0.0.1 is the device itself: on an emulator or phone, assign an RPC
+ * profile pointing at the machine running the validator instead.
+ */
+export const LOCALNET_RPC_URL = "http://127.0.0.1:8899"
+
 // PublicNode endpoints (free, no key required)
-const PUBLICNODE_ENDPOINTS: Record<NetworkCluster, string> = {
+const PUBLICNODE_ENDPOINTS: Record<HostedCluster, string> = {
   "mainnet-beta": "https://solana-rpc.publicnode.com",
   devnet: "https://api.devnet.solana.com", // PublicNode doesn't have devnet, fallback
   testnet: "https://api.testnet.solana.com",
 }
 
-const HELIUS_ENDPOINTS: Record<NetworkCluster, string> = {
+const HELIUS_ENDPOINTS: Record<HostedCluster, string> = {
   "mainnet-beta": "https://mainnet.helius-rpc.com",
   devnet: "https://devnet.helius-rpc.com",
   testnet: "https://api.testnet.solana.com", // Helius doesn't support testnet
 }
 
-const QUICKNODE_ENDPOINTS: Record<NetworkCluster, string> = {
+const QUICKNODE_ENDPOINTS: Record<HostedCluster, string> = {
   "mainnet-beta": "https://solana-mainnet.quiknode.pro",
   devnet: "https://solana-devnet.quiknode.pro",
   testnet: "https://api.testnet.solana.com", // QuickNode doesn't support testnet
 }
 
-// ─── RPC Client Class ──────────────────────────────────────────────────────
+// Solana Foundation public RPC (last resort, heavily rate limited)
+const SOLANA_PUBLIC_ENDPOINTS: Record<HostedCluster, string> = {
+  "mainnet-beta": "https://api.mainnet-beta.solana.com",
+  devnet: "https://api.devnet.solana.com",
+  testnet: "https://api.testnet.solana.com",
+}
 
-export class SolanaRpcClient {
-  private connection: Connection
-  private config: RpcConfig
+/** Long enough for a full getProgramAccounts sweep */
+const REQUEST_TIMEOUT_MS = 30_000
 
-  constructor(config: RpcConfig) {
-    this.config = config
-    this.connection = new Connection(this.getEndpoint(), {
-      commitment: "confirmed",
-      confirmTransactionInitialTimeout: 60000,
-    })
+/** Statuses that move a request on to the next endpoint (plus every 5xx) */
+const FAILOVER_STATUSES = new Set([401, 403, 408, 429])
+
+// Health scoring: lower score is tried first
+const ORDER_PENALTY_MS = 200 // configured order wins unless an endpoint is clearly slower
+const ASSUMED_LATENCY_MS = 300 // for endpoints without a successful request yet
+const ERROR_PENALTY_MS = 2_000 // per unit of error rate
+const LATENCY_SMOOTHING = 0.3
+const ERROR_SMOOTHING = 0.2
+
+// Failed endpoints are skipped for a while (doubling per consecutive failure)
+const BASE_COOLDOWN_MS = 5_000
+const MAX_COOLDOWN_MS = 120_000
+
+/** Profile test timeout per request */
+const PROFILE_TEST_TIMEOUT_MS = 10_000
+
+/** Slots behind the public RPC before a node counts as lagging (~1 minute) */
+export const RPC_SLOT_LAG_WARNING = 150
+
+// ─── Endpoint Pool ─────────────────────────────────────────────────────────
+
+/**
+ * Build the ordered endpoint pool for a configuration
+ *
+ * Order: custom endpoint, preferred provider, other configured providers
+ * (Helius, QuickNode, Triton), PublicNode, Solana public RPC. Duplicate URLs
+ * are dropped (e.g. providers without testnet support).
+ *
+ * A profile is used on its own: requests (and its headers) never fail over
+ * to third-party nodes. Localnet only has the local validator.
+ */
+export function buildRpcEndpoints(config: RpcConfig): RpcEndpoint[] {
+  const { provider, cluster, apiKey, customEndpoint, failover = {}, profile } = config
+
+  if (profile) {
+    return [{ id: "profile", url: profile.httpUrl }]
+  }
+  if (cluster === "localnet") {
+    return [{ id: "localnet", url: LOCALNET_RPC_URL }]
+  }
+
+  if (provider === "helius" && !apiKey) {
+    logger.warn("Helius requires API key, falling back to PublicNode")
+  } else if (provider === "quicknode" && !apiKey) {
+    logger.warn("QuickNode requires API key, falling back to PublicNode")
+  } else if (provider === "triton" && !customEndpoint) {
+    logger.warn("Triton requires custom endpoint, falling back to PublicNode")
+  }
+
+  const candidates: (RpcEndpoint | null)[] = [
+    customEndpoint ? { id: provider === "triton" ? "triton" : "custom", url: customEndpoint } : null,
+    provider === "helius" ? heliusEndpoint(cluster, apiKey) : null,
+    provider === "quicknode" ? quicknodeEndpoint(cluster, apiKey) : null,
+    heliusEndpoint(cluster, failover.heliusApiKey),
+    quicknodeEndpoint(cluster, failover.quicknodeApiKey),
+    failover.tritonEndpoint ? { id: "triton", url: failover.tritonEndpoint } : null,
+    { id: "publicnode", url: PUBLICNODE_ENDPOINTS[cluster] },
+    { id: "solana", url: SOLANA_PUBLIC_ENDPOINTS[cluster] },
+  ]
+
+  const seen = new Set<string>()
+  return candidates.filter((endpoint): endpoint is RpcEndpoint => {
+    if (!endpoint || seen.has(endpoint.url)) return false
+    seen.add(endpoint.url)
+    return true
+  })
+}
+
+function heliusEndpoint(cluster: HostedCluster, apiKey?: string): RpcEndpoint | null {
+  return apiKey ? { id: "helius", url: `${HELIUS_ENDPOINTS[cluster]}/?api-key=${apiKey}` } : null
+}
+
+function quicknodeEndpoint(cluster: HostedCluster, apiKey?: string): RpcEndpoint | null {
+  return apiKey ? { id: "quicknode", url: `${QUICKNODE_ENDPOINTS[cluster]}/${apiKey}` } : null
+}
+
+/**
+ * Endpoint URL safe to log (no API key)
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    return new URL(url).origin
+  } catch {
+    return url.split("?")[0]
+  }
+}
+
+/**
+ * Ordered RPC endpoints with health tracking and failover
+ *
+ * `fetch` is handed to a web3.js Connection: each JSON-RPC request goes to
+ * the best-scoring endpoint and moves on to the next one on 429/5xx,
+ * auth errors, timeouts and network failures. Failed endpoints cool down
+ * before they are tried first again.
+ */
+export class RpcEndpointPool {
+  private readonly endpoints: RpcEndpoint[]
+  private readonly health: Map<string, RpcEndpointHealth>
+  private readonly timeoutMs: number
+  private readonly baseFetch: FetchFn
+  private readonly now: () => number
+
+  constructor(endpoints: RpcEndpoint[], options: RpcPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("RPC pool needs at least one endpoint")
+    }
+    this.endpoints = endpoints
+    this.health = new Map(
+      endpoints.map((e) => [
+        e.url,
+        {
+          ...e,
+          latencyMs: null,
+          errorRate: 0,
+          requests: 0,
+          failures: 0,
+          consecutiveFailures: 0,
+          cooldownUntil: 0,
+          lastError: null,
+        },
+      ])
+    )
+    this.timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS
+    this.baseFetch = options.fetch ?? ((input, init) => fetch(input, init))
+    this.now = options.now ?? Date.now
   }
 
   /**
-   * Get the RPC endpoint based on configuration
+   * Endpoints in configured order
    */
-  private getEndpoint(): string {
-    const { provider, cluster, apiKey, customEndpoint } = this.config
+  getEndpoints(): RpcEndpoint[] {
+    return [...this.endpoints]
+  }
 
-    if (customEndpoint) {
-      return customEndpoint
-    }
+  /**
+   * Health snapshot, in configured order
+   */
+  getHealth(): RpcEndpointHealth[] {
+    return this.endpoints.map((e) => ({ ...this.health.get(e.url)! }))
+  }
 
-    switch (provider) {
-      case "helius":
-        if (!apiKey) {
-          logger.warn("Helius requires API key, falling back to PublicNode")
-          return PUBLICNODE_ENDPOINTS[cluster]
-        }
-        return `${HELIUS_ENDPOINTS[cluster]}/?api-key=${apiKey}`
+  /**
+   * Endpoints in the order the next request tries them
+   *
+   * Available endpoints by score, then cooling-down ones by how soon they
+   * come back (still tried, as a last resort).
+   */
+  rank(): RpcEndpointHealth[] {
+    const now = this.now()
+    const all = this.getHealth()
+    const available = all
+      .filter((h) => h.cooldownUntil <= now)
+      .sort((a, b) => this.score(a) - this.score(b))
+    const coolingDown = all
+      .filter((h) => h.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil)
+    return [...available, ...coolingDown]
+  }
 
-      case "quicknode":
-        if (!apiKey) {
-          logger.warn("QuickNode requires API key, falling back to PublicNode")
-          return PUBLICNODE_ENDPOINTS[cluster]
-        }
-        return `${QUICKNODE_ENDPOINTS[cluster]}/${apiKey}`
+  recordSuccess(url: string, latencyMs: number): void {
+    const h = this.health.get(url)
+    if (!h) return
+    h.requests++
+    h.consecutiveFailures = 0
+    h.cooldownUntil = 0
+    h.errorRate *= 1 - ERROR_SMOOTHING
+    h.latencyMs =
+      h.latencyMs === null ? latencyMs : h.latencyMs + LATENCY_SMOOTHING * (latencyMs - h.latencyMs)
+  }
+
+  /**
+   * @param retryAfterMs - Server-requested backoff (429 Retry-After), overrides the cooldown
+   */
+  recordFailure(url: string, reason: string, retryAfterMs?: number): void {
+    const h = this.health.get(url)
+    if (!h) return
+    h.requests++
+    h.failures++
+    h.consecutiveFailures++
+    h.lastError = reason
+    h.errorRate += ERROR_SMOOTHING * (1 - h.errorRate)
+    const cooldown =
+      retryAfterMs ?? BASE_COOLDOWN_MS * 2 ** Math.min(h.consecutiveFailures - 1, 5)
+    h.cooldownUntil = this.now() + Math.min(cooldown, MAX_COOLDOWN_MS)
+    logger.warn(`RPC ${h.id} (${redactRpcUrl(url)}) failed: ${reason}`)
+  }
 
-      case "triton":
-        // Triton uses custom endpoint (user provides full URL)
-        if (!customEndpoint) {
-          logger.warn("Triton requires custom endpoint, falling back to PublicNode")
-          return PUBLICNODE_ENDPOINTS[cluster]
+  /**
+   * Failover fetch for web3.js (the request URL is replaced by the pool's choice)
+   *
+   * Returns the last failing response when every endpoint fails, so the
+   * Connection surfaces the usual RPC error.
+   */
+  fetch: FetchFn = async (_input, init) => {
+    let lastResponse: Response | null = null
+    let lastError: unknown = null
+
+    for (const endpoint of this.rank()) {
+      const started = this.now()
+      try {
+        const response = await this.fetchWithTimeout(endpoint.url, init)
+        if (FAILOVER_STATUSES.has(response.status) || response.status >= 500) {
+          this.recordFailure(endpoint.url, `HTTP ${response.status}`, parseRetryAfter(response))
+          lastResponse = response
+          continue
         }
-        return customEndpoint
+        this.recordSuccess(endpoint.url, this.now() - started)
+        return response
+      } catch (err) {
+        this.recordFailure(endpoint.url, err instanceof Error ? err.message : "Request failed")
+        lastError = err
+      }
+    }
+
+    if (lastResponse) return lastResponse
+    throw lastError instanceof Error ? lastError : new Error("All RPC endpoints failed")
+  }
 
-      case "publicnode":
-      default:
-        return PUBLICNODE_ENDPOINTS[cluster]
+  private async fetchWithTimeout(url: string, init: Parameters<FetchFn>[1]): Promise<Response> {
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    // Race the timer too: not every fetch implementation honours the abort signal
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(new Error(`Timed out after ${this.timeoutMs}ms`))
+      }, this.timeoutMs)
+    })
+    try {
+      return await Promise.race([this.baseFetch(url, { ...init, signal: controller.signal }), timeout])
+    } finally {
+      clearTimeout(timer)
     }
   }
 
+  private score(h: RpcEndpointHealth): number {
+    const order = this.endpoints.findIndex((e) => e.url === h.url)
+    return (
+      order * ORDER_PENALTY_MS +
+      (h.latencyMs ?? ASSUMED_LATENCY_MS) +
+      h.errorRate * ERROR_PENALTY_MS
+    )
+  }
+}
+
+/**
+ * Retry-After header in ms (seconds form only)
+ */
+function parseRetryAfter(response: Response): number | undefined {
+  const value = response.headers?.get("retry-after")
+  const seconds = value ? Number(value) : NaN
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined
+}
+
+// ─── RPC Client Class ──────────────────────────────────────────────────────
+
+export class SolanaRpcClient {
+  private connection: Connection
+  private pool: RpcEndpointPool
+
+  constructor(config: RpcConfig, options: RpcPoolOptions = {}) {
+    this.pool = new RpcEndpointPool(buildRpcEndpoints(config), options)
+    this.connection = new Connection(this.pool.getEndpoints()[0].url, {
+      commitment: "confirmed",
+      confirmTransactionInitialTimeout: 60000,
+      fetch: this.pool.fetch,
+      wsEndpoint: config.profile?.wsUrl,
+      httpHeaders: config.profile?.headers,
+    })
+  }
+
   /**
-   * Get the underlying Connection object
+   * Get the underlying Connection object (requests fail over across the pool)
    */
   getConnection(): Connection {
     return this.connection
   }
 
+  /**
+   * Endpoint pool in configured order
+   */
+  getEndpoints(): RpcEndpoint[] {
+    return this.pool.getEndpoints()
+  }
+
+  /**
+   * Latency and error stats per endpoint
+   */
+  getEndpointHealth(): RpcEndpointHealth[] {
+    return this.pool.getHealth()
+  }
+
+  /**
+   * Endpoint the next request goes to
+   */
+  getActiveEndpoint(): RpcEndpoint {
+    const { id, url } = this.pool.rank()[0]
+    return { id, url }
+  }
+
   /**
    * Get SOL balance for an address
    */
@@ -145,14 +515,13 @@ export class SolanaRpcClient {
   /**
    * Get all token balances for an address
    *
-   * Note: PublicNode returns 403 for getParsedTokenAccountsByOwner.
-   * Falls back to Solana public RPC if primary fails.
+   * Note: PublicNode returns 403 for getParsedTokenAccountsByOwner; the pool
+   * fails over to the next endpoint.
    */
   async getTokenBalances(address: string): Promise<TokenBalance[]> {
     const publicKey = new PublicKey(address)
     const programId = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA")
 
-    // Try primary connection first
     try {
       const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
         publicKey,
@@ -167,27 +536,9 @@ export class SolanaRpcClient {
           uiAmount: parsedInfo.tokenAmount.uiAmount || 0,
         }
       })
-    } catch (primaryErr) {
-      // Fallback to Solana public RPC (handles PublicNode 403)
-      try {
-        const fallback = new Connection("https://api.mainnet-beta.solana.com", { commitment: "confirmed" })
-        const tokenAccounts = await fallback.getParsedTokenAccountsByOwner(
-          publicKey,
-          { programId }
-        )
-        return tokenAccounts.value.map((account) => {
-          const parsedInfo = account.account.data.parsed.info
-          return {
-            mint: parsedInfo.mint,
-            amount: parsedInfo.tokenAmount.amount,
-            decimals: parsedInfo.tokenAmount.decimals,
-            uiAmount: parsedInfo.tokenAmount.uiAmount || 0,
-          }
-        })
-      } catch (fallbackErr) {
-        console.error("Failed to get token balances (primary + fallback):", primaryErr, fallbackErr)
-        return []
-      }
+    } catch (err) {
+      console.error("Failed to get token balances:", err)
+      return []
     }
   }
 
@@ -219,30 +570,186 @@ export class SolanaRpcClient {
   }
 }
 
-// ─── Singleton Instance ────────────────────────────────────────────────────
+// ─── Client Registry ───────────────────────────────────────────────────────
 
-let rpcClientInstance: SolanaRpcClient | null = null
+const DEFAULT_RPC_CONFIG: RpcConfig = {
+  provider: "publicnode",
+  cluster: "mainnet-beta",
+}
+
+// One client per configuration, so health stats survive across screens
+const rpcClients = new Map<string, SolanaRpcClient>()
+let defaultClientKey: string | null = null
+
+function configKey(config: RpcConfig): string {
+  const { provider, cluster, apiKey, customEndpoint, failover = {}, profile } = config
+  return JSON.stringify([
+    provider,
+    cluster,
+    apiKey ?? null,
+    customEndpoint ?? null,
+    failover.heliusApiKey ?? null,
+    failover.quicknodeApiKey ?? null,
+    failover.tritonEndpoint ?? null,
+    profile ? [profile.httpUrl, profile.wsUrl ?? null, profile.headers ?? null] : null,
+  ])
+}
 
 /**
- * Get or create the RPC client singleton
+ * Get the RPC client for a configuration (created once per configuration)
+ *
+ * Without a config, returns the client of the last configuration asked for.
  */
 export function getRpcClient(config?: RpcConfig): SolanaRpcClient {
-  if (!rpcClientInstance || config) {
-    rpcClientInstance = new SolanaRpcClient(
-      config || {
-        provider: "publicnode",
-        cluster: "mainnet-beta",
-      }
-    )
+  const key = config ? configKey(config) : (defaultClientKey ?? configKey(DEFAULT_RPC_CONFIG))
+  let client = rpcClients.get(key)
+  if (!client) {
+    client = new SolanaRpcClient(config ?? DEFAULT_RPC_CONFIG)
+    rpcClients.set(key, client)
   }
-  return rpcClientInstance
+  defaultClientKey = key
+  return client
 }
 
 /**
- * Reset the RPC client (useful for changing config)
+ * Reset the RPC clients (drops health stats)
  */
 export function resetRpcClient(): void {
-  rpcClientInstance = null
+  rpcClients.clear()
+  defaultClientKey = null
+}
+
+// ─── Custom Profiles ───────────────────────────────────────────────────────
+
+/**
+ * Check a profile's fields (null when valid, otherwise the reason)
+ */
+export function validateRpcProfile(input: RpcProfileInput): string | null {
+  if (!input.name.trim()) return "Name is required"
+  if (!/^https?:\/\/\S+$/.test(input.httpUrl.trim())) {
+    return "HTTP URL must start with http:// or https://"
+  }
+  if (input.wsUrl && !/^wss?:\/\/\S+$/.test(input.wsUrl.trim())) {
+    return "WebSocket URL must start with ws:// or wss://"
+  }
+  for (const name of Object.keys(input.headers ?? {})) {
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name)) {
+      return `Invalid header name: ${name}`
+    }
+  }
+  return null
+}
+
+/**
+ * Parse "Name: value" header lines (null if a line is malformed)
+ */
+export function parseRpcHeaders(text: string): Record<string, string> | null {
+  const headers: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    const separator = line.indexOf(":")
+    if (separator <= 0) return null
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+/**
+ * Format headers as "Name: value" lines (inverse of parseRpcHeaders)
+ */
+export function formatRpcHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n")
+}
+
+/**
+ * Test a profile: getHealth, getVersion and slot lag behind the public RPC
+ *
+ * Never throws; failures end up in `error`.
+ */
+export async function testRpcProfile(
+  profile: RpcProfileEndpoint & { network: NetworkCluster },
+  options: RpcPoolOptions = {}
+): Promise<RpcProfileTestResult> {
+  const now = options.now ?? Date.now
+  const poolOptions = { timeoutMs: PROFILE_TEST_TIMEOUT_MS, ...options }
+  const node = new RpcEndpointPool([{ id: "profile", url: profile.httpUrl }], poolOptions)
+  // Localnet has no public chain to lag behind
+  const reference =
+    profile.network === "localnet"
+      ? null
+      : new RpcEndpointPool(
+          [{ id: "publicnode", url: PUBLICNODE_ENDPOINTS[profile.network] }],
+          poolOptions
+        )
+
+  const result: RpcProfileTestResult = {
+    ok: false,
+    latencyMs: null,
+    healthy: false,
+    healthMessage: null,
+    version: null,
+    slot: null,
+    referenceSlot: null,
+    slotLag: null,
+    error: null,
+  }
+
+  try {
+    const start = now()
+    const version = (await jsonRpcCall(node, "getVersion", profile.headers)) as {
+      "solana-core"?: string
+    }
+    result.latencyMs = now() - start
+    result.version = version?.["solana-core"] ?? null
+    result.slot = (await jsonRpcCall(node, "getSlot", profile.headers)) as number
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : "Connection failed"
+    return result
+  }
+
+  try {
+    result.healthy = (await jsonRpcCall(node, "getHealth", profile.headers)) === "ok"
+  } catch (err) {
+    result.healthMessage = err instanceof Error ? err.message : "Unhealthy"
+  }
+
+  if (reference) {
+    try {
+      result.referenceSlot = (await jsonRpcCall(reference, "getSlot")) as number
+      result.slotLag = Math.max(0, result.referenceSlot - result.slot)
+    } catch {
+      // Public RPC unreachable: lag unknown
+    }
+  }
+
+  result.ok = result.healthy && result.version !== null
+  return result
+}
+
+/**
+ * Single JSON-RPC call (throws on HTTP and RPC errors)
+ */
+async function jsonRpcCall(
+  pool: RpcEndpointPool,
+  method: string,
+  headers: Record<string, string> = {}
+): Promise<unknown> {
+  const [endpoint] = pool.getEndpoints()
+  const response = await pool.fetch(endpoint.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method }),
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+  const body = (await response.json()) as { result?: unknown; error?: { message?: string } }
+  if (body.error) {
+    throw new Error(body.error.message ?? `${method} failed`)
+  }
+  return body.result
 }
 
 // ─── Price API ─────────────────────────────────────────────────────────────
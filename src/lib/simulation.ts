@@ -0,0 +1,403 @@
+/**
+ * Transaction Simulation Preview
+ *
+ * Simulates a transaction before it is signed and turns the result into what
+ * the user will send, receive and pay: SOL and SPL balance changes of their
+ * accounts, the network fee and the rent of accounts the transaction creates.
+ * Failures are explained in plain language (sip_privacy errors from its IDL).
+ */
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+  type AccountInfo,
+  type TransactionError,
+  type VersionedMessage,
+} from "@solana/web3.js"
+import { Buffer } from "buffer"
+import { describeSipPrivacyError } from "@/lib/anchor/errors"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import { TOKEN_PROGRAM_ID } from "@/lib/spl"
+import { BASE_FEE_LAMPORTS_PER_SIGNATURE } from "@/lib/fees"
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+/**
+ * Balance change of one account (SOL, or a token account's tokens)
+ */
+export interface BalanceChange {
+  /** Account address */
+  address: string
+  /** Token mint (null for SOL) */
+  mint: string | null
+  /** Wallet owning the tokens (token accounts) or the address itself (SOL) */
+  owner: string
+  decimals: number
+  /** Base units before and after */
+  before: bigint
+  after: bigint
+  /** The transaction creates this account */
+  created: boolean
+}
+
+/**
+ * Net amount of SOL or one token
+ */
+export interface PreviewAmount {
+  /** Token mint (null for SOL) */
+  mint: string | null
+  /** Base units (always positive) */
+  amount: bigint
+  decimals: number
+}
+
+export interface TransactionPreview {
+  /** Simulation succeeded */
+  success: boolean
+  /** Plain-language failure reason */
+  error: string | null
+  logs: string[]
+  unitsConsumed: number | null
+  /** Network fee (base + priority) in lamports */
+  feeLamports: number
+  /** Rent of accounts the transaction creates, in lamports */
+  rentLamports: number
+  /** The fee and rent come out of the owner's SOL */
+  ownerPaysFees: boolean
+  changes: BalanceChange[]
+  /** What leaves the owner's accounts (excluding fee and rent) */
+  send: PreviewAmount[]
+  /** What arrives in the owner's accounts */
+  receive: PreviewAmount[]
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+const TOKEN_2022_PROGRAM_ID = new PublicKey("TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb")
+const JUPITER_PROGRAM_ID = new PublicKey("JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4")
+
+/** Token account layout: mint (32) | owner (32) | amount (u64) */
+const TOKEN_ACCOUNT_SIZE = 165
+/** Mint layout: decimals at byte 44 */
+const MINT_DECIMALS_OFFSET = 44
+
+const SOL_DECIMALS = 9
+
+/** Jupiter's SlippageToleranceExceeded */
+const JUPITER_SLIPPAGE_ERROR = 6001
+
+// ─── Preview ───────────────────────────────────────────────────────────────
+
+/**
+ * Simulate an unsigned transaction and summarize it for `owner`
+ *
+ * Only accounts in the message itself are tracked (not ones loaded from
+ * lookup tables). Simulated balances already have the fee deducted.
+ */
+export async function previewTransaction(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  owner: PublicKey
+): Promise<TransactionPreview> {
+  const message: VersionedMessage =
+    transaction instanceof Transaction ? transaction.compileMessage() : transaction.message
+  const keys = message.staticAccountKeys
+  const writable = keys.filter((_, i) => message.isAccountWritable(i))
+  const feePayer = keys[0]
+
+  const [preAccounts, simulation, feeLamports] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable),
+    connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { encoding: "base64", addresses: writable.map((k) => k.toBase58()) },
+    }),
+    getMessageFee(connection, message),
+  ])
+
+  const { err, logs, unitsConsumed, accounts: postAccounts } = simulation.value
+  const ownerPaysFees = feePayer.equals(owner)
+
+  if (err) {
+    const programIds = message.compiledInstructions.map((ix) => keys[ix.programIdIndex])
+    return {
+      success: false,
+      error: describeTransactionError(err, programIds, logs ?? []),
+      logs: logs ?? [],
+      unitsConsumed: unitsConsumed ?? null,
+      feeLamports,
+      rentLamports: 0,
+      ownerPaysFees,
+      changes: [],
+      send: [],
+      receive: [],
+    }
+  }
+
+  const post = (postAccounts ?? []).map((account) =>
+    account
+      ? {
+          lamports: account.lamports,
+          owner: new PublicKey(account.owner),
+          data: Buffer.from(account.data[0], "base64"),
+        }
+      : null
+  )
+
+  const changes: BalanceChange[] = []
+  let rentLamports = 0
+  const mints = new Set<string>()
+
+  writable.forEach((address, i) => {
+    const before = preAccounts[i]
+    const after = post[i]
+    const created = (!before || before.lamports === 0) && !!after && after.data.length > 0
+    if (created) rentLamports += after.lamports
+
+    const beforeToken = before ? parseTokenAccount(before.owner, before.data) : null
+    const afterToken = after ? parseTokenAccount(after.owner, after.data) : null
+    const token = afterToken ?? beforeToken
+    if (token) {
+      mints.add(token.mint)
+      changes.push({
+        address: address.toBase58(),
+        mint: token.mint,
+        owner: token.owner,
+        decimals: 0,
+        before: beforeToken?.amount ?? 0n,
+        after: afterToken?.amount ?? 0n,
+        created,
+      })
+    }
+
+    const lamportsBefore = BigInt(before?.lamports ?? 0)
+    const lamportsAfter = BigInt(after?.lamports ?? 0)
+    if (lamportsBefore !== lamportsAfter) {
+      changes.push({
+        address: address.toBase58(),
+        mint: null,
+        owner: address.toBase58(),
+        decimals: SOL_DECIMALS,
+        before: lamportsBefore,
+        after: lamportsAfter,
+        created,
+      })
+    }
+  })
+
+  const decimals = await getMintDecimals(connection, [...mints])
+  changes.forEach((change) => {
+    if (change.mint) change.decimals = decimals.get(change.mint) ?? 0
+  })
+
+  const { send, receive } = summarizeForOwner(
+    changes,
+    owner,
+    ownerPaysFees ? feeLamports + rentLamports : 0
+  )
+
+  return {
+    success: true,
+    error: null,
+    logs: logs ?? [],
+    unitsConsumed: unitsConsumed ?? null,
+    feeLamports,
+    rentLamports,
+    ownerPaysFees,
+    changes,
+    send,
+    receive,
+  }
+}
+
+/**
+ * One preview for several transactions approved together (e.g. packed claims)
+ */
+export function combinePreviews(previews: TransactionPreview[]): TransactionPreview {
+  const failed = previews.find((p) => !p.success)
+  const net = new Map<string, PreviewAmount & { signed: bigint }>()
+  const add = (amounts: PreviewAmount[], sign: bigint) =>
+    amounts.forEach((a) => {
+      const key = a.mint ?? "SOL"
+      const entry = net.get(key) ?? { ...a, amount: 0n, signed: 0n }
+      entry.signed += sign * a.amount
+      net.set(key, entry)
+    })
+  previews.forEach((p) => {
+    add(p.receive, 1n)
+    add(p.send, -1n)
+  })
+
+  const entries = [...net.values()]
+  return {
+    success: !failed,
+    error: failed?.error ?? null,
+    logs: previews.flatMap((p) => p.logs),
+    unitsConsumed: previews.reduce((sum, p) => sum + (p.unitsConsumed ?? 0), 0),
+    feeLamports: previews.reduce((sum, p) => sum + p.feeLamports, 0),
+    rentLamports: previews.reduce((sum, p) => sum + p.rentLamports, 0),
+    ownerPaysFees: previews.some((p) => p.ownerPaysFees),
+    changes: previews.flatMap((p) => p.changes),
+    send: entries
+      .filter((e) => e.signed < 0n)
+      .map((e) => ({ mint: e.mint, amount: -e.signed, decimals: e.decimals })),
+    receive: entries
+      .filter((e) => e.signed > 0n)
+      .map((e) => ({ mint: e.mint, amount: e.signed, decimals: e.decimals })),
+  }
+}
+
+// ─── Errors ────────────────────────────────────────────────────────────────
+
+/**
+ * Plain-language reason for a failed transaction
+ *
+ * @param programIds - Program of each instruction, in order
+ */
+export function describeTransactionError(
+  err: TransactionError,
+  programIds: PublicKey[],
+  logs: string[] = []
+): string {
+  if (typeof err === "string") {
+    switch (err) {
+      case "InsufficientFundsForFee":
+        return "Not enough SOL to pay the network fee."
+      case "AccountNotFound":
+        return "The paying account has no SOL yet."
+      case "BlockhashNotFound":
+        return "The transaction expired. Please try again."
+      default:
+        return `Transaction would fail: ${err}.`
+    }
+  }
+
+  if (typeof err === "object" && err !== null) {
+    if ("InsufficientFundsForRent" in err) {
+      return "An account would be left below its rent-exempt minimum. Add SOL or change the amount."
+    }
+
+    if ("InstructionError" in err) {
+      const [index, instructionError] = (err as { InstructionError: [number, unknown] })
+        .InstructionError
+      const programId = programIds[index]
+
+      if (typeof instructionError === "object" && instructionError && "Custom" in instructionError) {
+        const code = (instructionError as { Custom: number }).Custom
+        return describeCustomError(programId, code)
+      }
+      if (instructionError === "InsufficientFunds") {
+        return "Not enough funds for this transaction."
+      }
+      if (logs.some((log) => log.includes("insufficient lamports"))) {
+        return "Not enough SOL for this transfer and its fees."
+      }
+      return `Transaction would fail: ${JSON.stringify(instructionError)}.`
+    }
+  }
+
+  return `Transaction would fail: ${JSON.stringify(err)}.`
+}
+
+function describeCustomError(programId: PublicKey | undefined, code: number): string {
+  if (programId?.equals(SIP_PRIVACY_PROGRAM_ID)) {
+    return describeSipPrivacyError(code)
+  }
+  if (programId?.equals(JUPITER_PROGRAM_ID) && code === JUPITER_SLIPPAGE_ERROR) {
+    return "The price moved beyond your slippage tolerance. Get a new quote or raise slippage."
+  }
+  if (programId?.equals(TOKEN_PROGRAM_ID) || programId?.equals(TOKEN_2022_PROGRAM_ID)) {
+    if (code === 1) return "Not enough tokens for this transfer."
+  }
+  if (programId?.equals(SystemProgram.programId)) {
+    if (code === 0) return "The account already exists."
+    if (code === 1) return "Not enough SOL for this transfer and its fees."
+  }
+  return `Program error ${code}${programId ? ` in ${programId.toBase58()}` : ""}.`
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+function parseTokenAccount(
+  programId: PublicKey,
+  data: Buffer
+): { mint: string; owner: string; amount: bigint } | null {
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) return null
+  if (data.length < TOKEN_ACCOUNT_SIZE) return null
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  }
+}
+
+async function getMintDecimals(connection: Connection, mints: string[]): Promise<Map<string, number>> {
+  const decimals = new Map<string, number>()
+  if (mints.length === 0) return decimals
+  const infos: (AccountInfo<Buffer> | null)[] = await connection.getMultipleAccountsInfo(
+    mints.map((m) => new PublicKey(m))
+  )
+  infos.forEach((info, i) => {
+    if (info && info.data.length > MINT_DECIMALS_OFFSET) {
+      decimals.set(mints[i], info.data[MINT_DECIMALS_OFFSET])
+    }
+  })
+  return decimals
+}
+
+async function getMessageFee(connection: Connection, message: VersionedMessage): Promise<number> {
+  try {
+    const { value } = await connection.getFeeForMessage(message)
+    if (value !== null) return value
+  } catch {
+    // Fall back to the base fee
+  }
+  return message.header.numRequiredSignatures * BASE_FEE_LAMPORTS_PER_SIGNATURE
+}
+
+/**
+ * Net change per SOL/token across the owner's accounts
+ *
+ * `ownerCosts` (fee + rent when the owner pays them) is added back so the
+ * SOL line shows only what moves to or from others.
+ */
+function summarizeForOwner(
+  changes: BalanceChange[],
+  owner: PublicKey,
+  ownerCosts: number
+): { send: PreviewAmount[]; receive: PreviewAmount[] } {
+  const ownerAddress = owner.toBase58()
+  const net = new Map<string, { mint: string | null; decimals: number; delta: bigint }>()
+  net.set("SOL", { mint: null, decimals: SOL_DECIMALS, delta: BigInt(ownerCosts) })
+
+  changes
+    .filter((c) => c.owner === ownerAddress)
+    .forEach((c) => {
+      const key = c.mint ?? "SOL"
+      const entry = net.get(key) ?? { mint: c.mint, decimals: c.decimals, delta: 0n }
+      entry.delta += c.after - c.before
+      net.set(key, entry)
+    })
+
+  const send: PreviewAmount[] = []
+  const receive: PreviewAmount[] = []
+  net.forEach(({ mint, decimals, delta }) => {
+    if (delta < 0n) send.push({ mint, amount: -delta, decimals })
+    if (delta > 0n) receive.push({ mint, amount: delta, decimals })
+  })
+  return { send, receive }
+}
+
+/**
+ * Decimal string of a base-unit amount (trailing zeros trimmed)
+ */
+export function formatBaseUnits(amount: bigint, decimals: number): string {
+  const negative = amount < 0n
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, "0")
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = decimals > 0 ? digits.slice(-decimals).replace(/0+$/, "") : ""
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`
+}
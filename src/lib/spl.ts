@@ -17,6 +17,7 @@ import {
   TransactionInstruction,
   SystemProgram,
 } from "@solana/web3.js"
+import { setTransactionLifetime, type DurableNonce } from "@/lib/nonce"
 
 // ─── Constants ─────────────────────────────────────────────────────────────
 
@@ -229,6 +230,7 @@ export async function getMintDecimals(
  * @param mint - Token mint address
  * @param amount - Amount in token units (e.g., 1.5 for 1.5 tokens)
  * @param decimals - Token decimals (if known, skips on-chain lookup)
+ * @param durableNonce - Build against a durable nonce (sender must be its authority)
  * @returns Transaction ready for signing
  */
 export async function buildSplTransferTransaction(
@@ -237,7 +239,8 @@ export async function buildSplTransferTransaction(
   recipient: PublicKey,
   mint: PublicKey,
   amount: number,
-  decimals?: number
+  decimals?: number,
+  durableNonce?: DurableNonce
 ): Promise<Transaction> {
   // Get decimals from mint if not provided
   const tokenDecimals = decimals ?? await getMintDecimals(connection, mint)
@@ -271,9 +274,8 @@ export async function buildSplTransferTransaction(
     )
   )
 
-  // Set recent blockhash and fee payer
-  const { blockhash } = await connection.getLatestBlockhash()
-  transaction.recentBlockhash = blockhash
+  // Set recent blockhash (or durable nonce) and fee payer
+  await setTransactionLifetime(connection, transaction, durableNonce)
   transaction.feePayer = sender
 
   return transaction
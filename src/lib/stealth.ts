@@ -13,6 +13,8 @@ import { sha512 } from "@noble/hashes/sha512"
 import { hkdf } from "@noble/hashes/hkdf"
 import { xchacha20poly1305 } from "@noble/ciphers/chacha.js"
 import { randomBytes } from "@noble/ciphers/utils.js"
+import { HDKey } from "@scure/bip32"
+import { mnemonicToSeedSync } from "@scure/bip39"
 import * as Crypto from "expo-crypto"
 import bs58 from "bs58"
 
@@ -30,8 +32,8 @@ export interface StealthAddress {
   ephemeralPublicKey: string // hex string with 0x prefix
   /**
    * EIP-5564 view tag (first byte of SHA256(S)) for fast-reject during scanning.
-   * Optional: it is NOT persisted on-chain, so scanners that reconstruct a
-   * StealthAddress from a transfer record leave it undefined (see checkStealthOwnership).
+   * Persisted on-chain in the prefix byte of the transfer record's ephemeral key
+   * (see encodeEphemeralPubkey). Undefined for legacy records, which carry no tag.
    */
   viewTag?: number
 }
@@ -50,6 +52,12 @@ const ED25519_ORDER = BigInt(
   "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
 )
 
+/**
+ * Prefix byte of the 33-byte on-chain ephemeral key written by clients that
+ * predate view tags (a simulated "compressed point" marker, meaningless for ed25519)
+ */
+export const LEGACY_EPHEMERAL_PREFIX = 0x02
+
 // ─── Utilities ─────────────────────────────────────────────────────────────
 
 /**
@@ -173,6 +181,72 @@ export async function generateStealthKeys(): Promise<StealthKeys> {
   }
 }
 
+// ─── Deterministic Key Derivation ──────────────────────────────────────────
+
+/**
+ * BIP32 purpose for SIP stealth keys (after EIP-5564, stealth addresses)
+ */
+export const SIP_STEALTH_PURPOSE = 5564
+
+/**
+ * SLIP-44 coin type for Solana
+ */
+const SOLANA_COIN_TYPE = 501
+
+export type StealthKeyRole = "spending" | "viewing"
+
+const STEALTH_KEY_ROLE_INDEX: Record<StealthKeyRole, number> = {
+  spending: 0,
+  viewing: 1,
+}
+
+/**
+ * SIP stealth derivation path
+ *
+ *   m/5564'/501'/{index}'/{role}'   (role: 0 = spending, 1 = viewing)
+ *
+ * Every level is hardened, so the wallet's Solana account keys
+ * (m/44'/501'/...) and its stealth keys cannot be linked from public data.
+ *
+ * @param index - Meta-address index (0 is the wallet's first meta-address)
+ * @param role - Which key of the pair
+ */
+export function getStealthDerivationPath(index: number, role: StealthKeyRole): string {
+  if (!Number.isInteger(index) || index < 0 || index >= 0x80000000) {
+    throw new Error("Invalid stealth key index")
+  }
+  return `m/${SIP_STEALTH_PURPOSE}'/${SOLANA_COIN_TYPE}'/${index}'/${STEALTH_KEY_ROLE_INDEX[role]}'`
+}
+
+/**
+ * Derive the stealth key pair at an index from a BIP39 mnemonic
+ *
+ * The same mnemonic and index always give the same keys, so restoring the
+ * seed phrase restores the meta-address and every payment sent to it.
+ * The derived BIP32 private keys are used as ed25519 seeds, like the
+ * wallet's own account keys.
+ */
+export function deriveStealthKeysFromMnemonic(mnemonic: string, index: number): StealthKeys {
+  const root = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic))
+  const spendingPrivateKey = deriveSeedAt(root, getStealthDerivationPath(index, "spending"))
+  const viewingPrivateKey = deriveSeedAt(root, getStealthDerivationPath(index, "viewing"))
+
+  return {
+    spendingPrivateKey: `0x${bytesToHex(spendingPrivateKey)}`,
+    spendingPublicKey: `0x${bytesToHex(ed25519.getPublicKey(spendingPrivateKey))}`,
+    viewingPrivateKey: `0x${bytesToHex(viewingPrivateKey)}`,
+    viewingPublicKey: `0x${bytesToHex(ed25519.getPublicKey(viewingPrivateKey))}`,
+  }
+}
+
+function deriveSeedAt(root: HDKey, path: string): Uint8Array {
+  const privateKey = root.derive(path).privateKey
+  if (!privateKey) {
+    throw new Error(`Failed to derive stealth key at ${path}`)
+  }
+  return privateKey
+}
+
 // ─── Stealth Address Generation ────────────────────────────────────────────
 
 /**
@@ -183,32 +257,28 @@ export async function generateStealthKeys(): Promise<StealthKeys> {
  * 2. Compute shared secret: S = r * P_view (ephemeral scalar * viewing public)
  * 3. Hash shared secret: h = SHA256(S)
  * 4. Derive stealth public key: P_stealth = P_spend + h*G
+ *
+ * @param ephemeralPrivateKey - Use this ephemeral key instead of a random one
+ *   (only for addresses that must be re-derivable, see deriveClaimEphemeralKey)
  */
 export async function generateStealthAddress(
-  recipientMetaAddress: StealthMetaAddress
+  recipientMetaAddress: StealthMetaAddress,
+  ephemeralPrivateKey?: Uint8Array
 ): Promise<{
   stealthAddress: StealthAddress
   sharedSecret: string
   ephemeralPrivateKey: string
 }> {
   // Generate ephemeral keypair
-  const ephemeralPrivateKey = await generateRandomBytes(32)
+  ephemeralPrivateKey ??= await generateRandomBytes(32)
   const ephemeralPublicKey = ed25519.getPublicKey(ephemeralPrivateKey)
 
   // Parse recipient's keys (remove 0x prefix)
   const spendingKeyBytes = hexToBytes(recipientMetaAddress.spendingKey)
   const viewingKeyBytes = hexToBytes(recipientMetaAddress.viewingKey)
 
-  // Get ephemeral scalar from private key and reduce mod L
-  const rawEphemeralScalar = getEd25519Scalar(ephemeralPrivateKey)
-  const ephemeralScalar = rawEphemeralScalar % ED25519_ORDER
-
-  // S = ephemeral_scalar * P_view  (canonical EIP-5564: ECDH on the viewing key)
-  const viewingPoint = ed25519.ExtendedPoint.fromHex(viewingKeyBytes)
-  const sharedSecretPoint = viewingPoint.multiply(ephemeralScalar)
-
-  // Hash the shared secret point
-  const sharedSecretHash = sha256(sharedSecretPoint.toRawBytes())
+  // h = SHA256(S), S = ephemeral_scalar * P_view  (canonical EIP-5564: ECDH on the viewing key)
+  const sharedSecretHash = senderSharedSecretHash(ephemeralPrivateKey, viewingKeyBytes)
 
   // Derive stealth public key: P_stealth = P_spend + hash(S)*G
   const hashScalar = bytesToBigInt(sharedSecretHash) % ED25519_ORDER
@@ -235,6 +305,99 @@ export async function generateStealthAddress(
   }
 }
 
+/**
+ * Sender-side shared secret hash: SHA256(ephemeral_scalar * P_view)
+ */
+function senderSharedSecretHash(
+  ephemeralPrivateKey: Uint8Array,
+  viewingPublicKey: Uint8Array
+): Uint8Array {
+  const ephemeralScalar = getEd25519Scalar(ephemeralPrivateKey) % ED25519_ORDER
+  const viewingPoint = ed25519.ExtendedPoint.fromHex(viewingPublicKey)
+  return sha256(viewingPoint.multiply(ephemeralScalar).toRawBytes())
+}
+
+/**
+ * Compute the view tag for a payment from the sender's side
+ *
+ * Same value as `generateStealthAddress(...).stealthAddress.viewTag` for the
+ * same ephemeral key, for callers that only kept the ephemeral private key.
+ *
+ * @param ephemeralPrivateKey - ephemeral private key (32-byte seed)
+ * @param viewingPublicKey - recipient viewing public key (32-byte ed25519 point)
+ */
+export function computeViewTag(
+  ephemeralPrivateKey: Uint8Array,
+  viewingPublicKey: Uint8Array
+): number {
+  return senderSharedSecretHash(ephemeralPrivateKey, viewingPublicKey)[0]
+}
+
+const CLAIM_EPHEMERAL_DOMAIN = "SIP-CLAIM-DESTINATION-V1"
+
+/**
+ * Ephemeral key for claiming a payment into one of the user's own stealth addresses
+ *
+ * Such claims create no TransferRecord to announce the new address, so its
+ * ephemeral key is derived from the viewing private key and the address being
+ * claimed instead of drawn at random. Anyone holding the (seed-derived) keys can
+ * re-derive where a claimed payment went; nobody else can.
+ *
+ * @param viewingPrivateKey - Owner's viewing private key (hex)
+ * @param sourceAddress - Stealth address the payment was claimed from (base58)
+ */
+export function deriveClaimEphemeralKey(viewingPrivateKey: string, sourceAddress: string): Uint8Array {
+  const domain = new TextEncoder().encode(CLAIM_EPHEMERAL_DOMAIN)
+  const viewing = hexToBytes(viewingPrivateKey)
+  const source = bs58.decode(sourceAddress)
+  const input = new Uint8Array(domain.length + viewing.length + source.length)
+  input.set(domain)
+  input.set(viewing, domain.length)
+  input.set(source, domain.length + viewing.length)
+  return sha256(input)
+}
+
+// ─── On-chain Ephemeral Key Encoding ───────────────────────────────────────
+
+/**
+ * Encode an ephemeral public key in the 33-byte on-chain format
+ *
+ * The program stores the ephemeral key as `[u8; 33]`. Its first byte used to be a
+ * constant `0x02`; it now carries the view tag so scanners can reject other
+ * recipients' records after the ECDH + one hash, skipping the point recomputation.
+ * Without a tag the legacy prefix is written.
+ *
+ * @param ephemeralPublicKey - ephemeral public key R (32-byte ed25519 point)
+ * @param viewTag - view tag (0-255)
+ */
+export function encodeEphemeralPubkey(
+  ephemeralPublicKey: Uint8Array,
+  viewTag?: number
+): Uint8Array {
+  const encoded = new Uint8Array(33)
+  encoded[0] = viewTag ?? LEGACY_EPHEMERAL_PREFIX
+  encoded.set(ephemeralPublicKey, 1)
+  return encoded
+}
+
+/**
+ * Decode a 33-byte on-chain ephemeral key into R and its view tag
+ *
+ * A `0x02` prefix is indistinguishable from a legacy (tagless) record, so it yields
+ * no tag and the scanner falls back to the full check — 1 in 256 tagged records
+ * pays the legacy cost, none are missed.
+ */
+export function decodeEphemeralPubkey(encoded: Uint8Array): {
+  publicKey: Uint8Array
+  viewTag?: number
+} {
+  const prefix = encoded[0]
+  return {
+    publicKey: encoded.slice(1),
+    viewTag: prefix === LEGACY_EPHEMERAL_PREFIX ? undefined : prefix,
+  }
+}
+
 // ─── Stealth Address Checking ──────────────────────────────────────────────
 
 /**
@@ -259,7 +422,7 @@ export function checkStealthAddress(
   const sharedSecretPoint = ephemeralPoint.multiply(viewingScalar)
   const sharedSecretHash = sha256(sharedSecretPoint.toRawBytes())
 
-  // View tag fast-reject (only when a tag is supplied — on-chain records don't store one)
+  // View tag fast-reject (only when a tag is supplied — legacy records don't carry one)
   if (stealthAddress.viewTag !== undefined && sharedSecretHash[0] !== stealthAddress.viewTag) {
     return false
   }
@@ -277,10 +440,10 @@ export function checkStealthAddress(
  * View-only ownership check from raw on-chain parts (stealth recipient + ephemeral key).
  *
  * Convenience wrapper over {@link checkStealthAddress} for scanners that hold the raw
- * stealth recipient and ephemeral public key parsed from a transfer record — rather than
- * a full StealthAddress object — and for which no view tag is stored on-chain. Delegates
- * to checkStealthAddress (the single source of the P = K_spend + H(S)*G recomputation)
- * with the view tag omitted, so there is no second copy of the stealth derivation.
+ * stealth recipient, ephemeral public key and (when the record carries one) view tag
+ * parsed from a transfer record — rather than a full StealthAddress object. Delegates
+ * to checkStealthAddress (the single source of the P = K_spend + H(S)*G recomputation),
+ * so there is no second copy of the stealth derivation.
  *
  * VIEW-ONLY: needs the viewing PRIVATE key and the spending PUBLIC key only — never the
  * spending private key (which is required to spend, not to detect).
@@ -289,16 +452,18 @@ export function checkStealthAddress(
  * @param ephemeralPublicKey - ephemeral public key R (hex, 0x optional, 32-byte ed25519)
  * @param viewingPrivateKey - recipient viewing private key (hex, 0x optional)
  * @param spendingPublicKey - recipient spending public key (hex, 0x optional)
+ * @param viewTag - on-chain view tag, if the record carries one (enables fast-reject)
  * @returns true if the payment was intended for this recipient
  */
 export function checkStealthOwnership(
   stealthAddress: string,
   ephemeralPublicKey: string,
   viewingPrivateKey: string,
-  spendingPublicKey: string
+  spendingPublicKey: string,
+  viewTag?: number
 ): boolean {
   return checkStealthAddress(
-    { address: stealthAddress, ephemeralPublicKey },
+    { address: stealthAddress, ephemeralPublicKey, viewTag },
     viewingPrivateKey,
     spendingPublicKey
   )
@@ -37,7 +37,10 @@ import type {
   AdapterOptions,
 } from "./types"
 import { debug } from "@/utils/logger"
+import { getConnection } from "@/lib/connection"
+import { useSettingsStore } from "@/stores/settings"
 import { storeComplianceRecord } from "@/lib/compliance-records"
+import type { Connection } from "@solana/web3.js"
 
 // ============================================================================
 // TYPES
@@ -285,7 +288,7 @@ export class CSPLAdapter implements PrivacyProviderAdapter {
 
   async initialize(): Promise<void> {
     try {
-      const rpcEndpoint = this.getRpcEndpoint()
+      const rpcEndpoint = this.getConnection().rpcEndpoint
 
       // NOTE: Token-2022 Confidential Transfers require ZK ElGamal proofs
       // which are currently disabled on Solana devnet/mainnet.
@@ -309,7 +312,7 @@ export class CSPLAdapter implements PrivacyProviderAdapter {
     } catch (err) {
       debug("C-SPL: Initialization error:", err)
       // Still mark as initialized but with simulated service
-      this.service = new SimulatedCSPLService(this.getRpcEndpoint())
+      this.service = new SimulatedCSPLService(this.getConnection().rpcEndpoint)
       await this.service.initialize()
       this.initialized = true
     }
@@ -626,21 +629,11 @@ export class CSPLAdapter implements PrivacyProviderAdapter {
   // HELPERS
   // ─────────────────────────────────────────────────────────────────────────
 
-  private getRpcEndpoint(): string {
-    if (this.options.rpcEndpoint) {
-      return this.options.rpcEndpoint
-    }
-
-    switch (this.options.network) {
-      case "mainnet-beta":
-        return "https://api.mainnet-beta.solana.com"
-      case "devnet":
-        return "https://api.devnet.solana.com"
-      case "testnet":
-        return "https://api.testnet.solana.com"
-      default:
-        return "https://api.mainnet-beta.solana.com"
-    }
+  /**
+   * Shared failover connection when provided, else the pooled one for the user's settings
+   */
+  private getConnection(): Connection {
+    return this.options.connection ?? getConnection(useSettingsStore.getState())
   }
 
   /**
@@ -10,7 +10,7 @@
 export * from "./types"
 
 // Adapters
-export { SipNativeAdapter, createSipNativeAdapter } from "./sip-native"
+export { SipNativeAdapter, createSipNativeAdapter, CONFIRMATION_PENDING_MESSAGE } from "./sip-native"
 // Privacy Cash disabled - privacycash SDK uses import.meta (incompatible with Hermes)
 // export { PrivacyCashAdapter, createPrivacyCashAdapter } from "./privacy-cash"
 export { ShadowWireAdapter, createShadowWireAdapter } from "./shadowwire"
@@ -26,10 +26,21 @@ import {
 } from "@/lib/stealth"
 import {
   getSipPrivacyClient,
+  getSipPrivacyProgramId,
   type ShieldedTransferParams,
 } from "@/lib/anchor"
+import { applyPriorityFee, DEFAULT_PRIORITY_FEE } from "@/lib/fees"
+import {
+  confirmTrackedTransaction,
+  submitTrackedTransaction,
+  type SubmitTrackedOptions,
+} from "@/services/transactionTracker"
+import { getTokenByMint } from "@/data/tokens"
 import { debug } from "@/utils/logger"
 import { Buffer } from "buffer"
+import type { Connection } from "@solana/web3.js"
+import { getConnection } from "@/lib/connection"
+import { useSettingsStore } from "@/stores/settings"
 
 // ============================================================================
 // CONSTANTS
@@ -39,6 +50,10 @@ const STEALTH_PREFIX = "sip:"
 const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
 const JUPITER_SWAP_API = "https://lite-api.jup.ag/swap/v1/swap"
 
+/** Send error when the transaction was broadcast but isn't confirmed yet */
+export const CONFIRMATION_PENDING_MESSAGE =
+  "Still waiting for the network to confirm. Check your activity before sending again."
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -59,6 +74,9 @@ function parseTransactionError(raw: string): string {
   if (raw.includes("BlockhashNotFound") || raw.includes("blockhash")) {
     return "Transaction expired. Please try again."
   }
+  if (raw.includes("Transaction confirmation timeout")) {
+    return CONFIRMATION_PENDING_MESSAGE
+  }
   if (raw.includes("Transaction signing rejected")) {
     return "Transaction was cancelled."
   }
@@ -71,19 +89,6 @@ function parseTransactionError(raw: string): string {
   return raw
 }
 
-function getRpcEndpoint(network: string): string {
-  switch (network) {
-    case "mainnet-beta":
-      return "https://api.mainnet-beta.solana.com"
-    case "devnet":
-      return "https://api.devnet.solana.com"
-    case "testnet":
-      return "https://api.testnet.solana.com"
-    default:
-      return "https://api.mainnet-beta.solana.com"
-  }
-}
-
 // ============================================================================
 // SIP NATIVE ADAPTER
 // ============================================================================
@@ -187,13 +192,26 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
       setStatus("preparing")
 
       // Import Solana dependencies
-      const { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } =
+      const { PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } =
         await import("@solana/web3.js")
 
-      const rpcEndpoint = this.options.rpcEndpoint || getRpcEndpoint(this.options.network)
-      debug(`SIP Native using RPC: ${rpcEndpoint.split("?")[0]}...`) // Log endpoint (hide API key)
-      const connection = new Connection(rpcEndpoint, { commitment: "confirmed" })
+      const connection = await this.getConnection()
       const fromPubkey = new PublicKey(this.options.walletAddress)
+      const priorityFee = params.priorityFee ?? DEFAULT_PRIORITY_FEE
+
+      // History entry, recorded as pending once the transaction is broadcast
+      const payment: SubmitTrackedOptions["payment"] = {
+        id: `payment_${Date.now()}`,
+        type: "send",
+        amount: params.amount,
+        token: params.tokenMint ? getTokenByMint(params.tokenMint)?.symbol ?? "SPL" : "SOL",
+        tokenMint: params.tokenMint,
+        stealthAddress: validation.type === "stealth" ? params.recipient : undefined,
+        timestamp: Date.now(),
+        privacyLevel: params.privacyLevel,
+        network: this.options.network,
+        walletAddress: this.options.walletAddress,
+      }
 
       let txHash: string
       let recipientAddress = params.recipient
@@ -225,7 +243,7 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
           debug(`SIP Native stealth SPL transfer: ${amount} tokens (${decimals} decimals) to ${recipientAddress}`)
 
-          const client = getSipPrivacyClient(connection)
+          const client = getSipPrivacyClient(connection, getSipPrivacyProgramId(this.options.network))
           const { transaction } = await client.buildShieldedTokenTransfer(fromPubkey, {
             amount,
             decimals,
@@ -234,7 +252,9 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
             recipientSpendingKey: hexToBytes(metaAddress.spendingKey),
             recipientViewingKey: hexToBytes(metaAddress.viewingKey),
             ephemeralPrivateKey: hexToBytes(ephemeralPrivateKey),
+            reference: params.reference ? new PublicKey(params.reference) : undefined,
           })
+          await applyPriorityFee(connection, transaction, priorityFee)
 
           setStatus("signing")
 
@@ -247,25 +267,12 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
           setStatus("submitting")
 
-          const signature = await connection.sendRawTransaction(signedTx, {
-            skipPreflight: false,
-            preflightCommitment: "confirmed",
-          })
-
-          const { blockhash: confirmBlockhash, lastValidBlockHeight } =
-            await connection.getLatestBlockhash()
-          await connection.confirmTransaction({
-            signature,
-            blockhash: confirmBlockhash,
-            lastValidBlockHeight,
-          })
-
-          txHash = signature
+          txHash = await this.submitAndConfirm(connection, signedTx, payment)
           debug("SIP Native shielded SPL transfer:", txHash)
         } else {
           // SOL transfer to stealth address via SIP Privacy Program
           // Get SIP Privacy client
-          const client = getSipPrivacyClient(connection)
+          const client = getSipPrivacyClient(connection, getSipPrivacyProgramId(this.options.network))
 
           // Build shielded transfer
           const transferParams: ShieldedTransferParams = {
@@ -275,9 +282,11 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
             recipientViewingKey: hexToBytes(metaAddress.viewingKey),
             memo: params.memo,
             ephemeralPrivateKey: hexToBytes(ephemeralPrivateKey),
+            reference: params.reference ? new PublicKey(params.reference) : undefined,
           }
 
           const { transaction } = await client.buildShieldedTransfer(fromPubkey, transferParams)
+          await applyPriorityFee(connection, transaction, priorityFee)
 
           setStatus("signing")
 
@@ -292,22 +301,7 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
           setStatus("submitting")
 
-          // Send the signed transaction directly (already fully signed)
-          const signature = await connection.sendRawTransaction(signedTx, {
-            skipPreflight: false,
-            preflightCommitment: "confirmed",
-          })
-
-          // Wait for confirmation
-          const { blockhash: confirmBlockhash, lastValidBlockHeight } =
-            await connection.getLatestBlockhash()
-          await connection.confirmTransaction({
-            signature,
-            blockhash: confirmBlockhash,
-            lastValidBlockHeight,
-          })
-
-          txHash = signature
+          txHash = await this.submitAndConfirm(connection, signedTx, payment)
           debug("SIP Native shielded SOL transfer:", txHash)
         }
       } else if (params.tokenMint) {
@@ -325,6 +319,7 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
           mintPubkey,
           amount
         )
+        await applyPriorityFee(connection, transaction, priorityFee)
 
         setStatus("signing")
 
@@ -337,20 +332,7 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
         setStatus("submitting")
 
-        const signature = await connection.sendRawTransaction(signedTx, {
-          skipPreflight: false,
-          preflightCommitment: "confirmed",
-        })
-
-        const { blockhash: confirmBlockhash, lastValidBlockHeight } =
-          await connection.getLatestBlockhash()
-        await connection.confirmTransaction({
-          signature,
-          blockhash: confirmBlockhash,
-          lastValidBlockHeight,
-        })
-
-        txHash = signature
+        txHash = await this.submitAndConfirm(connection, signedTx, payment)
       } else {
         // Regular SOL transfer
         const toPubkey = new PublicKey(recipientAddress)
@@ -364,9 +346,10 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
           })
         )
 
-        const { blockhash } = await connection.getLatestBlockhash()
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
         transaction.recentBlockhash = blockhash
         transaction.feePayer = fromPubkey
+        await applyPriorityFee(connection, transaction, priorityFee)
 
         setStatus("signing")
 
@@ -380,22 +363,7 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
         setStatus("submitting")
 
-        // Send the signed transaction directly (already fully signed)
-        const signature = await connection.sendRawTransaction(signedTx, {
-          skipPreflight: false,
-          preflightCommitment: "confirmed",
-        })
-
-        // Wait for confirmation
-        const { blockhash: confirmBlockhash, lastValidBlockHeight } =
-          await connection.getLatestBlockhash()
-        await connection.confirmTransaction({
-          signature,
-          blockhash: confirmBlockhash,
-          lastValidBlockHeight,
-        })
-
-        txHash = signature
+        txHash = await this.submitAndConfirm(connection, signedTx, payment, lastValidBlockHeight)
       }
 
       setStatus("confirmed")
@@ -467,34 +435,14 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
 
       setStatus("submitting")
 
-      // Submit to network
-      const rpcEndpoint = this.options.rpcEndpoint || getRpcEndpoint(this.options.network)
-      const signedBase64 = Buffer.from(signedTransaction).toString("base64")
-
-      const sendResponse = await fetch(rpcEndpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "sendTransaction",
-          params: [signedBase64, { encoding: "base64", skipPreflight: false }],
-        }),
+      // Submit to network and wait for confirmation
+      const connection = await this.getConnection()
+      const pending = await submitTrackedTransaction(connection, signedTransaction, {
+        kind: "swap",
+        network: this.options.network,
       })
-
-      const sendResult = await sendResponse.json()
-
-      if (sendResult.error) {
-        throw new Error(sendResult.error.message || "Transaction failed")
-      }
-
-      const signature = sendResult.result
-      if (!signature) {
-        throw new Error("No signature returned from transaction")
-      }
-
-      // Wait for confirmation
-      await this.waitForConfirmation(rpcEndpoint, signature)
+      await confirmTrackedTransaction(connection, pending)
+      const { signature } = pending
 
       setStatus("success")
 
@@ -539,44 +487,31 @@ export class SipNativeAdapter implements PrivacyProviderAdapter {
   // PRIVATE HELPERS
   // ─────────────────────────────────────────────────────────────────────────
 
-  private async waitForConfirmation(
-    rpcEndpoint: string,
-    signature: string,
-    maxAttempts = 30,
-    intervalMs = 1000
-  ): Promise<void> {
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const response = await fetch(rpcEndpoint, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: 1,
-            method: "getSignatureStatuses",
-            params: [[signature], { searchTransactionHistory: true }],
-          }),
-        })
-
-        const result = await response.json()
-        const status = result?.result?.value?.[0]
-
-        if (status) {
-          if (status.err) {
-            throw new Error("Transaction failed on-chain")
-          }
-          if (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized") {
-            return
-          }
-        }
-      } catch {
-        // Continue polling
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, intervalMs))
-    }
+  /**
+   * Shared failover connection when provided, else the pooled one for the user's settings
+   */
+  private async getConnection(): Promise<Connection> {
+    return this.options.connection ?? getConnection(useSettingsStore.getState())
+  }
 
-    throw new Error("Transaction confirmation timeout")
+  /**
+   * Broadcast a signed send, tracked until it settles so the history entry
+   * is completed or failed even if the app closes first
+   */
+  private async submitAndConfirm(
+    connection: Connection,
+    signedTx: Uint8Array,
+    payment: SubmitTrackedOptions["payment"],
+    lastValidBlockHeight?: number
+  ): Promise<string> {
+    const pending = await submitTrackedTransaction(connection, signedTx, {
+      kind: "send",
+      network: this.options.network,
+      payment,
+      lastValidBlockHeight,
+    })
+    await confirmTrackedTransaction(connection, pending)
+    return pending.signature
   }
 }
 
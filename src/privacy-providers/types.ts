@@ -12,8 +12,10 @@
  * @see https://github.com/sip-protocol/sip-mobile/issues/73
  */
 
+import type { Connection } from "@solana/web3.js"
 import type { PrivacyLevel, SwapQuote } from "@/types"
 import type { JupiterQuoteResponse } from "@/hooks/useQuote"
+import type { PriorityFeePreference } from "@/lib/fees"
 
 // ============================================================================
 // PROVIDER IDENTIFICATION
@@ -62,6 +64,10 @@ export interface PrivacySendParams {
   memo?: string
   /** Token mint address (null for native SOL) */
   tokenMint?: string
+  /** Priority fee preference (providers that relay their own transactions ignore it) */
+  priorityFee?: PriorityFeePreference
+  /** Payment request reference key (base58) to attach so the receiver can match the payment */
+  reference?: string
 }
 
 /**
@@ -209,6 +215,20 @@ export interface PrivacyProviderAdapter {
     onStatusChange?: (status: PrivacySwapStatus) => void
   ): Promise<PrivacySwapResult>
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // BALANCE QUERY
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Balance the provider holds for the wallet, in token units
+   *
+   * Only providers that custody funds (e.g. ShadowWire) implement this.
+   * SIP Native funds sit in stealth accounts and are read from payment history.
+   *
+   * @param token - Token symbol (e.g. "SOL", "USDC")
+   */
+  getPrivateBalance?(token: string): Promise<number>
+
   // ─────────────────────────────────────────────────────────────────────────
   // VIEWING KEY INTEGRATION (SIP's unique value-add)
   // ─────────────────────────────────────────────────────────────────────────
@@ -238,11 +258,13 @@ export interface PrivacyProviderAdapter {
  */
 export interface AdapterOptions {
   /** Solana network */
-  network: "mainnet-beta" | "devnet" | "testnet"
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
   /** User's wallet address */
   walletAddress: string
   /** RPC endpoint (optional, provider may use its own) */
   rpcEndpoint?: string
+  /** Shared failover connection from the RPC pool (preferred over rpcEndpoint) */
+  connection?: Connection
 }
 
 /**
@@ -7,7 +7,9 @@
  * Features:
  * - Periodic background scanning (every 15 minutes when enabled)
  * - Local notifications for new payments (no push/FCM required)
- * - Battery-efficient (respects system constraints)
+ * - Reminders for scheduled payments that have come due (the same task runs
+ *   while any are scheduled, even with scanning disabled)
+ * - Battery-efficient (respects system constraints, incremental record fetching)
  * - Persists scan state across app restarts
  *
  * NOTE: In development builds, you may see "Android Push notifications" warning.
@@ -24,13 +26,21 @@ import * as Notifications from "expo-notifications"
 import * as SecureStore from "expo-secure-store"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 // Connection type used indirectly via getRpcClient
-import { fetchAllTransferRecords } from "@/lib/anchor/client"
 import { bytesToHex } from "@/lib/stealth"
 import { checkRecordOwnership } from "./recordOwnership"
 import { resolveRecordAmountSol } from "./recordAmount"
-import { getRpcClient, type RpcConfig } from "@/lib/rpc"
-import { getRpcApiKey } from "@/lib/config"
+import { fetchTransferRecordsIncremental, saveScanProgress } from "./scanCursor"
+import { getRpcClient, type RpcConfig, type RpcSettings } from "@/lib/rpc"
+import { getRpcConfigFromSettings } from "@/lib/connection"
+import {
+  createTransferRecordSource,
+  DEFAULT_TRANSFER_RECORD_SOURCE,
+  type TransferRecordSourceConfig,
+} from "@/lib/record-sources"
 import type { StealthKeysStorage } from "@/types"
+import type { Contact } from "@/types/contacts"
+import type { ScheduledPayment } from "@/types/scheduledPayments"
+import { getDueSchedules } from "@/utils/scheduledPayments"
 import {
   MIN_BACKGROUND_SCAN_INTERVAL_SEC,
   MAX_HASH_HISTORY,
@@ -47,11 +57,22 @@ const WALLET_STORAGE_KEY = "sip-wallet-storage"
 const LAST_SCAN_KEY = "background_scan_last_timestamp"
 const SCAN_ENABLED_KEY = "background_scan_enabled"
 const FOUND_PAYMENTS_KEY = "background_scan_found_payments"
-const SETTINGS_STORAGE_KEY = "settings-storage"
+const SETTINGS_STORAGE_KEY = "sip-settings"
+/** Key the background scan used to read settings from (never the store's key) */
+const LEGACY_SETTINGS_STORAGE_KEY = "settings-storage"
+const SCHEDULED_PAYMENTS_STORAGE_KEY = "sip-scheduled-payments"
+const CONTACTS_STORAGE_KEY = "sip-contacts-storage"
+const NOTIFIED_SCHEDULES_KEY = "background_scheduled_payments_notified"
+
+/** Notification data type for a due scheduled payment */
+export const SCHEDULED_PAYMENT_DUE_NOTIFICATION = "scheduled_payment_due"
 
 /** Minimum interval between background scans */
 const MIN_INTERVAL = MIN_BACKGROUND_SCAN_INTERVAL_SEC
 
+/** Records checked between cursor checkpoints */
+const SCAN_PAGE_SIZE = 50
+
 // ============================================================================
 // NOTIFICATION SETUP
 // ============================================================================
@@ -141,59 +162,116 @@ async function sendPaymentNotification(count: number, totalAmount: number): Prom
   }
 }
 
+/**
+ * Send a local notification asking to confirm a due scheduled payment
+ */
+async function sendScheduledPaymentNotification(
+  schedule: ScheduledPayment,
+  contactName: string
+): Promise<void> {
+  try {
+    await initializeNotifications()
+    if (!notificationsAvailable) {
+      logger.debug("[BackgroundScan] Notifications not available, skipping")
+      return
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: "Scheduled Payment Due",
+        body: `Pay ${schedule.amount} ${schedule.token} to ${contactName}? Confirm with biometrics.`,
+        data: { type: SCHEDULED_PAYMENT_DUE_NOTIFICATION, scheduleId: schedule.id },
+        sound: true,
+      },
+      trigger: null, // Immediate
+    })
+  } catch (error) {
+    logger.warn("[BackgroundScan] Failed to send notification:", error)
+  }
+}
+
+/**
+ * Subscribe to taps on scheduled payment notifications
+ *
+ * Also replays the notification that cold-started the app, if any.
+ */
+export function addScheduledPaymentNotificationListener(
+  onOpen: (scheduleId: string) => void
+): () => void {
+  const handleResponse = (response: Notifications.NotificationResponse) => {
+    const data = response.notification.request.content.data
+    if (data?.type === SCHEDULED_PAYMENT_DUE_NOTIFICATION && typeof data.scheduleId === "string") {
+      onOpen(data.scheduleId)
+    }
+  }
+
+  Notifications.getLastNotificationResponseAsync()
+    .then((response: Notifications.NotificationResponse | null) => {
+      if (response) handleResponse(response)
+    })
+    .catch((error: unknown) => logger.debug("[BackgroundScan] No launch notification:", error))
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse)
+  return () => subscription.remove()
+}
+
 // ============================================================================
 // SETTINGS HELPERS (for background context)
 // ============================================================================
 
 interface StoredSettings {
-  state: {
-    network: "mainnet-beta" | "devnet" | "testnet"
-    rpcProvider: "helius" | "quicknode" | "triton" | "publicnode"
-    heliusApiKey: string | null
-    quicknodeApiKey: string | null
-    tritonEndpoint: string | null
+  state: RpcSettings & {
+    recordSources?: Partial<Record<string, TransferRecordSourceConfig>>
   }
 }
 
+/**
+ * Persisted settings JSON, moving any left under the legacy key to the store's key
+ */
+async function readStoredSettings(): Promise<string | null> {
+  const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY)
+  if (stored) return stored
+
+  const legacy = await AsyncStorage.getItem(LEGACY_SETTINGS_STORAGE_KEY)
+  if (!legacy) return null
+  await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, legacy)
+  await AsyncStorage.removeItem(LEGACY_SETTINGS_STORAGE_KEY)
+  return legacy
+}
+
 /**
  * Get RPC config from stored settings (for background context)
  */
 async function getRpcConfigFromStorage(): Promise<RpcConfig> {
   try {
-    const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY)
+    const stored = await readStoredSettings()
     if (!stored) {
       return { provider: "publicnode", cluster: "mainnet-beta" }
     }
 
     const settings: StoredSettings = JSON.parse(stored)
-    const { network, rpcProvider, heliusApiKey, quicknodeApiKey, tritonEndpoint } = settings.state
-
-    let apiKey: string | undefined
-    let customEndpoint: string | undefined
-
-    switch (rpcProvider) {
-      case "helius":
-        apiKey = heliusApiKey || getRpcApiKey("helius") || undefined
-        break
-      case "quicknode":
-        apiKey = quicknodeApiKey || undefined
-        break
-      case "triton":
-        customEndpoint = tritonEndpoint || undefined
-        break
-    }
-
-    return {
-      provider: rpcProvider,
-      cluster: network,
-      apiKey,
-      customEndpoint,
-    }
+    return getRpcConfigFromSettings(settings.state)
   } catch {
     return { provider: "publicnode", cluster: "mainnet-beta" }
   }
 }
 
+/**
+ * Get the transfer record source selected for a network (for background context)
+ */
+async function getRecordSourceFromStorage(
+  network: RpcConfig["cluster"]
+): Promise<TransferRecordSourceConfig> {
+  try {
+    const stored = await readStoredSettings()
+    if (!stored) return DEFAULT_TRANSFER_RECORD_SOURCE
+    const settings: StoredSettings = JSON.parse(stored)
+    return settings.state.recordSources?.[network] ?? DEFAULT_TRANSFER_RECORD_SOURCE
+  } catch {
+    return DEFAULT_TRANSFER_RECORD_SOURCE
+  }
+}
+
 // ============================================================================
 // BACKGROUND SCAN LOGIC
 // ============================================================================
@@ -303,80 +381,104 @@ async function performBackgroundScan(): Promise<BackgroundFetch.BackgroundFetchR
     // Get last scan timestamp
     const lastScan = await getLastScanTimestamp()
 
-    // Fetch transfer records
-    const records = await fetchAllTransferRecords(connection)
-    if (!records || records.length === 0) {
-      logger.debug("[BackgroundScan] No transfer records found")
-      await saveLastScanTimestamp(Date.now())
-      return BackgroundFetch.BackgroundFetchResult.NoData
+    // Fetch only records created since the last scan's cursor — background fetch
+    // windows are too short for a full program sweep once a cursor exists
+    const walletAddress = await getActiveWalletAddress()
+    const source = createTransferRecordSource(
+      await getRecordSourceFromStorage(rpcConfig.cluster),
+      connection
+    )
+    const fetched = await fetchTransferRecordsIncremental(
+      source,
+      walletAddress,
+      rpcConfig.cluster,
+      { scope: "background" }
+    )
+    const { records } = fetched
+
+    // The task keeps its own cursor: it only notifies, so advancing the in-app
+    // cursor would keep these payments out of the in-app scan and history
+    const commitCursor = async (processed: number) => {
+      if (!walletAddress) return
+      await saveScanProgress(
+        walletAddress,
+        rpcConfig.cluster,
+        fetched,
+        processed,
+        source.type,
+        "background"
+      )
     }
 
-    // Filter records newer than last scan
-    const newRecords = records.filter((r) => {
-      const recordTime = Number(r.timestamp) * 1000
-      return recordTime > lastScan
-    })
-
-    if (newRecords.length === 0) {
-      logger.debug("[BackgroundScan] No new records since last scan")
+    if (records.length === 0) {
+      logger.debug("[BackgroundScan] No transfer records found")
+      await commitCursor(0)
       await saveLastScanTimestamp(Date.now())
       return BackgroundFetch.BackgroundFetchResult.NoData
     }
 
-    logger.info(`[BackgroundScan] Scanning ${newRecords.length} new records...`)
+    logger.info(`[BackgroundScan] Scanning ${records.length} records...`)
 
     // Get existing payment hashes
     const existingHashes = await getExistingPaymentHashes()
 
-    // Check each record against each key
+    // Check each record against each key, checkpointing after every page so a
+    // task cut short by the OS carries on where it stopped
     let foundCount = 0
     let totalAmount = 0
-    const newHashes: string[] = []
-
-    for (const record of newRecords) {
-      const recordHash = bytesToHex(record.stealthRecipient.toBytes())
-
-      // Skip if already processed
-      if (existingHashes.has(recordHash)) continue
-
-      // Check against each stealth key record
-      for (const keyRecord of keysStorage.records) {
-        const viewingPrivateKey = Uint8Array.from(
-          keyRecord.keys.viewingPrivateKey.match(/.{2}/g)!.map((b: string) => parseInt(b, 16))
-        )
-        const spendingPublicKey = Uint8Array.from(
-          keyRecord.keys.spendingPublicKey.match(/.{2}/g)!.map((b: string) => parseInt(b, 16))
-        )
-
-        const isOwned = checkRecordOwnership(record, viewingPrivateKey, spendingPublicKey)
-
-        if (isOwned) {
-          // View-only: the amount is spending-keyed and can't be decrypted with the viewing
-          // key, so read it from the stealth recipient's on-chain SOL balance — mirroring the
-          // foreground useScanPayments fallback. A view-only auditor detects the payment but
-          // reads its value from chain, not by decryption. See #87.
-          const amount = await resolveRecordAmountSol(
-            record.stealthRecipient,
-            (recipient) => connection.getBalance(recipient)
-          )
 
-          foundCount++
-          totalAmount += amount
-          newHashes.push(recordHash)
+    for (let i = 0; i < records.length; i += SCAN_PAGE_SIZE) {
+      const page = records.slice(i, i + SCAN_PAGE_SIZE)
+      let pageFound = false
+
+      for (const record of page) {
+        // Payments from before the last scan were already notified about
+        if (Number(record.timestamp) * 1000 <= lastScan) continue
+
+        const recordHash = bytesToHex(record.stealthRecipient.toBytes())
+
+        // Skip if already processed
+        if (existingHashes.has(recordHash)) continue
+
+        // Check against each stealth key record
+        for (const keyRecord of keysStorage.records) {
+          const viewingPrivateKey = Uint8Array.from(
+            keyRecord.keys.viewingPrivateKey.match(/.{2}/g)!.map((b: string) => parseInt(b, 16))
+          )
+          const spendingPublicKey = Uint8Array.from(
+            keyRecord.keys.spendingPublicKey.match(/.{2}/g)!.map((b: string) => parseInt(b, 16))
+          )
 
-          logger.info(`[BackgroundScan] Found payment: ${amount.toFixed(4)} SOL`)
-          break // Found owner, no need to check other keys
+          const isOwned = checkRecordOwnership(record, viewingPrivateKey, spendingPublicKey)
+
+          if (isOwned) {
+            // View-only: the amount is spending-keyed and can't be decrypted with the viewing
+            // key, so read it from the stealth recipient's on-chain SOL balance — mirroring the
+            // foreground useScanPayments fallback. A view-only auditor detects the payment but
+            // reads its value from chain, not by decryption. See #87.
+            const amount = await resolveRecordAmountSol(
+              record.stealthRecipient,
+              (recipient) => connection.getBalance(recipient)
+            )
+
+            foundCount++
+            totalAmount += amount
+            existingHashes.add(recordHash)
+            pageFound = true
+
+            logger.info(`[BackgroundScan] Found payment: ${amount.toFixed(4)} SOL`)
+            break // Found owner, no need to check other keys
+          }
         }
       }
-    }
 
-    // Save found hashes
-    if (newHashes.length > 0) {
-      newHashes.forEach((h) => existingHashes.add(h))
-      await saveFoundPaymentHashes(existingHashes)
+      // Save found hashes before moving the cursor past them
+      if (pageFound) {
+        await saveFoundPaymentHashes(existingHashes)
+      }
+      await commitCursor(i + page.length)
     }
 
-    // Update last scan timestamp
     await saveLastScanTimestamp(Date.now())
 
     // Send notification if payments found
@@ -394,6 +496,88 @@ async function performBackgroundScan(): Promise<BackgroundFetch.BackgroundFetchR
   }
 }
 
+// ============================================================================
+// SCHEDULED PAYMENTS (background context)
+// ============================================================================
+
+/**
+ * Get scheduled payments from the persisted store
+ */
+async function getStoredSchedules(): Promise<ScheduledPayment[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SCHEDULED_PAYMENTS_STORAGE_KEY)
+    if (!stored) return []
+    return JSON.parse(stored).state?.schedules ?? []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether any scheduled payment still needs reminders
+ */
+export async function hasActiveScheduledPayments(): Promise<boolean> {
+  const schedules = await getStoredSchedules()
+  return schedules.some((s) => s.status === "active")
+}
+
+/**
+ * Get a contact's name from the persisted store
+ */
+async function getContactName(contactId: string): Promise<string> {
+  try {
+    const stored = await AsyncStorage.getItem(CONTACTS_STORAGE_KEY)
+    const contacts: Contact[] = stored ? JSON.parse(stored).state?.contacts ?? [] : []
+    return contacts.find((c) => c.id === contactId)?.name ?? "a contact"
+  } catch {
+    return "a contact"
+  }
+}
+
+/**
+ * Notify about scheduled payments that have come due
+ *
+ * Each occurrence is notified once. Nothing is paid here: the payment waits
+ * for the user to confirm it in the app, where signing needs biometrics.
+ *
+ * @returns Number of new reminders
+ */
+async function notifyDueScheduledPayments(): Promise<number> {
+  try {
+    const walletAddress = await getActiveWalletAddress()
+    if (!walletAddress) return 0
+
+    const { cluster } = await getRpcConfigFromStorage()
+    const due = getDueSchedules(await getStoredSchedules(), walletAddress, cluster)
+    if (due.length === 0) return 0
+
+    const stored = await AsyncStorage.getItem(NOTIFIED_SCHEDULES_KEY)
+    const notified: string[] = stored ? JSON.parse(stored) : []
+
+    let count = 0
+    for (const schedule of due) {
+      const key = `${schedule.id}:${schedule.occurrence}`
+      if (notified.includes(key)) continue
+
+      await sendScheduledPaymentNotification(schedule, await getContactName(schedule.contactId))
+      notified.push(key)
+      count++
+    }
+
+    if (count > 0) {
+      logger.info(`[BackgroundScan] ${count} scheduled payments due`)
+      await AsyncStorage.setItem(
+        NOTIFIED_SCHEDULES_KEY,
+        JSON.stringify(notified.slice(-MAX_HASH_HISTORY))
+      )
+    }
+    return count
+  } catch (error) {
+    logger.warn("[BackgroundScan] Failed to check scheduled payments:", error)
+    return 0
+  }
+}
+
 // ============================================================================
 // TASK REGISTRATION
 // ============================================================================
@@ -402,7 +586,12 @@ async function performBackgroundScan(): Promise<BackgroundFetch.BackgroundFetchR
  * Define the background task
  */
 TaskManager.defineTask(BACKGROUND_SCAN_TASK, async () => {
-  return await performBackgroundScan()
+  const scanResult = (await isBackgroundScanEnabled())
+    ? await performBackgroundScan()
+    : BackgroundFetch.BackgroundFetchResult.NoData
+  const dueCount = await notifyDueScheduledPayments()
+
+  return dueCount > 0 ? BackgroundFetch.BackgroundFetchResult.NewData : scanResult
 })
 
 /**
@@ -464,8 +653,21 @@ export async function isBackgroundScanEnabled(): Promise<boolean> {
  */
 export async function setBackgroundScanEnabled(enabled: boolean): Promise<void> {
   await AsyncStorage.setItem(SCAN_ENABLED_KEY, enabled ? "true" : "false")
+  await syncBackgroundTask()
+}
+
+/**
+ * Register the background task while scanning is enabled or payments are
+ * scheduled, unregister it otherwise
+ *
+ * @param hasSchedules - Whether any schedule is active (read from storage if omitted)
+ */
+export async function syncBackgroundTask(hasSchedules?: boolean): Promise<void> {
+  const needed =
+    (await isBackgroundScanEnabled()) ||
+    (hasSchedules ?? (await hasActiveScheduledPayments()))
 
-  if (enabled) {
+  if (needed) {
     await registerBackgroundScan()
   } else {
     await unregisterBackgroundScan()
@@ -0,0 +1,108 @@
+/**
+ * Stealth claim destination recovery
+ *
+ * A payment claimed into one of the user's own stealth addresses moves to an address no
+ * TransferRecord announces, so a scan can't discover it the usual way. Its ephemeral key
+ * is derived from the viewing private key and the address it was claimed from (see
+ * deriveClaimEphemeralKey), so whoever holds the keys can re-derive the destination of any
+ * claimed payment — and follow it further when the destination was claimed onward.
+ *
+ * Scanners call recoverClaimDestinations for owned records that are already claimed but
+ * unknown locally (e.g. after the app's storage was lost).
+ *
+ * Kept separate from src/services/backgroundScan.ts (which loads expo-task-manager /
+ * -background-fetch / -notifications at import) so it stays unit-testable without native mocks.
+ */
+
+import { PublicKey, type Connection } from "@solana/web3.js"
+import {
+  deriveClaimEphemeralKey,
+  ed25519PublicKeyToSolanaAddress,
+  generateStealthAddress,
+  type StealthAddress,
+} from "@/lib/stealth"
+import { getAssociatedTokenAddress, getTokenAccountBalance } from "@/lib/spl"
+import type { StealthKeys } from "@/types"
+
+/** Stealth-to-stealth claims followed from one claimed payment */
+export const MAX_CLAIM_CHAIN = 5
+
+export type ClaimDestinationKeys = Pick<
+  StealthKeys,
+  "spendingPublicKey" | "viewingPublicKey" | "viewingPrivateKey"
+>
+
+export interface DerivedClaimDestination {
+  stealthAddress: StealthAddress
+  /** Destination address (base58) */
+  address: string
+}
+
+export interface RecoveredClaimDestination {
+  /** Claim-compatible form: sip:solana:<ephemeralHex>:<stealthBase58> */
+  stealthAddress: string
+  /** Destination address (base58) */
+  address: string
+  /** Base units held (lamports, or token units for SPL payments) */
+  balance: bigint
+}
+
+/**
+ * Own stealth address a payment at `sourceAddress` is claimed into
+ *
+ * Deterministic: the same keys and source always give the same destination.
+ */
+export async function deriveClaimDestination(
+  keys: ClaimDestinationKeys,
+  sourceAddress: string
+): Promise<DerivedClaimDestination> {
+  const { stealthAddress } = await generateStealthAddress(
+    { spendingKey: keys.spendingPublicKey, viewingKey: keys.viewingPublicKey, chain: "solana" },
+    deriveClaimEphemeralKey(keys.viewingPrivateKey, sourceAddress)
+  )
+  return { stealthAddress, address: ed25519PublicKeyToSolanaAddress(stealthAddress.address) }
+}
+
+/**
+ * Find where a claimed payment's funds went through stealth claims
+ *
+ * Follows the derived destinations while they have transaction history and returns
+ * those still holding funds. A destination that was never used ends the chain: the
+ * payment was claimed somewhere else (the wallet or a fresh account).
+ *
+ * @param sourceAddress - Stealth address of the claimed payment (base58)
+ * @param tokenMint - Mint of an SPL payment (null for SOL)
+ */
+export async function recoverClaimDestinations(
+  connection: Connection,
+  keys: ClaimDestinationKeys,
+  sourceAddress: string,
+  tokenMint: PublicKey | null
+): Promise<RecoveredClaimDestination[]> {
+  const recovered: RecoveredClaimDestination[] = []
+
+  let source = sourceAddress
+  for (let depth = 0; depth < MAX_CLAIM_CHAIN; depth++) {
+    const { stealthAddress, address } = await deriveClaimDestination(keys, source)
+    const owner = new PublicKey(address)
+    const holder = tokenMint ? getAssociatedTokenAddress(owner, tokenMint) : owner
+
+    const history = await connection.getSignaturesForAddress(holder, { limit: 1 })
+    if (history.length === 0) break
+
+    const balance = tokenMint
+      ? await getTokenAccountBalance(connection, holder)
+      : BigInt(await connection.getBalance(owner))
+    if (balance > 0n) {
+      recovered.push({
+        stealthAddress: `sip:solana:${stealthAddress.ephemeralPublicKey}:${address}`,
+        address,
+        balance,
+      })
+    }
+
+    source = address
+  }
+
+  return recovered
+}
@@ -12,4 +12,16 @@ export {
   getBackgroundFetchStatus,
   requestNotificationPermissions,
   triggerBackgroundScan,
+  syncBackgroundTask,
+  hasActiveScheduledPayments,
+  addScheduledPaymentNotificationListener,
+  SCHEDULED_PAYMENT_DUE_NOTIFICATION,
 } from "./backgroundScan"
+
+// Payment request matching
+export {
+  checkRequestPayment,
+  findReferenceSignatures,
+  matchPaymentRequests,
+} from "./paymentRequestMatcher"
+export type { PaymentRequestMatch } from "./paymentRequestMatcher"
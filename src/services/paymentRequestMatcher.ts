@@ -0,0 +1,173 @@
+/**
+ * Payment request matching
+ *
+ * A payer settling a request attaches its reference key to the shielded transfer as a
+ * read-only account, so the transfer shows up in the reference's signature history. For
+ * each open request, the matcher looks up that history and settles the request with the
+ * received payment whose transfer record the same transaction created.
+ *
+ * Only payments the scanner has already attributed to this wallet can match: a transfer
+ * to someone else carrying the reference (copied from the QR code) settles nothing.
+ * A matched payment settles the request only in the requested token, for at least the
+ * requested (commitment-verified) amount and before expiry; otherwise it is reported
+ * with the issue and the request stays open.
+ */
+
+import { PublicKey, type Connection } from "@solana/web3.js"
+import type { PaymentRecord } from "@/types"
+import type { PaymentRequestIssue, PaymentRequestRecord } from "@/types/paymentRequests"
+import { TOKENS, getToken } from "@/data/tokens"
+import { debug } from "@/utils/logger"
+
+/** Signatures fetched per page of a reference's history */
+const REFERENCE_SIGNATURE_PAGE_SIZE = 25
+
+/** How long after expiry a request is still checked for a payment sent in time (7 days) */
+export const EXPIRED_REQUEST_GRACE_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface PaymentRequestMatch {
+  requestId: string
+  /** Received PaymentRecord that settles the request */
+  paymentId: string
+  /** Transaction that carried the reference */
+  txSignature: string
+  /** Why the payment doesn't settle the request (undefined = it does) */
+  issue?: PaymentRequestIssue
+}
+
+/**
+ * Check a payment carrying a request's reference against the request
+ *
+ * Scanned amounts are rounded for display, so the requested amount is
+ * compared to within half a unit of the payment's last digit.
+ *
+ * @returns the issue, or null when the payment settles the request
+ */
+export function checkRequestPayment(
+  request: Pick<PaymentRequestRecord, "amount" | "token" | "expiresAt">,
+  payment: Pick<PaymentRecord, "amount" | "token" | "tokenMint" | "timestamp" | "amountVerification">
+): PaymentRequestIssue | null {
+  const known = getToken(request.token)
+  const sameToken = known
+    ? (payment.tokenMint ?? null) === (known.mint === TOKENS.SOL.mint ? null : known.mint)
+    : payment.token === request.token
+  if (!sameToken) return "wrong-token"
+
+  if (request.expiresAt !== null && payment.timestamp > request.expiresAt) return "late"
+
+  if (request.amount) {
+    if (payment.amountVerification !== "verified") return "unverified-amount"
+
+    const digits = payment.amount.split(".")[1]?.length ?? 0
+    const tolerance = 0.5 * Math.pow(10, -digits)
+    if (parseFloat(payment.amount) + tolerance < parseFloat(request.amount)) return "underpaid"
+  }
+
+  return null
+}
+
+/**
+ * Successful transactions that include a reference key, oldest first
+ *
+ * Pages back through the reference's history until it reaches transactions
+ * from before `since`, so spam sent to the reference can't hide the payment.
+ *
+ * @param since - time the reference was created (ms); omit to read the whole history
+ */
+export async function findReferenceSignatures(
+  connection: Connection,
+  reference: string,
+  since = 0
+): Promise<string[]> {
+  const address = new PublicKey(reference)
+  const signatures: string[] = []
+  let before: string | undefined
+
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(
+      address,
+      { limit: REFERENCE_SIGNATURE_PAGE_SIZE, before },
+      "confirmed"
+    )
+
+    for (const info of page) {
+      if (info.blockTime != null && info.blockTime * 1000 < since) {
+        return signatures.reverse()
+      }
+      if (info.err === null) signatures.push(info.signature)
+    }
+
+    if (page.length < REFERENCE_SIGNATURE_PAGE_SIZE) break
+    before = page[page.length - 1].signature
+  }
+
+  return signatures.reverse()
+}
+
+/**
+ * Match open requests to received payments by reference
+ *
+ * Requests whose lookup fails are left open and retried on the next scan. Expired
+ * requests are still checked for EXPIRED_REQUEST_GRACE_MS, since a payment sent in
+ * time may be scanned later.
+ *
+ * @param requests - the wallet's requests (only open ones are checked)
+ * @param payments - payment history; received payments not yet tied to a request can match
+ */
+export async function matchPaymentRequests(
+  connection: Connection,
+  requests: PaymentRequestRecord[],
+  payments: PaymentRecord[]
+): Promise<PaymentRequestMatch[]> {
+  const candidates = payments.filter(
+    (p) => p.type === "receive" && p.txHash && !p.paymentRequestId
+  )
+  if (candidates.length === 0) return []
+
+  const matches: PaymentRequestMatch[] = []
+  const matchedPaymentIds = new Set<string>()
+
+  const checkable = requests.filter(
+    (r) =>
+      r.status === "open" &&
+      (r.expiresAt === null || Date.now() <= r.expiresAt + EXPIRED_REQUEST_GRACE_MS)
+  )
+
+  for (const request of checkable) {
+    try {
+      const signatures = await findReferenceSignatures(
+        connection,
+        request.reference,
+        request.createdAt
+      )
+
+      for (const signature of signatures) {
+        const tx = await connection.getTransaction(signature, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        })
+        if (!tx) continue
+
+        const accountKeys = new Set(
+          tx.transaction.message.staticAccountKeys.map((key) => key.toBase58())
+        )
+        const payment = candidates.find(
+          (p) => !matchedPaymentIds.has(p.id) && accountKeys.has(p.txHash!)
+        )
+        if (payment) {
+          matchedPaymentIds.add(payment.id)
+          const issue = checkRequestPayment(request, payment)
+          if (!issue) {
+            matches.push({ requestId: request.id, paymentId: payment.id, txSignature: signature })
+            break
+          }
+          matches.push({ requestId: request.id, paymentId: payment.id, txSignature: signature, issue })
+        }
+      }
+    } catch (err) {
+      debug(`[REQUESTS] Reference lookup failed for ${request.id}:`, err)
+    }
+  }
+
+  return matches
+}
@@ -17,10 +17,12 @@ import type { TransferRecordData } from "@/lib/anchor/client"
 /**
  * Check whether a transfer record belongs to the user.
  *
- * The ephemeral public key is stored on-chain as 33 bytes (a 1-byte `0x02` prefix +
- * the 32-byte ed25519 point R); the prefix is stripped before the ECDH. Detection
- * delegates to the canonical `checkStealthOwnership` (the single source of the
- * P = K_spend + H(S)*G recomputation).
+ * The ephemeral public key is stored on-chain as 33 bytes (a 1-byte prefix + the
+ * 32-byte ed25519 point R); the prefix is stripped before the ECDH. When it carries a
+ * view tag, records for other recipients are rejected right after the ECDH hash;
+ * legacy `0x02`-prefixed records get the full check. Detection delegates to the
+ * canonical `checkStealthOwnership` (the single source of the P = K_spend + H(S)*G
+ * recomputation).
  *
  * @param record - parsed on-chain transfer record
  * @param viewingPrivateKey - recipient viewing private key (raw 32-byte scalar seed)
@@ -41,7 +43,8 @@ export function checkRecordOwnership(
       stealthHex,
       ephemeralHex,
       `0x${bytesToHex(viewingPrivateKey)}`,
-      `0x${bytesToHex(spendingPublicKey)}`
+      `0x${bytesToHex(spendingPublicKey)}`,
+      record.viewTag
     )
   } catch {
     return false
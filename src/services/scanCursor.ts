@@ -0,0 +1,249 @@
+/**
+ * Incremental transfer-record scanning cursor
+ *
+ * Persists, per wallet and per network, how far into the SIP program's transaction
+ * history the scanners have read, so foreground and background scans only fetch and
+ * ownership-check records created (or claimed) since then instead of sweeping every
+ * TransferRecord with getProgramAccounts. A missing cursor (first scan, new wallet) or an
+ * explicit `fullRescan` falls back to the full sweep and establishes a fresh cursor.
+ *
+ * The cursor is only advanced by the caller once the returned records have been
+ * processed, so a cancelled or failed scan re-reads the same range next time. A full
+ * sweep is checkpointed page by page instead: the cursor is saved with the last record
+ * processed, and the next scan carries on with the older records after it.
+ *
+ * The foreground scan and the background task keep separate cursors: the background
+ * task only notifies, so moving the foreground cursor would hide its finds from the
+ * payment history.
+ *
+ * Kept separate from src/services/backgroundScan.ts (which loads expo-task-manager /
+ * -background-fetch / -notifications at import) so it stays unit-testable without native mocks.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import type { TransferRecordCursor, TransferRecordData } from "@/lib/anchor/client"
+import type { TransferRecordSource, TransferRecordSourceType } from "@/lib/record-sources"
+import type { NetworkCluster } from "@/lib/rpc"
+import { logger } from "@/utils/logger"
+
+const SCAN_CURSOR_KEY_PREFIX = "sip_scan_cursor"
+
+/**
+ * Which scanner a cursor belongs to: the in-app scan (which records payments) or
+ * the background task (which only notifies)
+ */
+export type ScanCursorScope = "app" | "background"
+
+/**
+ * Last record an unfinished full sweep processed (sweeps run newest first)
+ */
+export interface SweepCheckpoint {
+  /** Record timestamp (unix seconds) */
+  timestamp: number
+  /** Record PDA (base58) — orders records sharing a timestamp */
+  pubkey: string
+}
+
+/**
+ * Persisted scan cursor
+ */
+export interface ScanCursor extends TransferRecordCursor {
+  /** Source the cursor was taken from — cursors are not portable between sources */
+  source?: TransferRecordSourceType
+  /** Set while the full sweep that took this cursor is unfinished */
+  sweep?: SweepCheckpoint
+  /** When the cursor was last advanced (ms since epoch) */
+  updatedAt: number
+}
+
+export interface IncrementalFetchResult {
+  /** Records to ownership-check (newest first) */
+  records: TransferRecordData[]
+  /** Cursor to persist via saveScanCursor once the records are processed (null = keep current) */
+  nextCursor: TransferRecordCursor | null
+  /** "full" when the whole program was swept, "incremental" when only newer records were read */
+  mode: "full" | "incremental"
+}
+
+/**
+ * Order records the way a full sweep processes them: newest first, ties by PDA
+ */
+export function sortForSweep(records: TransferRecordData[]): TransferRecordData[] {
+  return [...records].sort(
+    (a, b) =>
+      Number(b.timestamp - a.timestamp) || a.pubkey.toBase58().localeCompare(b.pubkey.toBase58())
+  )
+}
+
+/**
+ * Checkpoint marking a sweep as processed up to and including `record`
+ */
+export function getSweepCheckpoint(record: TransferRecordData): SweepCheckpoint {
+  return { timestamp: Number(record.timestamp), pubkey: record.pubkey.toBase58() }
+}
+
+/**
+ * Whether a record comes after a checkpoint in sweep order (i.e. is still to be processed)
+ */
+function isAfterCheckpoint(record: TransferRecordData, checkpoint: SweepCheckpoint): boolean {
+  const timestamp = Number(record.timestamp)
+  if (timestamp !== checkpoint.timestamp) return timestamp < checkpoint.timestamp
+  return record.pubkey.toBase58().localeCompare(checkpoint.pubkey) > 0
+}
+
+/**
+ * AsyncStorage key for a wallet's cursor on a network
+ */
+export function getScanCursorKey(
+  walletAddress: string,
+  network: NetworkCluster,
+  scope: ScanCursorScope = "app"
+): string {
+  const prefix = scope === "app" ? SCAN_CURSOR_KEY_PREFIX : `${SCAN_CURSOR_KEY_PREFIX}_${scope}`
+  return `${prefix}_${network}_${walletAddress}`
+}
+
+/**
+ * Load the scan cursor for a wallet on a network
+ */
+export async function loadScanCursor(
+  walletAddress: string,
+  network: NetworkCluster,
+  scope: ScanCursorScope = "app"
+): Promise<ScanCursor | null> {
+  try {
+    const stored = await AsyncStorage.getItem(getScanCursorKey(walletAddress, network, scope))
+    if (!stored) return null
+    const cursor = JSON.parse(stored) as ScanCursor
+    return cursor.signature ? cursor : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Persist the scan cursor for a wallet on a network
+ *
+ * @param sweep - last record processed when a full sweep stopped part-way
+ */
+export async function saveScanCursor(
+  walletAddress: string,
+  network: NetworkCluster,
+  cursor: TransferRecordCursor,
+  source: TransferRecordSourceType = "rpc",
+  sweep?: SweepCheckpoint,
+  scope: ScanCursorScope = "app"
+): Promise<void> {
+  const stored: ScanCursor = {
+    signature: cursor.signature,
+    slot: cursor.slot,
+    source,
+    ...(sweep && { sweep }),
+    updatedAt: Date.now(),
+  }
+  await AsyncStorage.setItem(
+    getScanCursorKey(walletAddress, network, scope),
+    JSON.stringify(stored)
+  )
+}
+
+/**
+ * Persist how far a scan got through fetched records
+ *
+ * Once every record is processed the next cursor is saved as is. A full sweep that
+ * stopped part-way is saved with its last processed record as the checkpoint; an
+ * unfinished incremental scan keeps the stored cursor and re-reads the range.
+ *
+ * @param fetched - what fetchTransferRecordsIncremental returned (records in processing order)
+ * @param processed - how many of `fetched.records` have been processed
+ */
+export async function saveScanProgress(
+  walletAddress: string,
+  network: NetworkCluster,
+  fetched: IncrementalFetchResult,
+  processed: number,
+  source: TransferRecordSourceType,
+  scope: ScanCursorScope = "app"
+): Promise<void> {
+  const { records, nextCursor, mode } = fetched
+  if (!nextCursor) return
+  if (processed >= records.length) {
+    await saveScanCursor(walletAddress, network, nextCursor, source, undefined, scope)
+  } else if (mode === "full" && processed > 0) {
+    const checkpoint = getSweepCheckpoint(records[processed - 1])
+    await saveScanCursor(walletAddress, network, nextCursor, source, checkpoint, scope)
+  }
+}
+
+/**
+ * Forget the scan cursor so the next scan sweeps the whole program
+ */
+export async function clearScanCursor(
+  walletAddress: string,
+  network: NetworkCluster,
+  scope: ScanCursorScope = "app"
+): Promise<void> {
+  await AsyncStorage.removeItem(getScanCursorKey(walletAddress, network, scope))
+}
+
+/**
+ * Fetch the transfer records a scan needs to check.
+ *
+ * With a stored cursor from the same source only records touched since then are read;
+ * otherwise (or with `fullRescan`) every TransferRecord is swept. A cursor saved with a
+ * sweep checkpoint resumes that sweep: only the records after the checkpoint are returned,
+ * along with the cursor the sweep started from. The next cursor is taken
+ * BEFORE the sweep so records landing mid-sweep are read again next time — duplicates are
+ * harmless, the scanners dedupe by record PDA. An empty sweep is indistinguishable from a
+ * failed one (the RPC sweep swallows errors), so it never establishes a cursor.
+ *
+ * @param source - where to read records from (see createTransferRecordSource)
+ * @param walletAddress - wallet the cursor belongs to (null = always sweep, no cursor)
+ * @param network - network the cursor belongs to
+ * @param options.fullRescan - ignore the stored cursor and sweep everything
+ * @param options.scope - which scanner's cursor to resume from
+ */
+export async function fetchTransferRecordsIncremental(
+  source: TransferRecordSource,
+  walletAddress: string | null,
+  network: NetworkCluster,
+  options: { fullRescan?: boolean; scope?: ScanCursorScope } = {}
+): Promise<IncrementalFetchResult> {
+  const stored =
+    walletAddress && !options.fullRescan
+      ? await loadScanCursor(walletAddress, network, options.scope)
+      : null
+  // Cursors are not portable between sources
+  const cursor = stored && (stored.source ?? "rpc") === source.type ? stored : null
+
+  if (cursor?.sweep) {
+    // Records created since the sweep started are newer than its cursor and are
+    // read incrementally once the sweep is done
+    const all = await source.fetchAll()
+    const checkpoint = cursor.sweep
+    return {
+      records: sortForSweep(all).filter((r) => isAfterCheckpoint(r, checkpoint)),
+      nextCursor: all.length > 0 ? { signature: cursor.signature, slot: cursor.slot } : null,
+      mode: "full",
+    }
+  }
+
+  if (cursor) {
+    const { records, cursor: nextCursor } = await source.fetchSince(cursor)
+    return { records, nextCursor, mode: "incremental" }
+  }
+
+  let nextCursor: TransferRecordCursor | null = null
+  try {
+    nextCursor = await source.fetchLatestCursor()
+  } catch (err) {
+    logger.warn("[ScanCursor] Failed to fetch latest record cursor:", err)
+  }
+
+  const records = sortForSweep(await source.fetchAll())
+  return {
+    records,
+    nextCursor: records.length > 0 ? nextCursor : null,
+    mode: "full",
+  }
+}
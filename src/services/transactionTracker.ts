@@ -0,0 +1,336 @@
+/**
+ * Transaction lifecycle tracker
+ *
+ * Submitted transactions are persisted in usePendingTransactionsStore before they
+ * are broadcast, then polled until they confirm, fail on-chain, or their blockhash
+ * expires. While unconfirmed they are rebroadcast (RPC nodes drop transactions
+ * under load), and once settled the related PaymentRecord / SwapRecord is marked
+ * completed or failed (claimed payments as claimed) and the queue entry removed.
+ *
+ * A foreground caller that stops waiting (timeout, app backgrounded or killed)
+ * leaves the entry in the queue; useTransactionTracker resumes it on launch.
+ */
+
+import { VersionedTransaction, type Connection, type SignatureStatus } from "@solana/web3.js"
+import { Buffer } from "buffer"
+import bs58 from "bs58"
+import type { PaymentRecord, PendingTransaction, SwapRecord } from "@/types"
+import type { NetworkCluster } from "@/lib/rpc"
+import { describeTransactionError } from "@/lib/simulation"
+import { usePendingTransactionsStore } from "@/stores/pendingTransactions"
+import { usePrivacyStore } from "@/stores/privacy"
+import { useSwapStore } from "@/stores/swap"
+import { debug, logger } from "@/utils/logger"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CONFIRMATION_POLL_INTERVAL_MS = 2000
+
+/** How often an unseen transaction is sent again */
+export const REBROADCAST_INTERVAL_MS = 6000
+
+/** How long a caller waits before leaving the transaction to the resumed tracker */
+export const CONFIRMATION_TIMEOUT_MS = 90_000
+
+export const EXPIRED_TRANSACTION_ERROR = "Transaction expired before it was confirmed"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TransactionOutcome =
+  | { status: "confirmed" }
+  | { status: "failed"; error: string }
+  | { status: "expired" }
+  /** Still unconfirmed when the caller stopped waiting */
+  | { status: "pending" }
+
+export interface SubmitTrackedOptions {
+  kind: PendingTransaction["kind"]
+  network: NetworkCluster
+  /** Payment history entry, added as pending once broadcast */
+  payment?: Omit<PaymentRecord, "status" | "txHash">
+  /** Swap history entry, added as pending once broadcast */
+  swap?: Omit<SwapRecord, "status" | "txSignature">
+  /** Received payments the claim transaction claims, marked claimed once confirmed */
+  claimPaymentIds?: string[]
+  /**
+   * Broadcast through a claim relayer instead, returning the signature. The relayer
+   * adds the fee payer signature, so the transaction is only queued once it returns.
+   */
+  relay?: () => Promise<string>
+  /** Expiry of the transaction's blockhash (an upper bound is fetched when omitted) */
+  lastValidBlockHeight?: number
+  skipPreflight?: boolean
+}
+
+export interface TrackOptions {
+  pollIntervalMs?: number
+  rebroadcastIntervalMs?: number
+  timeoutMs?: number
+}
+
+/** Tracking loops by signature, so resume and foreground callers share one */
+const inFlight = new Map<string, Promise<TransactionOutcome>>()
+
+// ============================================================================
+// SUBMISSION
+// ============================================================================
+
+/**
+ * Persist and broadcast a signed transaction
+ *
+ * @param signedTransaction - serialized transaction (relayed ones lack the fee payer signature)
+ * @throws when the broadcast (including preflight) fails; nothing is queued then
+ */
+export async function submitTrackedTransaction(
+  connection: Connection,
+  signedTransaction: Uint8Array,
+  options: SubmitTrackedOptions
+): Promise<PendingTransaction> {
+  const decoded = VersionedTransaction.deserialize(signedTransaction)
+  const signature = options.relay
+    ? await options.relay()
+    : bs58.encode(decoded.signatures[0])
+
+  // A blockhash fetched now expires no earlier than the one signed, so it bounds it
+  const lastValidBlockHeight =
+    options.lastValidBlockHeight ??
+    (await connection.getLatestBlockhash()).lastValidBlockHeight
+
+  const now = Date.now()
+  const pending: PendingTransaction = {
+    signature,
+    rawTransaction: Buffer.from(signedTransaction).toString("base64"),
+    blockhash: decoded.message.recentBlockhash,
+    lastValidBlockHeight,
+    kind: options.kind,
+    network: options.network,
+    paymentId: options.payment?.id,
+    swapId: options.swap?.id,
+    claimPaymentIds: options.claimPaymentIds,
+    relayed: options.relay ? true : undefined,
+    submittedAt: now,
+    lastBroadcastAt: now,
+    broadcastCount: 1,
+  }
+
+  // Queue before broadcasting: if the app dies mid-send the launch resume picks it up
+  const queue = usePendingTransactionsStore.getState()
+  queue.addTransaction(pending)
+
+  if (!options.relay) {
+    try {
+      await connection.sendRawTransaction(signedTransaction, {
+        skipPreflight: options.skipPreflight ?? false,
+        preflightCommitment: "confirmed",
+      })
+    } catch (err) {
+      queue.removeTransaction(signature)
+      throw err
+    }
+  }
+
+  if (options.payment) {
+    usePrivacyStore.getState().addPayment({
+      ...options.payment,
+      status: "pending",
+      txHash: signature,
+    })
+  }
+  if (options.swap) {
+    useSwapStore.getState().addSwap({
+      ...options.swap,
+      status: "pending",
+      txSignature: signature,
+    })
+  }
+
+  debug(`Tracking ${options.kind} transaction ${signature}`)
+  return pending
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Poll a submitted transaction until it settles or `timeoutMs` passes,
+ * rebroadcasting it while the network hasn't seen it
+ */
+export async function trackTransaction(
+  connection: Connection,
+  pending: PendingTransaction,
+  options: TrackOptions = {}
+): Promise<TransactionOutcome> {
+  const {
+    pollIntervalMs = CONFIRMATION_POLL_INTERVAL_MS,
+    rebroadcastIntervalMs = REBROADCAST_INTERVAL_MS,
+    timeoutMs = CONFIRMATION_TIMEOUT_MS,
+  } = options
+
+  const rawTransaction = Buffer.from(pending.rawTransaction, "base64")
+  const deadline = Date.now() + timeoutMs
+  let { lastBroadcastAt, broadcastCount } = pending
+
+  while (Date.now() < deadline) {
+    try {
+      const status = await getSignatureStatus(connection, pending.signature)
+      if (status) {
+        const outcome = toOutcome(status, rawTransaction)
+        if (outcome) return outcome
+      } else {
+        const blockHeight = await connection.getBlockHeight("confirmed")
+        if (blockHeight > pending.lastValidBlockHeight) {
+          // It may have landed between the two reads
+          const finalStatus = await getSignatureStatus(connection, pending.signature)
+          if (!finalStatus) return { status: "expired" }
+          const outcome = toOutcome(finalStatus, rawTransaction)
+          if (outcome) return outcome
+        } else if (!pending.relayed && Date.now() - lastBroadcastAt >= rebroadcastIntervalMs) {
+          await connection.sendRawTransaction(rawTransaction, {
+            skipPreflight: true,
+            maxRetries: 0,
+          })
+          lastBroadcastAt = Date.now()
+          broadcastCount++
+          usePendingTransactionsStore
+            .getState()
+            .updateTransaction(pending.signature, { lastBroadcastAt, broadcastCount })
+        }
+      }
+    } catch (err) {
+      // RPC hiccup: keep polling until the deadline
+      debug(`Confirmation poll failed for ${pending.signature}:`, err)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+  }
+
+  return { status: "pending" }
+}
+
+/**
+ * Mark the related records and drop the queue entry (no-op while pending)
+ */
+export function settleTransaction(
+  pending: PendingTransaction,
+  outcome: TransactionOutcome
+): void {
+  if (outcome.status === "pending") return
+
+  const updates: { status: "completed" | "failed"; error?: string } =
+    outcome.status === "confirmed"
+      ? { status: "completed" }
+      : {
+          status: "failed",
+          error: outcome.status === "failed" ? outcome.error : EXPIRED_TRANSACTION_ERROR,
+        }
+
+  if (pending.paymentId) {
+    usePrivacyStore.getState().updatePayment(pending.paymentId, updates)
+  }
+  if (pending.swapId) {
+    useSwapStore.getState().updateSwap(pending.swapId, updates)
+  }
+  // An unconfirmed claim leaves the payment claimable
+  for (const id of pending.claimPaymentIds ?? []) {
+    usePrivacyStore.getState().updatePayment(
+      id,
+      outcome.status === "confirmed"
+        ? { status: "claimed", claimed: true, claimedAt: Date.now(), claimTxHash: pending.signature }
+        : { error: updates.error }
+    )
+  }
+  usePendingTransactionsStore.getState().removeTransaction(pending.signature)
+
+  debug(`Transaction ${pending.signature} settled: ${outcome.status}`)
+}
+
+/**
+ * Track and settle a submitted transaction
+ *
+ * @throws when it fails on-chain, expires, or is still unconfirmed at the timeout
+ *   (it stays queued then and is resumed later)
+ */
+export async function confirmTrackedTransaction(
+  connection: Connection,
+  pending: PendingTransaction,
+  options?: TrackOptions
+): Promise<void> {
+  let tracking = inFlight.get(pending.signature)
+  if (!tracking) {
+    tracking = trackTransaction(connection, pending, options)
+      .then((outcome) => {
+        settleTransaction(pending, outcome)
+        return outcome
+      })
+      .finally(() => inFlight.delete(pending.signature))
+    inFlight.set(pending.signature, tracking)
+  }
+
+  const outcome = await tracking
+  switch (outcome.status) {
+    case "confirmed":
+      return
+    case "failed":
+      throw new Error(outcome.error)
+    case "expired":
+      throw new Error(EXPIRED_TRANSACTION_ERROR)
+    case "pending":
+      throw new Error("Transaction confirmation timeout")
+  }
+}
+
+/**
+ * Resume tracking of queued transactions on a network
+ *
+ * @returns how many transactions were resumed
+ */
+export async function resumePendingTransactions(
+  connection: Connection,
+  network: NetworkCluster
+): Promise<number> {
+  const queued = usePendingTransactionsStore
+    .getState()
+    .transactions.filter((t) => t.network === network && !inFlight.has(t.signature))
+
+  await Promise.all(
+    queued.map((pending) =>
+      confirmTrackedTransaction(connection, pending).catch((err) => {
+        logger.warn(`Resumed transaction ${pending.signature} did not confirm:`, err)
+      })
+    )
+  )
+  return queued.length
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getSignatureStatus(
+  connection: Connection,
+  signature: string
+): Promise<SignatureStatus | null> {
+  const { value } = await connection.getSignatureStatuses([signature], {
+    searchTransactionHistory: true,
+  })
+  return value[0]
+}
+
+function toOutcome(status: SignatureStatus, rawTransaction: Uint8Array): TransactionOutcome | null {
+  if (status.err) {
+    const { message } = VersionedTransaction.deserialize(rawTransaction)
+    const programIds = message.compiledInstructions.map(
+      (ix) => message.staticAccountKeys[ix.programIdIndex]
+    )
+    return { status: "failed", error: describeTransactionError(status.err, programIds) }
+  }
+  if (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized") {
+    return { status: "confirmed" }
+  }
+  return null
+}
@@ -8,12 +8,27 @@ export { useSettingsStore, SLIPPAGE_PRESETS } from "./settings"
 // Toast
 export { useToastStore, toast } from "./toast"
 
+// Transaction preview (approval before signing)
+export { useTransactionPreviewStore } from "./transactionPreview"
+
 // Privacy
 export { usePrivacyStore } from "./privacy"
 
 // Swap
 export { useSwapStore } from "./swap"
 
+// Pending transactions (confirmation tracking)
+export { usePendingTransactionsStore } from "./pendingTransactions"
+
+// Offline send outbox
+export { useOutboxStore } from "./outbox"
+
+// Scheduled payments
+export { useScheduledPaymentsStore } from "./scheduledPayments"
+
+// Payment requests
+export { usePaymentRequestsStore } from "./paymentRequests"
+
 // Security
 export {
   useSecurityStore,
@@ -0,0 +1,55 @@
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+import { encryptedOutboxStorage, type OutboxEntry } from "@/lib/outbox"
+
+interface OutboxStore {
+  // Hydration flag for async storage
+  _hasHydrated: boolean
+
+  // Shielded sends composed offline, waiting for connectivity
+  entries: OutboxEntry[]
+  addEntry: (entry: OutboxEntry) => void
+  updateEntry: (id: string, updates: Partial<OutboxEntry>) => void
+  removeEntry: (id: string) => void
+  /** Queue a held entry for automatic submission again */
+  retryEntry: (id: string) => void
+}
+
+export const useOutboxStore = create<OutboxStore>()(
+  persist(
+    (set) => ({
+      _hasHydrated: false,
+
+      entries: [],
+
+      addEntry: (entry) =>
+        set((state) => ({ entries: [...state.entries, entry] })),
+
+      updateEntry: (id, updates) =>
+        set((state) => ({
+          entries: state.entries.map((e) => (e.id === id ? { ...e, ...updates } : e)),
+        })),
+
+      removeEntry: (id) =>
+        set((state) => ({ entries: state.entries.filter((e) => e.id !== id) })),
+
+      retryEntry: (id) =>
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            e.id === id ? { ...e, status: "queued", lastError: undefined } : e
+          ),
+        })),
+    }),
+    {
+      name: "sip-outbox",
+      // Entries hold ephemeral private keys: encrypted at rest
+      storage: createJSONStorage(() => encryptedOutboxStorage),
+      partialize: (state) => ({
+        entries: state.entries,
+      }),
+      onRehydrateStorage: () => () => {
+        useOutboxStore.setState({ _hasHydrated: true })
+      },
+    }
+  )
+)
@@ -0,0 +1,136 @@
+/**
+ * Payment Requests Store
+ *
+ * Invoice-style requests issued from the receive screen. The scanner marks a
+ * request paid once it finds a received payment carrying its reference key
+ * for the requested amount and token, sent before the request expired.
+ */
+
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { Keypair } from "@solana/web3.js"
+import type {
+  CreatePaymentRequestInput,
+  PaymentRequestRecord,
+  RejectedRequestPayment,
+} from "@/types/paymentRequests"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PaymentRequestsState {
+  // Hydration flag for async storage
+  _hasHydrated: boolean
+
+  /** All requests, across wallets and networks */
+  requests: PaymentRequestRecord[]
+
+  /** Issue a request with a fresh ID and reference key */
+  createRequest: (input: CreatePaymentRequestInput) => PaymentRequestRecord
+
+  /** Record the payment that settled a request */
+  markPaid: (id: string, paymentId: string, txSignature: string) => void
+
+  /** Record a payment that carried the reference but didn't settle the request */
+  recordRejectedPayment: (id: string, rejected: RejectedRequestPayment) => void
+
+  /** Withdraw an open request */
+  cancelRequest: (id: string) => void
+
+  /** Remove a request by ID */
+  removeRequest: (id: string) => void
+
+  getRequest: (id: string) => PaymentRequestRecord | undefined
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate unique request ID
+ */
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+}
+
+/**
+ * Generate a reference key. Only the public key is used: it is never a signer,
+ * it just makes the payer's transaction findable by address.
+ */
+function generateReference(): string {
+  return Keypair.generate().publicKey.toBase58()
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const usePaymentRequestsStore = create<PaymentRequestsState>()(
+  persist(
+    (set, get) => ({
+      _hasHydrated: false,
+
+      requests: [],
+
+      createRequest: (input) => {
+        const request: PaymentRequestRecord = {
+          ...input,
+          id: generateRequestId(),
+          reference: generateReference(),
+          createdAt: Date.now(),
+          status: "open",
+        }
+
+        set((state) => ({ requests: [request, ...state.requests] }))
+        return request
+      },
+
+      markPaid: (id, paymentId, txSignature) => {
+        set((state) => ({
+          requests: state.requests.map((r) =>
+            r.id === id && r.status !== "paid"
+              ? { ...r, status: "paid", paidAt: Date.now(), paymentId, txSignature }
+              : r
+          ),
+        }))
+      },
+
+      recordRejectedPayment: (id, rejected) => {
+        set((state) => ({
+          requests: state.requests.map((r) =>
+            r.id === id && !r.rejectedPayments?.some((p) => p.paymentId === rejected.paymentId)
+              ? { ...r, rejectedPayments: [...(r.rejectedPayments ?? []), rejected] }
+              : r
+          ),
+        }))
+      },
+
+      cancelRequest: (id) => {
+        set((state) => ({
+          requests: state.requests.map((r) =>
+            r.id === id && r.status === "open" ? { ...r, status: "cancelled" } : r
+          ),
+        }))
+      },
+
+      removeRequest: (id) => {
+        set((state) => ({ requests: state.requests.filter((r) => r.id !== id) }))
+      },
+
+      getRequest: (id) => get().requests.find((r) => r.id === id),
+    }),
+    {
+      name: "sip-payment-requests",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        requests: state.requests,
+      }),
+      onRehydrateStorage: () => () => {
+        usePaymentRequestsStore.setState({ _hasHydrated: true })
+      },
+    }
+  )
+)
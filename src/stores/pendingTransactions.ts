@@ -0,0 +1,58 @@
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import type { PendingTransaction } from "@/types"
+
+interface PendingTransactionsStore {
+  // Hydration flag for async storage
+  _hasHydrated: boolean
+
+  transactions: PendingTransaction[]
+  addTransaction: (transaction: PendingTransaction) => void
+  updateTransaction: (signature: string, updates: Partial<PendingTransaction>) => void
+  removeTransaction: (signature: string) => void
+  getTransaction: (signature: string) => PendingTransaction | undefined
+}
+
+export const usePendingTransactionsStore = create<PendingTransactionsStore>()(
+  persist(
+    (set, get) => ({
+      _hasHydrated: false,
+
+      transactions: [],
+
+      addTransaction: (transaction) =>
+        set((state) => ({
+          transactions: [
+            transaction,
+            ...state.transactions.filter((t) => t.signature !== transaction.signature),
+          ],
+        })),
+
+      updateTransaction: (signature, updates) =>
+        set((state) => ({
+          transactions: state.transactions.map((t) =>
+            t.signature === signature ? { ...t, ...updates } : t
+          ),
+        })),
+
+      removeTransaction: (signature) =>
+        set((state) => ({
+          transactions: state.transactions.filter((t) => t.signature !== signature),
+        })),
+
+      getTransaction: (signature) =>
+        get().transactions.find((t) => t.signature === signature),
+    }),
+    {
+      name: "sip-pending-transactions",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        transactions: state.transactions,
+      }),
+      onRehydrateStorage: () => () => {
+        usePendingTransactionsStore.setState({ _hasHydrated: true })
+      },
+    }
+  )
+)
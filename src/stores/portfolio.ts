@@ -1,6 +1,7 @@
 import { create } from "zustand"
 import { calculateWalletPrivacyScore } from "@/utils/privacyScore"
 import type { TokenScoreEntry } from "@/utils/privacyScore"
+import type { PrivacyFinding } from "@/lib/privacy-analysis"
 
 /** A token holding with its privacy score and USD value */
 export interface PortfolioToken {
@@ -18,28 +19,35 @@ export interface PortfolioToken {
 
 interface PortfolioState {
   tokens: PortfolioToken[]
+  /** Exposure findings behind the scores, most severe first */
+  findings: PrivacyFinding[]
   lastUpdated: number | null
   isLoading: boolean
 
   /** Replace all tokens and stamp lastUpdated */
   updateTokens: (tokens: PortfolioToken[]) => void
+  /** Replace the exposure findings */
+  setFindings: (findings: PrivacyFinding[]) => void
   /** USD-weighted aggregate privacy score (delegates to calculateWalletPrivacyScore) */
   getAggregateScore: () => number
   /** Returns a sorted copy — highest USD value first */
   getTokensSortedByValue: () => PortfolioToken[]
   setLoading: (loading: boolean) => void
-  /** Reset portfolio data (tokens + lastUpdated), keeps isLoading */
+  /** Reset portfolio data (tokens, findings + lastUpdated), keeps isLoading */
   clear: () => void
 }
 
 export const usePortfolioStore = create<PortfolioState>((set, get) => ({
   tokens: [],
+  findings: [],
   lastUpdated: null,
   isLoading: false,
 
   updateTokens: (tokens) =>
     set({ tokens, lastUpdated: Date.now() }),
 
+  setFindings: (findings) => set({ findings }),
+
   getAggregateScore: () => {
     const entries: TokenScoreEntry[] = get().tokens.map((t) => ({
       symbol: t.symbol,
@@ -54,5 +62,5 @@ export const usePortfolioStore = create<PortfolioState>((set, get) => ({
 
   setLoading: (loading) => set({ isLoading: loading }),
 
-  clear: () => set({ tokens: [], lastUpdated: null }),
+  clear: () => set({ tokens: [], findings: [], lastUpdated: null }),
 }))
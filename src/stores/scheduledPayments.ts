@@ -0,0 +1,146 @@
+/**
+ * Scheduled Payments Store
+ *
+ * Recurring shielded payments to contacts. The background task reads this
+ * store's persisted state to notify when a payment is due; the payment itself
+ * is only made once the user confirms it in the app.
+ */
+
+import { create } from "zustand"
+import { persist, createJSONStorage } from "zustand/middleware"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import type {
+  CreateScheduledPaymentInput,
+  ScheduledPayment,
+} from "@/types/scheduledPayments"
+import { advanceSchedule } from "@/utils/scheduledPayments"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScheduledPaymentsState {
+  // Hydration flag for async storage
+  _hasHydrated: boolean
+
+  /** All schedules, across wallets and networks */
+  schedules: ScheduledPayment[]
+
+  /** Add a schedule, first due at its start date */
+  addSchedule: (input: CreateScheduledPaymentInput) => ScheduledPayment
+
+  /** Remove a schedule by ID */
+  removeSchedule: (id: string) => void
+
+  /** Pause or resume a schedule */
+  setPaused: (id: string, paused: boolean) => void
+
+  /** Record the due payment as made and move to the next occurrence */
+  recordRun: (id: string, txHash: string) => void
+
+  /** Skip the due payment without paying it */
+  skipRun: (id: string) => void
+
+  /** Record a failed attempt (the payment stays due) */
+  recordFailure: (id: string, error: string) => void
+
+  getSchedule: (id: string) => ScheduledPayment | undefined
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate unique schedule ID
+ */
+function generateScheduleId(): string {
+  return `schedule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const useScheduledPaymentsStore = create<ScheduledPaymentsState>()(
+  persist(
+    (set, get) => ({
+      _hasHydrated: false,
+
+      schedules: [],
+
+      addSchedule: (input) => {
+        const schedule: ScheduledPayment = {
+          ...input,
+          id: generateScheduleId(),
+          status: "active",
+          occurrence: 0,
+          nextRunAt: input.startAt,
+          runCount: 0,
+          lastRunAt: null,
+          createdAt: Date.now(),
+        }
+
+        set((state) => ({ schedules: [...state.schedules, schedule] }))
+        return schedule
+      },
+
+      removeSchedule: (id) => {
+        set((state) => ({ schedules: state.schedules.filter((s) => s.id !== id) }))
+      },
+
+      setPaused: (id, paused) => {
+        set((state) => ({
+          schedules: state.schedules.map((s) =>
+            s.id === id && s.status !== "completed"
+              ? { ...s, status: paused ? "paused" : "active" }
+              : s
+          ),
+        }))
+      },
+
+      recordRun: (id, txHash) => {
+        set((state) => ({
+          schedules: state.schedules.map((s) =>
+            s.id === id
+              ? {
+                  ...s,
+                  ...advanceSchedule(s),
+                  runCount: s.runCount + 1,
+                  lastRunAt: Date.now(),
+                  lastTxHash: txHash,
+                  lastError: undefined,
+                }
+              : s
+          ),
+        }))
+      },
+
+      skipRun: (id) => {
+        set((state) => ({
+          schedules: state.schedules.map((s) =>
+            s.id === id ? { ...s, ...advanceSchedule(s), lastError: undefined } : s
+          ),
+        }))
+      },
+
+      recordFailure: (id, error) => {
+        set((state) => ({
+          schedules: state.schedules.map((s) => (s.id === id ? { ...s, lastError: error } : s)),
+        }))
+      },
+
+      getSchedule: (id) => get().schedules.find((s) => s.id === id),
+    }),
+    {
+      name: "sip-scheduled-payments",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        schedules: state.schedules,
+      }),
+      onRehydrateStorage: () => () => {
+        useScheduledPaymentsStore.setState({ _hasHydrated: true })
+      },
+    }
+  )
+)
@@ -1,8 +1,14 @@
 import { create } from "zustand"
 import { persist, createJSONStorage } from "zustand/middleware"
 import AsyncStorage from "@react-native-async-storage/async-storage"
-import type { PrivacyLevel } from "@/types"
+import type { PrivacyLevel, PriorityFeeLevel } from "@/types"
 import type { PrivacyProviderType } from "@/privacy-providers"
+import { validateRpcProfile, type RpcProfile, type RpcProfileInput } from "@/lib/rpc"
+import { MAX_PRIORITY_FEE_LAMPORTS, type PriorityFeePreference } from "@/lib/fees"
+import {
+  DEFAULT_TRANSFER_RECORD_SOURCE,
+  type TransferRecordSourceConfig,
+} from "@/lib/record-sources/types"
 
 /**
  * Slippage presets (as percentages)
@@ -14,6 +20,8 @@ export type { PrivacyProviderType } from "@/privacy-providers"
 
 export type ExplorerType = "solscan" | "solana-explorer"
 
+type NetworkType = "mainnet-beta" | "devnet" | "testnet" | "localnet"
+
 interface SettingsStore {
   // Hydration tracking (for gate logic)
   _hasHydrated: boolean
@@ -32,6 +40,13 @@ interface SettingsStore {
   defaultPrivacyLevel: PrivacyLevel
   setDefaultPrivacyLevel: (level: PrivacyLevel) => void
 
+  // Priority fee for outgoing transactions (custom = lamports per transaction)
+  priorityFee: PriorityFeeLevel
+  setPriorityFee: (level: PriorityFeeLevel) => void
+  customPriorityFee: number
+  setCustomPriorityFee: (lamports: number) => void
+  getPriorityFeePreference: () => PriorityFeePreference
+
   // Privacy Provider (#73)
   privacyProvider: PrivacyProviderType
   setPrivacyProvider: (provider: PrivacyProviderType) => void
@@ -41,8 +56,8 @@ interface SettingsStore {
   setBiometricsEnabled: (enabled: boolean) => void
 
   // Network
-  network: "mainnet-beta" | "devnet" | "testnet"
-  setNetwork: (network: "mainnet-beta" | "devnet" | "testnet") => void
+  network: NetworkType
+  setNetwork: (network: NetworkType) => void
 
   // RPC Provider
   rpcProvider: "helius" | "quicknode" | "triton" | "publicnode"
@@ -52,6 +67,14 @@ interface SettingsStore {
   hideBalances: boolean
   toggleHideBalances: () => void
 
+  // Stealth keys derived from the wallet seed phrase (restorable from it)
+  deterministicStealthKeys: boolean
+  setDeterministicStealthKeys: (enabled: boolean) => void
+
+  // Build claims to the wallet against its durable nonce account
+  durableNonceClaims: boolean
+  setDurableNonceClaims: (enabled: boolean) => void
+
   // Explorer preference
   defaultExplorer: ExplorerType
   setDefaultExplorer: (explorer: ExplorerType) => void
@@ -63,6 +86,40 @@ interface SettingsStore {
   setQuicknodeApiKey: (key: string | null) => void
   tritonEndpoint: string | null
   setTritonEndpoint: (endpoint: string | null) => void
+
+  // Custom RPC profiles (own nodes), assigned per network
+  rpcProfiles: RpcProfile[]
+  activeRpcProfileIds: Partial<Record<NetworkType, string>>
+  addRpcProfile: (profile: RpcProfileInput) => string | null
+  updateRpcProfile: (id: string, updates: Partial<RpcProfileInput>) => boolean
+  removeRpcProfile: (id: string) => void
+  setActiveRpcProfile: (network: NetworkType, id: string | null) => void
+  getActiveRpcProfile: (network: NetworkType) => RpcProfile | null
+
+  // Transfer record source for payment scanning (per network)
+  recordSources: Partial<Record<NetworkType, TransferRecordSourceConfig>>
+  setRecordSource: (network: NetworkType, source: TransferRecordSourceConfig) => void
+  getRecordSource: (network: NetworkType) => TransferRecordSourceConfig
+
+  // Claim relayer URL (per network; claims pay their own fees when unset)
+  relayerUrls: Partial<Record<NetworkType, string>>
+  setRelayerUrl: (network: NetworkType, url: string | null) => void
+  getRelayerUrl: (network: NetworkType) => string | null
+}
+
+/**
+ * Trim a profile's fields and drop empty optional ones
+ */
+function normalizeRpcProfile(input: RpcProfileInput): RpcProfileInput {
+  const wsUrl = input.wsUrl?.trim()
+  const headers = input.headers && Object.keys(input.headers).length > 0 ? input.headers : undefined
+  return {
+    name: input.name.trim(),
+    network: input.network,
+    httpUrl: input.httpUrl.trim(),
+    ...(wsUrl ? { wsUrl } : {}),
+    ...(headers ? { headers } : {}),
+  }
 }
 
 export const useSettingsStore = create<SettingsStore>()(
@@ -90,6 +147,19 @@ export const useSettingsStore = create<SettingsStore>()(
       defaultPrivacyLevel: "shielded",
       setDefaultPrivacyLevel: (level) => set({ defaultPrivacyLevel: level }),
 
+      // Priority fee (medium = median of recent fees)
+      priorityFee: "medium",
+      setPriorityFee: (level) => set({ priorityFee: level }),
+      customPriorityFee: 10_000,
+      setCustomPriorityFee: (lamports) => {
+        if (!Number.isFinite(lamports) || lamports < 0 || lamports > MAX_PRIORITY_FEE_LAMPORTS) return
+        set({ customPriorityFee: Math.floor(lamports) })
+      },
+      getPriorityFeePreference: () => ({
+        level: get().priorityFee,
+        customLamports: get().customPriorityFee,
+      }),
+
       // Privacy Provider (#73) - "OpenRouter for Privacy"
       privacyProvider: "sip-native",
       setPrivacyProvider: (provider) => set({ privacyProvider: provider }),
@@ -110,6 +180,14 @@ export const useSettingsStore = create<SettingsStore>()(
       hideBalances: true,
       toggleHideBalances: () => set((s) => ({ hideBalances: !s.hideBalances })),
 
+      // Deterministic stealth keys (random keys + .sip-backup by default)
+      deterministicStealthKeys: false,
+      setDeterministicStealthKeys: (enabled) => set({ deterministicStealthKeys: enabled }),
+
+      // Durable nonce claims (recent blockhash by default)
+      durableNonceClaims: false,
+      setDurableNonceClaims: (enabled) => set({ durableNonceClaims: enabled }),
+
       // Explorer preference
       defaultExplorer: "solscan",
       setDefaultExplorer: (explorer) => set({ defaultExplorer: explorer }),
@@ -124,6 +202,92 @@ export const useSettingsStore = create<SettingsStore>()(
         if (endpoint && !endpoint.startsWith("http")) return
         set({ tritonEndpoint: endpoint?.trim() || null })
       },
+
+      // Custom RPC profiles (providers are used unless one is assigned)
+      rpcProfiles: [],
+      activeRpcProfileIds: {},
+      addRpcProfile: (input) => {
+        if (validateRpcProfile(input)) return null
+        const profile: RpcProfile = {
+          ...normalizeRpcProfile(input),
+          id: `rpc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          createdAt: Date.now(),
+        }
+        set((s) => ({ rpcProfiles: [...s.rpcProfiles, profile] }))
+        return profile.id
+      },
+      updateRpcProfile: (id, updates) => {
+        const existing = get().rpcProfiles.find((p) => p.id === id)
+        if (!existing) return false
+        const merged = { ...existing, ...updates }
+        if (validateRpcProfile(merged)) return false
+        set((s) => {
+          const activeRpcProfileIds = { ...s.activeRpcProfileIds }
+          // Moving a profile to another network unassigns it from the old one
+          if (merged.network !== existing.network && activeRpcProfileIds[existing.network] === id) {
+            delete activeRpcProfileIds[existing.network]
+          }
+          return {
+            rpcProfiles: s.rpcProfiles.map((p) =>
+              p.id === id ? { id, createdAt: p.createdAt, ...normalizeRpcProfile(merged) } : p
+            ),
+            activeRpcProfileIds,
+          }
+        })
+        return true
+      },
+      removeRpcProfile: (id) =>
+        set((s) => ({
+          rpcProfiles: s.rpcProfiles.filter((p) => p.id !== id),
+          activeRpcProfileIds: Object.fromEntries(
+            Object.entries(s.activeRpcProfileIds).filter(([, active]) => active !== id)
+          ),
+        })),
+      setActiveRpcProfile: (network, id) => {
+        if (id && !get().rpcProfiles.some((p) => p.id === id && p.network === network)) return
+        set((s) => {
+          const activeRpcProfileIds = { ...s.activeRpcProfileIds }
+          if (id) {
+            activeRpcProfileIds[network] = id
+          } else {
+            delete activeRpcProfileIds[network]
+          }
+          return { activeRpcProfileIds }
+        })
+      },
+      getActiveRpcProfile: (network) => {
+        const id = get().activeRpcProfileIds[network]
+        return get().rpcProfiles.find((p) => p.id === id) ?? null
+      },
+
+      // Transfer record source (RPC unless chosen otherwise)
+      recordSources: {},
+      setRecordSource: (network, source) => {
+        if (source.indexerUrl && !source.indexerUrl.startsWith("http")) return
+        const indexerApiKey = source.indexerApiKey?.trim() || undefined
+        set((s) => ({
+          recordSources: { ...s.recordSources, [network]: { ...source, indexerApiKey } },
+        }))
+      },
+      getRecordSource: (network) =>
+        get().recordSources[network] ?? DEFAULT_TRANSFER_RECORD_SOURCE,
+
+      // Claim relayer (none unless configured)
+      relayerUrls: {},
+      setRelayerUrl: (network, url) => {
+        const trimmed = url?.trim() || null
+        if (trimmed && !trimmed.startsWith("http")) return
+        set((s) => {
+          const relayerUrls = { ...s.relayerUrls }
+          if (trimmed) {
+            relayerUrls[network] = trimmed
+          } else {
+            delete relayerUrls[network]
+          }
+          return { relayerUrls }
+        })
+      },
+      getRelayerUrl: (network) => get().relayerUrls[network] ?? null,
     }),
     {
       name: "sip-settings",
@@ -132,15 +296,23 @@ export const useSettingsStore = create<SettingsStore>()(
         hasCompletedOnboarding: state.hasCompletedOnboarding,
         slippage: state.slippage,
         defaultPrivacyLevel: state.defaultPrivacyLevel,
+        priorityFee: state.priorityFee,
+        customPriorityFee: state.customPriorityFee,
         privacyProvider: state.privacyProvider,
         biometricsEnabled: state.biometricsEnabled,
         hideBalances: state.hideBalances,
+        deterministicStealthKeys: state.deterministicStealthKeys,
+        durableNonceClaims: state.durableNonceClaims,
         network: state.network,
         rpcProvider: state.rpcProvider,
         defaultExplorer: state.defaultExplorer,
         heliusApiKey: state.heliusApiKey,
         quicknodeApiKey: state.quicknodeApiKey,
         tritonEndpoint: state.tritonEndpoint,
+        rpcProfiles: state.rpcProfiles,
+        activeRpcProfileIds: state.activeRpcProfileIds,
+        recordSources: state.recordSources,
+        relayerUrls: state.relayerUrls,
       }),
       onRehydrateStorage: () => () => {
         useSettingsStore.setState({ _hasHydrated: true })
@@ -2,22 +2,60 @@ import { create } from "zustand"
 import { persist, createJSONStorage } from "zustand/middleware"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 import type { SwapRecord } from "@/types"
+import type {
+  CreateSwapOrderInput,
+  SwapOrder,
+  SwapOrderFill,
+} from "@/types/swapOrders"
 import { MAX_SWAP_HISTORY } from "@/constants/security"
+import { getToken } from "@/data/tokens"
+import { applyOrderFailure, applyOrderFill, isOrderOpen } from "@/utils/swapOrders"
 
 interface SwapStore {
+  // Hydration flag for async storage
+  _hasHydrated: boolean
+
   // History
   swaps: SwapRecord[]
   addSwap: (swap: SwapRecord) => void
   updateSwap: (id: string, updates: Partial<SwapRecord>) => void
   getSwap: (id: string) => SwapRecord | undefined
   clearHistory: () => void
+
+  // Limit and DCA orders
+  orders: SwapOrder[]
+  /** Add an order, first checked (limit) or filled (DCA) right away */
+  addOrder: (input: CreateSwapOrderInput) => SwapOrder
+  /** Pause or resume an open order */
+  setOrderPaused: (id: string, paused: boolean) => void
+  /** Stop an open order (fills already made are kept) */
+  cancelOrder: (id: string) => void
+  /** Mark a limit order that reached its expiry */
+  expireOrder: (id: string) => void
+  /** Record a fill and schedule the next one */
+  recordOrderFill: (id: string, fill: SwapOrderFill) => void
+  /** Record a failed fill attempt (retried later) */
+  recordOrderFailure: (id: string, error: string) => void
+  /** Check the order again later (limit price not reached, quote unavailable) */
+  deferOrder: (id: string, nextRunAt: number) => void
+  getOrder: (id: string) => SwapOrder | undefined
 }
 
 const MAX_HISTORY = MAX_SWAP_HISTORY
 
+/**
+ * Generate unique order ID
+ */
+function generateOrderId(): string {
+  return `order_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+}
+
 export const useSwapStore = create<SwapStore>()(
   persist(
     (set, get) => ({
+      // Hydration
+      _hasHydrated: false,
+
       // History
       swaps: [],
 
@@ -36,10 +74,87 @@ export const useSwapStore = create<SwapStore>()(
       getSwap: (id) => get().swaps.find((s) => s.id === id),
 
       clearHistory: () => set({ swaps: [] }),
+
+      // Orders
+      orders: [],
+
+      addOrder: (input) => {
+        const now = Date.now()
+        const order: SwapOrder = {
+          ...input,
+          id: generateOrderId(),
+          status: "active",
+          nextRunAt: now,
+          fillCount: 0,
+          filledAmount: "0",
+          receivedAmount: "0",
+          lastFilledAt: null,
+          createdAt: now,
+        }
+
+        set((state) => ({ orders: [order, ...state.orders] }))
+        return order
+      },
+
+      setOrderPaused: (id, paused) =>
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.id === id && isOrderOpen(o)
+              ? { ...o, status: paused ? "paused" : "active" }
+              : o
+          ),
+        })),
+
+      cancelOrder: (id) =>
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.id === id && isOrderOpen(o) ? { ...o, status: "cancelled" } : o
+          ),
+        })),
+
+      expireOrder: (id) =>
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.id === id && isOrderOpen(o) ? { ...o, status: "expired" } : o
+          ),
+        })),
+
+      recordOrderFill: (id, fill) =>
+        set((state) => ({
+          orders: state.orders.map((o) => {
+            if (o.id !== id) return o
+            const decimals = {
+              from: getToken(o.fromToken)?.decimals ?? 9,
+              to: getToken(o.toToken)?.decimals ?? 9,
+            }
+            return { ...o, ...applyOrderFill(o, fill, decimals) }
+          }),
+        })),
+
+      recordOrderFailure: (id, error) =>
+        set((state) => ({
+          orders: state.orders.map((o) =>
+            o.id === id ? { ...o, ...applyOrderFailure(error) } : o
+          ),
+        })),
+
+      deferOrder: (id, nextRunAt) =>
+        set((state) => ({
+          orders: state.orders.map((o) => (o.id === id ? { ...o, nextRunAt } : o)),
+        })),
+
+      getOrder: (id) => get().orders.find((o) => o.id === id),
     }),
     {
       name: "sip-swap",
       storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        swaps: state.swaps,
+        orders: state.orders,
+      }),
+      onRehydrateStorage: () => () => {
+        useSwapStore.setState({ _hasHydrated: true })
+      },
     }
   )
 )
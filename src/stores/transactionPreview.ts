@@ -0,0 +1,48 @@
+import { create } from "zustand"
+import type { TransactionPreview } from "@/lib/simulation"
+
+/**
+ * Extra line shown with the summary (e.g. a relayer fee taken from the claimed funds)
+ */
+export interface ApprovalDetail {
+  label: string
+  value: string
+}
+
+interface PendingApproval {
+  /** What the transaction does (e.g. "Send 1.5 SOL") */
+  title: string
+  /** Simulation summary (null when simulation was unavailable) */
+  preview: TransactionPreview | null
+  details: ApprovalDetail[]
+  resolve: (approved: boolean) => void
+}
+
+interface TransactionPreviewStore {
+  pending: PendingApproval | null
+  /** Show a preview and wait for the user to approve or cancel it */
+  requestApproval: (
+    title: string,
+    preview: TransactionPreview | null,
+    details?: ApprovalDetail[]
+  ) => Promise<boolean>
+  respond: (approved: boolean) => void
+}
+
+export const useTransactionPreviewStore = create<TransactionPreviewStore>((set, get) => ({
+  pending: null,
+
+  requestApproval: (title, preview, details = []) =>
+    new Promise<boolean>((resolve) => {
+      // A newer request replaces (and cancels) one still on screen
+      get().pending?.resolve(false)
+      set({ pending: { title, preview, details, resolve } })
+    }),
+
+  respond: (approved) => {
+    const { pending } = get()
+    if (!pending) return
+    set({ pending: null })
+    pending.resolve(approved)
+  },
+}))
@@ -197,6 +197,7 @@ export const useWalletStore = create<WalletState>()(
           createdAt: Date.now(),
           lastUsedAt: Date.now(),
           isActive: false,
+          ...(input.isClaimAccount && { isClaimAccount: true }),
         }
 
         set((s) => ({
@@ -337,6 +338,16 @@ function walletTypeToProvider(walletType: WalletType): WalletProviderType {
   }
 }
 
+/**
+ * Accounts offered in the account switchers: claim accounts stay out unless active
+ */
+export function getSwitchableAccounts(
+  accounts: StoredAccount[],
+  activeAccountId: string | null
+): StoredAccount[] {
+  return accounts.filter((a) => !a.isClaimAccount || a.id === activeAccountId)
+}
+
 /**
  * Format address for display (truncated)
  */
@@ -63,6 +63,10 @@ export interface SwapRecord {
   isPrivate?: boolean
   stealthAddress?: string
   claimStatus?: "unclaimed" | "claimed"
+  /** Third party the output was paid to (swap and pay), as the user identified them */
+  recipient?: string
+  /** Limit or DCA order this swap filled */
+  orderId?: string
 }
 
 /**
@@ -83,16 +87,88 @@ export interface PaymentRecord {
   privacyLevel: PrivacyLevel
   claimed?: boolean
   claimedAt?: number
-  /** Links to StealthKeysRecord.id - required for claiming archived keys */
+  /** Meta-address (StealthKeysRecord.id) that received this payment - required for claiming archived keys */
   keyId?: string
   /** Network where this payment was made (for filtering) */
-  network?: "mainnet-beta" | "devnet" | "testnet"
+  network?: "mainnet-beta" | "devnet" | "testnet" | "localnet"
   /** Token mint address (for SPL token stealth payments) */
   tokenMint?: string
   /** Token decimals (for SPL token display/claim) */
   tokenDecimals?: number
   /** Wallet address that owns this payment's stealth keys */
   walletAddress?: string
+  /** Where the funds were claimed to (set when payment is claimed) */
+  claimDestination?: ClaimDestination
+  /** Payment whose claim funded this one (self-stealth claims, no TransferRecord) */
+  claimedFromPaymentId?: string
+  /** Whether the decrypted amount matches the on-chain commitment (received payments) */
+  amountVerification?: AmountVerification
+  /** Payment request whose reference this payment carried (received payments; see its status) */
+  paymentRequestId?: string
+  /** Shielding run this self-send belongs to (sends from the public wallet to own stealth addresses) */
+  shieldId?: string
+  /** Error message if failed */
+  error?: string
+}
+
+/**
+ * Submitted transaction awaiting confirmation
+ *
+ * Persisted so confirmation tracking survives the app being backgrounded or
+ * killed: on launch the queue is resumed, the transaction rebroadcast until its
+ * blockhash expires, and the related history record settled.
+ */
+export interface PendingTransaction {
+  signature: string
+  /** Signed transaction (base64), kept for rebroadcasting */
+  rawTransaction: string
+  blockhash: string
+  /** Block height after which the transaction can no longer land */
+  lastValidBlockHeight: number
+  kind: "send" | "swap" | "claim"
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
+  /** PaymentRecord to settle on confirmation */
+  paymentId?: string
+  /** Received PaymentRecords the claim transaction claims */
+  claimPaymentIds?: string[]
+  /** Broadcast by a claim relayer: it holds the fee payer signature, so it is not rebroadcast */
+  relayed?: boolean
+  /** SwapRecord to settle on confirmation */
+  swapId?: string
+  submittedAt: number
+  lastBroadcastAt: number
+  broadcastCount: number
+}
+
+/**
+ * Result of checking a decrypted amount against its Pedersen commitment
+ *
+ * - verified: the commitment opens to the amount
+ * - mismatch: it does not, the sender lied about the amount (suspicious)
+ * - unverified: the sender did not make the commitment checkable (untrusted)
+ */
+export type AmountVerification = "verified" | "mismatch" | "unverified"
+
+/**
+ * Claim destination kinds
+ *
+ * - wallet: the connected wallet (links the payment to it on-chain)
+ * - fresh-account: a newly derived HD account of the native wallet
+ * - stealth: a new stealth address of the user's own meta-address
+ */
+export type ClaimDestinationType = "wallet" | "fresh-account" | "stealth"
+
+/**
+ * Destination a payment was claimed to
+ */
+export interface ClaimDestination {
+  type: ClaimDestinationType
+  /** Address that received the funds */
+  address: string
+  /** Wallet account ID (fresh-account) */
+  accountId?: string
+  /** Payment record created for the new stealth address (stealth) */
+  paymentId?: string
 }
 
 // ============================================================================
@@ -118,14 +194,18 @@ export interface StealthKeys {
 export interface StealthKeysRecord {
   /** Unique identifier: "keys_<timestamp>" */
   id: string
+  /** Meta-address label, e.g. "Payroll" (unset for key sets created before labels) */
+  label?: string
   /** The cryptographic keys */
   keys: StealthKeys
   /** When this key set was generated (ms since epoch) */
   createdAt: number
   /** When this key set was archived (null if active) */
   archivedAt: number | null
-  /** Only one key set can be active at a time */
+  /** Active key sets receive payments and are scanned; archived ones stay claimable */
   isActive: boolean
+  /** Index on the SIP stealth derivation path, for keys derived from the wallet mnemonic (unset for random keys) */
+  derivationIndex?: number
 }
 
 /**
@@ -136,7 +216,7 @@ export interface StealthKeysRecord {
 export interface StealthKeysStorage {
   /** Storage format version for migrations */
   version: 1
-  /** Currently active key set ID (null if none) */
+  /** Primary key set ID, shown by default (null if none) */
   activeKeyId: string | null
   /** All key records (active + archived) */
   records: StealthKeysRecord[]
@@ -235,6 +315,8 @@ export interface StoredAccount {
   createdAt: number
   lastUsedAt: number
   isActive: boolean
+  /** Derived to receive a claim: kept out of the account switchers (listed under Manage Accounts) */
+  isClaimAccount?: boolean
 }
 
 /**
@@ -245,6 +327,7 @@ export interface CreateAccountInput {
   providerType: WalletProviderType
   chain: ChainType
   nickname?: string
+  isClaimAccount?: boolean
 }
 
 // ============================================================================
@@ -348,11 +431,16 @@ export interface SwapQuote {
   expiresAt: number
 }
 
+/**
+ * Priority fee preference (custom = a fixed fee per transaction)
+ */
+export type PriorityFeeLevel = "low" | "medium" | "high" | "custom"
+
 /**
  * Swap settings
  */
 export interface SwapSettings {
   slippageBps: number // basis points (100 = 1%)
-  priorityFee: "low" | "medium" | "high" | "custom"
+  priorityFee: PriorityFeeLevel
   customPriorityFee?: number // in lamports
 }
@@ -0,0 +1,88 @@
+/**
+ * Payment Request Types
+ *
+ * Invoice-style requests created on the receive screen. Each carries a
+ * reference key the payer attaches to the transfer, so a scanned payment can
+ * be matched to the request it settles.
+ */
+
+/**
+ * - open: waiting for payment
+ * - paid: a payment carrying the reference was found
+ * - cancelled: withdrawn by the receiver
+ *
+ * Expiry is not stored; see getPaymentRequestStatus.
+ */
+export type PaymentRequestStatus = "open" | "paid" | "cancelled"
+
+/**
+ * Why a payment carrying a request's reference did not settle it
+ *
+ * - underpaid: less than the requested amount
+ * - wrong-token: paid in another token
+ * - unverified-amount: the amount doesn't open (or can't be checked against)
+ *   its on-chain commitment, so it can't be trusted
+ * - late: sent after the request expired
+ */
+export type PaymentRequestIssue = "underpaid" | "wrong-token" | "unverified-amount" | "late"
+
+/**
+ * A payment that carried a request's reference but didn't settle it
+ */
+export interface RejectedRequestPayment {
+  /** Received PaymentRecord */
+  paymentId: string
+  /** Transaction carrying the reference */
+  txSignature: string
+  issue: PaymentRequestIssue
+}
+
+/**
+ * A payment request issued by this wallet
+ */
+export interface PaymentRequestRecord {
+  /** Unique identifier: req_<timestamp>_<random> (also the invoice ID in the URL) */
+  id: string
+  /** Receiving wallet */
+  walletAddress: string
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
+  /** Stealth meta-address the request pays to */
+  stealthAddress: string
+  /** Meta-address (StealthKeysRecord.id) it was issued from */
+  keyId?: string
+  /** Requested amount in token units (undefined = payer chooses) */
+  amount?: string
+  /** Token symbol */
+  token: string
+  label?: string
+  message?: string
+  /** Base58 public key the payer adds to the transfer */
+  reference: string
+  createdAt: number
+  /** No longer payable after this time (null = never expires) */
+  expiresAt: number | null
+  status: PaymentRequestStatus
+  paidAt?: number
+  /** Received PaymentRecord that settled the request */
+  paymentId?: string
+  /** Transaction carrying the reference */
+  txSignature?: string
+  /** Payments that carried the reference but didn't settle the request */
+  rejectedPayments?: RejectedRequestPayment[]
+}
+
+/**
+ * Input for creating a payment request (derived fields excluded)
+ */
+export type CreatePaymentRequestInput = Pick<
+  PaymentRequestRecord,
+  | "walletAddress"
+  | "network"
+  | "stealthAddress"
+  | "keyId"
+  | "amount"
+  | "token"
+  | "label"
+  | "message"
+  | "expiresAt"
+>
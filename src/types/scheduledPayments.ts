@@ -0,0 +1,69 @@
+/**
+ * Scheduled Payment Types
+ *
+ * Recurring shielded payments to contacts (e.g. monthly contractor payroll).
+ */
+
+/**
+ * How often a scheduled payment repeats
+ */
+export type PaymentCadence = "weekly" | "biweekly" | "monthly"
+
+/**
+ * - active: notifies when due
+ * - paused: skipped until resumed
+ * - completed: past its end date
+ */
+export type ScheduledPaymentStatus = "active" | "paused" | "completed"
+
+/**
+ * A recurring private payment to a contact
+ */
+export interface ScheduledPayment {
+  /** Unique identifier: schedule_<timestamp>_<random> */
+  id: string
+  /** Recipient contact (paid at its stealth meta-address) */
+  contactId: string
+  /** Paying wallet */
+  walletAddress: string
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
+  /** Amount per payment, in token units */
+  amount: string
+  /** Token symbol */
+  token: string
+  /** SPL token mint (undefined for SOL) */
+  tokenMint?: string
+  cadence: PaymentCadence
+  /** First payment date (ms since epoch); later ones keep its weekday / day of month */
+  startAt: number
+  /** No payments after this date (null = until cancelled) */
+  endAt: number | null
+  status: ScheduledPaymentStatus
+  /** Index of the next occurrence (0 = startAt) */
+  occurrence: number
+  /** When the next payment is due */
+  nextRunAt: number
+  /** Payments made */
+  runCount: number
+  lastRunAt: number | null
+  lastTxHash?: string
+  /** Why the last attempt failed */
+  lastError?: string
+  createdAt: number
+}
+
+/**
+ * Input for creating a scheduled payment (derived fields excluded)
+ */
+export type CreateScheduledPaymentInput = Pick<
+  ScheduledPayment,
+  | "contactId"
+  | "walletAddress"
+  | "network"
+  | "amount"
+  | "token"
+  | "tokenMint"
+  | "cadence"
+  | "startAt"
+  | "endAt"
+>
@@ -0,0 +1,90 @@
+/**
+ * Swap Order Types
+ *
+ * Limit and DCA orders for private swaps. Fills are executed in the app
+ * (while it's active) and delivered to the user's stealth addresses.
+ */
+
+/**
+ * - limit: swap the whole amount once the price reaches the limit
+ * - dca: swap the amount in equal fills at a fixed interval
+ */
+export type SwapOrderType = "limit" | "dca"
+
+/**
+ * - active: watched by the executor
+ * - paused: kept but not filled until resumed
+ * - filled: the whole amount has been swapped
+ * - cancelled: stopped by the user
+ * - expired: limit order past its expiry without filling
+ */
+export type SwapOrderStatus = "active" | "paused" | "filled" | "cancelled" | "expired"
+
+/**
+ * A limit or DCA order for a private swap
+ */
+export interface SwapOrder {
+  /** Unique identifier: order_<timestamp>_<random> */
+  id: string
+  type: SwapOrderType
+  /** Wallet that owns the order (and signs its fills) */
+  walletAddress: string
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet"
+  /** Input token symbol */
+  fromToken: string
+  /** Output token symbol */
+  toToken: string
+  /** Total input to swap, in fromToken units */
+  amount: string
+  /** Slippage tolerance for each fill (percent) */
+  slippage: number
+  /** Limit orders: minimum toToken received per fromToken */
+  limitPrice?: number
+  /** Limit orders: give up after this date (null = until cancelled) */
+  expiresAt: number | null
+  /** Number of fills the amount is split into (1 for limit orders) */
+  totalFills: number
+  /** DCA orders: time between fills (0 for limit orders) */
+  intervalMs: number
+  status: SwapOrderStatus
+  /** When the executor next fills (DCA) or checks the price (limit) */
+  nextRunAt: number
+  /** Fills made */
+  fillCount: number
+  /** Input swapped so far, in fromToken units */
+  filledAmount: string
+  /** Output received so far, in toToken units */
+  receivedAmount: string
+  lastFilledAt: number | null
+  /** Why the last fill attempt failed */
+  lastError?: string
+  createdAt: number
+}
+
+/**
+ * Input for creating an order (derived fields excluded)
+ */
+export type CreateSwapOrderInput = Pick<
+  SwapOrder,
+  | "type"
+  | "walletAddress"
+  | "network"
+  | "fromToken"
+  | "toToken"
+  | "amount"
+  | "slippage"
+  | "limitPrice"
+  | "expiresAt"
+  | "totalFills"
+  | "intervalMs"
+>
+
+/**
+ * One executed fill of an order
+ */
+export interface SwapOrderFill {
+  /** Input swapped, in fromToken units */
+  inputAmount: string
+  /** Output received, in toToken units */
+  outputAmount: string
+}
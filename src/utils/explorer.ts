@@ -6,14 +6,15 @@
  */
 
 import type { ExplorerType } from "@/stores/settings"
+import { LOCALNET_RPC_URL } from "@/lib/rpc"
 
-export type Network = "mainnet-beta" | "devnet" | "testnet"
+export type Network = "mainnet-beta" | "devnet" | "testnet" | "localnet"
 
 /**
  * Get transaction URL for the specified explorer and network.
  *
  * @param txHash - Transaction signature/hash
- * @param network - Solana network (mainnet-beta, devnet, testnet)
+ * @param network - Solana network (mainnet-beta, devnet, testnet, localnet)
  * @param explorer - Explorer preference (solscan, solana-explorer)
  * @returns Full explorer URL for the transaction
  *
@@ -23,13 +24,16 @@ export type Network = "mainnet-beta" | "devnet" | "testnet"
  *
  * getExplorerTxUrl("5xyzabc...", "devnet", "solscan")
  * // => "https://solscan.io/tx/5xyzabc...?cluster=devnet"
+ *
+ * getExplorerTxUrl("5xyzabc...", "localnet", "solana-explorer")
+ * // => "https://explorer.solana.com/tx/5xyzabc...?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899"
  */
 export function getExplorerTxUrl(
   txHash: string,
   network: Network,
   explorer: ExplorerType = "solscan"
 ): string {
-  const cluster = network === "mainnet-beta" ? "" : `?cluster=${network}`
+  const cluster = getClusterQuery(network)
 
   if (explorer === "solscan") {
     return `https://solscan.io/tx/${txHash}${cluster}`
@@ -42,7 +46,7 @@ export function getExplorerTxUrl(
  * Get account/address URL for the specified explorer and network.
  *
  * @param address - Solana account address
- * @param network - Solana network (mainnet-beta, devnet, testnet)
+ * @param network - Solana network (mainnet-beta, devnet, testnet, localnet)
  * @param explorer - Explorer preference (solscan, solana-explorer)
  * @returns Full explorer URL for the account
  *
@@ -55,7 +59,7 @@ export function getExplorerAccountUrl(
   network: Network,
   explorer: ExplorerType = "solscan"
 ): string {
-  const cluster = network === "mainnet-beta" ? "" : `?cluster=${network}`
+  const cluster = getClusterQuery(network)
 
   if (explorer === "solscan") {
     return `https://solscan.io/account/${address}${cluster}`
@@ -64,6 +68,20 @@ export function getExplorerAccountUrl(
   }
 }
 
+/**
+ * Cluster query string (localnet points both explorers at the local validator)
+ */
+function getClusterQuery(network: Network): string {
+  switch (network) {
+    case "mainnet-beta":
+      return ""
+    case "localnet":
+      return `?cluster=custom&customUrl=${encodeURIComponent(LOCALNET_RPC_URL)}`
+    default:
+      return `?cluster=${network}`
+  }
+}
+
 /**
  * Get human-readable explorer name for display.
  */
@@ -77,6 +77,9 @@ export type { TokenPrivacyInput, TokenScoreEntry } from "./privacyScore"
 export {
   createPaymentRequest,
   parsePaymentRequest,
+  isPaymentRequestUrl,
+  isPaymentRequestExpired,
+  getPaymentRequestStatus,
 } from "./paymentRequest"
 export type { PaymentRequestParams } from "./paymentRequest"
 
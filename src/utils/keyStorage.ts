@@ -289,6 +289,8 @@ export interface WalletRegistryEntry {
   providerType: string
   createdAt: string
   hasMnemonic: boolean
+  /** BIP44 account index, for accounts derived from another account's seed phrase */
+  derivationIndex?: number
 }
 
 /**
@@ -380,6 +382,29 @@ export async function deleteWalletKeys(id: string): Promise<void> {
   ])
 }
 
+/**
+ * Highest BIP44 account index handed out from a seed phrase (0 when none)
+ *
+ * Keyed by the seed's first account, so an index stays spent after the
+ * account using it is removed.
+ */
+export async function getLastDerivedAccountIndex(rootAddress: string): Promise<number> {
+  try {
+    const stored = await SecureStore.getItemAsync(walletKey(rootAddress, "derived_index"), STANDARD_OPTIONS)
+    const index = stored ? parseInt(stored, 10) : 0
+    return Number.isFinite(index) ? index : 0
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Record the highest BIP44 account index handed out from a seed phrase
+ */
+export async function setLastDerivedAccountIndex(rootAddress: string, index: number): Promise<void> {
+  await SecureStore.setItemAsync(walletKey(rootAddress, "derived_index"), String(index), STANDARD_OPTIONS)
+}
+
 /**
  * Migrate legacy single-wallet storage to indexed multi-wallet format
  */
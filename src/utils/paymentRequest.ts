@@ -5,10 +5,16 @@
  * payment requests between SIP wallets. The receive screen
  * generates these URLs; the send screen consumes them.
  *
+ * Invoice-style requests also carry an id, an expiry and a reference
+ * key. The sender attaches the reference to the transfer so the
+ * receiver can tell which request a private payment settles.
+ *
  * NOTE: Uses manual URL construction — React Native does not
  * have the URL class available by default.
  */
 
+import type { PaymentRequestRecord, PaymentRequestStatus } from "@/types/paymentRequests"
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -16,6 +22,7 @@
 const SCHEME = "sipprotocol"
 const HOST = "pay"
 const URL_PREFIX = `${SCHEME}://${HOST}`
+const BASE58_KEY_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
 
 // ============================================================================
 // TYPES
@@ -26,6 +33,16 @@ export interface PaymentRequestParams {
   amount?: string
   token?: string
   memo?: string
+  /** Invoice ID chosen by the receiver */
+  id?: string
+  /** Unix ms after which the request should not be paid */
+  expiresAt?: number
+  /** Who is requesting (e.g. a merchant name) */
+  label?: string
+  /** What the payment is for */
+  message?: string
+  /** Base58 public key the sender adds to the transfer for matching */
+  reference?: string
 }
 
 // ============================================================================
@@ -34,6 +51,7 @@ export interface PaymentRequestParams {
 
 /**
  * Build a sipprotocol://pay?address=...&amount=...&token=...&memo=... URL.
+ * Invoice fields are appended as id, expires, label, message and reference.
  *
  * Only includes optional params when they have a value.
  * All param values are URL-encoded for safe transport.
@@ -55,6 +73,26 @@ export function createPaymentRequest(params: PaymentRequestParams): string {
     pairs.push(`memo=${encodeURIComponent(params.memo)}`)
   }
 
+  if (params.id !== undefined) {
+    pairs.push(`id=${encodeURIComponent(params.id)}`)
+  }
+
+  if (params.expiresAt !== undefined) {
+    pairs.push(`expires=${params.expiresAt}`)
+  }
+
+  if (params.label !== undefined) {
+    pairs.push(`label=${encodeURIComponent(params.label)}`)
+  }
+
+  if (params.message !== undefined) {
+    pairs.push(`message=${encodeURIComponent(params.message)}`)
+  }
+
+  if (params.reference !== undefined) {
+    pairs.push(`reference=${encodeURIComponent(params.reference)}`)
+  }
+
   return `${URL_PREFIX}?${pairs.join("&")}`
 }
 
@@ -65,7 +103,8 @@ export function createPaymentRequest(params: PaymentRequestParams): string {
 /**
  * Parse a sipprotocol://pay?... URL back into PaymentRequestParams.
  *
- * @throws {Error} If the URL scheme/path is invalid or address is missing.
+ * @throws {Error} If the URL scheme/path is invalid, address is missing,
+ *   or the expiry or reference is malformed.
  */
 export function parsePaymentRequest(url: string): PaymentRequestParams {
   // Split scheme from the rest: "sipprotocol://pay?..."
@@ -112,10 +151,56 @@ export function parsePaymentRequest(url: string): PaymentRequestParams {
     throw new Error("Invalid payment request URL: missing required 'address' parameter")
   }
 
+  const expires = paramMap.get("expires")
+  const expiresAt = expires ? Number(expires) : undefined
+  if (expiresAt !== undefined && (!Number.isInteger(expiresAt) || expiresAt <= 0)) {
+    throw new Error("Invalid payment request URL: 'expires' must be a timestamp")
+  }
+
+  const reference = paramMap.get("reference") || undefined
+  if (reference !== undefined && !BASE58_KEY_REGEX.test(reference)) {
+    throw new Error("Invalid payment request URL: 'reference' must be a base58 public key")
+  }
+
   return {
     stealthAddress: address,
     amount: paramMap.get("amount") || undefined,
     token: paramMap.get("token") || undefined,
     memo: paramMap.get("memo") || undefined,
+    id: paramMap.get("id") || undefined,
+    expiresAt,
+    label: paramMap.get("label") || undefined,
+    message: paramMap.get("message") || undefined,
+    reference,
+  }
+}
+
+/**
+ * Whether a string looks like a sipprotocol://pay URL (before full parsing)
+ */
+export function isPaymentRequestUrl(data: string): boolean {
+  return data.trim().startsWith(`${URL_PREFIX}?`)
+}
+
+/**
+ * Whether a request has passed its expiry. Requests without one never expire.
+ */
+export function isPaymentRequestExpired(
+  params: Pick<PaymentRequestParams, "expiresAt">,
+  now: number = Date.now()
+): boolean {
+  return params.expiresAt !== undefined && now >= params.expiresAt
+}
+
+/**
+ * Display status of an issued request: open requests past their expiry show as expired
+ */
+export function getPaymentRequestStatus(
+  request: Pick<PaymentRequestRecord, "status" | "expiresAt">,
+  now: number = Date.now()
+): PaymentRequestStatus | "expired" {
+  if (request.status === "open" && request.expiresAt !== null && now >= request.expiresAt) {
+    return "expired"
   }
+  return request.status
 }
@@ -0,0 +1,164 @@
+/**
+ * Scheduled Payment Utilities
+ *
+ * Cadence math, due checks and validation for recurring payments.
+ * Pure functions — no React or store dependencies.
+ */
+
+import type { Contact } from "@/types/contacts"
+import type {
+  PaymentCadence,
+  ScheduledPayment,
+} from "@/types/scheduledPayments"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_INPUT_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export const CADENCE_LABELS: Record<PaymentCadence, string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+}
+
+// ============================================================================
+// CADENCE
+// ============================================================================
+
+/**
+ * Date of the nth occurrence of a schedule (0 = the start date)
+ *
+ * Monthly payments keep the start's day of month, clamped to shorter months
+ * (a schedule starting Jan 31 pays Feb 28, then Mar 31).
+ */
+export function getOccurrenceAt(startAt: number, cadence: PaymentCadence, index: number): number {
+  switch (cadence) {
+    case "weekly":
+      return startAt + index * 7 * DAY_MS
+    case "biweekly":
+      return startAt + index * 14 * DAY_MS
+    case "monthly": {
+      const start = new Date(startAt)
+      const target = new Date(startAt)
+      target.setDate(1)
+      target.setMonth(start.getMonth() + index)
+      const daysInMonth = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate()
+      target.setDate(Math.min(start.getDate(), daysInMonth))
+      return target.getTime()
+    }
+  }
+}
+
+/**
+ * Updates moving a schedule past its current occurrence
+ *
+ * One occurrence at a time: a payment confirmed late still pays only the
+ * period that was due.
+ */
+export function advanceSchedule(
+  schedule: ScheduledPayment
+): Pick<ScheduledPayment, "occurrence" | "nextRunAt" | "status"> {
+  const occurrence = schedule.occurrence + 1
+  const nextRunAt = getOccurrenceAt(schedule.startAt, schedule.cadence, occurrence)
+  const completed = schedule.endAt !== null && nextRunAt > schedule.endAt
+
+  return {
+    occurrence,
+    nextRunAt,
+    status: completed ? "completed" : schedule.status,
+  }
+}
+
+/**
+ * Whether a schedule's current payment is due
+ */
+export function isScheduleDue(schedule: ScheduledPayment, now: number = Date.now()): boolean {
+  return schedule.status === "active" && schedule.nextRunAt <= now
+}
+
+/**
+ * Due schedules of a wallet on a network, oldest first
+ */
+export function getDueSchedules(
+  schedules: ScheduledPayment[],
+  walletAddress: string,
+  network: ScheduledPayment["network"],
+  now: number = Date.now()
+): ScheduledPayment[] {
+  return schedules
+    .filter(
+      (s) => s.walletAddress === walletAddress && s.network === network && isScheduleDue(s, now)
+    )
+    .sort((a, b) => a.nextRunAt - b.nextRunAt)
+}
+
+// ============================================================================
+// RECIPIENT
+// ============================================================================
+
+/**
+ * Stealth meta-address a contact is paid at, or null if it has none
+ *
+ * Scheduled payments are always shielded, so a plain address won't do.
+ */
+export function getContactStealthAddress(contact: Contact): string | null {
+  if (contact.stealthMeta) return contact.stealthMeta
+  if (contact.address.startsWith("sip:")) return contact.address
+  return null
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+interface ValidationResult {
+  isValid: boolean
+  error?: string
+}
+
+/**
+ * Validate a schedule's amount and dates
+ */
+export function validateSchedule(
+  amount: string,
+  startAt: number,
+  endAt: number | null
+): ValidationResult {
+  const value = parseFloat(amount)
+  if (!Number.isFinite(value) || value <= 0) {
+    return { isValid: false, error: "Enter an amount greater than 0" }
+  }
+
+  if (endAt !== null && endAt < startAt) {
+    return { isValid: false, error: "End date must be after the first payment" }
+  }
+
+  return { isValid: true }
+}
+
+/**
+ * Parse a YYYY-MM-DD date (local midnight), or null if invalid
+ */
+export function parseDateInput(input: string): number | null {
+  const match = DATE_INPUT_REGEX.exec(input.trim())
+  if (!match) return null
+
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(year, month - 1, day)
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null
+
+  return date.getTime()
+}
+
+/**
+ * Format a date as YYYY-MM-DD (local)
+ */
+export function formatDateInput(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
@@ -0,0 +1,104 @@
+/**
+ * Shield Plan Utilities
+ *
+ * Splits a shielding amount into randomized parts sent at randomized delays,
+ * so the deposits into stealth addresses don't mirror the public balance.
+ * Pure functions — no React or store dependencies.
+ */
+
+import { formatBaseUnits } from "@/lib/simulation"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShieldPart {
+  /** Decimal amount of this part */
+  amount: string
+  /** Wait before sending this part, in ms after the previous one */
+  delayMs: number
+}
+
+export interface ShieldPlanOptions {
+  /** Requested number of parts (fewer when the amount is too small to split) */
+  parts: number
+  decimals: number
+  /** Longest wait between parts (0 = send back to back) */
+  maxDelayMs: number
+  /** Source of randomness in [0, 1) */
+  random?: () => number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_SHIELD_PARTS = 5
+
+/** Shortest wait between parts when delays are on */
+export const MIN_SHIELD_DELAY_MS = 15_000
+
+/** Smallest part relative to an even split, so no part is dust */
+const MIN_PART_WEIGHT = 0.5
+
+const AMOUNT_REGEX = /^\d+(\.\d+)?$/
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Base units of a decimal amount (extra fraction digits are truncated)
+ */
+export function parseBaseUnits(amount: string, decimals: number): bigint {
+  const trimmed = amount.trim()
+  if (!AMOUNT_REGEX.test(trimmed)) {
+    throw new Error("Invalid amount")
+  }
+  const [whole, fraction = ""] = trimmed.split(".")
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, "0"))
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Split an amount into parts that add up to it exactly
+ *
+ * The first part goes out immediately; each later part waits a random delay
+ * between MIN_SHIELD_DELAY_MS and maxDelayMs.
+ */
+export function planShieldParts(amount: string, options: ShieldPlanOptions): ShieldPart[] {
+  const { decimals, maxDelayMs, random = Math.random } = options
+  const total = parseBaseUnits(amount, decimals)
+  if (total <= 0n) {
+    throw new Error("Amount must be greater than 0")
+  }
+
+  const requested = Math.min(Math.max(1, Math.floor(options.parts)), MAX_SHIELD_PARTS)
+  const count = total < BigInt(requested) ? Number(total) : requested
+
+  // Random weights; each part gets at least one base unit and the last takes the remainder
+  const weights = Array.from({ length: count }, () => MIN_PART_WEIGHT + random())
+  const weightSum = weights.reduce((sum, w) => sum + w, 0)
+  const spare = total - BigInt(count)
+  const amounts: bigint[] = []
+  let assigned = 0n
+  for (let i = 0; i < count - 1; i++) {
+    const share = BigInt(Math.floor((Number(spare) * weights[i]) / weightSum))
+    const part = 1n + (share < spare - assigned ? share : spare - assigned)
+    amounts.push(part)
+    assigned += part - 1n
+  }
+  amounts.push(total - amounts.reduce((sum, a) => sum + a, 0n))
+
+  const delayRange = Math.max(0, maxDelayMs - MIN_SHIELD_DELAY_MS)
+  return amounts.map((part, i) => ({
+    amount: formatBaseUnits(part, decimals),
+    delayMs:
+      i === 0 || maxDelayMs <= 0
+        ? 0
+        : Math.min(maxDelayMs, MIN_SHIELD_DELAY_MS) + Math.floor(random() * delayRange),
+  }))
+}
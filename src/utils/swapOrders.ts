@@ -0,0 +1,207 @@
+/**
+ * Swap Order Utilities
+ *
+ * Fill sizing, limit price checks, due checks and validation for limit and
+ * DCA orders. Pure functions — no React or store dependencies.
+ */
+
+import { formatBaseUnits } from "@/lib/simulation"
+import { parseBaseUnits } from "@/utils/shieldPlan"
+import type {
+  CreateSwapOrderInput,
+  SwapOrder,
+  SwapOrderFill,
+} from "@/types/swapOrders"
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/** DCA intervals offered when creating an order */
+export const DCA_INTERVALS = [
+  { label: "Hourly", ms: HOUR_MS },
+  { label: "Daily", ms: DAY_MS },
+  { label: "Weekly", ms: 7 * DAY_MS },
+]
+
+/** Limit order lifetimes offered when creating an order (null = until cancelled) */
+export const LIMIT_EXPIRIES = [
+  { label: "1 day", ms: DAY_MS },
+  { label: "1 week", ms: 7 * DAY_MS },
+  { label: "30 days", ms: 30 * DAY_MS },
+  { label: "Never", ms: null },
+]
+
+export const MIN_DCA_FILLS = 2
+export const MAX_DCA_FILLS = 100
+export const MIN_DCA_INTERVAL_MS = HOUR_MS
+
+/** Wait before retrying a fill that failed (or that the user declined) */
+export const ORDER_RETRY_DELAY_MS = 5 * 60 * 1000
+
+// ============================================================================
+// FILLS
+// ============================================================================
+
+/**
+ * Input to swap in the order's next fill
+ *
+ * The remaining amount is split evenly over the remaining fills (in base
+ * units); the last fill takes whatever is left so the total is exact.
+ */
+export function getNextFillAmount(order: SwapOrder, decimals: number): string {
+  const remaining = parseBaseUnits(order.amount, decimals) - parseBaseUnits(order.filledAmount, decimals)
+  const fillsLeft = BigInt(Math.max(order.totalFills - order.fillCount, 1))
+  const amount = fillsLeft === 1n ? remaining : remaining / fillsLeft
+  return formatBaseUnits(amount > 0n ? amount : 0n, decimals)
+}
+
+/**
+ * Whether a quote satisfies the order's limit price
+ *
+ * Checked against the quote's minimum received, so a fill can't land below
+ * the limit even at full slippage. Orders without a limit always match.
+ */
+export function meetsLimitPrice(
+  order: SwapOrder,
+  inputAmount: string,
+  minimumReceived: string
+): boolean {
+  if (order.limitPrice === undefined) return true
+  const input = parseFloat(inputAmount)
+  if (!(input > 0)) return false
+  return parseFloat(minimumReceived) / input >= order.limitPrice
+}
+
+/**
+ * Updates recording a fill
+ *
+ * DCA fills keep their cadence; a fill made late (the app wasn't open) moves
+ * the next one a full interval out instead of catching up back to back.
+ */
+export function applyOrderFill(
+  order: SwapOrder,
+  fill: SwapOrderFill,
+  decimals: { from: number; to: number },
+  now: number = Date.now()
+): Pick<
+  SwapOrder,
+  "fillCount" | "filledAmount" | "receivedAmount" | "lastFilledAt" | "nextRunAt" | "status" | "lastError"
+> {
+  const fillCount = order.fillCount + 1
+  const filledAmount =
+    parseBaseUnits(order.filledAmount, decimals.from) + parseBaseUnits(fill.inputAmount, decimals.from)
+  const receivedAmount =
+    parseBaseUnits(order.receivedAmount, decimals.to) + parseBaseUnits(fill.outputAmount, decimals.to)
+
+  const scheduled = order.nextRunAt + order.intervalMs
+  const nextRunAt = scheduled > now ? scheduled : now + order.intervalMs
+
+  return {
+    fillCount,
+    filledAmount: formatBaseUnits(filledAmount, decimals.from),
+    receivedAmount: formatBaseUnits(receivedAmount, decimals.to),
+    lastFilledAt: now,
+    nextRunAt,
+    status: fillCount >= order.totalFills ? "filled" : order.status,
+    lastError: undefined,
+  }
+}
+
+/**
+ * Updates recording a failed fill attempt (retried after a delay)
+ */
+export function applyOrderFailure(
+  error: string,
+  now: number = Date.now()
+): Pick<SwapOrder, "lastError" | "nextRunAt"> {
+  return { lastError: error, nextRunAt: now + ORDER_RETRY_DELAY_MS }
+}
+
+// ============================================================================
+// DUE CHECKS
+// ============================================================================
+
+/**
+ * Whether a limit order is past its expiry
+ */
+export function isOrderExpired(order: SwapOrder, now: number = Date.now()): boolean {
+  return order.expiresAt !== null && order.expiresAt <= now
+}
+
+/**
+ * Whether the executor should fill (DCA) or price-check (limit) an order now
+ */
+export function isOrderDue(order: SwapOrder, now: number = Date.now()): boolean {
+  return order.status === "active" && order.nextRunAt <= now && !isOrderExpired(order, now)
+}
+
+/**
+ * Whether an order can still fill
+ */
+export function isOrderOpen(order: SwapOrder): boolean {
+  return order.status === "active" || order.status === "paused"
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+interface ValidationResult {
+  isValid: boolean
+  error?: string
+}
+
+/**
+ * Validate a new order
+ *
+ * @param fromDecimals - Input token decimals (a DCA fill can't be below one base unit)
+ */
+export function validateSwapOrder(
+  input: CreateSwapOrderInput,
+  fromDecimals: number,
+  now: number = Date.now()
+): ValidationResult {
+  let total: bigint
+  try {
+    total = parseBaseUnits(input.amount, fromDecimals)
+  } catch {
+    return { isValid: false, error: "Enter an amount greater than 0" }
+  }
+  if (total <= 0n) {
+    return { isValid: false, error: "Enter an amount greater than 0" }
+  }
+
+  if (input.fromToken === input.toToken) {
+    return { isValid: false, error: "Choose two different tokens" }
+  }
+
+  if (input.type === "limit") {
+    if (input.limitPrice === undefined || !(input.limitPrice > 0)) {
+      return { isValid: false, error: "Enter a limit price greater than 0" }
+    }
+    if (input.expiresAt !== null && input.expiresAt <= now) {
+      return { isValid: false, error: "Expiry must be in the future" }
+    }
+    return { isValid: true }
+  }
+
+  if (
+    !Number.isInteger(input.totalFills) ||
+    input.totalFills < MIN_DCA_FILLS ||
+    input.totalFills > MAX_DCA_FILLS
+  ) {
+    return { isValid: false, error: `Split into ${MIN_DCA_FILLS} to ${MAX_DCA_FILLS} fills` }
+  }
+  if (input.intervalMs < MIN_DCA_INTERVAL_MS) {
+    return { isValid: false, error: "Fills must be at least an hour apart" }
+  }
+  if (total / BigInt(input.totalFills) === 0n) {
+    return { isValid: false, error: "Amount is too small to split into that many fills" }
+  }
+
+  return { isValid: true }
+}
@@ -235,6 +235,8 @@ vi.mock("@/stores/wallet", () => ({
     if (addr.length <= 10) return addr
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`
   },
+  getSwitchableAccounts: (accounts: { id: string; isClaimAccount?: boolean }[], activeId: string | null) =>
+    accounts.filter((a) => !a.isClaimAccount || a.id === activeId),
 }))
 
 // Mock settings store
@@ -242,6 +244,7 @@ vi.mock("@/stores/settings", () => ({
   useSettingsStore: vi.fn(() => ({
     network: "devnet",
     rpcProvider: "helius",
+    getActiveRpcProfile: vi.fn(() => null),
   })),
 }))
 
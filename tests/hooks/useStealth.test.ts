@@ -8,6 +8,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
 import * as SecureStore from "expo-secure-store"
 import AsyncStorage from "@react-native-async-storage/async-storage"
+import type { TransferRecordData } from "@/lib/anchor/client"
 
 // Mock @noble/curves/ed25519 (imported transitively by @/lib/stealth)
 vi.mock("@noble/curves/ed25519", () => ({
@@ -51,6 +52,15 @@ vi.mock("@/lib/stealth", () => ({
     viewingPrivateKey: "0x" + "cc".repeat(32),
     viewingPublicKey: "0x" + "dd".repeat(32),
   }),
+  deriveStealthKeysFromMnemonic: vi.fn().mockImplementation((_mnemonic: string, index: number) => {
+    const tag = (0xe0 + index).toString(16)
+    return {
+      spendingPrivateKey: "0x" + tag.repeat(32),
+      spendingPublicKey: "0x" + "f0".repeat(31) + tag,
+      viewingPrivateKey: "0x" + "0e".repeat(31) + tag,
+      viewingPublicKey: "0x" + "0f".repeat(31) + tag,
+    }
+  }),
   formatStealthMetaAddress: vi.fn().mockReturnValue("sip:solana:mock-spending:mock-viewing"),
   ed25519PublicKeyToSolanaAddress: vi.fn().mockReturnValue("MockSolanaAddress123"),
   hexToBytes: vi.fn().mockImplementation((hex: string) => {
@@ -90,6 +100,14 @@ vi.mock("@/stores/wallet", () => ({
   ),
 }))
 
+// Records are owned by the derivation index in their `ownerIndex` (mock keys end in 0xe0 + index)
+vi.mock("@/services/recordOwnership", () => ({
+  checkRecordOwnership: vi.fn(
+    (record: { ownerIndex: number }, _viewingPrivateKey: Uint8Array, spendingPublicKey: Uint8Array) =>
+      spendingPublicKey[31] === 0xe0 + record.ownerIndex
+  ),
+}))
+
 // Mock logger
 vi.mock("@/utils/logger", () => ({
   debug: vi.fn(),
@@ -729,3 +747,277 @@ describe("Wallet-Scoped Storage", () => {
     })
   })
 })
+
+describe("Meta-addresses", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  function savedStorage(): StealthKeysStorage {
+    const calls = vi.mocked(SecureStore.setItemAsync).mock.calls
+    return JSON.parse(calls[calls.length - 1][1] as string) as StealthKeysStorage
+  }
+
+  describe("getActiveKeyRecords", () => {
+    it("should return every active record", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+        { id: "keys_2", keys: MOCK_KEYS_2, isActive: true, archivedAt: null },
+        { id: "keys_0", keys: MOCK_KEYS_2, isActive: false, archivedAt: 1000 },
+      ])
+
+      const { getActiveKeyRecords } = await import("@/hooks/useStealth")
+      expect(getActiveKeyRecords(storage).map((r) => r.id)).toEqual(["keys_1", "keys_2"])
+    })
+
+    it("should label unlabelled records as Main", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+
+      const { getMetaAddressLabel } = await import("@/hooks/useStealth")
+      expect(getMetaAddressLabel(storage.records[0])).toBe("Main")
+    })
+  })
+
+  describe("addMetaAddress", () => {
+    it("should add an active record without archiving the others", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { addMetaAddress } = await import("@/hooks/useStealth")
+      const record = await addMetaAddress(WALLET_A, "  Payroll ")
+
+      expect(record.label).toBe("Payroll")
+      const saved = savedStorage()
+      expect(saved.activeKeyId).toBe("keys_1")
+      expect(saved.records.filter((r) => r.isActive)).toHaveLength(2)
+    })
+
+    it("should become primary in empty storage", async () => {
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(null)
+
+      const { addMetaAddress } = await import("@/hooks/useStealth")
+      const record = await addMetaAddress(WALLET_A, "Donations")
+
+      expect(savedStorage().activeKeyId).toBe(record.id)
+    })
+
+    it("should archive and replace the given record", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+        { id: "keys_2", keys: MOCK_KEYS_2, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { addMetaAddress } = await import("@/hooks/useStealth")
+      const record = await addMetaAddress(WALLET_A, "Payroll", "keys_1")
+
+      const saved = savedStorage()
+      expect(saved.activeKeyId).toBe(record.id)
+      expect(saved.records.find((r) => r.id === "keys_1")!.isActive).toBe(false)
+      expect(saved.records.find((r) => r.id === "keys_2")!.isActive).toBe(true)
+    })
+
+    it("should reject duplicate and empty labels", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValue(JSON.stringify(storage))
+
+      const { addMetaAddress } = await import("@/hooks/useStealth")
+      await expect(addMetaAddress(WALLET_A, "main")).rejects.toThrow("already exists")
+      await expect(addMetaAddress(WALLET_A, "   ")).rejects.toThrow("Label is required")
+      expect(SecureStore.setItemAsync).not.toHaveBeenCalled()
+
+      vi.mocked(SecureStore.getItemAsync).mockReset()
+    })
+  })
+
+  describe("renameMetaAddress", () => {
+    it("should update the label", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { renameMetaAddress } = await import("@/hooks/useStealth")
+      await renameMetaAddress(WALLET_A, "keys_1", "Friends")
+
+      expect(savedStorage().records[0].label).toBe("Friends")
+    })
+
+    it("should not rename archived records", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+        { id: "keys_0", keys: MOCK_KEYS_2, isActive: false, archivedAt: 1000 },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { renameMetaAddress } = await import("@/hooks/useStealth")
+      await expect(renameMetaAddress(WALLET_A, "keys_0", "Old")).rejects.toThrow("Meta-address not found")
+    })
+  })
+
+  describe("archiveMetaAddress", () => {
+    it("should archive and move the primary to another active record", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+        { id: "keys_2", keys: MOCK_KEYS_2, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { archiveMetaAddress } = await import("@/hooks/useStealth")
+      await archiveMetaAddress(WALLET_A, "keys_1")
+
+      const saved = savedStorage()
+      expect(saved.activeKeyId).toBe("keys_2")
+      const archived = saved.records.find((r) => r.id === "keys_1")!
+      expect(archived.isActive).toBe(false)
+      expect(archived.archivedAt).not.toBeNull()
+      // Keys are kept so its payments stay claimable
+      expect(archived.keys).toEqual(MOCK_KEYS_1)
+    })
+
+    it("should refuse to archive the only meta-address", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { archiveMetaAddress } = await import("@/hooks/useStealth")
+      await expect(archiveMetaAddress(WALLET_A, "keys_1")).rejects.toThrow(
+        "Cannot archive the only meta-address"
+      )
+    })
+  })
+
+  describe("setPrimaryMetaAddress", () => {
+    it("should switch the primary record", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+        { id: "keys_2", keys: MOCK_KEYS_2, isActive: true, archivedAt: null },
+      ])
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { setPrimaryMetaAddress } = await import("@/hooks/useStealth")
+      await setPrimaryMetaAddress(WALLET_A, "keys_2")
+
+      expect(savedStorage().activeKeyId).toBe("keys_2")
+    })
+  })
+
+  describe("deterministic keys", () => {
+    const MNEMONIC = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+
+    it("should derive at the next unused index", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      storage.records[0].derivationIndex = 1
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { addMetaAddress, getNextDerivationIndex } = await import("@/hooks/useStealth")
+      expect(getNextDerivationIndex(null)).toBe(0)
+      expect(getNextDerivationIndex(storage)).toBe(2)
+
+      const record = await addMetaAddress(WALLET_A, "Payroll", null, MNEMONIC)
+      expect(record.derivationIndex).toBe(2)
+      expect(record.keys.spendingPrivateKey).toBe("0x" + "e2".repeat(32))
+    })
+
+    it("should keep random keys without a mnemonic", async () => {
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(null)
+
+      const { addMetaAddress } = await import("@/hooks/useStealth")
+      const record = await addMetaAddress(WALLET_A, "Donations")
+      expect(record.derivationIndex).toBeUndefined()
+      expect(record.keys.spendingPrivateKey).toBe("0x" + "aa".repeat(32))
+    })
+
+    /** Transfer records paid to the given derivation indexes */
+    const paidTo = (...indexes: number[]) =>
+      indexes.map((ownerIndex) => ({ ownerIndex })) as unknown as TransferRecordData[]
+
+    it("should find used indexes up to the gap limit", async () => {
+      const { findUsedDerivationIndexes } = await import("@/hooks/useStealth")
+
+      expect(findUsedDerivationIndexes(MNEMONIC, paidTo(0, 3, 7), 5)).toEqual([0, 3, 7])
+      // Indexes 1-5 are unused, so index 6 is never reached
+      expect(findUsedDerivationIndexes(MNEMONIC, paidTo(0, 6), 5)).toEqual([0])
+      expect(findUsedDerivationIndexes(MNEMONIC, [], 5)).toEqual([])
+    })
+
+    it("should restore only the key sets that received payments", async () => {
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(null)
+
+      const { restoreDeterministicStealthKeys, getNextDerivationIndex } = await import(
+        "@/hooks/useStealth"
+      )
+      const added = await restoreDeterministicStealthKeys(WALLET_A, MNEMONIC, paidTo(0, 2, 6))
+
+      expect(added).toBe(3)
+      const saved = savedStorage()
+      const primary = saved.records.find((r) => r.id === saved.activeKeyId)!
+      expect(primary.derivationIndex).toBe(0)
+      expect(primary.label).toBe("Main")
+      expect(saved.records.filter((r) => r.isActive)).toHaveLength(1)
+      expect(saved.records.map((r) => r.derivationIndex)).toEqual([0, 2, 6])
+      // The next meta-address is within the gap a later restore checks
+      expect(getNextDerivationIndex(saved)).toBe(7)
+    })
+
+    it("should restore index 0 unused into a wallet without meta-addresses", async () => {
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(null)
+
+      const { restoreDeterministicStealthKeys } = await import("@/hooks/useStealth")
+      const added = await restoreDeterministicStealthKeys(WALLET_A, MNEMONIC, [])
+
+      expect(added).toBe(1)
+      expect(savedStorage().records.map((r) => r.derivationIndex)).toEqual([0])
+    })
+
+    it("should skip key sets already stored and keep the primary", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      storage.records.push({
+        id: "keys_2",
+        keys: {
+          spendingPrivateKey: "0x" + "e0".repeat(32),
+          spendingPublicKey: "0x" + "f0".repeat(31) + "e0",
+          viewingPrivateKey: "0x" + "0e".repeat(31) + "e0",
+          viewingPublicKey: "0x" + "0f".repeat(31) + "e0",
+        },
+        createdAt: 1000,
+        archivedAt: 2000,
+        isActive: false,
+      })
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { restoreDeterministicStealthKeys } = await import("@/hooks/useStealth")
+      const added = await restoreDeterministicStealthKeys(WALLET_A, MNEMONIC, paidTo(0, 1))
+
+      expect(added).toBe(1)
+      const saved = savedStorage()
+      expect(saved.activeKeyId).toBe("keys_1")
+      const restored = saved.records.find((r) => r.derivationIndex === 1)!
+      expect(restored.isActive).toBe(false)
+      expect(restored.label).toBe("Address 2")
+    })
+
+    it("should not write when nothing is missing", async () => {
+      const storage = makeStorage("keys_1", [
+        { id: "keys_1", keys: MOCK_KEYS_1, isActive: true, archivedAt: null },
+      ])
+      storage.records[0].derivationIndex = 0
+      vi.mocked(SecureStore.getItemAsync).mockResolvedValueOnce(JSON.stringify(storage))
+
+      const { restoreDeterministicStealthKeys } = await import("@/hooks/useStealth")
+      expect(await restoreDeterministicStealthKeys(WALLET_A, MNEMONIC, paidTo(0))).toBe(0)
+      expect(SecureStore.setItemAsync).not.toHaveBeenCalled()
+    })
+  })
+})
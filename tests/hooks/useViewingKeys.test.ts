@@ -4,7 +4,13 @@
  * Tests viewing key management logic without Expo dependencies.
  */
 
-import { describe, it, expect } from "vitest"
+import { describe, it, expect, vi } from "vitest"
+
+// Build-time RPC keys come from expo-constants
+vi.mock("@/lib/config", () => ({
+  getRpcApiKey: vi.fn().mockReturnValue(null),
+}))
+
 import { buildImportedViewingKey } from "@/hooks/useViewingKeys"
 import type { ViewingKeyExport } from "@/types"
 
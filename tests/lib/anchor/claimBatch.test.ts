@@ -0,0 +1,130 @@
+/**
+ * Batch claim packing
+ *
+ * Claims used to go out one transaction (and one wallet approval) per payment.
+ * packClaimTransactions packs as many claims per transaction as fit the packet
+ * size and compute limits, without splitting a claim across transactions.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js"
+import {
+  MAX_TRANSACTION_COMPUTE_UNITS,
+  packClaimTransactions,
+  SOL_CLAIM_COMPUTE_UNITS,
+  type ClaimBatchItem,
+} from "@/lib/anchor/client"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+
+const FEE_PAYER = Keypair.generate().publicKey
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+const CONFIG = Keypair.generate().publicKey
+const SYSTEM_PROGRAM = new PublicKey("11111111111111111111111111111111")
+
+// Shaped like claim_transfer: config, record, nullifier, stealth (signer), recipient, system
+function claimItem(id: string, computeUnits = SOL_CLAIM_COMPUTE_UNITS): ClaimBatchItem {
+  const stealth = Keypair.generate().publicKey
+  return {
+    id,
+    instructions: [
+      new TransactionInstruction({
+        keys: [
+          { pubkey: CONFIG, isSigner: false, isWritable: false },
+          { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+          { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+          { pubkey: stealth, isSigner: true, isWritable: true },
+          { pubkey: FEE_PAYER, isSigner: true, isWritable: true },
+          { pubkey: SYSTEM_PROGRAM, isSigner: false, isWritable: false },
+        ],
+        programId: SIP_PRIVACY_PROGRAM_ID,
+        data: Buffer.alloc(8 + 32 + 4 + 32),
+      }),
+    ],
+    stealthScalar: new Uint8Array(32),
+    stealthPublicKey: stealth.toBytes(),
+    computeUnits,
+  }
+}
+
+function signedSize(message: Buffer): number {
+  return 1 + message[0] * 64 + message.length
+}
+
+describe("packClaimTransactions", () => {
+  it("packs several claims per transaction within the packet size", () => {
+    const items = Array.from({ length: 12 }, (_, i) => claimItem(`p${i}`))
+
+    const packed = packClaimTransactions(items, FEE_PAYER, BLOCKHASH)
+
+    expect(packed.length).toBeGreaterThan(1)
+    expect(packed.length).toBeLessThan(items.length)
+    for (const { transaction } of packed) {
+      expect(signedSize(transaction.serializeMessage())).toBeLessThanOrEqual(PACKET_DATA_SIZE)
+      expect(transaction.feePayer?.equals(FEE_PAYER)).toBe(true)
+      expect(transaction.recentBlockhash).toBe(BLOCKHASH)
+    }
+  })
+
+  it("keeps every claim exactly once, in order", () => {
+    const items = Array.from({ length: 9 }, (_, i) => claimItem(`p${i}`))
+
+    const packed = packClaimTransactions(items, FEE_PAYER, BLOCKHASH)
+
+    expect(packed.flatMap((p) => p.items.map((item) => item.id))).toEqual(items.map((i) => i.id))
+    for (const { transaction, items: packedItems } of packed) {
+      expect(transaction.instructions).toHaveLength(packedItems.length)
+    }
+  })
+
+  it("fills each transaction before starting the next", () => {
+    const items = Array.from({ length: 9 }, (_, i) => claimItem(`p${i}`))
+
+    const packed = packClaimTransactions(items, FEE_PAYER, BLOCKHASH)
+    const perTransaction = packed[0].items.length
+
+    // All but the last transaction are full
+    packed.slice(0, -1).forEach((p) => expect(p.items).toHaveLength(perTransaction))
+  })
+
+  it("splits on the compute limit", () => {
+    const heavy = MAX_TRANSACTION_COMPUTE_UNITS / 2
+    const items = [claimItem("a", heavy), claimItem("b", heavy), claimItem("c", heavy)]
+
+    const packed = packClaimTransactions(items, FEE_PAYER, BLOCKHASH)
+
+    expect(packed.map((p) => p.items.map((i) => i.id))).toEqual([["a", "b"], ["c"]])
+  })
+
+  it("throws when a single claim cannot fit", () => {
+    const item = claimItem("huge", MAX_TRANSACTION_COMPUTE_UNITS + 1)
+
+    expect(() => packClaimTransactions([item], FEE_PAYER, BLOCKHASH)).toThrow(
+      "Claim huge does not fit in a single transaction"
+    )
+  })
+
+  it("prepends a compute budget sized to each transaction's claims", () => {
+    const items = Array.from({ length: 30 }, (_, i) => claimItem(`c${i}`))
+    const packed = packClaimTransactions(items, FEE_PAYER, BLOCKHASH, 5_000)
+
+    expect(packed.length).toBeGreaterThan(1)
+    for (const { transaction, items: packedItems } of packed) {
+      const [limit, price] = transaction.instructions
+      expect(limit.programId.equals(ComputeBudgetProgram.programId)).toBe(true)
+      expect(limit.data.readUInt32LE(1)).toBe(packedItems.length * SOL_CLAIM_COMPUTE_UNITS)
+      expect(price.programId.equals(ComputeBudgetProgram.programId)).toBe(true)
+      expect(transaction.instructions).toHaveLength(packedItems.length + 2)
+      expect(signedSize(transaction.serializeMessage())).toBeLessThanOrEqual(PACKET_DATA_SIZE)
+    }
+  })
+
+  it("returns nothing for no claims", () => {
+    expect(packClaimTransactions([], FEE_PAYER, BLOCKHASH)).toEqual([])
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Claims to fresh destinations
+ *
+ * A fresh account or self-stealth address holds no SOL, so the stealth account
+ * pays the claim: it becomes the fee payer and funds the nullifier rent. Funds
+ * parked on a self-stealth address have no TransferRecord and leave it through
+ * a plain sweep signed by the stealth account alone.
+ */
+
+import { describe, it, expect } from "vitest"
+import { ed25519 } from "@noble/curves/ed25519"
+import { Keypair, PublicKey, SystemInstruction, type Connection } from "@solana/web3.js"
+import {
+  buildClaimTransfer,
+  buildStealthSweepInstruction,
+  buildStealthSweepTransfer,
+} from "@/lib/anchor/client"
+import { NULLIFIER_RECORD_SIZE, SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import {
+  bytesToHex,
+  deriveStealthPrivateKey,
+  ed25519PublicKeyToSolanaAddress,
+  generateStealthAddress,
+} from "@/lib/stealth"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+const RENT = 1_454_640
+const BALANCE = 250_000_000
+
+const connection = {
+  getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+  getMinimumBalanceForRentExemption: async (size: number) => {
+    expect(size).toBe(NULLIFIER_RECORD_SIZE)
+    return RENT
+  },
+  getBalance: async () => BALANCE,
+} as unknown as Connection
+
+// Random keys (expo-crypto is mocked with fixed bytes in tests/setup.ts)
+function randomKeyPair() {
+  const privateKey = ed25519.utils.randomPrivateKey()
+  return {
+    privateKey: `0x${bytesToHex(privateKey)}`,
+    publicKey: `0x${bytesToHex(ed25519.getPublicKey(privateKey))}`,
+  }
+}
+
+async function stealthAccount() {
+  const spending = randomKeyPair()
+  const viewing = randomKeyPair()
+  const keys = {
+    spendingPrivateKey: spending.privateKey,
+    spendingPublicKey: spending.publicKey,
+    viewingPrivateKey: viewing.privateKey,
+    viewingPublicKey: viewing.publicKey,
+  }
+  const { stealthAddress } = await generateStealthAddress({
+    spendingKey: keys.spendingPublicKey,
+    viewingKey: keys.viewingPublicKey,
+    chain: "solana",
+  })
+  return {
+    address: new PublicKey(ed25519PublicKeyToSolanaAddress(stealthAddress.address)),
+    privateKey: deriveStealthPrivateKey(
+      stealthAddress,
+      keys.spendingPrivateKey,
+      keys.viewingPrivateKey
+    ),
+  }
+}
+
+describe("buildClaimTransfer destinations", () => {
+  it("lets the wallet pay when claiming to it", async () => {
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate().publicKey
+
+    const { transaction } = await buildClaimTransfer(connection, {
+      transferRecordPubkey: Keypair.generate().publicKey,
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient,
+    })
+
+    expect(transaction.feePayer?.equals(recipient)).toBe(true)
+    expect(transaction.instructions).toHaveLength(1)
+    expect(transaction.instructions[0].programId.equals(SIP_PRIVACY_PROGRAM_ID)).toBe(true)
+  })
+
+  it("lets the stealth account pay and fund the nullifier rent for a fresh address", async () => {
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate().publicKey
+
+    const { transaction } = await buildClaimTransfer(connection, {
+      transferRecordPubkey: Keypair.generate().publicKey,
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient,
+      feePayer: stealth.address,
+    })
+
+    expect(transaction.feePayer?.equals(stealth.address)).toBe(true)
+    expect(transaction.instructions).toHaveLength(2)
+    const funding = SystemInstruction.decodeTransfer(transaction.instructions[0])
+    expect(funding.fromPubkey.equals(stealth.address)).toBe(true)
+    expect(funding.toPubkey.equals(recipient)).toBe(true)
+    expect(Number(funding.lamports)).toBe(RENT)
+    expect(transaction.instructions[1].programId.equals(SIP_PRIVACY_PROGRAM_ID)).toBe(true)
+  })
+})
+
+describe("buildStealthSweepTransfer", () => {
+  it("sends the balance less the fee, paid by the stealth account", async () => {
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate().publicKey
+
+    const { transaction } = await buildStealthSweepTransfer(connection, {
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient,
+    })
+
+    expect(transaction.feePayer?.equals(stealth.address)).toBe(true)
+    const sweep = SystemInstruction.decodeTransfer(transaction.instructions[0])
+    expect(sweep.toPubkey.equals(recipient)).toBe(true)
+    expect(Number(sweep.lamports)).toBe(BALANCE - 5000)
+    // Only the stealth account signs
+    expect(transaction.compileMessage().header.numRequiredSignatures).toBe(1)
+  })
+
+  it("sweeps everything when someone else pays the fee", async () => {
+    const stealth = await stealthAccount()
+
+    const { instruction } = await buildStealthSweepInstruction(connection, {
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: Keypair.generate().publicKey,
+    })
+
+    expect(Number(SystemInstruction.decodeTransfer(instruction).lamports)).toBe(BALANCE)
+  })
+
+  it("rejects a key that does not match the stealth address", async () => {
+    const stealth = await stealthAccount()
+    const other = await stealthAccount()
+
+    await expect(
+      buildStealthSweepTransfer(connection, {
+        stealthAddress: stealth.address,
+        stealthPrivateKey: other.privateKey,
+        recipientAddress: Keypair.generate().publicKey,
+      })
+    ).rejects.toThrow("Stealth private key doesn't match stealth address")
+  })
+})
@@ -69,13 +69,22 @@ vi.mock("@/lib/anchor/crypto", () => ({
   }),
   computeViewingKeyHash: vi.fn().mockReturnValue(new Uint8Array(32).fill(0x05)),
   deriveSharedSecret: vi.fn().mockReturnValue(new Uint8Array(32).fill(0x06)),
-  generateMockProof: vi.fn().mockResolvedValue(new Uint8Array(64).fill(0x07)),
+  deriveBlindingFactor: vi.fn().mockReturnValue(new Uint8Array(32).fill(0x0a)),
   generateEphemeralKeyPair: vi.fn().mockResolvedValue({
     privateKey: new Uint8Array(32).fill(0x08),
     publicKey: new Uint8Array(33).fill(0x09),
   }),
 }))
 
+// Mock amount proofs
+vi.mock("@/lib/proofs", () => ({
+  getAmountProofProvider: () => ({
+    scheme: "pedersen-opening",
+    prove: vi.fn().mockResolvedValue(new Uint8Array(128).fill(0x07)),
+    verify: vi.fn().mockReturnValue(true),
+  }),
+}))
+
 import {
   SipPrivacyClient,
   getSipPrivacyClient,
@@ -94,6 +103,7 @@ describe("Anchor Client", () => {
     // Create mock connection
     mockConnection = {
       getAccountInfo: vi.fn(),
+      getMultipleAccountsInfo: vi.fn(),
       getProgramAccounts: vi.fn(),
       getLatestBlockhash: vi.fn().mockResolvedValue({
         blockhash: "mockBlockhash123",
@@ -244,6 +254,101 @@ describe("Anchor Client", () => {
     })
   })
 
+  describe("shield parts", () => {
+    const sender = new PublicKey("S1P6j1yeTm6zkewQVeihrTZvmfoHABRkHDhabWTuWMd")
+    const part = {
+      amount: 0.5,
+      stealthPubkey: new PublicKey("11111111111111111111111111111112"),
+      recipientSpendingKey: new Uint8Array(33).fill(0x02),
+      recipientViewingKey: new Uint8Array(33).fill(0x03),
+      sealedAmount: {
+        commitment: new Uint8Array(33).fill(0x01),
+        blindingFactor: new Uint8Array(32).fill(0x02),
+        encryptedAmount: {
+          nonce: new Uint8Array(24).fill(0x03),
+          ciphertext: new Uint8Array(16).fill(0x04),
+        },
+      },
+    }
+
+    function configAccount(totalTransfers: bigint) {
+      const data = Buffer.alloc(52)
+      sender.toBuffer().copy(data, 8)
+      data.writeUInt16LE(50, 40)
+      data.writeBigUInt64LE(totalTransfers, 43)
+      return { data }
+    }
+
+    it("should derive a different PDA per part when each is built after the previous lands", async () => {
+      let totalTransfers = 7n
+      vi.mocked(mockConnection.getAccountInfo).mockImplementation(
+        async () => configAccount(totalTransfers) as any
+      )
+
+      const records: PublicKey[] = []
+      for (let i = 0; i < 3; i++) {
+        const { transferRecord } = await client.buildShieldedTransfer(sender, part)
+        records.push(transferRecord)
+        totalTransfers++ // the part lands
+      }
+
+      expect(new Set(records.map((r) => r.toBase58())).size).toBe(3)
+      records.forEach((record, i) => {
+        const [expected] = getTransferRecordPda(sender, 7n + BigInt(i), SIP_PRIVACY_PROGRAM_ID)
+        expect(record.equals(expected)).toBe(true)
+      })
+    })
+
+    it("should reuse one PDA when parts are built before any lands", async () => {
+      vi.mocked(mockConnection.getAccountInfo).mockResolvedValue(configAccount(7n) as any)
+
+      const first = await client.buildShieldedTransfer(sender, part)
+      const second = await client.buildShieldedTransfer(sender, part)
+
+      expect(first.transferRecord.equals(second.transferRecord)).toBe(true)
+    })
+  })
+
+  describe("deployment check", () => {
+    it("should report a missing program", async () => {
+      vi.mocked(mockConnection.getMultipleAccountsInfo).mockResolvedValue([null, null])
+      expect(await client.getDeploymentStatus()).toBe("not-deployed")
+    })
+
+    it("should report a loaded program without config", async () => {
+      vi.mocked(mockConnection.getMultipleAccountsInfo).mockResolvedValue([
+        { executable: true } as any,
+        null,
+      ])
+      expect(await client.getDeploymentStatus()).toBe("uninitialized")
+    })
+
+    it("should report an initialized program", async () => {
+      vi.mocked(mockConnection.getMultipleAccountsInfo).mockResolvedValue([
+        { executable: true } as any,
+        { executable: false } as any,
+      ])
+      expect(await client.getDeploymentStatus()).toBe("ready")
+    })
+
+    it("should build initialize with the authority as signer and payer", async () => {
+      const authority = new PublicKey("11111111111111111111111111111112")
+      const tx = await client.buildInitialize(authority, 25)
+
+      const [ix] = tx.instructions
+      const [configPda] = getConfigPda(SIP_PRIVACY_PROGRAM_ID)
+      expect(ix.keys[0].pubkey.equals(configPda)).toBe(true)
+      expect(ix.keys[1]).toMatchObject({ pubkey: authority, isSigner: true, isWritable: true })
+      expect(Array.from(ix.data)).toEqual([175, 175, 109, 31, 13, 152, 155, 237, 25, 0])
+      expect(tx.feePayer?.equals(authority)).toBe(true)
+    })
+
+    it("should reject out-of-range fees", async () => {
+      const authority = new PublicKey("11111111111111111111111111111112")
+      await expect(client.buildInitialize(authority, 10_001)).rejects.toThrow("Fee must be")
+    })
+  })
+
   describe("getSipPrivacyClient", () => {
     it("should create new client on first call", () => {
       const client1 = getSipPrivacyClient(mockConnection)
@@ -262,6 +367,12 @@ describe("Anchor Client", () => {
       const client2 = getSipPrivacyClient(mockConnection)
       expect(client1).not.toBe(client2)
     })
+
+    it("should create new instance for another connection", () => {
+      const client1 = getSipPrivacyClient(mockConnection)
+      const client2 = getSipPrivacyClient({ ...mockConnection } as Connection)
+      expect(client1).not.toBe(client2)
+    })
   })
 
   describe("resetSipPrivacyClient", () => {
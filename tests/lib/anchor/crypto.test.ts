@@ -4,12 +4,15 @@
  * Tests for cryptographic utilities used in shielded transfers:
  * - Pedersen commitments
  * - Amount encryption/decryption
+ * - Commitment verification of decrypted amounts
  * - Viewing key hashing
  * - Shared secret derivation
  * - Ephemeral key generation
  */
 
 import { describe, it, expect, vi } from "vitest"
+import nacl from "tweetnacl"
+import { sha256 } from "@noble/hashes/sha256"
 
 // Mock expo-crypto
 vi.mock("expo-crypto", () => ({
@@ -29,9 +32,11 @@ import {
   createCommitment,
   encryptAmount,
   decryptAmount,
+  decryptVerifiedAmount,
+  deriveBlindingFactor,
+  verifyCommitment,
   computeViewingKeyHash,
   deriveSharedSecret,
-  generateMockProof,
   generateEphemeralKeyPair,
 } from "@/lib/anchor/crypto"
 
@@ -206,6 +211,66 @@ describe("Anchor Crypto Utilities", () => {
     })
   })
 
+  describe("decryptVerifiedAmount", () => {
+    const sharedSecret = new Uint8Array(32).fill(0x42)
+
+    it("should verify an amount committed with the derived blinding factor", async () => {
+      const { commitment } = await createCommitment(2500n, deriveBlindingFactor(sharedSecret))
+      const encrypted = await encryptAmount(2500n, sharedSecret)
+
+      expect(decryptVerifiedAmount(commitment, encrypted, sharedSecret)).toEqual({
+        amount: 2500n,
+        verification: "verified",
+      })
+    })
+
+    it("should flag an encrypted amount the commitment does not open to", async () => {
+      const { commitment } = await createCommitment(1n, deriveBlindingFactor(sharedSecret))
+      const encrypted = await encryptAmount(1000000000n, sharedSecret)
+
+      const result = decryptVerifiedAmount(commitment, encrypted, sharedSecret)
+      expect(result.amount).toBe(1000000000n)
+      expect(result.verification).toBe("mismatch")
+    })
+
+    it("should flag a commitment with another blinding factor", async () => {
+      const { commitment } = await createCommitment(2500n)
+      const encrypted = await encryptAmount(2500n, sharedSecret)
+
+      expect(decryptVerifiedAmount(commitment, encrypted, sharedSecret).verification).toBe("mismatch")
+    })
+
+    it("should keep the 8-byte amount plaintext legacy decoders read", async () => {
+      const encrypted = await encryptAmount(2500n, sharedSecret)
+      const plaintext = nacl.secretbox.open(encrypted.ciphertext, encrypted.nonce, sha256(sharedSecret))!
+
+      expect(plaintext).toHaveLength(8)
+      expect(new DataView(plaintext.buffer, plaintext.byteOffset).getBigUint64(0, true)).toBe(2500n)
+    })
+
+    it("should leave legacy amounts unverified", async () => {
+      const { commitment } = await createCommitment(2500n)
+      const nonce = new Uint8Array(24).fill(0x01)
+      const amountBytes = new Uint8Array(8)
+      new DataView(amountBytes.buffer).setBigUint64(0, 2500n, true)
+      const ciphertext = nacl.secretbox(amountBytes, nonce, sha256(sharedSecret))
+
+      expect(decryptVerifiedAmount(commitment, { nonce, ciphertext }, sharedSecret)).toEqual({
+        amount: 2500n,
+        verification: "unverified",
+      })
+    })
+
+    it("should check commitments directly", async () => {
+      const blindingFactor = deriveBlindingFactor(sharedSecret)
+      const { commitment } = await createCommitment(42n, blindingFactor)
+
+      expect(verifyCommitment(commitment, 42n, blindingFactor)).toBe(true)
+      expect(verifyCommitment(commitment, 43n, blindingFactor)).toBe(false)
+      expect(verifyCommitment(commitment.slice(1), 42n, blindingFactor)).toBe(false)
+    })
+  })
+
   describe("computeViewingKeyHash", () => {
     it("should return 32-byte hash", () => {
       const viewingKey = new Uint8Array(32).fill(0xaa)
@@ -278,48 +343,6 @@ describe("Anchor Crypto Utilities", () => {
     })
   })
 
-  describe("generateMockProof", () => {
-    it("should generate 128-byte proof", async () => {
-      const commitment = new Uint8Array(33).fill(0x11)
-      const blindingFactor = new Uint8Array(32).fill(0x22)
-      const amount = 1000000n
-
-      const proof = await generateMockProof(commitment, blindingFactor, amount)
-
-      expect(proof).toBeInstanceOf(Uint8Array)
-      expect(proof.length).toBe(128)
-    })
-
-    it("should be deterministic for same inputs", async () => {
-      const commitment = new Uint8Array(33).fill(0xaa)
-      const blindingFactor = new Uint8Array(32).fill(0xbb)
-      const amount = 5000000n
-
-      const proof1 = await generateMockProof(commitment, blindingFactor, amount)
-      const proof2 = await generateMockProof(commitment, blindingFactor, amount)
-
-      expect(bytesToHex(proof1)).toBe(bytesToHex(proof2))
-    })
-
-    it("should produce different proofs for different amounts", async () => {
-      const commitment = new Uint8Array(33).fill(0xcc)
-      const blindingFactor = new Uint8Array(32).fill(0xdd)
-
-      const proof1 = await generateMockProof(commitment, blindingFactor, 1000n)
-      const proof2 = await generateMockProof(commitment, blindingFactor, 2000n)
-
-      expect(bytesToHex(proof1)).not.toBe(bytesToHex(proof2))
-    })
-
-    it("should handle zero amount", async () => {
-      const commitment = new Uint8Array(33).fill(0x01)
-      const blindingFactor = new Uint8Array(32).fill(0x02)
-
-      const proof = await generateMockProof(commitment, blindingFactor, 0n)
-      expect(proof.length).toBe(128)
-    })
-  })
-
   describe("generateEphemeralKeyPair", () => {
     it("should generate keypair with correct sizes", async () => {
       const keyPair = await generateEphemeralKeyPair()
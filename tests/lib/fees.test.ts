@@ -0,0 +1,191 @@
+/**
+ * Priority fees & compute budget
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  type Connection,
+} from "@solana/web3.js"
+import {
+  applyPriorityFee,
+  BASE_FEE_LAMPORTS_PER_SIGNATURE,
+  DEFAULT_COMPUTE_UNITS,
+  estimateTransactionFee,
+  getPriorityFeeLamports,
+  getPriorityFeeRate,
+  MAX_PRIORITY_FEE_LAMPORTS,
+  simulateComputeUnits,
+} from "@/lib/fees"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+
+function mockConnection(options: {
+  fees?: number[]
+  unitsConsumed?: number
+  simulationError?: unknown
+} = {}) {
+  return {
+    getRecentPrioritizationFees: vi.fn().mockResolvedValue(
+      (options.fees ?? []).map((prioritizationFee, slot) => ({ slot, prioritizationFee }))
+    ),
+    simulateTransaction: vi.fn().mockResolvedValue({
+      context: { slot: 1 },
+      value: {
+        err: options.simulationError ?? null,
+        logs: [],
+        unitsConsumed: options.unitsConsumed,
+      },
+    }),
+  } as unknown as Connection & {
+    getRecentPrioritizationFees: ReturnType<typeof vi.fn>
+    simulateTransaction: ReturnType<typeof vi.fn>
+  }
+}
+
+function transferTransaction(): Transaction {
+  const payer = Keypair.generate().publicKey
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+  )
+  transaction.recentBlockhash = BLOCKHASH
+  transaction.feePayer = payer
+  return transaction
+}
+
+// Recent fees 1..100 (micro-lamports per CU)
+const RECENT_FEES = Array.from({ length: 100 }, (_, i) => i + 1)
+
+describe("getPriorityFeeRate", () => {
+  it("pays a percentile of recent fees per level", async () => {
+    const connection = mockConnection({ fees: RECENT_FEES.map((f) => f * 1000) })
+
+    expect(await getPriorityFeeRate(connection, { level: "low" }, 10_000)).toBe(25_000)
+    expect(await getPriorityFeeRate(connection, { level: "medium" }, 10_000)).toBe(50_000)
+    expect(await getPriorityFeeRate(connection, { level: "high" }, 10_000)).toBe(75_000)
+  })
+
+  it("applies a floor when recent fees are low", async () => {
+    const connection = mockConnection({ fees: [0, 0, 0] })
+
+    expect(await getPriorityFeeRate(connection, { level: "low" }, 10_000)).toBe(0)
+    expect(await getPriorityFeeRate(connection, { level: "medium" }, 10_000)).toBe(1_000)
+    expect(await getPriorityFeeRate(connection, { level: "high" }, 10_000)).toBe(10_000)
+  })
+
+  it("falls back to the floor when the RPC has no fee data", async () => {
+    const connection = mockConnection()
+    connection.getRecentPrioritizationFees.mockRejectedValue(new Error("method not found"))
+
+    expect(await getPriorityFeeRate(connection, { level: "medium" }, 10_000)).toBe(1_000)
+  })
+
+  it("spreads a custom fee over the compute limit", async () => {
+    const connection = mockConnection()
+    const rate = await getPriorityFeeRate(connection, { level: "custom", customLamports: 10_000 }, 200_000)
+
+    expect(rate).toBe(50_000)
+    expect(getPriorityFeeLamports(200_000, rate)).toBe(10_000)
+    expect(connection.getRecentPrioritizationFees).not.toHaveBeenCalled()
+  })
+
+  it("caps the fee per transaction", async () => {
+    const connection = mockConnection({ fees: [1e12] })
+    const rate = await getPriorityFeeRate(connection, { level: "high" }, 200_000)
+
+    expect(getPriorityFeeLamports(200_000, rate)).toBeLessThanOrEqual(MAX_PRIORITY_FEE_LAMPORTS)
+  })
+
+  it("queries fees for the accounts the transaction locks", async () => {
+    const connection = mockConnection()
+    const account = Keypair.generate().publicKey
+    await getPriorityFeeRate(connection, { level: "medium" }, 10_000, [account])
+
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({
+      lockedWritableAccounts: [account],
+    })
+  })
+})
+
+describe("simulateComputeUnits", () => {
+  it("adds a margin over simulated consumption", async () => {
+    const connection = mockConnection({ unitsConsumed: 1_000 })
+
+    expect(await simulateComputeUnits(connection, transferTransaction())).toBe(1_100)
+    expect(connection.simulateTransaction).toHaveBeenCalledWith(expect.anything(), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    })
+  })
+
+  it("returns null when simulation fails", async () => {
+    const connection = mockConnection({ simulationError: { InstructionError: [0, "Custom"] } })
+
+    expect(await simulateComputeUnits(connection, transferTransaction())).toBeNull()
+  })
+})
+
+describe("applyPriorityFee", () => {
+  it("prepends a limit and price sized by simulation", async () => {
+    const connection = mockConnection({ unitsConsumed: 10_000, fees: [20_000] })
+    const transaction = transferTransaction()
+
+    const estimate = await applyPriorityFee(connection, transaction, { level: "medium" })
+
+    expect(estimate.computeUnits).toBe(11_000)
+    expect(estimate.microLamportsPerUnit).toBe(20_000)
+    expect(estimate.priorityFeeLamports).toBe(220)
+    expect(estimate.baseFeeLamports).toBe(BASE_FEE_LAMPORTS_PER_SIGNATURE)
+    expect(estimate.totalFeeLamports).toBe(BASE_FEE_LAMPORTS_PER_SIGNATURE + 220)
+
+    const [limit, price, transfer] = transaction.instructions
+    expect(limit.programId.equals(ComputeBudgetProgram.programId)).toBe(true)
+    expect(limit.data.readUInt32LE(1)).toBe(11_000)
+    expect(price.programId.equals(ComputeBudgetProgram.programId)).toBe(true)
+    expect(transfer.programId.equals(SystemProgram.programId)).toBe(true)
+  })
+
+  it("replaces an existing compute budget", async () => {
+    const connection = mockConnection({ unitsConsumed: 10_000 })
+    const transaction = transferTransaction()
+
+    await applyPriorityFee(connection, transaction, { level: "high" })
+    await applyPriorityFee(connection, transaction, { level: "high" })
+
+    expect(transaction.instructions).toHaveLength(3)
+  })
+
+  it("uses the default limit when simulation fails", async () => {
+    const connection = mockConnection({ simulationError: "AccountNotFound" })
+    const estimate = await applyPriorityFee(connection, transferTransaction(), { level: "low" })
+
+    expect(estimate.computeUnits).toBe(DEFAULT_COMPUTE_UNITS)
+  })
+
+  it("skips the price instruction at zero", async () => {
+    const connection = mockConnection()
+    const transaction = transferTransaction()
+
+    await applyPriorityFee(connection, transaction, { level: "low" }, { computeUnits: 500 })
+
+    expect(connection.simulateTransaction).not.toHaveBeenCalled()
+    expect(transaction.instructions).toHaveLength(2)
+  })
+})
+
+describe("estimateTransactionFee", () => {
+  it("previews base and priority fee", async () => {
+    const connection = mockConnection()
+    const estimate = await estimateTransactionFee(
+      connection,
+      { level: "custom", customLamports: 2_000 },
+      { computeUnits: 60_000, signatures: 2 }
+    )
+
+    expect(estimate.priorityFeeLamports).toBe(2_000)
+    expect(estimate.totalFeeLamports).toBe(2 * BASE_FEE_LAMPORTS_PER_SIGNATURE + 2_000)
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Durable nonce helpers
+ *
+ * Transactions built against a recent blockhash expire in about a minute.
+ * Built against the wallet's durable nonce, they can be signed now and
+ * submitted later; the advance instruction must stay first.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  type Connection,
+} from "@solana/web3.js"
+import {
+  applyDurableNonce,
+  buildCloseNonceAccount,
+  buildCreateNonceAccount,
+  fetchNonceAccount,
+  getNonceAccountAddress,
+  setTransactionLifetime,
+  type DurableNonce,
+} from "@/lib/nonce"
+import { applyPriorityFee } from "@/lib/fees"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+const NONCE = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi"
+
+function mockConnection(account: { owner: PublicKey; data: Buffer; lamports: number } | null = null) {
+  return {
+    getLatestBlockhash: vi.fn().mockResolvedValue({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+    getMinimumBalanceForRentExemption: vi.fn().mockResolvedValue(1_447_680),
+    getAccountInfo: vi.fn().mockResolvedValue(account),
+    getRecentPrioritizationFees: vi.fn().mockResolvedValue([]),
+    simulateTransaction: vi.fn().mockResolvedValue({
+      context: { slot: 1 },
+      value: { err: null, logs: [], unitsConsumed: 1000 },
+    }),
+  } as unknown as Connection & { simulateTransaction: ReturnType<typeof vi.fn> }
+}
+
+/**
+ * Initialized nonce account data (versions: current, state: initialized)
+ */
+function nonceAccountData(authority: PublicKey, nonce: string): Buffer {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH)
+  data.writeUInt32LE(1, 0)
+  data.writeUInt32LE(1, 4)
+  authority.toBuffer().copy(data, 8)
+  new PublicKey(nonce).toBuffer().copy(data, 40)
+  data.writeBigUInt64LE(5000n, 72)
+  return data
+}
+
+function transfer(payer: PublicKey): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1000 })
+  )
+  transaction.feePayer = payer
+  return transaction
+}
+
+describe("durable nonce", () => {
+  const authority = Keypair.generate().publicKey
+
+  describe("nonce account", () => {
+    it("derives the account from the wallet, so it needs no extra signer", async () => {
+      const connection = mockConnection()
+      const nonceAccount = await getNonceAccountAddress(authority)
+
+      const { transaction, nonceAccount: created } = await buildCreateNonceAccount(connection, authority, {
+        extraLamports: 1000,
+      })
+
+      expect(created.equals(nonceAccount)).toBe(true)
+      expect(transaction.instructions.map((ix) => SystemInstruction.decodeInstructionType(ix))).toEqual([
+        "CreateWithSeed",
+        "InitializeNonceAccount",
+      ])
+      expect(SystemInstruction.decodeCreateWithSeed(transaction.instructions[0]).lamports).toBe(1_448_680)
+
+      const message = transaction.compileMessage()
+      expect(message.header.numRequiredSignatures).toBe(1)
+      expect(message.accountKeys[0].equals(authority)).toBe(true)
+    })
+
+    it("reads the nonce and authority", async () => {
+      const nonceAccount = await getNonceAccountAddress(authority)
+      const connection = mockConnection({
+        owner: SystemProgram.programId,
+        data: nonceAccountData(authority, NONCE),
+        lamports: 2_000_000,
+      })
+
+      expect(await fetchNonceAccount(connection, nonceAccount)).toEqual({
+        nonceAccount,
+        authority,
+        nonce: NONCE,
+        lamports: 2_000_000,
+      })
+      expect(await fetchNonceAccount(mockConnection(), nonceAccount)).toBeNull()
+    })
+
+    it("rejects accounts that aren't nonce accounts", async () => {
+      const connection = mockConnection({
+        owner: SystemProgram.programId,
+        data: Buffer.alloc(0),
+        lamports: 1,
+      })
+
+      await expect(fetchNonceAccount(connection, authority)).rejects.toThrow("is not a nonce account")
+    })
+
+    it("closes by withdrawing the whole balance to the authority", async () => {
+      const nonceAccount = await getNonceAccountAddress(authority)
+
+      const transaction = await buildCloseNonceAccount(mockConnection(), {
+        nonceAccount,
+        authority,
+        nonce: NONCE,
+        lamports: 2_000_000,
+      })
+
+      expect(SystemInstruction.decodeNonceWithdraw(transaction.instructions[0])).toMatchObject({
+        lamports: 2_000_000,
+        toPubkey: authority,
+      })
+    })
+  })
+
+  describe("transaction lifetime", () => {
+    async function durableNonce(): Promise<DurableNonce> {
+      return { nonceAccount: await getNonceAccountAddress(authority), authority, nonce: NONCE }
+    }
+
+    it("uses the nonce in place of the blockhash, advancing it first", async () => {
+      const transaction = applyDurableNonce(transfer(authority), await durableNonce())
+
+      const compiled = Transaction.populate(transaction.compileMessage())
+      expect(compiled.recentBlockhash).toBe(NONCE)
+      expect(compiled.instructions).toHaveLength(2)
+      expect(SystemInstruction.decodeNonceAdvance(compiled.instructions[0])).toMatchObject({
+        noncePubkey: await getNonceAccountAddress(authority),
+        authorizedPubkey: authority,
+      })
+    })
+
+    it("keeps the advance instruction first after the priority fee is applied", async () => {
+      const connection = mockConnection()
+      const transaction = applyDurableNonce(transfer(authority), await durableNonce())
+
+      await applyPriorityFee(connection, transaction, { level: "medium" })
+
+      const compiled = Transaction.populate(transaction.compileMessage())
+      expect(SystemInstruction.decodeInstructionType(compiled.instructions[0])).toBe("AdvanceNonceAccount")
+      expect(compiled.instructions[1].programId.equals(ComputeBudgetProgram.programId)).toBe(true)
+      expect(compiled.recentBlockhash).toBe(NONCE)
+    })
+
+    it("falls back to a recent blockhash without a nonce", async () => {
+      const transaction = transfer(authority)
+
+      await setTransactionLifetime(mockConnection(), transaction)
+
+      expect(transaction.recentBlockhash).toBe(BLOCKHASH)
+      expect(transaction.nonceInfo).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Offline send outbox
+ *
+ * A shielded send composed offline carries its stealth address, commitment and
+ * encrypted amount, so submission later only builds, signs and broadcasts.
+ * Entries hold ephemeral private keys and are persisted encrypted.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import * as SecureStore from "expo-secure-store"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import type { Connection } from "@solana/web3.js"
+import {
+  checkConnectivity,
+  composeOfflineSend,
+  encryptedOutboxStorage,
+  isNetworkError,
+  toShieldedTransferParams,
+} from "@/lib/outbox"
+import { decryptAmount, deriveSharedSecret, verifyCommitment } from "@/lib/anchor/crypto"
+import { formatStealthMetaAddress, generateStealthMetaAddress, hexToBytes } from "@/lib/stealth"
+
+async function composeTo(amount: string) {
+  const { metaAddress } = await generateStealthMetaAddress("solana")
+  const entry = await composeOfflineSend({
+    walletAddress: "11111111111111111111111111111111",
+    network: "devnet",
+    recipient: formatStealthMetaAddress(metaAddress),
+    amount,
+    privacyLevel: "shielded",
+  })
+  return { entry, metaAddress }
+}
+
+describe("offline outbox", () => {
+  describe("composeOfflineSend", () => {
+    it("seals the amount for the recipient without a connection", async () => {
+      const { entry, metaAddress } = await composeTo("0.25")
+
+      expect(entry.status).toBe("queued")
+      expect(
+        verifyCommitment(hexToBytes(entry.commitment), 250_000_000n, hexToBytes(entry.blindingFactor))
+      ).toBe(true)
+
+      const sharedSecret = deriveSharedSecret(
+        hexToBytes(entry.ephemeralPrivateKey),
+        hexToBytes(metaAddress.spendingKey)
+      )
+      expect(
+        decryptAmount(
+          {
+            ciphertext: hexToBytes(entry.encryptedAmount.ciphertext),
+            nonce: hexToBytes(entry.encryptedAmount.nonce),
+          },
+          sharedSecret
+        )
+      ).toBe(250_000_000n)
+    })
+
+    it("rejects recipients that aren't stealth meta-addresses", async () => {
+      await expect(
+        composeOfflineSend({
+          walletAddress: "11111111111111111111111111111111",
+          network: "devnet",
+          recipient: "11111111111111111111111111111111",
+          amount: "1",
+          privacyLevel: "shielded",
+        })
+      ).rejects.toThrow("Invalid stealth address format")
+    })
+  })
+
+  describe("toShieldedTransferParams", () => {
+    it("reuses the precomputed stealth address and sealed amount", async () => {
+      const { entry } = await composeTo("1.5")
+
+      const params = toShieldedTransferParams(entry)
+
+      expect(params.amount).toBe(1.5)
+      expect(params.stealthPubkey.toBase58()).toBe(entry.stealthAddress)
+      expect(params.ephemeralPrivateKey).toEqual(hexToBytes(entry.ephemeralPrivateKey))
+      expect(params.sealedAmount?.commitment).toEqual(hexToBytes(entry.commitment))
+    })
+  })
+
+  describe("connectivity", () => {
+    it("tells unreachable RPCs from rejections", () => {
+      expect(isNetworkError(new TypeError("Network request failed"))).toBe(true)
+      expect(isNetworkError(new Error("All RPC endpoints failed: timeout"))).toBe(true)
+      expect(isNetworkError(new Error("Transaction simulation failed"))).toBe(false)
+    })
+
+    it("is offline only when the blockhash fetch can't reach the RPC", async () => {
+      const online = { getLatestBlockhash: vi.fn().mockResolvedValue({}) } as unknown as Connection
+      const offline = {
+        getLatestBlockhash: vi.fn().mockRejectedValue(new TypeError("Failed to fetch")),
+      } as unknown as Connection
+      const rateLimited = {
+        getLatestBlockhash: vi.fn().mockRejectedValue(new Error("429 Too Many Requests")),
+      } as unknown as Connection
+
+      expect(await checkConnectivity(online)).toBe(true)
+      expect(await checkConnectivity(offline)).toBe(false)
+      expect(await checkConnectivity(rateLimited)).toBe(true)
+    })
+  })
+
+  describe("encryptedOutboxStorage", () => {
+    let secureStore: Map<string, string>
+    let asyncStore: Map<string, string>
+
+    beforeEach(() => {
+      secureStore = new Map()
+      asyncStore = new Map()
+      vi.mocked(SecureStore.getItemAsync).mockImplementation(async (key: string) => secureStore.get(key) ?? null)
+      vi.mocked(SecureStore.setItemAsync).mockImplementation(async (key: string, value: string) => {
+        secureStore.set(key, value)
+      })
+      vi.mocked(AsyncStorage.getItem).mockImplementation(async (key) => asyncStore.get(key) ?? null)
+      vi.mocked(AsyncStorage.setItem).mockImplementation(async (key, value) => {
+        asyncStore.set(key, value)
+      })
+    })
+
+    it("round-trips state without storing it in plaintext", async () => {
+      const { entry } = await composeTo("2")
+      const value = JSON.stringify({ state: { entries: [entry] }, version: 0 })
+
+      await encryptedOutboxStorage.setItem("sip-outbox", value)
+
+      expect(asyncStore.get("sip-outbox")).not.toContain(entry.ephemeralPrivateKey)
+      expect(await encryptedOutboxStorage.getItem("sip-outbox")).toBe(value)
+    })
+
+    it("drops the outbox when the device key is gone", async () => {
+      await encryptedOutboxStorage.setItem("sip-outbox", "{}")
+      secureStore.clear()
+
+      expect(await encryptedOutboxStorage.getItem("sip-outbox")).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * Wallet privacy exposure analysis
+ *
+ * Scores used to come from flags nobody set, so every wallet looked private. The
+ * analyzer now derives them from the wallet's real history: exchange transfers,
+ * claims into the main wallet, SNS names and reused stealth addresses.
+ */
+
+import { describe, it, expect } from "vitest"
+import { PublicKey, type ParsedTransactionWithMeta } from "@solana/web3.js"
+import {
+  analyzeWalletExposure,
+  extractWalletTransfers,
+  NATIVE_SOL_MINT,
+  type ExposureAnalysisInput,
+  type WalletTransfer,
+} from "@/lib/privacy-analysis"
+import { EXCHANGE_ADDRESSES } from "@/data/exchanges"
+import { TOKENS } from "@/data/tokens"
+import type { PaymentRecord } from "@/types"
+
+const WALLET = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU"
+const FRIEND = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin"
+const BINANCE = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"
+const USDC = TOKENS.USDC.mint
+
+function transfer(overrides: Partial<WalletTransfer> = {}): WalletTransfer {
+  return {
+    signature: "sig_1",
+    timestamp: 0,
+    direction: "in",
+    counterparty: FRIEND,
+    mint: NATIVE_SOL_MINT,
+    ...overrides,
+  }
+}
+
+function payment(overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  return {
+    id: "payment_1",
+    type: "receive",
+    amount: "1",
+    token: "SOL",
+    status: "completed",
+    timestamp: 0,
+    privacyLevel: "shielded",
+    ...overrides,
+  }
+}
+
+function analyze(overrides: Partial<ExposureAnalysisInput> = {}) {
+  return analyzeWalletExposure({
+    transfers: [],
+    payments: [],
+    snsDomains: [],
+    hasStealthAddress: true,
+    mints: [NATIVE_SOL_MINT],
+    ...overrides,
+  })
+}
+
+/**
+ * Minimal parsed transaction with the given top-level instructions
+ */
+function parsedTx(
+  instructions: { program: string; type: string; info: Record<string, unknown> }[],
+  tokenBalances: { account: string; owner: string; mint: string }[] = []
+): ParsedTransactionWithMeta {
+  const accounts = tokenBalances.map((b) => b.account)
+  return {
+    blockTime: 1_700_000_000,
+    slot: 1,
+    transaction: {
+      signatures: ["sig"],
+      message: {
+        accountKeys: accounts.map((a) => ({ pubkey: { toBase58: () => a } })),
+        instructions: instructions.map(({ program, type, info }) => ({
+          program,
+          programId: PublicKey.default,
+          parsed: { type, info },
+        })),
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: [],
+      postTokenBalances: tokenBalances.map((b, accountIndex) => ({
+        accountIndex,
+        owner: b.owner,
+        mint: b.mint,
+        uiTokenAmount: { amount: "0", decimals: 6, uiAmount: 0 },
+      })),
+    },
+  } as unknown as ParsedTransactionWithMeta
+}
+
+describe("EXCHANGE_ADDRESSES", () => {
+  it("lists valid Solana addresses", () => {
+    for (const address of Object.keys(EXCHANGE_ADDRESSES)) {
+      expect(() => new PublicKey(address)).not.toThrow()
+    }
+  })
+})
+
+describe("extractWalletTransfers", () => {
+  it("reads SOL transfers in both directions", () => {
+    const tx = parsedTx([
+      { program: "system", type: "transfer", info: { source: WALLET, destination: BINANCE, lamports: 1 } },
+      { program: "system", type: "transfer", info: { source: FRIEND, destination: WALLET, lamports: 1 } },
+    ])
+
+    expect(extractWalletTransfers(WALLET, "sig", tx)).toEqual([
+      { signature: "sig", timestamp: 1_700_000_000_000, direction: "out", counterparty: BINANCE, mint: NATIVE_SOL_MINT },
+      { signature: "sig", timestamp: 1_700_000_000_000, direction: "in", counterparty: FRIEND, mint: NATIVE_SOL_MINT },
+    ])
+  })
+
+  it("resolves token account owners from the balance snapshots", () => {
+    const tx = parsedTx(
+      [{ program: "spl-token", type: "transferChecked", info: { source: "ata_wallet", destination: "ata_binance", mint: USDC } }],
+      [
+        { account: "ata_wallet", owner: WALLET, mint: USDC },
+        { account: "ata_binance", owner: BINANCE, mint: USDC },
+      ]
+    )
+
+    expect(extractWalletTransfers(WALLET, "sig", tx)).toEqual([
+      expect.objectContaining({ direction: "out", counterparty: BINANCE, mint: USDC }),
+    ])
+  })
+
+  it("ignores transfers the wallet is not part of", () => {
+    const tx = parsedTx([
+      { program: "system", type: "transfer", info: { source: FRIEND, destination: BINANCE, lamports: 1 } },
+    ])
+
+    expect(extractWalletTransfers(WALLET, "sig", tx)).toEqual([])
+  })
+})
+
+describe("analyzeWalletExposure", () => {
+  it("scores a wallet with no history as unexposed", () => {
+    const { tokens, findings } = analyze()
+
+    expect(findings).toEqual([])
+    expect(tokens[NATIVE_SOL_MINT]).toEqual({
+      totalTransactions: 0,
+      shieldedTransactions: 0,
+      hasStealthAddress: true,
+      balanceExposed: false,
+    })
+  })
+
+  it("flags direct transfers with an exchange and exposes that token only", () => {
+    const { tokens, findings } = analyze({
+      transfers: [
+        transfer({ signature: "sig_1", counterparty: BINANCE, mint: USDC }),
+        transfer({ signature: "sig_2", counterparty: BINANCE, mint: USDC, direction: "out" }),
+        transfer({ signature: "sig_3" }),
+      ],
+    })
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        kind: "exchange-transfer",
+        severity: "high",
+        title: "2 direct USDC transfers with Binance",
+        mint: USDC,
+        signature: "sig_1",
+      }),
+    ])
+    expect(tokens[USDC].balanceExposed).toBe(true)
+    expect(tokens[NATIVE_SOL_MINT]).toMatchObject({ totalTransactions: 1, balanceExposed: false })
+  })
+
+  it("exposes every token when the wallet has an SNS name", () => {
+    const { tokens, findings } = analyze({ snsDomains: ["alice.sol"], mints: [NATIVE_SOL_MINT, USDC] })
+
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: "sns-name", severity: "high", title: "alice.sol points at this wallet" }),
+    ])
+    expect(tokens[NATIVE_SOL_MINT].balanceExposed).toBe(true)
+    expect(tokens[USDC].balanceExposed).toBe(true)
+  })
+
+  it("does not count claims into the main wallet as shielded", () => {
+    const { tokens, findings } = analyze({
+      payments: [
+        payment({ id: "linked", claimed: true, claimTxHash: "claim_1" }),
+        payment({
+          id: "fresh",
+          claimed: true,
+          claimDestination: { type: "fresh-account", address: FRIEND },
+        }),
+        payment({ id: "pending" }),
+      ],
+    })
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        kind: "linked-claim",
+        severity: "medium",
+        title: "1 SOL payment claimed into your main wallet",
+        signature: "claim_1",
+      }),
+    ])
+    expect(tokens[NATIVE_SOL_MINT]).toMatchObject({
+      totalTransactions: 3,
+      shieldedTransactions: 2,
+      balanceExposed: true,
+    })
+  })
+
+  it("flags a stealth address that was paid more than once", () => {
+    const { findings } = analyze({
+      payments: [
+        payment({ id: "a", stealthAddress: "sip:solana:eph1:StealthOne" }),
+        payment({ id: "b", stealthAddress: "sip:solana:eph2:StealthOne" }),
+        payment({ id: "c", stealthAddress: "sip:solana:eph3:StealthTwo" }),
+      ],
+    })
+
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: "stealth-reuse", title: "Stealth address received 2 payments" }),
+    ])
+  })
+
+  it("counts SIP transactions once and skips failed ones", () => {
+    const { tokens } = analyze({
+      transfers: [transfer({ signature: "sip_send", direction: "out" })],
+      payments: [
+        payment({ type: "send", txHash: "sip_send" }),
+        payment({ id: "failed", status: "failed", privacyLevel: "transparent" }),
+      ],
+    })
+
+    expect(tokens[NATIVE_SOL_MINT]).toMatchObject({ totalTransactions: 1, shieldedTransactions: 1 })
+  })
+
+  it("lists high severity findings first", () => {
+    const { findings } = analyze({
+      payments: [payment({ claimed: true })],
+      snsDomains: ["alice.sol"],
+    })
+
+    expect(findings.map((f) => f.kind)).toEqual(["sns-name", "linked-claim"])
+  })
+})
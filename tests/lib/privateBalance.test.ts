@@ -0,0 +1,150 @@
+/**
+ * Private balance — unclaimed stealth funds verified on-chain, pending funds and
+ * provider-held balances combined per token
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import { Keypair, LAMPORTS_PER_SOL, PublicKey, type Connection } from "@solana/web3.js"
+import {
+  aggregatePrivateBalances,
+  getPendingHoldings,
+  verifyStealthBalances,
+} from "@/lib/private-balance"
+import { NATIVE_SOL_MINT } from "@/lib/privacy-analysis"
+import { getAssociatedTokenAddress } from "@/lib/spl"
+import { TOKENS } from "@/data/tokens"
+import type { PaymentRecord } from "@/types"
+
+const USDC = TOKENS.USDC.mint
+
+function stealthAccount(): string {
+  return Keypair.generate().publicKey.toBase58()
+}
+
+function received(id: string, stealth: string, overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  return {
+    id,
+    type: "receive",
+    amount: "1",
+    token: "SOL",
+    status: "completed",
+    stealthAddress: `sip:solana:0xephemeral:${stealth}`,
+    timestamp: 0,
+    privacyLevel: "shielded",
+    ...overrides,
+  }
+}
+
+function tokenAccountData(amount: bigint): Buffer {
+  const data = Buffer.alloc(165)
+  data.writeBigUInt64LE(amount, 64)
+  return data
+}
+
+/**
+ * Connection answering account lookups from a map of address -> account
+ */
+function mockConnection(accounts: Record<string, { lamports: number; data?: Buffer }>) {
+  return {
+    getMultipleAccountsInfo: vi.fn(async (keys: PublicKey[]) =>
+      keys.map((k) => {
+        const account = accounts[k.toBase58()]
+        return account ? { lamports: account.lamports, data: account.data ?? Buffer.alloc(0) } : null
+      })
+    ),
+  } as unknown as Connection & { getMultipleAccountsInfo: ReturnType<typeof vi.fn> }
+}
+
+describe("verifyStealthBalances", () => {
+  it("reads SOL from the stealth account and tokens from its token account", async () => {
+    const solStealth = stealthAccount()
+    const usdcStealth = stealthAccount()
+    const ata = getAssociatedTokenAddress(new PublicKey(usdcStealth), new PublicKey(USDC)).toBase58()
+    const connection = mockConnection({
+      [solStealth]: { lamports: 1.5 * LAMPORTS_PER_SOL },
+      [ata]: { lamports: 2_039_280, data: tokenAccountData(25_000_000n) },
+    })
+
+    const result = await verifyStealthBalances(connection, [
+      received("sol", solStealth, { amount: "1.5" }),
+      received("usdc", usdcStealth, { amount: "25", token: "USDC", tokenMint: USDC }),
+    ])
+
+    expect(result.holdings).toEqual([
+      { source: "stealth", mint: NATIVE_SOL_MINT, symbol: "SOL", amount: 1.5 },
+      { source: "stealth", mint: USDC, symbol: "USDC", amount: 25 },
+    ])
+    expect(result.unverifiedPayments).toBe(0)
+  })
+
+  it("skips claimed payments and reports empty stealth accounts", async () => {
+    const funded = stealthAccount()
+    const swept = stealthAccount()
+    const connection = mockConnection({ [funded]: { lamports: LAMPORTS_PER_SOL } })
+
+    const result = await verifyStealthBalances(connection, [
+      received("funded", funded),
+      received("swept", swept),
+      received("claimed", stealthAccount(), { claimed: true, status: "claimed" }),
+      received("sent", stealthAccount(), { type: "send" }),
+    ])
+
+    expect(result.holdings.map((h) => h.amount)).toEqual([1])
+    expect(result.emptyPaymentIds).toEqual(["swept"])
+    expect(connection.getMultipleAccountsInfo.mock.calls[0][0]).toHaveLength(2)
+  })
+
+  it("counts payments to the same stealth address once", async () => {
+    const reused = stealthAccount()
+    const connection = mockConnection({ [reused]: { lamports: 2 * LAMPORTS_PER_SOL } })
+
+    const result = await verifyStealthBalances(connection, [received("a", reused), received("b", reused)])
+
+    expect(result.holdings).toEqual([{ source: "stealth", mint: NATIVE_SOL_MINT, symbol: "SOL", amount: 2 }])
+  })
+
+  it("falls back to recorded amounts when accounts can't be read", async () => {
+    const connection = mockConnection({})
+    connection.getMultipleAccountsInfo.mockRejectedValueOnce(new Error("429 Too Many Requests"))
+
+    const result = await verifyStealthBalances(connection, [
+      received("a", stealthAccount(), { amount: "0.75" }),
+      received("legacy", "derived", { amount: "0.25" }),
+    ])
+
+    expect(result.holdings.map((h) => h.amount).sort()).toEqual([0.25, 0.75])
+    expect(result.unverifiedPayments).toBe(2)
+  })
+})
+
+describe("getPendingHoldings", () => {
+  it("includes pending receives and in-flight shielding sends only", () => {
+    const holdings = getPendingHoldings([
+      received("pending", stealthAccount(), { status: "pending", amount: "0.3" }),
+      { ...received("shield", stealthAccount(), { status: "pending", amount: "0.2" }), type: "send", shieldId: "shield_1" },
+      { ...received("send", stealthAccount(), { status: "pending" }), type: "send" },
+      received("done", stealthAccount()),
+    ])
+
+    expect(holdings.map((h) => [h.source, h.amount])).toEqual([
+      ["pending", 0.3],
+      ["pending", 0.2],
+    ])
+  })
+})
+
+describe("aggregatePrivateBalances", () => {
+  it("sums sources per token, largest first", () => {
+    const balances = aggregatePrivateBalances([
+      { source: "stealth", mint: NATIVE_SOL_MINT, symbol: "SOL", amount: 1 },
+      { source: "pending", mint: NATIVE_SOL_MINT, symbol: "SOL", amount: 0.5 },
+      { source: "provider", mint: USDC, symbol: "USDC", amount: 40, providerId: "shadowwire" },
+      { source: "provider", mint: NATIVE_SOL_MINT, symbol: "SOL", amount: 0.25, providerId: "shadowwire" },
+    ])
+
+    expect(balances).toEqual([
+      { mint: USDC, symbol: "USDC", stealth: 0, pending: 0, provider: 40, total: 40 },
+      { mint: NATIVE_SOL_MINT, symbol: "SOL", stealth: 1, pending: 0.5, provider: 0.25, total: 1.75 },
+    ])
+  })
+})
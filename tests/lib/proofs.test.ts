@@ -0,0 +1,84 @@
+/**
+ * Amount proofs — Pedersen opening proofs for shielded transfer commitments
+ */
+
+import { describe, it, expect } from "vitest"
+import { ed25519 } from "@noble/curves/ed25519"
+import { PublicKey } from "@solana/web3.js"
+import { createCommitment } from "@/lib/anchor/crypto"
+import {
+  MIN_AMOUNT_PROOF_SIZE,
+  createPedersenOpeningProofProvider,
+  getAmountProofProvider,
+} from "@/lib/proofs"
+
+const provider = createPedersenOpeningProofProvider()
+const context = new PublicKey(ed25519.getPublicKey(ed25519.utils.randomPrivateKey())).toBytes()
+
+async function provenCommitment(amount: bigint) {
+  const { commitment, blindingFactor } = await createCommitment(amount)
+  const proof = await provider.prove({ commitment, blindingFactor, amount, context })
+  return { commitment, blindingFactor, proof }
+}
+
+describe("PedersenOpeningProofProvider", () => {
+  it("proves and verifies a commitment opening", async () => {
+    const { commitment, proof } = await provenCommitment(1_500_000_000n)
+
+    expect(proof.length).toBe(MIN_AMOUNT_PROOF_SIZE)
+    expect(provider.verify(proof, { commitment, amount: 1_500_000_000n, context })).toBe(true)
+  })
+
+  it("handles the maximum u64 amount", async () => {
+    const amount = (1n << 64n) - 1n
+    const { commitment, proof } = await provenCommitment(amount)
+
+    expect(provider.verify(proof, { commitment, amount, context })).toBe(true)
+  })
+
+  it("rejects a different amount", async () => {
+    const { commitment, proof } = await provenCommitment(1000n)
+
+    expect(provider.verify(proof, { commitment, amount: 1001n, context })).toBe(false)
+  })
+
+  it("rejects a different commitment", async () => {
+    const { proof } = await provenCommitment(1000n)
+    const other = await createCommitment(1000n)
+    other.commitment[1] ^= 0x01
+
+    expect(provider.verify(proof, { commitment: other.commitment, amount: 1000n, context })).toBe(false)
+  })
+
+  it("is bound to its context", async () => {
+    const { commitment, proof } = await provenCommitment(1000n)
+
+    expect(provider.verify(proof, { commitment, amount: 1000n })).toBe(false)
+    expect(
+      provider.verify(proof, { commitment, amount: 1000n, context: new Uint8Array(32).fill(1) })
+    ).toBe(false)
+  })
+
+  it("rejects tampered proofs", async () => {
+    const { commitment, proof } = await provenCommitment(1000n)
+
+    for (const index of [0, 1, 2, 40, MIN_AMOUNT_PROOF_SIZE - 1]) {
+      const tampered = proof.slice()
+      tampered[index] ^= 0x01
+      expect(provider.verify(tampered, { commitment, amount: 1000n, context })).toBe(false)
+    }
+    expect(provider.verify(proof.slice(0, 66), { commitment, amount: 1000n, context })).toBe(false)
+  })
+
+  it("refuses to prove a commitment to another amount", async () => {
+    const { commitment, blindingFactor } = await createCommitment(1000n)
+
+    await expect(
+      provider.prove({ commitment, blindingFactor, amount: 2000n, context })
+    ).rejects.toThrow("Commitment does not open to the amount")
+  })
+
+  it("is the default provider", () => {
+    expect(getAmountProofProvider().scheme).toBe("pedersen-opening")
+  })
+})
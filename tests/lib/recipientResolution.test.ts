@@ -6,6 +6,7 @@
  *   - classifyInput: raw string → initial RecipientResolution
  *   - isReadyToSend: resolution → boolean (with narrowing predicate)
  *   - targetUri: resolution → string | null (send-call target)
+ *   - stealthTargetUri: resolution → string | null (stealth-only target)
  *
  * The module is pure TypeScript with no async / no Bonfida / no React, so
  * tests import it directly without any mocks. Same convention as
@@ -17,6 +18,7 @@ import {
   classifyInput,
   isReadyToSend,
   targetUri,
+  stealthTargetUri,
   SIP_ADDRESS_REGEX,
   SOLANA_ADDRESS_REGEX,
   SNS_DOMAIN_REGEX,
@@ -434,6 +436,30 @@ describe("targetUri", () => {
   })
 })
 
+// ============================================================================
+// stealthTargetUri
+// ============================================================================
+
+describe("stealthTargetUri", () => {
+  it("returns the URI for sip-uri and sns-resolved", () => {
+    expect(stealthTargetUri({ kind: "sip-uri", uri: SIP_URI })).toBe(SIP_URI)
+    expect(
+      stealthTargetUri({ kind: "sns-resolved", domain: ALICE_SOL, uri: SIP_URI })
+    ).toBe(SIP_URI)
+  })
+
+  it("returns null for a raw Solana address", () => {
+    expect(
+      stealthTargetUri({ kind: "solana-address", address: SOLANA_ADDR })
+    ).toBeNull()
+  })
+
+  it("returns null while a domain is resolving or unresolved", () => {
+    expect(stealthTargetUri({ kind: "sns-resolving", domain: ALICE_SOL })).toBeNull()
+    expect(stealthTargetUri({ kind: "sns-not-found-record", domain: ALICE_SOL })).toBeNull()
+  })
+})
+
 // ============================================================================
 // Send-screen integration contract (logic-level)
 // ============================================================================
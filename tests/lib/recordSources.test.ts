@@ -0,0 +1,222 @@
+/**
+ * Transfer record sources — RPC, indexer and fixture backends behind one interface
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { PublicKey, type Connection } from "@solana/web3.js"
+import { parseTransferRecord } from "@/lib/anchor/client"
+import {
+  createTransferRecordSource,
+  FixtureTransferRecordSource,
+  getFixtureTransferRecordSource,
+  getTransferRecordSourceInfo,
+  IndexerTransferRecordSource,
+  resetFixtureTransferRecordSource,
+} from "@/lib/record-sources"
+
+const TRANSFER_RECORD_DISCRIMINATOR = [0xc8, 0x1f, 0x06, 0x9e, 0xf0, 0x19, 0xf8, 0x35]
+
+function key(seed: number): PublicKey {
+  return new PublicKey(new Uint8Array(32).fill(seed))
+}
+
+// Encode a TransferRecord account exactly as the program lays it out (see parseTransferRecord)
+function encodeRecord(stealthSeed: number, timestamp: bigint, claimed = false): Buffer {
+  const encrypted = Buffer.alloc(24 + 16, 0x07)
+  const data = Buffer.alloc(8 + 32 + 32 + 33 + 33 + 32 + 4 + encrypted.length + 8 + 1 + 1 + 1)
+  let offset = 0
+  Buffer.from(TRANSFER_RECORD_DISCRIMINATOR).copy(data, offset)
+  offset += 8
+  key(1).toBuffer().copy(data, offset)
+  offset += 32
+  key(stealthSeed).toBuffer().copy(data, offset)
+  offset += 32 + 33 + 33 + 32
+  data.writeUInt32LE(encrypted.length, offset)
+  offset += 4
+  encrypted.copy(data, offset)
+  offset += encrypted.length
+  data.writeBigInt64LE(timestamp, offset)
+  offset += 8
+  data[offset++] = claimed ? 1 : 0
+  data[offset++] = 0
+  data[offset] = 255
+  return data
+}
+
+function record(pubkeySeed: number, timestamp: bigint, claimed = false) {
+  return parseTransferRecord(key(pubkeySeed), encodeRecord(pubkeySeed + 10, timestamp, claimed))!
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body } as Response
+}
+
+const connection = {} as Connection
+
+describe("createTransferRecordSource", () => {
+  afterEach(() => {
+    resetFixtureTransferRecordSource()
+  })
+
+  it("defaults to the RPC source", () => {
+    expect(createTransferRecordSource({ type: "rpc" }, connection).type).toBe("rpc")
+  })
+
+  it("creates an indexer source when a URL is configured", () => {
+    const source = createTransferRecordSource(
+      { type: "indexer", indexerUrl: "https://indexer.example.com" },
+      connection
+    )
+    expect(source).toBeInstanceOf(IndexerTransferRecordSource)
+  })
+
+  it("falls back to RPC when the indexer has no URL", () => {
+    expect(createTransferRecordSource({ type: "indexer" }, connection).type).toBe("rpc")
+  })
+
+  it("shares one fixture instance", () => {
+    const source = createTransferRecordSource({ type: "fixture" }, connection)
+    expect(source).toBe(getFixtureTransferRecordSource())
+  })
+
+  it("exposes source info", () => {
+    expect(getTransferRecordSourceInfo("fixture")?.devOnly).toBe(true)
+    expect(getTransferRecordSourceInfo("rpc")?.devOnly).toBe(false)
+  })
+})
+
+describe("FixtureTransferRecordSource", () => {
+  it("has no cursor until a record is added", async () => {
+    const source = new FixtureTransferRecordSource()
+    expect(await source.fetchLatestCursor()).toBeNull()
+    expect(await source.fetchAll()).toEqual([])
+  })
+
+  it("serves records newest first", async () => {
+    const source = new FixtureTransferRecordSource([record(2, 100n), record(3, 300n), record(4, 200n)])
+
+    const records = await source.fetchAll()
+
+    expect(records.map((r) => r.timestamp)).toEqual([300n, 200n, 100n])
+  })
+
+  it("returns only activity after a cursor", async () => {
+    const source = new FixtureTransferRecordSource([record(2, 100n)])
+    const cursor = (await source.fetchLatestCursor())!
+    source.addRecord(record(3, 200n))
+
+    const page = await source.fetchSince(cursor)
+
+    expect(page.records.map((r) => r.pubkey.toBase58())).toEqual([key(3).toBase58()])
+    expect(page.cursor.slot).toBeGreaterThan(cursor.slot)
+  })
+
+  it("re-surfaces a record when it is replaced", async () => {
+    const source = new FixtureTransferRecordSource([record(2, 100n)])
+    const cursor = (await source.fetchLatestCursor())!
+    source.addRecord(record(2, 100n, true))
+
+    const page = await source.fetchSince(cursor)
+
+    expect(page.records).toHaveLength(1)
+    expect(page.records[0].claimed).toBe(true)
+    expect(await source.fetchAll()).toHaveLength(1)
+  })
+
+  it("keeps the cursor when nothing happened", async () => {
+    const source = new FixtureTransferRecordSource([record(2, 100n)])
+    const cursor = (await source.fetchLatestCursor())!
+
+    const page = await source.fetchSince(cursor)
+
+    expect(page.records).toHaveLength(0)
+    expect(page.cursor).toEqual(cursor)
+  })
+})
+
+describe("IndexerTransferRecordSource", () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal("fetch", fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function entry(pubkeySeed: number, timestamp: bigint, claimed = false) {
+    return {
+      pubkey: key(pubkeySeed).toBase58(),
+      data: encodeRecord(pubkeySeed + 10, timestamp, claimed).toString("base64"),
+    }
+  }
+
+  it("follows pages and parses account data", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({ records: [entry(2, 100n)], cursor: { signature: "s1", slot: 10 }, hasMore: true })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ records: [entry(3, 200n)], cursor: { signature: "s2", slot: 20 }, hasMore: false })
+      )
+    const source = new IndexerTransferRecordSource({
+      url: "https://indexer.example.com/",
+      apiKey: "secret",
+    })
+
+    const records = await source.fetchAll()
+
+    expect(records.map((r) => r.timestamp)).toEqual([200n, 100n])
+    const first = new URL(fetchMock.mock.calls[0][0] as string)
+    expect(first.origin + first.pathname).toBe("https://indexer.example.com/v1/transfer-records")
+    expect(first.searchParams.get("api-key")).toBe("secret")
+    expect(first.searchParams.get("after")).toBeNull()
+    const second = new URL(fetchMock.mock.calls[1][0] as string)
+    expect(second.searchParams.get("after")).toBe("s1")
+  })
+
+  it("fetches since a cursor and keeps the latest state of each record", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        records: [entry(2, 100n), entry(2, 100n, true)],
+        cursor: { signature: "s5", slot: 50 },
+        hasMore: false,
+      })
+    )
+    const source = new IndexerTransferRecordSource({ url: "https://indexer.example.com" })
+
+    const page = await source.fetchSince({ signature: "s4", slot: 40 })
+
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get("after")).toBe("s4")
+    expect(page.records).toHaveLength(1)
+    expect(page.records[0].claimed).toBe(true)
+    expect(page.cursor).toEqual({ signature: "s5", slot: 50 })
+  })
+
+  it("keeps the input cursor when the indexer has nothing new", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ records: [], cursor: null, hasMore: false }))
+    const source = new IndexerTransferRecordSource({ url: "https://indexer.example.com" })
+
+    const page = await source.fetchSince({ signature: "s4", slot: 40 })
+
+    expect(page.records).toHaveLength(0)
+    expect(page.cursor).toEqual({ signature: "s4", slot: 40 })
+  })
+
+  it("reads the latest cursor", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ cursor: { signature: "s9", slot: 90 } }))
+    const source = new IndexerTransferRecordSource({ url: "https://indexer.example.com" })
+
+    expect(await source.fetchLatestCursor()).toEqual({ signature: "s9", slot: 90 })
+    expect(fetchMock.mock.calls[0][0]).toContain("/v1/transfer-records/latest")
+  })
+
+  it("throws on HTTP errors", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503))
+    const source = new IndexerTransferRecordSource({ url: "https://indexer.example.com" })
+
+    await expect(source.fetchAll()).rejects.toThrow("Indexer request failed: 503")
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * Claim relayers — gasless claims with the fee taken out of the claimed funds
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { ed25519 } from "@noble/curves/ed25519"
+import {
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  type Connection,
+} from "@solana/web3.js"
+import {
+  buildClaimTransfer,
+  buildSplClaimTransfer,
+  signClaimWithStealth,
+} from "@/lib/anchor/client"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import { getAssociatedTokenAddress } from "@/lib/spl"
+import {
+  bytesToHex,
+  deriveStealthPrivateKey,
+  ed25519PublicKeyToSolanaAddress,
+  generateStealthAddress,
+} from "@/lib/stealth"
+import {
+  assertRelayerFeeWithinCap,
+  getMaxRelayerFee,
+  HttpClaimRelayer,
+  MAX_RELAYER_FEE_LAMPORTS,
+  MockClaimRelayer,
+} from "@/lib/relayers"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+const TOKEN_BALANCE = 10_000_000n
+const MINT = Keypair.generate().publicKey
+
+function tokenAccountData(amount: bigint): Buffer {
+  const data = Buffer.alloc(165)
+  data.writeBigUInt64LE(amount, 64)
+  return data
+}
+
+const connection = {
+  getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+  getMinimumBalanceForRentExemption: async () => 1_454_640,
+  getAccountInfo: async () => ({ data: tokenAccountData(TOKEN_BALANCE) }),
+} as unknown as Connection
+
+function randomKeyPair() {
+  const privateKey = ed25519.utils.randomPrivateKey()
+  return {
+    privateKey: `0x${bytesToHex(privateKey)}`,
+    publicKey: `0x${bytesToHex(ed25519.getPublicKey(privateKey))}`,
+  }
+}
+
+async function stealthAccount() {
+  const spending = randomKeyPair()
+  const viewing = randomKeyPair()
+  const { stealthAddress } = await generateStealthAddress({
+    spendingKey: spending.publicKey,
+    viewingKey: viewing.publicKey,
+    chain: "solana",
+  })
+  return {
+    address: new PublicKey(ed25519PublicKeyToSolanaAddress(stealthAddress.address)),
+    privateKey: deriveStealthPrivateKey(stealthAddress, spending.privateKey, viewing.privateKey),
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body } as Response
+}
+
+describe("relayed SOL claims", () => {
+  it("pays the relayer from the stealth account and lets it pay fees", async () => {
+    const relayer = new MockClaimRelayer({ solFee: 10_000n })
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate().publicKey
+    const quote = await relayer.getQuote({ network: "devnet", tokenMint: null })
+
+    const { transaction } = await buildClaimTransfer(connection, {
+      transferRecordPubkey: Keypair.generate().publicKey,
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient,
+      relayer: quote,
+    })
+
+    expect(transaction.feePayer?.equals(quote.feePayer)).toBe(true)
+    const fee = SystemInstruction.decodeTransfer(transaction.instructions[0])
+    expect(fee.fromPubkey.equals(stealth.address)).toBe(true)
+    expect(fee.toPubkey.equals(quote.feeRecipient)).toBe(true)
+    expect(Number(fee.lamports)).toBe(10_000)
+    // The recipient pays no fees, so the stealth account covers its nullifier rent
+    const rent = SystemInstruction.decodeTransfer(transaction.instructions[1])
+    expect(rent.toPubkey.equals(recipient)).toBe(true)
+    expect(transaction.instructions[2].programId.equals(SIP_PRIVACY_PROGRAM_ID)).toBe(true)
+  })
+
+  it("co-signs once every other signature is present", async () => {
+    const relayer = new MockClaimRelayer()
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate()
+    const quote = await relayer.getQuote({ network: "devnet", tokenMint: null })
+
+    const { transaction, stealthScalar, stealthPublicKey } = await buildClaimTransfer(connection, {
+      transferRecordPubkey: Keypair.generate().publicKey,
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient.publicKey,
+      relayer: quote,
+    })
+    await signClaimWithStealth(transaction, stealthScalar, stealthPublicKey)
+
+    await expect(relayer.relay(transaction, "devnet")).rejects.toThrow(
+      "Relayed transaction is missing signatures"
+    )
+
+    transaction.partialSign(recipient)
+    const signature = await relayer.relay(transaction, "devnet")
+
+    expect(signature).toBeTruthy()
+    expect(relayer.relayed).toEqual([transaction])
+  })
+
+  it("refuses transactions it does not pay for", async () => {
+    const relayer = new MockClaimRelayer()
+    const transaction = new Transaction()
+    transaction.feePayer = Keypair.generate().publicKey
+
+    await expect(relayer.relay(transaction, "devnet")).rejects.toThrow(
+      "Relayer is not the fee payer of this transaction"
+    )
+  })
+})
+
+describe("relayed SPL claims", () => {
+  it("deducts the fee in tokens and needs only the stealth signature", async () => {
+    const relayer = new MockClaimRelayer({ tokenFee: 50_000n })
+    const stealth = await stealthAccount()
+    const recipient = Keypair.generate().publicKey
+    const quote = await relayer.getQuote({ network: "devnet", tokenMint: MINT })
+
+    const { transaction, stealthScalar, stealthPublicKey } = await buildSplClaimTransfer(connection, {
+      stealthAddress: stealth.address,
+      stealthPrivateKey: stealth.privateKey,
+      recipientAddress: recipient,
+      tokenMint: MINT,
+      decimals: 6,
+      relayer: quote,
+    })
+
+    expect(transaction.feePayer?.equals(quote.feePayer)).toBe(true)
+    // Recipient ATA (paid by relayer), fee ATA, fee transfer, sweep, close
+    expect(transaction.instructions).toHaveLength(5)
+    expect(transaction.instructions[0].keys[0].pubkey.equals(quote.feePayer)).toBe(true)
+    const feeAta = getAssociatedTokenAddress(quote.feeRecipient, MINT)
+    expect(transaction.instructions[2].keys[2].pubkey.equals(feeAta)).toBe(true)
+    // transferChecked data: [12, amount u64, decimals]
+    expect(Buffer.from(transaction.instructions[2].data).readBigUInt64LE(1)).toBe(50_000n)
+    expect(Buffer.from(transaction.instructions[3].data).readBigUInt64LE(1)).toBe(
+      TOKEN_BALANCE - 50_000n
+    )
+    // Stealth ATA rent goes back to the relayer
+    expect(transaction.instructions[4].keys[1].pubkey.equals(quote.feePayer)).toBe(true)
+
+    await signClaimWithStealth(transaction, stealthScalar, stealthPublicKey)
+    await expect(relayer.relay(transaction, "devnet")).resolves.toBeTruthy()
+  })
+
+  it("rejects a fee the token balance cannot cover", async () => {
+    const relayer = new MockClaimRelayer({ tokenFee: TOKEN_BALANCE })
+    const stealth = await stealthAccount()
+
+    await expect(
+      buildSplClaimTransfer(connection, {
+        stealthAddress: stealth.address,
+        stealthPrivateKey: stealth.privateKey,
+        recipientAddress: Keypair.generate().publicKey,
+        tokenMint: MINT,
+        decimals: 6,
+        relayer: await relayer.getQuote({ network: "devnet", tokenMint: MINT }),
+      })
+    ).rejects.toThrow("Token balance does not cover the relayer fee")
+  })
+})
+
+describe("HttpClaimRelayer", () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal("fetch", fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reads a quote", async () => {
+    const feePayer = Keypair.generate().publicKey
+    const feeRecipient = Keypair.generate().publicKey
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ feePayer: feePayer.toBase58(), feeRecipient: feeRecipient.toBase58(), fee: "25000" })
+    )
+    const relayer = new HttpClaimRelayer({ url: "https://relayer.example.com/" })
+
+    const quote = await relayer.getQuote({ network: "devnet", tokenMint: MINT })
+
+    expect(quote.feePayer.equals(feePayer)).toBe(true)
+    expect(quote.feeRecipient.equals(feeRecipient)).toBe(true)
+    expect(quote.fee).toBe(25_000n)
+    const url = new URL(fetchMock.mock.calls[0][0] as string)
+    expect(url.origin + url.pathname).toBe("https://relayer.example.com/v1/quote")
+    expect(url.searchParams.get("mint")).toBe(MINT.toBase58())
+    expect(url.searchParams.get("network")).toBe("devnet")
+  })
+
+  it("posts the partially signed transaction", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ signature: "sig123" }))
+    const relayer = new HttpClaimRelayer({ url: "https://relayer.example.com" })
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: Keypair.generate().publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      })
+    )
+    transaction.recentBlockhash = BLOCKHASH
+    transaction.feePayer = Keypair.generate().publicKey
+
+    expect(await relayer.relay(transaction, "devnet")).toBe("sig123")
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe("https://relayer.example.com/v1/relay")
+    const body = JSON.parse((init as RequestInit).body as string)
+    expect(body.network).toBe("devnet")
+    expect(Transaction.from(Buffer.from(body.transaction, "base64")).feePayer?.equals(transaction.feePayer)).toBe(true)
+  })
+
+  it("throws on HTTP errors", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503))
+    const relayer = new HttpClaimRelayer({ url: "https://relayer.example.com" })
+
+    await expect(relayer.getQuote({ network: "devnet", tokenMint: null })).rejects.toThrow(
+      "Relayer quote failed: 503"
+    )
+  })
+})
+
+describe("relayer fee cap", () => {
+  const quote = (fee: bigint) => ({
+    feePayer: Keypair.generate().publicKey,
+    feeRecipient: Keypair.generate().publicKey,
+    fee,
+  })
+
+  it("caps SOL fees at a share of the claim and an absolute amount", () => {
+    expect(getMaxRelayerFee(100_000_000n, null)).toBe(5_000_000n)
+    expect(getMaxRelayerFee(10_000_000_000n, null)).toBe(MAX_RELAYER_FEE_LAMPORTS)
+  })
+
+  it("caps token fees at a share of the claim", () => {
+    expect(getMaxRelayerFee(TOKEN_BALANCE, MINT)).toBe(500_000n)
+  })
+
+  it("accepts a quote within the cap", () => {
+    expect(() => assertRelayerFeeWithinCap(quote(5_000_000n), 100_000_000n, null)).not.toThrow()
+  })
+
+  it("rejects quotes over the cap", () => {
+    expect(() => assertRelayerFeeWithinCap(quote(5_000_001n), 100_000_000n, null)).toThrow(
+      "Relayer fee is above the limit for this claim (5% of the amount, at most 0.01 SOL)"
+    )
+    expect(() =>
+      assertRelayerFeeWithinCap(quote(MAX_RELAYER_FEE_LAMPORTS + 1n), 10_000_000_000n, null)
+    ).toThrow("Relayer fee is above the limit")
+    expect(() => assertRelayerFeeWithinCap(quote(500_001n), TOKEN_BALANCE, MINT)).toThrow(
+      "(5% of the amount)"
+    )
+  })
+})
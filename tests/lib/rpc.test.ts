@@ -0,0 +1,355 @@
+/**
+ * RPC Endpoint Pool Tests
+ *
+ * Endpoint ordering, failover on 429/5xx/timeouts, health scoring, the
+ * per-config client registry and custom RPC profiles.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+vi.mock("@/lib/config", () => ({
+  getRpcApiKey: vi.fn().mockReturnValue(null),
+}))
+
+vi.mock("@/utils/logger", () => ({
+  logger: { warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}))
+
+import {
+  buildRpcEndpoints,
+  getRpcClient,
+  parseRpcHeaders,
+  redactRpcUrl,
+  resetRpcClient,
+  RpcEndpointPool,
+  testRpcProfile,
+  validateRpcProfile,
+  type RpcEndpoint,
+} from "@/lib/rpc"
+import { getRpcConfigFromSettings } from "@/lib/connection"
+import { getRpcApiKey } from "@/lib/config"
+
+const A: RpcEndpoint = { id: "helius", url: "https://a.example/?api-key=secret" }
+const B: RpcEndpoint = { id: "publicnode", url: "https://b.example" }
+const C: RpcEndpoint = { id: "solana", url: "https://c.example" }
+
+const RPC_BODY = { method: "POST", body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getSlot" }) }
+
+function reply(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: 1 }), { status, headers })
+}
+
+/**
+ * Fetch mock answering per endpoint URL
+ */
+function fetchByUrl(answers: Record<string, () => Promise<Response>>) {
+  return vi.fn((input: RequestInfo | URL) => answers[String(input)]())
+}
+
+describe("buildRpcEndpoints", () => {
+  it("should end with PublicNode and the Solana public RPC", () => {
+    const endpoints = buildRpcEndpoints({ provider: "publicnode", cluster: "mainnet-beta" })
+    expect(endpoints.map((e) => e.id)).toEqual(["publicnode", "solana"])
+  })
+
+  it("should put the preferred provider first and other providers as failovers", () => {
+    const endpoints = buildRpcEndpoints({
+      provider: "quicknode",
+      cluster: "mainnet-beta",
+      apiKey: "qn-key",
+      failover: { heliusApiKey: "helius-key", quicknodeApiKey: "qn-key" },
+    })
+    expect(endpoints.map((e) => e.id)).toEqual(["quicknode", "helius", "publicnode", "solana"])
+    expect(endpoints[0].url).toBe("https://solana-mainnet.quiknode.pro/qn-key")
+  })
+
+  it("should try a custom endpoint before every provider", () => {
+    const endpoints = buildRpcEndpoints({
+      provider: "triton",
+      cluster: "mainnet-beta",
+      customEndpoint: "https://triton.example",
+    })
+    expect(endpoints[0]).toEqual({ id: "triton", url: "https://triton.example" })
+  })
+
+  it("should use a profile on its own", () => {
+    const endpoints = buildRpcEndpoints({
+      provider: "helius",
+      cluster: "devnet",
+      apiKey: "helius-key",
+      profile: { httpUrl: "http://10.0.0.5:8899" },
+    })
+    expect(endpoints).toEqual([{ id: "profile", url: "http://10.0.0.5:8899" }])
+  })
+
+  it("should only use the local validator on localnet", () => {
+    const endpoints = buildRpcEndpoints({
+      provider: "helius",
+      cluster: "localnet",
+      apiKey: "helius-key",
+      failover: { quicknodeApiKey: "qn-key" },
+    })
+    expect(endpoints).toEqual([{ id: "localnet", url: "http://127.0.0.1:8899" }])
+  })
+
+  it("should drop providers without a key and duplicate URLs", () => {
+    const endpoints = buildRpcEndpoints({ provider: "helius", cluster: "devnet" })
+    expect(endpoints).toEqual([{ id: "publicnode", url: "https://api.devnet.solana.com" }])
+  })
+})
+
+describe("RpcEndpointPool", () => {
+  it("should fail over on 429 and 5xx", async () => {
+    const fetch = fetchByUrl({
+      [A.url]: async () => reply(429),
+      [B.url]: async () => reply(503),
+      [C.url]: async () => reply(200),
+    })
+    const pool = new RpcEndpointPool([A, B, C], { fetch })
+
+    const response = await pool.fetch(A.url, RPC_BODY)
+
+    expect(response.status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    const [a, b, c] = pool.getHealth()
+    expect(a.failures).toBe(1)
+    expect(a.lastError).toBe("HTTP 429")
+    expect(b.failures).toBe(1)
+    expect(c.failures).toBe(0)
+    expect(c.latencyMs).not.toBeNull()
+  })
+
+  it("should fail over on network errors and timeouts", async () => {
+    const fetch = fetchByUrl({
+      [A.url]: async () => {
+        throw new TypeError("Network request failed")
+      },
+      [B.url]: () => new Promise<Response>(() => {}),
+      [C.url]: async () => reply(200),
+    })
+    const pool = new RpcEndpointPool([A, B, C], { fetch, timeoutMs: 10 })
+
+    const response = await pool.fetch(A.url, RPC_BODY)
+
+    expect(response.status).toBe(200)
+    const [a, b] = pool.getHealth()
+    expect(a.lastError).toBe("Network request failed")
+    expect(b.lastError).toBe("Timed out after 10ms")
+  })
+
+  it("should return the last failing response when every endpoint fails", async () => {
+    const fetch = fetchByUrl({
+      [A.url]: async () => reply(429),
+      [B.url]: async () => reply(502),
+    })
+    const pool = new RpcEndpointPool([A, B], { fetch })
+
+    const response = await pool.fetch(A.url, RPC_BODY)
+    expect(response.status).toBe(502)
+  })
+
+  it("should not fail over on client errors that are the request's fault", async () => {
+    const fetch = fetchByUrl({
+      [A.url]: async () => reply(400),
+      [B.url]: async () => reply(200),
+    })
+    const pool = new RpcEndpointPool([A, B], { fetch })
+
+    const response = await pool.fetch(A.url, RPC_BODY)
+    expect(response.status).toBe(400)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("should skip a failed endpoint until its cooldown ends", () => {
+    let now = 1_000_000
+    const pool = new RpcEndpointPool([A, B, C], { fetch: vi.fn(), now: () => now })
+
+    pool.recordFailure(A.url, "HTTP 429", 30_000)
+    expect(pool.rank().map((h) => h.id)).toEqual(["publicnode", "solana", "helius"])
+
+    // Back in rotation, still penalised for its error rate
+    now += 30_001
+    expect(pool.rank().map((h) => h.id)).toEqual(["publicnode", "helius", "solana"])
+  })
+
+  it("should rank by latency and error rate, then configured order", () => {
+    const pool = new RpcEndpointPool([A, B, C], { fetch: vi.fn() })
+    expect(pool.rank().map((h) => h.id)).toEqual(["helius", "publicnode", "solana"])
+
+    pool.recordSuccess(A.url, 2_000)
+    pool.recordSuccess(B.url, 80)
+    pool.recordSuccess(C.url, 80)
+    expect(pool.rank().map((h) => h.id)).toEqual(["publicnode", "solana", "helius"])
+  })
+
+  it("should reset the cooldown after a success", () => {
+    const pool = new RpcEndpointPool([A, B], { fetch: vi.fn() })
+    pool.recordFailure(A.url, "HTTP 503")
+    pool.recordSuccess(A.url, 100)
+
+    const [a] = pool.getHealth()
+    expect(a.consecutiveFailures).toBe(0)
+    expect(a.cooldownUntil).toBe(0)
+    expect(a.errorRate).toBeGreaterThan(0)
+  })
+})
+
+describe("RPC client registry", () => {
+  beforeEach(() => {
+    resetRpcClient()
+  })
+
+  it("should reuse the client of an identical config", () => {
+    const config = { provider: "publicnode" as const, cluster: "devnet" as const }
+    const client = getRpcClient(config)
+
+    expect(getRpcClient({ ...config })).toBe(client)
+    expect(getRpcClient()).toBe(client)
+    expect(getRpcClient({ ...config, cluster: "mainnet-beta" })).not.toBe(client)
+  })
+
+  it("should share one connection per client", () => {
+    const client = getRpcClient({ provider: "publicnode", cluster: "devnet" })
+    expect(client.getConnection()).toBe(client.getConnection())
+    expect(client.getActiveEndpoint().id).toBe("publicnode")
+  })
+})
+
+describe("getRpcConfigFromSettings", () => {
+  it("should add every configured provider as a failover", () => {
+    vi.mocked(getRpcApiKey).mockReturnValueOnce("build-key")
+
+    const config = getRpcConfigFromSettings({
+      network: "mainnet-beta",
+      rpcProvider: "triton",
+      heliusApiKey: null,
+      quicknodeApiKey: "qn-key",
+      tritonEndpoint: "https://triton.example",
+    })
+
+    expect(config.customEndpoint).toBe("https://triton.example")
+    expect(buildRpcEndpoints(config).map((e) => e.id)).toEqual([
+      "triton",
+      "helius",
+      "quicknode",
+      "publicnode",
+      "solana",
+    ])
+  })
+})
+
+describe("RPC profiles", () => {
+  const profile = {
+    name: "Team node",
+    network: "devnet" as const,
+    httpUrl: "http://10.0.0.5:8899",
+    headers: { "x-token": "secret" },
+  }
+  const settings = {
+    network: "devnet" as const,
+    rpcProvider: "publicnode" as const,
+    heliusApiKey: null,
+    quicknodeApiKey: null,
+    tritonEndpoint: null,
+    rpcProfiles: [{ ...profile, id: "rpc_1", createdAt: 0 }],
+    activeRpcProfileIds: { devnet: "rpc_1" },
+  }
+
+  it("should use the profile assigned to the settings' network", () => {
+    expect(getRpcConfigFromSettings(settings).profile).toEqual({
+      httpUrl: "http://10.0.0.5:8899",
+      wsUrl: undefined,
+      headers: { "x-token": "secret" },
+    })
+    expect(getRpcConfigFromSettings({ ...settings, network: "mainnet-beta" }).profile).toBeUndefined()
+  })
+
+  it("should validate names, URLs and header names", () => {
+    expect(validateRpcProfile(profile)).toBeNull()
+    expect(validateRpcProfile({ ...profile, name: " " })).toBe("Name is required")
+    expect(validateRpcProfile({ ...profile, httpUrl: "ws://10.0.0.5:8900" })).toMatch(/HTTP URL/)
+    expect(validateRpcProfile({ ...profile, wsUrl: "https://x" })).toMatch(/WebSocket URL/)
+    expect(validateRpcProfile({ ...profile, headers: { "bad name": "x" } })).toMatch(/header name/)
+  })
+
+  it("should parse header lines", () => {
+    expect(parseRpcHeaders("Authorization: Bearer a:b\n\n x-team : sip ")).toEqual({
+      Authorization: "Bearer a:b",
+      "x-team": "sip",
+    })
+    expect(parseRpcHeaders("no separator")).toBeNull()
+  })
+
+  it("should report health, version and slot lag", async () => {
+    const answers: Record<string, unknown> = { getVersion: { "solana-core": "2.1.0" }, getHealth: "ok" }
+    const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const { method } = JSON.parse(String(init?.body))
+      const result =
+        method === "getSlot" ? (String(input) === profile.httpUrl ? 900 : 1000) : answers[method]
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result }))
+    })
+
+    const result = await testRpcProfile(profile, { fetch })
+
+    expect(result).toMatchObject({
+      ok: true,
+      healthy: true,
+      version: "2.1.0",
+      slot: 900,
+      referenceSlot: 1000,
+      slotLag: 100,
+      error: null,
+    })
+    const [, init] = fetch.mock.calls[0]
+    expect((init?.headers as Record<string, string>)["x-token"]).toBe("secret")
+  })
+
+  it("should report an unhealthy node without failing the test", async () => {
+    const fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const { method } = JSON.parse(String(init?.body))
+      const body =
+        method === "getHealth"
+          ? { error: { code: -32005, message: "Node is behind by 42 slots" } }
+          : { result: method === "getVersion" ? { "solana-core": "2.1.0" } : 1 }
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, ...body }))
+    })
+
+    const result = await testRpcProfile(profile, { fetch })
+    expect(result.ok).toBe(false)
+    expect(result.healthMessage).toBe("Node is behind by 42 slots")
+    expect(result.error).toBeNull()
+  })
+
+  it("should skip the slot lag on localnet", async () => {
+    const fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const { method } = JSON.parse(String(init?.body))
+      const result = { getVersion: { "solana-core": "2.1.0" }, getHealth: "ok", getSlot: 12 }[
+        method as string
+      ]
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result }))
+    })
+
+    const result = await testRpcProfile({ ...profile, network: "localnet" }, { fetch })
+    expect(result.ok).toBe(true)
+    expect(result.slotLag).toBeNull()
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it("should report an unreachable node", async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError("Network request failed")
+    })
+    const result = await testRpcProfile(profile, { fetch })
+    expect(result.ok).toBe(false)
+    expect(result.error).toBe("Network request failed")
+  })
+})
+
+describe("redactRpcUrl", () => {
+  it("should drop API keys from logged URLs", () => {
+    expect(redactRpcUrl(A.url)).toBe("https://a.example")
+    expect(redactRpcUrl("https://solana-mainnet.quiknode.pro/qn-key")).toBe(
+      "https://solana-mainnet.quiknode.pro"
+    )
+  })
+})
@@ -0,0 +1,288 @@
+/**
+ * Transaction simulation preview
+ *
+ * Transactions were signed without a dry run, so a paused program or a
+ * missing rent deposit only surfaced after the fee was spent. The preview
+ * simulates first and summarizes what the wallet sends, receives and pays.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  type Connection,
+} from "@solana/web3.js"
+import { Buffer } from "buffer"
+import {
+  combinePreviews,
+  describeTransactionError,
+  formatBaseUnits,
+  previewTransaction,
+} from "@/lib/simulation"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import { TOKEN_PROGRAM_ID } from "@/lib/spl"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+
+interface MockAccount {
+  lamports: number
+  owner: PublicKey
+  data: Buffer
+}
+
+function tokenAccountData(mint: PublicKey, owner: PublicKey, amount: bigint): Buffer {
+  const data = Buffer.alloc(165)
+  mint.toBuffer().copy(data, 0)
+  owner.toBuffer().copy(data, 32)
+  data.writeBigUInt64LE(amount, 64)
+  return data
+}
+
+function mintData(decimals: number): Buffer {
+  const data = Buffer.alloc(82)
+  data[44] = decimals
+  return data
+}
+
+/**
+ * Connection whose accounts go from `pre` to `post` when simulated
+ */
+function mockConnection(options: {
+  pre: Map<string, MockAccount>
+  post: Map<string, MockAccount>
+  mints?: Map<string, Buffer>
+  err?: unknown
+  logs?: string[]
+  fee?: number
+}) {
+  return {
+    getMultipleAccountsInfo: vi.fn(async (keys: PublicKey[]) =>
+      keys.map((k) => {
+        const mint = options.mints?.get(k.toBase58())
+        if (mint) return { lamports: 1, owner: TOKEN_PROGRAM_ID, data: mint, executable: false }
+        const account = options.pre.get(k.toBase58())
+        return account ? { ...account, executable: false } : null
+      })
+    ),
+    simulateTransaction: vi.fn(async (_tx: unknown, config: { accounts: { addresses: string[] } }) => ({
+      context: { slot: 1 },
+      value: {
+        err: options.err ?? null,
+        logs: options.logs ?? [],
+        unitsConsumed: 1_000,
+        accounts: config.accounts.addresses.map((address) => {
+          const account = options.post.get(address)
+          return account
+            ? {
+                lamports: account.lamports,
+                owner: account.owner.toBase58(),
+                data: [account.data.toString("base64"), "base64"],
+                executable: false,
+              }
+            : null
+        }),
+      },
+    })),
+    getFeeForMessage: vi.fn().mockResolvedValue({ context: { slot: 1 }, value: options.fee ?? 5000 }),
+  } as unknown as Connection
+}
+
+function buildTransaction(feePayer: PublicKey, ...instructions: TransactionInstruction[]): Transaction {
+  const transaction = new Transaction().add(...instructions)
+  transaction.recentBlockhash = BLOCKHASH
+  transaction.feePayer = feePayer
+  return transaction
+}
+
+const systemAccount = (lamports: number): MockAccount => ({
+  lamports,
+  owner: SystemProgram.programId,
+  data: Buffer.alloc(0),
+})
+
+describe("previewTransaction", () => {
+  it("summarizes a SOL send with its fee", async () => {
+    const wallet = Keypair.generate().publicKey
+    const recipient = Keypair.generate().publicKey
+    const connection = mockConnection({
+      pre: new Map([[wallet.toBase58(), systemAccount(10_000_000)]]),
+      post: new Map([
+        // Simulated balances already have the fee deducted
+        [wallet.toBase58(), systemAccount(10_000_000 - 1_000_000 - 5000)],
+        [recipient.toBase58(), systemAccount(1_000_000)],
+      ]),
+    })
+    const tx = buildTransaction(
+      wallet,
+      SystemProgram.transfer({ fromPubkey: wallet, toPubkey: recipient, lamports: 1_000_000 })
+    )
+
+    const preview = await previewTransaction(connection, tx, wallet)
+
+    expect(preview.success).toBe(true)
+    expect(preview.feeLamports).toBe(5000)
+    expect(preview.rentLamports).toBe(0)
+    expect(preview.ownerPaysFees).toBe(true)
+    expect(preview.send).toEqual([{ mint: null, amount: 1_000_000n, decimals: 9 }])
+    expect(preview.receive).toEqual([])
+  })
+
+  it("counts created accounts as rent and decodes token changes", async () => {
+    const wallet = Keypair.generate().publicKey
+    const mint = Keypair.generate().publicKey
+    const walletAta = Keypair.generate().publicKey
+    const recipientAta = Keypair.generate().publicKey
+    const recipient = Keypair.generate().publicKey
+    const rent = 2_039_280
+
+    const connection = mockConnection({
+      pre: new Map([
+        [wallet.toBase58(), systemAccount(50_000_000)],
+        [walletAta.toBase58(), { lamports: rent, owner: TOKEN_PROGRAM_ID, data: tokenAccountData(mint, wallet, 5_000_000n) }],
+      ]),
+      post: new Map([
+        [wallet.toBase58(), systemAccount(50_000_000 - rent - 5000)],
+        [walletAta.toBase58(), { lamports: rent, owner: TOKEN_PROGRAM_ID, data: tokenAccountData(mint, wallet, 3_500_000n) }],
+        [recipientAta.toBase58(), { lamports: rent, owner: TOKEN_PROGRAM_ID, data: tokenAccountData(mint, recipient, 1_500_000n) }],
+      ]),
+      mints: new Map([[mint.toBase58(), mintData(6)]]),
+    })
+    const tx = buildTransaction(
+      wallet,
+      new TransactionInstruction({
+        programId: TOKEN_PROGRAM_ID,
+        keys: [
+          { pubkey: walletAta, isSigner: false, isWritable: true },
+          { pubkey: recipientAta, isSigner: false, isWritable: true },
+          { pubkey: wallet, isSigner: true, isWritable: true },
+        ],
+        data: Buffer.alloc(1),
+      })
+    )
+
+    const preview = await previewTransaction(connection, tx, wallet)
+
+    expect(preview.rentLamports).toBe(rent)
+    expect(preview.send).toEqual([{ mint: mint.toBase58(), amount: 1_500_000n, decimals: 6 }])
+    const created = preview.changes.find((c) => c.address === recipientAta.toBase58() && c.mint)
+    expect(created).toMatchObject({ owner: recipient.toBase58(), created: true, after: 1_500_000n })
+  })
+
+  it("shows what the owner receives when someone else pays the fee", async () => {
+    const stealth = Keypair.generate().publicKey
+    const wallet = Keypair.generate().publicKey
+    const connection = mockConnection({
+      pre: new Map([
+        [stealth.toBase58(), systemAccount(2_000_000)],
+        [wallet.toBase58(), systemAccount(1_000_000)],
+      ]),
+      post: new Map([
+        [stealth.toBase58(), systemAccount(0)],
+        [wallet.toBase58(), systemAccount(2_995_000)],
+      ]),
+    })
+    const tx = buildTransaction(
+      stealth,
+      SystemProgram.transfer({ fromPubkey: stealth, toPubkey: wallet, lamports: 1_995_000 })
+    )
+
+    const preview = await previewTransaction(connection, tx, wallet)
+
+    expect(preview.ownerPaysFees).toBe(false)
+    expect(preview.receive).toEqual([{ mint: null, amount: 1_995_000n, decimals: 9 }])
+  })
+
+  it("explains sip_privacy errors from the IDL", async () => {
+    const wallet = Keypair.generate().publicKey
+    const connection = mockConnection({
+      pre: new Map(),
+      post: new Map(),
+      err: { InstructionError: [1, { Custom: 6000 }] },
+    })
+    const tx = buildTransaction(
+      wallet,
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 10_000 }),
+      new TransactionInstruction({
+        programId: SIP_PRIVACY_PROGRAM_ID,
+        keys: [{ pubkey: wallet, isSigner: true, isWritable: true }],
+        data: Buffer.alloc(8),
+      })
+    )
+
+    const preview = await previewTransaction(connection, tx, wallet)
+
+    expect(preview.success).toBe(false)
+    expect(preview.error).toBe("SIP Privacy transfers are paused right now. Try again later.")
+    expect(preview.send).toEqual([])
+  })
+})
+
+describe("describeTransactionError", () => {
+  const programIds = [SystemProgram.programId, TOKEN_PROGRAM_ID, SIP_PRIVACY_PROGRAM_ID]
+
+  it("explains top-level errors", () => {
+    expect(describeTransactionError("InsufficientFundsForFee", programIds)).toBe(
+      "Not enough SOL to pay the network fee."
+    )
+    expect(describeTransactionError({ InsufficientFundsForRent: { account_index: 1 } }, programIds)).toContain(
+      "rent-exempt minimum"
+    )
+  })
+
+  it("maps custom errors per program", () => {
+    expect(describeTransactionError({ InstructionError: [0, { Custom: 1 }] }, programIds)).toBe(
+      "Not enough SOL for this transfer and its fees."
+    )
+    expect(describeTransactionError({ InstructionError: [1, { Custom: 1 }] }, programIds)).toBe(
+      "Not enough tokens for this transfer."
+    )
+    expect(describeTransactionError({ InstructionError: [2, { Custom: 6008 }] }, programIds)).toBe(
+      "This payment has already been claimed."
+    )
+    expect(describeTransactionError({ InstructionError: [2, { Custom: 3012 }] }, programIds)).toBe(
+      "SIP Privacy isn't initialized on this network."
+    )
+  })
+
+  it("maps Jupiter slippage failures", () => {
+    const jupiter = new PublicKey("JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4")
+    expect(describeTransactionError({ InstructionError: [0, { Custom: 6001 }] }, [jupiter])).toContain(
+      "slippage tolerance"
+    )
+  })
+})
+
+describe("combinePreviews", () => {
+  it("nets amounts and sums fees", () => {
+    const base = {
+      success: true,
+      error: null,
+      logs: [],
+      unitsConsumed: 100,
+      rentLamports: 0,
+      ownerPaysFees: true,
+      changes: [],
+      send: [],
+    }
+    const combined = combinePreviews([
+      { ...base, feeLamports: 5000, receive: [{ mint: null, amount: 1_000n, decimals: 9 }] },
+      { ...base, feeLamports: 6000, receive: [{ mint: null, amount: 2_000n, decimals: 9 }] },
+    ])
+
+    expect(combined.success).toBe(true)
+    expect(combined.feeLamports).toBe(11_000)
+    expect(combined.receive).toEqual([{ mint: null, amount: 3_000n, decimals: 9 }])
+  })
+})
+
+describe("formatBaseUnits", () => {
+  it("formats base units with trimmed decimals", () => {
+    expect(formatBaseUnits(1_500_000_000n, 9)).toBe("1.5")
+    expect(formatBaseUnits(5000n, 9)).toBe("0.000005")
+    expect(formatBaseUnits(42n, 0)).toBe("42")
+  })
+})
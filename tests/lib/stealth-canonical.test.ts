@@ -27,7 +27,11 @@ import {
   generateStealthAddress,
   checkStealthAddress,
   checkStealthOwnership,
+  computeViewTag,
+  decodeEphemeralPubkey,
   deriveStealthPrivateKey,
+  encodeEphemeralPubkey,
+  LEGACY_EPHEMERAL_PREFIX,
   bytesToHex,
   hexToBytes,
   type StealthMetaAddress,
@@ -181,7 +185,7 @@ describe("checkStealthAddress: optional view tag", () => {
   const meta = metaFor(SPENDING_SEED, VIEWING_SEED)
   const viewingPrivateKey = `0x${bytesToHex(VIEWING_SEED)}`
 
-  it("detects when the view tag is omitted (on-chain records don't store one)", async () => {
+  it("detects when the view tag is omitted (legacy records don't store one)", async () => {
     const { stealthAddress } = await generateStealthAddress(meta)
     // Drop the view tag — checkStealthAddress must skip the fast-reject and still match.
     const { viewTag: _omit, ...noTag } = stealthAddress
@@ -195,6 +199,38 @@ describe("checkStealthAddress: optional view tag", () => {
   })
 })
 
+describe("on-chain view tag (ephemeral key prefix)", () => {
+  const meta = metaFor(SPENDING_SEED, VIEWING_SEED)
+
+  it("computes the same tag as generateStealthAddress from the sender's side", async () => {
+    const { stealthAddress, ephemeralPrivateKey } = await generateStealthAddress(meta)
+    expect(computeViewTag(hexToBytes(ephemeralPrivateKey), hexToBytes(meta.viewingKey))).toBe(
+      stealthAddress.viewTag
+    )
+  })
+
+  it("round-trips R and the tag through the 33-byte encoding", async () => {
+    const { stealthAddress } = await generateStealthAddress(meta)
+    const r = hexToBytes(stealthAddress.ephemeralPublicKey)
+    const tag = stealthAddress.viewTag === LEGACY_EPHEMERAL_PREFIX ? 0x03 : stealthAddress.viewTag!
+
+    const encoded = encodeEphemeralPubkey(r, tag)
+    expect(encoded).toHaveLength(33)
+    expect(encoded[0]).toBe(tag)
+
+    const decoded = decodeEphemeralPubkey(encoded)
+    expect(bytesToHex(decoded.publicKey)).toBe(bytesToHex(r))
+    expect(decoded.viewTag).toBe(tag)
+  })
+
+  it("treats the legacy 0x02 prefix as no tag", () => {
+    const r = ed25519.getPublicKey(new Uint8Array(32).fill(0x77))
+    expect(encodeEphemeralPubkey(r)[0]).toBe(LEGACY_EPHEMERAL_PREFIX)
+    // A real tag of 0x02 is indistinguishable from legacy: the scanner does the full check
+    expect(decodeEphemeralPubkey(encodeEphemeralPubkey(r, 0x02)).viewTag).toBeUndefined()
+  })
+})
+
 describe("checkStealthOwnership (view-only detection from raw record parts)", () => {
   const meta = metaFor(SPENDING_SEED, VIEWING_SEED)
   const viewingPrivateKey = `0x${bytesToHex(VIEWING_SEED)}`
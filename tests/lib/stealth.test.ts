@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect } from "vitest"
+import { ed25519 } from "@noble/curves/ed25519"
 import {
   bytesToHex,
   hexToBytes,
@@ -13,6 +14,8 @@ import {
   ed25519PublicKeyToSolanaAddress,
   solanaAddressToEd25519PublicKey,
   isValidSolanaAddress,
+  getStealthDerivationPath,
+  deriveStealthKeysFromMnemonic,
 } from "@/lib/stealth"
 
 describe("Stealth Library", () => {
@@ -331,3 +334,55 @@ describe("Stealth Backup Encryption", () => {
     })
   })
 })
+
+describe("Deterministic Stealth Keys", () => {
+  const testSeed = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+
+  describe("getStealthDerivationPath", () => {
+    it("should build hardened SIP paths", () => {
+      expect(getStealthDerivationPath(0, "spending")).toBe("m/5564'/501'/0'/0'")
+      expect(getStealthDerivationPath(3, "viewing")).toBe("m/5564'/501'/3'/1'")
+    })
+
+    it("should reject invalid indexes", () => {
+      expect(() => getStealthDerivationPath(-1, "spending")).toThrow("Invalid stealth key index")
+      expect(() => getStealthDerivationPath(1.5, "spending")).toThrow("Invalid stealth key index")
+      expect(() => getStealthDerivationPath(0x80000000, "spending")).toThrow("Invalid stealth key index")
+    })
+  })
+
+  describe("deriveStealthKeysFromMnemonic", () => {
+    it("should be deterministic", () => {
+      expect(deriveStealthKeysFromMnemonic(testSeed, 0)).toEqual(
+        deriveStealthKeysFromMnemonic(testSeed, 0)
+      )
+    })
+
+    it("should derive distinct spending and viewing keys", () => {
+      const keys = deriveStealthKeysFromMnemonic(testSeed, 0)
+      expect(keys.spendingPrivateKey).toMatch(/^0x[0-9a-f]{64}$/)
+      expect(keys.viewingPublicKey).toMatch(/^0x[0-9a-f]{64}$/)
+      expect(keys.spendingPrivateKey).not.toBe(keys.viewingPrivateKey)
+      expect(keys.spendingPublicKey).not.toBe(keys.viewingPublicKey)
+    })
+
+    it("should differ per index and per seed", () => {
+      const first = deriveStealthKeysFromMnemonic(testSeed, 0)
+      expect(deriveStealthKeysFromMnemonic(testSeed, 1).spendingPublicKey).not.toBe(
+        first.spendingPublicKey
+      )
+      expect(
+        deriveStealthKeysFromMnemonic("legal winner thank year wave sausage worth useful legal winner thank yellow", 0)
+          .spendingPublicKey
+      ).not.toBe(first.spendingPublicKey)
+    })
+
+    it("should match the public keys to the private keys", () => {
+      const keys = deriveStealthKeysFromMnemonic(testSeed, 2)
+      const spendingPublicKey = bytesToHex(
+        ed25519.getPublicKey(hexToBytes(keys.spendingPrivateKey))
+      )
+      expect(keys.spendingPublicKey).toBe(`0x${spendingPublicKey}`)
+    })
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Claim Recovery Tests
+ *
+ * Deterministic stealth claim destinations and following them back from a
+ * claimed payment with only the seed-derived keys.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import { PublicKey, type Connection } from "@solana/web3.js"
+import {
+  deriveClaimDestination,
+  recoverClaimDestinations,
+  MAX_CLAIM_CHAIN,
+} from "@/services/claimRecovery"
+import { checkStealthAddress, deriveStealthKeysFromMnemonic } from "@/lib/stealth"
+import { getAssociatedTokenAddress } from "@/lib/spl"
+
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+const KEYS = deriveStealthKeysFromMnemonic(MNEMONIC, 0)
+const SOURCE = "FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr"
+const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v")
+
+/** Connection where `used` addresses have history and `balances` hold funds */
+function mockConnection(used: Set<string>, balances: Map<string, number> = new Map()) {
+  return {
+    getSignaturesForAddress: vi.fn(async (address: PublicKey) =>
+      used.has(address.toBase58()) ? [{ signature: "sig" }] : []
+    ),
+    getBalance: vi.fn(async (address: PublicKey) => balances.get(address.toBase58()) ?? 0),
+    getAccountInfo: vi.fn(async (address: PublicKey) => {
+      const amount = balances.get(address.toBase58())
+      if (amount === undefined) return null
+      const data = Buffer.alloc(165)
+      data.writeBigUInt64LE(BigInt(amount), 64)
+      return { data }
+    }),
+  } as unknown as Connection
+}
+
+/** Destinations claimed one after another from `source` */
+async function chain(source: string, length: number): Promise<string[]> {
+  const addresses: string[] = []
+  for (let i = 0; i < length; i++) {
+    const { address } = await deriveClaimDestination(KEYS, addresses[i - 1] ?? source)
+    addresses.push(address)
+  }
+  return addresses
+}
+
+describe("deriveClaimDestination", () => {
+  it("derives the same destination for the same keys and source", async () => {
+    const first = await deriveClaimDestination(KEYS, SOURCE)
+    const second = await deriveClaimDestination(KEYS, SOURCE)
+
+    expect(second).toEqual(first)
+  })
+
+  it("derives a different destination per source and per key set", async () => {
+    const [fromSource] = await chain(SOURCE, 1)
+    const [fromOther] = await chain(USDC_MINT.toBase58(), 1)
+    const otherKeys = deriveStealthKeysFromMnemonic(MNEMONIC, 1)
+    const { address: fromOtherKeys } = await deriveClaimDestination(otherKeys, SOURCE)
+
+    expect(fromOther).not.toBe(fromSource)
+    expect(fromOtherKeys).not.toBe(fromSource)
+  })
+
+  it("derives a stealth address the owner's viewing key detects", async () => {
+    const { stealthAddress } = await deriveClaimDestination(KEYS, SOURCE)
+
+    expect(checkStealthAddress(stealthAddress, KEYS.viewingPrivateKey, KEYS.spendingPublicKey)).toBe(
+      true
+    )
+  })
+})
+
+describe("recoverClaimDestinations", () => {
+  it("returns nothing when the payment was claimed elsewhere", async () => {
+    const connection = mockConnection(new Set())
+
+    expect(await recoverClaimDestinations(connection, KEYS, SOURCE, null)).toEqual([])
+  })
+
+  it("returns the funded destination of a SOL claim", async () => {
+    const [destination] = await chain(SOURCE, 1)
+    const connection = mockConnection(new Set([destination]), new Map([[destination, 5_000_000]]))
+
+    const recovered = await recoverClaimDestinations(connection, KEYS, SOURCE, null)
+
+    expect(recovered).toHaveLength(1)
+    expect(recovered[0].address).toBe(destination)
+    expect(recovered[0].balance).toBe(5_000_000n)
+    expect(recovered[0].stealthAddress).toMatch(new RegExp(`^sip:solana:0x[0-9a-f]{64}:${destination}$`))
+  })
+
+  it("follows destinations claimed onward and skips emptied ones", async () => {
+    const [first, second] = await chain(SOURCE, 2)
+    const connection = mockConnection(new Set([first, second]), new Map([[second, 1_000]]))
+
+    const recovered = await recoverClaimDestinations(connection, KEYS, SOURCE, null)
+
+    expect(recovered.map((r) => r.address)).toEqual([second])
+  })
+
+  it("checks the destination's token account for SPL claims", async () => {
+    const [destination] = await chain(SOURCE, 1)
+    const ata = getAssociatedTokenAddress(new PublicKey(destination), USDC_MINT).toBase58()
+    const connection = mockConnection(new Set([ata]), new Map([[ata, 2_500_000]]))
+
+    const recovered = await recoverClaimDestinations(connection, KEYS, SOURCE, USDC_MINT)
+
+    expect(recovered).toHaveLength(1)
+    expect(recovered[0].address).toBe(destination)
+    expect(recovered[0].balance).toBe(2_500_000n)
+  })
+
+  it("stops after MAX_CLAIM_CHAIN destinations", async () => {
+    const addresses = await chain(SOURCE, MAX_CLAIM_CHAIN + 1)
+    const connection = mockConnection(new Set(addresses))
+
+    await recoverClaimDestinations(connection, KEYS, SOURCE, null)
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(MAX_CLAIM_CHAIN)
+  })
+})
@@ -0,0 +1,306 @@
+/**
+ * Payment request matching
+ *
+ * Requests used to carry only address, amount, token and memo, so a merchant could
+ * not tell which request a private payment settled. The payer now attaches the
+ * request's reference key to the transfer; after a scan, each open request is looked
+ * up by reference and tied to the received payment the same transaction created.
+ * Only a payment in the requested token, for the requested amount and before expiry
+ * settles it.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import { Keypair, type Connection } from "@solana/web3.js"
+import {
+  EXPIRED_REQUEST_GRACE_MS,
+  checkRequestPayment,
+  findReferenceSignatures,
+  matchPaymentRequests,
+} from "@/services/paymentRequestMatcher"
+import type { PaymentRecord } from "@/types"
+import type { PaymentRequestRecord } from "@/types/paymentRequests"
+
+const RECORD_A = Keypair.generate().publicKey.toBase58()
+const RECORD_B = Keypair.generate().publicKey.toBase58()
+
+function request(overrides: Partial<PaymentRequestRecord> = {}): PaymentRequestRecord {
+  return {
+    id: "req_1",
+    walletAddress: "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU",
+    network: "devnet",
+    stealthAddress: "sip:solana:spend:view",
+    amount: "1.5",
+    token: "SOL",
+    reference: Keypair.generate().publicKey.toBase58(),
+    createdAt: 0,
+    expiresAt: null,
+    status: "open",
+    ...overrides,
+  }
+}
+
+function received(id: string, txHash: string, overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  return {
+    id,
+    type: "receive",
+    amount: "1.5",
+    token: "SOL",
+    status: "completed",
+    txHash,
+    timestamp: 0,
+    privacyLevel: "shielded",
+    amountVerification: "verified",
+    ...overrides,
+  }
+}
+
+/**
+ * Connection whose reference lookups return the given transactions' signatures,
+ * each transaction touching the given account keys
+ */
+function mockConnection(
+  byReference: Record<
+    string,
+    { signature: string; keys: string[]; err?: unknown; blockTime?: number }[]
+  >
+) {
+  const transactions = new Map(
+    Object.values(byReference)
+      .flat()
+      .map((tx) => [tx.signature, tx.keys])
+  )
+  return {
+    getSignaturesForAddress: vi.fn(
+      async (address: { toBase58(): string }, options: { limit?: number; before?: string } = {}) => {
+        // RPC returns newest first
+        const history = [...(byReference[address.toBase58()] ?? [])].reverse()
+        const start = options.before
+          ? history.findIndex((tx) => tx.signature === options.before) + 1
+          : 0
+        return history
+          .slice(start, start + (options.limit ?? 1000))
+          .map((tx) => ({ signature: tx.signature, err: tx.err ?? null, blockTime: tx.blockTime ?? null }))
+      }
+    ),
+    getTransaction: vi.fn(async (signature: string) => {
+      const keys = transactions.get(signature)
+      if (!keys) return null
+      return {
+        transaction: {
+          message: { staticAccountKeys: keys.map((k) => ({ toBase58: () => k })) },
+        },
+      }
+    }),
+  } as unknown as Connection & {
+    getSignaturesForAddress: ReturnType<typeof vi.fn>
+    getTransaction: ReturnType<typeof vi.fn>
+  }
+}
+
+describe("findReferenceSignatures", () => {
+  it("returns successful transactions oldest first", async () => {
+    const reference = Keypair.generate().publicKey.toBase58()
+    const connection = mockConnection({
+      [reference]: [
+        { signature: "first", keys: [] },
+        { signature: "failed", keys: [], err: { InstructionError: [0, "Custom"] } },
+        { signature: "second", keys: [] },
+      ],
+    })
+
+    expect(await findReferenceSignatures(connection, reference)).toEqual(["first", "second"])
+  })
+
+  it("pages back through a reference's history", async () => {
+    const reference = Keypair.generate().publicKey.toBase58()
+    const history = Array.from({ length: 60 }, (_, i) => ({ signature: `sig_${i}`, keys: [] }))
+    const connection = mockConnection({ [reference]: history })
+
+    const signatures = await findReferenceSignatures(connection, reference)
+
+    expect(signatures).toEqual(history.map((tx) => tx.signature))
+    expect(connection.getSignaturesForAddress.mock.calls.length).toBeGreaterThan(1)
+  })
+
+  it("stops at transactions from before the reference was created", async () => {
+    const reference = Keypair.generate().publicKey.toBase58()
+    const connection = mockConnection({
+      [reference]: [
+        { signature: "older", keys: [], blockTime: 99 },
+        { signature: "newer", keys: [], blockTime: 100 },
+      ],
+    })
+
+    expect(await findReferenceSignatures(connection, reference, 100_000)).toEqual(["newer"])
+  })
+})
+
+describe("matchPaymentRequests", () => {
+  it("settles a request with the payment whose transfer record its transaction created", async () => {
+    const open = request()
+    const connection = mockConnection({
+      [open.reference]: [{ signature: "sig_pay", keys: ["sender", RECORD_B, open.reference] }],
+    })
+
+    const matches = await matchPaymentRequests(connection, [open], [
+      received("payment_a", RECORD_A),
+      received("payment_b", RECORD_B),
+    ])
+
+    expect(matches).toEqual([{ requestId: "req_1", paymentId: "payment_b", txSignature: "sig_pay" }])
+  })
+
+  it("ignores references on transfers the scanner did not attribute to this wallet", async () => {
+    const open = request()
+    const connection = mockConnection({
+      [open.reference]: [{ signature: "sig_other", keys: ["someone-elses-record", open.reference] }],
+    })
+
+    expect(await matchPaymentRequests(connection, [open], [received("payment_a", RECORD_A)])).toEqual([])
+  })
+
+  it("only checks open requests and unmatched received payments", async () => {
+    const paid = request({ id: "req_paid", status: "paid" })
+    const cancelled = request({ id: "req_cancelled", status: "cancelled" })
+    const connection = mockConnection({})
+
+    const matches = await matchPaymentRequests(connection, [paid, cancelled], [received("payment_a", RECORD_A)])
+    expect(matches).toEqual([])
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled()
+
+    const open = request()
+    await matchPaymentRequests(connection, [open], [
+      received("payment_a", RECORD_A, { paymentRequestId: "req_old" }),
+      received("sent", RECORD_B, { type: "send" }),
+    ])
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled()
+  })
+
+  it("never settles two requests with the same payment", async () => {
+    const first = request({ id: "req_1" })
+    const second = request({ id: "req_2" })
+    const connection = mockConnection({
+      [first.reference]: [{ signature: "sig_1", keys: [RECORD_A, first.reference] }],
+      [second.reference]: [{ signature: "sig_2", keys: [RECORD_A, second.reference] }],
+    })
+
+    const matches = await matchPaymentRequests(connection, [first, second], [received("payment_a", RECORD_A)])
+
+    expect(matches.map((m) => m.requestId)).toEqual(["req_1"])
+  })
+
+  it("leaves a request open when its lookup fails", async () => {
+    const failing = request({ id: "req_failing" })
+    const open = request({ id: "req_ok" })
+    const connection = mockConnection({
+      [open.reference]: [{ signature: "sig_ok", keys: [RECORD_A, open.reference] }],
+    })
+    connection.getSignaturesForAddress.mockRejectedValueOnce(new Error("429 Too Many Requests"))
+
+    const matches = await matchPaymentRequests(connection, [failing, open], [received("payment_a", RECORD_A)])
+
+    expect(matches.map((m) => m.requestId)).toEqual(["req_ok"])
+  })
+})
+
+describe("checkRequestPayment", () => {
+  const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"
+
+  it("accepts the requested amount or more in the requested token", () => {
+    expect(checkRequestPayment(request(), received("p", RECORD_A))).toBeNull()
+    expect(checkRequestPayment(request(), received("p", RECORD_A, { amount: "2.0000" }))).toBeNull()
+    expect(
+      checkRequestPayment(
+        request({ token: "USDC", amount: "10" }),
+        received("p", RECORD_A, { token: "USDC", tokenMint: USDC_MINT, amount: "10" })
+      )
+    ).toBeNull()
+  })
+
+  it("flags an underpayment", () => {
+    expect(checkRequestPayment(request(), received("p", RECORD_A, { amount: "0.000001" }))).toBe("underpaid")
+    expect(checkRequestPayment(request(), received("p", RECORD_A, { amount: "1.4999" }))).toBe("underpaid")
+  })
+
+  it("allows for amounts rounded when scanned", () => {
+    const exact = request({ amount: "1.23456789" })
+    expect(checkRequestPayment(exact, received("p", RECORD_A, { amount: "1.2346" }))).toBeNull()
+    expect(checkRequestPayment(exact, received("p", RECORD_A, { amount: "1.2345" }))).toBe("underpaid")
+  })
+
+  it("flags a payment in another token", () => {
+    expect(
+      checkRequestPayment(request(), received("p", RECORD_A, { token: "USDC", tokenMint: USDC_MINT }))
+    ).toBe("wrong-token")
+    // A look-alike symbol on another mint is not the requested token
+    expect(
+      checkRequestPayment(
+        request({ token: "USDC" }),
+        received("p", RECORD_A, { token: "USDC", tokenMint: RECORD_B })
+      )
+    ).toBe("wrong-token")
+  })
+
+  it("flags a payment sent after the request expired", () => {
+    const expiring = request({ expiresAt: 1_000 })
+    expect(checkRequestPayment(expiring, received("p", RECORD_A, { timestamp: 1_000 }))).toBeNull()
+    expect(checkRequestPayment(expiring, received("p", RECORD_A, { timestamp: 1_001 }))).toBe("late")
+  })
+
+  it("requires a commitment-verified amount when an amount was requested", () => {
+    for (const amountVerification of ["unverified", "mismatch", undefined] as const) {
+      expect(checkRequestPayment(request(), received("p", RECORD_A, { amountVerification }))).toBe(
+        "unverified-amount"
+      )
+    }
+    expect(
+      checkRequestPayment(request({ amount: undefined }), received("p", RECORD_A, { amountVerification: "unverified" }))
+    ).toBeNull()
+  })
+})
+
+describe("matchPaymentRequests with payments that fall short", () => {
+  it("reports the issue and keeps looking for a payment that settles the request", async () => {
+    const open = request()
+    const connection = mockConnection({
+      [open.reference]: [
+        { signature: "sig_dust", keys: [RECORD_A, open.reference] },
+        { signature: "sig_full", keys: [RECORD_B, open.reference] },
+      ],
+    })
+
+    const matches = await matchPaymentRequests(connection, [open], [
+      received("payment_dust", RECORD_A, { amount: "0.000001" }),
+      received("payment_full", RECORD_B),
+    ])
+
+    expect(matches).toEqual([
+      { requestId: "req_1", paymentId: "payment_dust", txSignature: "sig_dust", issue: "underpaid" },
+      { requestId: "req_1", paymentId: "payment_full", txSignature: "sig_full" },
+    ])
+  })
+
+  it("still settles an expired request paid in time", async () => {
+    const expiresAt = Date.now() - 1_000
+    const expired = request({ expiresAt })
+    const connection = mockConnection({
+      [expired.reference]: [{ signature: "sig_pay", keys: [RECORD_A, expired.reference] }],
+    })
+
+    const matches = await matchPaymentRequests(connection, [expired], [
+      received("payment_a", RECORD_A, { timestamp: expiresAt - 500 }),
+    ])
+
+    expect(matches).toEqual([{ requestId: "req_1", paymentId: "payment_a", txSignature: "sig_pay" }])
+  })
+
+  it("stops checking a request once its expiry grace period has passed", async () => {
+    const expired = request({ expiresAt: Date.now() - EXPIRED_REQUEST_GRACE_MS - 1 })
+    const connection = mockConnection({
+      [expired.reference]: [{ signature: "sig_pay", keys: [RECORD_A, expired.reference] }],
+    })
+
+    expect(await matchPaymentRequests(connection, [expired], [received("payment_a", RECORD_A)])).toEqual([])
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled()
+  })
+})
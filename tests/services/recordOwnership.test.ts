@@ -21,6 +21,8 @@ import { checkRecordOwnership, scanRecordsForOwner } from "@/services/recordOwne
 import {
   generateStealthAddress,
   bytesToHex,
+  decodeEphemeralPubkey,
+  encodeEphemeralPubkey,
   hexToBytes,
   type StealthAddress,
   type StealthMetaAddress,
@@ -42,18 +44,17 @@ function meta(): StealthMetaAddress {
 }
 
 // Build a TransferRecordData exactly as the send path stores it (anchor/client.ts): the
-// ephemeral key is 33 bytes (0x02 prefix + 32-byte ed25519 R) and the stealth recipient is
-// a PublicKey.
-function recordFor(stealthAddress: StealthAddress): TransferRecordData {
-  const ephemeral33 = new Uint8Array(33)
-  ephemeral33[0] = 0x02
-  ephemeral33.set(hexToBytes(stealthAddress.ephemeralPublicKey), 1)
+// ephemeral key is 33 bytes (prefix + 32-byte ed25519 R) and the stealth recipient is a
+// PublicKey. Legacy records carry a constant 0x02 prefix; tagged ones carry the view tag.
+function recordFor(stealthAddress: StealthAddress, viewTag?: number): TransferRecordData {
+  const ephemeral33 = encodeEphemeralPubkey(hexToBytes(stealthAddress.ephemeralPublicKey), viewTag)
   return {
     pubkey: new PublicKey(new Uint8Array(32)),
     sender: new PublicKey(new Uint8Array(32)),
     stealthRecipient: new PublicKey(hexToBytes(stealthAddress.address)),
     amountCommitment: new Uint8Array(33),
     ephemeralPubkey: ephemeral33,
+    viewTag: decodeEphemeralPubkey(ephemeral33).viewTag,
     viewingKeyHash: new Uint8Array(32),
     encryptedAmount: { nonce: new Uint8Array(24), ciphertext: new Uint8Array(0) },
     timestamp: 0n,
@@ -106,6 +107,32 @@ describe("checkRecordOwnership (canonical view-only)", () => {
   })
 })
 
+describe("checkRecordOwnership (on-chain view tag)", () => {
+  it("detects a tagged payment", async () => {
+    const { stealthAddress } = await generateStealthAddress(meta())
+    const record = recordFor(stealthAddress, stealthAddress.viewTag)
+
+    expect(checkRecordOwnership(record, VIEWING_SEED, ed25519.getPublicKey(SPENDING_SEED))).toBe(true)
+  })
+
+  it("rejects on a mismatching tag before recomputing the stealth address", async () => {
+    const { stealthAddress } = await generateStealthAddress(meta())
+    // Correct stealth recipient, wrong tag: only the tag check can reject this
+    const wrongTag = [0x00, 0x01].find((t) => t !== stealthAddress.viewTag)!
+    const record = recordFor(stealthAddress, wrongTag)
+
+    expect(checkRecordOwnership(record, VIEWING_SEED, ed25519.getPublicKey(SPENDING_SEED))).toBe(false)
+  })
+
+  it("still detects legacy tagless records", async () => {
+    const { stealthAddress } = await generateStealthAddress(meta())
+    const record = recordFor(stealthAddress)
+
+    expect(record.viewTag).toBeUndefined()
+    expect(checkRecordOwnership(record, VIEWING_SEED, ed25519.getPublicKey(SPENDING_SEED))).toBe(true)
+  })
+})
+
 describe("scanRecordsForOwner (view-only filter)", () => {
   it("returns all records owned by the key, including claimed (auditor history)", async () => {
     const mine = await generateStealthAddress(meta())
@@ -0,0 +1,335 @@
+/**
+ * Incremental transfer-record scanning — cursor persistence + fetch strategy
+ *
+ * The scanners used to sweep every TransferRecord with getProgramAccounts on each run.
+ * They now keep a per-wallet, per-network cursor into the program's signature history:
+ * the first scan (or an explicit full rescan) sweeps and establishes the cursor, later
+ * scans only read records touched by transactions newer than it.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { PublicKey, type Connection } from "@solana/web3.js"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import bs58 from "bs58"
+import { SIP_PRIVACY_PROGRAM_ID } from "@/lib/anchor/types"
+import { parseTransferRecord } from "@/lib/anchor/client"
+import {
+  getScanCursorKey,
+  loadScanCursor,
+  saveScanCursor,
+  saveScanProgress,
+  clearScanCursor,
+  fetchTransferRecordsIncremental,
+  getSweepCheckpoint,
+  sortForSweep,
+} from "@/services/scanCursor"
+import { RpcTransferRecordSource, FixtureTransferRecordSource } from "@/lib/record-sources"
+
+const WALLET = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU"
+const TRANSFER_RECORD_DISCRIMINATOR = [0xc8, 0x1f, 0x06, 0x9e, 0xf0, 0x19, 0xf8, 0x35]
+
+// In-memory AsyncStorage backing for the global mock
+const storage = new Map<string, string>()
+
+function key(seed: number): PublicKey {
+  return new PublicKey(new Uint8Array(32).fill(seed))
+}
+
+// Encode a TransferRecord account exactly as the program lays it out (see parseTransferRecord)
+function encodeRecord(stealthSeed: number, timestamp: bigint, claimed = false): Buffer {
+  const encrypted = Buffer.alloc(24 + 16, 0x07)
+  const data = Buffer.alloc(8 + 32 + 32 + 33 + 33 + 32 + 4 + encrypted.length + 8 + 1 + 1 + 1)
+  let offset = 0
+  Buffer.from(TRANSFER_RECORD_DISCRIMINATOR).copy(data, offset)
+  offset += 8
+  key(1).toBuffer().copy(data, offset) // sender
+  offset += 32
+  key(stealthSeed).toBuffer().copy(data, offset) // stealth_recipient
+  offset += 32 + 33 + 33 + 32 // commitment, ephemeral, viewing key hash left zeroed
+  data.writeUInt32LE(encrypted.length, offset)
+  offset += 4
+  encrypted.copy(data, offset)
+  offset += encrypted.length
+  data.writeBigInt64LE(timestamp, offset)
+  offset += 8
+  data[offset++] = claimed ? 1 : 0
+  data[offset++] = 0 // token_mint: None
+  data[offset] = 255 // bump
+  return data
+}
+
+function parsed(pubkeySeed: number, stealthSeed: number, timestamp: bigint) {
+  return parseTransferRecord(key(pubkeySeed), encodeRecord(stealthSeed, timestamp))!
+}
+
+function account(data: Buffer) {
+  return { data, owner: SIP_PRIVACY_PROGRAM_ID, lamports: 1, executable: false }
+}
+
+function programIx(accounts: PublicKey[]) {
+  return { programId: SIP_PRIVACY_PROGRAM_ID, accounts, data: "" }
+}
+
+describe("scan cursor persistence", () => {
+  beforeEach(() => {
+    storage.clear()
+    vi.mocked(AsyncStorage.getItem).mockImplementation(async (k) => storage.get(k) ?? null)
+    vi.mocked(AsyncStorage.setItem).mockImplementation(async (k, v) => {
+      storage.set(k, v)
+    })
+    vi.mocked(AsyncStorage.removeItem).mockImplementation(async (k) => {
+      storage.delete(k)
+    })
+  })
+
+  it("scopes cursors per wallet and per network", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "sigA", slot: 10 })
+
+    expect(getScanCursorKey(WALLET, "devnet")).not.toBe(getScanCursorKey(WALLET, "mainnet-beta"))
+    expect(await loadScanCursor(WALLET, "devnet")).toMatchObject({ signature: "sigA", slot: 10 })
+    expect(await loadScanCursor(WALLET, "mainnet-beta")).toBeNull()
+  })
+
+  it("keeps the background task's cursor apart from the in-app one", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "sigA", slot: 10 })
+    await saveScanCursor(WALLET, "devnet", { signature: "sigB", slot: 20 }, "rpc", undefined, "background")
+
+    expect(getScanCursorKey(WALLET, "devnet", "background")).not.toBe(getScanCursorKey(WALLET, "devnet"))
+    expect(await loadScanCursor(WALLET, "devnet")).toMatchObject({ signature: "sigA" })
+    expect(await loadScanCursor(WALLET, "devnet", "background")).toMatchObject({ signature: "sigB" })
+  })
+
+  it("saves a checkpoint for a sweep stopped part-way and the cursor once it is done", async () => {
+    const fetched = {
+      records: [parsed(10, 20, 300n), parsed(11, 21, 200n)],
+      nextCursor: { signature: "sigA", slot: 10 },
+      mode: "full" as const,
+    }
+
+    await saveScanProgress(WALLET, "devnet", fetched, 1, "rpc", "background")
+    expect(await loadScanCursor(WALLET, "devnet", "background")).toMatchObject({
+      signature: "sigA",
+      sweep: getSweepCheckpoint(fetched.records[0]),
+    })
+
+    await saveScanProgress(WALLET, "devnet", fetched, 2, "rpc", "background")
+    expect((await loadScanCursor(WALLET, "devnet", "background"))?.sweep).toBeUndefined()
+    expect(await loadScanCursor(WALLET, "devnet")).toBeNull()
+  })
+
+  it("leaves the cursor alone for an unfinished incremental scan", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "sigA", slot: 10 })
+    const fetched = {
+      records: [parsed(10, 20, 300n), parsed(11, 21, 200n)],
+      nextCursor: { signature: "sigB", slot: 20 },
+      mode: "incremental" as const,
+    }
+
+    await saveScanProgress(WALLET, "devnet", fetched, 1, "rpc")
+
+    expect(await loadScanCursor(WALLET, "devnet")).toMatchObject({ signature: "sigA" })
+  })
+
+  it("clears a cursor", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "sigA", slot: 10 })
+    await clearScanCursor(WALLET, "devnet")
+
+    expect(await loadScanCursor(WALLET, "devnet")).toBeNull()
+  })
+
+  it("treats corrupt storage as no cursor", async () => {
+    storage.set(getScanCursorKey(WALLET, "devnet"), "{not json")
+
+    expect(await loadScanCursor(WALLET, "devnet")).toBeNull()
+  })
+})
+
+describe("fetchTransferRecordsIncremental", () => {
+  let connection: Connection
+  let source: RpcTransferRecordSource
+
+  beforeEach(() => {
+    storage.clear()
+    vi.mocked(AsyncStorage.getItem).mockImplementation(async (k) => storage.get(k) ?? null)
+    vi.mocked(AsyncStorage.setItem).mockImplementation(async (k, v) => {
+      storage.set(k, v)
+    })
+
+    connection = {
+      getProgramAccounts: vi.fn().mockResolvedValue([
+        { pubkey: key(10), account: account(encodeRecord(20, 100n)) },
+        { pubkey: key(11), account: account(encodeRecord(21, 200n)) },
+      ]),
+      getSignaturesForAddress: vi.fn().mockResolvedValue([
+        { signature: "latestSig", slot: 500, err: null },
+      ]),
+      getParsedTransactions: vi.fn(),
+      getMultipleAccountsInfo: vi.fn(),
+    } as unknown as Connection
+    source = new RpcTransferRecordSource(connection)
+  })
+
+  it("sweeps the whole program and returns a fresh cursor when none is stored", async () => {
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.mode).toBe("full")
+    expect(result.records).toHaveLength(2)
+    // Newest first
+    expect(result.records[0].timestamp).toBe(200n)
+    expect(result.nextCursor).toEqual({ signature: "latestSig", slot: 500 })
+    expect(connection.getProgramAccounts).toHaveBeenCalledTimes(1)
+    // The discriminator filter is applied to the sweep
+    const filters = vi.mocked(connection.getProgramAccounts).mock.calls[0][1] as {
+      filters: { memcmp: { bytes: string } }[]
+    }
+    expect(filters.filters[0].memcmp.bytes).toBe(bs58.encode(TRANSFER_RECORD_DISCRIMINATOR))
+  })
+
+  it("does not persist the cursor itself", async () => {
+    await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(await loadScanCursor(WALLET, "devnet")).toBeNull()
+  })
+
+  it("never establishes a cursor from an empty sweep", async () => {
+    vi.mocked(connection.getProgramAccounts).mockResolvedValue([])
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.records).toHaveLength(0)
+    expect(result.nextCursor).toBeNull()
+  })
+
+  it("only reads records touched since the stored cursor", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "oldSig", slot: 400 })
+
+    vi.mocked(connection.getSignaturesForAddress).mockResolvedValue([
+      { signature: "newSig2", slot: 460, err: null, blockTime: null, memo: null },
+      { signature: "failedSig", slot: 450, err: { InstructionError: [0, "Custom"] }, blockTime: null, memo: null },
+      { signature: "newSig1", slot: 420, err: null, blockTime: null, memo: null },
+    ])
+    vi.mocked(connection.getParsedTransactions).mockResolvedValue([
+      { transaction: { message: { instructions: [programIx([key(2), key(12)])] } } },
+      { transaction: { message: { instructions: [programIx([key(2), key(13)])] } } },
+    ] as never)
+    vi.mocked(connection.getMultipleAccountsInfo).mockResolvedValue([
+      // config PDA — not a TransferRecord, dropped by the discriminator check
+      account(Buffer.alloc(52)),
+      account(encodeRecord(22, 300n)),
+      account(encodeRecord(23, 310n, true)),
+    ] as never)
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.mode).toBe("incremental")
+    expect(connection.getProgramAccounts).not.toHaveBeenCalled()
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledWith(
+      SIP_PRIVACY_PROGRAM_ID,
+      expect.objectContaining({ until: "oldSig" })
+    )
+    // Failed transactions are not fetched
+    expect(vi.mocked(connection.getParsedTransactions).mock.calls[0][0]).toEqual(["newSig2", "newSig1"])
+    // Accounts shared across transactions are only read once
+    expect(vi.mocked(connection.getMultipleAccountsInfo).mock.calls[0][0]).toHaveLength(3)
+    expect(result.records.map((r) => r.timestamp)).toEqual([310n, 300n])
+    expect(result.records[0].claimed).toBe(true)
+    expect(result.nextCursor).toEqual({ signature: "newSig2", slot: 460 })
+  })
+
+  it("keeps the stored cursor when nothing happened since", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "oldSig", slot: 400 })
+    vi.mocked(connection.getSignaturesForAddress).mockResolvedValue([])
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.records).toHaveLength(0)
+    expect(result.nextCursor).toMatchObject({ signature: "oldSig", slot: 400 })
+    expect(connection.getParsedTransactions).not.toHaveBeenCalled()
+  })
+
+  it("ignores the stored cursor on a full rescan", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "oldSig", slot: 400 })
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet", {
+      fullRescan: true,
+    })
+
+    expect(result.mode).toBe("full")
+    expect(connection.getProgramAccounts).toHaveBeenCalledTimes(1)
+  })
+
+  it("propagates RPC failures of an incremental fetch so the cursor is kept", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "oldSig", slot: 400 })
+    vi.mocked(connection.getSignaturesForAddress).mockRejectedValue(new Error("429 Too Many Requests"))
+
+    await expect(fetchTransferRecordsIncremental(source, WALLET, "devnet")).rejects.toThrow("429")
+  })
+
+  it("does a full sweep when the stored cursor belongs to another source", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "fixture_3", slot: 3 }, "fixture")
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.mode).toBe("full")
+    expect(connection.getProgramAccounts).toHaveBeenCalledTimes(1)
+  })
+
+  it("resumes a fixture source from its own cursor", async () => {
+    const fixture = new FixtureTransferRecordSource()
+    fixture.addRecord(parsed(10, 20, 100n))
+    const cursor = fixture.addRecord(parsed(11, 21, 200n))
+    await saveScanCursor(WALLET, "devnet", cursor, fixture.type)
+    fixture.addRecord(parsed(12, 22, 300n))
+
+    const result = await fetchTransferRecordsIncremental(fixture, WALLET, "devnet")
+
+    expect(result.mode).toBe("incremental")
+    expect(result.records.map((r) => r.timestamp)).toEqual([300n])
+    expect(result.nextCursor).toEqual({ signature: "fixture_3", slot: 3 })
+  })
+
+  it("resumes an unfinished sweep after its checkpoint", async () => {
+    vi.mocked(connection.getProgramAccounts).mockResolvedValue([
+      { pubkey: key(10), account: account(encodeRecord(20, 100n)) },
+      { pubkey: key(11), account: account(encodeRecord(21, 200n)) },
+      { pubkey: key(12), account: account(encodeRecord(22, 200n)) },
+      { pubkey: key(13), account: account(encodeRecord(23, 300n)) },
+    ] as never)
+    const swept = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+    // The first page of the sweep was processed before the scan stopped
+    await saveScanCursor(WALLET, "devnet", swept.nextCursor!, "rpc", getSweepCheckpoint(swept.records[1]))
+    vi.mocked(connection.getSignaturesForAddress).mockClear()
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.mode).toBe("full")
+    expect(result.records).toEqual(swept.records.slice(2))
+    // Still the cursor taken when the sweep started
+    expect(result.nextCursor).toEqual({ signature: "latestSig", slot: 500 })
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled()
+  })
+
+  it("keeps the checkpoint when the resumed sweep comes back empty", async () => {
+    await saveScanCursor(WALLET, "devnet", { signature: "oldSig", slot: 400 }, "rpc", {
+      timestamp: 200,
+      pubkey: key(11).toBase58(),
+    })
+    vi.mocked(connection.getProgramAccounts).mockResolvedValue([])
+
+    const result = await fetchTransferRecordsIncremental(source, WALLET, "devnet")
+
+    expect(result.records).toHaveLength(0)
+    expect(result.nextCursor).toBeNull()
+  })
+})
+
+describe("sortForSweep", () => {
+  it("orders newest first, breaking timestamp ties by PDA", () => {
+    const records = [parsed(12, 22, 200n), parsed(10, 20, 100n), parsed(11, 21, 200n)]
+    const expected = [key(11), key(12)].map((k) => k.toBase58()).sort()
+
+    const sorted = sortForSweep(records)
+
+    expect(sorted.map((r) => r.pubkey.toBase58())).toEqual([...expected, key(10).toBase58()])
+  })
+})
@@ -0,0 +1,272 @@
+/**
+ * Transaction lifecycle tracker
+ *
+ * Confirmation used to be a one-shot poll inside the send, so a backgrounded
+ * app left its history record "pending" forever. Submitted transactions are now
+ * queued in a persisted store, rebroadcast until their blockhash expires, and
+ * their records settled as completed or failed, also after a restart.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  type Connection,
+  type SignatureStatus,
+} from "@solana/web3.js"
+import {
+  EXPIRED_TRANSACTION_ERROR,
+  confirmTrackedTransaction,
+  resumePendingTransactions,
+  submitTrackedTransaction,
+  trackTransaction,
+} from "@/services/transactionTracker"
+import { usePendingTransactionsStore } from "@/stores/pendingTransactions"
+import { usePrivacyStore } from "@/stores/privacy"
+import { useSwapStore } from "@/stores/swap"
+import type { PendingTransaction } from "@/types"
+
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k"
+const FAST = { pollIntervalMs: 0, rebroadcastIntervalMs: 0, timeoutMs: 1000 }
+
+function signedTransfer(): Uint8Array {
+  const payer = Keypair.generate()
+  const tx = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1000,
+    })
+  )
+  tx.recentBlockhash = BLOCKHASH
+  tx.feePayer = payer.publicKey
+  tx.sign(payer)
+  return tx.serialize()
+}
+
+/**
+ * Connection returning `statuses` in order (the last one repeats)
+ */
+function mockConnection(statuses: (Partial<SignatureStatus> | null)[], blockHeight = 100) {
+  let call = 0
+  return {
+    sendRawTransaction: vi.fn().mockResolvedValue("sig"),
+    getLatestBlockhash: vi.fn().mockResolvedValue({ blockhash: BLOCKHASH, lastValidBlockHeight: 250 }),
+    getBlockHeight: vi.fn().mockResolvedValue(blockHeight),
+    getSignatureStatuses: vi.fn(async () => ({
+      context: { slot: 1 },
+      value: [statuses[Math.min(call++, statuses.length - 1)]],
+    })),
+  } as unknown as Connection & {
+    sendRawTransaction: ReturnType<typeof vi.fn>
+    getSignatureStatuses: ReturnType<typeof vi.fn>
+  }
+}
+
+function queued(overrides: Partial<PendingTransaction> = {}): PendingTransaction {
+  return {
+    signature: "5ig",
+    rawTransaction: Buffer.from(signedTransfer()).toString("base64"),
+    blockhash: BLOCKHASH,
+    lastValidBlockHeight: 200,
+    kind: "send",
+    network: "devnet",
+    submittedAt: 0,
+    lastBroadcastAt: 0,
+    broadcastCount: 1,
+    ...overrides,
+  }
+}
+
+describe("transaction tracker", () => {
+  beforeEach(() => {
+    usePendingTransactionsStore.setState({ transactions: [] })
+    usePrivacyStore.setState({ payments: [] })
+    useSwapStore.setState({ swaps: [] })
+  })
+
+  describe("submitTrackedTransaction", () => {
+    it("queues the transaction and records the payment as pending", async () => {
+      const connection = mockConnection([null])
+
+      const pending = await submitTrackedTransaction(connection, signedTransfer(), {
+        kind: "send",
+        network: "devnet",
+        payment: {
+          id: "payment_1",
+          type: "send",
+          amount: "1",
+          token: "SOL",
+          timestamp: 1,
+          privacyLevel: "transparent",
+        },
+      })
+
+      expect(pending.blockhash).toBe(BLOCKHASH)
+      expect(pending.lastValidBlockHeight).toBe(250)
+      expect(usePendingTransactionsStore.getState().transactions).toEqual([pending])
+      expect(usePrivacyStore.getState().payments[0]).toMatchObject({
+        id: "payment_1",
+        status: "pending",
+        txHash: pending.signature,
+      })
+    })
+
+    it("queues a relayed claim under the relayer's signature without broadcasting it", async () => {
+      const connection = mockConnection([null])
+      const relay = vi.fn().mockResolvedValue("relayedSig")
+
+      const pending = await submitTrackedTransaction(connection, signedTransfer(), {
+        kind: "claim",
+        network: "devnet",
+        claimPaymentIds: ["payment_1"],
+        relay,
+      })
+
+      expect(relay).toHaveBeenCalledTimes(1)
+      expect(connection.sendRawTransaction).not.toHaveBeenCalled()
+      expect(pending).toMatchObject({ signature: "relayedSig", relayed: true, claimPaymentIds: ["payment_1"] })
+      expect(usePendingTransactionsStore.getState().transactions).toEqual([pending])
+    })
+
+    it("drops the queue entry when the broadcast fails", async () => {
+      const connection = mockConnection([null])
+      connection.sendRawTransaction.mockRejectedValueOnce(new Error("Transaction simulation failed"))
+
+      await expect(
+        submitTrackedTransaction(connection, signedTransfer(), { kind: "send", network: "devnet" })
+      ).rejects.toThrow("Transaction simulation failed")
+      expect(usePendingTransactionsStore.getState().transactions).toEqual([])
+    })
+  })
+
+  describe("trackTransaction", () => {
+    it("confirms once the cluster confirms", async () => {
+      const connection = mockConnection([null, { confirmationStatus: "processed" }, { confirmationStatus: "confirmed" }])
+
+      await expect(trackTransaction(connection, queued(), FAST)).resolves.toEqual({ status: "confirmed" })
+    })
+
+    it("describes on-chain failures", async () => {
+      const connection = mockConnection([{ err: { InstructionError: [0, { Custom: 1 }] } }])
+
+      await expect(trackTransaction(connection, queued(), FAST)).resolves.toEqual({
+        status: "failed",
+        error: "Not enough SOL for this transfer and its fees.",
+      })
+    })
+
+    it("rebroadcasts while unseen and expires after the last valid block height", async () => {
+      const pending = queued()
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+      const connection = mockConnection([null], 150)
+
+      const tracking = trackTransaction(connection, pending, { ...FAST, timeoutMs: 50 })
+      await expect(tracking).resolves.toEqual({ status: "pending" })
+      expect(connection.sendRawTransaction).toHaveBeenCalled()
+      expect(usePendingTransactionsStore.getState().transactions[0].broadcastCount).toBeGreaterThan(1)
+
+      const expired = mockConnection([null], 201)
+      await expect(trackTransaction(expired, pending, FAST)).resolves.toEqual({ status: "expired" })
+      expect(expired.sendRawTransaction).not.toHaveBeenCalled()
+    })
+
+    it("never rebroadcasts a relayed transaction", async () => {
+      const connection = mockConnection([null], 150)
+
+      await expect(
+        trackTransaction(connection, queued({ relayed: true }), { ...FAST, timeoutMs: 50 })
+      ).resolves.toEqual({ status: "pending" })
+      expect(connection.sendRawTransaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("confirmTrackedTransaction", () => {
+    it("completes the payment and empties the queue", async () => {
+      const pending = queued({ paymentId: "payment_1" })
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+      usePrivacyStore.setState({
+        payments: [{ id: "payment_1", type: "send", amount: "1", token: "SOL", status: "pending", timestamp: 1, privacyLevel: "transparent" }],
+      })
+
+      await confirmTrackedTransaction(mockConnection([{ confirmationStatus: "finalized" }]), pending, FAST)
+
+      expect(usePrivacyStore.getState().payments[0].status).toBe("completed")
+      expect(usePendingTransactionsStore.getState().transactions).toEqual([])
+    })
+
+    it("marks claimed payments claimed", async () => {
+      const pending = queued({ kind: "claim", claimPaymentIds: ["payment_1", "payment_2"] })
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+      usePrivacyStore.setState({
+        payments: ["payment_1", "payment_2"].map((id) => ({
+          id, type: "receive" as const, amount: "1", token: "SOL", status: "completed" as const, timestamp: 1, privacyLevel: "shielded" as const,
+        })),
+      })
+
+      await confirmTrackedTransaction(mockConnection([{ confirmationStatus: "confirmed" }]), pending, FAST)
+
+      for (const payment of usePrivacyStore.getState().payments) {
+        expect(payment).toMatchObject({ status: "claimed", claimed: true, claimTxHash: "5ig" })
+      }
+    })
+
+    it("leaves payments claimable when the claim fails", async () => {
+      const pending = queued({ kind: "claim", claimPaymentIds: ["payment_1"] })
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+      usePrivacyStore.setState({
+        payments: [{ id: "payment_1", type: "receive", amount: "1", token: "SOL", status: "completed", timestamp: 1, privacyLevel: "shielded" }],
+      })
+
+      await expect(
+        confirmTrackedTransaction(mockConnection([null], 500), pending, FAST)
+      ).rejects.toThrow(EXPIRED_TRANSACTION_ERROR)
+      expect(usePrivacyStore.getState().payments[0]).toMatchObject({
+        status: "completed",
+        error: EXPIRED_TRANSACTION_ERROR,
+      })
+      expect(usePrivacyStore.getState().payments[0].claimed).toBeUndefined()
+    })
+
+    it("fails an expired swap", async () => {
+      const pending = queued({ kind: "swap", swapId: "swap_1" })
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+      useSwapStore.setState({
+        swaps: [{ id: "swap_1", fromToken: "SOL", toToken: "USDC", fromAmount: "1", toAmount: "150", status: "pending", timestamp: 1, privacyLevel: "transparent" }],
+      })
+
+      await expect(
+        confirmTrackedTransaction(mockConnection([null], 500), pending, FAST)
+      ).rejects.toThrow(EXPIRED_TRANSACTION_ERROR)
+      expect(useSwapStore.getState().swaps[0]).toMatchObject({ status: "failed", error: EXPIRED_TRANSACTION_ERROR })
+      expect(usePendingTransactionsStore.getState().transactions).toEqual([])
+    })
+
+    it("keeps the transaction queued when it times out", async () => {
+      const pending = queued({ paymentId: "payment_1" })
+      usePendingTransactionsStore.setState({ transactions: [pending] })
+
+      await expect(
+        confirmTrackedTransaction(mockConnection([{ confirmationStatus: "processed" }]), pending, { ...FAST, timeoutMs: 20 })
+      ).rejects.toThrow("Transaction confirmation timeout")
+      expect(usePendingTransactionsStore.getState().transactions).toHaveLength(1)
+    })
+  })
+
+  describe("resumePendingTransactions", () => {
+    it("resumes only the active network's transactions", async () => {
+      usePendingTransactionsStore.setState({
+        transactions: [
+          queued({ signature: "devnet-sig", network: "devnet" }),
+          queued({ signature: "mainnet-sig", network: "mainnet-beta" }),
+        ],
+      })
+
+      const resumed = await resumePendingTransactions(mockConnection([{ confirmationStatus: "confirmed" }]), "devnet")
+
+      expect(resumed).toBe(1)
+      expect(usePendingTransactionsStore.getState().transactions.map((t) => t.signature)).toEqual(["mainnet-sig"])
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Payment Requests Store Tests
+ *
+ * Requests get a unique ID and reference key, and settle once.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import { PublicKey } from "@solana/web3.js"
+import { usePaymentRequestsStore } from "@/stores/paymentRequests"
+import type { CreatePaymentRequestInput } from "@/types/paymentRequests"
+
+const input: CreatePaymentRequestInput = {
+  walletAddress: "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU",
+  network: "devnet",
+  stealthAddress: "sip:solana:spend:view",
+  amount: "25",
+  token: "SOL",
+  label: "Kopi & Co",
+  message: "Invoice #42",
+  expiresAt: null,
+}
+
+describe("Payment Requests Store", () => {
+  beforeEach(() => {
+    usePaymentRequestsStore.setState({ requests: [] })
+  })
+
+  it("creates an open request with its own ID and reference key", () => {
+    const first = usePaymentRequestsStore.getState().createRequest(input)
+    const second = usePaymentRequestsStore.getState().createRequest(input)
+
+    expect(first.id).toMatch(/^req_/)
+    expect(first.status).toBe("open")
+    expect(() => new PublicKey(first.reference)).not.toThrow()
+    expect(second.id).not.toBe(first.id)
+    expect(second.reference).not.toBe(first.reference)
+    // Newest first
+    expect(usePaymentRequestsStore.getState().requests.map((r) => r.id)).toEqual([second.id, first.id])
+  })
+
+  it("marks a request paid once", () => {
+    const { id } = usePaymentRequestsStore.getState().createRequest(input)
+
+    usePaymentRequestsStore.getState().markPaid(id, "payment_1", "sig_1")
+    usePaymentRequestsStore.getState().markPaid(id, "payment_2", "sig_2")
+
+    expect(usePaymentRequestsStore.getState().getRequest(id)).toMatchObject({
+      status: "paid",
+      paymentId: "payment_1",
+      txSignature: "sig_1",
+    })
+  })
+
+  it("records payments that didn't settle a request once each", () => {
+    const { id } = usePaymentRequestsStore.getState().createRequest(input)
+    const rejected = { paymentId: "payment_1", txSignature: "sig_1", issue: "underpaid" as const }
+
+    usePaymentRequestsStore.getState().recordRejectedPayment(id, rejected)
+    usePaymentRequestsStore.getState().recordRejectedPayment(id, rejected)
+
+    expect(usePaymentRequestsStore.getState().getRequest(id)).toMatchObject({
+      status: "open",
+      rejectedPayments: [rejected],
+    })
+  })
+
+  it("cancels only open requests", () => {
+    const open = usePaymentRequestsStore.getState().createRequest(input)
+    const paid = usePaymentRequestsStore.getState().createRequest(input)
+    usePaymentRequestsStore.getState().markPaid(paid.id, "payment_1", "sig_1")
+
+    usePaymentRequestsStore.getState().cancelRequest(open.id)
+    usePaymentRequestsStore.getState().cancelRequest(paid.id)
+
+    expect(usePaymentRequestsStore.getState().getRequest(open.id)?.status).toBe("cancelled")
+    expect(usePaymentRequestsStore.getState().getRequest(paid.id)?.status).toBe("paid")
+  })
+
+  it("removes a request", () => {
+    const { id } = usePaymentRequestsStore.getState().createRequest(input)
+
+    usePaymentRequestsStore.getState().removeRequest(id)
+
+    expect(usePaymentRequestsStore.getState().requests).toEqual([])
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Scheduled Payments Store Tests
+ *
+ * Schedules advance one occurrence per payment or skip; failures keep the
+ * payment due.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import { useScheduledPaymentsStore } from "@/stores/scheduledPayments"
+import type { CreateScheduledPaymentInput } from "@/types/scheduledPayments"
+
+const START = new Date(2026, 0, 15).getTime()
+
+const input: CreateScheduledPaymentInput = {
+  contactId: "contact_1",
+  walletAddress: "FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr",
+  network: "devnet",
+  amount: "500",
+  token: "USDC",
+  tokenMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  cadence: "monthly",
+  startAt: START,
+  endAt: new Date(2026, 2, 20).getTime(),
+}
+
+describe("Scheduled Payments Store", () => {
+  beforeEach(() => {
+    useScheduledPaymentsStore.setState({ schedules: [] })
+  })
+
+  it("adds a schedule first due at its start date", () => {
+    const schedule = useScheduledPaymentsStore.getState().addSchedule(input)
+
+    expect(schedule.id).toMatch(/^schedule_/)
+    expect(schedule).toMatchObject({ status: "active", occurrence: 0, nextRunAt: START, runCount: 0 })
+    expect(useScheduledPaymentsStore.getState().schedules).toHaveLength(1)
+  })
+
+  it("records a payment and moves to the next month", () => {
+    const { id } = useScheduledPaymentsStore.getState().addSchedule(input)
+    useScheduledPaymentsStore.getState().recordFailure(id, "Transaction was cancelled.")
+
+    useScheduledPaymentsStore.getState().recordRun(id, "sig_1")
+
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)).toMatchObject({
+      occurrence: 1,
+      nextRunAt: new Date(2026, 1, 15).getTime(),
+      runCount: 1,
+      lastTxHash: "sig_1",
+      lastError: undefined,
+    })
+  })
+
+  it("completes after the last payment before the end date", () => {
+    const { id } = useScheduledPaymentsStore.getState().addSchedule(input)
+
+    useScheduledPaymentsStore.getState().recordRun(id, "sig_1")
+    useScheduledPaymentsStore.getState().skipRun(id)
+    useScheduledPaymentsStore.getState().recordRun(id, "sig_3")
+
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)).toMatchObject({
+      status: "completed",
+      runCount: 2,
+    })
+  })
+
+  it("keeps a failed payment due", () => {
+    const { id } = useScheduledPaymentsStore.getState().addSchedule(input)
+
+    useScheduledPaymentsStore.getState().recordFailure(id, "Insufficient funds for this transaction.")
+
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)).toMatchObject({
+      occurrence: 0,
+      nextRunAt: START,
+      lastError: "Insufficient funds for this transaction.",
+    })
+  })
+
+  it("pauses and resumes, but never reopens a completed schedule", () => {
+    const { id } = useScheduledPaymentsStore.getState().addSchedule(input)
+
+    useScheduledPaymentsStore.getState().setPaused(id, true)
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)?.status).toBe("paused")
+
+    useScheduledPaymentsStore.getState().setPaused(id, false)
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)?.status).toBe("active")
+
+    useScheduledPaymentsStore.setState({
+      schedules: useScheduledPaymentsStore
+        .getState()
+        .schedules.map((s) => ({ ...s, status: "completed" as const })),
+    })
+    useScheduledPaymentsStore.getState().setPaused(id, false)
+    expect(useScheduledPaymentsStore.getState().getSchedule(id)?.status).toBe("completed")
+  })
+
+  it("removes a schedule", () => {
+    const { id } = useScheduledPaymentsStore.getState().addSchedule(input)
+
+    useScheduledPaymentsStore.getState().removeSchedule(id)
+
+    expect(useScheduledPaymentsStore.getState().schedules).toEqual([])
+  })
+})
@@ -14,6 +14,12 @@ describe("Settings Store", () => {
       hideBalances: true,
       network: "mainnet-beta",
       rpcProvider: "helius",
+      recordSources: {},
+      relayerUrls: {},
+      rpcProfiles: [],
+      activeRpcProfileIds: {},
+      priorityFee: "medium",
+      customPriorityFee: 10_000,
     })
   })
 
@@ -151,6 +157,151 @@ describe("Settings Store", () => {
       expect(useSettingsStore.getState().rpcProvider).toBe("publicnode")
     })
   })
+
+  describe("Priority Fee Settings", () => {
+    it("should default to medium", () => {
+      expect(useSettingsStore.getState().getPriorityFeePreference()).toEqual({
+        level: "medium",
+        customLamports: 10_000,
+      })
+    })
+
+    it("should set the level and custom fee", () => {
+      const { setPriorityFee, setCustomPriorityFee } = useSettingsStore.getState()
+      setPriorityFee("custom")
+      setCustomPriorityFee(25_000.7)
+
+      expect(useSettingsStore.getState().getPriorityFeePreference()).toEqual({
+        level: "custom",
+        customLamports: 25_000,
+      })
+    })
+
+    it("should reject invalid custom fees", () => {
+      const { setCustomPriorityFee } = useSettingsStore.getState()
+      setCustomPriorityFee(-1)
+      setCustomPriorityFee(NaN)
+      setCustomPriorityFee(5_000_001)
+
+      expect(useSettingsStore.getState().customPriorityFee).toBe(10_000)
+    })
+  })
+
+  describe("Record Source Settings", () => {
+    it("should default to rpc for every network", () => {
+      const { getRecordSource } = useSettingsStore.getState()
+      expect(getRecordSource("mainnet-beta")).toEqual({ type: "rpc" })
+      expect(getRecordSource("devnet")).toEqual({ type: "rpc" })
+    })
+
+    it("should set the source per network", () => {
+      const { setRecordSource } = useSettingsStore.getState()
+
+      setRecordSource("devnet", { type: "indexer", indexerUrl: "https://indexer.example.com" })
+
+      const { getRecordSource } = useSettingsStore.getState()
+      expect(getRecordSource("devnet")).toEqual({
+        type: "indexer",
+        indexerUrl: "https://indexer.example.com",
+      })
+      expect(getRecordSource("mainnet-beta")).toEqual({ type: "rpc" })
+    })
+
+    it("should keep a trimmed indexer API key and drop an empty one", () => {
+      const { setRecordSource } = useSettingsStore.getState()
+      const source = { type: "indexer" as const, indexerUrl: "https://indexer.example.com" }
+
+      setRecordSource("devnet", { ...source, indexerApiKey: " key123 " })
+      expect(useSettingsStore.getState().getRecordSource("devnet").indexerApiKey).toBe("key123")
+
+      setRecordSource("devnet", { ...source, indexerApiKey: "  " })
+      expect(useSettingsStore.getState().getRecordSource("devnet").indexerApiKey).toBeUndefined()
+    })
+
+    it("should reject non-http indexer URLs", () => {
+      const { setRecordSource } = useSettingsStore.getState()
+
+      setRecordSource("devnet", { type: "indexer", indexerUrl: "ftp://indexer.example.com" })
+      expect(useSettingsStore.getState().getRecordSource("devnet")).toEqual({ type: "rpc" })
+    })
+  })
+
+  describe("Claim Relayer Settings", () => {
+    it("should have no relayer by default", () => {
+      expect(useSettingsStore.getState().getRelayerUrl("devnet")).toBeNull()
+    })
+
+    it("should set and clear the relayer per network", () => {
+      const { setRelayerUrl } = useSettingsStore.getState()
+
+      setRelayerUrl("devnet", "  https://relayer.example.com ")
+      expect(useSettingsStore.getState().getRelayerUrl("devnet")).toBe("https://relayer.example.com")
+      expect(useSettingsStore.getState().getRelayerUrl("mainnet-beta")).toBeNull()
+
+      setRelayerUrl("devnet", "")
+      expect(useSettingsStore.getState().getRelayerUrl("devnet")).toBeNull()
+    })
+
+    it("should reject non-http relayer URLs", () => {
+      useSettingsStore.getState().setRelayerUrl("devnet", "relayer.example.com")
+      expect(useSettingsStore.getState().getRelayerUrl("devnet")).toBeNull()
+    })
+  })
+
+  describe("RPC Profile Settings", () => {
+    const localnode = {
+      name: " Team node ",
+      network: "devnet" as const,
+      httpUrl: "http://10.0.0.5:8899",
+      wsUrl: "",
+      headers: { Authorization: "Bearer token" },
+    }
+
+    it("should add a trimmed profile and assign it per network", () => {
+      const { addRpcProfile, setActiveRpcProfile } = useSettingsStore.getState()
+
+      const id = addRpcProfile(localnode)
+      expect(id).not.toBeNull()
+      const [profile] = useSettingsStore.getState().rpcProfiles
+      expect(profile.name).toBe("Team node")
+      expect(profile.wsUrl).toBeUndefined()
+
+      setActiveRpcProfile("devnet", id)
+      expect(useSettingsStore.getState().getActiveRpcProfile("devnet")?.id).toBe(id)
+      expect(useSettingsStore.getState().getActiveRpcProfile("mainnet-beta")).toBeNull()
+    })
+
+    it("should reject invalid profiles and assignments to another network", () => {
+      const { addRpcProfile, setActiveRpcProfile } = useSettingsStore.getState()
+
+      expect(addRpcProfile({ ...localnode, httpUrl: "10.0.0.5:8899" })).toBeNull()
+      expect(addRpcProfile({ ...localnode, wsUrl: "http://10.0.0.5:8900" })).toBeNull()
+
+      const id = addRpcProfile(localnode)
+      setActiveRpcProfile("mainnet-beta", id)
+      expect(useSettingsStore.getState().activeRpcProfileIds).toEqual({})
+    })
+
+    it("should unassign a profile moved to another network", () => {
+      const { addRpcProfile, setActiveRpcProfile, updateRpcProfile } = useSettingsStore.getState()
+      const id = addRpcProfile(localnode)!
+      setActiveRpcProfile("devnet", id)
+
+      expect(updateRpcProfile(id, { network: "testnet" })).toBe(true)
+      expect(useSettingsStore.getState().activeRpcProfileIds).toEqual({})
+      expect(useSettingsStore.getState().rpcProfiles[0].network).toBe("testnet")
+    })
+
+    it("should unassign a removed profile", () => {
+      const { addRpcProfile, setActiveRpcProfile, removeRpcProfile } = useSettingsStore.getState()
+      const id = addRpcProfile(localnode)!
+      setActiveRpcProfile("devnet", id)
+
+      removeRpcProfile(id)
+      expect(useSettingsStore.getState().rpcProfiles).toEqual([])
+      expect(useSettingsStore.getState().getActiveRpcProfile("devnet")).toBeNull()
+    })
+  })
 })
 
 describe("Slippage Presets", () => {
@@ -5,11 +5,13 @@
 import { describe, it, expect, beforeEach } from "vitest"
 import { useSwapStore } from "@/stores/swap"
 import type { SwapRecord } from "@/types"
+import type { CreateSwapOrderInput } from "@/types/swapOrders"
 
 describe("Swap Store", () => {
   beforeEach(() => {
     useSwapStore.setState({
       swaps: [],
+      orders: [],
     })
   })
 
@@ -164,4 +166,60 @@ describe("Swap Store", () => {
       expect(swaps[0].claimStatus).toBe("claimed")
     })
   })
+
+  describe("Orders", () => {
+    const dcaOrder: CreateSwapOrderInput = {
+      type: "dca",
+      walletAddress: "FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr",
+      network: "mainnet-beta",
+      fromToken: "USDC",
+      toToken: "SOL",
+      amount: "100",
+      slippage: 0.5,
+      expiresAt: null,
+      totalFills: 2,
+      intervalMs: 24 * 60 * 60 * 1000,
+    }
+
+    it("should add an active order due right away", () => {
+      const order = useSwapStore.getState().addOrder(dcaOrder)
+
+      expect(order.id).toMatch(/^order_/)
+      expect(order.status).toBe("active")
+      expect(order.nextRunAt).toBeLessThanOrEqual(Date.now())
+      expect(useSwapStore.getState().orders).toHaveLength(1)
+    })
+
+    it("should record fills until the order is filled", () => {
+      const { addOrder, recordOrderFill, getOrder } = useSwapStore.getState()
+      const { id } = addOrder(dcaOrder)
+
+      recordOrderFill(id, { inputAmount: "50", outputAmount: "0.3" })
+      expect(getOrder(id)).toMatchObject({ fillCount: 1, filledAmount: "50", status: "active" })
+
+      recordOrderFill(id, { inputAmount: "50", outputAmount: "0.31" })
+      expect(getOrder(id)).toMatchObject({ fillCount: 2, receivedAmount: "0.61", status: "filled" })
+    })
+
+    it("should only pause, resume or cancel open orders", () => {
+      const { addOrder, setOrderPaused, cancelOrder, getOrder } = useSwapStore.getState()
+      const { id } = addOrder(dcaOrder)
+
+      setOrderPaused(id, true)
+      expect(getOrder(id)?.status).toBe("paused")
+
+      cancelOrder(id)
+      setOrderPaused(id, false)
+      expect(getOrder(id)?.status).toBe("cancelled")
+    })
+
+    it("should keep orders when clearing swap history", () => {
+      const { addOrder, clearHistory } = useSwapStore.getState()
+      addOrder(dcaOrder)
+
+      clearHistory()
+
+      expect(useSwapStore.getState().orders).toHaveLength(1)
+    })
+  })
 })
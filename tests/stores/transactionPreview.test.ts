@@ -0,0 +1,49 @@
+/**
+ * Transaction Preview Store Tests
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import { useTransactionPreviewStore } from "@/stores/transactionPreview"
+
+describe("Transaction Preview Store", () => {
+  beforeEach(() => {
+    useTransactionPreviewStore.setState({ pending: null })
+  })
+
+  it("should resolve with the user's answer", async () => {
+    const approval = useTransactionPreviewStore.getState().requestApproval("Send 1 SOL", null)
+    expect(useTransactionPreviewStore.getState().pending?.title).toBe("Send 1 SOL")
+
+    useTransactionPreviewStore.getState().respond(true)
+
+    await expect(approval).resolves.toBe(true)
+    expect(useTransactionPreviewStore.getState().pending).toBeNull()
+  })
+
+  it("should cancel a request replaced by a newer one", async () => {
+    const { requestApproval, respond } = useTransactionPreviewStore.getState()
+    const first = requestApproval("First", null)
+    const second = requestApproval("Second", null)
+
+    await expect(first).resolves.toBe(false)
+    expect(useTransactionPreviewStore.getState().pending?.title).toBe("Second")
+
+    respond(false)
+    await expect(second).resolves.toBe(false)
+  })
+
+  it("should carry extra details with the request", () => {
+    const { requestApproval } = useTransactionPreviewStore.getState()
+    requestApproval("Claim 1 SOL", null, [{ label: "Relayer fee", value: "0.000025 SOL" }])
+
+    expect(useTransactionPreviewStore.getState().pending?.details).toEqual([
+      { label: "Relayer fee", value: "0.000025 SOL" },
+    ])
+    void requestApproval("Send 1 SOL", null)
+    expect(useTransactionPreviewStore.getState().pending?.details).toEqual([])
+  })
+
+  it("should ignore a response with nothing pending", () => {
+    expect(() => useTransactionPreviewStore.getState().respond(true)).not.toThrow()
+  })
+})
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect, beforeEach } from "vitest"
-import { useWalletStore, formatAddress, WALLET_INFO, WALLET_EMOJIS } from "@/stores/wallet"
+import {
+  useWalletStore,
+  formatAddress,
+  getSwitchableAccounts,
+  WALLET_INFO,
+  WALLET_EMOJIS,
+} from "@/stores/wallet"
 
 describe("Wallet Store", () => {
   beforeEach(() => {
@@ -232,6 +238,39 @@ describe("Wallet Store", () => {
     })
   })
 
+  describe("Claim Accounts", () => {
+    it("should flag accounts created for claims", () => {
+      const { addAccount } = useWalletStore.getState()
+
+      const claim = addAccount({
+        address: "CLAIM123",
+        providerType: "native",
+        chain: "solana",
+        isClaimAccount: true,
+      })
+      const regular = addAccount({ address: "REGULAR123", providerType: "native", chain: "solana" })
+
+      expect(claim.isClaimAccount).toBe(true)
+      expect(regular.isClaimAccount).toBeUndefined()
+    })
+
+    it("should keep claim accounts out of the switchers unless active", () => {
+      const { addAccount } = useWalletStore.getState()
+
+      const regular = addAccount({ address: "REGULAR123", providerType: "native", chain: "solana" })
+      const claim = addAccount({
+        address: "CLAIM123",
+        providerType: "native",
+        chain: "solana",
+        isClaimAccount: true,
+      })
+      const { accounts } = useWalletStore.getState()
+
+      expect(getSwitchableAccounts(accounts, regular.id)).toEqual([regular])
+      expect(getSwitchableAccounts(accounts, claim.id)).toEqual([regular, claim])
+    })
+  })
+
   describe("Account Emoji", () => {
     it("should assign random emoji on account creation via addAccount", () => {
       const { addAccount } = useWalletStore.getState()
@@ -53,6 +53,13 @@ describe("Explorer Utilities", () => {
         const url = getExplorerTxUrl(TEST_TX_HASH, "testnet", "solana-explorer")
         expect(url).toBe(`https://explorer.solana.com/tx/${TEST_TX_HASH}?cluster=testnet`)
       })
+
+      it("should point localnet URLs at the local validator", () => {
+        const url = getExplorerTxUrl(TEST_TX_HASH, "localnet", "solana-explorer")
+        expect(url).toBe(
+          `https://explorer.solana.com/tx/${TEST_TX_HASH}?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899`
+        )
+      })
     })
   })
 
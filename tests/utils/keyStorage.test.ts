@@ -17,6 +17,8 @@ import {
   getPrivateKeyForAccount,
   getMnemonicForAccount,
   deleteWalletKeys,
+  getLastDerivedAccountIndex,
+  setLastDerivedAccountIndex,
   migrateFromLegacy,
 } from "@/utils/keyStorage"
 
@@ -252,6 +254,30 @@ describe("deleteWalletKeys", () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// Derived accounts: last handed-out index
+// ---------------------------------------------------------------------------
+
+describe("getLastDerivedAccountIndex", () => {
+  it("should start at 0 for a new seed", async () => {
+    expect(await getLastDerivedAccountIndex("root-a")).toBe(0)
+  })
+
+  it("should keep the index per seed after the account is deleted", async () => {
+    await setLastDerivedAccountIndex("root-a", 3)
+    await deleteWalletKeys("claim-account")
+
+    expect(await getLastDerivedAccountIndex("root-a")).toBe(3)
+    expect(await getLastDerivedAccountIndex("root-b")).toBe(0)
+  })
+
+  it("should treat a corrupt value as 0", async () => {
+    store["sip_derived_index_root-a"] = "not a number"
+
+    expect(await getLastDerivedAccountIndex("root-a")).toBe(0)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // Legacy migration: migrateFromLegacy
 // ---------------------------------------------------------------------------
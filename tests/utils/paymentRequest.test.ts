@@ -9,6 +9,9 @@ import { describe, it, expect } from "vitest"
 import {
   createPaymentRequest,
   parsePaymentRequest,
+  isPaymentRequestUrl,
+  isPaymentRequestExpired,
+  getPaymentRequestStatus,
 } from "@/utils/paymentRequest"
 
 describe("Payment Request", () => {
@@ -233,4 +236,62 @@ describe("Payment Request", () => {
       expect(parsed.memo).toBe(params.memo)
     })
   })
+
+  describe("invoice fields", () => {
+    const REFERENCE = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU"
+
+    it("should roundtrip id, expiry, label, message and reference", () => {
+      const params = {
+        stealthAddress: TEST_STEALTH,
+        amount: "25",
+        token: "USDC",
+        id: "req_1730000000000_abc1234",
+        expiresAt: 1730003600000,
+        label: "Kopi & Co",
+        message: "Invoice #42",
+        reference: REFERENCE,
+      }
+
+      expect(parsePaymentRequest(createPaymentRequest(params))).toEqual({ ...params, memo: undefined })
+    })
+
+    it("should leave invoice fields undefined for plain requests", () => {
+      const parsed = parsePaymentRequest(createPaymentRequest({ stealthAddress: TEST_STEALTH }))
+
+      expect(parsed.id).toBeUndefined()
+      expect(parsed.expiresAt).toBeUndefined()
+      expect(parsed.reference).toBeUndefined()
+    })
+
+    it("should throw for a malformed expiry", () => {
+      const url = `sipprotocol://pay?address=${encodeURIComponent(TEST_STEALTH)}&expires=tomorrow`
+
+      expect(() => parsePaymentRequest(url)).toThrow("'expires' must be a timestamp")
+    })
+
+    it("should throw for a reference that is not a public key", () => {
+      const url = `sipprotocol://pay?address=${encodeURIComponent(TEST_STEALTH)}&reference=not-a-key`
+
+      expect(() => parsePaymentRequest(url)).toThrow("'reference' must be a base58 public key")
+    })
+
+    it("should recognise payment request URLs", () => {
+      expect(isPaymentRequestUrl(` sipprotocol://pay?address=abc `)).toBe(true)
+      expect(isPaymentRequestUrl(TEST_STEALTH)).toBe(false)
+      expect(isPaymentRequestUrl("sipprotocol://send?address=abc")).toBe(false)
+    })
+
+    it("should expire only at or after expiresAt", () => {
+      expect(isPaymentRequestExpired({ expiresAt: 1000 }, 999)).toBe(false)
+      expect(isPaymentRequestExpired({ expiresAt: 1000 }, 1000)).toBe(true)
+      expect(isPaymentRequestExpired({}, Number.MAX_SAFE_INTEGER)).toBe(false)
+    })
+
+    it("should report open requests past their expiry as expired", () => {
+      expect(getPaymentRequestStatus({ status: "open", expiresAt: 1000 }, 500)).toBe("open")
+      expect(getPaymentRequestStatus({ status: "open", expiresAt: 1000 }, 1500)).toBe("expired")
+      expect(getPaymentRequestStatus({ status: "open", expiresAt: null }, 1500)).toBe("open")
+      expect(getPaymentRequestStatus({ status: "paid", expiresAt: 1000 }, 1500)).toBe("paid")
+    })
+  })
 })
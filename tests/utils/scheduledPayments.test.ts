@@ -0,0 +1,139 @@
+/**
+ * Scheduled Payment Utility Tests
+ *
+ * Cadence math, due checks and validation for recurring payments.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  advanceSchedule,
+  getContactStealthAddress,
+  getDueSchedules,
+  getOccurrenceAt,
+  parseDateInput,
+  formatDateInput,
+  validateSchedule,
+} from "@/utils/scheduledPayments"
+import type { Contact } from "@/types/contacts"
+import type { ScheduledPayment } from "@/types/scheduledPayments"
+
+const WALLET = "FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr"
+const STEALTH = "sip:solana:FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr:7nYBTm4PZ3Gk2Fv8RJxoLp9QWNhCdDmE5A1k3B6wVxRf"
+
+function schedule(overrides: Partial<ScheduledPayment> = {}): ScheduledPayment {
+  const startAt = new Date(2026, 0, 31).getTime()
+  return {
+    id: "schedule_1",
+    contactId: "contact_1",
+    walletAddress: WALLET,
+    network: "devnet",
+    amount: "500",
+    token: "USDC",
+    cadence: "monthly",
+    startAt,
+    endAt: null,
+    status: "active",
+    occurrence: 0,
+    nextRunAt: startAt,
+    runCount: 0,
+    lastRunAt: null,
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+describe("Scheduled Payments", () => {
+  describe("getOccurrenceAt", () => {
+    it("adds whole weeks for weekly and biweekly cadences", () => {
+      const start = new Date(2026, 2, 2).getTime()
+
+      expect(getOccurrenceAt(start, "weekly", 2)).toBe(new Date(2026, 2, 16).getTime())
+      expect(getOccurrenceAt(start, "biweekly", 2)).toBe(new Date(2026, 2, 30).getTime())
+    })
+
+    it("keeps the day of month, clamped to shorter months", () => {
+      const start = new Date(2026, 0, 31).getTime()
+
+      expect(new Date(getOccurrenceAt(start, "monthly", 1)).getDate()).toBe(28)
+      expect(new Date(getOccurrenceAt(start, "monthly", 2)).getDate()).toBe(31)
+      expect(new Date(getOccurrenceAt(start, "monthly", 3)).getDate()).toBe(30)
+      expect(new Date(getOccurrenceAt(start, "monthly", 12)).getFullYear()).toBe(2027)
+    })
+  })
+
+  describe("advanceSchedule", () => {
+    it("moves to the next occurrence", () => {
+      const next = advanceSchedule(schedule())
+
+      expect(next.occurrence).toBe(1)
+      expect(next.nextRunAt).toBe(new Date(2026, 1, 28).getTime())
+      expect(next.status).toBe("active")
+    })
+
+    it("completes once the next occurrence is past the end date", () => {
+      const endAt = new Date(2026, 1, 15).getTime()
+
+      expect(advanceSchedule(schedule({ endAt })).status).toBe("completed")
+    })
+  })
+
+  describe("getDueSchedules", () => {
+    it("returns the wallet's active schedules that are due, oldest first", () => {
+      const now = new Date(2026, 1, 1).getTime()
+      const schedules = [
+        schedule({ id: "later", nextRunAt: now - 1000 }),
+        schedule({ id: "earlier", nextRunAt: now - 2000 }),
+        schedule({ id: "future", nextRunAt: now + 1000 }),
+        schedule({ id: "paused", status: "paused", nextRunAt: now - 1000 }),
+        schedule({ id: "mainnet", network: "mainnet-beta", nextRunAt: now - 1000 }),
+        schedule({ id: "other-wallet", walletAddress: "other", nextRunAt: now - 1000 }),
+      ]
+
+      expect(getDueSchedules(schedules, WALLET, "devnet", now).map((s) => s.id)).toEqual([
+        "earlier",
+        "later",
+      ])
+    })
+  })
+
+  describe("getContactStealthAddress", () => {
+    const contact: Contact = {
+      id: "contact_1",
+      name: "Alice",
+      address: WALLET,
+      chain: "solana",
+      createdAt: 0,
+      lastPaymentAt: null,
+      paymentCount: 0,
+      isFavorite: false,
+    }
+
+    it("prefers the stealth meta-address, then a sip: address", () => {
+      expect(getContactStealthAddress({ ...contact, stealthMeta: STEALTH })).toBe(STEALTH)
+      expect(getContactStealthAddress({ ...contact, address: STEALTH })).toBe(STEALTH)
+    })
+
+    it("returns null for a plain address", () => {
+      expect(getContactStealthAddress(contact)).toBeNull()
+    })
+  })
+
+  describe("validation", () => {
+    it("requires a positive amount and an end after the start", () => {
+      expect(validateSchedule("500", 0, null).isValid).toBe(true)
+      expect(validateSchedule("0", 0, null).isValid).toBe(false)
+      expect(validateSchedule("abc", 0, null).isValid).toBe(false)
+      expect(validateSchedule("1", 1000, 0)).toEqual({
+        isValid: false,
+        error: "End date must be after the first payment",
+      })
+    })
+
+    it("parses YYYY-MM-DD dates and rejects impossible ones", () => {
+      expect(parseDateInput("2026-02-28")).toBe(new Date(2026, 1, 28).getTime())
+      expect(parseDateInput("2026-02-30")).toBeNull()
+      expect(parseDateInput("28/02/2026")).toBeNull()
+      expect(formatDateInput(new Date(2026, 1, 3).getTime())).toBe("2026-02-03")
+    })
+  })
+})
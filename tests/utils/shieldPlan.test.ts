@@ -0,0 +1,104 @@
+/**
+ * Shield plan — randomized parts and delays for moving a public balance into
+ * stealth addresses
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  planShieldParts,
+  parseBaseUnits,
+  MAX_SHIELD_PARTS,
+  MIN_SHIELD_DELAY_MS,
+} from "@/utils/shieldPlan"
+
+/** Deterministic sequence of "random" values */
+function sequence(...values: number[]): () => number {
+  let i = 0
+  return () => values[i++ % values.length]
+}
+
+function sum(parts: { amount: string }[], decimals: number): bigint {
+  return parts.reduce((total, p) => total + parseBaseUnits(p.amount, decimals), 0n)
+}
+
+describe("parseBaseUnits", () => {
+  it("converts decimal amounts to base units", () => {
+    expect(parseBaseUnits("1.5", 9)).toBe(1_500_000_000n)
+    expect(parseBaseUnits("42", 6)).toBe(42_000_000n)
+    expect(parseBaseUnits("0.1234567", 6)).toBe(123_456n)
+  })
+
+  it("rejects malformed amounts", () => {
+    expect(() => parseBaseUnits("1,5", 9)).toThrow("Invalid amount")
+    expect(() => parseBaseUnits("-1", 9)).toThrow("Invalid amount")
+    expect(() => parseBaseUnits("", 9)).toThrow("Invalid amount")
+  })
+})
+
+describe("planShieldParts", () => {
+  it("sends a single part right away", () => {
+    expect(planShieldParts("2.5", { parts: 1, decimals: 9, maxDelayMs: 60_000 })).toEqual([
+      { amount: "2.5", delayMs: 0 },
+    ])
+  })
+
+  it("splits into uneven parts that add up exactly", () => {
+    const plan = planShieldParts("10", {
+      parts: 3,
+      decimals: 6,
+      maxDelayMs: 0,
+      random: sequence(0.9, 0.1, 0.4),
+    })
+
+    expect(plan).toHaveLength(3)
+    expect(sum(plan, 6)).toBe(10_000_000n)
+    expect(new Set(plan.map((p) => p.amount)).size).toBe(3)
+    expect(plan.every((p) => p.delayMs === 0)).toBe(true)
+  })
+
+  it("keeps every part above dust", () => {
+    const plan = planShieldParts("1", {
+      parts: 5,
+      decimals: 9,
+      maxDelayMs: 0,
+      random: sequence(0, 0.99),
+    })
+
+    expect(sum(plan, 9)).toBe(1_000_000_000n)
+    // An even split is 0.2; the smallest weight is half of the average
+    for (const part of plan) {
+      expect(parseFloat(part.amount)).toBeGreaterThan(0.05)
+    }
+  })
+
+  it("waits a random delay before every part but the first", () => {
+    const plan = planShieldParts("3", {
+      parts: 3,
+      decimals: 9,
+      maxDelayMs: 120_000,
+      random: sequence(0.5),
+    })
+
+    expect(plan[0].delayMs).toBe(0)
+    for (const part of plan.slice(1)) {
+      expect(part.delayMs).toBeGreaterThanOrEqual(MIN_SHIELD_DELAY_MS)
+      expect(part.delayMs).toBeLessThanOrEqual(120_000)
+    }
+  })
+
+  it("caps the number of parts", () => {
+    expect(planShieldParts("100", { parts: 20, decimals: 6, maxDelayMs: 0 })).toHaveLength(MAX_SHIELD_PARTS)
+  })
+
+  it("uses fewer parts when the amount has too few base units", () => {
+    const plan = planShieldParts("0.000002", { parts: 5, decimals: 6, maxDelayMs: 0 })
+
+    expect(plan.map((p) => p.amount)).toEqual(["0.000001", "0.000001"])
+  })
+
+  it("rejects a zero amount", () => {
+    expect(() => planShieldParts("0", { parts: 2, decimals: 9, maxDelayMs: 0 })).toThrow(
+      "Amount must be greater than 0"
+    )
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Swap Order Utility Tests
+ *
+ * Fill sizing, limit price checks, due checks and validation for limit and
+ * DCA orders.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  applyOrderFailure,
+  applyOrderFill,
+  getNextFillAmount,
+  isOrderDue,
+  meetsLimitPrice,
+  validateSwapOrder,
+  ORDER_RETRY_DELAY_MS,
+} from "@/utils/swapOrders"
+import type { CreateSwapOrderInput, SwapOrder } from "@/types/swapOrders"
+
+const WALLET = "FGSkt8MwXH83daNNW8ZkoqhL1KLcLoZLcdGJz84BWWr"
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date(2026, 5, 1).getTime()
+
+function order(overrides: Partial<SwapOrder> = {}): SwapOrder {
+  return {
+    id: "order_1",
+    type: "dca",
+    walletAddress: WALLET,
+    network: "mainnet-beta",
+    fromToken: "USDC",
+    toToken: "SOL",
+    amount: "100",
+    slippage: 0.5,
+    expiresAt: null,
+    totalFills: 3,
+    intervalMs: DAY_MS,
+    status: "active",
+    nextRunAt: NOW,
+    fillCount: 0,
+    filledAmount: "0",
+    receivedAmount: "0",
+    lastFilledAt: null,
+    createdAt: NOW,
+    ...overrides,
+  }
+}
+
+function input(overrides: Partial<CreateSwapOrderInput> = {}): CreateSwapOrderInput {
+  return {
+    type: "dca",
+    walletAddress: WALLET,
+    network: "mainnet-beta",
+    fromToken: "USDC",
+    toToken: "SOL",
+    amount: "100",
+    slippage: 0.5,
+    expiresAt: null,
+    totalFills: 4,
+    intervalMs: DAY_MS,
+    ...overrides,
+  }
+}
+
+describe("getNextFillAmount", () => {
+  it("splits the amount evenly, the last fill taking the remainder", () => {
+    expect(getNextFillAmount(order(), 6)).toBe("33.333333")
+    expect(getNextFillAmount(order({ fillCount: 2, filledAmount: "66.666666" }), 6)).toBe("33.333334")
+  })
+
+  it("swaps the whole amount for a limit order", () => {
+    expect(getNextFillAmount(order({ type: "limit", totalFills: 1, amount: "2.5" }), 9)).toBe("2.5")
+  })
+})
+
+describe("meetsLimitPrice", () => {
+  const limit = order({ type: "limit", totalFills: 1, limitPrice: 0.01 })
+
+  it("compares the minimum received per input with the limit", () => {
+    expect(meetsLimitPrice(limit, "100", "1")).toBe(true)
+    expect(meetsLimitPrice(limit, "100", "0.99")).toBe(false)
+  })
+
+  it("always matches orders without a limit", () => {
+    expect(meetsLimitPrice(order(), "100", "0.5")).toBe(true)
+  })
+})
+
+describe("applyOrderFill", () => {
+  const decimals = { from: 6, to: 9 }
+
+  it("adds the fill and schedules the next one an interval later", () => {
+    const updates = applyOrderFill(order(), { inputAmount: "33.333333", outputAmount: "0.2" }, decimals, NOW + 1000)
+
+    expect(updates).toMatchObject({
+      fillCount: 1,
+      filledAmount: "33.333333",
+      receivedAmount: "0.2",
+      nextRunAt: NOW + DAY_MS,
+      status: "active",
+    })
+  })
+
+  it("doesn't catch up on missed fills back to back", () => {
+    const late = NOW + 3 * DAY_MS
+    const updates = applyOrderFill(order(), { inputAmount: "33.333333", outputAmount: "0.2" }, decimals, late)
+
+    expect(updates.nextRunAt).toBe(late + DAY_MS)
+  })
+
+  it("marks the order filled after its last fill", () => {
+    const updates = applyOrderFill(
+      order({ fillCount: 2, filledAmount: "66.666666", receivedAmount: "0.4" }),
+      { inputAmount: "33.333334", outputAmount: "0.21" },
+      decimals,
+      NOW
+    )
+
+    expect(updates.status).toBe("filled")
+    expect(updates.filledAmount).toBe("100")
+    expect(updates.receivedAmount).toBe("0.61")
+  })
+})
+
+describe("isOrderDue", () => {
+  it("is due once active and past its next run", () => {
+    expect(isOrderDue(order(), NOW)).toBe(true)
+    expect(isOrderDue(order({ nextRunAt: NOW + 1 }), NOW)).toBe(false)
+    expect(isOrderDue(order({ status: "paused" }), NOW)).toBe(false)
+  })
+
+  it("is never due past its expiry", () => {
+    expect(isOrderDue(order({ type: "limit", expiresAt: NOW - 1 }), NOW)).toBe(false)
+  })
+
+  it("backs off after a failed fill", () => {
+    const failed = order(applyOrderFailure("Transaction signing rejected", NOW))
+
+    expect(failed.lastError).toBe("Transaction signing rejected")
+    expect(isOrderDue(failed, NOW + ORDER_RETRY_DELAY_MS - 1)).toBe(false)
+    expect(isOrderDue(failed, NOW + ORDER_RETRY_DELAY_MS)).toBe(true)
+  })
+})
+
+describe("validateSwapOrder", () => {
+  it("accepts a valid DCA order", () => {
+    expect(validateSwapOrder(input(), 6, NOW)).toEqual({ isValid: true })
+  })
+
+  it("rejects a missing amount or matching tokens", () => {
+    expect(validateSwapOrder(input({ amount: "" }), 6, NOW).isValid).toBe(false)
+    expect(validateSwapOrder(input({ amount: "0" }), 6, NOW).isValid).toBe(false)
+    expect(validateSwapOrder(input({ toToken: "USDC" }), 6, NOW).error).toBe("Choose two different tokens")
+  })
+
+  it("requires a limit price and a future expiry for limit orders", () => {
+    const limit = input({ type: "limit", totalFills: 1, intervalMs: 0 })
+
+    expect(validateSwapOrder(limit, 6, NOW).error).toBe("Enter a limit price greater than 0")
+    expect(validateSwapOrder({ ...limit, limitPrice: 0.01, expiresAt: NOW }, 6, NOW).error).toBe(
+      "Expiry must be in the future"
+    )
+    expect(validateSwapOrder({ ...limit, limitPrice: 0.01, expiresAt: NOW + DAY_MS }, 6, NOW).isValid).toBe(true)
+  })
+
+  it("bounds the DCA fill count and interval", () => {
+    expect(validateSwapOrder(input({ totalFills: 1 }), 6, NOW).isValid).toBe(false)
+    expect(validateSwapOrder(input({ intervalMs: 60_000 }), 6, NOW).error).toBe(
+      "Fills must be at least an hour apart"
+    )
+  })
+
+  it("rejects fills smaller than one base unit", () => {
+    expect(validateSwapOrder(input({ amount: "0.000003" }), 6, NOW).error).toBe(
+      "Amount is too small to split into that many fills"
+    )
+  })
+})